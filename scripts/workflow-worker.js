@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Local Workflow Worker
+ * Polls the workflow, event and webhook cron routes so pending events reach their
+ * workflows, event subscriptions are delivered, waiting workflow instances resume
+ * and failed outbound webhooks are retried during local development (Vercel Cron
+ * does this in production).
+ *
+ * Usage:
+ *   node scripts/workflow-worker.js [--url http://localhost:3000] [--interval 30]
+ */
+
+const args = process.argv.slice(2);
+
+function getArg(name, fallback) {
+    const index = args.indexOf(`--${name}`);
+    return index > -1 && args[index + 1] ? args[index + 1] : fallback;
+}
+
+const baseUrl = getArg('url', process.env.WORKFLOW_WORKER_URL || 'http://localhost:3000');
+const intervalSeconds = parseInt(getArg('interval', process.env.WORKFLOW_WORKER_INTERVAL || '30'), 10);
+const endpoint = `${baseUrl.replace(/\/$/, '')}/api/cron/workflows`;
+const eventsEndpoint = `${baseUrl.replace(/\/$/, '')}/api/cron/events`;
+const webhooksEndpoint = `${baseUrl.replace(/\/$/, '')}/api/cron/webhooks`;
+
+let running = false;
+
+async function tick() {
+    if (running) return;
+    running = true;
+
+    try {
+        const response = await fetch(endpoint);
+        const body = await response.json();
+        const processed = body.instances?.processed ?? 0;
+        const dispatched = body.events?.processed ?? 0;
+
+        if (!response.ok || !body.success) {
+            console.error(`[WorkflowWorker] Sweep failed (${response.status}):`, body.error);
+        } else {
+            if (dispatched > 0) {
+                console.log(`[WorkflowWorker] Dispatched ${dispatched} event(s)`);
+            }
+            if (processed > 0) {
+                console.log(`[WorkflowWorker] Resumed ${processed} instance(s)`, body.instances.results);
+            }
+        }
+    } catch (error) {
+        console.error(`[WorkflowWorker] Could not reach ${endpoint}:`, error.message);
+    }
+
+    try {
+        const response = await fetch(eventsEndpoint);
+        const body = await response.json();
+        const delivered = body.deliveries?.processed ?? 0;
+
+        if (!response.ok || !body.success) {
+            console.error(`[WorkflowWorker] Event delivery failed (${response.status}):`, body.error);
+        } else if (delivered > 0) {
+            console.log(`[WorkflowWorker] Processed ${delivered} event deliveries`, body.deliveries.results);
+        }
+    } catch (error) {
+        console.error(`[WorkflowWorker] Could not reach ${eventsEndpoint}:`, error.message);
+    }
+
+    try {
+        const response = await fetch(webhooksEndpoint);
+        const body = await response.json();
+        const retried = body.deliveries?.processed ?? 0;
+
+        if (!response.ok || !body.success) {
+            console.error(`[WorkflowWorker] Webhook retry failed (${response.status}):`, body.error);
+        } else if (retried > 0) {
+            console.log(`[WorkflowWorker] Retried ${retried} webhook deliveries`, body.deliveries.results);
+        }
+    } catch (error) {
+        console.error(`[WorkflowWorker] Could not reach ${webhooksEndpoint}:`, error.message);
+    } finally {
+        running = false;
+    }
+}
+
+console.log(`[WorkflowWorker] Polling ${endpoint}, ${eventsEndpoint} and ${webhooksEndpoint} every ${intervalSeconds}s (Ctrl+C to stop)`);
+tick();
+setInterval(tick, intervalSeconds * 1000);
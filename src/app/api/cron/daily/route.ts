@@ -1,19 +1,21 @@
 import { NextResponse } from 'next/server';
 import { contractExpirationService } from '@/services/contractExpirationService';
 import { paymentService } from '@/services/paymentService';
+import { recurringInvoiceServerService } from '@/services/server/recurringInvoiceServerService';
+import { dunningServerService } from '@/services/server/dunningServerService';
 import { ENV } from '@/config/env';
 
 export const dynamic = 'force-dynamic'; // Ensure this route is not cached
 
 export async function GET(req: Request) {
     try {
-        const authHeader = req.headers.get('authorization');
-
-        // Simple security check using CRON_SECRET or verifying Vercel signature
-        // For Vercel Cron, it's recommended to check 'x-vercel-cron' header and/or a secret
-        // Here we use a Basic CRON_SECRET check if configured, or just assume Vercel Internal protection
-        // Ideally, in Vercel settings, you'd protect this path or use a secret query param.
-        // For now, we will log the attempt.
+        // Vercel Cron sends CRON_SECRET as a bearer token. The job bills and
+        // posts to every tenant's ledger with the service role, so any other
+        // caller is turned away
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
 
         console.log('Daily cron job triggered');
 
@@ -23,11 +25,19 @@ export async function GET(req: Request) {
         // 2. Renewable Billing
         const billingResults = await paymentService.processRecurringBilling();
 
+        // 3. Tenant recurring invoices
+        const recurringInvoiceResults = await recurringInvoiceServerService.processDueSchedules();
+
+        // 4. Overdue invoices: reminders and late fees
+        const dunningResults = await dunningServerService.processDunning();
+
         return NextResponse.json({
             success: true,
             timestamp: new Date().toISOString(),
             contracts: contractResults,
-            billing: billingResults
+            billing: billingResults,
+            recurringInvoices: recurringInvoiceResults,
+            dunning: dunningResults
         });
 
     } catch (error) {
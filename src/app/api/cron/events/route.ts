@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { eventConsumer } from '@/services/eventBus';
+// Registers the workflow_trigger delivery handler
+import '@/services/workflow/WorkflowEngine';
+// Registers the webhook_bridge handler that forwards tenant events to webhooks
+import '@/services/webhooks/eventBridge';
+// Registers the plugin_hooks handler that runs plugin code for tenant events
+import '@/services/plugins';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+    try {
+        // Vercel Cron sends CRON_SECRET as a bearer token. Deliveries run
+        // workflows, plugins and webhooks for every tenant, so any other
+        // caller is turned away
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        console.log('Event delivery cron triggered');
+
+        // Run subscription handlers for due deliveries; failures are
+        // retried with backoff and dead-lettered after max_attempts
+        const deliveries = await eventConsumer.processDeliveries();
+
+        return NextResponse.json({
+            success: true,
+            timestamp: new Date().toISOString(),
+            deliveries
+        });
+
+    } catch (error) {
+        console.error('Error in event delivery cron:', error);
+        return NextResponse.json({
+            success: false,
+            error: String(error)
+        }, { status: 500 });
+    }
+}
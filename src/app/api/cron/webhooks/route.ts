@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { webhookService } from '@/services/webhooks/webhookService';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: Request) {
+    try {
+        // Vercel Cron sends CRON_SECRET as a bearer token. Retries are sent
+        // for every tenant's endpoints with the service role, so any other
+        // caller is turned away
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
+        console.log('Webhook retry cron triggered');
+
+        // Retry failed outbound webhook deliveries whose backoff has
+        // elapsed; endpoints that keep failing are disabled as they go
+        const deliveries = await webhookService.retryFailedWebhooks();
+
+        return NextResponse.json({
+            success: true,
+            timestamp: new Date().toISOString(),
+            deliveries
+        });
+
+    } catch (error) {
+        console.error('Error in webhook retry cron:', error);
+        return NextResponse.json({
+            success: false,
+            error: String(error)
+        }, { status: 500 });
+    }
+}
@@ -1,14 +1,25 @@
 import { NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
 import { ENV } from '@/config/env';
+import { workflowEngine } from '@/services/workflow/WorkflowEngine';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(req: Request) {
     try {
+        // Vercel Cron sends CRON_SECRET as a bearer token. The sweep resumes
+        // workflow runs for every tenant, so any other caller is turned away
+        const cronSecret = process.env.CRON_SECRET;
+        if (!cronSecret || req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+            return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+        }
+
         console.log('Workflow sweep cron triggered');
 
-        // Call the Supabase Edge Function to process the queue
+        // 1. Resume durable workflow instances whose wait has elapsed
+        const instances = await workflowEngine.processDueInstances();
+
+        // 2. Call the Supabase Edge Function to process the queue
         // Using the service role key or a specific secret to bypass JWT in production if needed,
         // but here we utilize the Edge Function's internal capability.
 
@@ -28,6 +39,7 @@ export async function GET(req: Request) {
         return NextResponse.json({
             success: true,
             timestamp: new Date().toISOString(),
+            instances,
             result
         });
 
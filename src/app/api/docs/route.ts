@@ -1,10 +1,60 @@
 import { NextResponse } from 'next/server';
+import { getPayloadJsonSchema, getWebhookEventGroups } from '@/services/eventBus/catalog';
+import { SIGNATURE_TOLERANCE_SECONDS } from '@/services/webhooks/webhookService';
 
 /**
  * OpenAPI/Swagger documentation endpoint
  * Serves interactive API documentation
  */
 
+// Published with the Webhooks tag so integrators can check deliveries
+const WEBHOOK_VERIFICATION_GUIDE = `Outbound webhooks are POSTed as JSON (see the WebhookEvent schema) with these headers:
+
+- \`X-AlphaClone-Event\`: event type, e.g. \`invoice.paid\`
+- \`X-AlphaClone-Delivery\`: delivery id; retries of a delivery reuse it, so use it to skip duplicates
+- \`X-AlphaClone-Timestamp\`: unix seconds the request was signed at
+- \`X-AlphaClone-Signature\`: \`t=<timestamp>,v1=<signature>\`
+
+\`v1\` is the hex HMAC-SHA256 of \`<timestamp>.<raw request body>\` keyed with the endpoint's signing secret. While a secret is being rotated the header carries one \`v1\` per active secret; accept the request if any matches. Reject requests whose timestamp is more than ${SIGNATURE_TOLERANCE_SECONDS} seconds old to stop replays, and compare signatures in constant time.
+
+\`\`\`js
+const crypto = require('crypto');
+
+function verifyAlphaCloneWebhook(rawBody, header, secret, toleranceSeconds = ${SIGNATURE_TOLERANCE_SECONDS}) {
+    const parts = header.split(',').map(part => part.trim().split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+    const expected = Buffer.from(
+        crypto.createHmac('sha256', secret).update(\`\${timestamp}.\${rawBody}\`).digest('hex')
+    );
+    return signatures.some(signature => {
+        const candidate = Buffer.from(signature);
+        return candidate.length === expected.length && crypto.timingSafeEqual(candidate, expected);
+    });
+}
+\`\`\`
+
+Verify against the raw body exactly as received, before parsing it as JSON.`;
+
+// Schema of data for every event type endpoints can subscribe to, one per payload version
+const WEBHOOK_PAYLOAD_SCHEMAS = Object.fromEntries(
+    getWebhookEventGroups().flatMap(({ events }) => events.flatMap(entry =>
+        Object.keys(entry.versions).map(version => [
+            `WebhookPayload.${entry.type}.v${version}`,
+            { description: entry.description, ...getPayloadJsonSchema(entry.type, Number(version)) },
+        ])
+    ))
+);
+
+const WEBHOOK_EVENT_LIST = `Endpoints subscribe to these event types, or to a whole category with \`<category>.*\`. \`version\` in the body is the payload version; its \`data\` follows the \`WebhookPayload.<type>.v<version>\` schema. Fields may be added within a version, so ignore ones you don't know.
+
+${getWebhookEventGroups().map(({ events }) =>
+    events.map(entry => `- \`${entry.type}\` (v${entry.currentVersion}): ${entry.description}`).join('\n')
+).join('\n')}`;
+
 const openApiSpec = {
     openapi: '3.0.0',
     info: {
@@ -76,6 +126,19 @@ const openApiSpec = {
                     created_at: { type: 'string', format: 'date-time' },
                 },
             },
+            WebhookEvent: {
+                type: 'object',
+                description: 'Body of an outbound webhook request',
+                properties: {
+                    id: { type: 'string', format: 'uuid', description: 'Event id; the same event is never forwarded twice to an endpoint' },
+                    type: { type: 'string', example: 'invoice.paid' },
+                    version: { type: 'integer', example: 1, description: 'Payload schema version of data' },
+                    data: { type: 'object' },
+                    tenantId: { type: 'string', format: 'uuid' },
+                    timestamp: { type: 'string', format: 'date-time' },
+                },
+            },
+            ...WEBHOOK_PAYLOAD_SCHEMAS,
             Error: {
                 type: 'object',
                 properties: {
@@ -366,7 +429,7 @@ const openApiSpec = {
         { name: 'Projects', description: 'Project management' },
         { name: 'Invoices', description: 'Invoice management' },
         { name: 'Analytics', description: 'Analytics and reporting' },
-        { name: 'Webhooks', description: 'Webhook management' },
+        { name: 'Webhooks', description: `Webhook management\n\n${WEBHOOK_EVENT_LIST}\n\n${WEBHOOK_VERIFICATION_GUIDE}` },
     ],
 };
 
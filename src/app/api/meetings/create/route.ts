@@ -16,7 +16,8 @@ export async function POST(req: NextRequest) {
             maxParticipants = 10,
             durationMinutes = 40,
             calendarEventId,
-            participants = []
+            participants = [],
+            tenantId
         } = body;
 
         // Validation
@@ -81,6 +82,7 @@ export async function POST(req: NextRequest) {
         const { data: videoCall, error: videoCallError } = await supabase
             .from('video_calls')
             .insert({
+                tenant_id: tenantId || null,
                 room_id: dailyRoom.name,
                 daily_room_url: dailyRoom.url,
                 daily_room_name: dailyRoom.name,
@@ -112,6 +114,7 @@ export async function POST(req: NextRequest) {
         const { data: meetingLink, error: linkError } = await supabase
             .from('meeting_links')
             .insert({
+                tenant_id: tenantId || null,
                 meeting_id: videoCall.id,
                 link_token: linkToken,
                 expires_at: expiresAt,
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { pluginManager } from '@/services/plugins';
+import { getTenantPluginAccess } from '@/services/plugins/access';
+
+/**
+ * POST /api/plugins/[id]/render
+ *
+ * Renders a UI component an installed plugin declares (dashboard widget,
+ * settings page or menu route). Its handler runs in the plugin sandbox and
+ * returns a declarative view; no plugin code reaches the browser.
+ *
+ * Body: { component: string, route?: string, params?: object }
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await req.json().catch(() => ({}));
+
+        if (typeof body.component !== 'string' || !body.component) {
+            return NextResponse.json({ error: 'component is required' }, { status: 400 });
+        }
+
+        const access = await getTenantPluginAccess(supabase, user.id, id);
+        if (!access) {
+            return NextResponse.json({ error: 'Plugin not found' }, { status: 404 });
+        }
+
+        const view = await pluginManager.renderComponent(id, body.component, {
+            userId: user.id,
+            route: typeof body.route === 'string' ? body.route : undefined,
+            params: body.params && typeof body.params === 'object' ? body.params : {}
+        });
+
+        return NextResponse.json({ view });
+
+    } catch (error: any) {
+        console.error('Plugin Render Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { pluginManager } from '@/services/plugins';
+import { getTenantPluginAccess } from '@/services/plugins/access';
+import { redactConfigSecrets } from '@/services/plugins/secrets';
+
+/**
+ * GET /api/plugins/[id]/settings
+ *
+ * An installed plugin's settings (from its manifest) and current config.
+ * Secret settings only report whether they are set.
+ */
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const access = await getTenantPluginAccess(supabase, user.id, id);
+        if (!access?.canConfigure) {
+            return NextResponse.json({ error: 'Plugin not found' }, { status: 404 });
+        }
+
+        const { data: row, error } = await supabase
+            .from('tenant_plugins')
+            .select('config, plugins(manifest)')
+            .eq('id', id)
+            .single();
+
+        if (error) throw error;
+
+        const settings = (row.plugins as any)?.manifest?.settings || [];
+        return NextResponse.json({ settings, config: redactConfigSecrets(settings, row.config || {}) });
+
+    } catch (error: any) {
+        console.error('Plugin Settings Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
+
+/**
+ * PUT /api/plugins/[id]/settings
+ *
+ * Saves settings from the generated settings form. Secret settings are
+ * encrypted at rest; leaving one blank keeps its stored value.
+ *
+ * Body: { config: object }
+ */
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await req.json().catch(() => ({}));
+
+        const access = await getTenantPluginAccess(supabase, user.id, id);
+        if (!access?.canConfigure) {
+            return NextResponse.json({ error: 'Plugin not found' }, { status: 404 });
+        }
+
+        const { config, errors } = await pluginManager.saveSettings(id, body.config || {});
+        if (errors) {
+            return NextResponse.json({ error: 'Invalid settings', errors }, { status: 400 });
+        }
+
+        return NextResponse.json({ success: true, config });
+
+    } catch (error: any) {
+        console.error('Plugin Settings Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
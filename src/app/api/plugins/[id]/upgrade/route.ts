@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { pluginManager, PluginDependencyError, PluginUpgradeError } from '@/services/plugins';
+import { getTenantPluginAccess } from '@/services/plugins/access';
+
+/**
+ * POST /api/plugins/[id]/upgrade
+ *
+ * Upgrades an installed plugin to a newer release (the latest by default).
+ * A failed upgrade has already been rolled back when it is reported.
+ *
+ * Body: { version?: string }
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await req.json().catch(() => ({}));
+
+        const access = await getTenantPluginAccess(supabase, user.id, id);
+        if (!access?.canConfigure) {
+            return NextResponse.json({ error: 'Plugin not found' }, { status: 404 });
+        }
+
+        const result = await pluginManager.upgradePlugin(access.tenantId, access.pluginId, body.version);
+        return NextResponse.json({ success: true, ...result });
+
+    } catch (error: any) {
+        if (error instanceof PluginDependencyError) {
+            return NextResponse.json({ error: error.message, plugins: error.plugins }, { status: 409 });
+        }
+        if (error instanceof PluginUpgradeError) {
+            return NextResponse.json({ error: error.message, rolledBackTo: error.fromVersion }, { status: 422 });
+        }
+        console.error('Plugin Upgrade Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
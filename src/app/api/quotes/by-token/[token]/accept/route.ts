@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidSignatureDataUrl, quoteServerService } from '@/services/server/quoteServerService';
+
+/**
+ * POST /api/quotes/by-token/[token]/accept
+ *
+ * Client accepts the quote with their signature and chosen optional items
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+        const body = await req.json();
+        const { selectedItemIds, signerName, signerEmail, signatureDataUrl, consent } = body;
+
+        if (!signerName || !signerEmail || !signatureDataUrl) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        if (!isValidSignatureDataUrl(signatureDataUrl)) {
+            return NextResponse.json({ error: 'The signature must be a PNG or JPEG image of at most 200 KB' }, { status: 400 });
+        }
+
+        if (!consent) {
+            return NextResponse.json({ error: 'Consent to sign electronically is required' }, { status: 400 });
+        }
+
+        const result = await quoteServerService.acceptQuote({
+            token,
+            selectedItemIds: Array.isArray(selectedItemIds) ? selectedItemIds : [],
+            signerName,
+            signerEmail,
+            signatureDataUrl,
+            ipAddress: req.headers.get('x-forwarded-for') || '127.0.0.1',
+            userAgent: req.headers.get('user-agent') || 'unknown'
+        });
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error: any) {
+        console.error('Quote Accept Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 400 });
+    }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { quoteServerService } from '@/services/server/quoteServerService';
+
+/**
+ * GET /api/quotes/by-token/[token]
+ *
+ * Quote shown on the public acceptance page; each load counts as a view
+ */
+export async function GET(
+    req: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+
+        const quote = await quoteServerService.getPublicQuote(token, {
+            ipAddress: req.headers.get('x-forwarded-for') || '127.0.0.1',
+            userAgent: req.headers.get('user-agent') || 'unknown'
+        });
+
+        if (!quote) {
+            return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ quote });
+    } catch (error: any) {
+        console.error('Public Quote Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
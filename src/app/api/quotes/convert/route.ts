@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { quoteServerService } from '@/services/server/quoteServerService';
+
+/**
+ * POST /api/quotes/convert
+ *
+ * Convert an accepted quote by hand, e.g. when automatic conversion failed
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { quoteId } = await req.json();
+        if (!quoteId) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        // The user's own client only sees quotes of their tenants
+        const { data: quote } = await supabase
+            .from('quotes')
+            .select('id')
+            .eq('id', quoteId)
+            .maybeSingle();
+
+        if (!quote) {
+            return NextResponse.json({ error: 'Quote not found' }, { status: 404 });
+        }
+
+        const result = await quoteServerService.convertQuote(quoteId);
+
+        return NextResponse.json({ success: true, ...result });
+    } catch (error: any) {
+        console.error('Quote Convert Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { stripe } from '@/lib/stripe';
 import { createAdminClient } from '@/lib/supabaseServer';
+import { getCurrencyDecimals } from '@/services/accounting/currency';
 
 export async function POST(req: Request) {
     try {
@@ -24,6 +25,12 @@ export async function POST(req: Request) {
             return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
         }
 
+        // Partially paid invoices are charged their remaining balance
+        const amountDue = parseFloat(invoice.amount_due ?? invoice.total);
+        if (!(amountDue > 0)) {
+            return NextResponse.json({ error: 'Invoice is already paid' }, { status: 400 });
+        }
+
         // 2. Check if tenant has a connected Stripe account for Direct Charges
         const { data: tenantData, error: tenantError } = await supabaseAdmin
             .from('tenants')
@@ -41,12 +48,13 @@ export async function POST(req: Request) {
             line_items: [
                 {
                     price_data: {
-                        currency: 'usd',
+                        currency: (invoice.currency || 'USD').toLowerCase(),
                         product_data: {
                             name: `Invoice #${invoice.invoice_number}`,
                             description: `Payment for services - ${invoice.tenant?.name || 'AlphaClone Business'}`,
                         },
-                        unit_amount: Math.round(invoice.total * 100), // Stripe expects cents
+                        // Stripe expects the smallest currency unit (cents, or yen for JPY)
+                        unit_amount: Math.round(amountDue * Math.pow(10, getCurrencyDecimals(invoice.currency || 'USD'))),
                     },
                     quantity: 1,
                 },
@@ -125,12 +125,16 @@ export async function POST(req: Request) {
                 if (session.metadata?.type === 'business_invoice') {
                     const invoiceId = session.metadata.invoiceId;
                     if (invoiceId) {
-                        const { success, error } = await invoiceServerService.markAsPaid(invoiceId);
+                        const { success, error } = await invoiceServerService.recordStripePayment(invoiceId, {
+                            amount: session.amount_total,
+                            currency: session.currency,
+                            paymentIntentId: session.payment_intent || session.id,
+                        });
                         if (!success) {
-                            console.error(`Failed to mark invoice ${invoiceId} as paid: ${error}`);
+                            console.error(`Failed to record payment for invoice ${invoiceId}: ${error}`);
                             throw new Error(error || 'Failed to process invoice payment');
                         }
-                        console.log(`Invoice ${invoiceId} marked as paid via webhook.`);
+                        console.log(`Payment for invoice ${invoiceId} recorded via webhook.`);
                     }
                     break;
                 }
@@ -345,6 +349,17 @@ export async function POST(req: Request) {
                         })
                         .eq('stripe_payment_intent_id', charge.payment_intent);
 
+                    // Refunds of invoice payments are credited back through the ledger
+                    const { success, error } = await invoiceServerService.recordStripeRefund({
+                        paymentIntentId: charge.payment_intent,
+                        amountRefunded: charge.amount_refunded,
+                        currency: charge.currency,
+                    });
+                    if (!success) {
+                        console.error(`Failed to record refund for payment ${charge.payment_intent}: ${error}`);
+                        throw new Error(error || 'Failed to process refund');
+                    }
+
                     console.log(`Payment ${charge.payment_intent} refunded.`);
                 }
                 break;
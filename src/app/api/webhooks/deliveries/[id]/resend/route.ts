@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { webhookService } from '@/services/webhooks/webhookService';
+
+/**
+ * POST /api/webhooks/deliveries/[id]/resend
+ *
+ * Sends a logged outbound webhook delivery's payload again as a new delivery.
+ * Only tenant admins of the endpoint's tenant can see (and so resend) a delivery.
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+
+        // RLS limits deliveries to the caller's tenants
+        const { data: original } = await supabase
+            .from('webhook_deliveries')
+            .select('id')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (!original) {
+            return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+        }
+
+        const delivery = await webhookService.resendDelivery(id);
+
+        return NextResponse.json({ success: true, delivery });
+
+    } catch (error: any) {
+        console.error('Webhook Resend Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
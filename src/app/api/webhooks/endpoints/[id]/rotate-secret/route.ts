@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { webhookService } from '@/services/webhooks/webhookService';
+
+/**
+ * POST /api/webhooks/endpoints/[id]/rotate-secret
+ *
+ * Issues a new signing secret for an outbound webhook endpoint. The old secret
+ * keeps being signed with for `overlapHours` (default 24) so the receiver can
+ * switch over. The new secret is only returned here.
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await req.json().catch(() => ({}));
+
+        // RLS limits endpoints to the caller's tenants
+        const { data: webhook } = await supabase
+            .from('notification_webhooks')
+            .select('id')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (!webhook) {
+            return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const overlapHours = Number(body.overlapHours);
+        const rotation = await webhookService.rotateSecret(
+            id,
+            Number.isFinite(overlapHours) && overlapHours >= 0 && overlapHours <= 168 ? overlapHours : undefined
+        );
+
+        return NextResponse.json({ success: true, ...rotation });
+
+    } catch (error: any) {
+        console.error('Webhook Secret Rotation Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
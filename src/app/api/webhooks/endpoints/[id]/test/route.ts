@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { webhookService } from '@/services/webhooks/webhookService';
+
+/**
+ * POST /api/webhooks/endpoints/[id]/test
+ *
+ * Sends a webhook.test event to an outbound webhook endpoint.
+ * The attempt shows up in the endpoint's delivery log.
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+
+        // RLS limits endpoints to the caller's tenants
+        const { data: webhook } = await supabase
+            .from('notification_webhooks')
+            .select('id')
+            .eq('id', id)
+            .maybeSingle();
+
+        if (!webhook) {
+            return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+        }
+
+        const delivered = await webhookService.testWebhook(id);
+
+        return NextResponse.json({ success: true, delivered });
+
+    } catch (error: any) {
+        console.error('Webhook Test Error:', error);
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 });
+    }
+}
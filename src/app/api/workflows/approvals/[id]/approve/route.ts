@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { workflowServerService } from '@/services/server/workflowServerService';
+
+/**
+ * POST /api/workflows/approvals/[id]/approve
+ *
+ * Approves a pending workflow approval request and resumes the paused instance.
+ * Only users listed as approvers on the request may decide it.
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+        const body = await req.json().catch(() => ({}));
+
+        const { approval, instanceStatus } = await workflowServerService.decideApproval(
+            id,
+            user.id,
+            'approved',
+            body.comment
+        );
+
+        return NextResponse.json({ success: true, approval, instanceStatus });
+
+    } catch (error: any) {
+        console.error('Workflow Approval Error:', error);
+        const status = error.message?.includes('not found') ? 404
+            : error.message?.includes('not an approver') ? 403
+                : error.message?.includes('already been') ? 409
+                    : 500;
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status });
+    }
+}
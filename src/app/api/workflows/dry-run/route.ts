@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { workflowServerService } from '@/services/server/workflowServerService';
+
+/**
+ * POST /api/workflows/dry-run
+ *
+ * Runs a workflow definition against sample input with side-effecting steps
+ * stubbed, for the builder's dry-run panel. Only members of the tenant may run it.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { tenantId, definition, inputData, options } = await req.json().catch(() => ({}));
+
+        if (!tenantId || !definition) {
+            return NextResponse.json({ error: 'Tenant ID and definition are required' }, { status: 400 });
+        }
+
+        const { data: membership } = await supabase
+            .from('tenant_users')
+            .select('tenant_id')
+            .eq('tenant_id', tenantId)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (!membership) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const result = await workflowServerService.dryRun(tenantId, definition, inputData, options);
+
+        return NextResponse.json({ success: true, result });
+
+    } catch (error: any) {
+        console.error('Workflow Dry Run Error:', error);
+        const status = error.message?.startsWith('Invalid workflow definition') ? 400 : 500;
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status });
+    }
+}
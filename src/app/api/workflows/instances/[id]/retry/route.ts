@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabaseServer';
+import { workflowServerService } from '@/services/server/workflowServerService';
+
+/**
+ * POST /api/workflows/instances/[id]/retry
+ *
+ * Retries a failed workflow instance from the step that failed.
+ * Only members of the workflow's tenant may retry it.
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const supabase = await createClient();
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+        if (authError || !user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const { id } = await params;
+
+        const { data: instance } = await supabase
+            .from('workflow_instances')
+            .select('id, workflow:workflows(tenant_id)')
+            .eq('id', id)
+            .maybeSingle();
+
+        const tenantId = (instance?.workflow as any)?.tenant_id;
+        if (!tenantId) {
+            return NextResponse.json({ error: 'Workflow instance not found' }, { status: 404 });
+        }
+
+        const { data: membership } = await supabase
+            .from('tenant_users')
+            .select('tenant_id')
+            .eq('tenant_id', tenantId)
+            .eq('user_id', user.id)
+            .maybeSingle();
+
+        if (!membership) {
+            return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+
+        const status = await workflowServerService.retryInstance(id);
+
+        return NextResponse.json({ success: true, status });
+
+    } catch (error: any) {
+        console.error('Workflow Retry Error:', error);
+        const status = error.message?.includes('Only failed') ? 409 : 500;
+        return NextResponse.json({ error: error.message || 'Internal server error' }, { status });
+    }
+}
@@ -6,6 +6,7 @@ import { businessInvoiceService, BusinessInvoice } from '@/services/businessInvo
 import { Card, Button, Badge } from '@/components/ui/UIComponents';
 import { FileText, CreditCard, Calendar, Download, ShieldCheck, CheckCircle2 } from 'lucide-react';
 import jsPDF from 'jspdf';
+import { formatCurrency } from '@/services/accounting/currency';
 
 export default function PublicInvoicePage() {
     const params = useParams();
@@ -92,6 +93,9 @@ export default function PublicInvoicePage() {
     }
 
     const isPaid = invoice.status === 'paid';
+    const amountPaid = parseFloat(invoice.amount_paid || 0);
+    const amountCredited = parseFloat(invoice.amount_credited || 0);
+    const amountDue = parseFloat(invoice.amount_due ?? invoice.total);
 
     return (
         <div className="min-h-screen bg-slate-950 text-white p-6 md:p-12 font-sans selection:bg-teal-500/30">
@@ -121,7 +125,7 @@ export default function PublicInvoicePage() {
                                 <h2 className="text-3xl font-mono font-bold text-white">{invoice.invoice_number || invoice.invoiceNumber}</h2>
                             </div>
                             <Badge variant={isPaid ? 'success' : 'neutral'} className="px-4 py-1.5 text-sm uppercase">
-                                {invoice.status}
+                                {invoice.status.replace('_', ' ')}
                             </Badge>
                         </div>
 
@@ -144,9 +148,9 @@ export default function PublicInvoicePage() {
                                     <div key={idx} className="flex justify-between items-center bg-slate-950/30 p-4 rounded-xl border border-white/5">
                                         <div>
                                             <p className="font-semibold text-slate-200">{item.description}</p>
-                                            <p className="text-xs text-slate-500">Qty: {item.quantity} &times; ${item.rate.toFixed(2)}</p>
+                                            <p className="text-xs text-slate-500">Qty: {item.quantity} &times; {formatCurrency(item.rate, invoice.currency)}</p>
                                         </div>
-                                        <p className="font-mono font-bold text-teal-400">${item.amount.toLocaleString()}</p>
+                                        <p className="font-mono font-bold text-teal-400">{formatCurrency(item.amount, invoice.currency)}</p>
                                     </div>
                                 ))}
                             </div>
@@ -156,15 +160,35 @@ export default function PublicInvoicePage() {
                         <div className="mt-8 pt-8 border-t border-white/5 space-y-3">
                             <div className="flex justify-between text-slate-400">
                                 <span>Subtotal</span>
-                                <span className="font-mono">${invoice.subtotal.toLocaleString()}</span>
+                                <span className="font-mono">{formatCurrency(invoice.subtotal, invoice.currency)}</span>
                             </div>
                             <div className="flex justify-between text-slate-400">
                                 <span>Tax (0%)</span>
-                                <span className="font-mono">$0.00</span>
+                                <span className="font-mono">{formatCurrency(0, invoice.currency)}</span>
                             </div>
+                            {(amountPaid > 0 || amountCredited > 0) && (
+                                <>
+                                    <div className="flex justify-between text-slate-400">
+                                        <span>Total</span>
+                                        <span className="font-mono">{formatCurrency(invoice.total, invoice.currency)}</span>
+                                    </div>
+                                    {amountPaid > 0 && (
+                                        <div className="flex justify-between text-slate-400">
+                                            <span>Paid</span>
+                                            <span className="font-mono">-{formatCurrency(amountPaid, invoice.currency)}</span>
+                                        </div>
+                                    )}
+                                    {amountCredited > 0 && (
+                                        <div className="flex justify-between text-slate-400">
+                                            <span>Credited</span>
+                                            <span className="font-mono">-{formatCurrency(amountCredited, invoice.currency)}</span>
+                                        </div>
+                                    )}
+                                </>
+                            )}
                             <div className="flex justify-between items-center text-white pt-4">
-                                <span className="text-xl font-bold">Total Amount Due</span>
-                                <span className="text-4xl font-mono font-black text-teal-500">${invoice.total.toLocaleString()}</span>
+                                <span className="text-xl font-bold">{amountPaid > 0 || amountCredited > 0 ? 'Balance Due' : 'Total Amount Due'}</span>
+                                <span className="text-4xl font-mono font-black text-teal-500">{formatCurrency(amountDue, invoice.currency)}</span>
                             </div>
                         </div>
                     </Card>
@@ -195,6 +219,13 @@ export default function PublicInvoicePage() {
                                     <p className="text-xs text-teal-500 font-mono uppercase tracking-widest">Transaction Verified</p>
                                 </div>
                             </Card>
+                        ) : invoice.status === 'void' ? (
+                            <Card className="p-8 border-slate-800 bg-slate-900 text-center space-y-4">
+                                <h3 className="text-2xl font-bold">Invoice Credited</h3>
+                                <p className="text-slate-400 text-sm leading-relaxed">
+                                    {invoice.invoice_number || invoice.invoiceNumber} has been cancelled by a credit note. Nothing is due.
+                                </p>
+                            </Card>
                         ) : (
                             <div className="space-y-6">
                                 <Card className="p-8 border-slate-800 bg-slate-900 shadow-2xl space-y-8">
@@ -228,7 +259,7 @@ export default function PublicInvoicePage() {
                                                     <div className="w-5 h-5 border-2 border-black/20 border-t-black rounded-full animate-spin"></div>
                                                     Processing...
                                                 </span>
-                                            ) : `Pay $${invoice.total.toLocaleString()} Now`}
+                                            ) : `Pay ${formatCurrency(amountDue, invoice.currency)} Now`}
                                         </button>
                                     </div>
 
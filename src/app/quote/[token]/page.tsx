@@ -0,0 +1,292 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { FileText, CheckCircle, Loader2, ShieldCheck, CreditCard } from 'lucide-react';
+import toast, { Toaster } from 'react-hot-toast';
+import { SignaturePad } from '../../../components/contracts/SignaturePad';
+import { calculateQuoteTotals } from '../../../services/quoteService';
+import { esignatureComplianceService } from '../../../services/esignatureComplianceService';
+import { formatCurrency, roundMoney } from '../../../services/accounting/currency';
+import type { PublicQuote } from '../../../services/server/quoteServerService';
+
+const inputClass = 'w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl focus:outline-none focus:border-teal-500';
+
+export default function PublicQuotePage() {
+    const params = useParams();
+    const token = params.token as string;
+
+    const [quote, setQuote] = useState<PublicQuote | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [signerName, setSignerName] = useState('');
+    const [signerEmail, setSignerEmail] = useState('');
+    const [consent, setConsent] = useState(false);
+    const [signatureData, setSignatureData] = useState<string | null>(null);
+    const [accepting, setAccepting] = useState(false);
+
+    const loadQuote = async () => {
+        try {
+            const response = await fetch(`/api/quotes/by-token/${token}`);
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+
+            setQuote(data.quote);
+            setSelected(new Set(data.quote.items.filter((item: any) => item.isOptional && item.isSelected).map((item: any) => item.id)));
+        } catch (error) {
+            console.error('Error loading quote:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (token) {
+            loadQuote();
+        }
+    }, [token]);
+
+    const toggleItem = (itemId: string) => {
+        const next = new Set(selected);
+        if (next.has(itemId)) next.delete(itemId);
+        else next.add(itemId);
+        setSelected(next);
+    };
+
+    const handleAccept = async () => {
+        if (!signerName.trim() || !signerEmail.trim()) {
+            toast.error('Please enter your name and email');
+            return;
+        }
+        if (!consent || !signatureData) {
+            toast.error('Please agree to sign electronically and draw your signature');
+            return;
+        }
+
+        setAccepting(true);
+        try {
+            const response = await fetch(`/api/quotes/by-token/${token}/accept`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    selectedItemIds: Array.from(selected),
+                    signerName: signerName.trim(),
+                    signerEmail: signerEmail.trim(),
+                    signatureDataUrl: signatureData,
+                    consent
+                })
+            });
+
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
+
+            setQuote(data.quote);
+            toast.success('Quote accepted. Thank you!');
+        } catch (error: any) {
+            console.error('Acceptance error:', error);
+            toast.error(error.message || 'Failed to accept quote');
+        } finally {
+            setAccepting(false);
+        }
+    };
+
+    if (loading) {
+        return <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white"><Loader2 className="w-8 h-8 animate-spin text-teal-500" /></div>;
+    }
+
+    if (!quote) {
+        return <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white">Quote not found</div>;
+    }
+
+    const isOpen = quote.status === 'sent' || quote.status === 'viewed';
+    const isAccepted = quote.status === 'accepted' || quote.status === 'converted';
+    const items = quote.items.map(item => ({
+        ...item,
+        isSelected: isOpen ? !item.isOptional || selected.has(item.id) : item.isSelected
+    }));
+    const totals = isOpen
+        ? calculateQuoteTotals(items, quote.discountAmount, quote.currency)
+        : { subtotal: quote.subtotal, tax: quote.taxAmount, total: quote.totalAmount };
+    const deposit = quote.depositPercent ? roundMoney(totals.total * quote.depositPercent / 100, quote.currency) : null;
+
+    return (
+        <div className="min-h-screen bg-slate-950 text-slate-200 py-12 px-4">
+            <Toaster position="top-center" />
+            <div className="max-w-4xl mx-auto bg-slate-900 border border-slate-800 rounded-3xl overflow-hidden shadow-2xl">
+                {/* Header */}
+                <div className="bg-slate-950/50 p-6 border-b border-slate-800 flex flex-col sm:flex-row items-center justify-between gap-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-3 bg-teal-500/10 rounded-xl">
+                            <FileText className="w-8 h-8 text-teal-400" />
+                        </div>
+                        <div>
+                            <h1 className="text-xl font-bold text-white">{quote.name}</h1>
+                            <p className="text-sm text-slate-400">
+                                Quote {quote.quoteNumber} from {quote.tenantName || 'AlphaClone'}
+                                {quote.validUntil && ` · Valid until ${new Date(quote.validUntil).toLocaleDateString()}`}
+                            </p>
+                        </div>
+                    </div>
+                    {isAccepted && (
+                        <div className="flex items-center gap-2 px-4 py-2 bg-green-500/10 text-green-400 rounded-lg border border-green-500/20">
+                            <CheckCircle className="w-5 h-5" />
+                            <span className="font-bold text-sm">Accepted</span>
+                        </div>
+                    )}
+                </div>
+
+                {/* Items */}
+                <div className="p-8 space-y-3">
+                    {items.map(item => (
+                        <label
+                            key={item.id}
+                            className={`flex items-start gap-4 p-4 rounded-xl border transition-colors ${item.isSelected
+                                ? 'bg-slate-950/30 border-white/5'
+                                : 'bg-transparent border-dashed border-slate-800 opacity-60'
+                                } ${isOpen && item.isOptional ? 'cursor-pointer hover:border-teal-500/30' : ''}`}
+                        >
+                            {item.isOptional && (
+                                <input
+                                    type="checkbox"
+                                    checked={item.isSelected}
+                                    disabled={!isOpen}
+                                    onChange={() => toggleItem(item.id)}
+                                    className="mt-1 w-4 h-4 accent-teal-500"
+                                />
+                            )}
+                            <div className="flex-1">
+                                <p className="font-semibold text-slate-200">
+                                    {item.productName}
+                                    {item.isOptional && <span className="ml-2 text-xs text-teal-400 font-normal">Optional</span>}
+                                </p>
+                                {item.description && <p className="text-sm text-slate-400">{item.description}</p>}
+                                <p className="text-xs text-slate-500 mt-1">
+                                    Qty: {item.quantity} &times; {formatCurrency(item.unitPrice, quote.currency)}
+                                    {item.discountPercent > 0 && ` · ${item.discountPercent}% off`}
+                                    {item.taxPercent > 0 && ` · ${item.taxPercent}% tax`}
+                                </p>
+                            </div>
+                            <p className="font-mono font-bold text-teal-400">
+                                {formatCurrency(item.quantity * item.unitPrice * (1 - item.discountPercent / 100), quote.currency)}
+                            </p>
+                        </label>
+                    ))}
+
+                    {/* Totals */}
+                    <div className="pt-6 mt-6 border-t border-white/5 space-y-2">
+                        <div className="flex justify-between text-slate-400">
+                            <span>Subtotal</span>
+                            <span className="font-mono">{formatCurrency(totals.subtotal, quote.currency)}</span>
+                        </div>
+                        {totals.tax > 0 && (
+                            <div className="flex justify-between text-slate-400">
+                                <span>Tax</span>
+                                <span className="font-mono">{formatCurrency(totals.tax, quote.currency)}</span>
+                            </div>
+                        )}
+                        {quote.discountAmount > 0 && (
+                            <div className="flex justify-between text-slate-400">
+                                <span>Discount</span>
+                                <span className="font-mono">-{formatCurrency(quote.discountAmount, quote.currency)}</span>
+                            </div>
+                        )}
+                        <div className="flex justify-between items-center text-white pt-2">
+                            <span className="text-lg font-bold">Total</span>
+                            <span className="text-3xl font-mono font-black text-teal-500">{formatCurrency(totals.total, quote.currency)}</span>
+                        </div>
+                        {deposit !== null && (
+                            <p className="text-right text-sm text-slate-400">
+                                {quote.depositPercent}% deposit of {formatCurrency(deposit, quote.currency)} due on acceptance
+                            </p>
+                        )}
+                    </div>
+
+                    {quote.termsAndConditions && (
+                        <div className="pt-6">
+                            <p className="text-slate-500 text-xs uppercase font-bold mb-2">Terms &amp; Conditions</p>
+                            <div className="whitespace-pre-wrap text-sm text-slate-400">{quote.termsAndConditions}</div>
+                        </div>
+                    )}
+                </div>
+
+                {/* Acceptance */}
+                {isOpen ? (
+                    <div className="p-8 bg-slate-950/30 border-t border-slate-800 space-y-4">
+                        <label className="block text-sm font-bold text-white uppercase tracking-wider">Sign Below to Accept</label>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            <input
+                                type="text"
+                                value={signerName}
+                                onChange={(e) => setSignerName(e.target.value)}
+                                placeholder="Full legal name"
+                                className={inputClass}
+                            />
+                            <input
+                                type="email"
+                                value={signerEmail}
+                                onChange={(e) => setSignerEmail(e.target.value)}
+                                placeholder="Email address"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="overflow-hidden bg-white rounded-xl">
+                            <SignaturePad
+                                onSave={(data) => setSignatureData(data)}
+                                onClear={() => setSignatureData(null)}
+                            />
+                        </div>
+                        <label className="flex items-start gap-3 text-sm text-slate-400">
+                            <input
+                                type="checkbox"
+                                checked={consent}
+                                onChange={(e) => setConsent(e.target.checked)}
+                                className="mt-1 w-4 h-4 accent-teal-500"
+                            />
+                            <span>
+                                I consent to use electronic signatures for this transaction.{' '}
+                                {esignatureComplianceService.INTENT_STATEMENT.replace('[NAME]', signerName.trim() || 'the undersigned')}
+                            </span>
+                        </label>
+                        <span className="text-slate-500 text-xs flex items-center gap-1">
+                            <ShieldCheck className="w-3 h-3" /> Your signature, IP address and the accepted items are sealed with a SHA-256 hash
+                        </span>
+                        <button
+                            onClick={handleAccept}
+                            disabled={accepting || !signatureData || !consent}
+                            className={`w-full mt-2 py-4 font-bold text-lg rounded-xl transition-all flex items-center justify-center gap-2 ${signatureData && consent && !accepting
+                                ? 'bg-teal-500 hover:bg-teal-400 text-slate-900 active:scale-[0.99]'
+                                : 'bg-slate-800 text-slate-500 cursor-not-allowed'
+                                }`}
+                        >
+                            {accepting ? <Loader2 className="w-5 h-5 animate-spin" /> : `Accept Quote · ${formatCurrency(deposit ?? totals.total, quote.currency)}`}
+                        </button>
+                    </div>
+                ) : isAccepted ? (
+                    <div className="p-8 bg-slate-950/30 border-t border-slate-800 text-center">
+                        <p className="text-slate-400 mb-6">
+                            Accepted{quote.acceptedBy && ` by ${quote.acceptedBy}`}
+                            {quote.acceptedAt && ` on ${new Date(quote.acceptedAt).toLocaleDateString()}`}.
+                            {!quote.invoiceId && ' Your invoice will follow shortly.'}
+                        </p>
+                        {quote.invoiceId && (
+                            <a
+                                href={`/invoice/${quote.invoiceId}`}
+                                className="inline-flex items-center gap-2 px-6 py-3 bg-teal-500 hover:bg-teal-400 text-slate-900 rounded-xl font-bold transition-colors"
+                            >
+                                <CreditCard className="w-5 h-5" /> {quote.depositPercent ? 'View & Pay Deposit Invoice' : 'View & Pay Invoice'}
+                            </a>
+                        )}
+                    </div>
+                ) : (
+                    <div className="p-8 bg-slate-950/30 border-t border-slate-800 text-center text-slate-400">
+                        This quote has {quote.status === 'expired' ? 'expired' : 'been declined'} and can no longer be accepted.
+                    </div>
+                )}
+            </div>
+
+            <div className="text-center mt-8 text-slate-500 text-sm">
+                Securely powered by <span className="text-slate-400 font-semibold">AlphaClone Systems</span>
+            </div>
+        </div>
+    );
+}
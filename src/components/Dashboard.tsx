@@ -46,6 +46,7 @@ import Sidebar from './dashboard/Sidebar';
 import BottomNav from './dashboard/BottomNav';
 import CommandPalette from './dashboard/CommandPalette';
 import HomeTab from './dashboard/HomeTab';
+import PluginPage from './dashboard/plugins/PluginPage';
 import ProjectSubmitTab from './dashboard/ProjectSubmitTab';
 import ExitIntentModal from './ExitIntentModal';
 import IncomingCallModal from './dashboard/video/IncomingCallModal';
@@ -1193,6 +1194,10 @@ const Dashboard: React.FC<DashboardProps> = ({
         );
 
       default:
+        // Plugin menu routes
+        if (activeTab.startsWith('/dashboard/plugins/')) {
+          return <PluginPage path={activeTab} />;
+        }
         return (
           <HomeTab
             user={user}
@@ -13,12 +13,15 @@ import {
   MessageSquare,
   FileText,
   Settings,
-  Trash2
+  Trash2,
+  RotateCcw
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { eventBus, eventConsumer } from '../../services/eventBus';
+import type { EventDelivery } from '../../services/eventBus';
 import { useTenant } from '../../contexts/TenantContext';
 
-type Tab = 'overview' | 'tenants' | 'users' | 'analytics' | 'security' | 'system' | 'growth';
+type Tab = 'overview' | 'tenants' | 'users' | 'analytics' | 'security' | 'events' | 'system' | 'growth';
 
 export default function SuperAdminDashboard() {
   const { currentTenant } = useTenant();
@@ -65,6 +68,7 @@ export default function SuperAdminDashboard() {
     { id: 'users' as Tab, label: 'Users', icon: Users },
     { id: 'analytics' as Tab, label: 'Analytics', icon: TrendingUp },
     { id: 'security' as Tab, label: 'Security', icon: Shield },
+    { id: 'events' as Tab, label: 'Event Bus', icon: Zap },
     { id: 'system' as Tab, label: 'Global Settings', icon: Settings }, // Renamed from System
     { id: 'growth' as Tab, label: 'Growth & Leads', icon: TrendingUp }
   ];
@@ -105,6 +109,7 @@ export default function SuperAdminDashboard() {
         {activeTab === 'users' && <UsersTab />}
         {activeTab === 'analytics' && <AnalyticsTab />}
         {activeTab === 'security' && <SecurityTab />}
+        {activeTab === 'events' && <EventsTab />}
         {activeTab === 'system' && <SystemTab />}
         {activeTab === 'growth' && <GrowthTab />}
       </div>
@@ -885,4 +890,121 @@ function SecurityTab() {
   );
 }
 
+function EventsTab() {
+  const [stats, setStats] = useState({ total: 0, pending: 0, completed: 0, failed: 0 });
+  const [deadLetters, setDeadLetters] = useState<EventDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
 
+  const loadDeadLetters = async () => {
+    setLoading(true);
+    try {
+      const [eventStats, deliveries] = await Promise.all([
+        eventBus.getStatistics(),
+        eventConsumer.listDeadLetters()
+      ]);
+      setStats(eventStats);
+      setDeadLetters(deliveries);
+    } catch (error) {
+      console.error('Failed to load dead letters:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDeadLetters();
+  }, []);
+
+  const handleReplay = async (deliveryId: string) => {
+    setReplaying(deliveryId);
+    try {
+      await eventConsumer.replayDelivery(deliveryId);
+      await loadDeadLetters();
+    } catch (error: any) {
+      alert(`Replay failed: ${error.message}`);
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const handleReplayAll = async () => {
+    if (!confirm('Replay every failed event?')) return;
+
+    setReplaying('all');
+    try {
+      const queued = await eventBus.replayFailedEvents();
+      alert(`${queued} deliveries queued for replay`);
+      await loadDeadLetters();
+    } catch (error: any) {
+      alert(`Replay failed: ${error.message}`);
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-white">Event Bus</h2>
+        <button
+          onClick={handleReplayAll}
+          disabled={deadLetters.length === 0 || replaying !== null}
+          className="px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 text-white rounded-lg transition-colors flex items-center gap-2"
+        >
+          <RotateCcw className="w-4 h-4" /> Replay All Failed
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Total Events', value: stats.total, color: 'text-white' },
+          { label: 'Pending', value: stats.pending, color: 'text-amber-400' },
+          { label: 'Completed', value: stats.completed, color: 'text-green-400' },
+          { label: 'Failed', value: stats.failed, color: 'text-red-400' }
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-800/50 border border-slate-700 rounded-xl p-4">
+            <div className="text-sm text-slate-400">{stat.label}</div>
+            <div className={`text-2xl font-bold ${stat.color}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
+        <h3 className="text-xl font-semibold text-white mb-1">Dead Letters</h3>
+        <p className="text-sm text-slate-400 mb-4">Deliveries that failed every retry. Replaying queues them for another round of attempts.</p>
+
+        {loading ? (
+          <div className="text-slate-400">Loading...</div>
+        ) : deadLetters.length === 0 ? (
+          <div className="text-slate-400">No dead letters.</div>
+        ) : (
+          <div className="space-y-2">
+            {deadLetters.map(delivery => (
+              <div key={delivery.id} className="p-4 bg-slate-900/50 rounded-lg flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium">{delivery.event?.eventType || delivery.eventId}</span>
+                    <span className="text-slate-500">→</span>
+                    <span className="text-teal-400">{delivery.subscription?.subscriberName || delivery.subscriptionId}</span>
+                  </div>
+                  <div className="text-sm text-red-400/80 mt-1 break-words">{delivery.lastError}</div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {delivery.attempts} attempts · {delivery.event?.createdAt.toLocaleString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleReplay(delivery.id)}
+                  disabled={replaying !== null}
+                  className="shrink-0 px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-sm rounded-lg flex items-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" /> Replay
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { TableSkeleton } from '../ui/Skeleton';
 import { EmptyState } from '../ui/EmptyState';
 import { Project, User, DashboardStat } from '../../types';
 import { useRouter } from 'next/navigation';
+import PluginWidgets from './plugins/PluginWidgets';
 
 interface HomeTabProps {
     user: User;
@@ -63,6 +64,9 @@ const HomeTab: React.FC<HomeTabProps> = ({
                 ))}
             </div>
 
+            {/* Plugin Widgets */}
+            <PluginWidgets />
+
             <div className="grid grid-cols-1 gap-8">
                 {/* Main Content Area (Projects) */}
                 <div className="space-y-6">
@@ -1,8 +1,6 @@
 import React, { useEffect, useState } from 'react';
-import { FileText, Plus, Eye, Check, X, DollarSign } from 'lucide-react';
+import { FileText, Plus, Eye, Check, X, DollarSign, Link2, Send } from 'lucide-react';
 import { quoteService, Quote, QuoteItem } from '../../services/quoteService';
-import { businessInvoiceService } from '../../services/businessInvoiceService';
-import { useTenant } from '../../contexts/TenantContext';
 import { Button, Modal, Input } from '../ui/UIComponents';
 import { CardSkeleton } from '../ui/Skeleton';
 import { EmptyState } from '../ui/EmptyState';
@@ -14,10 +12,9 @@ interface QuotesTabProps {
 }
 
 const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
-    const { currentTenant } = useTenant();
     const [quotes, setQuotes] = useState<Quote[]>([]);
     const [loading, setLoading] = useState(true);
-    const [filter, setFilter] = useState<'all' | 'draft' | 'sent' | 'accepted'>('all');
+    const [filter, setFilter] = useState<'all' | 'draft' | 'sent' | 'accepted' | 'converted'>('all');
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [showViewModal, setShowViewModal] = useState(false);
     const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null);
@@ -27,6 +24,7 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
     const [quoteForm, setQuoteForm] = useState({
         name: '',
         validForDays: '30',
+        depositPercent: '',
         notes: ''
     });
 
@@ -71,6 +69,8 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
                 return 'bg-purple-500/10 text-purple-400';
             case 'accepted':
                 return 'bg-green-500/10 text-green-400';
+            case 'converted':
+                return 'bg-teal-500/10 text-teal-400';
             case 'rejected':
                 return 'bg-red-500/10 text-red-400';
             case 'expired':
@@ -96,6 +96,7 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
             const { error } = await quoteService.createQuote(userId, {
                 name: quoteForm.name,
                 validForDays: parseInt(quoteForm.validForDays) || 30,
+                depositPercent: parseFloat(quoteForm.depositPercent) || undefined,
                 notes: quoteForm.notes || undefined
             });
 
@@ -108,6 +109,7 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
                 setQuoteForm({
                     name: '',
                     validForDays: '30',
+                    depositPercent: '',
                     notes: ''
                 });
                 loadQuotes();
@@ -133,49 +135,47 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
         }
     };
 
+    const copyClientLink = async (quote: Quote) => {
+        await navigator.clipboard.writeText(`${window.location.origin}/quote/${quote.publicToken}`);
+        toast.success('Client link copied');
+    };
+
+    const handleSendQuote = async () => {
+        if (!selectedQuote) return;
+
+        setIsSubmitting(true);
+        try {
+            const { quote, error } = await quoteService.updateQuote(selectedQuote.id, { status: 'sent' });
+            if (error || !quote) throw new Error(error || 'Failed to send quote');
+
+            setSelectedQuote(quote);
+            await copyClientLink(quote);
+            loadQuotes();
+        } catch (err: any) {
+            toast.error(err.message || 'Failed to send quote');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    // Accepted quotes convert themselves; this retries one whose conversion failed
     const handleConvertToInvoice = async () => {
         if (!selectedQuote) return;
 
         setIsSubmitting(true);
         try {
-            // 1. Get items
-            const { items, error: itemsError } = await quoteService.getQuoteItems(selectedQuote.id);
-            if (itemsError) throw new Error(itemsError);
-
-            // 2. Map to Invoice Line Items
-            const lineItems = items.map(item => ({
-                description: item.productName + (item.description ? ` - ${item.description}` : ''),
-                quantity: item.quantity,
-                rate: item.unitPrice,
-                amount: item.lineTotal // Using the line total which already includes discounts/tax if calculated
-            }));
-
-            // 3. Create Invoice
-            const { invoice, error: invError } = await businessInvoiceService.createInvoice(currentTenant?.id || '', {
-                clientId: selectedQuote.contactId,
-                status: 'draft',
-                issueDate: new Date().toISOString().split('T')[0],
-                dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // +7 days default
-                subtotal: selectedQuote.subtotal,
-                total: selectedQuote.totalAmount,
-                taxRate: selectedQuote.taxPercent,
-                tax: selectedQuote.taxAmount,
-                discountAmount: selectedQuote.discountAmount,
-                lineItems: lineItems,
-                notes: `Converted from Quote #${selectedQuote.quoteNumber}`
+            const response = await fetch('/api/quotes/convert', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ quoteId: selectedQuote.id })
             });
 
-            if (invError) throw new Error(invError);
-
-            // 4. Update Quote Status
-            await quoteService.updateQuote(selectedQuote.id, { status: 'converted' });
+            const data = await response.json();
+            if (!response.ok) throw new Error(data.error);
 
-            toast.success('Quote converted to Invoice successfully!');
+            toast.success('Quote converted to an invoice and project');
             setShowViewModal(false);
             loadQuotes();
-
-            // Optional: Redirect to Invoice?
-            // router.push('/dashboard/billing'); 
         } catch (err: any) {
             toast.error(err.message || 'Failed to convert quote');
         } finally {
@@ -202,6 +202,7 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
                         <option value="draft">Draft</option>
                         <option value="sent">Sent</option>
                         <option value="accepted">Accepted</option>
+                        <option value="converted">Converted</option>
                     </select>
                     {(userRole === 'admin' || userRole === 'tenant_admin') && (
                         <Button onClick={() => setShowCreateModal(true)}>
@@ -300,6 +301,16 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
                             min="1"
                         />
 
+                        <Input
+                            label="Deposit on Acceptance (%)"
+                            type="number"
+                            value={quoteForm.depositPercent}
+                            onChange={(e) => setQuoteForm({ ...quoteForm, depositPercent: e.target.value })}
+                            placeholder="Leave empty to invoice the full amount"
+                            min="1"
+                            max="100"
+                        />
+
                         <div>
                             <label className="block text-sm font-medium text-slate-300 mb-1.5">Notes</label>
                             <textarea
@@ -360,6 +371,13 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
                             </div>
                         </div>
 
+                        {selectedQuote.depositPercent && (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-400 mb-1">Deposit on Acceptance</label>
+                                <p className="text-white">{selectedQuote.depositPercent}%</p>
+                            </div>
+                        )}
+
                         {selectedQuote.notes && (
                             <div>
                                 <label className="block text-sm font-medium text-slate-400 mb-1">Notes</label>
@@ -393,13 +411,23 @@ const QuotesTab: React.FC<QuotesTabProps> = ({ userId, userRole }) => {
 
                         <div className="pt-4 flex justify-end gap-3">
                             <Button variant="outline" onClick={() => setShowViewModal(false)}>Close</Button>
+                            {selectedQuote.status === 'draft' && (userRole === 'admin' || userRole === 'tenant_admin') && (
+                                <Button onClick={handleSendQuote} disabled={isSubmitting}>
+                                    <Send className="w-4 h-4 mr-2" /> Send &amp; Copy Link
+                                </Button>
+                            )}
+                            {selectedQuote.status !== 'draft' && (
+                                <Button variant="secondary" onClick={() => copyClientLink(selectedQuote)}>
+                                    <Link2 className="w-4 h-4 mr-2" /> Copy Client Link
+                                </Button>
+                            )}
                             {selectedQuote.status === 'accepted' && (
                                 <Button
                                     onClick={handleConvertToInvoice}
                                     disabled={isSubmitting}
                                     className="bg-teal-500 hover:bg-teal-600 text-white"
                                 >
-                                    {isSubmitting ? 'Converting...' : 'Convert to Invoice'}
+                                    {isSubmitting ? 'Converting...' : 'Convert to Invoice & Project'}
                                 </Button>
                             )}
                         </div>
@@ -1,8 +1,21 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
-import { LogOut, ChevronDown, Menu } from 'lucide-react';
+import { LogOut, ChevronDown, Menu, Puzzle, BarChart3, Calendar, FileText, Mail, MessageSquare, Settings, Zap } from 'lucide-react';
 import { LOGO_URL } from '../../constants';
 import { User } from '../../types';
+import { usePluginExtensions } from '../../hooks/usePluginExtensions';
+import { getPluginRoutePath } from '../../services/plugins/ui';
+
+// Icons plugin menu items may name; anything else shows the plugin icon
+const PLUGIN_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
+    chart: BarChart3,
+    calendar: Calendar,
+    document: FileText,
+    mail: Mail,
+    message: MessageSquare,
+    settings: Settings,
+    zap: Zap
+};
 
 interface SidebarProps {
     sidebarOpen: boolean;
@@ -30,6 +43,16 @@ const Sidebar = React.memo<SidebarProps>(({
     onLogout
 }) => {
     const router = useRouter();
+    const { extensions } = usePluginExtensions();
+
+    const pluginNavItems = extensions.flatMap(extension =>
+        (extension.ui.menuItems || []).map(item => ({
+            key: `${extension.tenantPluginId}:${item.route}`,
+            label: item.label,
+            href: getPluginRoutePath(extension.slug, item.route),
+            icon: (item.icon && PLUGIN_ICONS[item.icon]) || Puzzle
+        }))
+    );
 
     // Hidden during video calls unless manually toggled
     if (isInCall && !showSidebarDuringCall) return null;
@@ -129,6 +152,32 @@ const Sidebar = React.memo<SidebarProps>(({
                             )}
                         </div>
                     ))}
+
+                    {/* Plugin menu items */}
+                    {pluginNavItems.length > 0 && (
+                        <div className="pt-4 mt-4 border-t border-slate-800 space-y-1.5">
+                            {sidebarOpen && (
+                                <div className="px-4 pb-1 text-[10px] font-semibold uppercase tracking-wider text-slate-600">Plugins</div>
+                            )}
+                            {pluginNavItems.map(item => (
+                                <button
+                                    key={item.key}
+                                    onClick={() => handleNavigation(item.href)}
+                                    title={!sidebarOpen ? item.label : undefined}
+                                    className={`w-full flex items-center ${sidebarOpen ? 'gap-3 px-4' : 'justify-center px-2'} py-3 rounded-xl text-sm font-medium transition-all duration-200 group active:scale-95 touch-manipulation
+                   ${activeTab === item.href
+                                            ? 'bg-teal-600 text-white shadow-lg shadow-teal-900/20'
+                                            : 'text-slate-400 hover:text-white hover:bg-slate-800'
+                                        }`}
+                                >
+                                    <item.icon className={`w-5 h-5 flex-shrink-0 ${activeTab === item.href ? 'text-white' : 'group-hover:text-teal-400 transition-colors'}`} />
+                                    <span className={`${sidebarOpen ? 'opacity-100' : 'opacity-0 w-0 hidden md:block'} flex-1 text-left whitespace-nowrap`}>
+                                        {item.label}
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </nav>
 
                 <div className="p-4 border-t border-slate-800 bg-slate-900 mt-auto">
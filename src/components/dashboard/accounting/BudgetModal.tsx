@@ -0,0 +1,176 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { ChartOfAccount, chartOfAccountsService } from '../../../services/accounting/chartOfAccountsService';
+import { budgetService } from '../../../services/accounting/budgetService';
+
+interface BudgetModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+    initialMonth: string;           // Any date in the month to open on
+}
+
+const PL_ACCOUNT_TYPES = ['revenue', 'other_income', 'expense', 'other_expense'];
+
+/**
+ * Enter a month's budget for each revenue and expense account
+ */
+export function BudgetModal({ isOpen, onClose, onSuccess, initialMonth }: BudgetModalProps) {
+    const [loading, setLoading] = useState(false);
+    const [accounts, setAccounts] = useState<ChartOfAccount[]>([]);
+    const [month, setMonth] = useState(initialMonth.slice(0, 7));
+    const [amounts, setAmounts] = useState<Record<string, number>>({});
+    const [saved, setSaved] = useState<Record<string, number>>({});
+    const [applyToYear, setApplyToYear] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) {
+            setMonth(initialMonth.slice(0, 7));
+            setApplyToYear(false);
+            loadAccounts();
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (isOpen && month) {
+            loadBudget();
+        }
+    }, [isOpen, month]);
+
+    const loadAccounts = async () => {
+        const { accounts: data } = await chartOfAccountsService.getAccounts({ isActive: true });
+        setAccounts(data.filter(account => PL_ACCOUNT_TYPES.includes(account.accountType)));
+    };
+
+    const loadBudget = async () => {
+        const periodStart = `${month}-01`;
+        const { budgets, error } = await budgetService.getBudgets(periodStart, periodStart);
+        if (error) alert(`Error loading budget: ${error}`);
+
+        const loaded: Record<string, number> = {};
+        budgets.forEach(budget => { loaded[budget.accountId] = budget.amount; });
+        setAmounts(loaded);
+        setSaved(loaded);
+    };
+
+    const handleSave = async () => {
+        setLoading(true);
+        try {
+            // Send accounts that were cleared too, so their budget is removed
+            const changes: Record<string, number> = {};
+            accounts.forEach(account => {
+                const amount = amounts[account.id] || 0;
+                if (applyToYear || amount !== (saved[account.id] || 0)) changes[account.id] = amount;
+            });
+
+            const months = applyToYear
+                ? Array.from({ length: 12 }, (_, i) => `${month.slice(0, 4)}-${String(i + 1).padStart(2, '0')}-01`)
+                : [`${month}-01`];
+
+            for (const periodStart of months) {
+                const { error } = await budgetService.saveMonthBudget(periodStart, changes);
+                if (error) {
+                    alert(`Error saving budget: ${error}`);
+                    return;
+                }
+            }
+
+            onSuccess();
+            onClose();
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const sumOf = (types: string[]) => accounts
+        .filter(account => types.includes(account.accountType))
+        .reduce((sum, account) => sum + (amounts[account.id] || 0), 0);
+    const budgetedIncome = sumOf(['revenue', 'other_income']) - sumOf(['expense', 'other_expense']);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 overflow-y-auto p-4">
+            <div className="bg-slate-800 rounded-lg shadow-xl p-6 w-full max-w-2xl my-8 max-h-[90vh] overflow-y-auto">
+                <h2 className="text-xl font-bold text-white mb-4">Budget</h2>
+
+                <div className="flex flex-wrap items-end gap-4 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-300 mb-1">Month</label>
+                        <input
+                            type="month"
+                            value={month}
+                            onChange={(e) => setMonth(e.target.value)}
+                            className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-300 pb-2">
+                        <input
+                            type="checkbox"
+                            checked={applyToYear}
+                            onChange={(e) => setApplyToYear(e.target.checked)}
+                            className="w-4 h-4"
+                        />
+                        Use these amounts for every month of {month.slice(0, 4)}
+                    </label>
+                </div>
+
+                <div className="overflow-x-auto mb-6">
+                    <table className="min-w-full divide-y divide-slate-700">
+                        <thead className="bg-slate-900">
+                            <tr>
+                                <th className="px-3 py-2 text-left text-xs font-medium text-slate-400 uppercase">Account</th>
+                                <th className="px-3 py-2 text-right text-xs font-medium text-slate-400 uppercase">Monthly Budget</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-slate-800 divide-y divide-slate-700">
+                            {accounts.map(account => (
+                                <tr key={account.id}>
+                                    <td className="px-3 py-2 text-sm text-slate-200">
+                                        {account.accountCode} - {account.accountName}
+                                    </td>
+                                    <td className="px-3 py-2">
+                                        <input
+                                            type="number"
+                                            step="0.01"
+                                            value={amounts[account.id] || ''}
+                                            onChange={(e) => setAmounts({ ...amounts, [account.id]: parseFloat(e.target.value) || 0 })}
+                                            className="w-full px-2 py-1 bg-slate-700 border border-slate-600 text-white rounded text-sm text-right focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                            placeholder="0.00"
+                                        />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                        <tfoot className="bg-slate-900">
+                            <tr>
+                                <td className="px-3 py-2 text-right font-semibold text-white">Budgeted Net Income:</td>
+                                <td className="px-3 py-2 text-right font-mono font-semibold text-white">
+                                    ${budgetedIncome.toFixed(2)}
+                                </td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+
+                <div className="flex gap-3">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 border border-slate-600 text-slate-300 rounded-lg hover:bg-slate-700 transition-colors"
+                        disabled={loading}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={loading}
+                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {loading ? 'Saving...' : 'Save Budget'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+}
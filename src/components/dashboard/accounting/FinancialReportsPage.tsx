@@ -1,11 +1,40 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { generalLedgerService, TrialBalance, FinancialStatement } from '../../../services/accounting/generalLedgerService';
+import * as XLSX from 'xlsx';
+import {
+    generalLedgerService,
+    TrialBalance,
+    FinancialStatement,
+    CashFlowStatement,
+    ComparisonMode,
+    comparisonDate,
+    comparisonRange
+} from '../../../services/accounting/generalLedgerService';
+import { budgetService, budgetStatement } from '../../../services/accounting/budgetService';
+import {
+    ReportTable,
+    StatementColumn,
+    trialBalanceTable,
+    balanceSheetTable,
+    profitLossTable,
+    cashFlowTable,
+    formatReportValue,
+    generateReportPDF,
+    generateReportWorkbook,
+    reportFileName
+} from '../../../services/accounting/financialReportExport';
+import { taxService, TaxSummary } from '../../../services/accounting/taxService';
+import { exchangeRateService } from '../../../services/accounting/exchangeRateService';
+import { formatCurrency } from '../../../services/accounting/currency';
+import { BudgetModal } from './BudgetModal';
 import { useAuth } from '../../../contexts/AuthContext';
 import { useTenant } from '../../../contexts/TenantContext';
 
-type ReportType = 'trial_balance' | 'balance_sheet' | 'profit_loss';
+type ReportType = 'trial_balance' | 'balance_sheet' | 'profit_loss' | 'cash_flow' | 'tax_summary';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+const formatRange = (startDate: string, endDate: string) => `${formatDate(startDate)} - ${formatDate(endDate)}`;
 
 export function FinancialReportsPage() {
     const { user } = useAuth();
@@ -13,6 +42,12 @@ export function FinancialReportsPage() {
     const [selectedReport, setSelectedReport] = useState<ReportType>('trial_balance');
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [baseCurrency, setBaseCurrency] = useState('USD');
+
+    // Compared side by side with the balance sheet, P&L and cash flow
+    const [comparison, setComparison] = useState<ComparisonMode>('none');
+    const [showBudgetModal, setShowBudgetModal] = useState(false);
+    const activeComparison: ComparisonMode = comparison === 'budget' && selectedReport !== 'profit_loss' ? 'none' : comparison;
 
     // Trial Balance
     const [trialBalance, setTrialBalance] = useState<TrialBalance | null>(null);
@@ -20,20 +55,43 @@ export function FinancialReportsPage() {
 
     // Balance Sheet
     const [balanceSheet, setBalanceSheet] = useState<FinancialStatement | null>(null);
+    const [balanceSheetComparison, setBalanceSheetComparison] = useState<StatementColumn<FinancialStatement> | null>(null);
     const [bsAsOfDate, setBsAsOfDate] = useState<string>(new Date().toISOString().split('T')[0]);
 
     // P&L
     const [profitLoss, setProfitLoss] = useState<FinancialStatement | null>(null);
+    const [profitLossComparison, setProfitLossComparison] = useState<StatementColumn<FinancialStatement> | null>(null);
     const [plStartDate, setPlStartDate] = useState<string>(
         new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0]
     );
     const [plEndDate, setPlEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
 
+    // Cash Flow
+    const [cashFlow, setCashFlow] = useState<CashFlowStatement | null>(null);
+    const [cashFlowComparison, setCashFlowComparison] = useState<StatementColumn<CashFlowStatement> | null>(null);
+    const [cfStartDate, setCfStartDate] = useState<string>(
+        new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0]
+    );
+    const [cfEndDate, setCfEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+
+    // Tax Summary
+    const [taxSummary, setTaxSummary] = useState<TaxSummary | null>(null);
+    const [taxStartDate, setTaxStartDate] = useState<string>(
+        new Date(new Date().getFullYear(), new Date().getMonth() - (new Date().getMonth() % 3), 1).toISOString().split('T')[0]
+    );
+    const [taxEndDate, setTaxEndDate] = useState<string>(new Date().toISOString().split('T')[0]);
+
+    useEffect(() => {
+        if (currentTenant) {
+            exchangeRateService.getBaseCurrency(currentTenant.id).then(setBaseCurrency);
+        }
+    }, [currentTenant]);
+
     useEffect(() => {
         if (currentTenant) {
             loadReport();
         }
-    }, [currentTenant, selectedReport]);
+    }, [currentTenant, selectedReport, activeComparison]);
 
     const loadReport = async () => {
         setLoading(true);
@@ -48,10 +106,50 @@ export function FinancialReportsPage() {
                 const { statement, error: err } = await generalLedgerService.getBalanceSheetData(bsAsOfDate);
                 if (err) throw new Error(err);
                 setBalanceSheet(statement);
+
+                let compared: StatementColumn<FinancialStatement> | null = null;
+                if (activeComparison === 'prior_period' || activeComparison === 'prior_year') {
+                    const asOfDate = comparisonDate(bsAsOfDate, activeComparison);
+                    const { statement: prior, error: priorErr } = await generalLedgerService.getBalanceSheetData(asOfDate);
+                    if (priorErr) throw new Error(priorErr);
+                    if (prior) compared = { label: formatDate(asOfDate), statement: prior };
+                }
+                setBalanceSheetComparison(compared);
             } else if (selectedReport === 'profit_loss') {
                 const { statement, error: err } = await generalLedgerService.getProfitLossData(plStartDate, plEndDate);
                 if (err) throw new Error(err);
                 setProfitLoss(statement);
+
+                let compared: StatementColumn<FinancialStatement> | null = null;
+                if (activeComparison === 'budget') {
+                    const { budgets, error: budgetErr } = await budgetService.getBudgets(plStartDate, plEndDate);
+                    if (budgetErr) throw new Error(budgetErr);
+                    compared = { label: 'Budget', statement: budgetStatement(budgets) };
+                } else if (activeComparison !== 'none') {
+                    const range = comparisonRange(plStartDate, plEndDate, activeComparison);
+                    const { statement: prior, error: priorErr } = await generalLedgerService.getProfitLossData(range.startDate, range.endDate);
+                    if (priorErr) throw new Error(priorErr);
+                    if (prior) compared = { label: formatRange(range.startDate, range.endDate), statement: prior };
+                }
+                setProfitLossComparison(compared);
+            } else if (selectedReport === 'cash_flow') {
+                const { statement, error: err } = await generalLedgerService.getCashFlowData(cfStartDate, cfEndDate);
+                if (err) throw new Error(err);
+                setCashFlow(statement);
+
+                let compared: StatementColumn<CashFlowStatement> | null = null;
+                if (activeComparison === 'prior_period' || activeComparison === 'prior_year') {
+                    const range = comparisonRange(cfStartDate, cfEndDate, activeComparison);
+                    const { statement: prior, error: priorErr } = await generalLedgerService.getCashFlowData(range.startDate, range.endDate);
+                    if (priorErr) throw new Error(priorErr);
+                    if (prior) compared = { label: formatRange(range.startDate, range.endDate), statement: prior };
+                }
+                setCashFlowComparison(compared);
+            } else if (selectedReport === 'tax_summary' && currentTenant) {
+                const baseCurrency = await exchangeRateService.getBaseCurrency(currentTenant.id);
+                const { summary, error: err } = await taxService.getTaxSummary(currentTenant.id, baseCurrency, taxStartDate, taxEndDate);
+                if (err) throw new Error(err);
+                setTaxSummary(summary);
             }
         } catch (err: any) {
             setError(err.message);
@@ -64,6 +162,113 @@ export function FinancialReportsPage() {
         await loadReport();
     };
 
+    /**
+     * The selected statement as rows and columns, with its comparison
+     * column when one is chosen
+     */
+    const reportTable = (): ReportTable | null => {
+        if (selectedReport === 'trial_balance' && trialBalance) {
+            return trialBalanceTable(trialBalance, tbAsOfDate, baseCurrency);
+        }
+        if (selectedReport === 'balance_sheet' && balanceSheet) {
+            const columns = [{ label: formatDate(bsAsOfDate), statement: balanceSheet }];
+            if (activeComparison !== 'none' && balanceSheetComparison) columns.push(balanceSheetComparison);
+            return balanceSheetTable(columns, `As of ${bsAsOfDate}`, baseCurrency);
+        }
+        if (selectedReport === 'profit_loss' && profitLoss) {
+            const columns = [{ label: activeComparison === 'budget' ? 'Actual' : formatRange(plStartDate, plEndDate), statement: profitLoss }];
+            if (activeComparison !== 'none' && profitLossComparison) columns.push(profitLossComparison);
+            return profitLossTable(columns, `${plStartDate} to ${plEndDate}`, baseCurrency, activeComparison === 'budget' ? 'Variance' : 'Change');
+        }
+        if (selectedReport === 'cash_flow' && cashFlow) {
+            const columns = [{ label: formatRange(cfStartDate, cfEndDate), statement: cashFlow }];
+            if (activeComparison !== 'none' && cashFlowComparison) columns.push(cashFlowComparison);
+            return cashFlowTable(columns, `${cfStartDate} to ${cfEndDate}`, baseCurrency);
+        }
+        return null;
+    };
+
+    const handleExport = (format: 'pdf' | 'xlsx') => {
+        const table = reportTable();
+        if (!table) return;
+
+        if (format === 'pdf') {
+            generateReportPDF(table, currentTenant?.name).save(`${reportFileName(table)}.pdf`);
+        } else {
+            XLSX.writeFile(generateReportWorkbook(table), `${reportFileName(table)}.xlsx`);
+        }
+    };
+
+    const renderExportButtons = () => (
+        <>
+            <button
+                onClick={() => handleExport('pdf')}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 self-end transition-colors"
+            >
+                Export PDF
+            </button>
+            <button
+                onClick={() => handleExport('xlsx')}
+                className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 self-end transition-colors"
+            >
+                Export XLSX
+            </button>
+        </>
+    );
+
+    const renderComparisonSelect = (options: Array<[ComparisonMode, string]>) => (
+        <div>
+            <label className="block text-xs text-slate-400 mb-1">Compare To</label>
+            <select
+                value={activeComparison}
+                onChange={(e) => setComparison(e.target.value as ComparisonMode)}
+                className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+                <option value="none">No comparison</option>
+                {options.map(([mode, label]) => (
+                    <option key={mode} value={mode}>{label}</option>
+                ))}
+            </select>
+        </div>
+    );
+
+    /**
+     * A statement with one column per period, used for comparisons and the cash flow
+     */
+    const renderReportTable = (table: ReportTable) => (
+        <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-slate-700">
+                <thead className="bg-slate-900">
+                    <tr>
+                        <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Account</th>
+                        {table.columns.map((column, index) => (
+                            <th key={index} className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">
+                                {column.label}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody className="bg-slate-800 divide-y divide-slate-700">
+                    {table.lines.map((line, index) => (
+                        <tr key={index} className={line.style === 'heading' ? 'bg-slate-900/50' : ''}>
+                            <td className={`px-4 md:px-6 py-3 whitespace-nowrap text-sm ${line.indent ? 'pl-8 md:pl-10 text-slate-300' : 'text-white'} ${line.style ? 'font-bold' : ''}`}>
+                                {line.style === 'heading' ? line.label.toUpperCase() : line.label}
+                            </td>
+                            {table.columns.map((column, i) => (
+                                <td
+                                    key={i}
+                                    className={`px-4 md:px-6 py-3 whitespace-nowrap text-sm text-right font-mono text-white ${line.style ? 'font-bold' : ''} ${line.style === 'total' ? 'border-t-2 border-slate-600' : ''}`}
+                                >
+                                    {formatReportValue(line.values[i], column, table.currency)}
+                                </td>
+                            ))}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+
     const renderTrialBalance = () => {
         if (!trialBalance) return null;
 
@@ -88,6 +293,7 @@ export function FinancialReportsPage() {
                             >
                                 Generate
                             </button>
+                            {renderExportButtons()}
                         </div>
                     </div>
 
@@ -153,6 +359,7 @@ export function FinancialReportsPage() {
 
         const totalLiabilitiesAndEquity = balanceSheet.totalLiabilities + balanceSheet.totalEquity;
         const isBalanced = Math.abs(balanceSheet.totalAssets - totalLiabilitiesAndEquity) < 0.01;
+        const table = activeComparison !== 'none' && balanceSheetComparison ? reportTable() : null;
 
         return (
             <div className="space-y-6">
@@ -163,73 +370,80 @@ export function FinancialReportsPage() {
                             <p className="text-slate-300 mt-1">As of {new Date(bsAsOfDate).toLocaleDateString()}</p>
                         </div>
                         <div className="flex flex-wrap gap-3">
-                            <input
-                                type="date"
-                                value={bsAsOfDate}
-                                onChange={(e) => setBsAsOfDate(e.target.value)}
-                                className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                            />
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">As Of</label>
+                                <input
+                                    type="date"
+                                    value={bsAsOfDate}
+                                    onChange={(e) => setBsAsOfDate(e.target.value)}
+                                    className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                            {renderComparisonSelect([['prior_period', 'Prior month'], ['prior_year', 'Prior year']])}
                             <button
                                 onClick={loadReport}
-                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 self-end transition-colors"
                             >
                                 Generate
                             </button>
+                            {renderExportButtons()}
                         </div>
                     </div>
 
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                        {/* Assets */}
-                        <div>
-                            <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">ASSETS</h3>
-                            {balanceSheet.assets.map((account) => (
-                                <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                    <span className="text-sm text-slate-300">{account.accountName}</span>
-                                    <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                    {table ? renderReportTable(table) : (
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            {/* Assets */}
+                            <div>
+                                <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">ASSETS</h3>
+                                {balanceSheet.assets.map((account) => (
+                                    <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
+                                        <span className="text-sm text-slate-300">{account.accountName}</span>
+                                        <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
+                                    <span className="text-white">Total Assets</span>
+                                    <span className="font-mono text-white">${balanceSheet.totalAssets.toFixed(2)}</span>
                                 </div>
-                            ))}
-                            <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
-                                <span className="text-white">Total Assets</span>
-                                <span className="font-mono text-white">${balanceSheet.totalAssets.toFixed(2)}</span>
                             </div>
-                        </div>
 
-                        {/* Liabilities & Equity */}
-                        <div>
-                            <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">LIABILITIES</h3>
-                            {balanceSheet.liabilities.map((account) => (
-                                <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                    <span className="text-sm text-slate-300">{account.accountName}</span>
-                                    <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                            {/* Liabilities & Equity */}
+                            <div>
+                                <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">LIABILITIES</h3>
+                                {balanceSheet.liabilities.map((account) => (
+                                    <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
+                                        <span className="text-sm text-slate-300">{account.accountName}</span>
+                                        <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between py-2 mt-2 font-semibold text-slate-200">
+                                    <span>Total Liabilities</span>
+                                    <span className="font-mono">${balanceSheet.totalLiabilities.toFixed(2)}</span>
                                 </div>
-                            ))}
-                            <div className="flex justify-between py-2 mt-2 font-semibold text-slate-200">
-                                <span>Total Liabilities</span>
-                                <span className="font-mono">${balanceSheet.totalLiabilities.toFixed(2)}</span>
-                            </div>
 
-                            <h3 className="text-lg font-bold text-white mb-4 mt-6 border-b-2 border-slate-600 pb-2">EQUITY</h3>
-                            {balanceSheet.equity.map((account) => (
-                                <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                    <span className="text-sm text-slate-300">{account.accountName}</span>
-                                    <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                <h3 className="text-lg font-bold text-white mb-4 mt-6 border-b-2 border-slate-600 pb-2">EQUITY</h3>
+                                {balanceSheet.equity.map((account) => (
+                                    <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
+                                        <span className="text-sm text-slate-300">{account.accountName}</span>
+                                        <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                    </div>
+                                ))}
+                                <div className="flex justify-between py-2 border-b border-slate-700">
+                                    <span className="text-sm text-slate-300">Net Income (Current Period)</span>
+                                    <span className="text-sm font-mono text-white">${balanceSheet.netIncome.toFixed(2)}</span>
+                                </div>
+                                <div className="flex justify-between py-2 mt-2 font-semibold text-slate-200">
+                                    <span>Total Equity</span>
+                                    <span className="font-mono">${balanceSheet.totalEquity.toFixed(2)}</span>
                                 </div>
-                            ))}
-                            <div className="flex justify-between py-2 border-b border-slate-700">
-                                <span className="text-sm text-slate-300">Net Income (Current Period)</span>
-                                <span className="text-sm font-mono text-white">${balanceSheet.netIncome.toFixed(2)}</span>
-                            </div>
-                            <div className="flex justify-between py-2 mt-2 font-semibold text-slate-200">
-                                <span>Total Equity</span>
-                                <span className="font-mono">${balanceSheet.totalEquity.toFixed(2)}</span>
-                            </div>
 
-                            <div className="flex justify-between py-3 mt-4 border-t-2 border-slate-600 font-bold">
-                                <span className="text-white">Total Liabilities & Equity</span>
-                                <span className="font-mono text-white">${totalLiabilitiesAndEquity.toFixed(2)}</span>
+                                <div className="flex justify-between py-3 mt-4 border-t-2 border-slate-600 font-bold">
+                                    <span className="text-white">Total Liabilities & Equity</span>
+                                    <span className="font-mono text-white">${totalLiabilitiesAndEquity.toFixed(2)}</span>
+                                </div>
                             </div>
                         </div>
-                    </div>
+                    )}
 
                     <div className="mt-6 pt-4 border-t-2 border-slate-600 text-center">
                         {isBalanced ? (
@@ -250,6 +464,8 @@ export function FinancialReportsPage() {
     const renderProfitLoss = () => {
         if (!profitLoss) return null;
 
+        const table = activeComparison !== 'none' && profitLossComparison ? reportTable() : null;
+
         return (
             <div className="space-y-6">
                 <div className="bg-slate-800 rounded-lg shadow-sm p-4 md:p-6">
@@ -279,66 +495,82 @@ export function FinancialReportsPage() {
                                     className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
                                 />
                             </div>
+                            {renderComparisonSelect([['prior_period', 'Prior period'], ['prior_year', 'Prior year'], ['budget', 'Budget']])}
                             <button
                                 onClick={loadReport}
                                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 self-end transition-colors"
                             >
                                 Generate
                             </button>
+                            {activeComparison === 'budget' && (
+                                <button
+                                    onClick={() => setShowBudgetModal(true)}
+                                    className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 self-end transition-colors"
+                                >
+                                    Edit Budget
+                                </button>
+                            )}
+                            {renderExportButtons()}
                         </div>
                     </div>
 
-                    {/* Revenue */}
-                    <div className="mb-6">
-                        <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">REVENUE</h3>
-                        {profitLoss.revenue.map((account) => (
-                            <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                <span className="text-sm text-slate-300">{account.accountName}</span>
-                                <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
-                            </div>
-                        ))}
-                        {profitLoss.otherIncome.length > 0 && (
-                            <>
-                                <div className="mt-4 mb-2 text-sm font-semibold text-slate-300">Other Income:</div>
-                                {profitLoss.otherIncome.map((account) => (
+                    {table ? (
+                        <div className="mb-6">{renderReportTable(table)}</div>
+                    ) : (
+                        <>
+                            {/* Revenue */}
+                            <div className="mb-6">
+                                <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">REVENUE</h3>
+                                {profitLoss.revenue.map((account) => (
                                     <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                        <span className="text-sm text-slate-300 pl-4">{account.accountName}</span>
+                                        <span className="text-sm text-slate-300">{account.accountName}</span>
                                         <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
                                     </div>
                                 ))}
-                            </>
-                        )}
-                        <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
-                            <span className="text-white">Total Revenue</span>
-                            <span className="font-mono text-green-400">${profitLoss.totalRevenue.toFixed(2)}</span>
-                        </div>
-                    </div>
-
-                    {/* Expenses */}
-                    <div className="mb-6">
-                        <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">EXPENSES</h3>
-                        {profitLoss.expenses.map((account) => (
-                            <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                <span className="text-sm text-slate-300">{account.accountName}</span>
-                                <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                {profitLoss.otherIncome.length > 0 && (
+                                    <>
+                                        <div className="mt-4 mb-2 text-sm font-semibold text-slate-300">Other Income:</div>
+                                        {profitLoss.otherIncome.map((account) => (
+                                            <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
+                                                <span className="text-sm text-slate-300 pl-4">{account.accountName}</span>
+                                                <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                            </div>
+                                        ))}
+                                    </>
+                                )}
+                                <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
+                                    <span className="text-white">Total Revenue</span>
+                                    <span className="font-mono text-green-400">${profitLoss.totalRevenue.toFixed(2)}</span>
+                                </div>
                             </div>
-                        ))}
-                        {profitLoss.otherExpense.length > 0 && (
-                            <>
-                                <div className="mt-4 mb-2 text-sm font-semibold text-slate-300">Other Expenses:</div>
-                                {profitLoss.otherExpense.map((account) => (
+
+                            {/* Expenses */}
+                            <div className="mb-6">
+                                <h3 className="text-lg font-bold text-white mb-4 border-b-2 border-slate-600 pb-2">EXPENSES</h3>
+                                {profitLoss.expenses.map((account) => (
                                     <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
-                                        <span className="text-sm text-slate-300 pl-4">{account.accountName}</span>
+                                        <span className="text-sm text-slate-300">{account.accountName}</span>
                                         <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
                                     </div>
                                 ))}
-                            </>
-                        )}
-                        <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
-                            <span className="text-white">Total Expenses</span>
-                            <span className="font-mono text-red-400">${profitLoss.totalExpenses.toFixed(2)}</span>
-                        </div>
-                    </div>
+                                {profitLoss.otherExpense.length > 0 && (
+                                    <>
+                                        <div className="mt-4 mb-2 text-sm font-semibold text-slate-300">Other Expenses:</div>
+                                        {profitLoss.otherExpense.map((account) => (
+                                            <div key={account.accountId} className="flex justify-between py-2 border-b border-slate-700">
+                                                <span className="text-sm text-slate-300 pl-4">{account.accountName}</span>
+                                                <span className="text-sm font-mono text-white">${account.balance.toFixed(2)}</span>
+                                            </div>
+                                        ))}
+                                    </>
+                                )}
+                                <div className="flex justify-between py-3 mt-2 border-t-2 border-slate-600 font-bold">
+                                    <span className="text-white">Total Expenses</span>
+                                    <span className="font-mono text-red-400">${profitLoss.totalExpenses.toFixed(2)}</span>
+                                </div>
+                            </div>
+                        </>
+                    )}
 
                     {/* Net Income */}
                     <div className="border-t-4 border-slate-600 pt-4">
@@ -357,6 +589,180 @@ export function FinancialReportsPage() {
         );
     };
 
+    const renderCashFlow = () => {
+        if (!cashFlow) return null;
+
+        const table = reportTable();
+        const difference = cashFlow.closingCash - cashFlow.openingCash - cashFlow.netChangeInCash;
+
+        return (
+            <div className="space-y-6">
+                <div className="bg-slate-800 rounded-lg shadow-sm p-4 md:p-6">
+                    <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">Cash Flow Statement</h2>
+                            <p className="text-slate-300 mt-1">{formatRange(cfStartDate, cfEndDate)} · Indirect method</p>
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">Start Date</label>
+                                <input
+                                    type="date"
+                                    value={cfStartDate}
+                                    onChange={(e) => setCfStartDate(e.target.value)}
+                                    className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">End Date</label>
+                                <input
+                                    type="date"
+                                    value={cfEndDate}
+                                    onChange={(e) => setCfEndDate(e.target.value)}
+                                    className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                            {renderComparisonSelect([['prior_period', 'Prior period'], ['prior_year', 'Prior year']])}
+                            <button
+                                onClick={loadReport}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 self-end transition-colors"
+                            >
+                                Generate
+                            </button>
+                            {renderExportButtons()}
+                        </div>
+                    </div>
+
+                    {table && renderReportTable(table)}
+
+                    <div className="mt-6 pt-4 border-t-2 border-slate-600 text-center">
+                        {Math.abs(difference) < 0.01 ? (
+                            <span className="text-green-400 font-semibold">
+                                ✓ Reconciles to the change in cash and bank accounts
+                            </span>
+                        ) : (
+                            <span className="text-red-400 font-semibold">
+                                ⚠ Does not reconcile to cash (difference: ${Math.abs(difference).toFixed(2)}). Check for unposted entries or accounts without a type.
+                            </span>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderTaxSummary = () => {
+        if (!taxSummary) return null;
+
+        const money = (amount: number) => formatCurrency(amount, taxSummary.currency);
+
+        return (
+            <div className="space-y-6">
+                <div className="bg-slate-800 rounded-lg shadow-sm p-4 md:p-6">
+                    <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+                        <div>
+                            <h2 className="text-2xl font-bold text-white">Tax Summary</h2>
+                            <p className="text-slate-300 mt-1">
+                                {new Date(taxStartDate).toLocaleDateString()} - {new Date(taxEndDate).toLocaleDateString()} · {taxSummary.currency}
+                            </p>
+                        </div>
+                        <div className="flex flex-wrap gap-3">
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">Start Date</label>
+                                <input
+                                    type="date"
+                                    value={taxStartDate}
+                                    onChange={(e) => setTaxStartDate(e.target.value)}
+                                    className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-xs text-slate-400 mb-1">End Date</label>
+                                <input
+                                    type="date"
+                                    value={taxEndDate}
+                                    onChange={(e) => setTaxEndDate(e.target.value)}
+                                    className="px-3 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                            <button
+                                onClick={loadReport}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 self-end transition-colors"
+                            >
+                                Generate
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                        <div className="bg-slate-900 rounded-lg p-4">
+                            <p className="text-xs text-slate-400 uppercase">Net Sales</p>
+                            <p className="text-xl font-mono text-white">{money(taxSummary.netSales)}</p>
+                        </div>
+                        <div className="bg-slate-900 rounded-lg p-4">
+                            <p className="text-xs text-slate-400 uppercase">Untaxed &amp; Exempt Sales</p>
+                            <p className="text-xl font-mono text-white">{money(taxSummary.exemptSales)}</p>
+                        </div>
+                        <div className="bg-slate-900 rounded-lg p-4">
+                            <p className="text-xs text-slate-400 uppercase">Tax Due</p>
+                            <p className="text-xl font-mono text-green-400">{money(taxSummary.totalTax)}</p>
+                        </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-slate-700">
+                            <thead className="bg-slate-900">
+                                <tr>
+                                    <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Tax</th>
+                                    <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Rate</th>
+                                    <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Taxable</th>
+                                    <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Invoiced</th>
+                                    <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Credited</th>
+                                    <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Net Tax</th>
+                                </tr>
+                            </thead>
+                            <tbody className="bg-slate-800 divide-y divide-slate-700">
+                                {taxSummary.rows.map((row) => (
+                                    <tr key={`${row.code}:${row.component}:${row.rate}`}>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-white">
+                                            <span className="font-medium">{row.code}</span>
+                                            <span className="text-slate-400"> {row.component}</span>
+                                        </td>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-slate-200">{row.rate}%</td>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-slate-200">{money(row.taxableAmount)}</td>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-white">{money(row.invoicedTax)}</td>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-red-400">
+                                            {row.creditedTax > 0 ? `-${money(row.creditedTax)}` : '-'}
+                                        </td>
+                                        <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono text-white">{money(row.taxAmount)}</td>
+                                    </tr>
+                                ))}
+                                {taxSummary.rows.length === 0 && (
+                                    <tr>
+                                        <td colSpan={6} className="px-4 md:px-6 py-6 text-center text-sm text-slate-400">
+                                            No tax was charged in this period
+                                        </td>
+                                    </tr>
+                                )}
+                            </tbody>
+                            <tfoot className="bg-slate-900 border-t-2 border-slate-600">
+                                <tr>
+                                    <td colSpan={5} className="px-4 md:px-6 py-4 text-right font-bold text-white">TOTAL TAX DUE:</td>
+                                    <td className="px-4 md:px-6 py-4 whitespace-nowrap text-sm text-right font-mono font-bold text-white">
+                                        {money(taxSummary.totalTax)}
+                                    </td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                    <p className="text-xs text-slate-400 mt-4">
+                        Invoices and credit notes issued in the period, at their issue exchange rate. Draft and void invoices are excluded.
+                    </p>
+                </div>
+            </div>
+        );
+    };
+
     return (
         <div className="p-4 md:p-6">
             {/* Header */}
@@ -409,6 +815,24 @@ export function FinancialReportsPage() {
                     >
                         Profit & Loss
                     </button>
+                    <button
+                        onClick={() => setSelectedReport('cash_flow')}
+                        className={`px-6 py-3 rounded-lg font-semibold transition-colors ${selectedReport === 'cash_flow'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                            }`}
+                    >
+                        Cash Flow
+                    </button>
+                    <button
+                        onClick={() => setSelectedReport('tax_summary')}
+                        className={`px-6 py-3 rounded-lg font-semibold transition-colors ${selectedReport === 'tax_summary'
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                            }`}
+                    >
+                        Tax Summary
+                    </button>
                 </div>
             </div>
 
@@ -425,8 +849,17 @@ export function FinancialReportsPage() {
                     {selectedReport === 'trial_balance' && renderTrialBalance()}
                     {selectedReport === 'balance_sheet' && renderBalanceSheet()}
                     {selectedReport === 'profit_loss' && renderProfitLoss()}
+                    {selectedReport === 'cash_flow' && renderCashFlow()}
+                    {selectedReport === 'tax_summary' && renderTaxSummary()}
                 </>
             )}
+
+            <BudgetModal
+                isOpen={showBudgetModal}
+                onClose={() => setShowBudgetModal(false)}
+                onSuccess={loadReport}
+                initialMonth={plStartDate}
+            />
         </div>
     );
 }
@@ -1,10 +1,21 @@
 import React, { useState, useEffect } from 'react';
 import { User } from '../../../types';
 import { useTenant } from '../../../contexts/TenantContext';
-import { businessInvoiceService, BusinessInvoice } from '../../../services/businessInvoiceService';
+import { businessInvoiceService, BusinessInvoice, InvoiceLineItem } from '../../../services/businessInvoiceService';
 import { businessClientService } from '../../../services/businessClientService';
 import { projectService } from '../../../services/projectService';
 import { contractService } from '../../../services/contractService';
+import { productCatalogService, CatalogProduct, toLineItem } from '../../../services/productCatalogService';
+import { taxService, TaxRate, calculateTax, defaultTaxRateId } from '../../../services/accounting/taxService';
+import { exchangeRateService } from '../../../services/accounting/exchangeRateService';
+import { formatCurrency, SUPPORTED_CURRENCIES } from '../../../services/accounting/currency';
+import RecurringInvoices from './RecurringInvoices';
+import RecordPaymentModal from './RecordPaymentModal';
+import CreditNoteModal from './CreditNoteModal';
+import DunningSettings from './DunningSettings';
+import ProductCatalog from './ProductCatalog';
+import TaxRatesSettings from './TaxRatesSettings';
+import InvoiceRemindersModal from './InvoiceRemindersModal';
 import {
     Plus,
     Download,
@@ -17,7 +28,10 @@ import {
     Globe,
     Lock,
     TrendingUp,
-    TrendingDown
+    TrendingDown,
+    FileMinus,
+    Bell,
+    BellOff
 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
@@ -33,9 +47,15 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
     const [clients, setClients] = useState<any[]>([]);
     const [projects, setProjects] = useState<any[]>([]);
     const [contracts, setContracts] = useState<any[]>([]);
+    const [products, setProducts] = useState<CatalogProduct[]>([]);
+    const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
     const [filter, setFilter] = useState<string>('all');
     const [showCreateModal, setShowCreateModal] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [baseCurrency, setBaseCurrency] = useState('USD');
+    const [payingInvoice, setPayingInvoice] = useState<BusinessInvoice | null>(null);
+    const [creditingInvoice, setCreditingInvoice] = useState<BusinessInvoice | null>(null);
+    const [remindersInvoice, setRemindersInvoice] = useState<BusinessInvoice | null>(null);
 
     useEffect(() => {
         if (currentTenant) {
@@ -51,14 +71,32 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
         const { clients: clientData } = await businessClientService.getClients(currentTenant.id);
         const { projects: projectData } = await projectService.getProjects(user.id, user.role);
         const { contracts: contractData } = await contractService.getUserContracts(user.id, 'tenant_admin');
+        const base = await exchangeRateService.getBaseCurrency(currentTenant.id);
 
         setInvoices(invData);
         setClients(clientData);
         setProjects(projectData);
         setContracts(contractData || []);
+        await loadProducts();
+        await loadTaxRates();
+        setBaseCurrency(base);
         setLoading(false);
     };
 
+    const loadProducts = async () => {
+        if (!currentTenant) return;
+
+        const { products: productData } = await productCatalogService.getProducts(currentTenant.id, { activeOnly: true });
+        setProducts(productData);
+    };
+
+    const loadTaxRates = async () => {
+        if (!currentTenant) return;
+
+        const { rates } = await taxService.getTaxRates(currentTenant.id, { activeOnly: true });
+        setTaxRates(rates);
+    };
+
     const handleCreateInvoice = async (invoiceData: Partial<BusinessInvoice>) => {
         if (!currentTenant) return;
 
@@ -105,11 +143,14 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
         ? invoices
         : invoices.filter(inv => inv.status === filter);
 
+    // Totals across currencies are in the base currency at the issue rate
+    const toBase = (inv: BusinessInvoice, amount: number) => amount * (inv.exchangeRate ?? 1);
     const stats = {
-        total: invoices.reduce((sum, inv) => sum + inv.total, 0),
-        paid: invoices.filter(inv => inv.status === 'paid').reduce((sum, inv) => sum + inv.total, 0),
-        pending: invoices.filter(inv => inv.status !== 'paid').reduce((sum, inv) => sum + inv.total, 0)
+        total: invoices.reduce((sum, inv) => sum + (inv.baseTotal ?? inv.total), 0),
+        paid: invoices.reduce((sum, inv) => sum + toBase(inv, inv.amountPaid), 0),
+        pending: invoices.filter(inv => inv.status !== 'paid').reduce((sum, inv) => sum + toBase(inv, inv.amountDue), 0)
     };
+    const formatBase = (amount: number) => formatCurrency(amount, baseCurrency);
 
     if (loading) {
         return <div className="flex items-center justify-center h-full"><div className="text-slate-400">Loading invoices...</div></div>;
@@ -138,16 +179,16 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
                 <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-4 gap-4">
                     <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl">
                         <p className="text-slate-500 text-xs uppercase font-bold tracking-wider mb-1">Total Revenue</p>
-                        <p className="text-2xl font-bold text-white">${stats.total.toLocaleString()}</p>
+                        <p className="text-2xl font-bold text-white">{formatBase(stats.total)}</p>
                     </div>
                     <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl">
                         <p className="text-slate-500 text-xs uppercase font-bold tracking-wider mb-1">Outstanding</p>
-                        <p className="text-2xl font-bold text-orange-400">${stats.pending.toLocaleString()}</p>
+                        <p className="text-2xl font-bold text-orange-400">{formatBase(stats.pending)}</p>
                     </div>
                     <div className="bg-slate-900/50 border border-slate-800 p-4 rounded-xl">
                         <p className="text-slate-500 text-xs uppercase font-bold tracking-wider mb-1">Expenses (Est)</p>
                         <p className="text-2xl font-bold text-red-400 flex items-center gap-2">
-                            ${(stats.paid * 0.3).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            {formatBase(Math.round(stats.paid * 0.3))}
                             <span className="text-xs text-slate-500 font-normal bg-slate-800 px-1.5 py-0.5 rounded">Est. 30%</span>
                         </p>
                     </div>
@@ -157,7 +198,7 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
                         </div>
                         <p className="text-slate-500 text-xs uppercase font-bold tracking-wider mb-1">Net Profit</p>
                         <p className="text-2xl font-bold text-teal-400">
-                            ${(stats.paid * 0.7).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                            {formatBase(Math.round(stats.paid * 0.7))}
                         </p>
                     </div>
                 </div>
@@ -189,7 +230,7 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
                                 </defs>
                                 <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" vertical={false} />
                                 <XAxis dataKey="name" stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} />
-                                <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} />
+                                <YAxis stroke="#64748b" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => formatBase(value)} />
                                 <Tooltip
                                     contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px' }}
                                     itemStyle={{ color: '#e2e8f0' }}
@@ -204,7 +245,7 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
 
             {/* Filters */}
             <div className="flex gap-2 overflow-x-auto pb-2 md:pb-0 scrollbar-hide">
-                {['all', 'draft', 'sent', 'paid', 'overdue'].map(status => (
+                {['all', 'draft', 'sent', 'partially_paid', 'paid', 'overdue', 'recurring', 'dunning', 'products', 'taxes'].map(status => (
                     <button
                         key={status}
                         onClick={() => setFilter(status)}
@@ -213,30 +254,90 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
                             : 'bg-slate-800 hover:bg-slate-700 text-slate-300'
                             }`}
                     >
-                        {status.charAt(0).toUpperCase() + status.slice(1)}
+                        {status.charAt(0).toUpperCase() + status.slice(1).replace('_', ' ')}
                     </button>
                 ))}
             </div>
 
+            {/* Recurring Schedules */}
+            {filter === 'recurring' && currentTenant && (
+                <RecurringInvoices
+                    tenantId={currentTenant.id}
+                    clients={clients}
+                    projects={projects}
+                    taxRates={taxRates}
+                    baseCurrency={baseCurrency}
+                />
+            )}
+
+            {/* Dunning Policy */}
+            {filter === 'dunning' && currentTenant && (
+                <DunningSettings tenantId={currentTenant.id} />
+            )}
+
+            {/* Product Catalog */}
+            {filter === 'products' && currentTenant && (
+                <ProductCatalog tenantId={currentTenant.id} baseCurrency={baseCurrency} onChanged={loadProducts} />
+            )}
+
+            {/* Tax Rates */}
+            {filter === 'taxes' && currentTenant && (
+                <TaxRatesSettings tenantId={currentTenant.id} onChanged={loadTaxRates} />
+            )}
+
             {/* Invoice List */}
-            <div className="space-y-3">
+            {!['recurring', 'dunning', 'products', 'taxes'].includes(filter) && <div className="space-y-3">
                 {filteredInvoices.map(invoice => (
                     <InvoiceCard
                         key={invoice.id}
                         invoice={invoice}
                         clients={clients}
                         onDownload={handleDownloadPDF}
+                        onRecordPayment={setPayingInvoice}
+                        onCredit={setCreditingInvoice}
+                        onReminders={setRemindersInvoice}
                         onDelete={handleDeleteInvoice}
                     />
                 ))}
-            </div>
+            </div>}
 
-            {filteredInvoices.length === 0 && (
+            {!['recurring', 'dunning', 'products', 'taxes'].includes(filter) && filteredInvoices.length === 0 && (
                 <div className="text-center py-12 text-slate-400">
                     No invoices found. Create your first invoice to get started!
                 </div>
             )}
 
+            {payingInvoice && currentTenant && (
+                <RecordPaymentModal
+                    tenantId={currentTenant.id}
+                    invoice={payingInvoice}
+                    invoices={invoices}
+                    onClose={() => setPayingInvoice(null)}
+                    onRecorded={() => {
+                        setPayingInvoice(null);
+                        loadData();
+                    }}
+                />
+            )}
+
+            {creditingInvoice && (
+                <CreditNoteModal
+                    invoice={creditingInvoice}
+                    tenant={currentTenant || { name: 'AlphaClone Business' }}
+                    client={clients.find(c => c.id === creditingInvoice.clientId) || {}}
+                    onClose={() => setCreditingInvoice(null)}
+                    onChanged={loadData}
+                />
+            )}
+
+            {remindersInvoice && (
+                <InvoiceRemindersModal
+                    invoice={remindersInvoice}
+                    onClose={() => setRemindersInvoice(null)}
+                    onChanged={loadData}
+                />
+            )}
+
             {/* Create Invoice Modal */}
             {showCreateModal && (
                 <CreateInvoiceModal
@@ -244,6 +345,9 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
                     clients={clients}
                     projects={projects}
                     contracts={contracts}
+                    products={products}
+                    taxRates={taxRates}
+                    baseCurrency={baseCurrency}
                     onClose={() => setShowCreateModal(false)}
                     onInvoiceCreated={handleCreateInvoice}
                 />
@@ -252,14 +356,16 @@ const BillingPage: React.FC<BillingPageProps> = ({ user }) => {
     );
 };
 
-const InvoiceCard = ({ invoice, clients, onDownload, onDelete }: any) => {
+const InvoiceCard = ({ invoice, clients, onDownload, onRecordPayment, onCredit, onReminders, onDelete }: any) => {
     const client = clients.find((c: any) => c.id === invoice.clientId);
 
     const statusColors = {
         draft: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
         sent: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+        partially_paid: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
         paid: 'bg-teal-500/10 text-teal-400 border-teal-500/20',
-        overdue: 'bg-red-500/10 text-red-400 border-red-500/20'
+        overdue: 'bg-red-500/10 text-red-400 border-red-500/20',
+        void: 'bg-slate-500/10 text-slate-500 border-slate-500/20'
     };
 
     return (
@@ -279,14 +385,23 @@ const InvoiceCard = ({ invoice, clients, onDownload, onDelete }: any) => {
                     <div className="flex items-center justify-between md:block md:text-right">
                         <div className="md:hidden text-sm text-slate-400">Total</div>
                         <div>
-                            <p className="text-2xl font-bold text-teal-400">${invoice.total.toLocaleString()}</p>
+                            <p className="text-2xl font-bold text-teal-400">{formatCurrency(invoice.total, invoice.currency)}</p>
+                            {invoice.baseCurrency && invoice.currency !== invoice.baseCurrency && invoice.baseTotal != null && (
+                                <p className="text-xs text-slate-500 text-right">≈ {formatCurrency(invoice.baseTotal, invoice.baseCurrency)}</p>
+                            )}
+                            {invoice.amountCredited > 0 && (
+                                <p className="text-xs text-slate-500 text-right">{formatCurrency(invoice.amountCredited, invoice.currency)} credited</p>
+                            )}
+                            {invoice.status === 'partially_paid' && (
+                                <p className="text-xs text-amber-400 text-right">{formatCurrency(invoice.amountDue, invoice.currency)} outstanding</p>
+                            )}
                             <p className="text-xs text-slate-500 text-right">Due: {invoice.dueDate}</p>
                         </div>
                     </div>
 
                     <div className="flex items-center justify-between md:justify-end gap-3">
                         <span className={`text-xs px-3 py-1 rounded-full border ${statusColors[invoice.status as keyof typeof statusColors]}`}>
-                            {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1)}
+                            {invoice.status.charAt(0).toUpperCase() + invoice.status.slice(1).replace('_', ' ')}
                         </span>
 
                         <div className="flex gap-2">
@@ -301,6 +416,33 @@ const InvoiceCard = ({ invoice, clients, onDownload, onDelete }: any) => {
                             >
                                 <Share2 className="w-4 h-4" />
                             </button>
+                            {['sent', 'overdue', 'partially_paid'].includes(invoice.status) && (
+                                <button
+                                    onClick={() => onReminders(invoice)}
+                                    className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                    title={invoice.dunningPaused ? 'Reminders Paused' : 'Reminders'}
+                                >
+                                    {invoice.dunningPaused ? <BellOff className="w-4 h-4 text-slate-500" /> : <Bell className="w-4 h-4" />}
+                                </button>
+                            )}
+                            {['sent', 'overdue', 'partially_paid'].includes(invoice.status) && (
+                                <button
+                                    onClick={() => onRecordPayment(invoice)}
+                                    className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                    title="Record Payment"
+                                >
+                                    <DollarSign className="w-4 h-4" />
+                                </button>
+                            )}
+                            {invoice.status !== 'draft' && (
+                                <button
+                                    onClick={() => onCredit(invoice)}
+                                    className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                    title="Credit Notes"
+                                >
+                                    <FileMinus className="w-4 h-4" />
+                                </button>
+                            )}
                             <button
                                 onClick={() => onDownload(invoice)}
                                 className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
@@ -323,7 +465,7 @@ const InvoiceCard = ({ invoice, clients, onDownload, onDelete }: any) => {
     );
 };
 
-const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onInvoiceCreated }: any) => {
+const CreateInvoiceModal = ({ clients, projects, contracts, products, taxRates, baseCurrency, isOpen, onClose, onInvoiceCreated }: any) => {
     const { currentTenant } = useTenant();
     const props = { contracts }; // Capture for logic usage
     const [formData, setFormData] = useState({
@@ -332,8 +474,10 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
         issueDate: new Date().toISOString().split('T')[0],
         dueDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0], // Default to 14 days
         senderName: currentTenant?.name || '',
-        lineItems: [{ description: '', quantity: 1, rate: 0, amount: 0 }],
+        currency: baseCurrency || 'USD',
+        lineItems: [{ description: '', quantity: 1, rate: 0, amount: 0, taxRateId: defaultTaxRateId(taxRates, 'standard') }] as InvoiceLineItem[],
         taxRate: 0,
+        pricesIncludeTax: false,
         discountAmount: 0,
         notes: '',
         isPublic: true
@@ -348,10 +492,20 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
     const addLineItem = () => {
         setFormData({
             ...formData,
-            lineItems: [...formData.lineItems, { description: '', quantity: 1, rate: 0, amount: 0 }]
+            lineItems: [...formData.lineItems, { description: '', quantity: 1, rate: 0, amount: 0, taxRateId: defaultTaxRateId(taxRates, 'standard') }]
         });
     };
 
+    const addCatalogItem = (productId: string) => {
+        const product = products.find((p: CatalogProduct) => p.id === productId);
+        if (!product) return;
+
+        const line = { ...toLineItem(product, formData.currency), taxRateId: defaultTaxRateId(taxRates, product.taxCategory) };
+        // Fill the blank starting line rather than leaving it empty
+        const lineItems = formData.lineItems.filter(item => item.description || item.rate);
+        setFormData({ ...formData, lineItems: [...lineItems, line] });
+    };
+
     const updateLineItem = (index: number, field: string, value: any) => {
         const newItems = [...formData.lineItems];
         newItems[index] = { ...newItems[index], [field]: value };
@@ -363,9 +517,34 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
         setFormData({ ...formData, lineItems: newItems });
     };
 
+    const selectedClient = clients.find((client: any) => client.id === formData.clientId);
+    const taxed = taxRates.length > 0
+        ? calculateTax(formData.lineItems, taxRates, {
+            discountAmount: formData.discountAmount,
+            pricesIncludeTax: formData.pricesIncludeTax,
+            exempt: selectedClient?.taxExempt,
+            currency: formData.currency
+        })
+        : null;
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
+        if (taxed) {
+            onInvoiceCreated({
+                ...formData,
+                lineItems: taxed.lineItems,
+                subtotal: taxed.subtotal,
+                taxRate: taxed.taxRate,
+                tax: taxed.tax,
+                taxLines: taxed.taxLines,
+                exemptAmount: taxed.exemptAmount,
+                total: taxed.total,
+                status: 'draft'
+            });
+            return;
+        }
+
         // Contract enforcement removed per user request
         const totals = businessInvoiceService.calculateTotals(
             formData.lineItems,
@@ -418,6 +597,19 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
                             </select>
                         </div>
 
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Currency</label>
+                            <select
+                                value={formData.currency}
+                                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
+                            >
+                                {SUPPORTED_CURRENCIES.map(code => (
+                                    <option key={code} value={code}>{code}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         <div>
                             <label className="block text-sm font-medium mb-2">Due Date *</label>
                             <input
@@ -448,13 +640,29 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
                     <div>
                         <div className="flex items-center justify-between mb-2">
                             <label className="block text-sm font-medium">Line Items</label>
-                            <button
-                                type="button"
-                                onClick={addLineItem}
-                                className="text-sm text-teal-400 hover:text-teal-300"
-                            >
-                                + Add Item
-                            </button>
+                            <div className="flex items-center gap-3">
+                                {products.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={(e) => addCatalogItem(e.target.value)}
+                                        className="px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm text-teal-400"
+                                    >
+                                        <option value="">+ From Catalog</option>
+                                        {products.map((product: CatalogProduct) => (
+                                            <option key={product.id} value={product.id}>
+                                                {product.name} ({product.sku})
+                                            </option>
+                                        ))}
+                                    </select>
+                                )}
+                                <button
+                                    type="button"
+                                    onClick={addLineItem}
+                                    className="text-sm text-teal-400 hover:text-teal-300"
+                                >
+                                    + Add Item
+                                </button>
+                            </div>
                         </div>
 
                         {formData.lineItems.map((item, index) => (
@@ -464,7 +672,7 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
                                     placeholder="Description"
                                     value={item.description}
                                     onChange={(e) => updateLineItem(index, 'description', e.target.value)}
-                                    className="col-span-6 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                    className={`${taxRates.length > 0 ? 'col-span-4' : 'col-span-6'} px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm`}
                                 />
                                 <input
                                     type="number"
@@ -480,8 +688,20 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
                                     onChange={(e) => updateLineItem(index, 'rate', e.target.value === '' ? '' : parseFloat(e.target.value))}
                                     className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
                                 />
+                                {taxRates.length > 0 && (
+                                    <select
+                                        value={item.taxRateId || ''}
+                                        onChange={(e) => updateLineItem(index, 'taxRateId', e.target.value || undefined)}
+                                        className="col-span-2 px-2 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                    >
+                                        <option value="">No tax</option>
+                                        {taxRates.map((rate: TaxRate) => (
+                                            <option key={rate.id} value={rate.id}>{rate.code}</option>
+                                        ))}
+                                    </select>
+                                )}
                                 <div className="col-span-2 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm flex items-center">
-                                    ${item.amount.toFixed(2)}
+                                    {formatCurrency(item.amount, formData.currency)}
                                 </div>
                             </div>
                         ))}
@@ -489,7 +709,7 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                         <div>
-                            <label className="block text-sm font-medium mb-2">Discount Amount ($)</label>
+                            <label className="block text-sm font-medium mb-2">Discount Amount ({formData.currency})</label>
                             <input
                                 type="number"
                                 min="0"
@@ -499,20 +719,52 @@ const CreateInvoiceModal = ({ clients, projects, contracts, isOpen, onClose, onI
                                 className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
                             />
                         </div>
-                        <div>
-                            <label className="block text-sm font-medium mb-2">Tax Rate (%)</label>
-                            <input
-                                type="number"
-                                min="0"
-                                max="100"
-                                step="0.1"
-                                value={formData.taxRate}
-                                onChange={(e) => setFormData({ ...formData, taxRate: parseFloat(e.target.value) || 0 })}
-                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
-                            />
-                        </div>
+                        {taxed ? (
+                            <label className="flex items-center gap-2 text-sm md:pt-8">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.pricesIncludeTax}
+                                    onChange={(e) => setFormData({ ...formData, pricesIncludeTax: e.target.checked })}
+                                    className="w-4 h-4 accent-teal-500"
+                                />
+                                Prices include tax
+                            </label>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Tax Rate (%)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.1"
+                                    value={formData.taxRate}
+                                    onChange={(e) => setFormData({ ...formData, taxRate: parseFloat(e.target.value) || 0 })}
+                                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
+                                />
+                            </div>
+                        )}
                     </div>
 
+                    {taxed && (
+                        <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700 text-sm space-y-1">
+                            {selectedClient?.taxExempt && (
+                                <p className="text-amber-400">
+                                    {selectedClient.name} is tax exempt{selectedClient.taxExemptionReason && ` (${selectedClient.taxExemptionReason})`}. No tax is charged.
+                                </p>
+                            )}
+                            {taxed.taxLines.map(line => (
+                                <div key={`${line.taxRateId}:${line.component}`} className="flex justify-between text-slate-400">
+                                    <span>{formData.pricesIncludeTax ? 'Incl. ' : ''}{line.code} {line.component} ({line.rate}%)</span>
+                                    <span className="font-mono">{formatCurrency(line.taxAmount, formData.currency)}</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between font-semibold">
+                                <span>Total</span>
+                                <span className="font-mono">{formatCurrency(taxed.total, formData.currency)}</span>
+                            </div>
+                        </div>
+                    )}
+
                     <div>
                         <label className="block text-sm font-medium mb-2">Notes</label>
                         <textarea
@@ -29,6 +29,7 @@ import toast from 'react-hot-toast';
 
 // Components
 import BusinessHome from './BusinessHome';
+import PluginPage from '../plugins/PluginPage';
 import ProjectsPage from './ProjectsPage';
 import TeamPage from './TeamPage';
 import MessagesPage from './MessagesPage';
@@ -48,6 +49,7 @@ import ContractDashboard from '../../contracts/ContractDashboard';
 const ChartOfAccountsPage = React.lazy(() => import('../accounting/ChartOfAccountsPage'));
 const JournalEntriesPage = React.lazy(() => import('../accounting/JournalEntriesPage'));
 const FinancialReportsPage = React.lazy(() => import('../accounting/FinancialReportsPage'));
+const WorkflowsPage = React.lazy(() => import('../workflows/WorkflowsPage'));
 const GmailTab = React.lazy(() => import('../GmailTab'));
 const CustomVideoRoom = React.lazy(() => import('../video/CustomVideoRoom'));
 
@@ -344,7 +346,18 @@ const BusinessDashboard: React.FC<BusinessDashboardProps> = ({ user, onLogout, a
                     </React.Suspense>
                 );
 
+            case '/dashboard/workflows':
+                return (
+                    <React.Suspense fallback={<div className="flex items-center justify-center h-64"><div className="w-8 h-8 border-2 border-teal-500/30 border-t-teal-500 rounded-full animate-spin"></div></div>}>
+                        <WorkflowsPage />
+                    </React.Suspense>
+                );
+
             default:
+                // Plugin menu routes
+                if (activeTab.startsWith('/dashboard/plugins/')) {
+                    return <PluginPage path={activeTab} />;
+                }
                 return <BusinessHome user={user} />;
         }
     };
@@ -369,6 +382,7 @@ const BusinessDashboard: React.FC<BusinessDashboardProps> = ({ user, onLogout, a
             case '/dashboard/accounting/chart-of-accounts': return 'Chart of Accounts';
             case '/dashboard/accounting/journal-entries': return 'Journal Entries';
             case '/dashboard/accounting/reports': return 'Financial Reports';
+            case '/dashboard/workflows': return 'Workflows';
             case '/dashboard/gmail': return 'Gmail Integration';
             default: return 'AlphaClone';
         }
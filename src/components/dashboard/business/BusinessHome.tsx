@@ -5,6 +5,7 @@ import { User } from '../../../types';
 import { useTenant } from '../../../contexts/TenantContext';
 import { businessClientService } from '../../../services/businessClientService';
 import { dailyService } from '../../../services/dailyService';
+import PluginWidgets from '../plugins/PluginWidgets';
 import {
     DollarSign,
     Users,
@@ -111,6 +112,9 @@ const BusinessHome: React.FC<BusinessHomeProps> = ({ user }) => {
                 />
             </div>
 
+            {/* Plugin Widgets */}
+            <PluginWidgets />
+
             {/* Charts & Upcoming Row */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {/* Revenue Chart */}
@@ -496,7 +496,10 @@ const EditClientModal = ({ client, onClose, onSave }: { client: BusinessClient;
         company: client.company || '',
         stage: client.stage,
         value: client.value,
-        notes: client.notes || ''
+        notes: client.notes || '',
+        taxId: client.taxId || '',
+        taxExempt: client.taxExempt,
+        taxExemptionReason: client.taxExemptionReason || ''
     });
 
     const handleSubmit = (e: React.FormEvent) => {
@@ -580,6 +583,41 @@ const EditClientModal = ({ client, onClose, onSave }: { client: BusinessClient;
                         />
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Tax ID</label>
+                            <input
+                                type="text"
+                                value={formData.taxId}
+                                onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+                                placeholder="VAT / GST number"
+                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
+                            />
+                        </div>
+                        <label className="flex items-center gap-2 text-sm md:pt-8">
+                            <input
+                                type="checkbox"
+                                checked={formData.taxExempt}
+                                onChange={(e) => setFormData({ ...formData, taxExempt: e.target.checked })}
+                                className="w-4 h-4 accent-teal-500"
+                            />
+                            Tax exempt
+                        </label>
+                    </div>
+
+                    {formData.taxExempt && (
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Exemption Reason</label>
+                            <input
+                                type="text"
+                                value={formData.taxExemptionReason}
+                                onChange={(e) => setFormData({ ...formData, taxExemptionReason: e.target.value })}
+                                placeholder="e.g. resale certificate number"
+                                className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
+                            />
+                        </div>
+                    )}
+
                     <div>
                         <label className="block text-sm font-medium mb-2">Notes</label>
                         <textarea
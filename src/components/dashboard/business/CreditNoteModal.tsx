@@ -0,0 +1,284 @@
+import React, { useState, useEffect } from 'react';
+import { X, Download, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { BusinessInvoice } from '../../../services/businessInvoiceService';
+import { creditNoteService, calculateCreditNote, CreditNote } from '../../../services/creditNoteService';
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from '../../../services/invoicePaymentService';
+import { formatCurrency } from '../../../services/accounting/currency';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+interface CreditNoteModalProps {
+    invoice: BusinessInvoice;
+    tenant: any;
+    client: any;
+    onClose: () => void;
+    onChanged: () => void;
+}
+
+/**
+ * Issue credit notes against an invoice, in full or per line, and apply
+ * them to its balance or refund them; lists the invoice's earlier notes
+ */
+const CreditNoteModal: React.FC<CreditNoteModalProps> = ({ invoice, tenant, client, onClose, onChanged }) => {
+    const currency = invoice.currency;
+    const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [quantities, setQuantities] = useState<Record<number, number>>({});
+    const [formData, setFormData] = useState({
+        reason: '',
+        issueDate: new Date().toISOString().split('T')[0],
+        settlement: invoice.amountDue > 0 ? 'apply' : 'refund',
+        method: 'bank_transfer' as PaymentMethod,
+        reference: ''
+    });
+
+    const loadCreditNotes = async () => {
+        setLoading(true);
+        const { creditNotes: notes, error } = await creditNoteService.getInvoiceCreditNotes(invoice.id);
+        if (error) toast.error(`Failed to load credit notes: ${error}`);
+
+        const credited = new Map<number, number>();
+        notes.forEach(note => note.lineItems.forEach(line =>
+            credited.set(line.lineIndex, (credited.get(line.lineIndex) || 0) + line.quantity)));
+
+        setCreditNotes(notes);
+        setQuantities(Object.fromEntries(invoice.lineItems.map((line, index) => [index, line.quantity - (credited.get(index) || 0)])));
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        loadCreditNotes();
+    }, [invoice.id]);
+
+    const remaining = (index: number) => invoice.lineItems[index].quantity
+        - creditNotes.reduce((sum, note) => sum + (note.lineItems.find(l => l.lineIndex === index)?.quantity || 0), 0);
+    const selection = Object.entries(quantities).map(([lineIndex, quantity]) => ({ lineIndex: Number(lineIndex), quantity }));
+    const preview = calculateCreditNote(invoice, creditNotes, selection);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (preview.error) {
+            toast.error(preview.error);
+            return;
+        }
+
+        setSaving(true);
+        const { creditNote, error } = await creditNoteService.createCreditNote(invoice.id, {
+            lines: selection,
+            reason: formData.reason,
+            issueDate: formData.issueDate,
+            applyToBalance: formData.settlement === 'apply'
+        });
+
+        if (error || !creditNote) {
+            setSaving(false);
+            toast.error(`Failed to issue credit note: ${error}`);
+            return;
+        }
+
+        if (formData.settlement === 'refund') {
+            const { error: refundError } = await creditNoteService.refundCreditNote(creditNote.id, {
+                method: formData.method,
+                reference: formData.reference,
+                refundDate: formData.issueDate
+            });
+            if (refundError) toast.error(`Credit note issued, but the refund failed: ${refundError}`);
+        }
+
+        setSaving(false);
+        toast.success(`Credit note ${creditNote.creditNoteNumber} issued`);
+        setFormData({ ...formData, reason: '', reference: '' });
+        await loadCreditNotes();
+        onChanged();
+    };
+
+    const handleRefund = async (creditNote: CreditNote) => {
+        if (!confirm(`Refund ${formatCurrency(creditNote.remainingCredit, currency)} to the client?`)) return;
+
+        const { error } = await creditNoteService.refundCreditNote(creditNote.id, {
+            method: formData.method,
+            reference: formData.reference
+        });
+        if (error) {
+            toast.error(`Failed to refund: ${error}`);
+            return;
+        }
+
+        toast.success('Refund recorded');
+        await loadCreditNotes();
+        onChanged();
+    };
+
+    const handleDownload = (creditNote: CreditNote) => {
+        try {
+            const doc = creditNoteService.generatePDF(creditNote, invoice, tenant, client);
+            doc.save(`credit-note-${creditNote.creditNoteNumber}.pdf`);
+        } catch (e) {
+            console.error('PDF Generation Error:', e);
+            toast.error('Failed to generate PDF');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+            <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-2xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-xl font-bold">Credit Notes · {invoice.invoiceNumber}</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {!loading && creditNotes.length > 0 && (
+                    <div className="space-y-2 mb-6">
+                        {creditNotes.map(note => (
+                            <div key={note.id} className="flex items-center justify-between bg-slate-800/50 border border-slate-800 rounded-xl px-4 py-3">
+                                <div>
+                                    <p className="font-medium">{note.creditNoteNumber} · {formatCurrency(note.total, currency)}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {note.issueDate}
+                                        {note.amountApplied > 0 && ` · ${formatCurrency(note.amountApplied, currency)} applied`}
+                                        {note.amountRefunded > 0 && ` · ${formatCurrency(note.amountRefunded, currency)} refunded`}
+                                        {note.remainingCredit > 0 && ` · ${formatCurrency(note.remainingCredit, currency)} unused`}
+                                    </p>
+                                </div>
+                                <div className="flex gap-2">
+                                    {note.remainingCredit > 0 && invoice.amountPaid > 0 && (
+                                        <button
+                                            onClick={() => handleRefund(note)}
+                                            className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                            title="Refund Remaining Credit"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => handleDownload(note)}
+                                        className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                        title="Download PDF"
+                                    >
+                                        <Download className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Quantity to Credit</label>
+                        <div className="space-y-2">
+                            {invoice.lineItems.map((line, index) => (
+                                <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                    <div className="col-span-8 text-sm">
+                                        <span className="font-medium">{line.description}</span>
+                                        <span className="text-slate-500"> · {remaining(index)} of {line.quantity} at {formatCurrency(line.rate, currency)}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={remaining(index)}
+                                        step="any"
+                                        value={quantities[index] ?? 0}
+                                        onChange={(e) => setQuantities({ ...quantities, [index]: parseFloat(e.target.value) || 0 })}
+                                        className="col-span-4 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className={`text-xs mt-2 ${preview.error ? 'text-red-400' : 'text-slate-500'}`}>
+                            {preview.error || `Credit of ${formatCurrency(preview.total, currency)} including ${formatCurrency(preview.tax, currency)} tax`}
+                        </p>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Issue Date *</label>
+                            <input
+                                type="date"
+                                required
+                                value={formData.issueDate}
+                                onChange={(e) => setFormData({ ...formData, issueDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Settle By</label>
+                            <select
+                                value={formData.settlement}
+                                onChange={(e) => setFormData({ ...formData, settlement: e.target.value })}
+                                className={inputClass}
+                            >
+                                <option value="apply" disabled={invoice.amountDue <= 0}>
+                                    Reducing the balance ({formatCurrency(invoice.amountDue, currency)} due)
+                                </option>
+                                <option value="refund" disabled={invoice.amountPaid <= 0}>Refunding the client</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    {formData.settlement === 'refund' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Refund Method</label>
+                                <select
+                                    value={formData.method}
+                                    onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+                                    className={inputClass}
+                                >
+                                    {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[])
+                                        .filter(method => method !== 'stripe')
+                                        .map(method => (
+                                            <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                                        ))}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Reference</label>
+                                <input
+                                    type="text"
+                                    value={formData.reference}
+                                    onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                                    placeholder="Transaction or receipt number"
+                                    className={inputClass}
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Reason</label>
+                        <textarea
+                            value={formData.reason}
+                            onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                            rows={2}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                        >
+                            Close
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving || loading || !!preview.error}
+                            className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            {saving ? 'Issuing...' : 'Issue Credit Note'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default CreditNoteModal;
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+    dunningService,
+    DunningPolicy,
+    DunningStep,
+    LateFeeType,
+    REMINDER_TONE_LABELS
+} from '../../../services/dunningService';
+import { InvoiceReminderTone } from '../../../services/emailTemplates';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+const LATE_FEE_LABELS: Record<LateFeeType, string> = {
+    none: 'No late fee',
+    flat: 'Flat fee',
+    percentage: '% of amount due',
+    interest: 'Interest (% per year)'
+};
+
+const describeOffset = (days: number): string => {
+    if (days === 0) return 'on the due date';
+    const unit = Math.abs(days) === 1 ? 'day' : 'days';
+    return days < 0 ? `${-days} ${unit} before due` : `${days} ${unit} overdue`;
+};
+
+interface DunningSettingsProps {
+    tenantId: string;
+}
+
+/**
+ * Edit the tenant's dunning policy: when reminders go out, how they
+ * escalate and what late fee is added
+ */
+const DunningSettings: React.FC<DunningSettingsProps> = ({ tenantId }) => {
+    const [policy, setPolicy] = useState<DunningPolicy | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadPolicy = async () => {
+        const { policy: data, error } = await dunningService.getPolicy(tenantId);
+        if (error) toast.error(`Failed to load dunning policy: ${error}`);
+        setPolicy(data);
+    };
+
+    useEffect(() => {
+        loadPolicy();
+    }, [tenantId]);
+
+    if (!policy) {
+        return <div className="text-center py-12 text-slate-400">Loading dunning policy...</div>;
+    }
+
+    const updateStep = (index: number, updates: Partial<DunningStep>) => {
+        const steps = [...policy.steps];
+        steps[index] = { ...steps[index], ...updates };
+        setPolicy({ ...policy, steps });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setSaving(true);
+        const { policy: saved, error } = await dunningService.savePolicy(tenantId, policy);
+        setSaving(false);
+
+        if (error || !saved) {
+            toast.error(`Failed to save dunning policy: ${error}`);
+            return;
+        }
+
+        setPolicy(saved);
+        toast.success('Dunning policy saved');
+    };
+
+    return (
+        <form onSubmit={handleSave} className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5 space-y-6">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-semibold">Payment Reminders</h3>
+                    <p className="text-sm text-slate-400">
+                        Checked each morning. Invoices past due are marked overdue and chased on this schedule.
+                    </p>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                    <input
+                        type="checkbox"
+                        checked={policy.isEnabled}
+                        onChange={(e) => setPolicy({ ...policy, isEnabled: e.target.checked })}
+                        className="w-4 h-4 accent-teal-500"
+                    />
+                    Enabled
+                </label>
+            </div>
+
+            <div>
+                <label className="block text-sm font-medium mb-2">Reminder Schedule</label>
+                <div className="space-y-2">
+                    {policy.steps.map((step, index) => (
+                        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                            <input
+                                type="number"
+                                value={step.offsetDays}
+                                onChange={(e) => updateStep(index, { offsetDays: parseInt(e.target.value) || 0 })}
+                                className="col-span-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                            />
+                            <span className="col-span-3 text-xs text-slate-500">{describeOffset(step.offsetDays)}</span>
+                            <select
+                                value={step.template}
+                                onChange={(e) => updateStep(index, { template: e.target.value as InvoiceReminderTone })}
+                                className="col-span-5 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                            >
+                                {(Object.keys(REMINDER_TONE_LABELS) as InvoiceReminderTone[]).map(tone => (
+                                    <option key={tone} value={tone}>{REMINDER_TONE_LABELS[tone]}</option>
+                                ))}
+                            </select>
+                            <button
+                                type="button"
+                                onClick={() => setPolicy({ ...policy, steps: policy.steps.filter((_, i) => i !== index) })}
+                                className="col-span-1 p-2 hover:bg-red-500/10 rounded-lg transition-colors"
+                                title="Remove"
+                            >
+                                <Trash2 className="w-4 h-4 text-red-400" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    onClick={() => {
+                        const last = policy.steps[policy.steps.length - 1];
+                        setPolicy({ ...policy, steps: [...policy.steps, { offsetDays: (last?.offsetDays ?? 0) + 7, template: 'firm' }] });
+                    }}
+                    className="mt-2 flex items-center gap-2 text-sm text-teal-400 hover:text-teal-300"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Reminder
+                </button>
+                <p className="text-xs text-slate-500 mt-2">
+                    Days are counted from the due date; negative days remind before it. Nothing is sent after a final notice.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium mb-2">Late Fee</label>
+                    <select
+                        value={policy.lateFeeType}
+                        onChange={(e) => setPolicy({ ...policy, lateFeeType: e.target.value as LateFeeType })}
+                        className={inputClass}
+                    >
+                        {(Object.keys(LATE_FEE_LABELS) as LateFeeType[]).map(type => (
+                            <option key={type} value={type}>{LATE_FEE_LABELS[type]}</option>
+                        ))}
+                    </select>
+                </div>
+                {policy.lateFeeType !== 'none' && (
+                    <div>
+                        <label className="block text-sm font-medium mb-2">
+                            {policy.lateFeeType === 'flat' ? 'Amount (in the invoice currency)' : 'Rate (%)'}
+                        </label>
+                        <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={policy.lateFeeValue}
+                            onChange={(e) => setPolicy({ ...policy, lateFeeValue: parseFloat(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+            </div>
+
+            {policy.lateFeeType !== 'none' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Grace Period (days)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={policy.lateFeeGraceDays}
+                            onChange={(e) => setPolicy({ ...policy, lateFeeGraceDays: parseInt(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Charge at Most (every 30 days)</label>
+                        <input
+                            type="number"
+                            min="0"
+                            value={policy.maxLateFees}
+                            onChange={(e) => setPolicy({ ...policy, maxLateFees: parseInt(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label className="block text-sm font-medium mb-2">Don&apos;t Chase Balances Below</label>
+                    <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={policy.minAmountDue}
+                        onChange={(e) => setPolicy({ ...policy, minAmountDue: parseFloat(e.target.value) || 0 })}
+                        className={inputClass}
+                    />
+                </div>
+                <label className="flex items-center gap-2 text-sm md:pt-8">
+                    <input
+                        type="checkbox"
+                        checked={policy.pauseOnPartialPayment}
+                        onChange={(e) => setPolicy({ ...policy, pauseOnPartialPayment: e.target.checked })}
+                        className="w-4 h-4 accent-teal-500"
+                    />
+                    Stop chasing once a client pays part of an invoice
+                </label>
+            </div>
+
+            <div className="flex justify-end">
+                <button
+                    type="submit"
+                    disabled={saving}
+                    className="px-6 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                    {saving ? 'Saving...' : 'Save Policy'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default DunningSettings;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { BusinessInvoice } from '../../../services/businessInvoiceService';
+import { dunningService, InvoiceReminder, REMINDER_TONE_LABELS } from '../../../services/dunningService';
+import { formatCurrency } from '../../../services/accounting/currency';
+
+const statusColors = {
+    pending: 'text-slate-400',
+    sent: 'text-teal-400',
+    failed: 'text-red-400'
+};
+
+interface InvoiceRemindersModalProps {
+    invoice: BusinessInvoice;
+    onClose: () => void;
+    onChanged: () => void;
+}
+
+/**
+ * Reminder history of an invoice, with a switch to pause dunning for it
+ */
+const InvoiceRemindersModal: React.FC<InvoiceRemindersModalProps> = ({ invoice, onClose, onChanged }) => {
+    const [reminders, setReminders] = useState<InvoiceReminder[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [paused, setPaused] = useState(invoice.dunningPaused);
+
+    const loadReminders = async () => {
+        setLoading(true);
+        const { reminders: data, error } = await dunningService.getInvoiceReminders(invoice.id);
+        if (error) toast.error(`Failed to load reminders: ${error}`);
+        setReminders(data);
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        loadReminders();
+    }, [invoice.id]);
+
+    const handleTogglePause = async () => {
+        const { error } = await dunningService.setInvoicePaused(invoice.id, !paused);
+        if (error) {
+            toast.error(`Failed to update reminders: ${error}`);
+            return;
+        }
+
+        setPaused(!paused);
+        toast.success(paused ? 'Reminders resumed' : 'Reminders paused');
+        onChanged();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+            <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-xl font-bold">Reminders · {invoice.invoiceNumber}</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="text-center py-8 text-slate-400">Loading reminders...</div>
+                ) : reminders.length === 0 ? (
+                    <div className="text-center py-8 text-slate-400">No reminders sent yet.</div>
+                ) : (
+                    <div className="space-y-2">
+                        {reminders.map(reminder => (
+                            <div key={reminder.id} className="flex items-center justify-between bg-slate-800/50 border border-slate-800 rounded-xl px-4 py-3">
+                                <div>
+                                    <p className="font-medium">{REMINDER_TONE_LABELS[reminder.template] || reminder.template}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {(reminder.sentAt || reminder.createdAt).split('T')[0]}
+                                        {reminder.recipient && ` · ${reminder.recipient}`}
+                                        {reminder.amountDue != null && ` · ${formatCurrency(reminder.amountDue, invoice.currency)} due`}
+                                    </p>
+                                    {reminder.error && <p className="text-xs text-red-400 mt-1">{reminder.error}</p>}
+                                </div>
+                                <span className={`text-xs capitalize ${statusColors[reminder.status]}`}>{reminder.status}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex gap-3 pt-6">
+                    <button
+                        type="button"
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                    >
+                        Close
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleTogglePause}
+                        className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 rounded-lg transition-colors"
+                    >
+                        {paused ? 'Resume Reminders' : 'Pause Reminders'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InvoiceRemindersModal;
@@ -0,0 +1,268 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowUpCircle, Lock, Puzzle, Save } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { usePluginExtensions, usePluginView } from '../../../hooks/usePluginExtensions';
+import type { PluginSetting } from '../../../services/plugins/types';
+import type { PluginExtension } from '../../../services/plugins/ui';
+import { compareVersions, isValidVersion } from '../../../services/plugins/semver';
+import PluginViewRenderer from '../plugins/PluginViewRenderer';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+// Secret settings come back as { $secret: true, isSet } and are never shown
+const isRedactedSecret = (value: any): boolean => !!value && typeof value === 'object' && value.$secret === true;
+
+const SettingField: React.FC<{
+    setting: PluginSetting;
+    value: any;
+    stored: any;
+    error?: string;
+    onChange: (value: any) => void;
+}> = ({ setting, value, stored, error, onChange }) => {
+    let input: React.ReactNode;
+
+    if (setting.secret) {
+        input = (
+            <input
+                type="password"
+                autoComplete="new-password"
+                value={value ?? ''}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={stored?.isSet ? '•••••••• (set; leave blank to keep)' : ''}
+                className={inputClass}
+            />
+        );
+    } else if (setting.type === 'boolean') {
+        input = (
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                    type="checkbox"
+                    checked={!!value}
+                    onChange={(e) => onChange(e.target.checked)}
+                    className="accent-teal-500"
+                />
+                Enabled
+            </label>
+        );
+    } else if (setting.type === 'select') {
+        input = (
+            <select
+                value={value === undefined ? '' : JSON.stringify(value)}
+                onChange={(e) => onChange(e.target.value ? JSON.parse(e.target.value) : undefined)}
+                className={inputClass}
+            >
+                <option value="">Select...</option>
+                {(setting.options || []).map(option => (
+                    <option key={JSON.stringify(option.value)} value={JSON.stringify(option.value)}>{option.label}</option>
+                ))}
+            </select>
+        );
+    } else if (setting.type === 'textarea') {
+        input = (
+            <textarea
+                value={value ?? ''}
+                onChange={(e) => onChange(e.target.value)}
+                rows={4}
+                className={inputClass}
+            />
+        );
+    } else {
+        input = (
+            <input
+                type={setting.type === 'number' ? 'number' : 'text'}
+                value={value ?? ''}
+                onChange={(e) => onChange(e.target.value)}
+                className={inputClass}
+            />
+        );
+    }
+
+    return (
+        <div>
+            <label className="flex items-center gap-1 text-sm font-medium mb-2">
+                {setting.label}
+                {setting.required && <span className="text-red-400">*</span>}
+                {setting.secret && <Lock className="w-3.5 h-3.5 text-slate-500" />}
+            </label>
+            {input}
+            {setting.description && <p className="text-xs text-slate-500 mt-1">{setting.description}</p>}
+            {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+        </div>
+    );
+};
+
+const PluginSettingsForm: React.FC<{ extension: PluginExtension }> = ({ extension }) => {
+    const [settings, setSettings] = useState<PluginSetting[]>([]);
+    const [stored, setStored] = useState<Record<string, any>>({});
+    const [values, setValues] = useState<Record<string, any>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [upgrading, setUpgrading] = useState(false);
+    const queryClient = useQueryClient();
+    const { data: view } = usePluginView(extension.tenantPluginId, extension.ui.settingsPage?.component);
+
+    const applyConfig = (config: Record<string, any>, pluginSettings: PluginSetting[]) => {
+        setStored(config);
+        setValues(Object.fromEntries(pluginSettings.map(setting => [
+            setting.key,
+            isRedactedSecret(config[setting.key]) ? '' : (config[setting.key] ?? setting.default)
+        ])));
+    };
+
+    useEffect(() => {
+        const load = async () => {
+            setLoading(true);
+            try {
+                const response = await fetch(`/api/plugins/${extension.tenantPluginId}/settings`);
+                const body = await response.json();
+                if (!response.ok) throw new Error(body.error || 'Failed to load settings');
+
+                setSettings(body.settings);
+                applyConfig(body.config, body.settings);
+            } catch (err: any) {
+                toast.error(err.message);
+            } finally {
+                setLoading(false);
+            }
+        };
+        load();
+    }, [extension.tenantPluginId, extension.version]);
+
+    const canUpgrade = isValidVersion(extension.version)
+        && isValidVersion(extension.latestVersion)
+        && compareVersions(extension.latestVersion, extension.version) > 0;
+
+    const handleUpgrade = async () => {
+        setUpgrading(true);
+        try {
+            const response = await fetch(`/api/plugins/${extension.tenantPluginId}/upgrade`, { method: 'POST' });
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Failed to upgrade plugin');
+
+            toast.success(`${extension.name} upgraded to ${body.toVersion}`);
+            queryClient.invalidateQueries({ queryKey: ['plugin-extensions'] });
+            queryClient.invalidateQueries({ queryKey: ['plugin-view', extension.tenantPluginId] });
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setUpgrading(false);
+        }
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setErrors({});
+        try {
+            const response = await fetch(`/api/plugins/${extension.tenantPluginId}/settings`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ config: values })
+            });
+            const body = await response.json();
+
+            if (response.status === 400 && body.errors) {
+                setErrors(body.errors);
+                return;
+            }
+            if (!response.ok) throw new Error(body.error || 'Failed to save settings');
+
+            applyConfig(body.config, settings);
+            toast.success(`${extension.name} settings saved`);
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="p-4 bg-slate-800 rounded-xl border border-slate-700 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+                <h4 className="font-medium text-white flex items-center gap-2">
+                    <Puzzle className="w-4 h-4 text-teal-400" />
+                    {extension.name}
+                    <span className="text-xs font-normal text-slate-500">v{extension.version}</span>
+                </h4>
+                {canUpgrade && (
+                    <button
+                        onClick={handleUpgrade}
+                        disabled={upgrading}
+                        className="flex items-center gap-2 px-3 py-1.5 text-sm bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-teal-300 rounded-lg transition-colors"
+                    >
+                        <ArrowUpCircle className="w-4 h-4" />
+                        {upgrading ? 'Upgrading...' : `Upgrade to v${extension.latestVersion}`}
+                    </button>
+                )}
+            </div>
+
+            {loading ? (
+                <div className="text-slate-400 text-sm">Loading settings...</div>
+            ) : settings.length === 0 ? (
+                <p className="text-sm text-slate-400">This plugin has no settings.</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {settings.map(setting => (
+                            <SettingField
+                                key={setting.key}
+                                setting={setting}
+                                value={values[setting.key]}
+                                stored={stored[setting.key]}
+                                error={errors[setting.key]}
+                                onChange={(value) => setValues(prev => ({ ...prev, [setting.key]: value }))}
+                            />
+                        ))}
+                    </div>
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                        >
+                            <Save className="w-4 h-4" />
+                            {saving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {view && (
+                <div className="pt-4 border-t border-slate-700">
+                    <PluginViewRenderer view={view} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const PluginSettings: React.FC = () => {
+    const { extensions, isLoading } = usePluginExtensions();
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h3 className="text-xl font-bold">Plugins</h3>
+                <p className="text-sm text-slate-400">Settings of the plugins enabled for your organization. Secret values are stored encrypted.</p>
+            </div>
+
+            {isLoading ? (
+                <div className="text-slate-400">Loading plugins...</div>
+            ) : extensions.length === 0 ? (
+                <div className="p-8 text-center bg-slate-800 rounded-xl border border-slate-700">
+                    <Puzzle className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+                    <p className="text-slate-400">No plugins enabled</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {extensions.map(extension => (
+                        <PluginSettingsForm key={extension.tenantPluginId} extension={extension} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PluginSettings;
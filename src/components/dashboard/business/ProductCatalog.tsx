@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+    productCatalogService,
+    CatalogProduct,
+    CatalogProductInput,
+    ProductType,
+    TaxCategory,
+    PRODUCT_UNITS,
+    TAX_CATEGORY_LABELS
+} from '../../../services/productCatalogService';
+import { chartOfAccountsService, ChartOfAccount } from '../../../services/accounting/chartOfAccountsService';
+import { formatCurrency, SUPPORTED_CURRENCIES } from '../../../services/accounting/currency';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+const emptyProduct = (baseCurrency: string): CatalogProductInput => ({
+    sku: '',
+    name: '',
+    description: '',
+    type: 'service',
+    unit: 'each',
+    prices: { [baseCurrency]: 0 },
+    taxCategory: 'standard',
+    revenueAccountId: '',
+    isActive: true
+});
+
+interface ProductCatalogProps {
+    tenantId: string;
+    baseCurrency: string;
+    onChanged?: () => void;
+}
+
+/**
+ * The tenant's products and services, with the prices and revenue
+ * account used when they are added to quotes, deals and invoices
+ */
+const ProductCatalog: React.FC<ProductCatalogProps> = ({ tenantId, baseCurrency, onChanged }) => {
+    const [products, setProducts] = useState<CatalogProduct[]>([]);
+    const [revenueAccounts, setRevenueAccounts] = useState<ChartOfAccount[]>([]);
+    const [editing, setEditing] = useState<CatalogProduct | null>(null);
+    const [form, setForm] = useState<CatalogProductInput | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadProducts = async () => {
+        const { products: data, error } = await productCatalogService.getProducts(tenantId);
+        if (error) toast.error(`Failed to load catalog: ${error}`);
+        setProducts(data);
+    };
+
+    const loadRevenueAccounts = async () => {
+        const { accounts } = await chartOfAccountsService.getAccountsByType('revenue');
+        setRevenueAccounts(accounts);
+    };
+
+    useEffect(() => {
+        loadProducts();
+        loadRevenueAccounts();
+    }, [tenantId]);
+
+    const openForm = (product: CatalogProduct | null) => {
+        setEditing(product);
+        setForm(product
+            ? {
+                sku: product.sku,
+                name: product.name,
+                description: product.description || '',
+                type: product.type,
+                unit: product.unit,
+                prices: { ...product.prices },
+                taxCategory: product.taxCategory,
+                revenueAccountId: product.revenueAccountId || '',
+                isActive: product.isActive
+            }
+            : emptyProduct(baseCurrency));
+    };
+
+    const closeForm = () => {
+        setEditing(null);
+        setForm(null);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+
+        setSaving(true);
+        const { error } = editing
+            ? await productCatalogService.updateProduct(editing.id, form)
+            : await productCatalogService.createProduct(tenantId, form);
+        setSaving(false);
+
+        if (error) {
+            toast.error(`Failed to save product: ${error}`);
+            return;
+        }
+
+        toast.success(editing ? 'Product updated' : 'Product added to catalog');
+        closeForm();
+        loadProducts();
+        onChanged?.();
+    };
+
+    const toggleActive = async (product: CatalogProduct) => {
+        const { error } = await productCatalogService.updateProduct(product.id, { isActive: !product.isActive });
+        if (error) {
+            toast.error(`Failed to update product: ${error}`);
+            return;
+        }
+
+        loadProducts();
+        onChanged?.();
+    };
+
+    const setPrice = (currency: string, value: string) => {
+        if (!form) return;
+        const prices = { ...form.prices };
+        if (value === '') delete prices[currency];
+        else prices[currency] = parseFloat(value) || 0;
+        setForm({ ...form, prices });
+    };
+
+    const accountLabel = (accountId?: string) => {
+        const account = revenueAccounts.find(a => a.id === accountId);
+        return account ? `${account.accountCode} ${account.accountName}` : '4100 Service Revenue';
+    };
+
+    return (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-semibold">Products &amp; Services</h3>
+                    <p className="text-sm text-slate-400">
+                        Picked from on quotes, deals and invoices. Revenue is posted to each product&apos;s account.
+                    </p>
+                </div>
+                <button
+                    onClick={() => openForm(null)}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-500 hover:bg-teal-600 rounded-lg transition-colors text-sm"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Product
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                {products.map(product => (
+                    <div
+                        key={product.id}
+                        className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-slate-800/50 border border-slate-700 rounded-xl ${product.isActive ? '' : 'opacity-50'}`}
+                    >
+                        <div>
+                            <p className="font-medium">
+                                {product.name}
+                                <span className="ml-2 text-xs text-slate-500 font-mono">{product.sku}</span>
+                            </p>
+                            <p className="text-xs text-slate-400">
+                                {product.type === 'service' ? 'Service' : 'Product'} · per {product.unit} · {TAX_CATEGORY_LABELS[product.taxCategory]} · {accountLabel(product.revenueAccountId)}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <div className="text-sm text-right font-mono">
+                                {Object.entries(product.prices).map(([currency, price]) => (
+                                    <div key={currency}>{formatCurrency(price, currency)}</div>
+                                ))}
+                            </div>
+                            <label className="flex items-center gap-2 text-xs text-slate-400">
+                                <input
+                                    type="checkbox"
+                                    checked={product.isActive}
+                                    onChange={() => toggleActive(product)}
+                                    className="w-4 h-4 accent-teal-500"
+                                />
+                                Active
+                            </label>
+                            <button
+                                onClick={() => openForm(product)}
+                                className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+                                title="Edit"
+                            >
+                                <Edit className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {products.length === 0 && (
+                    <div className="text-center py-8 text-slate-400 text-sm">
+                        No products yet. Add the services you sell to stop retyping prices.
+                    </div>
+                )}
+            </div>
+
+            {form && (
+                <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                        <div className="flex items-center justify-between mb-6">
+                            <h3 className="text-xl font-bold">{editing ? 'Edit Product' : 'New Product'}</h3>
+                            <button onClick={closeForm} className="p-1 hover:bg-slate-800 rounded">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSave} className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">SKU *</label>
+                                    <input
+                                        required
+                                        value={form.sku}
+                                        onChange={(e) => setForm({ ...form, sku: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div className="md:col-span-2">
+                                    <label className="block text-sm font-medium mb-2">Name *</label>
+                                    <input
+                                        required
+                                        value={form.name}
+                                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Description</label>
+                                <textarea
+                                    value={form.description}
+                                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                                    rows={2}
+                                    className={inputClass}
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">Type</label>
+                                    <select
+                                        value={form.type}
+                                        onChange={(e) => setForm({ ...form, type: e.target.value as ProductType })}
+                                        className={inputClass}
+                                    >
+                                        <option value="service">Service</option>
+                                        <option value="product">Product</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">Unit</label>
+                                    <select
+                                        value={form.unit}
+                                        onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                                        className={inputClass}
+                                    >
+                                        {PRODUCT_UNITS.map(unit => (
+                                            <option key={unit} value={unit}>{unit}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">Tax Category</label>
+                                    <select
+                                        value={form.taxCategory}
+                                        onChange={(e) => setForm({ ...form, taxCategory: e.target.value as TaxCategory })}
+                                        className={inputClass}
+                                    >
+                                        {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map(category => (
+                                            <option key={category} value={category}>{TAX_CATEGORY_LABELS[category]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Unit Price</label>
+                                <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                                    {SUPPORTED_CURRENCIES.map(currency => (
+                                        <div key={currency} className="flex items-center gap-2">
+                                            <span className="w-10 text-xs text-slate-400">{currency}</span>
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                step="0.01"
+                                                value={form.prices[currency] ?? ''}
+                                                onChange={(e) => setPrice(currency, e.target.value)}
+                                                className="w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-slate-500 mt-2">
+                                    Leave a currency blank if the product isn&apos;t priced in it.
+                                </p>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Revenue Account</label>
+                                <select
+                                    value={form.revenueAccountId}
+                                    onChange={(e) => setForm({ ...form, revenueAccountId: e.target.value })}
+                                    className={inputClass}
+                                >
+                                    <option value="">4100 Service Revenue (default)</option>
+                                    {revenueAccounts.map(account => (
+                                        <option key={account.id} value={account.id}>
+                                            {account.accountCode} {account.accountName}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={closeForm}
+                                    className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                                >
+                                    {saving ? 'Saving...' : 'Save Product'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProductCatalog;
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { BusinessInvoice } from '../../../services/businessInvoiceService';
+import {
+    allocateOldestFirst,
+    InvoicePayment,
+    invoicePaymentService,
+    PAYMENT_METHOD_LABELS,
+    PaymentMethod
+} from '../../../services/invoicePaymentService';
+import { formatCurrency, roundMoney } from '../../../services/accounting/currency';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+interface RecordPaymentModalProps {
+    tenantId: string;
+    invoice: BusinessInvoice;       // Invoice the payment was recorded from
+    invoices: BusinessInvoice[];    // All invoices, for the client's other open ones
+    onClose: () => void;
+    onRecorded: () => void;
+}
+
+/**
+ * Record money received from a client and split it across their open
+ * invoices in the same currency (the selected invoice first, then oldest due).
+ * Credit left over from the client's earlier payments can be applied instead.
+ */
+const RecordPaymentModal: React.FC<RecordPaymentModalProps> = ({ tenantId, invoice, invoices, onClose, onRecorded }) => {
+    const currency = invoice.currency;
+    const openInvoices = [
+        invoice,
+        ...invoices
+            .filter(inv => inv.id !== invoice.id
+                && inv.clientId === invoice.clientId
+                && inv.currency === currency
+                && ['sent', 'overdue', 'partially_paid'].includes(inv.status)
+                && inv.amountDue > 0)
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    ];
+
+    const [saving, setSaving] = useState(false);
+    const [formData, setFormData] = useState({
+        amount: invoice.amountDue,
+        paymentDate: new Date().toISOString().split('T')[0],
+        method: (invoice.mobilePaymentDetails ? 'mobile_money' : 'bank_transfer') as PaymentMethod,
+        reference: '',
+        notes: ''
+    });
+    const [allocations, setAllocations] = useState<Record<string, number>>(
+        Object.fromEntries(allocateOldestFirst(invoice.amountDue, openInvoices, currency).map(a => [a.invoiceId, a.amount]))
+    );
+
+    const [credits, setCredits] = useState<InvoicePayment[]>([]);
+    const availableCredit = roundMoney(credits.reduce((sum, payment) => sum + payment.unallocatedAmount, 0), currency);
+
+    useEffect(() => {
+        if (!invoice.clientId) return;
+        invoicePaymentService.getUnappliedPayments(tenantId, invoice.clientId, currency)
+            .then(({ payments }) => setCredits(payments));
+    }, [tenantId, invoice.clientId, currency]);
+
+    const handleApplyCredit = async () => {
+        setSaving(true);
+        let remaining = invoice.amountDue;
+        const glErrors: string[] = [];
+
+        // Oldest credit first, until the invoice is settled
+        for (const payment of credits) {
+            if (remaining <= 0) break;
+            const amount = roundMoney(Math.min(remaining, payment.unallocatedAmount), currency);
+
+            const { error, glError } = await invoicePaymentService.applyUnappliedCredit(payment.id, [{ invoiceId: invoice.id, amount }]);
+            if (error) {
+                setSaving(false);
+                toast.error(`Failed to apply credit: ${error}`);
+                return;
+            }
+            if (glError) glErrors.push(glError);
+            remaining = roundMoney(remaining - amount, currency);
+        }
+
+        setSaving(false);
+        if (glErrors.length > 0) {
+            toast.error(`Credit applied, but posting it to the ledger failed: ${glErrors.join('; ')}`);
+        } else {
+            toast.success('Credit applied');
+        }
+        onRecorded();
+    };
+
+    const allocated = roundMoney(Object.values(allocations).reduce((sum, amount) => sum + (amount || 0), 0), currency);
+    const unallocated = roundMoney(formData.amount - allocated, currency);
+
+    const handleAmountChange = (amount: number) => {
+        setFormData({ ...formData, amount });
+        setAllocations(Object.fromEntries(allocateOldestFirst(amount, openInvoices, currency).map(a => [a.invoiceId, a.amount])));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        if (unallocated < 0) {
+            toast.error('Allocations exceed the payment amount');
+            return;
+        }
+
+        setSaving(true);
+        const { error, glError } = await invoicePaymentService.recordPayment(tenantId, {
+            clientId: invoice.clientId,
+            amount: formData.amount,
+            currency,
+            paymentDate: formData.paymentDate,
+            method: formData.method,
+            reference: formData.reference,
+            notes: formData.notes,
+            allocations: Object.entries(allocations).map(([invoiceId, amount]) => ({ invoiceId, amount }))
+        });
+        setSaving(false);
+
+        if (error) {
+            toast.error(`Failed to record payment: ${error}`);
+            return;
+        }
+
+        if (glError) {
+            toast.error(`Payment recorded, but posting it to the ledger failed: ${glError}`);
+        } else {
+            toast.success('Payment recorded');
+        }
+        onRecorded();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+            <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-xl font-bold">Record Payment</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                {availableCredit > 0 && (
+                    <div className="flex items-center justify-between gap-4 p-4 mb-4 bg-teal-500/10 rounded-xl border border-teal-500/20 text-sm">
+                        <span>
+                            {formatCurrency(availableCredit, currency)} of unapplied credit from earlier payments
+                        </span>
+                        <button
+                            type="button"
+                            onClick={handleApplyCredit}
+                            disabled={saving}
+                            className="shrink-0 px-3 py-1.5 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            Apply to {invoice.invoiceNumber}
+                        </button>
+                    </div>
+                )}
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Amount Received ({currency}) *</label>
+                            <input
+                                type="number"
+                                required
+                                min="0.01"
+                                step="0.01"
+                                value={formData.amount}
+                                onChange={(e) => handleAmountChange(parseFloat(e.target.value) || 0)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Payment Date *</label>
+                            <input
+                                type="date"
+                                required
+                                value={formData.paymentDate}
+                                onChange={(e) => setFormData({ ...formData, paymentDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Method</label>
+                            <select
+                                value={formData.method}
+                                onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+                                className={inputClass}
+                            >
+                                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+                                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Reference</label>
+                            <input
+                                type="text"
+                                value={formData.reference}
+                                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+                                placeholder="Transaction or receipt number"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Apply to Invoices</label>
+                        <div className="space-y-2">
+                            {openInvoices.map(inv => (
+                                <div key={inv.id} className="grid grid-cols-12 gap-2 items-center">
+                                    <div className="col-span-7 text-sm">
+                                        <span className="font-medium">{inv.invoiceNumber}</span>
+                                        <span className="text-slate-500"> · {formatCurrency(inv.amountDue, currency)} due {inv.dueDate}</span>
+                                    </div>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max={inv.amountDue}
+                                        step="0.01"
+                                        value={allocations[inv.id] ?? 0}
+                                        onChange={(e) => setAllocations({ ...allocations, [inv.id]: parseFloat(e.target.value) || 0 })}
+                                        className="col-span-5 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        {unallocated !== 0 && (
+                            <p className={`text-xs mt-2 ${unallocated < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                                {unallocated < 0
+                                    ? `Allocations exceed the payment by ${formatCurrency(-unallocated, currency)}`
+                                    : `${formatCurrency(unallocated, currency)} will be kept as unapplied credit (Customer Deposits)`}
+                            </p>
+                        )}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Notes</label>
+                        <textarea
+                            value={formData.notes}
+                            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                            rows={2}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving || unallocated < 0}
+                            className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            {saving ? 'Recording...' : 'Record Payment'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default RecordPaymentModal;
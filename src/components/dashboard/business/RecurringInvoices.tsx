@@ -0,0 +1,525 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Pause, Play, Plus, Repeat, Send, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { InvoiceLineItem } from '../../../services/businessInvoiceService';
+import {
+    calculateScheduleTotals,
+    recurringInvoiceService,
+    RecurringFrequency,
+    RecurringInvoiceSchedule
+} from '../../../services/recurringInvoiceService';
+import { formatCurrency, SUPPORTED_CURRENCIES } from '../../../services/accounting/currency';
+import { defaultTaxRateId, TaxRate } from '../../../services/accounting/taxService';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+const FREQUENCY_UNITS: Record<RecurringFrequency, [string, string]> = {
+    weekly: ['week', 'weeks'],
+    monthly: ['month', 'months'],
+    annual: ['year', 'years']
+};
+
+const describeFrequency = (schedule: RecurringInvoiceSchedule): string => {
+    const [singular, plural] = FREQUENCY_UNITS[schedule.frequency];
+    return schedule.intervalCount === 1
+        ? `Every ${singular}`
+        : `Every ${schedule.intervalCount} ${plural}`;
+};
+
+interface RecurringInvoicesProps {
+    tenantId: string;
+    clients: any[];
+    projects: any[];
+    taxRates: TaxRate[];
+    baseCurrency: string;
+}
+
+const RecurringInvoices: React.FC<RecurringInvoicesProps> = ({ tenantId, clients, projects, taxRates, baseCurrency }) => {
+    const [schedules, setSchedules] = useState<RecurringInvoiceSchedule[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showForm, setShowForm] = useState(false);
+
+    const loadSchedules = async () => {
+        setLoading(true);
+        const { schedules: data, error } = await recurringInvoiceService.getSchedules(tenantId);
+        if (error) toast.error(`Failed to load recurring invoices: ${error}`);
+        setSchedules(data);
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        loadSchedules();
+    }, [tenantId]);
+
+    const handleCreate = async (schedule: Partial<RecurringInvoiceSchedule>) => {
+        const { schedule: created, error } = await recurringInvoiceService.createSchedule(tenantId, schedule);
+        if (error || !created) {
+            toast.error(`Failed to create schedule: ${error}`);
+            return;
+        }
+
+        setSchedules([...schedules, created]);
+        setShowForm(false);
+        toast.success('Recurring invoice scheduled');
+    };
+
+    const handleToggle = async (schedule: RecurringInvoiceSchedule) => {
+        const { error } = await recurringInvoiceService.updateSchedule(schedule.id, { isActive: !schedule.isActive });
+        if (error) {
+            toast.error(`Failed to update schedule: ${error}`);
+            return;
+        }
+
+        toast.success(schedule.isActive ? 'Schedule paused' : 'Schedule resumed');
+        await loadSchedules();
+    };
+
+    const handleDelete = async (scheduleId: string) => {
+        if (!confirm('Delete this schedule? Invoices already generated are kept.')) return;
+
+        const { error } = await recurringInvoiceService.deleteSchedule(scheduleId);
+        if (error) {
+            toast.error(`Failed to delete schedule: ${error}`);
+        } else {
+            setSchedules(schedules.filter(s => s.id !== scheduleId));
+            toast.success('Schedule deleted');
+        }
+    };
+
+    if (loading) {
+        return <div className="text-center py-12 text-slate-400">Loading recurring invoices...</div>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm text-slate-400">
+                    Invoices are generated each morning on the schedule&apos;s run date.
+                </p>
+                <button
+                    onClick={() => setShowForm(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors text-sm"
+                >
+                    <Plus className="w-4 h-4" />
+                    New Schedule
+                </button>
+            </div>
+
+            {schedules.map(schedule => {
+                const client = clients.find((c: any) => c.id === schedule.clientId);
+                const { total } = calculateScheduleTotals(schedule, taxRates, {
+                    exempt: client?.taxExempt,
+                    currency: schedule.currency || baseCurrency
+                });
+
+                return (
+                    <div key={schedule.id} className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5">
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                            <div className="flex items-center gap-4">
+                                <div className="w-12 h-12 bg-teal-500/10 border border-teal-500/20 rounded-lg flex items-center justify-center shrink-0">
+                                    <Repeat className="w-6 h-6 text-teal-400" />
+                                </div>
+                                <div>
+                                    <h3 className="font-semibold">{schedule.name}</h3>
+                                    <p className="text-sm text-slate-400">
+                                        {client?.name || 'No client'} · {describeFrequency(schedule)}
+                                        {schedule.endDate && ` until ${schedule.endDate}`}
+                                    </p>
+                                    {schedule.lastError && (
+                                        <p className="text-xs text-red-400 flex items-center gap-1 mt-1">
+                                            <AlertCircle className="w-3 h-3" />
+                                            {schedule.lastError}
+                                        </p>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="flex items-center justify-between md:justify-end gap-4">
+                                <div className="text-right">
+                                    <p className="text-xl font-bold text-teal-400">{formatCurrency(total, schedule.currency || baseCurrency)}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {schedule.isActive ? `Next: ${schedule.nextRunDate}` : 'Paused'}
+                                        {` · ${schedule.invoicesGenerated} generated`}
+                                    </p>
+                                </div>
+                                {schedule.autoSend && (
+                                    <span className="text-xs px-3 py-1 rounded-full border bg-blue-500/10 text-blue-400 border-blue-500/20 flex items-center gap-1">
+                                        <Send className="w-3 h-3" />
+                                        Auto-send
+                                    </span>
+                                )}
+                                <button
+                                    onClick={() => handleToggle(schedule)}
+                                    className="p-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                    title={schedule.isActive ? 'Pause' : 'Resume'}
+                                >
+                                    {schedule.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(schedule.id)}
+                                    className="p-2 bg-slate-800 hover:bg-red-500/20 text-slate-400 hover:text-red-400 rounded-lg transition-colors"
+                                    title="Delete"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+
+            {schedules.length === 0 && (
+                <div className="text-center py-12 text-slate-400">
+                    No recurring invoices yet. Schedule one to bill a client automatically.
+                </div>
+            )}
+
+            {showForm && (
+                <ScheduleForm
+                    clients={clients}
+                    projects={projects}
+                    taxRates={taxRates}
+                    baseCurrency={baseCurrency}
+                    onClose={() => setShowForm(false)}
+                    onSubmit={handleCreate}
+                />
+            )}
+        </div>
+    );
+};
+
+interface ScheduleFormProps {
+    clients: any[];
+    projects: any[];
+    taxRates: TaxRate[];
+    baseCurrency: string;
+    onClose: () => void;
+    onSubmit: (schedule: Partial<RecurringInvoiceSchedule>) => Promise<void>;
+}
+
+const ScheduleForm: React.FC<ScheduleFormProps> = ({ clients, projects, taxRates, baseCurrency, onClose, onSubmit }) => {
+    const [saving, setSaving] = useState(false);
+    const newLineItem = (): InvoiceLineItem => ({
+        description: '', quantity: 1, rate: 0, amount: 0, taxRateId: defaultTaxRateId(taxRates, 'standard')
+    });
+    const [formData, setFormData] = useState({
+        name: '',
+        clientId: '',
+        projectId: '',
+        frequency: 'monthly' as RecurringFrequency,
+        intervalCount: 1,
+        startDate: new Date().toISOString().split('T')[0],
+        endDate: '',
+        currency: baseCurrency,
+        paymentTermsDays: 14,
+        lineItems: [newLineItem()],
+        taxRate: 0,
+        discountAmount: 0,
+        notes: '',
+        autoSend: false
+    });
+
+    const updateLineItem = (index: number, field: keyof InvoiceLineItem, value: any) => {
+        const lineItems = [...formData.lineItems];
+        lineItems[index] = { ...lineItems[index], [field]: value };
+
+        if (field === 'quantity' || field === 'rate') {
+            lineItems[index].amount = (Number(lineItems[index].quantity) || 0) * (Number(lineItems[index].rate) || 0);
+        }
+
+        setFormData({ ...formData, lineItems });
+    };
+
+    const selectedClient = clients.find((client: any) => client.id === formData.clientId);
+    const taxed = taxRates.length > 0
+        ? calculateScheduleTotals(formData, taxRates, { exempt: selectedClient?.taxExempt, currency: formData.currency })
+        : null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        setSaving(true);
+        await onSubmit({
+            ...formData,
+            projectId: formData.projectId || undefined,
+            endDate: formData.endDate || undefined,
+            lineItems: formData.lineItems.filter(item => item.description.trim() !== '')
+        });
+        setSaving(false);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+            <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-2xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                <div className="flex items-center justify-between mb-6">
+                    <h3 className="text-xl font-bold">New Recurring Invoice</h3>
+                    <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded">
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Name *</label>
+                        <input
+                            type="text"
+                            required
+                            value={formData.name}
+                            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                            placeholder="Monthly retainer"
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Client *</label>
+                            <select
+                                required
+                                value={formData.clientId}
+                                onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                                className={inputClass}
+                            >
+                                <option value="">Select client</option>
+                                {clients.map((client: any) => (
+                                    <option key={client.id} value={client.id}>{client.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Project (Optional)</label>
+                            <select
+                                value={formData.projectId}
+                                onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                                className={inputClass}
+                            >
+                                <option value="">Select project</option>
+                                {projects.map((project: any) => (
+                                    <option key={project.id} value={project.id}>{project.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Every</label>
+                            <input
+                                type="number"
+                                min="1"
+                                value={formData.intervalCount}
+                                onChange={(e) => setFormData({ ...formData, intervalCount: parseInt(e.target.value) || 1 })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Frequency</label>
+                            <select
+                                value={formData.frequency}
+                                onChange={(e) => setFormData({ ...formData, frequency: e.target.value as RecurringFrequency })}
+                                className={inputClass}
+                            >
+                                <option value="weekly">Weekly</option>
+                                <option value="monthly">Monthly</option>
+                                <option value="annual">Annual</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Currency</label>
+                            <select
+                                value={formData.currency}
+                                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                                className={inputClass}
+                            >
+                                {SUPPORTED_CURRENCIES.map(code => (
+                                    <option key={code} value={code}>{code}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Start Date *</label>
+                            <input
+                                type="date"
+                                required
+                                value={formData.startDate}
+                                onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">End Date (Optional)</label>
+                            <input
+                                type="date"
+                                min={formData.startDate}
+                                value={formData.endDate}
+                                onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Payment Terms (days)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                value={formData.paymentTermsDays}
+                                onChange={(e) => setFormData({ ...formData, paymentTermsDays: parseInt(e.target.value) || 0 })}
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex items-center justify-between mb-2">
+                            <label className="block text-sm font-medium">Line Items</label>
+                            <button
+                                type="button"
+                                onClick={() => setFormData({
+                                    ...formData,
+                                    lineItems: [...formData.lineItems, newLineItem()]
+                                })}
+                                className="text-sm text-teal-400 hover:text-teal-300"
+                            >
+                                + Add Item
+                            </button>
+                        </div>
+
+                        {formData.lineItems.map((item, index) => (
+                            <div key={index} className="grid grid-cols-12 gap-2 mb-2">
+                                <input
+                                    type="text"
+                                    placeholder="Description"
+                                    value={item.description}
+                                    onChange={(e) => updateLineItem(index, 'description', e.target.value)}
+                                    className={`${taxRates.length > 0 ? 'col-span-4' : 'col-span-6'} px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm`}
+                                />
+                                <input
+                                    type="number"
+                                    placeholder="Qty"
+                                    value={item.quantity}
+                                    onChange={(e) => updateLineItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                                    className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                />
+                                <input
+                                    type="number"
+                                    placeholder="Rate"
+                                    value={item.rate}
+                                    onChange={(e) => updateLineItem(index, 'rate', parseFloat(e.target.value) || 0)}
+                                    className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                />
+                                {taxRates.length > 0 && (
+                                    <select
+                                        value={item.taxRateId || ''}
+                                        onChange={(e) => updateLineItem(index, 'taxRateId', e.target.value || undefined)}
+                                        className="col-span-2 px-2 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                    >
+                                        <option value="">No tax</option>
+                                        {taxRates.map(rate => (
+                                            <option key={rate.id} value={rate.id}>{rate.code}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <div className="col-span-2 px-3 py-2 bg-slate-900 border border-slate-700 rounded-lg text-sm flex items-center">
+                                    {formatCurrency(item.amount, formData.currency)}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Discount Amount ({formData.currency})</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={formData.discountAmount}
+                                onChange={(e) => setFormData({ ...formData, discountAmount: parseFloat(e.target.value) || 0 })}
+                                className={inputClass}
+                            />
+                        </div>
+                        {!taxed && (
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Tax Rate (%)</label>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max="100"
+                                    step="0.1"
+                                    value={formData.taxRate}
+                                    onChange={(e) => setFormData({ ...formData, taxRate: parseFloat(e.target.value) || 0 })}
+                                    className={inputClass}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    {taxed && (
+                        <div className="p-4 bg-slate-800/50 rounded-xl border border-slate-700 text-sm space-y-1">
+                            {selectedClient?.taxExempt && (
+                                <p className="text-amber-400">
+                                    {selectedClient.name} is tax exempt{selectedClient.taxExemptionReason && ` (${selectedClient.taxExemptionReason})`}. No tax is charged.
+                                </p>
+                            )}
+                            {taxed.taxLines.map(line => (
+                                <div key={`${line.taxRateId}:${line.component}`} className="flex justify-between text-slate-400">
+                                    <span>{line.code} {line.component} ({line.rate}%)</span>
+                                    <span className="font-mono">{formatCurrency(line.taxAmount, formData.currency)}</span>
+                                </div>
+                            ))}
+                            <div className="flex justify-between font-semibold">
+                                <span>Total per invoice</span>
+                                <span className="font-mono">{formatCurrency(taxed.total, formData.currency)}</span>
+                            </div>
+                        </div>
+                    )}
+
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Notes</label>
+                        <textarea
+                            value={formData.notes}
+                            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                            rows={2}
+                            className={inputClass}
+                        />
+                    </div>
+
+                    <div className="flex items-center gap-3 p-4 bg-slate-800/50 rounded-xl border border-slate-700">
+                        <input
+                            type="checkbox"
+                            id="autoSendRecurring"
+                            checked={formData.autoSend}
+                            onChange={(e) => setFormData({ ...formData, autoSend: e.target.checked })}
+                            className="w-4 h-4 text-teal-500 bg-slate-950 border-slate-700 rounded focus:ring-teal-500"
+                        />
+                        <label htmlFor="autoSendRecurring" className="text-sm font-medium cursor-pointer">
+                            Send automatically
+                            <p className="text-xs text-slate-500 font-normal">Email each invoice to the client and post it to the ledger as soon as it is generated. Otherwise invoices are kept as drafts for review.</p>
+                        </label>
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                            {saving ? 'Saving...' : 'Create Schedule'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+};
+
+export default RecurringInvoices;
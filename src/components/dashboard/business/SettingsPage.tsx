@@ -5,6 +5,8 @@ import { useTenant } from '../../../contexts/TenantContext';
 import { supabase } from '../../../lib/supabase';
 import toast from 'react-hot-toast';
 import CalendlySettings from './CalendlySettings';
+import WebhookSettings from './WebhookSettings';
+import PluginSettings from './PluginSettings';
 import {
     Building,
     Palette,
@@ -13,9 +15,12 @@ import {
     Save,
     Upload,
     Loader2,
-    Calendar
+    Calendar,
+    Webhook,
+    Puzzle
 } from 'lucide-react';
 import { fileUploadService } from '../../../services/fileUploadService';
+import { SUPPORTED_CURRENCIES } from '../../../services/accounting/currency';
 import GmailIntegration from './GmailIntegration';
 
 interface SettingsPageProps {
@@ -163,7 +168,9 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ user }) => {
         { id: 'business', label: 'Business Profile', icon: Building },
         { id: 'notifications', label: 'Notifications', icon: Bell },
         { id: 'security', label: 'Security', icon: Shield },
-        { id: 'booking', label: 'Booking & Calendly', icon: Calendar }
+        { id: 'booking', label: 'Booking & Calendly', icon: Calendar },
+        { id: 'webhooks', label: 'Webhooks', icon: Webhook },
+        { id: 'plugins', label: 'Plugins', icon: Puzzle }
     ];
 
     if (loading) {
@@ -242,6 +249,20 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ user }) => {
                                 />
                             </div>
 
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Base Currency</label>
+                                <select
+                                    value={settings.currency}
+                                    onChange={(e) => setSettings({ ...settings, currency: e.target.value })}
+                                    className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500"
+                                >
+                                    {SUPPORTED_CURRENCIES.map(code => (
+                                        <option key={code} value={code}>{code}</option>
+                                    ))}
+                                </select>
+                                <p className="text-xs text-slate-500 mt-1">The ledger and reports are kept in this currency. Invoices in other currencies are converted at the rate on their issue date.</p>
+                            </div>
+
                             <div className="pt-4 border-t border-slate-700">
                                 <h4 className="text-md font-bold mb-4 text-teal-400">Payment Instructions (Manual)</h4>
                                 <div className="space-y-4">
@@ -350,6 +371,9 @@ const SettingsPage: React.FC<SettingsPageProps> = ({ user }) => {
                     </div>
                 )}
 
+                {activeTab === 'webhooks' && <WebhookSettings />}
+                {activeTab === 'plugins' && <PluginSettings />}
+
                 {/* Save Button for Forms */}
                 {(activeTab === 'business') && (
                     <div className="mt-8 pt-6 border-t border-slate-700">
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { taxService, TaxRate, TaxRateInput, TaxComponent, effectiveRate } from '../../../services/accounting/taxService';
+import { chartOfAccountsService, ChartOfAccount } from '../../../services/accounting/chartOfAccountsService';
+import { TaxCategory, TAX_CATEGORY_LABELS } from '../../../services/productCatalogService';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+const emptyRate = (): TaxRateInput => ({
+    code: '',
+    name: '',
+    components: [{ name: '', rate: 0, isCompound: false }],
+    taxCategory: 'standard',
+    isDefault: false,
+    isActive: true
+});
+
+interface TaxRatesSettingsProps {
+    tenantId: string;
+    onChanged?: () => void;
+}
+
+/**
+ * The tenant's tax codes: each is one or more components (state + county,
+ * or tax on tax) with the liability account its tax is posted to
+ */
+const TaxRatesSettings: React.FC<TaxRatesSettingsProps> = ({ tenantId, onChanged }) => {
+    const [rates, setRates] = useState<TaxRate[]>([]);
+    const [liabilityAccounts, setLiabilityAccounts] = useState<ChartOfAccount[]>([]);
+    const [editing, setEditing] = useState<TaxRate | null>(null);
+    const [form, setForm] = useState<TaxRateInput | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    const loadRates = async () => {
+        const { rates: data, error } = await taxService.getTaxRates(tenantId);
+        if (error) toast.error(`Failed to load tax rates: ${error}`);
+        setRates(data);
+    };
+
+    const loadLiabilityAccounts = async () => {
+        const { accounts } = await chartOfAccountsService.getAccountsByType('liability');
+        setLiabilityAccounts(accounts);
+    };
+
+    useEffect(() => {
+        loadRates();
+        loadLiabilityAccounts();
+    }, [tenantId]);
+
+    const openForm = (rate: TaxRate | null) => {
+        setEditing(rate);
+        setForm(rate
+            ? {
+                code: rate.code,
+                name: rate.name,
+                components: rate.components.map(c => ({ ...c })),
+                taxCategory: rate.taxCategory,
+                isDefault: rate.isDefault,
+                isActive: rate.isActive
+            }
+            : emptyRate());
+    };
+
+    const closeForm = () => {
+        setEditing(null);
+        setForm(null);
+    };
+
+    const updateComponent = (index: number, updates: Partial<TaxComponent>) => {
+        if (!form) return;
+        const components = [...form.components];
+        components[index] = { ...components[index], ...updates };
+        setForm({ ...form, components });
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!form) return;
+
+        setSaving(true);
+        const { error } = editing
+            ? await taxService.updateTaxRate(editing.id, form)
+            : await taxService.createTaxRate(tenantId, form);
+        setSaving(false);
+
+        if (error) {
+            toast.error(`Failed to save tax rate: ${error}`);
+            return;
+        }
+
+        toast.success(editing ? 'Tax rate updated' : 'Tax rate added');
+        closeForm();
+        loadRates();
+        onChanged?.();
+    };
+
+    const toggleActive = async (rate: TaxRate) => {
+        const { error } = await taxService.updateTaxRate(rate.id, { isActive: !rate.isActive });
+        if (error) {
+            toast.error(`Failed to update tax rate: ${error}`);
+            return;
+        }
+
+        loadRates();
+        onChanged?.();
+    };
+
+    const accountLabel = (accountId?: string) => {
+        const account = liabilityAccounts.find(a => a.id === accountId);
+        return account ? `${account.accountCode} ${account.accountName}` : '2200 Sales Tax Payable';
+    };
+
+    return (
+        <div className="bg-slate-900/50 border border-slate-800 rounded-2xl p-5 space-y-4">
+            <div className="flex items-center justify-between">
+                <div>
+                    <h3 className="font-semibold">Tax Rates</h3>
+                    <p className="text-sm text-slate-400">
+                        Chosen per invoice line. Each component&apos;s tax is posted to its liability account.
+                    </p>
+                </div>
+                <button
+                    onClick={() => openForm(null)}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-500 hover:bg-teal-600 rounded-lg transition-colors text-sm"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Tax Rate
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                {rates.map(rate => (
+                    <div
+                        key={rate.id}
+                        className={`flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 bg-slate-800/50 border border-slate-700 rounded-xl ${rate.isActive ? '' : 'opacity-50'}`}
+                    >
+                        <div>
+                            <p className="font-medium">
+                                {rate.name}
+                                <span className="ml-2 text-xs text-slate-500 font-mono">{rate.code}</span>
+                                {rate.isDefault && <span className="ml-2 text-xs text-teal-400">Default</span>}
+                            </p>
+                            <p className="text-xs text-slate-400">
+                                {rate.components.map(c => `${c.name} ${c.rate}%${c.isCompound ? ' (compound)' : ''} → ${accountLabel(c.accountId)}`).join(' · ')}
+                            </p>
+                            <p className="text-xs text-slate-500">{TAX_CATEGORY_LABELS[rate.taxCategory]} products</p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <span className="font-mono text-sm">{effectiveRate(rate)}%</span>
+                            <label className="flex items-center gap-2 text-xs text-slate-400">
+                                <input
+                                    type="checkbox"
+                                    checked={rate.isActive}
+                                    onChange={() => toggleActive(rate)}
+                                    className="w-4 h-4 accent-teal-500"
+                                />
+                                Active
+                            </label>
+                            <button
+                                onClick={() => openForm(rate)}
+                                className="p-2 hover:bg-slate-700 rounded-lg transition-colors"
+                                title="Edit"
+                            >
+                                <Edit className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+
+                {rates.length === 0 && (
+                    <div className="text-center py-8 text-slate-400 text-sm">
+                        No tax rates yet. Invoices use a single tax percentage until you add one.
+                    </div>
+                )}
+            </div>
+
+            {form && (
+                <div className="fixed inset-0 bg-slate-950/80 backdrop-blur-md flex items-center justify-center z-50 p-4 overflow-y-auto">
+                    <div className="bg-slate-900 border border-white/10 rounded-3xl p-4 md:p-6 max-w-xl w-full my-auto max-h-[calc(100vh-2rem)] overflow-y-auto shadow-2xl">
+                        <div className="flex items-center justify-between mb-6">
+                            <h3 className="text-xl font-bold">{editing ? 'Edit Tax Rate' : 'New Tax Rate'}</h3>
+                            <button onClick={closeForm} className="p-1 hover:bg-slate-800 rounded">
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <form onSubmit={handleSave} className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">Code *</label>
+                                    <input
+                                        required
+                                        value={form.code}
+                                        onChange={(e) => setForm({ ...form, code: e.target.value })}
+                                        placeholder="VAT20"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div className="md:col-span-2">
+                                    <label className="block text-sm font-medium mb-2">Name *</label>
+                                    <input
+                                        required
+                                        value={form.name}
+                                        onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                        placeholder="Standard VAT"
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-2">Components</label>
+                                <div className="space-y-2">
+                                    {form.components.map((component, index) => (
+                                        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                                            <input
+                                                value={component.name}
+                                                onChange={(e) => updateComponent(index, { name: e.target.value })}
+                                                placeholder="State"
+                                                className="col-span-3 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                            />
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                max="100"
+                                                step="0.001"
+                                                value={component.rate}
+                                                onChange={(e) => updateComponent(index, { rate: parseFloat(e.target.value) || 0 })}
+                                                className="col-span-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                            />
+                                            <select
+                                                value={component.accountId || ''}
+                                                onChange={(e) => updateComponent(index, { accountId: e.target.value || undefined })}
+                                                className="col-span-4 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500 text-sm"
+                                            >
+                                                <option value="">2200 Sales Tax Payable</option>
+                                                {liabilityAccounts.map(account => (
+                                                    <option key={account.id} value={account.id}>
+                                                        {account.accountCode} {account.accountName}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                            <label className="col-span-2 flex items-center gap-1 text-xs text-slate-400" title="Charged on the line plus the components above">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={component.isCompound}
+                                                    disabled={index === 0}
+                                                    onChange={(e) => updateComponent(index, { isCompound: e.target.checked })}
+                                                    className="w-4 h-4 accent-teal-500"
+                                                />
+                                                Compound
+                                            </label>
+                                            <button
+                                                type="button"
+                                                onClick={() => setForm({ ...form, components: form.components.filter((_, i) => i !== index) })}
+                                                disabled={form.components.length === 1}
+                                                className="col-span-1 p-2 hover:bg-red-500/10 disabled:opacity-30 rounded-lg transition-colors"
+                                                title="Remove"
+                                            >
+                                                <Trash2 className="w-4 h-4 text-red-400" />
+                                            </button>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button
+                                    type="button"
+                                    onClick={() => setForm({ ...form, components: [...form.components, { name: '', rate: 0, isCompound: false }] })}
+                                    className="mt-2 flex items-center gap-2 text-sm text-teal-400 hover:text-teal-300"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Add Component
+                                </button>
+                                <p className="text-xs text-slate-500 mt-2">
+                                    Combined rate: {effectiveRate(form)}%
+                                </p>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-2">For Products Taxed At</label>
+                                    <select
+                                        value={form.taxCategory}
+                                        onChange={(e) => setForm({ ...form, taxCategory: e.target.value as TaxCategory })}
+                                        className={inputClass}
+                                    >
+                                        {(Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[]).map(category => (
+                                            <option key={category} value={category}>{TAX_CATEGORY_LABELS[category]}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <label className="flex items-center gap-2 text-sm md:pt-8">
+                                    <input
+                                        type="checkbox"
+                                        checked={form.isDefault}
+                                        onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                                        className="w-4 h-4 accent-teal-500"
+                                    />
+                                    Default for this category
+                                </label>
+                            </div>
+
+                            <div className="flex gap-3 pt-4">
+                                <button
+                                    type="button"
+                                    onClick={closeForm}
+                                    className="flex-1 px-4 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg transition-colors"
+                                >
+                                    Cancel
+                                </button>
+                                <button
+                                    type="submit"
+                                    disabled={saving}
+                                    className="flex-1 px-4 py-2 bg-teal-500 hover:bg-teal-600 disabled:opacity-50 rounded-lg transition-colors"
+                                >
+                                    {saving ? 'Saving...' : 'Save Tax Rate'}
+                                </button>
+                            </div>
+                        </form>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaxRatesSettings;
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, ChevronDown, ChevronRight, RefreshCw, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../../lib/supabase';
+import { mapWebhookDelivery } from '../../../services/webhooks/mappers';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint } from '../../../services/webhooks/types';
+
+interface WebhookDeliveryLogProps {
+    endpoint: WebhookEndpoint;
+    onBack: () => void;
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+    pending: 'bg-slate-700 text-slate-300',
+    retrying: 'bg-amber-500/20 text-amber-300',
+    delivered: 'bg-green-900/30 text-green-400',
+    failed: 'bg-red-900/30 text-red-400'
+};
+
+const WebhookDeliveryLog: React.FC<WebhookDeliveryLogProps> = ({ endpoint, onBack }) => {
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | 'all'>('all');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [resendingId, setResendingId] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadDeliveries();
+    }, [endpoint.id, statusFilter]);
+
+    const loadDeliveries = async () => {
+        setLoading(true);
+        try {
+            let query = supabase
+                .from('webhook_deliveries')
+                .select('*')
+                .eq('webhook_id', endpoint.id)
+                .order('created_at', { ascending: false })
+                .limit(100);
+
+            if (statusFilter !== 'all') {
+                query = query.eq('status', statusFilter);
+            }
+
+            const { data, error } = await query;
+            if (error) throw error;
+            setDeliveries((data || []).map((row: any) => mapWebhookDelivery(row)));
+        } catch (err: any) {
+            toast.error(`Failed to load deliveries: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleResend = async (delivery: WebhookDelivery) => {
+        setResendingId(delivery.id);
+        try {
+            const response = await fetch(`/api/webhooks/deliveries/${delivery.id}/resend`, { method: 'POST' });
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Resend failed');
+
+            const resent: WebhookDelivery = body.delivery;
+            if (resent.status === 'delivered') {
+                toast.success(`Delivered (HTTP ${resent.responseStatus})`);
+            } else {
+                toast.error(resent.errorMessage || 'Delivery failed; it will be retried');
+            }
+
+            setExpandedId(resent.id);
+            await loadDeliveries();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setResendingId(null);
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-3">
+                    <button onClick={onBack} className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-800">
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <div>
+                        <h3 className="text-xl font-bold">{endpoint.name} deliveries</h3>
+                        <p className="text-sm text-slate-400 break-all">{endpoint.url}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as WebhookDeliveryStatus | 'all')}
+                        className="px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-sm focus:outline-none focus:border-teal-500"
+                    >
+                        <option value="all">All statuses</option>
+                        <option value="delivered">Delivered</option>
+                        <option value="retrying">Retrying</option>
+                        <option value="failed">Failed</option>
+                        <option value="pending">Pending</option>
+                    </select>
+                    <button
+                        onClick={loadDeliveries}
+                        className="p-2 text-slate-400 hover:text-white rounded-lg hover:bg-slate-800"
+                        title="Refresh"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                </div>
+            </div>
+
+            {!endpoint.enabled && endpoint.disabledReason && (
+                <div className="p-3 bg-red-900/20 border border-red-500/30 rounded-xl text-sm text-red-300">
+                    {endpoint.disabledReason}. Retries are paused until the endpoint is enabled again; resending still works.
+                </div>
+            )}
+
+            {!loading && deliveries.length === 0 ? (
+                <div className="p-8 text-center text-slate-400 bg-slate-800 rounded-xl border border-slate-700">
+                    No deliveries yet
+                </div>
+            ) : (
+                <div className="space-y-2">
+                    {deliveries.map(delivery => {
+                        const expanded = expandedId === delivery.id;
+                        return (
+                            <div key={delivery.id} className="bg-slate-800 rounded-xl border border-slate-700">
+                                <button
+                                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                                    className="w-full flex flex-col md:flex-row md:items-center gap-2 md:gap-4 p-4 text-left"
+                                >
+                                    <div className="flex items-center gap-2 flex-1 min-w-0">
+                                        {expanded ? <ChevronDown className="w-4 h-4 text-slate-400 shrink-0" /> : <ChevronRight className="w-4 h-4 text-slate-400 shrink-0" />}
+                                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                                            {delivery.status}
+                                        </span>
+                                        <span className="font-mono text-sm text-white truncate">{delivery.eventType}</span>
+                                        {delivery.resentFrom && <span className="text-xs text-slate-500">resent</span>}
+                                    </div>
+                                    <div className="flex items-center gap-4 text-xs text-slate-400">
+                                        <span>{delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : '—'}</span>
+                                        {delivery.durationMs !== undefined && <span>{delivery.durationMs} ms</span>}
+                                        <span>Attempt {delivery.attempts}/{delivery.maxAttempts}</span>
+                                        <span>{new Date(delivery.createdAt).toLocaleString()}</span>
+                                    </div>
+                                </button>
+
+                                {expanded && (
+                                    <div className="px-4 pb-4 space-y-3 border-t border-slate-700 pt-3">
+                                        {delivery.errorMessage && (
+                                            <p className="text-sm text-red-400">{delivery.errorMessage}</p>
+                                        )}
+                                        {delivery.status === 'retrying' && delivery.nextRetryAt && (
+                                            <p className="text-sm text-amber-300">
+                                                Next retry {new Date(delivery.nextRetryAt).toLocaleString()}
+                                            </p>
+                                        )}
+                                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                                            <div>
+                                                <div className="text-xs font-semibold text-slate-400 uppercase mb-1">Payload</div>
+                                                <pre className="p-3 bg-slate-900 rounded-lg text-xs text-slate-300 overflow-auto max-h-64">
+                                                    {JSON.stringify(delivery.payload, null, 2)}
+                                                </pre>
+                                            </div>
+                                            <div>
+                                                <div className="text-xs font-semibold text-slate-400 uppercase mb-1">Response</div>
+                                                <pre className="p-3 bg-slate-900 rounded-lg text-xs text-slate-300 overflow-auto max-h-64 whitespace-pre-wrap">
+                                                    {delivery.responseBody || '(empty)'}
+                                                </pre>
+                                            </div>
+                                        </div>
+                                        <div className="flex justify-between items-center">
+                                            <span className="text-xs text-slate-500 font-mono">{delivery.id}</span>
+                                            <button
+                                                onClick={() => handleResend(delivery)}
+                                                disabled={resendingId === delivery.id}
+                                                className="flex items-center gap-2 px-3 py-1.5 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white text-sm rounded-lg transition-colors"
+                                            >
+                                                <Send className="w-4 h-4" />
+                                                {resendingId === delivery.id ? 'Sending...' : 'Resend'}
+                                            </button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WebhookDeliveryLog;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { getWebhookEventGroups } from '../../../services/eventBus/catalog';
+
+interface WebhookEventPickerProps {
+    value: string[];
+    onChange: (eventTypes: string[]) => void;
+}
+
+const EVENT_GROUPS = getWebhookEventGroups();
+
+// Event types are picked one by one, or a whole category as "<category>.*"
+const WebhookEventPicker: React.FC<WebhookEventPickerProps> = ({ value, onChange }) => {
+    const toggle = (eventType: string) => {
+        onChange(value.includes(eventType)
+            ? value.filter(type => type !== eventType)
+            : [...value, eventType]);
+    };
+
+    const toggleCategory = (category: string) => {
+        const pattern = `${category}.*`;
+        onChange(value.includes(pattern)
+            ? value.filter(type => type !== pattern)
+            : [...value.filter(type => !type.startsWith(`${category}.`)), pattern]);
+    };
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-96 overflow-y-auto pr-1">
+            {EVENT_GROUPS.map(({ category, events }) => {
+                const allSelected = value.includes(`${category}.*`);
+                return (
+                    <div key={category} className="p-3 bg-slate-900/50 rounded-lg border border-slate-700 space-y-2">
+                        <label className="flex items-center gap-2 text-sm font-medium text-white capitalize">
+                            <input
+                                type="checkbox"
+                                checked={allSelected}
+                                onChange={() => toggleCategory(category)}
+                                className="accent-teal-500"
+                            />
+                            All {category} events
+                        </label>
+                        <div className="space-y-1 pl-6">
+                            {events.map(entry => (
+                                <label
+                                    key={entry.type}
+                                    className={`flex items-start gap-2 text-sm ${allSelected ? 'text-slate-500' : 'text-slate-300'}`}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={allSelected || value.includes(entry.type)}
+                                        disabled={allSelected}
+                                        onChange={() => toggle(entry.type)}
+                                        className="accent-teal-500 mt-1"
+                                    />
+                                    <span>
+                                        <span className="font-mono">{entry.type}</span>
+                                        <span className="ml-2 text-xs text-slate-500">v{entry.currentVersion}</span>
+                                        <span className="block text-xs text-slate-400">{entry.description}</span>
+                                    </span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default WebhookEventPicker;
@@ -0,0 +1,352 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Copy, KeyRound, List, Plus, Send, Trash2, Webhook } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useTenant } from '../../../contexts/TenantContext';
+import { supabase } from '../../../lib/supabase';
+import { mapEndpoint } from '../../../services/webhooks/mappers';
+import type { WebhookEndpoint } from '../../../services/webhooks/types';
+import WebhookDeliveryLog from './WebhookDeliveryLog';
+import WebhookEventPicker from './WebhookEventPicker';
+
+const inputClass = 'w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:border-teal-500';
+
+// Signing secrets are shown once, right after the endpoint is created
+function generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return `whsec_${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+const WebhookSettings: React.FC = () => {
+    const { currentTenant } = useTenant();
+    const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showForm, setShowForm] = useState(false);
+    const [formData, setFormData] = useState({ name: '', url: '', eventTypes: [] as string[] });
+    const [saving, setSaving] = useState(false);
+    const [newSecret, setNewSecret] = useState<{ secret: string; note: string } | null>(null);
+    const [testingId, setTestingId] = useState<string | null>(null);
+    const [rotatingId, setRotatingId] = useState<string | null>(null);
+    const [viewingLog, setViewingLog] = useState<WebhookEndpoint | null>(null);
+
+    useEffect(() => {
+        if (currentTenant) {
+            loadEndpoints();
+        }
+    }, [currentTenant]);
+
+    const loadEndpoints = async () => {
+        if (!currentTenant) return;
+
+        setLoading(true);
+        try {
+            const { data, error } = await supabase
+                .from('notification_webhooks')
+                .select('*')
+                .eq('tenant_id', currentTenant.id)
+                .order('created_at', { ascending: false });
+
+            if (error) throw error;
+            setEndpoints((data || []).map((row: any) => mapEndpoint(row)));
+        } catch (err: any) {
+            toast.error(`Failed to load webhooks: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        if (!currentTenant) return;
+
+        setSaving(true);
+        try {
+            const secret = generateSecret();
+            const { error } = await supabase
+                .from('notification_webhooks')
+                .insert({
+                    tenant_id: currentTenant.id,
+                    name: formData.name,
+                    url: formData.url,
+                    secret,
+                    event_types: formData.eventTypes,
+                    enabled: true
+                });
+
+            if (error) throw error;
+
+            setNewSecret({ secret, note: 'Signing secret for the new endpoint.' });
+            setShowForm(false);
+            setFormData({ name: '', url: '', eventTypes: [] });
+            await loadEndpoints();
+        } catch (err: any) {
+            toast.error(`Failed to add webhook: ${err.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // Enabling clears the failure streak that may have disabled the endpoint
+    const handleToggle = async (endpoint: WebhookEndpoint) => {
+        try {
+            const { error } = await supabase
+                .from('notification_webhooks')
+                .update(endpoint.enabled
+                    ? { enabled: false, disabled_at: new Date().toISOString(), disabled_reason: 'Disabled manually' }
+                    : { enabled: true, failure_count: 0, disabled_at: null, disabled_reason: null })
+                .eq('id', endpoint.id);
+
+            if (error) throw error;
+            await loadEndpoints();
+        } catch (err: any) {
+            toast.error(`Failed to update webhook: ${err.message}`);
+        }
+    };
+
+    const handleDelete = async (endpoint: WebhookEndpoint) => {
+        if (!window.confirm(`Delete the "${endpoint.name}" webhook and its delivery log?`)) return;
+
+        try {
+            const { error } = await supabase
+                .from('notification_webhooks')
+                .delete()
+                .eq('id', endpoint.id);
+
+            if (error) throw error;
+            setEndpoints(prev => prev.filter(item => item.id !== endpoint.id));
+        } catch (err: any) {
+            toast.error(`Failed to delete webhook: ${err.message}`);
+        }
+    };
+
+    const handleTest = async (endpoint: WebhookEndpoint) => {
+        setTestingId(endpoint.id);
+        try {
+            const response = await fetch(`/api/webhooks/endpoints/${endpoint.id}/test`, { method: 'POST' });
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Test failed');
+
+            if (body.delivered) {
+                toast.success('Test event delivered');
+            } else {
+                toast.error('Test event failed; see the delivery log');
+            }
+            await loadEndpoints();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setTestingId(null);
+        }
+    };
+
+    const handleRotateSecret = async (endpoint: WebhookEndpoint) => {
+        if (!window.confirm(`Issue a new signing secret for "${endpoint.name}"? The current secret stays valid for 24 hours.`)) return;
+
+        setRotatingId(endpoint.id);
+        try {
+            const response = await fetch(`/api/webhooks/endpoints/${endpoint.id}/rotate-secret`, { method: 'POST' });
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Rotation failed');
+
+            setNewSecret({
+                secret: body.secret,
+                note: `New signing secret for ${endpoint.name}. Deliveries are signed with both secrets until ${new Date(body.previousSecretExpiresAt).toLocaleString()}.`
+            });
+            await loadEndpoints();
+        } catch (err: any) {
+            toast.error(err.message);
+        } finally {
+            setRotatingId(null);
+        }
+    };
+
+    if (viewingLog) {
+        return (
+            <WebhookDeliveryLog
+                endpoint={viewingLog}
+                onBack={() => {
+                    setViewingLog(null);
+                    loadEndpoints();
+                }}
+            />
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div>
+                    <h3 className="text-xl font-bold mb-1">Webhooks</h3>
+                    <p className="text-slate-400">Send events to your own systems as they happen</p>
+                </div>
+                <button
+                    onClick={() => setShowForm(!showForm)}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    Add Endpoint
+                </button>
+            </div>
+
+            {newSecret && (
+                <div className="p-4 bg-teal-500/10 border border-teal-500/30 rounded-xl space-y-2">
+                    <p className="text-sm text-teal-300">
+                        {newSecret.note} Copy it now; use it to verify the X-AlphaClone-Signature header (see /api/docs).
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 px-3 py-2 bg-slate-900 rounded-lg text-xs text-white break-all">{newSecret.secret}</code>
+                        <button
+                            onClick={() => {
+                                navigator.clipboard.writeText(newSecret.secret);
+                                toast.success('Copied');
+                            }}
+                            className="p-2 text-slate-400 hover:text-white"
+                        >
+                            <Copy className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <button onClick={() => setNewSecret(null)} className="text-xs text-slate-400 hover:text-white">Done</button>
+                </div>
+            )}
+
+            {showForm && (
+                <div className="p-4 bg-slate-800 rounded-xl border border-slate-700 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Name</label>
+                            <input
+                                value={formData.name}
+                                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                placeholder="e.g. Accounting sync"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium mb-2">Endpoint URL</label>
+                            <input
+                                type="url"
+                                value={formData.url}
+                                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                                placeholder="https://example.com/webhooks/alphaclone"
+                                className={inputClass}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium mb-2">Events</label>
+                        <WebhookEventPicker
+                            value={formData.eventTypes}
+                            onChange={(eventTypes) => setFormData({ ...formData, eventTypes })}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-3">
+                        <button onClick={() => setShowForm(false)} className="px-4 py-2 text-slate-300 hover:text-white">
+                            Cancel
+                        </button>
+                        <button
+                            onClick={handleCreate}
+                            disabled={saving || !formData.name.trim() || !/^https?:\/\//.test(formData.url) || formData.eventTypes.length === 0}
+                            className="px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                        >
+                            {saving ? 'Adding...' : 'Add Endpoint'}
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="text-slate-400">Loading webhooks...</div>
+            ) : endpoints.length === 0 ? (
+                <div className="p-8 text-center bg-slate-800 rounded-xl border border-slate-700">
+                    <Webhook className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+                    <p className="text-slate-400">No webhook endpoints yet</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {endpoints.map(endpoint => (
+                        <div key={endpoint.id} className="p-4 bg-slate-800 rounded-xl border border-slate-700 space-y-3">
+                            <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                                <div className="min-w-0">
+                                    <h4 className="font-medium text-white">{endpoint.name}</h4>
+                                    <p className="text-sm text-slate-400 break-all">{endpoint.url}</p>
+                                    <div className="flex flex-wrap gap-1 mt-2">
+                                        {endpoint.eventTypes.map(eventType => (
+                                            <span key={eventType} className="px-2 py-0.5 bg-slate-700 rounded text-xs font-mono text-slate-300">
+                                                {eventType}
+                                            </span>
+                                        ))}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleToggle(endpoint)}
+                                    className={`shrink-0 px-2 py-1 text-xs rounded-full ${endpoint.enabled ? 'bg-green-900/30 text-green-400' : 'bg-slate-700 text-slate-400'}`}
+                                >
+                                    {endpoint.enabled ? 'Enabled' : 'Disabled'}
+                                </button>
+                            </div>
+
+                            {!endpoint.enabled && endpoint.disabledReason && (
+                                <div className="flex items-center gap-2 text-sm text-red-400">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    {endpoint.disabledReason}
+                                </div>
+                            )}
+                            {endpoint.previousSecretExpiresAt && new Date(endpoint.previousSecretExpiresAt) > new Date() && (
+                                <div className="flex items-center gap-2 text-sm text-slate-300">
+                                    <KeyRound className="w-4 h-4 shrink-0" />
+                                    Secret rotation in progress; the previous secret is also signed with until {new Date(endpoint.previousSecretExpiresAt).toLocaleString()}
+                                </div>
+                            )}
+                            {endpoint.enabled && endpoint.failureCount > 0 && (
+                                <div className="flex items-center gap-2 text-sm text-amber-300">
+                                    <AlertCircle className="w-4 h-4 shrink-0" />
+                                    {endpoint.failureCount} consecutive failed attempts; disabled at {endpoint.disableAfterFailures}
+                                </div>
+                            )}
+
+                            <div className="flex flex-wrap items-center justify-between gap-3 pt-3 border-t border-slate-700">
+                                <span className="text-xs text-slate-500">
+                                    {endpoint.lastTriggeredAt
+                                        ? `Last attempt ${new Date(endpoint.lastTriggeredAt).toLocaleString()}`
+                                        : 'Never triggered'}
+                                </span>
+                                <div className="flex items-center gap-4">
+                                    <button
+                                        onClick={() => setViewingLog(endpoint)}
+                                        className="flex items-center gap-1 text-sm text-teal-400 hover:text-teal-300"
+                                    >
+                                        <List className="w-4 h-4" />
+                                        Deliveries
+                                    </button>
+                                    <button
+                                        onClick={() => handleTest(endpoint)}
+                                        disabled={testingId === endpoint.id}
+                                        className="flex items-center gap-1 text-sm text-slate-300 hover:text-white disabled:opacity-50"
+                                    >
+                                        <Send className="w-4 h-4" />
+                                        {testingId === endpoint.id ? 'Sending...' : 'Send test'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleRotateSecret(endpoint)}
+                                        disabled={rotatingId === endpoint.id}
+                                        className="flex items-center gap-1 text-sm text-slate-300 hover:text-white disabled:opacity-50"
+                                    >
+                                        <KeyRound className="w-4 h-4" />
+                                        Rotate secret
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(endpoint)}
+                                        className="text-slate-400 hover:text-red-400"
+                                        title="Delete"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default WebhookSettings;
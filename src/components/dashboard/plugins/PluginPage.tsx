@@ -0,0 +1,53 @@
+import React from 'react';
+import { AlertCircle, Puzzle } from 'lucide-react';
+import { usePluginExtensions, usePluginView } from '../../../hooks/usePluginExtensions';
+import { parsePluginRoutePath } from '../../../services/plugins/ui';
+import PluginViewRenderer from './PluginViewRenderer';
+
+/**
+ * Page for a plugin menu route, /dashboard/plugins/<slug>/<route>
+ */
+const PluginPage: React.FC<{ path: string }> = ({ path }) => {
+    const { extensions, isLoading: extensionsLoading } = usePluginExtensions();
+    const parsed = parsePluginRoutePath(path);
+
+    const extension = extensions.find(candidate => candidate.slug === parsed?.slug);
+    const menuItem = extension?.ui.menuItems?.find(item => item.route.replace(/^\/+/, '') === parsed?.route);
+    const component = menuItem?.component || extension?.ui.settingsPage?.component;
+
+    const { data: view, isLoading, error } = usePluginView(extension?.tenantPluginId, component, parsed?.route);
+
+    if (extensionsLoading || isLoading) {
+        return <div className="text-slate-400">Loading...</div>;
+    }
+
+    if (!extension || !menuItem || !component) {
+        return (
+            <div className="p-8 text-center bg-slate-900 border border-slate-700 rounded-2xl">
+                <Puzzle className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+                <p className="text-slate-400">This plugin page is not available</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div>
+                <p className="text-xs text-slate-500 flex items-center gap-1"><Puzzle className="w-3.5 h-3.5" /> {extension.name}</p>
+                <h1 className="text-xl sm:text-2xl font-bold text-white tracking-tight">{menuItem.label}</h1>
+            </div>
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl p-4 md:p-6">
+                {error ? (
+                    <div className="flex items-center gap-2 text-sm text-red-400">
+                        <AlertCircle className="w-4 h-4" />
+                        {(error as Error).message}
+                    </div>
+                ) : view ? (
+                    <PluginViewRenderer view={view} />
+                ) : null}
+            </div>
+        </div>
+    );
+};
+
+export default PluginPage;
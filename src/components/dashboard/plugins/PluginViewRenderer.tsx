@@ -0,0 +1,104 @@
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { ExternalLink } from 'lucide-react';
+import type { PluginView, PluginViewBlock } from '../../../services/plugins/ui';
+
+const TEXT_TONES: Record<string, string> = {
+    default: 'text-slate-300',
+    muted: 'text-slate-500',
+    success: 'text-green-400',
+    warning: 'text-amber-300',
+    error: 'text-red-400'
+};
+
+// Views come from plugin code, so they are rendered as plain text and checked links only
+const PluginLink: React.FC<{ href: string; children: React.ReactNode; className?: string }> = ({ href, children, className }) => {
+    const router = useRouter();
+
+    if (href.startsWith('/dashboard')) {
+        return (
+            <button onClick={() => router.push(href)} className={className}>
+                {children}
+            </button>
+        );
+    }
+
+    return (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" className={className}>
+            {children}
+            <ExternalLink className="w-3 h-3 inline ml-1" />
+        </a>
+    );
+};
+
+const Block: React.FC<{ block: PluginViewBlock }> = ({ block }) => {
+    switch (block.type) {
+        case 'heading':
+            return <h4 className="text-sm font-semibold text-white">{block.text}</h4>;
+        case 'text':
+            return <p className={`text-sm whitespace-pre-wrap ${TEXT_TONES[block.tone || 'default']}`}>{block.text}</p>;
+        case 'metrics':
+            return (
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                    {block.items.map((item, idx) => (
+                        <div key={idx} className="p-3 bg-slate-800/60 rounded-xl border border-slate-700">
+                            <div className="text-xl font-bold text-white">{item.value}</div>
+                            <div className="text-xs text-slate-400">{item.label}</div>
+                            {item.hint && <div className="text-xs text-slate-500 mt-1">{item.hint}</div>}
+                        </div>
+                    ))}
+                </div>
+            );
+        case 'list':
+            return (
+                <ul className="divide-y divide-slate-800">
+                    {block.items.map((item, idx) => (
+                        <li key={idx} className="py-2">
+                            {item.href ? (
+                                <PluginLink href={item.href} className="text-sm text-teal-400 hover:text-teal-300 text-left">
+                                    {item.title}
+                                </PluginLink>
+                            ) : (
+                                <div className="text-sm text-white">{item.title}</div>
+                            )}
+                            {item.subtitle && <div className="text-xs text-slate-500">{item.subtitle}</div>}
+                        </li>
+                    ))}
+                </ul>
+            );
+        case 'table':
+            return (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm text-slate-400">
+                        <thead className="text-xs uppercase text-slate-500">
+                            <tr>{block.columns.map((column, idx) => <th key={idx} className="px-3 py-2">{column}</th>)}</tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-800">
+                            {block.rows.map((row, rowIdx) => (
+                                <tr key={rowIdx}>
+                                    {row.map((cell, cellIdx) => <td key={cellIdx} className="px-3 py-2 text-slate-300">{cell ?? '—'}</td>)}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'link':
+            return (
+                <PluginLink href={block.href} className="text-sm text-teal-400 hover:text-teal-300">
+                    {block.label}
+                </PluginLink>
+            );
+        default:
+            return null;
+    }
+};
+
+const PluginViewRenderer: React.FC<{ view: PluginView }> = ({ view }) => (
+    <div className="space-y-4">
+        {view.title && <h3 className="text-lg font-bold text-white">{view.title}</h3>}
+        {view.blocks.map((block, idx) => <Block key={idx} block={block} />)}
+    </div>
+);
+
+export default PluginViewRenderer;
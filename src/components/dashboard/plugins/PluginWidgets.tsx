@@ -0,0 +1,55 @@
+import React from 'react';
+import { AlertCircle, Puzzle } from 'lucide-react';
+import { usePluginExtensions, usePluginView } from '../../../hooks/usePluginExtensions';
+import type { PluginExtension } from '../../../services/plugins/ui';
+import PluginViewRenderer from './PluginViewRenderer';
+
+const SIZE_CLASSES = {
+    small: 'lg:col-span-1',
+    medium: 'lg:col-span-2',
+    large: 'lg:col-span-3'
+};
+
+const PluginWidget: React.FC<{ extension: PluginExtension }> = ({ extension }) => {
+    const widget = extension.ui.dashboardWidget!;
+    const { data: view, isLoading, error } = usePluginView(extension.tenantPluginId, widget.component);
+
+    return (
+        <div className={`bg-slate-900/60 border border-slate-700 rounded-2xl p-4 md:p-5 ${SIZE_CLASSES[widget.size] || SIZE_CLASSES.small}`}>
+            <div className="flex items-center gap-2 mb-3 text-xs text-slate-500">
+                <Puzzle className="w-3.5 h-3.5" />
+                {widget.title || extension.name}
+            </div>
+            {isLoading ? (
+                <div className="h-16 bg-slate-800/60 rounded-xl animate-pulse" />
+            ) : error ? (
+                <div className="flex items-center gap-2 text-sm text-slate-400">
+                    <AlertCircle className="w-4 h-4 text-amber-400" />
+                    Widget unavailable
+                </div>
+            ) : view ? (
+                <PluginViewRenderer view={view} />
+            ) : null}
+        </div>
+    );
+};
+
+/**
+ * Dashboard widgets contributed by the tenant's enabled plugins
+ */
+const PluginWidgets: React.FC = () => {
+    const { extensions } = usePluginExtensions();
+    const widgets = extensions.filter(extension => extension.ui.dashboardWidget?.component);
+
+    if (widgets.length === 0) return null;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {widgets.map(extension => (
+                <PluginWidget key={extension.tenantPluginId} extension={extension} />
+            ))}
+        </div>
+    );
+};
+
+export default PluginWidgets;
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Play, CheckCircle, XCircle, SkipForward } from 'lucide-react';
+import { workflowService } from '../../../services/workflow';
+import type {
+    ApprovalDecision,
+    DryRunOptions,
+    DryRunResult,
+    WorkflowDefinition
+} from '../../../services/workflow';
+import { getStepMeta } from './stepMeta';
+
+interface DryRunPanelProps {
+    definition: WorkflowDefinition;
+    disabled?: boolean;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none';
+
+/**
+ * Runs the definition in the editor against sample input
+ * Emails, actions, meetings, notifications and webhooks are stubbed; nothing is saved
+ */
+export function DryRunPanel({ definition, disabled }: DryRunPanelProps) {
+    const [inputText, setInputText] = useState('{\n  \n}');
+    const [approvalDecision, setApprovalDecision] = useState<ApprovalDecision>('approved');
+    const [eventOutcome, setEventOutcome] = useState<NonNullable<DryRunOptions['eventOutcome']>>('received');
+    const [eventDataText, setEventDataText] = useState('');
+    const [running, setRunning] = useState(false);
+    const [result, setResult] = useState<DryRunResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const parseJson = (text: string, label: string): Record<string, any> => {
+        if (!text.trim()) return {};
+        try {
+            return JSON.parse(text);
+        } catch {
+            throw new Error(`${label} is not valid JSON`);
+        }
+    };
+
+    const handleRun = async () => {
+        setRunning(true);
+        setError(null);
+        setResult(null);
+
+        try {
+            const inputData = parseJson(inputText, 'Sample input');
+            const eventData = parseJson(eventDataText, 'Event data');
+
+            setResult(await workflowService.dryRun(definition, inputData, {
+                approvalDecision,
+                eventOutcome,
+                eventData
+            }));
+        } catch (err: any) {
+            setError(err.message);
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <label className="block text-xs text-slate-400 mb-1">Sample input (JSON)</label>
+                <textarea
+                    value={inputText}
+                    onChange={(e) => setInputText(e.target.value)}
+                    rows={6}
+                    className={`${inputClass} font-mono`}
+                />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Approvals resolve as</label>
+                    <select
+                        value={approvalDecision}
+                        onChange={(e) => setApprovalDecision(e.target.value as ApprovalDecision)}
+                        className={inputClass}
+                    >
+                        <option value="approved">Approved</option>
+                        <option value="rejected">Rejected</option>
+                        <option value="timed_out">Timed out</option>
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Event waits</label>
+                    <select
+                        value={eventOutcome}
+                        onChange={(e) => setEventOutcome(e.target.value as NonNullable<DryRunOptions['eventOutcome']>)}
+                        className={inputClass}
+                    >
+                        <option value="received">Receive the event</option>
+                        <option value="timed_out">Time out</option>
+                    </select>
+                </div>
+            </div>
+
+            {eventOutcome === 'received' && (
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Received event data (JSON)</label>
+                    <textarea
+                        value={eventDataText}
+                        onChange={(e) => setEventDataText(e.target.value)}
+                        rows={3}
+                        className={`${inputClass} font-mono`}
+                    />
+                </div>
+            )}
+
+            <button
+                onClick={handleRun}
+                disabled={disabled || running}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+                <Play className="w-4 h-4" />
+                {running ? 'Running...' : 'Dry run'}
+            </button>
+            {disabled && (
+                <p className="text-xs text-slate-400">Fix the validation issues before running.</p>
+            )}
+
+            {error && (
+                <div className="bg-red-900/20 border border-red-500 text-red-400 px-3 py-2 rounded-lg text-sm">
+                    {error}
+                </div>
+            )}
+
+            {result && (
+                <div className="space-y-3">
+                    <div className={`text-sm font-medium ${result.status === 'completed' ? 'text-green-400' : 'text-red-400'}`}>
+                        Run {result.status}{result.error ? `: ${result.error}` : ''}
+                    </div>
+
+                    <ol className="space-y-2">
+                        {result.steps.map((trace, index) => {
+                            const meta = getStepMeta(trace.stepType);
+                            const StatusIcon = trace.status === 'completed' ? CheckCircle
+                                : trace.status === 'failed' ? XCircle
+                                    : SkipForward;
+
+                            return (
+                                <li key={index} className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                                    <div className="flex items-center gap-2 text-sm">
+                                        <StatusIcon className={`w-4 h-4 ${trace.status === 'completed' ? 'text-green-400' : trace.status === 'failed' ? 'text-red-400' : 'text-slate-500'}`} />
+                                        <meta.icon className={`w-4 h-4 ${meta.color}`} />
+                                        <span className="text-white">{trace.stepName}</span>
+                                        {trace.iteration !== undefined && (
+                                            <span className="text-xs text-slate-500">#{trace.iteration + 1}</span>
+                                        )}
+                                        {trace.executionTimeMs !== undefined && (
+                                            <span className="ml-auto text-xs text-slate-500">{trace.executionTimeMs}ms</span>
+                                        )}
+                                    </div>
+                                    {trace.error && <p className="text-xs text-red-400 mt-1">{trace.error}</p>}
+                                    {trace.output !== undefined && (
+                                        <pre className="mt-2 text-xs text-slate-300 bg-slate-950 rounded p-2 overflow-x-auto max-h-40">
+                                            {JSON.stringify(trace.output, null, 2)}
+                                        </pre>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ol>
+
+                    <details className="text-xs text-slate-400">
+                        <summary className="cursor-pointer">Final variables</summary>
+                        <pre className="mt-2 text-slate-300 bg-slate-950 rounded p-2 overflow-x-auto max-h-60">
+                            {JSON.stringify(result.variables, null, 2)}
+                        </pre>
+                    </details>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default DryRunPanel;
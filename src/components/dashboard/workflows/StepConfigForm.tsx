@@ -0,0 +1,362 @@
+'use client';
+
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { actionParamSchemas } from '../../../services/workflow';
+import { EventTypes } from '../../../services/eventBus/types';
+import type { StepType, WorkflowStep, WorkflowValidationIssue } from '../../../services/workflow';
+
+type FieldKind = 'text' | 'textarea' | 'number' | 'select' | 'list' | 'json';
+
+interface FieldDescriptor {
+    key: string;                // Dotted path under step.config, e.g. 'escalation.after'
+    label: string;
+    kind: FieldKind;
+    options?: string[];
+    placeholder?: string;
+}
+
+const EVENT_OPTIONS = Object.values(EventTypes);
+
+// Branch configs (thenSteps, steps, approvedSteps, ...) are edited on the canvas
+const STEP_FIELDS: Record<StepType, FieldDescriptor[]> = {
+    email: [
+        { key: 'to', label: 'To', kind: 'text', placeholder: '{{email}}' },
+        { key: 'subject', label: 'Subject', kind: 'text' },
+        { key: 'body', label: 'Body (HTML)', kind: 'textarea' },
+        { key: 'template', label: 'Template', kind: 'text', placeholder: 'Or an email template name' },
+        { key: 'data', label: 'Template data', kind: 'json' },
+        { key: 'replyTo', label: 'Reply to', kind: 'text' }
+    ],
+    action: [
+        { key: 'action', label: 'Action', kind: 'select', options: Object.keys(actionParamSchemas) }
+    ],
+    meeting: [
+        { key: 'title', label: 'Title', kind: 'text' },
+        { key: 'hostId', label: 'Host user', kind: 'text', placeholder: '{{ownerId}}' },
+        { key: 'durationMinutes', label: 'Duration (minutes)', kind: 'number' },
+        { key: 'participants', label: 'Participants', kind: 'list' }
+    ],
+    wait: [
+        { key: 'duration', label: 'Duration', kind: 'text', placeholder: '3d' },
+        { key: 'event', label: 'Or wait for event', kind: 'text', options: EVENT_OPTIONS },
+        { key: 'correlationKey', label: 'Correlation key', kind: 'text', placeholder: 'clientId' },
+        { key: 'correlationValue', label: 'Correlation value', kind: 'text', placeholder: '{{clientId}}' },
+        { key: 'timeout', label: 'Timeout', kind: 'text', placeholder: '7d' },
+        { key: 'onTimeout', label: 'On timeout', kind: 'select', options: ['continue', 'fail'] }
+    ],
+    condition: [
+        { key: 'condition', label: 'Condition', kind: 'text', placeholder: 'amount > 1000' }
+    ],
+    loop: [
+        { key: 'items', label: 'Items', kind: 'text', placeholder: '{{lineItems}}' },
+        { key: 'itemVariable', label: 'Item variable', kind: 'text', placeholder: 'item' },
+        { key: 'indexVariable', label: 'Index variable', kind: 'text', placeholder: 'index' }
+    ],
+    ai_decision: [
+        { key: 'prompt', label: 'Prompt', kind: 'textarea' },
+        { key: 'options', label: 'Options', kind: 'list' }
+    ],
+    webhook: [
+        { key: 'url', label: 'URL', kind: 'text' },
+        { key: 'method', label: 'Method', kind: 'select', options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] },
+        { key: 'headers', label: 'Headers', kind: 'json' },
+        { key: 'body', label: 'Body', kind: 'json' }
+    ],
+    notification: [
+        { key: 'userId', label: 'Recipient user', kind: 'text' },
+        { key: 'title', label: 'Title', kind: 'text' },
+        { key: 'message', label: 'Message', kind: 'textarea' },
+        { key: 'type', label: 'Type', kind: 'select', options: ['message', 'project', 'payment', 'system', 'alert'] },
+        { key: 'link', label: 'Link', kind: 'text' }
+    ],
+    approval: [
+        { key: 'approvers', label: 'Approvers', kind: 'list' },
+        { key: 'title', label: 'Title', kind: 'text' },
+        { key: 'message', label: 'Message', kind: 'textarea' },
+        { key: 'deadline', label: 'Deadline', kind: 'text', placeholder: '3d' },
+        { key: 'escalation.after', label: 'Escalate after', kind: 'text', placeholder: '1d' },
+        { key: 'escalation.approvers', label: 'Escalation approvers', kind: 'list' },
+        { key: 'onTimeout', label: 'On timeout', kind: 'select', options: ['timed_out', 'approved', 'rejected'] }
+    ],
+    transform: [
+        { key: 'transformation', label: 'Transformation', kind: 'textarea' }
+    ]
+};
+
+const ACTION_FIELDS: Record<string, FieldDescriptor[]> = {
+    createProject: [
+        { key: 'params.name', label: 'Project name', kind: 'text' },
+        { key: 'params.ownerId', label: 'Owner', kind: 'text' },
+        { key: 'params.clientId', label: 'Client', kind: 'text' },
+        { key: 'params.category', label: 'Category', kind: 'text' },
+        { key: 'params.description', label: 'Description', kind: 'textarea' },
+        { key: 'params.dueDate', label: 'Due date', kind: 'text' }
+    ],
+    createTask: [
+        { key: 'params.title', label: 'Task title', kind: 'text' },
+        { key: 'params.createdBy', label: 'Created by', kind: 'text' },
+        { key: 'params.assignedTo', label: 'Assigned to', kind: 'text' },
+        { key: 'params.priority', label: 'Priority', kind: 'select', options: ['low', 'medium', 'high', 'urgent'] },
+        { key: 'params.description', label: 'Description', kind: 'textarea' },
+        { key: 'params.dueDate', label: 'Due date', kind: 'text' }
+    ],
+    generateInvoice: [
+        { key: 'params.clientId', label: 'Client', kind: 'text' },
+        { key: 'params.projectId', label: 'Project', kind: 'text' },
+        { key: 'params.lineItems', label: 'Line items', kind: 'json' },
+        { key: 'params.taxRate', label: 'Tax rate (%)', kind: 'number' },
+        { key: 'params.discountAmount', label: 'Discount', kind: 'number' },
+        { key: 'params.status', label: 'Status', kind: 'select', options: ['draft', 'sent'] }
+    ],
+    archiveProject: [
+        { key: 'params.projectId', label: 'Project', kind: 'text' }
+    ]
+};
+
+function getPath(value: Record<string, any>, path: string): any {
+    return path.split('.').reduce((current, key) => current?.[key], value);
+}
+
+function setPath(value: Record<string, any>, path: string, fieldValue: any): Record<string, any> {
+    const [key, ...rest] = path.split('.');
+    const next = { ...value };
+
+    if (rest.length > 0) {
+        next[key] = setPath(value[key] || {}, rest.join('.'), fieldValue);
+    } else if (fieldValue === undefined) {
+        delete next[key];
+    } else {
+        next[key] = fieldValue;
+    }
+
+    return next;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none';
+
+interface StepConfigFormProps {
+    step: WorkflowStep;
+    issues: WorkflowValidationIssue[];
+    onChange: (step: WorkflowStep) => void;
+    onRemove: () => void;
+}
+
+export function StepConfigForm({ step, issues, onChange, onRemove }: StepConfigFormProps) {
+    const fields = [
+        ...STEP_FIELDS[step.type],
+        ...(step.type === 'action' ? ACTION_FIELDS[step.config.action] || [] : [])
+    ];
+
+    const issueFor = (key: string) => issues.find(issue => issue.field === `config.${key}`);
+    const stepIssues = issues.filter(issue => !issue.field.startsWith('config.') || !fields.some(field => issue.field === `config.${field.key}`));
+
+    const updateConfig = (key: string, value: any) => {
+        onChange({ ...step, config: setPath(step.config, key, value) });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-white uppercase tracking-wide">{step.type.replace('_', ' ')} step</h3>
+                <button
+                    onClick={onRemove}
+                    className="p-1.5 text-slate-400 hover:text-red-400 transition-colors"
+                    title="Remove step"
+                >
+                    <Trash2 className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Step ID</label>
+                    <input
+                        value={step.id}
+                        onChange={(e) => onChange({ ...step, id: e.target.value })}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Name</label>
+                    <input
+                        value={step.name || ''}
+                        onChange={(e) => onChange({ ...step, name: e.target.value || undefined })}
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">Run only if</label>
+                    <input
+                        value={step.condition || ''}
+                        onChange={(e) => onChange({ ...step, condition: e.target.value || undefined })}
+                        placeholder="Expression"
+                        className={inputClass}
+                    />
+                </div>
+                <div>
+                    <label className="block text-xs text-slate-400 mb-1">On error</label>
+                    <select
+                        value={step.onError || 'stop'}
+                        onChange={(e) => onChange({ ...step, onError: e.target.value as WorkflowStep['onError'] })}
+                        className={inputClass}
+                    >
+                        <option value="stop">Stop</option>
+                        <option value="continue">Continue</option>
+                        <option value="retry">Retry</option>
+                    </select>
+                </div>
+            </div>
+
+            <div className="space-y-3 border-t border-slate-700 pt-4">
+                {fields.map(field => (
+                    <ConfigField
+                        key={field.key}
+                        field={field}
+                        value={getPath(step.config, field.key)}
+                        issue={issueFor(field.key)}
+                        onChange={(value) => updateConfig(field.key, value)}
+                    />
+                ))}
+            </div>
+
+            {stepIssues.length > 0 && (
+                <ul className="space-y-1">
+                    {stepIssues.map((issue, index) => (
+                        <li key={index} className="text-xs text-red-400">
+                            {issue.field}: {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+interface ConfigFieldProps {
+    field: FieldDescriptor;
+    value: any;
+    issue?: WorkflowValidationIssue;
+    onChange: (value: any) => void;
+}
+
+function ConfigField({ field, value, issue, onChange }: ConfigFieldProps) {
+    const listId = `options-${field.key}`;
+
+    const renderInput = () => {
+        switch (field.kind) {
+            case 'textarea':
+                return (
+                    <textarea
+                        value={value ?? ''}
+                        onChange={(e) => onChange(e.target.value || undefined)}
+                        placeholder={field.placeholder}
+                        rows={3}
+                        className={inputClass}
+                    />
+                );
+            case 'number':
+                return (
+                    <input
+                        type="number"
+                        value={value ?? ''}
+                        onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+                        className={inputClass}
+                    />
+                );
+            case 'select':
+                return (
+                    <select
+                        value={value ?? ''}
+                        onChange={(e) => onChange(e.target.value || undefined)}
+                        className={inputClass}
+                    >
+                        <option value="">—</option>
+                        {field.options?.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                );
+            case 'list':
+                return (
+                    <input
+                        value={Array.isArray(value) ? value.join(', ') : value ?? ''}
+                        onChange={(e) => onChange(e.target.value.split(',').map(item => item.trim()).filter(Boolean))}
+                        placeholder="Comma separated"
+                        className={inputClass}
+                    />
+                );
+            case 'json':
+                return <JsonInput value={value} onChange={onChange} />;
+            default:
+                return (
+                    <>
+                        <input
+                            value={value ?? ''}
+                            onChange={(e) => onChange(e.target.value || undefined)}
+                            placeholder={field.placeholder}
+                            list={field.options ? listId : undefined}
+                            className={inputClass}
+                        />
+                        {field.options && (
+                            <datalist id={listId}>
+                                {field.options.map(option => <option key={option} value={option} />)}
+                            </datalist>
+                        )}
+                    </>
+                );
+        }
+    };
+
+    return (
+        <div>
+            <label className="block text-xs text-slate-400 mb-1">{field.label}</label>
+            {renderInput()}
+            {issue && <p className="text-xs text-red-400 mt-1">{issue.message}</p>}
+        </div>
+    );
+}
+
+// JSON values are kept as text until they parse, so typing is not interrupted
+function JsonInput({ value, onChange }: { value: any; onChange: (value: any) => void }) {
+    const [text, setText] = React.useState(() => typeof value === 'string' ? value : JSON.stringify(value ?? null, null, 2));
+    const [invalid, setInvalid] = React.useState(false);
+
+    const handleChange = (next: string) => {
+        setText(next);
+
+        if (!next.trim()) {
+            setInvalid(false);
+            onChange(undefined);
+            return;
+        }
+
+        // {{variables}} may stand in for a whole value
+        if (/^\s*\{\{[^}]+\}\}\s*$/.test(next)) {
+            setInvalid(false);
+            onChange(next.trim());
+            return;
+        }
+
+        try {
+            onChange(JSON.parse(next));
+            setInvalid(false);
+        } catch {
+            setInvalid(true);
+        }
+    };
+
+    return (
+        <>
+            <textarea
+                value={text === 'null' ? '' : text}
+                onChange={(e) => handleChange(e.target.value)}
+                rows={4}
+                className={`${inputClass} font-mono`}
+            />
+            {invalid && <p className="text-xs text-amber-400 mt-1">Not valid JSON yet</p>}
+        </>
+    );
+}
+
+export default StepConfigForm;
@@ -0,0 +1,631 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    DndContext,
+    DragEndEvent,
+    DragOverlay,
+    DragStartEvent,
+    PointerSensor,
+    pointerWithin,
+    useDraggable,
+    useDroppable,
+    useSensor,
+    useSensors
+} from '@dnd-kit/core';
+import type { CollisionDetection } from '@dnd-kit/core';
+import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { ArrowLeft, GripVertical, History, Save, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { workflowService, validateDefinition, getChildSequences } from '../../../services/workflow';
+import { EventTypes } from '../../../services/eventBus/types';
+import { formatSubscriptionFilter, normalizeFilters } from '../../../services/eventBus/matching';
+import type {
+    StepType,
+    Workflow,
+    WorkflowDefinition,
+    WorkflowStep,
+    WorkflowTrigger,
+    WorkflowValidationIssue,
+    WorkflowVersion
+} from '../../../services/workflow';
+import {
+    ROOT_SEQUENCE,
+    SequenceRef,
+    createStep,
+    findStep,
+    getSequence,
+    insertStep,
+    moveStep,
+    removeStep,
+    sequenceKey,
+    updateStep
+} from './builderTree';
+import { STEP_TYPES, BRANCH_LABELS, getStepMeta } from './stepMeta';
+import { StepConfigForm } from './StepConfigForm';
+import { DryRunPanel } from './DryRunPanel';
+
+interface WorkflowBuilderProps {
+    workflow: Workflow;
+    userId: string;
+    onBack: () => void;
+    onChange: (workflow: Workflow) => void;
+}
+
+type SidePanel = 'step' | 'dry-run' | 'versions';
+
+// Drag data attached to palette items, step cards and sequence drop zones
+type DragData =
+    | { kind: 'palette'; type: StepType }
+    | { kind: 'step'; ref: SequenceRef; index: number }
+    | { kind: 'sequence'; ref: SequenceRef };
+
+// Nested sequences sit inside their parent's card, so prefer the smallest target under the pointer
+const innermostPointerWithin: CollisionDetection = (args) => {
+    const area = (id: string | number) => {
+        const rect = args.droppableRects.get(id);
+        return rect ? rect.width * rect.height : Infinity;
+    };
+    return pointerWithin(args).sort((a, b) => area(a.id) - area(b.id));
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none';
+
+export function WorkflowBuilder({ workflow, userId, onBack, onChange }: WorkflowBuilderProps) {
+    const [definition, setDefinition] = useState<WorkflowDefinition>(workflow.draftDefinition || workflow.definition);
+    const [dirty, setDirty] = useState(false);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [selectionKey, setSelectionKey] = useState(0);
+    const [panel, setPanel] = useState<SidePanel>('step');
+    const [activeDrag, setActiveDrag] = useState<DragData | null>(null);
+    const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+    const [saving, setSaving] = useState(false);
+    const [showPublish, setShowPublish] = useState(false);
+    const [changeNote, setChangeNote] = useState('');
+    const [activeInstances, setActiveInstances] = useState(0);
+
+    const sensors = useSensors(
+        useSensor(PointerSensor, { activationConstraint: { distance: 8 } })
+    );
+
+    const issues = useMemo(() => validateDefinition(definition), [definition]);
+    const hasDraft = dirty || !!workflow.draftDefinition;
+    const selected = selectedId ? findStep(definition.steps, selectedId)?.step : undefined;
+
+    useEffect(() => {
+        loadVersions();
+    }, [workflow.id, workflow.version]);
+
+    const loadVersions = async () => {
+        try {
+            setVersions(await workflowService.listVersions(workflow.id));
+        } catch (err: any) {
+            console.error('Failed to load workflow versions:', err);
+        }
+    };
+
+    const editDefinition = (next: WorkflowDefinition) => {
+        setDefinition(next);
+        setDirty(true);
+    };
+
+    const editSteps = (steps: WorkflowStep[]) => editDefinition({ ...definition, steps });
+
+    const selectStep = (stepId: string) => {
+        setSelectedId(stepId);
+        setSelectionKey(key => key + 1);
+        setPanel('step');
+    };
+
+    const handleStepChange = (step: WorkflowStep) => {
+        if (!selectedId) return;
+        editSteps(updateStep(definition.steps, selectedId, step));
+        setSelectedId(step.id);
+    };
+
+    const handleStepRemove = () => {
+        if (!selectedId) return;
+        editSteps(removeStep(definition.steps, selectedId));
+        setSelectedId(null);
+    };
+
+    const handleTriggerChange = (trigger: WorkflowTrigger) => {
+        editDefinition({ ...definition, trigger });
+    };
+
+    const handleDragStart = (event: DragStartEvent) => {
+        setActiveDrag(event.active.data.current as DragData);
+    };
+
+    const handleDragEnd = (event: DragEndEvent) => {
+        setActiveDrag(null);
+
+        const { active, over } = event;
+        if (!over || active.id === over.id) return;
+
+        const source = active.data.current as DragData;
+        const target = over.data.current as DragData;
+        if (target.kind === 'palette') return;
+
+        // Dropping on a step inserts before it; dropping on a sequence appends
+        const ref = target.ref;
+        let index = target.kind === 'step' ? target.index : getSequence(definition.steps, ref).length;
+
+        if (source.kind === 'palette') {
+            const step = createStep(source.type, definition.steps);
+            editSteps(insertStep(definition.steps, ref, index, step));
+            selectStep(step.id);
+            return;
+        }
+
+        if (source.kind === 'step') {
+            // Within a sequence a downward move takes the target's place
+            if (target.kind === 'step' && sequenceKey(source.ref) === sequenceKey(ref) && source.index < index) {
+                index += 1;
+            }
+            editSteps(moveStep(definition.steps, String(active.id), ref, index));
+        }
+    };
+
+    const handleSaveDraft = async () => {
+        setSaving(true);
+        try {
+            await workflowService.saveDraft(workflow.id, definition);
+            setDirty(false);
+            const updated = await workflowService.getWorkflow(workflow.id);
+            if (updated) onChange(updated);
+            toast.success('Draft saved');
+        } catch (err: any) {
+            toast.error(`Failed to save draft: ${err.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const openPublish = async () => {
+        setChangeNote('');
+        setShowPublish(true);
+
+        const instances = await workflowService.listInstances(workflow.id);
+        setActiveInstances(instances.filter(instance =>
+            ['pending', 'running', 'waiting', 'paused'].includes(instance.status)
+        ).length);
+    };
+
+    const handlePublish = async () => {
+        setSaving(true);
+        try {
+            if (dirty) {
+                await workflowService.saveDraft(workflow.id, definition);
+            }
+            const version = await workflowService.publishDraft(workflow.id, {
+                publishedBy: userId,
+                changeNote: changeNote || undefined
+            });
+
+            setDirty(false);
+            setShowPublish(false);
+            const updated = await workflowService.getWorkflow(workflow.id);
+            if (updated) onChange(updated);
+            toast.success(`Published version ${version.version}`);
+        } catch (err: any) {
+            toast.error(`Failed to publish: ${err.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDiscard = async () => {
+        if (!confirm('Discard all unpublished changes?')) return;
+
+        try {
+            if (workflow.draftDefinition) {
+                await workflowService.discardDraft(workflow.id);
+                const updated = await workflowService.getWorkflow(workflow.id);
+                if (updated) onChange(updated);
+            }
+            setDefinition(workflow.definition);
+            setDirty(false);
+            setSelectedId(null);
+        } catch (err: any) {
+            toast.error(`Failed to discard draft: ${err.message}`);
+        }
+    };
+
+    const handleLoadVersion = (version: WorkflowVersion) => {
+        if (hasDraft && !confirm(`Replace the current draft with version ${version.version}?`)) return;
+        editDefinition({ ...version.definition, name: definition.name });
+        setSelectedId(null);
+    };
+
+    const definitionIssues = issues.filter(issue => !issue.stepId);
+
+    return (
+        <div className="p-4 md:p-6">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <button onClick={onBack} className="p-2 text-slate-400 hover:text-white transition-colors">
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-bold text-white">{workflow.name}</h1>
+                        <p className="text-slate-300 mt-1 text-sm">
+                            Version {workflow.version}
+                            {hasDraft && <span className="ml-2 px-2 py-0.5 bg-amber-500/20 text-amber-300 rounded text-xs">Unpublished changes</span>}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                    {hasDraft && (
+                        <button
+                            onClick={handleDiscard}
+                            className="px-4 py-2 text-slate-300 hover:text-white rounded-lg transition-colors"
+                        >
+                            Discard draft
+                        </button>
+                    )}
+                    <button
+                        onClick={handleSaveDraft}
+                        disabled={!dirty || saving}
+                        className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+                    >
+                        <Save className="w-4 h-4" />
+                        Save draft
+                    </button>
+                    <button
+                        onClick={openPublish}
+                        disabled={!hasDraft || issues.length > 0 || saving}
+                        className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                    >
+                        <Upload className="w-4 h-4" />
+                        Publish
+                    </button>
+                </div>
+            </div>
+
+            <DndContext
+                sensors={sensors}
+                collisionDetection={innermostPointerWithin}
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                onDragCancel={() => setActiveDrag(null)}
+            >
+                <div className="grid grid-cols-1 lg:grid-cols-[200px_1fr_360px] gap-6">
+                    {/* Palette */}
+                    <div className="bg-slate-800 rounded-lg p-4 h-fit">
+                        <h2 className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-3">Steps</h2>
+                        <div className="space-y-2">
+                            {STEP_TYPES.map(meta => (
+                                <PaletteItem key={meta.type} type={meta.type} />
+                            ))}
+                        </div>
+                    </div>
+
+                    {/* Canvas */}
+                    <div className="space-y-4">
+                        <TriggerEditor trigger={definition.trigger} onChange={handleTriggerChange} />
+
+                        {definitionIssues.length > 0 && (
+                            <div className="bg-red-900/20 border border-red-500 text-red-400 px-4 py-3 rounded-lg text-sm space-y-1">
+                                {definitionIssues.map((issue, index) => (
+                                    <div key={index}>{issue.field}: {issue.message}</div>
+                                ))}
+                            </div>
+                        )}
+
+                        <SequenceDropZone
+                            sequenceRef={ROOT_SEQUENCE}
+                            steps={definition.steps}
+                            issues={issues}
+                            selectedId={selectedId}
+                            onSelect={selectStep}
+                        />
+                    </div>
+
+                    {/* Side panel */}
+                    <div className="bg-slate-800 rounded-lg p-4 h-fit">
+                        <div className="flex gap-1 mb-4 bg-slate-900 rounded-lg p-1">
+                            {([['step', 'Step'], ['dry-run', 'Dry run'], ['versions', 'Versions']] as [SidePanel, string][]).map(([id, label]) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setPanel(id)}
+                                    className={`flex-1 px-3 py-1.5 rounded-md text-sm transition-colors ${panel === id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {panel === 'step' && (selected ? (
+                            <StepConfigForm
+                                key={selectionKey}
+                                step={selected}
+                                issues={issues.filter(issue => issue.stepId === selected.id)}
+                                onChange={handleStepChange}
+                                onRemove={handleStepRemove}
+                            />
+                        ) : (
+                            <p className="text-sm text-slate-400">
+                                Drag steps from the palette onto the canvas, then select a step to configure it.
+                            </p>
+                        ))}
+
+                        {panel === 'dry-run' && (
+                            <DryRunPanel definition={definition} disabled={issues.length > 0} />
+                        )}
+
+                        {panel === 'versions' && (
+                            <ul className="space-y-2">
+                                {versions.map(version => (
+                                    <li key={version.id} className="bg-slate-900 border border-slate-700 rounded-lg p-3">
+                                        <div className="flex items-center justify-between">
+                                            <span className="flex items-center gap-2 text-sm text-white">
+                                                <History className="w-4 h-4 text-slate-400" />
+                                                Version {version.version}
+                                                {version.version === workflow.version && (
+                                                    <span className="px-2 py-0.5 bg-teal-500/20 text-teal-300 rounded text-xs">Current</span>
+                                                )}
+                                            </span>
+                                            <button
+                                                onClick={() => handleLoadVersion(version)}
+                                                className="text-xs text-teal-400 hover:text-teal-300"
+                                            >
+                                                Load into editor
+                                            </button>
+                                        </div>
+                                        <p className="text-xs text-slate-400 mt-1">
+                                            {version.publishedAt.toLocaleString()}
+                                            {version.changeNote && ` · ${version.changeNote}`}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+
+                <DragOverlay>
+                    {activeDrag?.kind === 'palette' && <PaletteCard type={activeDrag.type} />}
+                </DragOverlay>
+            </DndContext>
+
+            {/* Publish Modal */}
+            {showPublish && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-800 rounded-lg max-w-md w-full p-6">
+                        <h2 className="text-xl font-bold text-white mb-2">Publish version {workflow.version + 1}</h2>
+                        <p className="text-sm text-slate-300 mb-4">
+                            New runs will use this version.
+                            {activeInstances > 0 && ` ${activeInstances} run${activeInstances === 1 ? '' : 's'} in progress will finish on the version ${activeInstances === 1 ? 'it' : 'they'} started on.`}
+                        </p>
+                        <label className="block text-xs text-slate-400 mb-1">Change note</label>
+                        <input
+                            value={changeNote}
+                            onChange={(e) => setChangeNote(e.target.value)}
+                            placeholder="What changed?"
+                            className={inputClass}
+                        />
+                        <div className="flex justify-end gap-3 mt-6">
+                            <button
+                                onClick={() => setShowPublish(false)}
+                                className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handlePublish}
+                                disabled={saving}
+                                className="px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                            >
+                                {saving ? 'Publishing...' : 'Publish'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Trigger
+// ============================================
+
+function TriggerEditor({ trigger, onChange }: { trigger?: WorkflowTrigger; onChange: (trigger: WorkflowTrigger) => void }) {
+    const current: WorkflowTrigger = trigger || { type: 'manual' };
+
+    let filterError: string | null = null;
+    try {
+        normalizeFilters(current.filters);
+    } catch (err: any) {
+        filterError = err.message;
+    }
+
+    return (
+        <div className="bg-slate-800 rounded-lg p-4">
+            <h2 className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-3">Trigger</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <select
+                    value={current.type}
+                    onChange={(e) => onChange({ type: e.target.value as WorkflowTrigger['type'] })}
+                    className={inputClass}
+                >
+                    <option value="manual">Manual</option>
+                    <option value="event">When an event happens</option>
+                    <option value="schedule">On a schedule</option>
+                    <option value="webhook">Incoming webhook</option>
+                </select>
+
+                {current.type === 'event' && (
+                    <>
+                        <input
+                            value={current.event || ''}
+                            onChange={(e) => onChange({ ...current, event: e.target.value })}
+                            placeholder="e.g. client.created or invoice.*"
+                            list="workflow-trigger-events"
+                            className={inputClass}
+                        />
+                        <datalist id="workflow-trigger-events">
+                            {Object.values(EventTypes).map(eventType => <option key={eventType} value={eventType} />)}
+                        </datalist>
+                        <textarea
+                            value={(current.filters || []).map(filter => typeof filter === 'string' ? filter : formatSubscriptionFilter(filter)).join('\n')}
+                            onChange={(e) => onChange({ ...current, filters: e.target.value ? e.target.value.split('\n') : undefined })}
+                            placeholder={'Only when (one per line), e.g.\neventData.amount > 1000'}
+                            rows={2}
+                            className={`${inputClass} md:col-span-2 font-mono text-xs`}
+                        />
+                        {filterError && <p className="text-xs text-red-400 md:col-span-2">{filterError}</p>}
+                    </>
+                )}
+
+                {current.type === 'schedule' && (
+                    <input
+                        value={current.schedule || ''}
+                        onChange={(e) => onChange({ ...current, schedule: e.target.value })}
+                        placeholder="Cron expression, e.g. 0 9 * * 1"
+                        className={inputClass}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+// ============================================
+// Palette
+// ============================================
+
+function PaletteCard({ type }: { type: StepType }) {
+    const meta = getStepMeta(type);
+    return (
+        <div className="flex items-center gap-2 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-sm text-white cursor-grab shadow-lg">
+            <meta.icon className={`w-4 h-4 ${meta.color}`} />
+            {meta.label}
+        </div>
+    );
+}
+
+function PaletteItem({ type }: { type: StepType }) {
+    const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+        id: `palette:${type}`,
+        data: { kind: 'palette', type } satisfies DragData
+    });
+
+    return (
+        <div ref={setNodeRef} {...attributes} {...listeners} className={isDragging ? 'opacity-40' : ''}>
+            <PaletteCard type={type} />
+        </div>
+    );
+}
+
+// ============================================
+// Canvas
+// ============================================
+
+interface SequenceProps {
+    sequenceRef: SequenceRef;
+    steps: WorkflowStep[];
+    issues: WorkflowValidationIssue[];
+    selectedId: string | null;
+    onSelect: (stepId: string) => void;
+}
+
+function SequenceDropZone({ sequenceRef, steps, issues, selectedId, onSelect }: SequenceProps) {
+    const { setNodeRef, isOver } = useDroppable({
+        id: `seq:${sequenceKey(sequenceRef)}`,
+        data: { kind: 'sequence', ref: sequenceRef } satisfies DragData
+    });
+
+    return (
+        <div
+            ref={setNodeRef}
+            className={`space-y-2 rounded-lg p-2 min-h-[64px] border border-dashed transition-colors ${isOver ? 'border-teal-500 bg-teal-500/5' : 'border-slate-700'}`}
+        >
+            <SortableContext items={steps.map(step => step.id)} strategy={verticalListSortingStrategy}>
+                {steps.map((step, index) => (
+                    <StepCard
+                        key={step.id}
+                        step={step}
+                        index={index}
+                        sequenceRef={sequenceRef}
+                        issues={issues}
+                        selectedId={selectedId}
+                        onSelect={onSelect}
+                    />
+                ))}
+            </SortableContext>
+            {steps.length === 0 && (
+                <p className="text-xs text-slate-500 text-center py-4">Drop steps here</p>
+            )}
+        </div>
+    );
+}
+
+interface StepCardProps extends Omit<SequenceProps, 'steps'> {
+    step: WorkflowStep;
+    index: number;
+}
+
+function StepCard({ step, index, sequenceRef, issues, selectedId, onSelect }: StepCardProps) {
+    const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+        id: step.id,
+        data: { kind: 'step', ref: sequenceRef, index } satisfies DragData
+    });
+
+    const meta = getStepMeta(step.type);
+    const branches = Object.entries(getChildSequences(step));
+    const hasIssues = issues.some(issue => issue.stepId === step.id);
+
+    const style = {
+        transform: CSS.Translate.toString(transform),
+        transition
+    };
+
+    return (
+        <div
+            ref={setNodeRef}
+            style={style}
+            className={`bg-slate-800 border rounded-lg ${isDragging ? 'opacity-40' : ''} ${selectedId === step.id ? 'border-teal-500' : hasIssues ? 'border-red-500/70' : 'border-slate-700'}`}
+        >
+            <div
+                className="flex items-center gap-2 px-3 py-2 cursor-pointer"
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onSelect(step.id);
+                }}
+            >
+                <span {...attributes} {...listeners} className="text-slate-500 hover:text-slate-300 cursor-grab">
+                    <GripVertical className="w-4 h-4" />
+                </span>
+                <meta.icon className={`w-4 h-4 ${meta.color}`} />
+                <span className="text-sm text-white">{step.name || meta.label}</span>
+                <span className="text-xs text-slate-500 font-mono">{step.id}</span>
+                {step.condition && (
+                    <span className="ml-auto text-xs text-slate-400 truncate max-w-[40%]">if {step.condition}</span>
+                )}
+            </div>
+
+            {branches.length > 0 && (
+                <div className={`grid gap-3 px-3 pb-3 ${branches.length > 1 ? 'md:grid-cols-2' : ''}`}>
+                    {branches.map(([branch, children]) => (
+                        <div key={branch}>
+                            <div className="text-xs text-slate-400 mb-1">{BRANCH_LABELS[branch] || branch}</div>
+                            <SequenceDropZone
+                                sequenceRef={{ parentId: step.id, branch }}
+                                steps={children}
+                                issues={issues}
+                                selectedId={selectedId}
+                                onSelect={onSelect}
+                            />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default WorkflowBuilder;
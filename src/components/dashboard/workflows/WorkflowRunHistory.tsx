@@ -0,0 +1,430 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Brain, ChevronDown, ChevronRight, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { workflowService } from '../../../services/workflow';
+import type { Workflow, WorkflowInstance, WorkflowStatus, WorkflowStepLog } from '../../../services/workflow';
+import { getStepMeta } from './stepMeta';
+
+interface WorkflowRunHistoryProps {
+    workflow: Workflow;
+    onBack: () => void;
+}
+
+// A step's 'running' log and the log it finished with, shown as one entry
+interface TimelineEntry {
+    log: WorkflowStepLog;
+    startedAt?: Date;
+    inProgress: boolean;
+    depth: number;
+}
+
+const STATUS_STYLES: Record<string, string> = {
+    pending: 'bg-slate-700 text-slate-300',
+    running: 'bg-blue-900/30 text-blue-400',
+    waiting: 'bg-amber-900/30 text-amber-400',
+    paused: 'bg-amber-900/30 text-amber-400',
+    completed: 'bg-green-900/30 text-green-400',
+    failed: 'bg-red-900/30 text-red-400',
+    cancelled: 'bg-slate-700 text-slate-400',
+    skipped: 'bg-slate-700 text-slate-400'
+};
+
+function StatusBadge({ status }: { status: string }) {
+    return (
+        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_STYLES[status] || STATUS_STYLES.pending}`}>
+            {status}
+        </span>
+    );
+}
+
+/**
+ * Pair each step's 'running' log with the log it finished with
+ * Steps that suspend log 'running' again when they resume, so an open entry is reused
+ */
+function buildTimeline(logs: WorkflowStepLog[]): TimelineEntry[] {
+    const entries: TimelineEntry[] = [];
+    const open = new Map<string, TimelineEntry>();
+    const depths = new Map<string, number>();
+
+    for (const log of logs) {
+        const depth = log.parentStepId ? (depths.get(log.parentStepId) ?? 0) + 1 : 0;
+        depths.set(log.stepId, depth);
+
+        const key = [log.retryCount, log.parentStepId, log.iteration, log.stepId].join('|');
+        const pending = open.get(key);
+
+        if (log.status === 'running') {
+            if (!pending) {
+                const entry = { log, startedAt: log.startedAt, inProgress: true, depth };
+                open.set(key, entry);
+                entries.push(entry);
+            }
+            continue;
+        }
+
+        if (pending) {
+            pending.log = log;
+            pending.inProgress = false;
+            open.delete(key);
+        } else {
+            entries.push({ log, startedAt: log.completedAt, inProgress: false, depth });
+        }
+    }
+
+    return entries;
+}
+
+function formatDuration(from: Date, to?: Date): string {
+    const ms = (to || new Date()).getTime() - from.getTime();
+    if (ms < 1000) return `${ms}ms`;
+    if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
+    if (ms < 3_600_000) return `${Math.round(ms / 60_000)}m`;
+    return `${Math.round(ms / 3_600_000)}h`;
+}
+
+export function WorkflowRunHistory({ workflow, onBack }: WorkflowRunHistoryProps) {
+    const [instances, setInstances] = useState<WorkflowInstance[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selected, setSelected] = useState<WorkflowInstance | null>(null);
+    const [statusFilter, setStatusFilter] = useState<WorkflowStatus | 'all'>('all');
+
+    useEffect(() => {
+        loadInstances();
+    }, [workflow.id]);
+
+    const loadInstances = async () => {
+        setLoading(true);
+        try {
+            const data = await workflowService.listInstances(workflow.id);
+            setInstances(data);
+            setSelected(current => current ? data.find(instance => instance.id === current.id) || null : data[0] || null);
+        } catch (err: any) {
+            toast.error(`Failed to load runs: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const filtered = statusFilter === 'all'
+        ? instances
+        : instances.filter(instance => instance.status === statusFilter);
+
+    return (
+        <div className="p-4 md:p-6">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+                <div className="flex items-center gap-3">
+                    <button onClick={onBack} className="p-2 text-slate-400 hover:text-white transition-colors">
+                        <ArrowLeft className="w-5 h-5" />
+                    </button>
+                    <div>
+                        <h1 className="text-2xl font-bold text-white">{workflow.name}</h1>
+                        <p className="text-slate-300 mt-1 text-sm">Run history</p>
+                    </div>
+                </div>
+                <div className="flex gap-3">
+                    <select
+                        value={statusFilter}
+                        onChange={(e) => setStatusFilter(e.target.value as WorkflowStatus | 'all')}
+                        className="px-4 py-2 bg-slate-700 border border-slate-600 text-white rounded-lg focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                    >
+                        <option value="all">All runs</option>
+                        <option value="running">Running</option>
+                        <option value="waiting">Waiting</option>
+                        <option value="paused">Paused</option>
+                        <option value="completed">Completed</option>
+                        <option value="failed">Failed</option>
+                        <option value="cancelled">Cancelled</option>
+                    </select>
+                    <button
+                        onClick={loadInstances}
+                        className="p-2 text-slate-400 hover:text-white transition-colors"
+                        title="Refresh"
+                    >
+                        <RefreshCw className="w-5 h-5" />
+                    </button>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center h-64">
+                    <div className="text-slate-300">Loading runs...</div>
+                </div>
+            ) : instances.length === 0 ? (
+                <div className="bg-slate-800 rounded-lg p-12 text-center text-slate-300">
+                    This workflow has not run yet.
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-[320px_1fr] gap-6">
+                    {/* Runs */}
+                    <div className="bg-slate-800 rounded-lg overflow-hidden h-fit">
+                        <ul className="divide-y divide-slate-700 max-h-[70vh] overflow-y-auto">
+                            {filtered.map(instance => (
+                                <li key={instance.id}>
+                                    <button
+                                        onClick={() => setSelected(instance)}
+                                        className={`w-full text-left px-4 py-3 transition-colors ${selected?.id === instance.id ? 'bg-slate-700' : 'hover:bg-slate-700/50'}`}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className="text-sm text-white">{instance.startedAt.toLocaleString()}</span>
+                                            <StatusBadge status={instance.status} />
+                                        </div>
+                                        <div className="text-xs text-slate-400 mt-1">
+                                            v{instance.workflowVersion ?? '?'}
+                                            {' · '}
+                                            {formatDuration(instance.startedAt, instance.completedAt)}
+                                            {instance.retryCount > 0 && ` · ${instance.retryCount} ${instance.retryCount === 1 ? 'retry' : 'retries'}`}
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    {/* Inspector */}
+                    {selected && (
+                        <RunInspector
+                            key={selected.id}
+                            instance={selected}
+                            onChanged={loadInstances}
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
+
+// ============================================
+// Run Inspector
+// ============================================
+
+function RunInspector({ instance, onChanged }: { instance: WorkflowInstance; onChanged: () => void }) {
+    const [logs, setLogs] = useState<WorkflowStepLog[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [expanded, setExpanded] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadLogs();
+    }, [instance.id, instance.status, instance.retryCount]);
+
+    const loadLogs = async () => {
+        setLoading(true);
+        try {
+            const data = await workflowService.listStepLogs(instance.id);
+            setLogs(data);
+
+            // Open the failed step straight away
+            const failed = [...data].reverse().find(log => log.status === 'failed');
+            if (failed && instance.status === 'failed') setExpanded(failed.id);
+        } catch (err: any) {
+            toast.error(`Failed to load step logs: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const timeline = useMemo(() => buildTimeline(logs), [logs]);
+
+    const handleRetry = async () => {
+        setBusy(true);
+        try {
+            const status = await workflowService.retryInstance(instance.id);
+            toast.success(`Run ${status === 'completed' ? 'completed' : `is ${status}`}`);
+        } catch (err: any) {
+            toast.error(`Retry failed: ${err.message}`);
+        } finally {
+            setBusy(false);
+            onChanged();
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!confirm('Cancel this run?')) return;
+
+        setBusy(true);
+        try {
+            await workflowService.cancelInstance(instance.id);
+        } catch (err: any) {
+            toast.error(`Failed to cancel run: ${err.message}`);
+        } finally {
+            setBusy(false);
+            onChanged();
+        }
+    };
+
+    const variables = instance.context?.variables || instance.inputData || {};
+
+    return (
+        <div className="space-y-4">
+            {/* Summary */}
+            <div className="bg-slate-800 rounded-lg p-4">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                    <div className="space-y-1">
+                        <div className="flex items-center gap-2">
+                            <StatusBadge status={instance.status} />
+                            <span className="text-xs text-slate-400 font-mono">{instance.id}</span>
+                        </div>
+                        <p className="text-sm text-slate-300">
+                            Version {instance.workflowVersion ?? '?'} · started {instance.startedAt.toLocaleString()}
+                            {instance.completedAt && ` · finished ${instance.completedAt.toLocaleString()}`}
+                        </p>
+                        {instance.status === 'waiting' && (
+                            <p className="text-sm text-amber-300">
+                                {instance.waitingFor
+                                    ? `Waiting for ${instance.waitingFor.eventType}${instance.waitingFor.correlationValue ? ` (${instance.waitingFor.correlationKey} = ${instance.waitingFor.correlationValue})` : ''}`
+                                    : 'Waiting'}
+                                {instance.resumeAt && ` until ${instance.resumeAt.toLocaleString()}`}
+                            </p>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        {instance.status === 'failed' && (
+                            <button
+                                onClick={handleRetry}
+                                disabled={busy}
+                                className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+                            >
+                                <RotateCcw className="w-4 h-4" />
+                                Retry from failed step
+                            </button>
+                        )}
+                        {['pending', 'waiting', 'paused'].includes(instance.status) && (
+                            <button
+                                onClick={handleCancel}
+                                disabled={busy}
+                                className="flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-sm transition-colors"
+                            >
+                                <XCircle className="w-4 h-4" />
+                                Cancel run
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {instance.errorMessage && (
+                    <div className="mt-3 bg-red-900/20 border border-red-500 text-red-400 px-3 py-2 rounded-lg text-sm">
+                        {instance.errorMessage}
+                    </div>
+                )}
+
+                <details className="mt-3 text-xs text-slate-400">
+                    <summary className="cursor-pointer">Variables</summary>
+                    <pre className="mt-2 text-slate-300 bg-slate-950 rounded p-2 overflow-x-auto max-h-60">
+                        {JSON.stringify(variables, null, 2)}
+                    </pre>
+                </details>
+            </div>
+
+            {/* Timeline */}
+            <div className="bg-slate-800 rounded-lg p-4">
+                <h2 className="text-xs font-semibold text-slate-400 uppercase tracking-wide mb-3">Timeline</h2>
+
+                {loading ? (
+                    <div className="text-sm text-slate-400">Loading steps...</div>
+                ) : timeline.length === 0 ? (
+                    <div className="text-sm text-slate-400">No steps have run yet.</div>
+                ) : (
+                    <ol className="space-y-2">
+                        {timeline.map((entry, index) => {
+                            const previous = timeline[index - 1];
+                            const isExpanded = expanded === entry.log.id;
+
+                            return (
+                                <React.Fragment key={entry.log.id}>
+                                    {entry.log.retryCount > 0 && previous?.log.retryCount !== entry.log.retryCount && (
+                                        <li className="flex items-center gap-2 text-xs text-teal-400 pt-2">
+                                            <RotateCcw className="w-3 h-3" />
+                                            Retry {entry.log.retryCount}
+                                        </li>
+                                    )}
+                                    <TimelineItem
+                                        entry={entry}
+                                        instanceStatus={instance.status}
+                                        expanded={isExpanded}
+                                        onToggle={() => setExpanded(isExpanded ? null : entry.log.id)}
+                                    />
+                                </React.Fragment>
+                            );
+                        })}
+                    </ol>
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface TimelineItemProps {
+    entry: TimelineEntry;
+    instanceStatus: WorkflowStatus;
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+function TimelineItem({ entry, instanceStatus, expanded, onToggle }: TimelineItemProps) {
+    const { log } = entry;
+    const meta = getStepMeta(log.stepType);
+    const status = entry.inProgress
+        ? (instanceStatus === 'waiting' || instanceStatus === 'paused' ? instanceStatus : 'running')
+        : log.status;
+    const decision = log.stepType === 'ai_decision' ? log.outputData : undefined;
+
+    return (
+        <li style={{ marginLeft: `${entry.depth * 1.5}rem` }} className="bg-slate-900 border border-slate-700 rounded-lg">
+            <button onClick={onToggle} className="w-full flex items-center gap-2 px-3 py-2 text-left">
+                {expanded ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+                <meta.icon className={`w-4 h-4 ${meta.color}`} />
+                <span className="text-sm text-white">{log.stepName}</span>
+                {log.iteration !== undefined && (
+                    <span className="text-xs text-slate-500">#{log.iteration + 1}</span>
+                )}
+                <span className="ml-auto flex items-center gap-3">
+                    {log.executionTimeMs !== undefined && (
+                        <span className="text-xs text-slate-500">{log.executionTimeMs}ms</span>
+                    )}
+                    {entry.startedAt && (
+                        <span className="text-xs text-slate-500">{entry.startedAt.toLocaleTimeString()}</span>
+                    )}
+                    <StatusBadge status={status} />
+                </span>
+            </button>
+
+            {log.errorMessage && (
+                <p className="px-3 pb-2 text-xs text-red-400">{log.errorMessage}</p>
+            )}
+
+            {decision?.reasoning && (
+                <div className="mx-3 mb-2 flex gap-2 bg-fuchsia-900/10 border border-fuchsia-800/50 rounded-lg px-3 py-2">
+                    <Brain className="w-4 h-4 text-fuchsia-400 shrink-0 mt-0.5" />
+                    <div className="text-xs text-slate-300">
+                        <span className="text-white font-medium">{decision.decision}</span>
+                        {typeof decision.confidence === 'number' && ` · ${Math.round(decision.confidence * 100)}% confidence`}
+                        <p className="mt-1">{decision.reasoning}</p>
+                    </div>
+                </div>
+            )}
+
+            {expanded && (
+                <div className="grid md:grid-cols-2 gap-3 px-3 pb-3">
+                    <div>
+                        <div className="text-xs text-slate-400 mb-1">Input</div>
+                        <pre className="text-xs text-slate-300 bg-slate-950 rounded p-2 overflow-x-auto max-h-60">
+                            {log.inputData !== undefined ? JSON.stringify(log.inputData, null, 2) : '—'}
+                        </pre>
+                    </div>
+                    <div>
+                        <div className="text-xs text-slate-400 mb-1">Output</div>
+                        <pre className="text-xs text-slate-300 bg-slate-950 rounded p-2 overflow-x-auto max-h-60">
+                            {log.outputData !== undefined ? JSON.stringify(log.outputData, null, 2) : '—'}
+                        </pre>
+                    </div>
+                </div>
+            )}
+        </li>
+    );
+}
+
+export default WorkflowRunHistory;
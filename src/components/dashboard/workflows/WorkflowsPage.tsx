@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Plus, Workflow as WorkflowIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { workflowService } from '../../../services/workflow';
+import type { Workflow } from '../../../services/workflow';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useTenant } from '../../../contexts/TenantContext';
+import { WorkflowBuilder } from './WorkflowBuilder';
+import { WorkflowRunHistory } from './WorkflowRunHistory';
+
+export function WorkflowsPage() {
+    const { user } = useAuth();
+    const { currentTenant } = useTenant();
+    const [workflows, setWorkflows] = useState<Workflow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [editing, setEditing] = useState<Workflow | null>(null);
+    const [viewingRuns, setViewingRuns] = useState<Workflow | null>(null);
+    const [showCreateModal, setShowCreateModal] = useState(false);
+    const [formData, setFormData] = useState({ name: '', description: '' });
+
+    useEffect(() => {
+        if (currentTenant) {
+            loadWorkflows();
+        }
+    }, [currentTenant]);
+
+    const loadWorkflows = async () => {
+        setLoading(true);
+        try {
+            setWorkflows(await workflowService.listWorkflows({ isTemplate: false }));
+        } catch (err: any) {
+            toast.error(`Failed to load workflows: ${err.message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreate = async () => {
+        try {
+            const workflow = await workflowService.createWorkflow({
+                name: formData.name,
+                description: formData.description || undefined,
+                definition: { name: formData.name, trigger: { type: 'manual' }, steps: [] },
+                isActive: false,
+                createdBy: user?.id
+            });
+
+            setShowCreateModal(false);
+            setFormData({ name: '', description: '' });
+            setWorkflows(prev => [workflow, ...prev]);
+            setEditing(workflow);
+        } catch (err: any) {
+            toast.error(`Failed to create workflow: ${err.message}`);
+        }
+    };
+
+    const handleToggleActive = async (workflow: Workflow) => {
+        try {
+            handleWorkflowChange(await workflowService.updateWorkflow(workflow.id, { isActive: !workflow.isActive }));
+        } catch (err: any) {
+            toast.error(`Failed to update workflow: ${err.message}`);
+        }
+    };
+
+    const handleWorkflowChange = (updated: Workflow) => {
+        setWorkflows(prev => prev.map(workflow => workflow.id === updated.id ? updated : workflow));
+        setEditing(current => current?.id === updated.id ? updated : current);
+    };
+
+    if (editing && user) {
+        return (
+            <WorkflowBuilder
+                workflow={editing}
+                userId={user.id}
+                onBack={() => setEditing(null)}
+                onChange={handleWorkflowChange}
+            />
+        );
+    }
+
+    if (viewingRuns) {
+        return <WorkflowRunHistory workflow={viewingRuns} onBack={() => setViewingRuns(null)} />;
+    }
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center h-64">
+                <div className="text-slate-300">Loading workflows...</div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 md:p-6">
+            {/* Header */}
+            <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold text-white">Workflows</h1>
+                    <p className="text-slate-300 mt-1">Automate emails, tasks, approvals and more</p>
+                </div>
+                <button
+                    onClick={() => setShowCreateModal(true)}
+                    className="flex items-center gap-2 px-4 py-2 bg-teal-600 hover:bg-teal-500 text-white rounded-lg transition-colors"
+                >
+                    <Plus className="w-4 h-4" />
+                    New Workflow
+                </button>
+            </div>
+
+            {workflows.length === 0 ? (
+                <div className="bg-slate-800 rounded-lg p-12 text-center">
+                    <WorkflowIcon className="w-10 h-10 text-slate-500 mx-auto mb-3" />
+                    <p className="text-slate-300">No workflows yet. Create one to start automating.</p>
+                </div>
+            ) : (
+                <div className="bg-slate-800 rounded-lg shadow-sm overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-700">
+                        <thead className="bg-slate-900">
+                            <tr>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Name</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Trigger</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Version</th>
+                                <th className="px-6 py-3 text-left text-xs font-medium text-slate-400 uppercase">Status</th>
+                                <th className="px-6 py-3 text-right text-xs font-medium text-slate-400 uppercase">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-slate-800 divide-y divide-slate-700">
+                            {workflows.map(workflow => (
+                                <tr key={workflow.id}>
+                                    <td className="px-6 py-4">
+                                        <div className="text-sm font-medium text-white">{workflow.name}</div>
+                                        {workflow.description && (
+                                            <div className="text-xs text-slate-400">{workflow.description}</div>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-slate-300">
+                                        {workflow.definition.trigger?.type === 'event'
+                                            ? workflow.definition.trigger.event
+                                            : workflow.definition.trigger?.type || 'manual'}
+                                    </td>
+                                    <td className="px-6 py-4 text-sm text-slate-300">
+                                        v{workflow.version}
+                                        {workflow.draftDefinition && (
+                                            <span className="ml-2 px-2 py-0.5 bg-amber-500/20 text-amber-300 rounded text-xs">Draft</span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <button
+                                            onClick={() => handleToggleActive(workflow)}
+                                            className={`px-2 py-1 text-xs rounded-full ${workflow.isActive ? 'bg-green-900/30 text-green-400' : 'bg-slate-700 text-slate-400'}`}
+                                        >
+                                            {workflow.isActive ? 'Active' : 'Inactive'}
+                                        </button>
+                                    </td>
+                                    <td className="px-6 py-4 text-right space-x-4">
+                                        <button
+                                            onClick={() => setViewingRuns(workflow)}
+                                            className="text-sm text-slate-300 hover:text-white"
+                                        >
+                                            Runs
+                                        </button>
+                                        <button
+                                            onClick={() => setEditing(workflow)}
+                                            className="text-sm text-teal-400 hover:text-teal-300"
+                                        >
+                                            Edit
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Create Modal */}
+            {showCreateModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <div className="bg-slate-800 rounded-lg max-w-md w-full p-6">
+                        <h2 className="text-xl font-bold text-white mb-4">New Workflow</h2>
+                        <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Name</label>
+                                <input
+                                    value={formData.name}
+                                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-lg focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-300 mb-1">Description</label>
+                                <textarea
+                                    value={formData.description}
+                                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                    rows={3}
+                                    className="w-full px-4 py-2 bg-slate-700 border border-slate-600 text-white placeholder-slate-400 rounded-lg focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                />
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-3 mt-6">
+                            <button
+                                onClick={() => setShowCreateModal(false)}
+                                className="px-4 py-2 text-slate-300 hover:text-white transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleCreate}
+                                disabled={!formData.name.trim()}
+                                className="px-4 py-2 bg-teal-600 hover:bg-teal-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                            >
+                                Create
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default WorkflowsPage;
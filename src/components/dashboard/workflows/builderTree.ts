@@ -0,0 +1,166 @@
+/**
+ * Workflow Builder Tree Helpers
+ * Immutable edits on nested step sequences for the drag-and-drop canvas
+ */
+
+import {
+    getChildSequences,
+    withChildSequence,
+    walkSteps
+} from '../../../services/workflow';
+import type { StepType, WorkflowStep } from '../../../services/workflow';
+
+// A step sequence: the root steps, or one branch of a condition/loop/approval step
+export interface SequenceRef {
+    parentId: string | null;
+    branch: string;
+}
+
+export const ROOT_SEQUENCE: SequenceRef = { parentId: null, branch: 'steps' };
+
+export function sequenceKey(ref: SequenceRef): string {
+    return ref.parentId ? `${ref.parentId}:${ref.branch}` : 'root';
+}
+
+export function parseSequenceKey(key: string): SequenceRef {
+    if (key === 'root') return ROOT_SEQUENCE;
+    const separator = key.lastIndexOf(':');
+    return { parentId: key.slice(0, separator), branch: key.slice(separator + 1) };
+}
+
+/**
+ * Get the steps of a sequence
+ */
+export function getSequence(steps: WorkflowStep[], ref: SequenceRef): WorkflowStep[] {
+    if (!ref.parentId) return steps;
+
+    const located = findStep(steps, ref.parentId);
+    return located ? getChildSequences(located.step)[ref.branch] || [] : [];
+}
+
+/**
+ * Replace the steps of a sequence
+ */
+export function setSequence(steps: WorkflowStep[], ref: SequenceRef, sequence: WorkflowStep[]): WorkflowStep[] {
+    const parentId = ref.parentId;
+    if (!parentId) return sequence;
+
+    return steps.map(step => {
+        if (step.id === parentId) {
+            return withChildSequence(step, ref.branch, sequence);
+        }
+        if (!isWithin(step, parentId)) {
+            return step;
+        }
+
+        let updated = step;
+        for (const [branch, children] of Object.entries(getChildSequences(step))) {
+            updated = withChildSequence(updated, branch, setSequence(children, ref, sequence));
+        }
+        return updated;
+    });
+}
+
+/**
+ * Find a step anywhere in the tree with the sequence it belongs to
+ */
+export function findStep(
+    steps: WorkflowStep[],
+    stepId: string,
+    ref: SequenceRef = ROOT_SEQUENCE
+): { step: WorkflowStep; ref: SequenceRef; index: number } | null {
+    for (let index = 0; index < steps.length; index++) {
+        const step = steps[index];
+        if (step.id === stepId) return { step, ref, index };
+
+        for (const [branch, children] of Object.entries(getChildSequences(step))) {
+            const found = findStep(children, stepId, { parentId: step.id, branch });
+            if (found) return found;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Replace a step in place
+ */
+export function updateStep(steps: WorkflowStep[], stepId: string, updated: WorkflowStep): WorkflowStep[] {
+    const located = findStep(steps, stepId);
+    if (!located) return steps;
+
+    const sequence = [...getSequence(steps, located.ref)];
+    sequence[located.index] = updated;
+    return setSequence(steps, located.ref, sequence);
+}
+
+/**
+ * Remove a step (and its children)
+ */
+export function removeStep(steps: WorkflowStep[], stepId: string): WorkflowStep[] {
+    const located = findStep(steps, stepId);
+    if (!located) return steps;
+
+    const sequence = getSequence(steps, located.ref).filter(step => step.id !== stepId);
+    return setSequence(steps, located.ref, sequence);
+}
+
+/**
+ * Insert a step into a sequence at an index
+ */
+export function insertStep(steps: WorkflowStep[], ref: SequenceRef, index: number, step: WorkflowStep): WorkflowStep[] {
+    const sequence = [...getSequence(steps, ref)];
+    sequence.splice(Math.min(index, sequence.length), 0, step);
+    return setSequence(steps, ref, sequence);
+}
+
+/**
+ * Move a step to an index of a sequence
+ * Moving a step into one of its own branches is ignored
+ */
+export function moveStep(steps: WorkflowStep[], stepId: string, ref: SequenceRef, index: number): WorkflowStep[] {
+    const located = findStep(steps, stepId);
+    if (!located) return steps;
+    if (ref.parentId && isWithin(located.step, ref.parentId)) return steps;
+
+    // Removing first shifts later siblings in the same sequence
+    const sameSequence = sequenceKey(located.ref) === sequenceKey(ref);
+    const targetIndex = sameSequence && located.index < index ? index - 1 : index;
+
+    return insertStep(removeStep(steps, stepId), ref, targetIndex, located.step);
+}
+
+function isWithin(step: WorkflowStep, stepId: string): boolean {
+    let found = false;
+    walkSteps([step], candidate => {
+        if (candidate.id === stepId) found = true;
+    });
+    return found;
+}
+
+const DEFAULT_CONFIGS: Record<StepType, () => Record<string, any>> = {
+    email: () => ({ to: '', subject: '', body: '' }),
+    action: () => ({ action: 'createTask', params: {} }),
+    meeting: () => ({ title: '', hostId: '', durationMinutes: 40 }),
+    wait: () => ({ duration: '1d' }),
+    condition: () => ({ condition: '', thenSteps: [], elseSteps: [] }),
+    loop: () => ({ items: '', steps: [] }),
+    ai_decision: () => ({ prompt: '', options: [] }),
+    webhook: () => ({ url: '', method: 'POST' }),
+    notification: () => ({ userId: '', title: '', type: 'system' }),
+    approval: () => ({ approvers: [], approvedSteps: [], rejectedSteps: [] }),
+    transform: () => ({ transformation: '' })
+};
+
+/**
+ * Create a new step of a type with an id not used elsewhere in the tree
+ */
+export function createStep(type: StepType, steps: WorkflowStep[]): WorkflowStep {
+    const ids = new Set<string>();
+    walkSteps(steps, step => ids.add(step.id));
+
+    let counter = 1;
+    while (ids.has(`${type}_${counter}`)) counter++;
+
+    return { id: `${type}_${counter}`, type, config: DEFAULT_CONFIGS[type]() };
+}
@@ -0,0 +1,3 @@
+export { WorkflowsPage } from './WorkflowsPage';
+export { WorkflowBuilder } from './WorkflowBuilder';
+export { WorkflowRunHistory } from './WorkflowRunHistory';
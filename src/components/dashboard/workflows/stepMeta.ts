@@ -0,0 +1,44 @@
+import {
+    Mail,
+    Zap,
+    Video,
+    Clock,
+    GitBranch,
+    Repeat,
+    Brain,
+    Globe,
+    Bell,
+    CheckCircle,
+    Shuffle
+} from 'lucide-react';
+import type { ElementType } from 'react';
+import type { StepType } from '../../../services/workflow';
+
+// Palette order and display metadata for each step type
+export const STEP_TYPES: { type: StepType; label: string; icon: ElementType; color: string }[] = [
+    { type: 'email', label: 'Send Email', icon: Mail, color: 'text-sky-400' },
+    { type: 'notification', label: 'Notify User', icon: Bell, color: 'text-amber-400' },
+    { type: 'action', label: 'Run Action', icon: Zap, color: 'text-teal-400' },
+    { type: 'meeting', label: 'Schedule Meeting', icon: Video, color: 'text-violet-400' },
+    { type: 'webhook', label: 'Call Webhook', icon: Globe, color: 'text-cyan-400' },
+    { type: 'wait', label: 'Wait', icon: Clock, color: 'text-slate-300' },
+    { type: 'condition', label: 'Condition', icon: GitBranch, color: 'text-orange-400' },
+    { type: 'loop', label: 'Loop', icon: Repeat, color: 'text-pink-400' },
+    { type: 'approval', label: 'Approval', icon: CheckCircle, color: 'text-green-400' },
+    { type: 'ai_decision', label: 'AI Decision', icon: Brain, color: 'text-fuchsia-400' },
+    { type: 'transform', label: 'Transform Data', icon: Shuffle, color: 'text-indigo-400' }
+];
+
+export function getStepMeta(type: StepType) {
+    return STEP_TYPES.find(meta => meta.type === type) || STEP_TYPES[0];
+}
+
+// Labels for the branches of condition, loop and approval steps
+export const BRANCH_LABELS: Record<string, string> = {
+    then: 'Then',
+    else: 'Else',
+    body: 'For each item',
+    approved: 'Approved',
+    rejected: 'Rejected',
+    timed_out: 'Timed out'
+};
@@ -20,7 +20,8 @@ import {
   Mail,
   Zap,
   BarChart3,
-  MapPin
+  MapPin,
+  Workflow
 } from 'lucide-react';
 import { NavItem, DashboardStat } from './types';
 
@@ -120,6 +121,7 @@ export const TENANT_ADMIN_NAV_ITEMS: NavItem[] = [
     ]
   },
   { label: 'Contracts', href: '/dashboard/business/contracts', icon: FileText },
+  { label: 'Workflows', href: '/dashboard/workflows', icon: Workflow },
   { label: 'Settings', href: '/dashboard/business/settings', icon: Settings },
 ];
 
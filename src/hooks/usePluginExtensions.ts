@@ -0,0 +1,71 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { useTenant } from '../contexts/TenantContext';
+import { getPluginUI } from '../services/plugins/ui';
+import type { PluginExtension, PluginView } from '../services/plugins/ui';
+
+/**
+ * UI contributions of the current tenant's enabled plugins
+ * Shared by the sidebar, the home widgets and plugin pages
+ */
+export function usePluginExtensions() {
+    const { currentTenant } = useTenant();
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['plugin-extensions', currentTenant?.id],
+        queryFn: async (): Promise<PluginExtension[]> => {
+            const { data, error } = await supabase
+                .from('tenant_plugins')
+                .select('id, plugin_id, version, plugins(slug, name, version, manifest, is_active, plugin_versions(version, manifest))')
+                .eq('tenant_id', currentTenant!.id)
+                .eq('is_enabled', true);
+
+            if (error) throw error;
+
+            return (data || [])
+                .filter((row: any) => row.plugins?.is_active)
+                .map((row: any) => {
+                    // UI of the release the tenant runs, which may trail the latest
+                    const release = (row.plugins.plugin_versions || []).find((r: any) => r.version === row.version);
+                    return {
+                        tenantPluginId: row.id,
+                        pluginId: row.plugin_id,
+                        slug: row.plugins.slug,
+                        name: row.plugins.name,
+                        version: row.version || row.plugins.version,
+                        latestVersion: row.plugins.version,
+                        ui: getPluginUI(release?.manifest || row.plugins.manifest)
+                    };
+                });
+        },
+        enabled: !!currentTenant,
+        staleTime: 5 * 60 * 1000,
+    });
+
+    return { extensions: data || [], isLoading };
+}
+
+/**
+ * Render a plugin UI component through the sandbox
+ */
+export function usePluginView(
+    tenantPluginId: string | undefined,
+    component: string | undefined,
+    route?: string
+) {
+    return useQuery({
+        queryKey: ['plugin-view', tenantPluginId, component, route],
+        queryFn: async (): Promise<PluginView> => {
+            const response = await fetch(`/api/plugins/${tenantPluginId}/render`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ component, route })
+            });
+            const body = await response.json();
+            if (!response.ok) throw new Error(body.error || 'Failed to render plugin view');
+            return body.view;
+        },
+        enabled: !!tenantPluginId && !!component,
+        retry: false,
+    });
+}
@@ -0,0 +1,174 @@
+import { supabase } from '../../lib/supabase';
+import { tenantService } from '../tenancy/TenantService';
+import { AccountType } from './chartOfAccountsService';
+import { AccountBalance, FinancialStatement } from './generalLedgerService';
+
+export interface AccountBudget {
+    accountId: string;
+    accountCode: string;
+    accountName: string;
+    accountType: AccountType;
+    normalBalance: 'debit' | 'credit';
+    periodStart: string;            // First day of the month
+    amount: number;
+}
+
+/**
+ * First day of the month a date falls in
+ */
+export function monthStart(date: string): string {
+    return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Budgets summed per account and laid out like a P&L, so they can be
+ * compared column by column with actuals
+ */
+export function budgetStatement(budgets: AccountBudget[]): FinancialStatement {
+    const byAccount = new Map<string, AccountBalance>();
+    budgets.forEach(budget => {
+        const existing = byAccount.get(budget.accountId);
+        if (existing) {
+            existing.balance += budget.amount;
+            return;
+        }
+        byAccount.set(budget.accountId, {
+            accountId: budget.accountId,
+            accountCode: budget.accountCode,
+            accountName: budget.accountName,
+            accountType: budget.accountType,
+            normalBalance: budget.normalBalance,
+            debitTotal: 0,
+            creditTotal: 0,
+            balance: budget.amount
+        });
+    });
+
+    const balances = [...byAccount.values()].sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+    const sum = (accounts: AccountBalance[]) => accounts.reduce((total, acc) => total + acc.balance, 0);
+
+    const revenue = balances.filter(acc => acc.accountType === 'revenue');
+    const expenses = balances.filter(acc => acc.accountType === 'expense');
+    const otherIncome = balances.filter(acc => acc.accountType === 'other_income');
+    const otherExpense = balances.filter(acc => acc.accountType === 'other_expense');
+    const totalRevenue = sum(revenue) + sum(otherIncome);
+    const totalExpenses = sum(expenses) + sum(otherExpense);
+
+    return {
+        assets: [],
+        liabilities: [],
+        equity: [],
+        revenue,
+        expenses,
+        otherIncome,
+        otherExpense,
+        totalAssets: 0,
+        totalLiabilities: 0,
+        totalEquity: 0,
+        totalRevenue,
+        totalExpenses,
+        netIncome: totalRevenue - totalExpenses,
+    };
+}
+
+export const budgetService = {
+    /**
+     * Get tenant ID (required for all operations)
+     */
+    getTenantId(): string {
+        const tenantId = tenantService.getCurrentTenantId();
+        if (!tenantId) throw new Error('No active tenant. Please select an organization.');
+        return tenantId;
+    },
+
+    /**
+     * Get the budgets of every month a period touches
+     */
+    async getBudgets(
+        startDate: string,
+        endDate: string
+    ): Promise<{ budgets: AccountBudget[]; error: string | null }> {
+        try {
+            const tenantId = this.getTenantId();
+
+            const { data, error } = await supabase
+                .from('account_budgets')
+                .select('*, account:chart_of_accounts(account_code, account_name, account_type, normal_balance)')
+                .eq('tenant_id', tenantId)
+                .gte('period_start', monthStart(startDate))
+                .lte('period_start', endDate)
+                .order('period_start', { ascending: true });
+
+            if (error) throw error;
+
+            const budgets = (data || []).map(this.mapBudget);
+
+            return { budgets, error: null };
+        } catch (err: any) {
+            console.error('Error fetching budgets:', err);
+            return { budgets: [], error: err.message };
+        }
+    },
+
+    /**
+     * Save one month's budget. Accounts left out keep their amount;
+     * a zero amount removes the account's budget for the month.
+     */
+    async saveMonthBudget(
+        periodStart: string,
+        amounts: Record<string, number>
+    ): Promise<{ error: string | null }> {
+        try {
+            const tenantId = this.getTenantId();
+            const month = monthStart(periodStart);
+
+            const entries = Object.entries(amounts);
+            const cleared = entries.filter(([, amount]) => !amount).map(([accountId]) => accountId);
+            const rows = entries
+                .filter(([, amount]) => amount)
+                .map(([accountId, amount]) => ({
+                    tenant_id: tenantId,
+                    account_id: accountId,
+                    period_start: month,
+                    amount,
+                }));
+
+            if (rows.length > 0) {
+                const { error } = await supabase
+                    .from('account_budgets')
+                    .upsert(rows, { onConflict: 'tenant_id,account_id,period_start' });
+                if (error) throw error;
+            }
+
+            if (cleared.length > 0) {
+                const { error } = await supabase
+                    .from('account_budgets')
+                    .delete()
+                    .eq('tenant_id', tenantId)
+                    .eq('period_start', month)
+                    .in('account_id', cleared);
+                if (error) throw error;
+            }
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error saving budget:', err);
+            return { error: err.message };
+        }
+    },
+
+    /**
+     * Map database record to AccountBudget interface
+     */
+    mapBudget(data: any): AccountBudget {
+        return {
+            accountId: data.account_id,
+            accountCode: data.account?.account_code || '',
+            accountName: data.account?.account_name || '',
+            accountType: data.account?.account_type,
+            normalBalance: data.account?.normal_balance || 'debit',
+            periodStart: data.period_start,
+            amount: parseFloat(data.amount || '0'),
+        };
+    },
+};
@@ -165,9 +165,12 @@ export const chartOfAccountsService = {
     /**
      * Get account by code
      */
-    async getAccountByCode(accountCode: string): Promise<{ account: ChartOfAccount | null; error: string | null }> {
+    async getAccountByCode(
+        accountCode: string,
+        forTenantId?: string
+    ): Promise<{ account: ChartOfAccount | null; error: string | null }> {
         try {
-            const tenantId = this.getTenantId();
+            const tenantId = forTenantId ?? this.getTenantId();
 
             const { data, error } = await supabase
                 .from('chart_of_accounts')
@@ -0,0 +1,57 @@
+/**
+ * Currency formatting and rounding
+ * Shared by invoices, PDFs and GL posting; safe to use in the browser
+ */
+
+export const SUPPORTED_CURRENCIES = [
+    'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY', 'CNY', 'INR',
+    'SGD', 'HKD', 'SEK', 'NOK', 'DKK', 'PLN', 'BRL', 'MXN', 'ZAR', 'KES',
+    'NGN', 'GHS', 'UGX', 'TZS', 'AED'
+];
+
+// Characters the standard PDF fonts can draw (WinAnsi); other currency
+// symbols such as ₦ or ₹ fall back to the ISO code
+const PDF_SAFE_SYMBOL = /^[\x20-\x7E\xA0-\xFF€]+$/;
+
+/**
+ * Decimal places a currency is quoted in (e.g. 2 for USD, 0 for JPY)
+ */
+export function getCurrencyDecimals(currency: string): number {
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;
+    }
+}
+
+/**
+ * Round an amount to the currency's minor unit
+ */
+export function roundMoney(amount: number, currency: string = 'USD'): number {
+    const factor = Math.pow(10, getCurrencyDecimals(currency));
+    return Math.round((amount + Number.EPSILON) * factor) / factor;
+}
+
+/**
+ * Format an amount in its currency, e.g. $1,234.50, €1,234.50 or ¥1,235
+ * With `pdf`, symbols the PDF fonts cannot draw are replaced by the code
+ */
+export function formatCurrency(
+    amount: number,
+    currency: string = 'USD',
+    options: { pdf?: boolean } = {}
+): string {
+    const code = (currency || 'USD').toUpperCase();
+    const value = Number(amount) || 0;
+
+    try {
+        const formatted = new Intl.NumberFormat('en-US', { style: 'currency', currency: code }).format(value);
+        if (!options.pdf || PDF_SAFE_SYMBOL.test(formatted)) return formatted;
+
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: code, currencyDisplay: 'code' })
+            .format(value)
+            .replace(/\u00A0/g, ' ');
+    } catch {
+        return `${code} ${value.toFixed(2)}`;
+    }
+}
@@ -0,0 +1,164 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import { roundMoney } from './currency';
+
+// Daily reference rates (European Central Bank), used when the tenant has
+// not entered a rate for the day
+const REFERENCE_RATES_URL = 'https://api.frankfurter.app';
+
+export interface ExchangeRate {
+    id: string;
+    tenantId: string;
+    baseCurrency: string;
+    quoteCurrency: string;
+    rate: number;
+    rateDate: string;
+    source: string;
+    createdAt: string;
+}
+
+export interface RealizedFx {
+    carryingAmount: number;     // Receivable at the issue rate, in base currency
+    settledAmount: number;      // Cash received at the payment rate, in base currency
+    gainLoss: number;           // Positive for a gain, negative for a loss
+}
+
+const mapRate = (row: any): ExchangeRate => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    baseCurrency: row.base_currency,
+    quoteCurrency: row.quote_currency,
+    rate: parseFloat(row.rate),
+    rateDate: row.rate_date,
+    source: row.source,
+    createdAt: row.created_at,
+});
+
+export const exchangeRateService = {
+    /**
+     * Tenant's base (reporting) currency from business settings
+     */
+    async getBaseCurrency(tenantId: string, client: SupabaseClient = supabase): Promise<string> {
+        const { data } = await client
+            .from('business_settings')
+            .select('currency')
+            .eq('tenant_id', tenantId)
+            .maybeSingle();
+
+        return (data?.currency || 'USD').toUpperCase();
+    },
+
+    /**
+     * Units of `to` per unit of `from` on a date
+     * Uses the tenant's latest rate on or before the date, then the
+     * reference rate for the date (which is stored for next time)
+     */
+    async getRate(
+        tenantId: string,
+        from: string,
+        to: string,
+        date: string = new Date().toISOString().split('T')[0],
+        client: SupabaseClient = supabase
+    ): Promise<{ rate: number; error: string | null }> {
+        const base = from.toUpperCase();
+        const quote = to.toUpperCase();
+        if (base === quote) return { rate: 1, error: null };
+
+        try {
+            const { data: stored } = await client
+                .from('exchange_rates')
+                .select('base_currency, rate')
+                .eq('tenant_id', tenantId)
+                .in('base_currency', [base, quote])
+                .in('quote_currency', [base, quote])
+                .lte('rate_date', date)
+                .order('rate_date', { ascending: false })
+                .limit(1)
+                .maybeSingle();
+
+            if (stored) {
+                const rate = parseFloat(stored.rate);
+                return { rate: stored.base_currency === base ? rate : 1 / rate, error: null };
+            }
+
+            const response = await fetch(`${REFERENCE_RATES_URL}/${date}?from=${base}&to=${quote}`);
+            const body = response.ok ? await response.json() : null;
+            const rate = body?.rates?.[quote];
+
+            if (!rate) {
+                return { rate: 0, error: `No exchange rate for ${base}/${quote} on ${date}. Add one in accounting settings.` };
+            }
+
+            await client.from('exchange_rates').upsert({
+                tenant_id: tenantId,
+                base_currency: base,
+                quote_currency: quote,
+                rate,
+                rate_date: body.date || date,
+                source: 'ecb',
+            }, { onConflict: 'tenant_id,base_currency,quote_currency,rate_date' });
+
+            return { rate, error: null };
+        } catch (err: any) {
+            console.error('Error fetching exchange rate:', err);
+            return { rate: 0, error: err.message };
+        }
+    },
+
+    /**
+     * Enter a rate manually, e.g. for currencies without reference rates
+     */
+    async setRate(
+        tenantId: string,
+        from: string,
+        to: string,
+        rate: number,
+        date: string
+    ): Promise<{ rate: ExchangeRate | null; error: string | null }> {
+        try {
+            if (!(rate > 0)) {
+                return { rate: null, error: 'Exchange rate must be greater than zero' };
+            }
+
+            const { data, error } = await supabase
+                .from('exchange_rates')
+                .upsert({
+                    tenant_id: tenantId,
+                    base_currency: from.toUpperCase(),
+                    quote_currency: to.toUpperCase(),
+                    rate,
+                    rate_date: date,
+                    source: 'manual',
+                }, { onConflict: 'tenant_id,base_currency,quote_currency,rate_date' })
+                .select()
+                .single();
+
+            if (error) throw error;
+            return { rate: mapRate(data), error: null };
+        } catch (err: any) {
+            console.error('Error saving exchange rate:', err);
+            return { rate: null, error: err.message };
+        }
+    },
+
+    /**
+     * Realized FX gain or loss on settling a foreign-currency receivable
+     * The receivable was booked at the issue rate; the cash is worth the
+     * amount at the payment rate
+     */
+    calculateRealizedFx(
+        amount: number,
+        issueRate: number,
+        paymentRate: number,
+        baseCurrency: string
+    ): RealizedFx {
+        const carryingAmount = roundMoney(amount * issueRate, baseCurrency);
+        const settledAmount = roundMoney(amount * paymentRate, baseCurrency);
+
+        return {
+            carryingAmount,
+            settledAmount,
+            gainLoss: roundMoney(settledAmount - carryingAmount, baseCurrency),
+        };
+    },
+};
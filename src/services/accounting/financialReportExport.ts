@@ -0,0 +1,306 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import * as XLSX from 'xlsx';
+import { AccountBalance, CashFlowItem, CashFlowStatement, FinancialStatement, TrialBalance } from './generalLedgerService';
+import { formatCurrency, roundMoney } from './currency';
+
+export interface ReportColumn {
+    label: string;
+    format: 'money' | 'percent';
+}
+
+/**
+ * One row of a statement. Headings have no values; a null value is left blank.
+ */
+export interface ReportLine {
+    label: string;
+    values: Array<number | null>;
+    style?: 'heading' | 'subtotal' | 'total';
+    indent?: boolean;
+}
+
+/**
+ * A statement laid out as rows and columns, shared by the comparative
+ * view on the reports page and the PDF and XLSX exports
+ */
+export interface ReportTable {
+    title: string;
+    period: string;
+    currency: string;
+    columns: ReportColumn[];
+    lines: ReportLine[];
+}
+
+/**
+ * One column of a comparative statement, e.g. "Mar 2026" or "Budget"
+ */
+export interface StatementColumn<T> {
+    label: string;
+    statement: T;
+}
+
+interface LineItem {
+    id: string;
+    code: string;
+    name: string;
+}
+
+const money = (label: string): ReportColumn => ({ label, format: 'money' });
+
+/**
+ * Every account that appears in any column, by code, with its amount in each
+ */
+function accountLines<T>(
+    columns: T[],
+    accountsOf: (column: T) => Array<LineItem & { amount: number }>
+): ReportLine[] {
+    const items = new Map<string, LineItem>();
+    columns.forEach(column => accountsOf(column).forEach(item => {
+        if (!items.has(item.id)) items.set(item.id, item);
+    }));
+
+    return [...items.values()]
+        .sort((a, b) => a.code.localeCompare(b.code))
+        .map(item => ({
+            label: item.name,
+            indent: true,
+            values: columns.map(column => accountsOf(column).find(acc => acc.id === item.id)?.amount ?? 0)
+        }));
+}
+
+const balances = (accounts: AccountBalance[]) =>
+    accounts.map(acc => ({ id: acc.accountId, code: acc.accountCode, name: acc.accountName, amount: acc.balance }));
+
+const cashItems = (items: CashFlowItem[]) =>
+    items.map(item => ({ id: item.accountId, code: item.accountCode, name: item.accountName, amount: item.amount }));
+
+/**
+ * With two columns, add the change between them and the change as a
+ * percent of the second (prior period or budget)
+ */
+function withVariance(table: ReportTable, varianceLabel: string): ReportTable {
+    if (table.columns.length !== 2) return table;
+
+    return {
+        ...table,
+        columns: [...table.columns, money(varianceLabel), { label: '%', format: 'percent' }],
+        lines: table.lines.map(line => {
+            if (line.values.length !== 2) return line;
+            const [current, comparison] = line.values as number[];
+            const change = current - comparison;
+            return {
+                ...line,
+                values: [...line.values, change, comparison ? (change / Math.abs(comparison)) * 100 : null]
+            };
+        })
+    };
+}
+
+/**
+ * Format a report value for display or PDF
+ */
+export function formatReportValue(
+    value: number | null | undefined,
+    column: ReportColumn,
+    currency: string,
+    options: { pdf?: boolean } = {}
+): string {
+    if (value === null || value === undefined) return '';
+    if (column.format === 'percent') return `${value.toFixed(1)}%`;
+    return formatCurrency(value, currency, options);
+}
+
+export function trialBalanceTable(trialBalance: TrialBalance, asOfDate: string, currency: string): ReportTable {
+    return {
+        title: 'Trial Balance',
+        period: `As of ${asOfDate}`,
+        currency,
+        columns: [money('Debit'), money('Credit')],
+        lines: [
+            ...trialBalance.accounts.map(acc => ({
+                label: `${acc.accountCode} ${acc.accountName}`,
+                values: [acc.debitBalance || null, acc.creditBalance || null]
+            })),
+            { label: 'Totals', style: 'total' as const, values: [trialBalance.totalDebits, trialBalance.totalCredits] }
+        ]
+    };
+}
+
+export function balanceSheetTable(
+    columns: StatementColumn<FinancialStatement>[],
+    period: string,
+    currency: string
+): ReportTable {
+    const statements = columns.map(column => column.statement);
+    const totals = (pick: (statement: FinancialStatement) => number) => statements.map(pick);
+
+    return withVariance({
+        title: 'Balance Sheet',
+        period,
+        currency,
+        columns: columns.map(column => money(column.label)),
+        lines: [
+            { label: 'Assets', style: 'heading', values: [] },
+            ...accountLines(statements, s => balances(s.assets)),
+            { label: 'Total Assets', style: 'total', values: totals(s => s.totalAssets) },
+            { label: 'Liabilities', style: 'heading', values: [] },
+            ...accountLines(statements, s => balances(s.liabilities)),
+            { label: 'Total Liabilities', style: 'subtotal', values: totals(s => s.totalLiabilities) },
+            { label: 'Equity', style: 'heading', values: [] },
+            ...accountLines(statements, s => balances(s.equity)),
+            { label: 'Net Income (Current Period)', indent: true, values: totals(s => s.netIncome) },
+            { label: 'Total Equity', style: 'subtotal', values: totals(s => s.totalEquity) },
+            { label: 'Total Liabilities & Equity', style: 'total', values: totals(s => s.totalLiabilities + s.totalEquity) }
+        ]
+    }, 'Change');
+}
+
+export function profitLossTable(
+    columns: StatementColumn<FinancialStatement>[],
+    period: string,
+    currency: string,
+    varianceLabel = 'Change'
+): ReportTable {
+    const statements = columns.map(column => column.statement);
+    const totals = (pick: (statement: FinancialStatement) => number) => statements.map(pick);
+
+    return withVariance({
+        title: 'Profit & Loss Statement',
+        period,
+        currency,
+        columns: columns.map(column => money(column.label)),
+        lines: [
+            { label: 'Revenue', style: 'heading', values: [] },
+            ...accountLines(statements, s => balances(s.revenue)),
+            ...accountLines(statements, s => balances(s.otherIncome)),
+            { label: 'Total Revenue', style: 'subtotal', values: totals(s => s.totalRevenue) },
+            { label: 'Expenses', style: 'heading', values: [] },
+            ...accountLines(statements, s => balances(s.expenses)),
+            ...accountLines(statements, s => balances(s.otherExpense)),
+            { label: 'Total Expenses', style: 'subtotal', values: totals(s => s.totalExpenses) },
+            { label: 'Net Income', style: 'total', values: totals(s => s.netIncome) }
+        ]
+    }, varianceLabel);
+}
+
+export function cashFlowTable(
+    columns: StatementColumn<CashFlowStatement>[],
+    period: string,
+    currency: string
+): ReportTable {
+    const statements = columns.map(column => column.statement);
+    const totals = (pick: (statement: CashFlowStatement) => number) => statements.map(pick);
+    const hasNonCash = statements.some(s => s.nonCashAdjustments.length > 0);
+    const hasWorkingCapital = statements.some(s => s.workingCapitalChanges.length > 0);
+
+    return withVariance({
+        title: 'Cash Flow Statement',
+        period,
+        currency,
+        columns: columns.map(column => money(column.label)),
+        lines: [
+            { label: 'Operating Activities', style: 'heading', values: [] },
+            { label: 'Net Income', indent: true, values: totals(s => s.netIncome) },
+            ...(hasNonCash ? [
+                { label: 'Adjustments for non-cash items', values: [] },
+                ...accountLines(statements, s => cashItems(s.nonCashAdjustments))
+            ] : []),
+            ...(hasWorkingCapital ? [
+                { label: 'Changes in working capital', values: [] },
+                ...accountLines(statements, s => cashItems(s.workingCapitalChanges))
+            ] : []),
+            { label: 'Net Cash from Operating Activities', style: 'subtotal', values: totals(s => s.netOperating) },
+            { label: 'Investing Activities', style: 'heading', values: [] },
+            ...accountLines(statements, s => cashItems(s.investing)),
+            { label: 'Net Cash from Investing Activities', style: 'subtotal', values: totals(s => s.netInvesting) },
+            { label: 'Financing Activities', style: 'heading', values: [] },
+            ...accountLines(statements, s => cashItems(s.financing)),
+            { label: 'Net Cash from Financing Activities', style: 'subtotal', values: totals(s => s.netFinancing) },
+            { label: 'Net Change in Cash', style: 'total', values: totals(s => s.netChangeInCash) },
+            { label: 'Cash at Beginning of Period', values: totals(s => s.openingCash) },
+            { label: 'Cash at End of Period', style: 'total', values: totals(s => s.closingCash) }
+        ]
+    }, 'Change');
+}
+
+/**
+ * File name for an exported report, e.g. profit-loss-statement-2026-01-01-to-2026-03-31
+ */
+export function reportFileName(table: ReportTable): string {
+    return `${table.title} ${table.period}`
+        .toLowerCase()
+        .replace(/&/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+}
+
+/**
+ * Generate a PDF of a report table
+ */
+export function generateReportPDF(table: ReportTable, companyName?: string): jsPDF {
+    const doc = new jsPDF();
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text(table.title, 14, 20);
+
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(100);
+    doc.text([companyName, table.period].filter(Boolean).join(' · '), 14, 27);
+
+    autoTable(doc, {
+        startY: 34,
+        theme: 'plain',
+        head: [['', ...table.columns.map(column => column.label)]],
+        body: table.lines.map(line => [
+            `${line.indent ? '    ' : ''}${line.label}`,
+            ...table.columns.map((column, i) => formatReportValue(line.values[i], column, table.currency, { pdf: true }))
+        ]),
+        headStyles: { fillColor: [20, 184, 166], textColor: 255, halign: 'right' }, // Teal-500
+        styles: { fontSize: 9, cellPadding: 1.5 },
+        columnStyles: { 0: { halign: 'left' } },
+        didParseCell: (data) => {
+            if (data.section === 'head' && data.column.index === 0) data.cell.styles.halign = 'left';
+            if (data.section !== 'body') return;
+
+            const line = table.lines[data.row.index];
+            if (data.column.index > 0) data.cell.styles.halign = 'right';
+            if (line.style) data.cell.styles.fontStyle = 'bold';
+            if (line.style === 'heading') data.cell.styles.fillColor = [241, 245, 249]; // slate-100
+            if (line.style === 'total') data.cell.styles.lineWidth = { top: 0.3 };
+        }
+    });
+
+    return doc;
+}
+
+/**
+ * Generate a workbook of a report table. Amounts are left as numbers so
+ * the sheet can be summed and charted.
+ */
+export function generateReportWorkbook(table: ReportTable): XLSX.WorkBook {
+    const rows: Array<Array<string | number | null>> = [
+        [table.title],
+        [table.period],
+        [`Amounts in ${table.currency}`],
+        [],
+        ['', ...table.columns.map(column => column.label)],
+        ...table.lines.map(line => [
+            `${line.indent ? '  ' : ''}${line.label}`,
+            ...table.columns.map((column, i) => {
+                const value = line.values[i];
+                if (value === null || value === undefined) return null;
+                return column.format === 'percent' ? Math.round(value * 10) / 10 : roundMoney(value, table.currency);
+            })
+        ])
+    ];
+
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    worksheet['!cols'] = [{ wch: 40 }, ...table.columns.map(() => ({ wch: 16 }))];
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, table.title.replace(/[^A-Za-z0-9 ]/g, '').slice(0, 31));
+
+    return workbook;
+}
@@ -1,6 +1,6 @@
 import { supabase } from '../../lib/supabase';
 import { tenantService } from '../tenancy/TenantService';
-import { AccountType } from './chartOfAccountsService';
+import { AccountType, AccountSubtype } from './chartOfAccountsService';
 import { cacheService } from '../cacheService';
 
 export interface GeneralLedgerEntry {
@@ -30,6 +30,7 @@ export interface AccountBalance {
     accountCode: string;
     accountName: string;
     accountType: AccountType;
+    accountSubtype?: AccountSubtype;
     normalBalance: 'debit' | 'credit';
     debitTotal: number;
     creditTotal: number;
@@ -65,6 +66,172 @@ export interface FinancialStatement {
     netIncome: number;
 }
 
+export interface CashFlowItem {
+    accountId: string;
+    accountCode: string;
+    accountName: string;
+    amount: number;                 // Positive when the account's movement brought cash in
+}
+
+/**
+ * Cash flow statement by the indirect method: net income adjusted for
+ * non-cash items and working capital, then investing and financing
+ */
+export interface CashFlowStatement {
+    netIncome: number;
+    nonCashAdjustments: CashFlowItem[];
+    workingCapitalChanges: CashFlowItem[];
+    investing: CashFlowItem[];
+    financing: CashFlowItem[];
+    netOperating: number;
+    netInvesting: number;
+    netFinancing: number;
+    netChangeInCash: number;
+    openingCash: number;
+    closingCash: number;
+}
+
+export type ComparisonMode = 'none' | 'prior_period' | 'prior_year' | 'budget';
+
+const toDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const toISODate = (date: Date) => date.toISOString().split('T')[0];
+
+const isMonthEnd = (value: string) => {
+    const date = toDate(value);
+    date.setUTCDate(date.getUTCDate() + 1);
+    return date.getUTCDate() === 1;
+};
+
+/**
+ * Move a date by whole months, keeping month ends on month ends
+ * (Feb 29 to Feb 28, Apr 30 to Mar 31)
+ */
+export function shiftMonths(value: string, months: number): string {
+    const date = toDate(value);
+    const monthEnd = isMonthEnd(value);
+    const day = date.getUTCDate();
+
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(monthEnd ? lastDay : Math.min(day, lastDay));
+
+    return toISODate(date);
+}
+
+/**
+ * The period a report is compared against. Periods of whole months step
+ * back by their number of months (March against February, Q2 against
+ * Q1); any other range steps back by its length in days.
+ */
+export function comparisonRange(
+    startDate: string,
+    endDate: string,
+    mode: 'prior_period' | 'prior_year'
+): { startDate: string; endDate: string } {
+    if (mode === 'prior_year') {
+        return { startDate: shiftMonths(startDate, -12), endDate: shiftMonths(endDate, -12) };
+    }
+
+    const start = toDate(startDate);
+    const end = toDate(endDate);
+
+    if (start.getUTCDate() === 1 && isMonthEnd(endDate)) {
+        const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+        return { startDate: shiftMonths(startDate, -months), endDate: shiftMonths(endDate, -months) };
+    }
+
+    const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+    const priorEnd = new Date(start);
+    priorEnd.setUTCDate(priorEnd.getUTCDate() - 1);
+    const priorStart = new Date(start);
+    priorStart.setUTCDate(priorStart.getUTCDate() - days);
+
+    return { startDate: toISODate(priorStart), endDate: toISODate(priorEnd) };
+}
+
+/**
+ * The date a point-in-time report (balance sheet) is compared against
+ */
+export function comparisonDate(asOfDate: string, mode: 'prior_period' | 'prior_year'): string {
+    return shiftMonths(asOfDate, mode === 'prior_year' ? -12 : -1);
+}
+
+/**
+ * Cash and bank accounts are the 10xx assets (1000 Cash in the default chart)
+ */
+export function isCashAccount(account: Pick<AccountBalance, 'accountType' | 'accountCode'>): boolean {
+    return account.accountType === 'asset' && /^10\d\d$/.test(account.accountCode);
+}
+
+/**
+ * Lay out a cash flow statement (indirect method) from each account's
+ * movement over the period and its balance at the end of it
+ * - Contra assets (accumulated depreciation) are added back as non-cash
+ * - Other current assets and current liabilities are working capital
+ * - Fixed and other assets are investing
+ * - Long-term liabilities and equity are financing
+ */
+export function buildCashFlowStatement(movements: AccountBalance[], closing: AccountBalance[]): CashFlowStatement {
+    const sum = (accounts: AccountBalance[]) => accounts.reduce((total, acc) => total + acc.balance, 0);
+    const byType = (type: AccountType) => movements.filter(acc => acc.accountType === type);
+
+    const netIncome = sum(byType('revenue')) + sum(byType('other_income')) -
+        sum(byType('expense')) - sum(byType('other_expense'));
+
+    const nonCashAdjustments: CashFlowItem[] = [];
+    const workingCapitalChanges: CashFlowItem[] = [];
+    const investing: CashFlowItem[] = [];
+    const financing: CashFlowItem[] = [];
+
+    movements
+        .filter(acc => ['asset', 'liability', 'equity'].includes(acc.accountType))
+        .filter(acc => !isCashAccount(acc) && Math.abs(acc.balance) >= 0.005)
+        .forEach(acc => {
+            // A credit-balance account growing brings cash in; a debit-balance one uses it
+            const item: CashFlowItem = {
+                accountId: acc.accountId,
+                accountCode: acc.accountCode,
+                accountName: acc.accountName,
+                amount: acc.normalBalance === 'credit' ? acc.balance : -acc.balance
+            };
+
+            if (acc.accountType === 'asset') {
+                if (acc.accountSubtype === 'fixed_asset' || acc.accountSubtype === 'other_asset') {
+                    (acc.normalBalance === 'credit' ? nonCashAdjustments : investing).push(item);
+                } else {
+                    workingCapitalChanges.push(item);
+                }
+            } else if (acc.accountType === 'liability') {
+                (acc.accountSubtype === 'long_term_liability' ? financing : workingCapitalChanges).push(item);
+            } else {
+                financing.push(item);
+            }
+        });
+
+    const total = (items: CashFlowItem[]) => items.reduce((acc, item) => acc + item.amount, 0);
+    const netOperating = netIncome + total(nonCashAdjustments) + total(workingCapitalChanges);
+    const netInvesting = total(investing);
+    const netFinancing = total(financing);
+
+    const closingCash = sum(closing.filter(isCashAccount));
+    const openingCash = closingCash - sum(movements.filter(isCashAccount));
+
+    return {
+        netIncome,
+        nonCashAdjustments,
+        workingCapitalChanges,
+        investing,
+        financing,
+        netOperating,
+        netInvesting,
+        netFinancing,
+        netChangeInCash: netOperating + netInvesting + netFinancing,
+        openingCash,
+        closingCash,
+    };
+}
+
 export const generalLedgerService = {
     /**
      * Get tenant ID (required for all operations)
@@ -263,16 +430,7 @@ export const generalLedgerService = {
                     if (error) throw error;
 
                     // Map to AccountBalance interface
-                    const balances: AccountBalance[] = (accountBalances || []).map((acc: any) => ({
-                        accountId: acc.account_id,
-                        accountCode: acc.account_code,
-                        accountName: acc.account_name,
-                        accountType: acc.account_type,
-                        normalBalance: acc.normal_balance,
-                        debitTotal: acc.debit_total,
-                        creditTotal: acc.credit_total,
-                        balance: acc.balance
-                    }));
+                    const balances: AccountBalance[] = (accountBalances || []).map((acc: any) => this.mapAccountBalance(acc));
 
                     // Group by account type
                     const assets = balances.filter(acc => acc.accountType === 'asset');
@@ -340,16 +498,7 @@ export const generalLedgerService = {
             if (error) throw error;
 
             // Map to AccountBalance interface
-            const balances: AccountBalance[] = (accountBalances || []).map((acc: any) => ({
-                accountId: acc.account_id,
-                accountCode: acc.account_code,
-                accountName: acc.account_name,
-                accountType: acc.account_type,
-                normalBalance: acc.normal_balance,
-                debitTotal: acc.debit_total,
-                creditTotal: acc.credit_total,
-                balance: acc.balance
-            }));
+            const balances: AccountBalance[] = (accountBalances || []).map((acc: any) => this.mapAccountBalance(acc));
 
             // Group by type
             const revenue = balances.filter(acc => acc.accountType === 'revenue');
@@ -386,6 +535,56 @@ export const generalLedgerService = {
         }
     },
 
+    /**
+     * Get cash flow statement data (indirect method)
+     * Starts from net income and works back to the change in cash from
+     * each balance sheet account's movement over the period
+     */
+    async getCashFlowData(
+        startDate: string,
+        endDate: string
+    ): Promise<{ statement: CashFlowStatement | null; error: string | null }> {
+        try {
+            const tenantId = this.getTenantId();
+
+            const [movementResult, closingResult, accountsResult] = await Promise.all([
+                supabase.rpc('get_account_balances', {
+                    p_tenant_id: tenantId,
+                    p_start_date: startDate,
+                    p_end_date: endDate
+                }),
+                supabase.rpc('get_account_balances', {
+                    p_tenant_id: tenantId,
+                    p_start_date: null,
+                    p_end_date: endDate
+                }),
+                supabase
+                    .from('chart_of_accounts')
+                    .select('id, account_subtype')
+                    .eq('tenant_id', tenantId)
+            ]);
+
+            if (movementResult.error) throw movementResult.error;
+            if (closingResult.error) throw closingResult.error;
+            if (accountsResult.error) throw accountsResult.error;
+
+            // The balances RPC has no subtype, so it comes from the chart
+            const subtypes = new Map<string, AccountSubtype>(
+                (accountsResult.data || []).map((acc: any) => [acc.id, acc.account_subtype])
+            );
+            const movements: AccountBalance[] = (movementResult.data || []).map((acc: any) => ({
+                ...this.mapAccountBalance(acc),
+                accountSubtype: subtypes.get(acc.account_id)
+            }));
+            const closing: AccountBalance[] = (closingResult.data || []).map((acc: any) => this.mapAccountBalance(acc));
+
+            return { statement: buildCashFlowStatement(movements, closing), error: null };
+        } catch (err: any) {
+            console.error('Error calculating cash flow:', err);
+            return { statement: null, error: err.message };
+        }
+    },
+
     /**
      * Refresh general ledger materialized view
      */
@@ -402,6 +601,22 @@ export const generalLedgerService = {
         }
     },
 
+    /**
+     * Map get_account_balances row to AccountBalance interface
+     */
+    mapAccountBalance(data: any): AccountBalance {
+        return {
+            accountId: data.account_id,
+            accountCode: data.account_code,
+            accountName: data.account_name,
+            accountType: data.account_type,
+            normalBalance: data.normal_balance,
+            debitTotal: data.debit_total,
+            creditTotal: data.credit_total,
+            balance: data.balance
+        };
+    },
+
     /**
      * Map database record to GeneralLedgerEntry interface
      */
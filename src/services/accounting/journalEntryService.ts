@@ -58,7 +58,9 @@ export interface CreateJournalEntryInput {
     reference?: string;
     sourceType?: string;
     sourceId?: string;
-    currency?: string;
+    currency?: string;      // Transaction currency; amounts are in the base currency
+    exchangeRate?: number;  // Transaction currency to base currency
+    tenantId?: string;      // Defaults to the current tenant
     lines: Array<{
         accountId?: string;
         accountCode?: string; // Alternative to accountId
@@ -178,7 +180,7 @@ export const journalEntryService = {
      */
     async createEntry(input: CreateJournalEntryInput): Promise<{ entry: JournalEntryWithLines | null; error: string | null }> {
         try {
-            const tenantId = this.getTenantId();
+            const tenantId = input.tenantId ?? this.getTenantId();
             const { data: userData } = await supabase.auth.getUser();
 
             // Validate lines
@@ -248,6 +250,7 @@ export const journalEntryService = {
                     total_debits: totalDebits,
                     total_credits: totalCredits,
                     currency: input.currency || 'USD',
+                    exchange_rate: input.exchangeRate || 1,
                     created_by: userData.user?.id,
                 })
                 .select()
@@ -294,6 +297,7 @@ export const journalEntryService = {
                         entity_type: line.entityType,
                         entity_id: line.entityId,
                         currency: input.currency || 'USD',
+                        exchange_rate: input.exchangeRate || 1,
                     }))
                 )
                 .select(`
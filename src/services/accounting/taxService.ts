@@ -0,0 +1,507 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../../lib/supabase';
+import type { InvoiceLineItem } from '../businessInvoiceService';
+import type { TaxCategory } from '../productCatalogService';
+import { roundMoney } from './currency';
+
+export interface TaxComponent {
+    name: string;                   // e.g. VAT, State, County
+    rate: number;                   // Percent
+    isCompound: boolean;            // Charged on the line plus the components before it
+    accountId?: string;             // Sales Tax Payable (2200) when not set
+}
+
+export interface TaxRate {
+    id: string;
+    tenantId: string;
+    code: string;
+    name: string;
+    components: TaxComponent[];
+    taxCategory: TaxCategory;       // Catalog products of this category get this code
+    isDefault: boolean;             // The code for its category
+    isActive: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type TaxRateInput = Omit<TaxRate, 'id' | 'tenantId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Tax charged for one component of a rate, as kept on invoices and credit notes
+ */
+export interface TaxLine {
+    taxRateId: string;
+    code: string;
+    component: string;
+    rate: number;
+    isCompound: boolean;
+    accountId?: string;
+    taxableAmount: number;
+    taxAmount: number;
+}
+
+export interface TaxCalculation<T extends InvoiceLineItem = InvoiceLineItem> {
+    lineItems: T[];                 // With each line's taxAmount
+    subtotal: number;
+    discountAmount: number;
+    tax: number;
+    total: number;
+    taxRate: number;                // Effective percent, for display
+    taxLines: TaxLine[];
+    exemptAmount: number;           // Net of lines that carried no tax
+}
+
+export interface TaxSummaryRow {
+    code: string;
+    component: string;
+    rate: number;
+    accountId?: string;
+    taxableAmount: number;
+    invoicedTax: number;
+    creditedTax: number;
+    taxAmount: number;              // Invoiced less credited
+}
+
+export interface TaxSummary {
+    startDate: string;
+    endDate: string;
+    currency: string;               // The tenant's base currency
+    netSales: number;               // Invoiced less credited, excluding tax
+    exemptSales: number;
+    totalTax: number;
+    rows: TaxSummaryRow[];
+}
+
+type RateDefinition = Pick<TaxRate, 'id' | 'code' | 'components'>;
+
+const mapTaxRate = (row: any): TaxRate => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    code: row.code,
+    name: row.name,
+    components: (row.components || []).map((c: any) => ({
+        name: c.name,
+        rate: parseFloat(c.rate),
+        isCompound: c.isCompound || false,
+        accountId: c.accountId || undefined,
+    })),
+    taxCategory: row.tax_category,
+    isDefault: row.is_default,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+const toRow = (input: Partial<TaxRateInput>): Record<string, any> => {
+    const row: Record<string, any> = {};
+    if (input.code !== undefined) row.code = input.code.trim().toUpperCase();
+    if (input.name !== undefined) row.name = input.name.trim();
+    if (input.components !== undefined) {
+        row.components = input.components.map(c => ({
+            name: c.name.trim(),
+            rate: c.rate,
+            isCompound: c.isCompound,
+            accountId: c.accountId || null,
+        }));
+    }
+    if (input.taxCategory !== undefined) row.tax_category = input.taxCategory;
+    if (input.isDefault !== undefined) row.is_default = input.isDefault;
+    if (input.isActive !== undefined) row.is_active = input.isActive;
+    return row;
+};
+
+const validateTaxRate = (input: Partial<TaxRateInput>): string | null => {
+    if (input.code !== undefined && !input.code.trim()) return 'Code is required';
+    if (input.name !== undefined && !input.name.trim()) return 'Name is required';
+    if (input.components !== undefined) {
+        if (input.components.length === 0) return 'Add at least one component';
+        if (input.components.some(c => !c.name.trim())) return 'Every component needs a name';
+        if (input.components.some(c => !(c.rate >= 0 && c.rate <= 100))) return 'Rates must be between 0 and 100';
+    }
+    return null;
+};
+
+const componentTaxes = (components: TaxComponent[], base: number): number[] => {
+    const taxes: number[] = [];
+    for (const component of components) {
+        const previous = taxes.reduce((sum, value) => sum + value, 0);
+        taxes.push((component.isCompound ? base + previous : base) * component.rate / 100);
+    }
+    return taxes;
+};
+
+/**
+ * Tax an invoice's lines with their tax codes
+ * The discount is spread over the lines in proportion before tax. With
+ * inclusive pricing the line amounts already contain the tax, which is
+ * backed out of them; otherwise it is added on top. An exempt client, or a
+ * line without a code, is charged no tax.
+ */
+export function calculateTax<T extends InvoiceLineItem>(
+    lineItems: T[],
+    rates: RateDefinition[],
+    options: { discountAmount?: number; pricesIncludeTax?: boolean; exempt?: boolean; currency: string }
+): TaxCalculation<T> {
+    const { currency } = options;
+    const subtotal = roundMoney(lineItems.reduce((sum, line) => sum + (Number(line.amount) || 0), 0), currency);
+    const discountAmount = roundMoney(options.discountAmount || 0, currency);
+    const taxLines = new Map<string, TaxLine>();
+    let exemptAmount = 0;
+
+    const taxedLines = lineItems.map(line => {
+        const amount = Number(line.amount) || 0;
+        const net = subtotal !== 0 ? amount - discountAmount * amount / subtotal : amount;
+        const rate = !options.exempt && line.taxRateId ? rates.find(r => r.id === line.taxRateId) : undefined;
+
+        if (!rate || rate.components.length === 0) {
+            exemptAmount += net;
+            return { ...line, taxAmount: 0 };
+        }
+
+        const base = options.pricesIncludeTax
+            ? net / (1 + componentTaxes(rate.components, 1).reduce((sum, value) => sum + value, 0))
+            : net;
+        const taxes = componentTaxes(rate.components, base).map(value => roundMoney(value, currency));
+
+        rate.components.forEach((component, index) => {
+            const key = `${rate.id}:${index}`;
+            const taxable = component.isCompound ? base + taxes.slice(0, index).reduce((sum, value) => sum + value, 0) : base;
+            const existing = taxLines.get(key) || {
+                taxRateId: rate.id,
+                code: rate.code,
+                component: component.name,
+                rate: component.rate,
+                isCompound: component.isCompound,
+                ...(component.accountId && { accountId: component.accountId }),
+                taxableAmount: 0,
+                taxAmount: 0,
+            };
+            existing.taxableAmount = roundMoney(existing.taxableAmount + taxable, currency);
+            existing.taxAmount = roundMoney(existing.taxAmount + taxes[index], currency);
+            taxLines.set(key, existing);
+        });
+
+        return { ...line, taxAmount: roundMoney(taxes.reduce((sum, value) => sum + value, 0), currency) };
+    });
+
+    const tax = roundMoney(Array.from(taxLines.values()).reduce((sum, line) => sum + line.taxAmount, 0), currency);
+    const total = roundMoney(subtotal - discountAmount + (options.pricesIncludeTax ? 0 : tax), currency);
+    const netSales = total - tax;
+
+    return {
+        lineItems: taxedLines,
+        subtotal,
+        discountAmount,
+        tax,
+        total,
+        taxRate: netSales > 0 ? Math.round((tax / netSales) * 10000) / 100 : 0,
+        taxLines: Array.from(taxLines.values()),
+        exemptAmount: roundMoney(exemptAmount, currency),
+    };
+}
+
+/**
+ * The tax lines of an invoice or credit note. Those issued before tax codes
+ * were kept get one line at their flat rate, posted to Sales Tax Payable.
+ */
+export function getTaxLines(document: any): TaxLine[] {
+    const taxLines: TaxLine[] = document.tax_lines || document.taxLines || [];
+    if (taxLines.length > 0) return taxLines;
+
+    const tax = parseFloat(document.tax || 0);
+    if (!(tax !== 0)) return [];
+
+    const rate = parseFloat(document.tax_rate ?? document.taxRate ?? 0);
+    const subtotal = parseFloat(document.subtotal || 0);
+    const discount = parseFloat(document.discount_amount ?? document.discountAmount ?? 0);
+    return [{
+        taxRateId: '',
+        code: 'TAX',
+        component: 'Tax',
+        rate,
+        isCompound: false,
+        taxableAmount: subtotal - discount,
+        taxAmount: tax,
+    }];
+}
+
+/**
+ * Rate definitions as they were when the tax lines were charged, so a
+ * document can be re-taxed (e.g. credited) without today's rates
+ */
+export function ratesFromTaxLines(taxLines: TaxLine[]): RateDefinition[] {
+    const rates = new Map<string, RateDefinition>();
+    for (const line of taxLines) {
+        const rate = rates.get(line.taxRateId) || { id: line.taxRateId, code: line.code, components: [] };
+        rate.components.push({
+            name: line.component,
+            rate: line.rate,
+            isCompound: line.isCompound,
+            ...(line.accountId && { accountId: line.accountId }),
+        });
+        rates.set(line.taxRateId, rate);
+    }
+    return Array.from(rates.values());
+}
+
+/**
+ * Scale tax lines to a part of the document, e.g. a partial refund
+ */
+export function prorateTaxLines(taxLines: TaxLine[], fraction: number, currency: string): TaxLine[] {
+    return taxLines.map(line => ({
+        ...line,
+        taxableAmount: roundMoney(line.taxableAmount * fraction, currency),
+        taxAmount: roundMoney(line.taxAmount * fraction, currency),
+    }));
+}
+
+/**
+ * Tax lines less those already credited, so a final credit note takes
+ * exactly what is left on each component
+ */
+export function subtractTaxLines(taxLines: TaxLine[], credited: TaxLine[][], currency: string): TaxLine[] {
+    return taxLines.map(line => {
+        const previous = credited.flat().filter(c => c.taxRateId === line.taxRateId && c.component === line.component);
+        return {
+            ...line,
+            taxableAmount: roundMoney(line.taxableAmount - previous.reduce((sum, c) => sum + c.taxableAmount, 0), currency),
+            taxAmount: roundMoney(line.taxAmount - previous.reduce((sum, c) => sum + c.taxAmount, 0), currency),
+        };
+    });
+}
+
+/**
+ * Journal lines for tax, in the base currency at the document's rate;
+ * those without an account go to Sales Tax Payable (2200)
+ */
+export function taxPostings(
+    taxLines: TaxLine[],
+    exchangeRate: number,
+    baseCurrency: string
+): { accountId?: string; label: string; amount: number }[] {
+    return taxLines
+        .map(line => ({
+            accountId: line.accountId,
+            label: line.taxRateId ? `${line.code} ${line.component}` : 'Sales tax',
+            amount: roundMoney(line.taxAmount * exchangeRate, baseCurrency),
+        }))
+        .filter(posting => posting.amount !== 0);
+}
+
+/**
+ * The code catalog products of a tax category are given, if any
+ */
+export function defaultTaxRateId(rates: TaxRate[], category: TaxCategory): string | undefined {
+    const candidates = rates.filter(rate => rate.isActive && rate.taxCategory === category);
+    return (candidates.find(rate => rate.isDefault) || candidates[0])?.id;
+}
+
+/**
+ * Combined percent of a rate on a net amount, compounding included
+ */
+export function effectiveRate(rate: Pick<TaxRate, 'components'>): number {
+    return Math.round(componentTaxes(rate.components, 100).reduce((sum, value) => sum + value, 0) * 10000) / 10000;
+}
+
+export const taxService = {
+    /**
+     * Get the tenant's tax rates
+     */
+    async getTaxRates(
+        tenantId: string,
+        options?: { activeOnly?: boolean },
+        client: SupabaseClient = supabase
+    ): Promise<{ rates: TaxRate[]; error: string | null }> {
+        try {
+            let query = client
+                .from('tax_rates')
+                .select('*')
+                .eq('tenant_id', tenantId);
+
+            if (options?.activeOnly) query = query.eq('is_active', true);
+
+            const { data, error } = await query.order('code', { ascending: true });
+
+            if (error) throw error;
+
+            return { rates: (data || []).map(mapTaxRate), error: null };
+        } catch (err: any) {
+            console.error('Error fetching tax rates:', err);
+            return { rates: [], error: err.message };
+        }
+    },
+
+    /**
+     * Add a tax rate
+     */
+    async createTaxRate(tenantId: string, input: TaxRateInput): Promise<{ rate: TaxRate | null; error: string | null }> {
+        const validationError = validateTaxRate(input);
+        if (validationError) return { rate: null, error: validationError };
+
+        try {
+            const { data, error } = await supabase
+                .from('tax_rates')
+                .insert({ tenant_id: tenantId, ...toRow(input) })
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') return { rate: null, error: `Tax code ${input.code} already exists` };
+                throw error;
+            }
+
+            const rate = mapTaxRate(data);
+            if (rate.isDefault) await this.clearOtherDefaults(rate);
+
+            return { rate, error: null };
+        } catch (err: any) {
+            console.error('Error creating tax rate:', err);
+            return { rate: null, error: err.message };
+        }
+    },
+
+    /**
+     * Update a tax rate
+     * Issued invoices keep the rates they were charged at
+     */
+    async updateTaxRate(
+        rateId: string,
+        updates: Partial<TaxRateInput>
+    ): Promise<{ rate: TaxRate | null; error: string | null }> {
+        const validationError = validateTaxRate(updates);
+        if (validationError) return { rate: null, error: validationError };
+
+        try {
+            const { data, error } = await supabase
+                .from('tax_rates')
+                .update(toRow(updates))
+                .eq('id', rateId)
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') return { rate: null, error: `Tax code ${updates.code} already exists` };
+                throw error;
+            }
+
+            const rate = mapTaxRate(data);
+            if (rate.isDefault) await this.clearOtherDefaults(rate);
+
+            return { rate, error: null };
+        } catch (err: any) {
+            console.error('Error updating tax rate:', err);
+            return { rate: null, error: err.message };
+        }
+    },
+
+    /**
+     * Keep one default code per tax category
+     */
+    async clearOtherDefaults(rate: TaxRate): Promise<void> {
+        await supabase
+            .from('tax_rates')
+            .update({ is_default: false })
+            .eq('tenant_id', rate.tenantId)
+            .eq('tax_category', rate.taxCategory)
+            .neq('id', rate.id);
+    },
+
+    /**
+     * Tax charged and credited in a period, per rate component, in the
+     * base currency at each document's issue rate. Drafts and invoices
+     * voided without a credit note are left out.
+     */
+    async getTaxSummary(
+        tenantId: string,
+        baseCurrency: string,
+        startDate: string,
+        endDate: string
+    ): Promise<{ summary: TaxSummary | null; error: string | null }> {
+        try {
+            const [{ data: invoices, error: invoiceError }, { data: creditNotes, error: creditError }] = await Promise.all([
+                supabase
+                    .from('business_invoices')
+                    .select('status, total, tax, tax_rate, subtotal, discount_amount, tax_lines, exempt_amount, exchange_rate, amount_credited')
+                    .eq('tenant_id', tenantId)
+                    .neq('status', 'draft')
+                    .gte('issue_date', startDate)
+                    .lte('issue_date', endDate),
+                supabase
+                    .from('credit_notes')
+                    .select('total, tax, tax_rate, subtotal, discount_amount, tax_lines, exempt_amount, exchange_rate, invoice:business_invoices(status, total, amount_credited)')
+                    .eq('tenant_id', tenantId)
+                    .gte('issue_date', startDate)
+                    .lte('issue_date', endDate),
+            ]);
+
+            if (invoiceError) throw invoiceError;
+            if (creditError) throw creditError;
+
+            // An invoice credited in full is voided but was still a sale, and
+            // its credit notes take the tax back out; one voided outright
+            // never counted, so neither do any credit notes against it
+            const isReported = (invoice: any) => {
+                if (invoice.status === 'draft') return false;
+                if (invoice.status !== 'void') return true;
+                const credited = parseFloat(invoice.amount_credited || 0);
+                return credited > 0 && credited >= parseFloat(invoice.total || 0);
+            };
+
+            const rows = new Map<string, TaxSummaryRow>();
+            let netSales = 0;
+            let exemptSales = 0;
+
+            const add = (document: any, sign: 1 | -1) => {
+                const rate = document.exchange_rate != null ? parseFloat(document.exchange_rate) : 1;
+                const toBase = (amount: number) => roundMoney(amount * rate, baseCurrency) * sign;
+
+                netSales += toBase(parseFloat(document.total || 0) - parseFloat(document.tax || 0));
+                exemptSales += toBase(parseFloat(document.exempt_amount || 0));
+
+                for (const line of getTaxLines(document)) {
+                    const key = `${line.code}:${line.component}:${line.rate}`;
+                    const row = rows.get(key) || {
+                        code: line.code,
+                        component: line.component,
+                        rate: line.rate,
+                        ...(line.accountId && { accountId: line.accountId }),
+                        taxableAmount: 0,
+                        invoicedTax: 0,
+                        creditedTax: 0,
+                        taxAmount: 0,
+                    };
+                    const taxAmount = toBase(line.taxAmount);
+                    row.taxableAmount = roundMoney(row.taxableAmount + toBase(line.taxableAmount), baseCurrency);
+                    if (sign > 0) row.invoicedTax = roundMoney(row.invoicedTax + taxAmount, baseCurrency);
+                    else row.creditedTax = roundMoney(row.creditedTax - taxAmount, baseCurrency);
+                    row.taxAmount = roundMoney(row.taxAmount + taxAmount, baseCurrency);
+                    rows.set(key, row);
+                }
+            };
+
+            (invoices || []).filter(isReported).forEach((invoice: any) => add(invoice, 1));
+            (creditNotes || [])
+                .filter((note: any) => !note.invoice || isReported(note.invoice))
+                .forEach((note: any) => add(note, -1));
+
+            const summaryRows = Array.from(rows.values())
+                .sort((a, b) => a.code.localeCompare(b.code) || a.component.localeCompare(b.component));
+
+            return {
+                summary: {
+                    startDate,
+                    endDate,
+                    currency: baseCurrency,
+                    netSales: roundMoney(netSales, baseCurrency),
+                    exemptSales: roundMoney(exemptSales, baseCurrency),
+                    totalTax: roundMoney(summaryRows.reduce((sum, row) => sum + row.taxAmount, 0), baseCurrency),
+                    rows: summaryRows,
+                },
+                error: null,
+            };
+        } catch (err: any) {
+            console.error('Error building tax summary:', err);
+            return { summary: null, error: err.message };
+        }
+    },
+};
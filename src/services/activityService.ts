@@ -49,12 +49,16 @@ const getLocationData = async () => {
 
 export const activityService = {
     /**
-     * Log user activity
+     * Log user activity (under the current tenant unless one is given)
      */
-    async logActivity(userId: string, action: string, metadata: Record<string, unknown> = {}) {
+    async logActivity(
+        userId: string,
+        action: string,
+        metadata: Record<string, unknown> = {},
+        tenantId: string | null = tenantService.getCurrentTenantId()
+    ) {
         const locationData = await getLocationData();
         const { browser, deviceType } = parseUserAgent(navigator.userAgent);
-        const tenantId = tenantService.getCurrentTenantId();
 
         const { error } = await supabase.from('activity_logs').insert({
             user_id: userId,
@@ -11,6 +11,9 @@ export interface BusinessClient {
     value: number;
     notes?: string;
     customFields?: Record<string, any>;
+    taxId?: string;                 // VAT / GST / sales tax registration number
+    taxExempt: boolean;             // No tax is charged on the client's invoices
+    taxExemptionReason?: string;    // e.g. resale certificate number
     createdAt: string;
     updatedAt: string;
 }
@@ -55,6 +58,9 @@ export const businessClientService = {
                 value: parseFloat(c.value || 0),
                 notes: c.notes,
                 customFields: c.custom_fields,
+                taxId: c.tax_id || undefined,
+                taxExempt: c.tax_exempt || false,
+                taxExemptionReason: c.tax_exemption_reason || undefined,
                 createdAt: c.created_at,
                 updatedAt: c.updated_at
             }));
@@ -90,6 +96,9 @@ export const businessClientService = {
                 value: parseFloat(data.value || 0),
                 notes: data.notes,
                 customFields: data.custom_fields,
+                taxId: data.tax_id || undefined,
+                taxExempt: data.tax_exempt || false,
+                taxExemptionReason: data.tax_exemption_reason || undefined,
                 createdAt: data.created_at,
                 updatedAt: data.updated_at
             };
@@ -117,7 +126,10 @@ export const businessClientService = {
                     stage: client.stage || 'lead',
                     value: client.value || 0,
                     notes: client.notes,
-                    custom_fields: client.customFields || {}
+                    custom_fields: client.customFields || {},
+                    tax_id: client.taxId || null,
+                    tax_exempt: client.taxExempt || false,
+                    tax_exemption_reason: client.taxExemptionReason || null
                 })
                 .select()
                 .single();
@@ -135,6 +147,9 @@ export const businessClientService = {
                 value: parseFloat(data.value || 0),
                 notes: data.notes,
                 customFields: data.custom_fields,
+                taxId: data.tax_id || undefined,
+                taxExempt: data.tax_exempt || false,
+                taxExemptionReason: data.tax_exemption_reason || undefined,
                 createdAt: data.created_at,
                 updatedAt: data.updated_at
             };
@@ -161,6 +176,9 @@ export const businessClientService = {
             if (updates.value !== undefined) updateData.value = updates.value;
             if (updates.notes !== undefined) updateData.notes = updates.notes;
             if (updates.customFields !== undefined) updateData.custom_fields = updates.customFields;
+            if (updates.taxId !== undefined) updateData.tax_id = updates.taxId || null;
+            if (updates.taxExempt !== undefined) updateData.tax_exempt = updates.taxExempt;
+            if (updates.taxExemptionReason !== undefined) updateData.tax_exemption_reason = updates.taxExemptionReason || null;
 
             updateData.updated_at = new Date().toISOString();
 
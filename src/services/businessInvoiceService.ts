@@ -2,6 +2,10 @@ import { supabase } from '../lib/supabase';
 import { jsPDF } from 'jspdf';
 import { journalEntryService } from './accounting/journalEntryService';
 import { chartOfAccountsService } from './accounting/chartOfAccountsService';
+import { exchangeRateService } from './accounting/exchangeRateService';
+import { formatCurrency, roundMoney } from './accounting/currency';
+import { allocateRevenue, productCatalogService } from './productCatalogService';
+import { getTaxLines, taxPostings, TaxLine } from './accounting/taxService';
 
 export interface BusinessInvoice {
     id: string;
@@ -11,18 +15,32 @@ export interface BusinessInvoice {
     invoiceNumber: string;
     issueDate: string;
     dueDate: string;
-    status: 'draft' | 'sent' | 'paid' | 'overdue';
+    status: 'draft' | 'sent' | 'partially_paid' | 'paid' | 'overdue' | 'void';
     subtotal: number;
-    taxRate: number;
+    taxRate: number;                // Effective percent; the single rate on older invoices
     tax: number;
+    taxLines: TaxLine[];            // Tax charged per rate component
+    pricesIncludeTax: boolean;      // Line amounts already contain the tax
+    exemptAmount: number;           // Net of lines that carried no tax
     discountAmount: number;
     total: number;
+    amountPaid: number;
+    amountCredited: number;         // Credit notes applied to the balance
+    amountDue: number;              // Balance still owed, in the invoice currency
+    currency: string;
+    baseCurrency?: string;          // Tenant's base currency when issued
+    exchangeRate?: number;          // Invoice currency to base currency at issue
+    baseTotal?: number;
+    paymentExchangeRate?: number;   // Invoice currency to base currency at payment
+    realizedFxGainLoss?: number;    // In base currency; negative for a loss
     lineItems: InvoiceLineItem[];
     notes?: string;
     isPublic: boolean;
     senderName?: string;
     bankDetails?: string;
     mobilePaymentDetails?: string;
+    recurringScheduleId?: string;   // Recurring schedule the invoice was generated from
+    dunningPaused: boolean;         // No reminders or late fees while set
     createdAt: string;
     updatedAt: string;
 }
@@ -32,6 +50,10 @@ export interface InvoiceLineItem {
     quantity: number;
     rate: number;
     amount: number;
+    productId?: string;             // Catalog product the line was picked from
+    unit?: string;
+    taxRateId?: string;             // Tax code of the line; untaxed when not set
+    taxAmount?: number;             // Tax charged on the line
 }
 
 export const businessInvoiceService = {
@@ -60,14 +82,28 @@ export const businessInvoiceService = {
                 subtotal: parseFloat(inv.subtotal || 0),
                 taxRate: parseFloat(inv.tax_rate || 0),
                 tax: parseFloat(inv.tax || 0),
+                taxLines: inv.tax_lines || [],
+                pricesIncludeTax: inv.prices_include_tax || false,
+                exemptAmount: parseFloat(inv.exempt_amount || 0),
                 discountAmount: parseFloat(inv.discount_amount || 0),
                 total: parseFloat(inv.total || 0),
+                amountPaid: parseFloat(inv.amount_paid || 0),
+                amountCredited: parseFloat(inv.amount_credited || 0),
+                amountDue: parseFloat(inv.amount_due ?? inv.total ?? 0),
+                currency: inv.currency || 'USD',
+                baseCurrency: inv.base_currency || undefined,
+                exchangeRate: inv.exchange_rate != null ? parseFloat(inv.exchange_rate) : undefined,
+                baseTotal: inv.base_total != null ? parseFloat(inv.base_total) : undefined,
+                paymentExchangeRate: inv.payment_exchange_rate != null ? parseFloat(inv.payment_exchange_rate) : undefined,
+                realizedFxGainLoss: inv.realized_fx_gain_loss != null ? parseFloat(inv.realized_fx_gain_loss) : undefined,
                 lineItems: inv.line_items || [],
                 notes: inv.notes,
                 isPublic: inv.is_public || false,
                 senderName: inv.sender_name,
                 bankDetails: inv.bank_details,
                 mobilePaymentDetails: inv.mobile_payment_details,
+                recurringScheduleId: inv.recurring_schedule_id || undefined,
+                dunningPaused: inv.dunning_paused || false,
                 createdAt: inv.created_at,
                 updatedAt: inv.updated_at
             }));
@@ -90,26 +126,41 @@ export const businessInvoiceService = {
             // Calculate default due date (14 days from issue date or today)
             const issueDateObj = invoice.issueDate ? new Date(invoice.issueDate) : new Date();
             const defaultDueDate = new Date(issueDateObj.getTime() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+            const issueDate = invoice.issueDate || new Date().toISOString().split('T')[0];
+
+            // Snapshot the rate to the base currency at issue
+            const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId);
+            const currency = (invoice.currency || baseCurrency).toUpperCase();
+            const { rate, error: rateError } = await exchangeRateService.getRate(tenantId, currency, baseCurrency, issueDate);
+            if (rateError) throw new Error(rateError);
 
             const payload = {
                 tenant_id: tenantId,
                 client_id: invoice.clientId || null,
                 project_id: invoice.projectId || null,
                 invoice_number: invoiceNumber,
-                issue_date: invoice.issueDate || new Date().toISOString().split('T')[0],
+                issue_date: issueDate,
                 due_date: invoice.dueDate || defaultDueDate, // Fix: Use default instead of null
                 status: invoice.status || 'draft',
                 subtotal: invoice.subtotal || 0,
                 tax_rate: invoice.taxRate || 0,
                 tax: invoice.tax || 0,
+                tax_lines: invoice.taxLines || [],
+                prices_include_tax: invoice.pricesIncludeTax || false,
+                exempt_amount: invoice.exemptAmount || 0,
                 discount_amount: invoice.discountAmount || 0,
                 total: invoice.total || 0,
+                currency,
+                base_currency: baseCurrency,
+                exchange_rate: rate,
+                base_total: roundMoney((invoice.total || 0) * rate, baseCurrency),
                 line_items: invoice.lineItems || [],
                 notes: invoice.notes,
                 is_public: invoice.isPublic || false,
                 sender_name: invoice.senderName,
                 bank_details: invoice.bankDetails,
-                mobile_payment_details: invoice.mobilePaymentDetails
+                mobile_payment_details: invoice.mobilePaymentDetails,
+                recurring_schedule_id: invoice.recurringScheduleId || null
             };
 
             // Debug logging
@@ -138,14 +189,28 @@ export const businessInvoiceService = {
                 subtotal: parseFloat(data.subtotal || 0),
                 taxRate: parseFloat(data.tax_rate || 0),
                 tax: parseFloat(data.tax || 0),
+                taxLines: data.tax_lines || [],
+                pricesIncludeTax: data.prices_include_tax || false,
+                exemptAmount: parseFloat(data.exempt_amount || 0),
                 discountAmount: parseFloat(data.discount_amount || 0),
                 total: parseFloat(data.total || 0),
+                amountPaid: parseFloat(data.amount_paid || 0),
+                amountCredited: parseFloat(data.amount_credited || 0),
+                amountDue: parseFloat(data.amount_due ?? data.total ?? 0),
+                currency: data.currency || 'USD',
+                baseCurrency: data.base_currency || undefined,
+                exchangeRate: data.exchange_rate != null ? parseFloat(data.exchange_rate) : undefined,
+                baseTotal: data.base_total != null ? parseFloat(data.base_total) : undefined,
+                paymentExchangeRate: data.payment_exchange_rate != null ? parseFloat(data.payment_exchange_rate) : undefined,
+                realizedFxGainLoss: data.realized_fx_gain_loss != null ? parseFloat(data.realized_fx_gain_loss) : undefined,
                 lineItems: data.line_items || [],
                 notes: data.notes,
                 isPublic: data.is_public || false,
                 senderName: data.sender_name,
                 bankDetails: data.bank_details,
                 mobilePaymentDetails: data.mobile_payment_details,
+                recurringScheduleId: data.recurring_schedule_id || undefined,
+                dunningPaused: data.dunning_paused || false,
                 createdAt: data.created_at,
                 updatedAt: data.updated_at
             };
@@ -175,6 +240,11 @@ export const businessInvoiceService = {
 
             if (fetchError) throw fetchError;
 
+            // Paid statuses follow the payments recorded against the invoice
+            if (updates.status === 'paid' || updates.status === 'partially_paid') {
+                return { error: 'Record a payment to mark an invoice as paid' };
+            }
+
             const updateData: Record<string, any> = {};
 
             if (updates.clientId !== undefined) updateData.client_id = updates.clientId || null;
@@ -192,6 +262,9 @@ export const businessInvoiceService = {
             if (updates.subtotal !== undefined) updateData.subtotal = updates.subtotal;
             if (updates.taxRate !== undefined) updateData.tax_rate = updates.taxRate;
             if (updates.tax !== undefined) updateData.tax = updates.tax;
+            if (updates.taxLines !== undefined) updateData.tax_lines = updates.taxLines;
+            if (updates.pricesIncludeTax !== undefined) updateData.prices_include_tax = updates.pricesIncludeTax;
+            if (updates.exemptAmount !== undefined) updateData.exempt_amount = updates.exemptAmount;
             if (updates.discountAmount !== undefined) updateData.discount_amount = updates.discountAmount;
             if (updates.total !== undefined) updateData.total = updates.total;
             if (updates.lineItems !== undefined) updateData.line_items = updates.lineItems;
@@ -200,6 +273,21 @@ export const businessInvoiceService = {
             if (updates.senderName !== undefined) updateData.sender_name = updates.senderName;
             if (updates.bankDetails !== undefined) updateData.bank_details = updates.bankDetails;
             if (updates.mobilePaymentDetails !== undefined) updateData.mobile_payment_details = updates.mobilePaymentDetails;
+            if (updates.currency !== undefined) updateData.currency = updates.currency.toUpperCase();
+
+            // Drafts are re-rated when their currency, issue date or total changes;
+            // once issued the snapshot is fixed
+            if (currentInvoice.status === 'draft' && (updateData.currency || updateData.issue_date || updateData.total !== undefined)) {
+                const currency = updateData.currency || currentInvoice.currency || 'USD';
+                const issueDate = updateData.issue_date || currentInvoice.issue_date;
+                const baseCurrency = await exchangeRateService.getBaseCurrency(currentInvoice.tenant_id);
+                const { rate, error: rateError } = await exchangeRateService.getRate(currentInvoice.tenant_id, currency, baseCurrency, issueDate);
+                if (rateError) throw new Error(rateError);
+
+                updateData.base_currency = baseCurrency;
+                updateData.exchange_rate = rate;
+                updateData.base_total = roundMoney(parseFloat(updateData.total ?? currentInvoice.total ?? 0) * rate, baseCurrency);
+            }
 
             updateData.updated_at = new Date().toISOString();
 
@@ -216,13 +304,9 @@ export const businessInvoiceService = {
                 const newStatus = updates.status;
 
                 // When invoice is sent: DR Accounts Receivable, CR Revenue
+                // Payments are posted as they are recorded (see invoicePaymentService)
                 if (oldStatus === 'draft' && newStatus === 'sent') {
-                    await this.postInvoiceToGL(invoiceId, currentInvoice);
-                }
-
-                // When invoice is paid: DR Cash, CR Accounts Receivable
-                if ((oldStatus === 'sent' || oldStatus === 'overdue') && newStatus === 'paid') {
-                    await this.postPaymentToGL(invoiceId, currentInvoice);
+                    await this.postInvoiceToGL(invoiceId, { ...currentInvoice, ...updateData });
                 }
             }
 
@@ -302,7 +386,8 @@ export const businessInvoiceService = {
     },
 
     /**
-     * Calculate invoice totals
+     * Calculate invoice totals at one flat tax rate
+     * Invoices taxed per line use calculateTax (accounting/taxService)
      */
     calculateTotals(lineItems: InvoiceLineItem[], taxRate: number = 0, discountAmount: number = 0): { subtotal: number; tax: number; total: number } {
         const subtotal = lineItems.reduce((sum, item) => sum + item.amount, 0);
@@ -335,7 +420,8 @@ export const businessInvoiceService = {
                         name,
                         email,
                         company,
-                        phone
+                        phone,
+                        tax_id
                     ),
                     project:project_id (
                         id,
@@ -358,30 +444,14 @@ export const businessInvoiceService = {
         }
     },
 
-    /**
-     * Mark invoice as paid
-     */
-    async markAsPaid(invoiceId: string): Promise<{ error: string | null }> {
-        try {
-            const { error } = await supabase
-                .from('business_invoices')
-                .update({ status: 'paid', updated_at: new Date().toISOString() })
-                .eq('id', invoiceId);
-
-            if (error) throw error;
-            return { error: null };
-        } catch (err: any) {
-            console.error('Error marking invoice as paid:', err);
-            return { error: err.message };
-        }
-    },
-
     /**
      * Generate a professional PDF for a business invoice
      */
     generatePDF(invoice: any, tenant: any, client: any) {
         const doc = new jsPDF();
         const primaryColor = '#14b8a6'; // Teal-500
+        const currency = invoice.currency || 'USD';
+        const money = (amount: number) => formatCurrency(amount, currency, { pdf: true });
 
         // Header - Company Info
         doc.setFillColor(248, 250, 252); // slate-50
@@ -453,6 +523,8 @@ export const businessInvoiceService = {
             if (client.company) doc.text(client.company, 20, 93);
             if (client.email) doc.text(client.email, 20, 98);
             if (client.phone) doc.text(client.phone, 20, 103);
+            const clientTaxId = client.tax_id || client.taxId;
+            if (clientTaxId) doc.text(`Tax ID: ${clientTaxId}`, 20, 108);
         } else {
             doc.setFontSize(11);
             doc.setFont('helvetica', 'italic');
@@ -480,8 +552,8 @@ export const businessInvoiceService = {
         doc.setTextColor(255, 255, 255);
         doc.text('DESCRIPTION', 25, y + 6.5);
         doc.text('QTY', 120, y + 6.5);
-        doc.text('RATE', 145, y + 6.5);
-        doc.text('AMOUNT', 170, y + 6.5);
+        doc.text('RATE', 160, y + 6.5, { align: 'right' });
+        doc.text('AMOUNT', 186, y + 6.5, { align: 'right' });
 
         // Items
         y += 18;
@@ -492,8 +564,8 @@ export const businessInvoiceService = {
         items.forEach((item: any, idx: number) => {
             doc.text(item.description, 25, y);
             doc.text(item.quantity.toString(), 120, y);
-            doc.text(`$${item.rate.toFixed(2)}`, 145, y);
-            doc.text(`$${item.amount.toFixed(2)}`, 170, y);
+            doc.text(money(item.rate), 160, y, { align: 'right' });
+            doc.text(money(item.amount), 186, y, { align: 'right' });
             y += 10;
 
             // Subtle line
@@ -511,28 +583,61 @@ export const businessInvoiceService = {
 
         doc.setFont('helvetica', 'normal');
         doc.text('Subtotal:', 140, y);
-        doc.text(`$${subtotal.toFixed(2)}`, 170, y);
+        doc.text(money(subtotal), 186, y, { align: 'right' });
 
         if (discount > 0) {
             y += 8;
             doc.setTextColor(239, 68, 68); // Red for discount
             doc.text('Discount:', 140, y);
-            doc.text(`-$${discount.toFixed(2)}`, 170, y);
+            doc.text(`-${money(discount)}`, 186, y, { align: 'right' });
             doc.setTextColor(15, 23, 42); // Reset color
         }
 
-        y += 8;
-        doc.text(`Tax (${taxRate}%):`, 140, y);
-        doc.text(`$${tax.toFixed(2)}`, 170, y);
+        const taxLines = getTaxLines(invoice);
+        const included = invoice.prices_include_tax ?? invoice.pricesIncludeTax;
+        if (taxLines.length > 0 && (taxLines.length > 1 || taxLines[0].taxRateId)) {
+            taxLines.forEach(line => {
+                y += 8;
+                doc.text(`${included ? 'Incl. ' : ''}${line.component} (${line.rate}%):`, 140, y);
+                doc.text(money(line.taxAmount), 186, y, { align: 'right' });
+            });
+        } else {
+            y += 8;
+            doc.text(`${included ? 'Incl. ' : ''}Tax (${taxRate}%):`, 140, y);
+            doc.text(money(tax), 186, y, { align: 'right' });
+        }
 
         y += 12;
         doc.setFillColor(248, 250, 252);
-        doc.rect(135, y - 8, 55, 12, 'F');
+        doc.rect(105, y - 8, 85, 12, 'F');
         doc.setFont('helvetica', 'bold');
         doc.setFontSize(14);
         doc.setTextColor(primaryColor);
-        doc.text('TOTAL:', 140, y);
-        doc.text(`$${total.toFixed(2)}`, 165, y);
+        doc.text('TOTAL:', 110, y);
+        doc.text(money(total), 186, y, { align: 'right' });
+
+        const amountPaid = parseFloat(invoice.amount_paid ?? invoice.amountPaid ?? 0);
+        const amountCredited = parseFloat(invoice.amount_credited ?? invoice.amountCredited ?? 0);
+        if (amountPaid > 0 || amountCredited > 0) {
+            doc.setFont('helvetica', 'normal');
+            doc.setFontSize(10);
+            doc.setTextColor(15, 23, 42);
+            if (amountPaid > 0) {
+                y += 10;
+                doc.text('Paid:', 140, y);
+                doc.text(`-${money(amountPaid)}`, 186, y, { align: 'right' });
+            }
+            if (amountCredited > 0) {
+                y += amountPaid > 0 ? 8 : 10;
+                doc.text('Credited:', 140, y);
+                doc.text(`-${money(amountCredited)}`, 186, y, { align: 'right' });
+            }
+
+            y += 8;
+            doc.setFont('helvetica', 'bold');
+            doc.text('Balance Due:', 140, y);
+            doc.text(money(parseFloat(invoice.amount_due ?? invoice.amountDue ?? total - amountPaid - amountCredited)), 186, y, { align: 'right' });
+        }
 
         // Footer
         const pageHeight = doc.internal.pageSize.height;
@@ -599,16 +704,60 @@ export const businessInvoiceService = {
         return doc;
     },
 
+    /**
+     * Currency snapshot of an invoice at issue
+     * Invoices issued before they carried one are rated on their issue date
+     * and the snapshot is stored
+     */
+    async getIssueSnapshot(invoiceId: string, invoiceData: any): Promise<{
+        currency: string;
+        baseCurrency: string;
+        exchangeRate: number;
+        baseTotal: number;
+    }> {
+        const total = parseFloat(invoiceData.total || '0');
+        const currency = (invoiceData.currency || 'USD').toUpperCase();
+
+        if (invoiceData.exchange_rate != null && invoiceData.base_currency) {
+            const exchangeRate = parseFloat(invoiceData.exchange_rate);
+            return {
+                currency,
+                baseCurrency: invoiceData.base_currency,
+                exchangeRate,
+                baseTotal: roundMoney(total * exchangeRate, invoiceData.base_currency)
+            };
+        }
+
+        const tenantId = invoiceData.tenant_id || invoiceData.tenantId;
+        const issueDate = invoiceData.issue_date || invoiceData.issueDate || new Date().toISOString().split('T')[0];
+        const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId);
+        const { rate, error } = await exchangeRateService.getRate(tenantId, currency, baseCurrency, issueDate);
+        if (error) throw new Error(error);
+
+        const baseTotal = roundMoney(total * rate, baseCurrency);
+        await supabase
+            .from('business_invoices')
+            .update({ base_currency: baseCurrency, exchange_rate: rate, base_total: baseTotal })
+            .eq('id', invoiceId);
+
+        return { currency, baseCurrency, exchangeRate: rate, baseTotal };
+    },
+
     /**
      * Post invoice to General Ledger when sent
      * DR Accounts Receivable (1100)
-     *   CR Revenue (4100)
+     *   CR Revenue                 per product revenue account, else 4100
+     *   CR Tax liability           per tax component account, else 2200
+     * Amounts are in the base currency at the rate snapshotted at issue, and
+     * are posted to the invoice's own tenant ledger
      */
     async postInvoiceToGL(invoiceId: string, invoiceData: any): Promise<{ error: string | null }> {
         try {
+            const tenantId: string | undefined = invoiceData.tenant_id || invoiceData.tenantId;
+
             // Get account IDs for AR and Revenue
-            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100');
-            const { account: revenueAccount } = await chartOfAccountsService.getAccountByCode('4100');
+            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100', tenantId);
+            const { account: revenueAccount } = await chartOfAccountsService.getAccountByCode('4100', tenantId);
 
             if (!arAccount || !revenueAccount) {
                 console.warn('Accounts Receivable (1100) or Service Revenue (4100) not found. Skipping GL post.');
@@ -618,31 +767,60 @@ export const businessInvoiceService = {
             const total = parseFloat(invoiceData.total || '0');
             const issueDate = invoiceData.issue_date || invoiceData.issueDate || new Date().toISOString().split('T')[0];
             const invoiceNumber = invoiceData.invoice_number || invoiceData.invoiceNumber;
+            const { currency, baseCurrency, exchangeRate, baseTotal } = await this.getIssueSnapshot(invoiceId, invoiceData);
+            const foreignAmount = currency !== baseCurrency ? ` (${formatCurrency(total, currency)})` : '';
+
+            const taxes = taxPostings(getTaxLines(invoiceData), exchangeRate, baseCurrency);
+            const { account: taxAccount } = taxes.some(tax => !tax.accountId)
+                ? await chartOfAccountsService.getAccountByCode('2200', tenantId)
+                : { account: null };
+
+            if (taxes.some(tax => !tax.accountId) && !taxAccount) {
+                console.warn('Sales Tax Payable (2200) not found. Skipping GL post.');
+                return { error: 'Required accounts not found in Chart of Accounts' };
+            }
+
+            // The discount is spread over the lines in proportion
+            const baseTax = roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0), baseCurrency);
+            const lineItems: InvoiceLineItem[] = invoiceData.line_items || invoiceData.lineItems || [];
+            const revenueAccounts = await productCatalogService.getRevenueAccounts(lineItems.map(line => line.productId || ''));
+            const revenue = allocateRevenue(lineItems, revenueAccounts, roundMoney(baseTotal - baseTax, baseCurrency), baseCurrency);
 
             // Create journal entry
             const { entry, error } = await journalEntryService.createEntry({
                 entryDate: issueDate,
-                description: `Invoice ${invoiceNumber} - Service Revenue`,
+                description: `Invoice ${invoiceNumber} - Service Revenue${foreignAmount}`,
                 reference: invoiceNumber,
                 sourceType: 'invoice',
                 sourceId: invoiceId,
+                currency,
+                exchangeRate,
+                tenantId,
                 lines: [
                     {
                         accountId: arAccount.id,
-                        debitAmount: total,
+                        debitAmount: baseTotal,
                         creditAmount: 0,
                         description: `AR - Invoice ${invoiceNumber}`,
                         entityType: 'invoice',
                         entityId: invoiceId,
                     },
-                    {
-                        accountId: revenueAccount.id,
+                    ...revenue.map(part => ({
+                        accountId: part.accountId || revenueAccount.id,
                         debitAmount: 0,
-                        creditAmount: total,
+                        creditAmount: part.amount,
                         description: `Revenue - Invoice ${invoiceNumber}`,
                         entityType: 'invoice',
                         entityId: invoiceId,
-                    },
+                    })),
+                    ...taxes.map(tax => ({
+                        accountId: tax.accountId || taxAccount!.id,
+                        debitAmount: 0,
+                        creditAmount: tax.amount,
+                        description: `${tax.label} - Invoice ${invoiceNumber}`,
+                        entityType: 'invoice',
+                        entityId: invoiceId,
+                    })),
                 ],
             });
 
@@ -664,50 +842,93 @@ export const businessInvoiceService = {
     },
 
     /**
-     * Post payment to General Ledger when invoice is paid
-     * DR Cash (1000)
-     *   CR Accounts Receivable (1100)
+     * Post a payment received against an invoice to the General Ledger
+     * DR Cash (1000)                       at the payment-date rate
+     *   CR Accounts Receivable (1100)      at the issue rate
+     *   CR FX Gain (7100) / DR FX Loss (8100) for the difference
+     * `amount` is the part of the payment applied to this invoice, in the
+     * invoice currency; the whole total when not given. Credit applied from
+     * an earlier payment debits Customer Deposits (2300) instead of Cash, at
+     * `depositRate`, the rate it was received at. Posted to the invoice's own
+     * tenant ledger.
      */
-    async postPaymentToGL(invoiceId: string, invoiceData: any): Promise<{ error: string | null }> {
+    async postPaymentToGL(
+        invoiceId: string,
+        invoiceData: any,
+        options: { amount?: number; paymentDate?: string; paymentId?: string; depositRate?: number } = {}
+    ): Promise<{ error: string | null }> {
         try {
-            // Get account IDs for Cash and AR
-            const { account: cashAccount } = await chartOfAccountsService.getAccountByCode('1000');
-            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100');
+            const fromDeposit = options.depositRate !== undefined;
+            const tenantId = invoiceData.tenant_id || invoiceData.tenantId;
+
+            // Get account IDs for Cash (or Customer Deposits) and AR
+            const { account: cashAccount } = await chartOfAccountsService.getAccountByCode(fromDeposit ? '2300' : '1000', tenantId);
+            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100', tenantId);
 
             if (!cashAccount || !arAccount) {
-                console.warn('Cash (1000) or Accounts Receivable (1100) not found. Skipping GL post.');
+                console.warn(`${fromDeposit ? 'Customer Deposits (2300)' : 'Cash (1000)'} or Accounts Receivable (1100) not found. Skipping GL post.`);
                 return { error: 'Required accounts not found in Chart of Accounts' };
             }
 
-            const total = parseFloat(invoiceData.total || '0');
-            const paymentDate = new Date().toISOString().split('T')[0];
+            const amount = options.amount ?? parseFloat(invoiceData.total || '0');
+            const paymentDate = options.paymentDate || new Date().toISOString().split('T')[0];
             const invoiceNumber = invoiceData.invoice_number || invoiceData.invoiceNumber;
 
+            const issue = await this.getIssueSnapshot(invoiceId, invoiceData);
+            const { rate: paymentRate, error: rateError } = fromDeposit
+                ? { rate: options.depositRate as number, error: null }
+                : await exchangeRateService.getRate(tenantId, issue.currency, issue.baseCurrency, paymentDate);
+            if (rateError) throw new Error(rateError);
+
+            const fx = exchangeRateService.calculateRealizedFx(amount, issue.exchangeRate, paymentRate, issue.baseCurrency);
+            const foreignAmount = issue.currency !== issue.baseCurrency ? ` (${formatCurrency(amount, issue.currency)})` : '';
+
+            const lines = [
+                {
+                    accountId: cashAccount.id,
+                    debitAmount: fx.settledAmount,
+                    creditAmount: 0,
+                    description: `${fromDeposit ? 'Customer deposit applied' : 'Cash received'} - Invoice ${invoiceNumber}`,
+                    entityType: 'invoice',
+                    entityId: invoiceId,
+                },
+                {
+                    accountId: arAccount.id,
+                    debitAmount: 0,
+                    creditAmount: fx.carryingAmount,
+                    description: `AR collected - Invoice ${invoiceNumber}`,
+                    entityType: 'invoice',
+                    entityId: invoiceId,
+                },
+            ];
+
+            if (fx.gainLoss !== 0) {
+                const { account: fxAccount } = await chartOfAccountsService.getAccountByCode(fx.gainLoss > 0 ? '7100' : '8100', tenantId);
+                if (!fxAccount) {
+                    return { error: 'Realized FX Gain (7100) or Loss (8100) account not found in Chart of Accounts' };
+                }
+
+                lines.push({
+                    accountId: fxAccount.id,
+                    debitAmount: fx.gainLoss < 0 ? -fx.gainLoss : 0,
+                    creditAmount: fx.gainLoss > 0 ? fx.gainLoss : 0,
+                    description: `Realized FX ${fx.gainLoss > 0 ? 'gain' : 'loss'} - Invoice ${invoiceNumber}`,
+                    entityType: 'invoice',
+                    entityId: invoiceId,
+                });
+            }
+
             // Create journal entry
             const { entry, error } = await journalEntryService.createEntry({
                 entryDate: paymentDate,
-                description: `Payment received for Invoice ${invoiceNumber}`,
+                description: `${fromDeposit ? 'Credit applied to' : 'Payment received for'} Invoice ${invoiceNumber}${foreignAmount}`,
                 reference: invoiceNumber,
                 sourceType: 'payment',
-                sourceId: invoiceId,
-                lines: [
-                    {
-                        accountId: cashAccount.id,
-                        debitAmount: total,
-                        creditAmount: 0,
-                        description: `Cash received - Invoice ${invoiceNumber}`,
-                        entityType: 'invoice',
-                        entityId: invoiceId,
-                    },
-                    {
-                        accountId: arAccount.id,
-                        debitAmount: 0,
-                        creditAmount: total,
-                        description: `AR collected - Invoice ${invoiceNumber}`,
-                        entityType: 'invoice',
-                        entityId: invoiceId,
-                    },
-                ],
+                sourceId: options.paymentId || invoiceId,
+                currency: issue.currency,
+                exchangeRate: paymentRate,
+                tenantId,
+                lines,
             });
 
             if (error) {
@@ -720,6 +941,21 @@ export const businessInvoiceService = {
                 await journalEntryService.postEntry(entry.id);
             }
 
+            // Snapshot the latest payment rate and the realized difference so far
+            const { data: current } = await supabase
+                .from('business_invoices')
+                .select('realized_fx_gain_loss')
+                .eq('id', invoiceId)
+                .single();
+
+            await supabase
+                .from('business_invoices')
+                .update({
+                    payment_exchange_rate: paymentRate,
+                    realized_fx_gain_loss: roundMoney(parseFloat(current?.realized_fx_gain_loss || 0) + fx.gainLoss, issue.baseCurrency),
+                })
+                .eq('id', invoiceId);
+
             return { error: null };
         } catch (err: any) {
             console.error('Error posting payment to GL:', err);
@@ -0,0 +1,797 @@
+import { supabase } from '../lib/supabase';
+import { jsPDF } from 'jspdf';
+import { journalEntryService } from './accounting/journalEntryService';
+import { chartOfAccountsService } from './accounting/chartOfAccountsService';
+import { exchangeRateService } from './accounting/exchangeRateService';
+import { formatCurrency, roundMoney } from './accounting/currency';
+import { businessInvoiceService, InvoiceLineItem } from './businessInvoiceService';
+import { PaymentMethod } from './invoicePaymentService';
+import { allocateRevenue, productCatalogService } from './productCatalogService';
+import {
+    calculateTax,
+    getTaxLines,
+    ratesFromTaxLines,
+    subtractTaxLines,
+    taxPostings,
+    TaxLine
+} from './accounting/taxService';
+
+export interface CreditNoteLineItem extends InvoiceLineItem {
+    lineIndex: number;              // Position of the credited line on the invoice
+}
+
+export interface CreditNoteRefund {
+    id: string;
+    amount: number;
+    refundDate: string;
+    method: PaymentMethod;
+    reference?: string;
+    createdAt: string;
+}
+
+export interface CreditNote {
+    id: string;
+    tenantId: string;
+    invoiceId: string;
+    clientId?: string;
+    creditNoteNumber: string;
+    issueDate: string;
+    reason?: string;
+    lineItems: CreditNoteLineItem[];
+    subtotal: number;
+    discountAmount: number;
+    taxRate: number;
+    tax: number;
+    taxLines: TaxLine[];            // Tax reversed per rate component
+    exemptAmount: number;
+    total: number;
+    currency: string;
+    exchangeRate: number;           // The invoice's issue rate, so the reversal matches the original posting
+    baseTotal?: number;
+    amountApplied: number;          // Applied to the invoice balance
+    amountRefunded: number;         // Paid back to the client
+    remainingCredit: number;
+    refunds: CreditNoteRefund[];
+    createdAt: string;
+}
+
+export interface CreditLineSelection {
+    lineIndex: number;
+    quantity: number;
+}
+
+export interface CreateCreditNoteInput {
+    lines?: CreditLineSelection[];  // Everything not yet credited when not given
+    reason?: string;
+    issueDate?: string;
+    applyToBalance?: boolean;       // Apply the credit to the invoice's open balance (default)
+}
+
+export interface RefundCreditNoteInput {
+    amount?: number;                // The remaining credit when not given
+    refundDate?: string;
+    method: PaymentMethod;
+    reference?: string;
+}
+
+const mapCreditNote = (row: any): CreditNote => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    invoiceId: row.invoice_id,
+    clientId: row.client_id || undefined,
+    creditNoteNumber: row.credit_note_number,
+    issueDate: row.issue_date,
+    reason: row.reason || undefined,
+    lineItems: row.line_items || [],
+    subtotal: parseFloat(row.subtotal || 0),
+    discountAmount: parseFloat(row.discount_amount || 0),
+    taxRate: parseFloat(row.tax_rate || 0),
+    tax: parseFloat(row.tax || 0),
+    taxLines: row.tax_lines || [],
+    exemptAmount: parseFloat(row.exempt_amount || 0),
+    total: parseFloat(row.total || 0),
+    currency: row.currency,
+    exchangeRate: parseFloat(row.exchange_rate || 1),
+    baseTotal: row.base_total != null ? parseFloat(row.base_total) : undefined,
+    amountApplied: parseFloat(row.amount_applied || 0),
+    amountRefunded: parseFloat(row.amount_refunded || 0),
+    remainingCredit: parseFloat(row.remaining_credit ?? row.total ?? 0),
+    refunds: (row.credit_note_refunds || []).map((r: any) => ({
+        id: r.id,
+        amount: parseFloat(r.amount),
+        refundDate: r.refund_date,
+        method: r.method,
+        reference: r.reference || undefined,
+        createdAt: r.created_at,
+    })),
+    createdAt: row.created_at,
+});
+
+/**
+ * Work out the lines and totals of a credit note against an invoice
+ * Each line takes its share of the invoice discount and is taxed with its
+ * code at the rates the invoice charged (older invoices: the invoice rate).
+ * Crediting everything that is left takes the invoice totals less earlier
+ * credit notes, so rounding never leaves a residue.
+ */
+export function calculateCreditNote(
+    invoice: any,
+    previous: CreditNote[],
+    lines?: CreditLineSelection[]
+): {
+    lineItems: CreditNoteLineItem[];
+    subtotal: number;
+    discountAmount: number;
+    tax: number;
+    taxLines: TaxLine[];
+    exemptAmount: number;
+    total: number;
+    error: string | null;
+} {
+    const currency = invoice.currency || 'USD';
+    const invoiceLines: InvoiceLineItem[] = invoice.line_items || invoice.lineItems || [];
+    const invoiceSubtotal = parseFloat(invoice.subtotal || 0);
+    const invoiceDiscount = parseFloat(invoice.discount_amount ?? invoice.discountAmount ?? 0);
+    const taxRate = parseFloat(invoice.tax_rate ?? invoice.taxRate ?? 0);
+    const invoiceTaxLines = getTaxLines(invoice);
+
+    const credited = new Map<number, number>();
+    for (const note of previous) {
+        for (const line of note.lineItems) {
+            credited.set(line.lineIndex, (credited.get(line.lineIndex) || 0) + line.quantity);
+        }
+    }
+    const remainingQuantity = (index: number) => invoiceLines[index].quantity - (credited.get(index) || 0);
+
+    const selection = (lines || invoiceLines.map((_, lineIndex) => ({ lineIndex, quantity: remainingQuantity(lineIndex) })))
+        .filter(line => line.quantity > 0);
+    const empty = { lineItems: [], subtotal: 0, discountAmount: 0, tax: 0, taxLines: [], exemptAmount: 0, total: 0 };
+
+    if (selection.length === 0) {
+        return { ...empty, error: 'Nothing left to credit on this invoice' };
+    }
+
+    const lineItems: CreditNoteLineItem[] = [];
+    for (const { lineIndex, quantity } of selection) {
+        const line = invoiceLines[lineIndex];
+        if (!line) {
+            return { ...empty, error: 'Invoice line not found' };
+        }
+        if (quantity > remainingQuantity(lineIndex)) {
+            return { ...empty, error: `Only ${remainingQuantity(lineIndex)} of "${line.description}" can still be credited` };
+        }
+        lineItems.push({
+            lineIndex,
+            description: line.description,
+            quantity,
+            rate: line.rate,
+            amount: roundMoney(quantity * line.rate, currency),
+            ...(line.productId && { productId: line.productId }),
+            ...(line.taxRateId && { taxRateId: line.taxRateId }),
+        });
+    }
+
+    const creditsEverything = invoiceLines.every((_, index) =>
+        remainingQuantity(index) === (lineItems.find(l => l.lineIndex === index)?.quantity || 0));
+
+    if (creditsEverything) {
+        const sum = (pick: (note: CreditNote) => number) => previous.reduce((total, note) => total + pick(note), 0);
+        return {
+            lineItems,
+            subtotal: roundMoney(invoiceSubtotal - sum(n => n.subtotal), currency),
+            discountAmount: roundMoney(invoiceDiscount - sum(n => n.discountAmount), currency),
+            tax: roundMoney(parseFloat(invoice.tax || 0) - sum(n => n.tax), currency),
+            taxLines: subtractTaxLines(invoiceTaxLines, previous.map(getTaxLines), currency),
+            exemptAmount: roundMoney(parseFloat(invoice.exempt_amount ?? invoice.exemptAmount ?? 0) - sum(n => n.exemptAmount), currency),
+            total: roundMoney(parseFloat(invoice.total || 0) - sum(n => n.total), currency),
+            error: null,
+        };
+    }
+
+    const subtotal = roundMoney(lineItems.reduce((total, line) => total + line.amount, 0), currency);
+    const discountAmount = invoiceSubtotal > 0 ? roundMoney(invoiceDiscount * subtotal / invoiceSubtotal, currency) : 0;
+
+    if (invoiceTaxLines.some(line => line.taxRateId)) {
+        const taxed = calculateTax(lineItems, ratesFromTaxLines(invoiceTaxLines), {
+            discountAmount,
+            pricesIncludeTax: invoice.prices_include_tax ?? invoice.pricesIncludeTax ?? false,
+            currency,
+        });
+        return {
+            lineItems: taxed.lineItems,
+            subtotal,
+            discountAmount,
+            tax: taxed.tax,
+            taxLines: taxed.taxLines,
+            exemptAmount: taxed.exemptAmount,
+            total: taxed.total,
+            error: null,
+        };
+    }
+
+    const tax = roundMoney((subtotal - discountAmount) * (taxRate / 100), currency);
+
+    return {
+        lineItems,
+        subtotal,
+        discountAmount,
+        tax,
+        taxLines: [],
+        exemptAmount: 0,
+        total: roundMoney(subtotal - discountAmount + tax, currency),
+        error: null,
+    };
+}
+
+export const creditNoteService = {
+    /**
+     * Get all credit notes of a tenant, newest first
+     */
+    async getCreditNotes(tenantId: string): Promise<{ creditNotes: CreditNote[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('credit_notes')
+                .select('*, credit_note_refunds(*)')
+                .eq('tenant_id', tenantId)
+                .order('issue_date', { ascending: false });
+
+            if (error) throw error;
+
+            return { creditNotes: (data || []).map(mapCreditNote), error: null };
+        } catch (err: any) {
+            console.error('Error fetching credit notes:', err);
+            return { creditNotes: [], error: err.message };
+        }
+    },
+
+    /**
+     * Get the credit notes issued against an invoice, oldest first
+     */
+    async getInvoiceCreditNotes(invoiceId: string): Promise<{ creditNotes: CreditNote[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('credit_notes')
+                .select('*, credit_note_refunds(*)')
+                .eq('invoice_id', invoiceId)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+
+            return { creditNotes: (data || []).map(mapCreditNote), error: null };
+        } catch (err: any) {
+            console.error('Error fetching invoice credit notes:', err);
+            return { creditNotes: [], error: err.message };
+        }
+    },
+
+    /**
+     * Generate next credit note number
+     */
+    async generateCreditNoteNumber(tenantId: string): Promise<string> {
+        try {
+            const { data } = await supabase
+                .from('credit_notes')
+                .select('credit_note_number')
+                .eq('tenant_id', tenantId)
+                .order('created_at', { ascending: false })
+                .limit(1);
+
+            if (data && data.length > 0) {
+                const match = data[0].credit_note_number.match(/\d+$/);
+                if (match) {
+                    return `CN-${(parseInt(match[0]) + 1).toString().padStart(4, '0')}`;
+                }
+            }
+
+            return 'CN-0001';
+        } catch (err) {
+            console.error('Error generating credit note number:', err);
+            return `CN-${Date.now()}`;
+        }
+    },
+
+    /**
+     * Issue a credit note against an invoice, in full or for some lines
+     * The reversal is posted to the GL straight away; the credit is then
+     * applied to whatever the invoice still owes unless told otherwise, and
+     * anything left can be refunded
+     */
+    async createCreditNote(invoiceId: string, input: CreateCreditNoteInput = {}): Promise<{ creditNote: CreditNote | null; error: string | null }> {
+        try {
+            const { data: invoice, error: invoiceError } = await supabase
+                .from('business_invoices')
+                .select('*')
+                .eq('id', invoiceId)
+                .single();
+
+            if (invoiceError || !invoice) throw new Error('Invoice not found');
+            if (invoice.status === 'draft') {
+                return { creditNote: null, error: 'Draft invoices can be edited or deleted instead' };
+            }
+
+            const { creditNotes: previous, error: previousError } = await this.getInvoiceCreditNotes(invoiceId);
+            if (previousError) throw new Error(previousError);
+
+            const credit = calculateCreditNote(invoice, previous, input.lines);
+            if (credit.error) {
+                return { creditNote: null, error: credit.error };
+            }
+
+            const currency = invoice.currency || 'USD';
+            const alreadyCredited = previous.reduce((sum, note) => sum + note.total, 0);
+            if (credit.total > roundMoney(parseFloat(invoice.total) - alreadyCredited, currency)) {
+                return { creditNote: null, error: 'Credit exceeds what is left of the invoice total' };
+            }
+
+            const issue = await businessInvoiceService.getIssueSnapshot(invoiceId, invoice);
+            const { data: userData } = await supabase.auth.getUser();
+
+            const { data: row, error: insertError } = await supabase
+                .from('credit_notes')
+                .insert({
+                    tenant_id: invoice.tenant_id,
+                    invoice_id: invoiceId,
+                    client_id: invoice.client_id,
+                    credit_note_number: await this.generateCreditNoteNumber(invoice.tenant_id),
+                    issue_date: input.issueDate || new Date().toISOString().split('T')[0],
+                    reason: input.reason || null,
+                    line_items: credit.lineItems,
+                    subtotal: credit.subtotal,
+                    discount_amount: credit.discountAmount,
+                    tax_rate: invoice.tax_rate || 0,
+                    tax: credit.tax,
+                    tax_lines: credit.taxLines,
+                    exempt_amount: credit.exemptAmount,
+                    total: credit.total,
+                    currency,
+                    exchange_rate: issue.exchangeRate,
+                    base_total: roundMoney(credit.total * issue.exchangeRate, issue.baseCurrency),
+                    created_by: userData.user?.id,
+                })
+                .select()
+                .single();
+
+            if (insertError) throw insertError;
+
+            let creditNote = mapCreditNote(row);
+
+            const { error: glError } = await this.postCreditNoteToGL(creditNote, invoice, issue.baseCurrency);
+            if (glError) {
+                console.error(`Failed to post credit note ${creditNote.creditNoteNumber} to GL:`, glError);
+            }
+
+            if (input.applyToBalance !== false) {
+                const applied = Math.min(creditNote.total, parseFloat(invoice.amount_due ?? 0));
+                if (applied > 0) {
+                    const { creditNote: updated, error: applyError } = await this.applyCreditNote(creditNote.id, applied);
+                    if (applyError) throw new Error(applyError);
+                    if (updated) creditNote = updated;
+                }
+            }
+
+            return { creditNote, error: null };
+        } catch (err: any) {
+            console.error('Error creating credit note:', err);
+            return { creditNote: null, error: err.message };
+        }
+    },
+
+    /**
+     * Apply credit to the invoice's open balance
+     * The GL already carries the reduced receivable from the credit note,
+     * so only the invoice balance moves
+     */
+    async applyCreditNote(creditNoteId: string, amount: number): Promise<{ creditNote: CreditNote | null; error: string | null }> {
+        try {
+            const { error } = await supabase.rpc('apply_credit_note', {
+                p_credit_note_id: creditNoteId,
+                p_amount: amount,
+            });
+
+            if (error) throw error;
+
+            const { data, error: fetchError } = await supabase
+                .from('credit_notes')
+                .select('*, credit_note_refunds(*)')
+                .eq('id', creditNoteId)
+                .single();
+
+            if (fetchError) throw fetchError;
+
+            return { creditNote: mapCreditNote(data), error: null };
+        } catch (err: any) {
+            console.error('Error applying credit note:', err);
+            return { creditNote: null, error: err.message };
+        }
+    },
+
+    /**
+     * Refund credit to the client and post the cash going out
+     */
+    async refundCreditNote(creditNoteId: string, input: RefundCreditNoteInput): Promise<{ refund: CreditNoteRefund | null; error: string | null }> {
+        try {
+            const { data: row, error: fetchError } = await supabase
+                .from('credit_notes')
+                .select('*, invoice:invoice_id (invoice_number, base_currency)')
+                .eq('id', creditNoteId)
+                .single();
+
+            if (fetchError || !row) throw new Error('Credit note not found');
+
+            const creditNote = mapCreditNote(row);
+            const amount = roundMoney(input.amount ?? creditNote.remainingCredit, creditNote.currency);
+            const refundDate = input.refundDate || new Date().toISOString().split('T')[0];
+
+            if (!(amount > 0)) {
+                return { refund: null, error: 'Refund amount must be greater than zero' };
+            }
+
+            const { data: userData } = await supabase.auth.getUser();
+
+            const { data: refund, error: refundError } = await supabase.rpc('refund_credit_note', {
+                p_credit_note_id: creditNoteId,
+                p_amount: amount,
+                p_refund_date: refundDate,
+                p_method: input.method,
+                p_reference: input.reference || null,
+                p_created_by: userData.user?.id || null,
+            });
+
+            if (refundError) throw refundError;
+
+            const { error: glError } = await this.postRefundToGL(creditNote, row.invoice, refund.id, amount, refundDate);
+            if (glError) {
+                console.error(`Failed to post refund ${refund.id} to GL:`, glError);
+            }
+
+            return {
+                refund: {
+                    id: refund.id,
+                    amount,
+                    refundDate,
+                    method: input.method,
+                    reference: input.reference,
+                    createdAt: refund.created_at,
+                },
+                error: null,
+            };
+        } catch (err: any) {
+            console.error('Error refunding credit note:', err);
+            return { refund: null, error: err.message };
+        }
+    },
+
+    /**
+     * Post a credit note to the General Ledger, reversing the invoice
+     * DR Revenue                   per product revenue account, else 4100
+     * DR Tax liability             per tax component account, else 2200
+     *   CR Accounts Receivable (1100)
+     * Amounts are in the base currency at the invoice's issue rate
+     */
+    async postCreditNoteToGL(creditNote: CreditNote, invoice: any, baseCurrency: string): Promise<{ error: string | null }> {
+        try {
+            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100');
+            const { account: revenueAccount } = await chartOfAccountsService.getAccountByCode('4100');
+
+            if (!arAccount || !revenueAccount) {
+                console.warn('Accounts Receivable (1100) or Service Revenue (4100) not found. Skipping GL post.');
+                return { error: 'Required accounts not found in Chart of Accounts' };
+            }
+
+            const baseTotal = creditNote.baseTotal ?? roundMoney(creditNote.total * creditNote.exchangeRate, baseCurrency);
+            const invoiceNumber = invoice.invoice_number;
+            const foreignAmount = creditNote.currency !== baseCurrency ? ` (${formatCurrency(creditNote.total, creditNote.currency)})` : '';
+            const taxes = taxPostings(getTaxLines(creditNote), creditNote.exchangeRate, baseCurrency);
+            const { account: taxAccount } = taxes.some(tax => !tax.accountId)
+                ? await chartOfAccountsService.getAccountByCode('2200')
+                : { account: null };
+
+            if (taxes.some(tax => !tax.accountId) && !taxAccount) {
+                console.warn('Sales Tax Payable (2200) not found. Skipping GL post.');
+                return { error: 'Required accounts not found in Chart of Accounts' };
+            }
+
+            const baseTax = roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0), baseCurrency);
+            const revenueAccounts = await productCatalogService.getRevenueAccounts(creditNote.lineItems.map(line => line.productId || ''));
+            const revenue = allocateRevenue(creditNote.lineItems, revenueAccounts, roundMoney(baseTotal - baseTax, baseCurrency), baseCurrency);
+
+            const { entry, error } = await journalEntryService.createEntry({
+                entryDate: creditNote.issueDate,
+                description: `Credit note ${creditNote.creditNoteNumber} for Invoice ${invoiceNumber}${foreignAmount}`,
+                reference: creditNote.creditNoteNumber,
+                sourceType: 'credit_note',
+                sourceId: creditNote.id,
+                currency: creditNote.currency,
+                exchangeRate: creditNote.exchangeRate,
+                lines: [
+                    ...revenue.map(part => ({
+                        accountId: part.accountId || revenueAccount.id,
+                        debitAmount: part.amount,
+                        creditAmount: 0,
+                        description: `Revenue reversed - ${creditNote.creditNoteNumber}`,
+                        entityType: 'invoice',
+                        entityId: creditNote.invoiceId,
+                    })),
+                    ...taxes.map(tax => ({
+                        accountId: tax.accountId || taxAccount!.id,
+                        debitAmount: tax.amount,
+                        creditAmount: 0,
+                        description: `${tax.label} reversed - ${creditNote.creditNoteNumber}`,
+                        entityType: 'invoice',
+                        entityId: creditNote.invoiceId,
+                    })),
+                    {
+                        accountId: arAccount.id,
+                        debitAmount: 0,
+                        creditAmount: baseTotal,
+                        description: `AR credited - Invoice ${invoiceNumber}`,
+                        entityType: 'invoice',
+                        entityId: creditNote.invoiceId,
+                    },
+                ],
+            });
+
+            if (error) {
+                console.error('Failed to create journal entry for credit note:', error);
+                return { error };
+            }
+
+            if (entry) {
+                await journalEntryService.postEntry(entry.id);
+                await supabase.from('credit_notes').update({ journal_entry_id: entry.id }).eq('id', creditNote.id);
+            }
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error posting credit note to GL:', err);
+            return { error: err.message };
+        }
+    },
+
+    /**
+     * Post a refund to the General Ledger
+     * DR Accounts Receivable (1100)        at the issue rate
+     *   CR Cash (1000)                     at the refund-date rate
+     *   DR FX Loss (8100) / CR FX Gain (7100) for the difference
+     */
+    async postRefundToGL(
+        creditNote: CreditNote,
+        invoice: { invoice_number: string; base_currency?: string },
+        refundId: string,
+        amount: number,
+        refundDate: string
+    ): Promise<{ error: string | null }> {
+        try {
+            const { account: cashAccount } = await chartOfAccountsService.getAccountByCode('1000');
+            const { account: arAccount } = await chartOfAccountsService.getAccountByCode('1100');
+
+            if (!cashAccount || !arAccount) {
+                console.warn('Cash (1000) or Accounts Receivable (1100) not found. Skipping GL post.');
+                return { error: 'Required accounts not found in Chart of Accounts' };
+            }
+
+            const baseCurrency = invoice.base_currency || await exchangeRateService.getBaseCurrency(creditNote.tenantId);
+            const { rate: refundRate, error: rateError } = await exchangeRateService.getRate(
+                creditNote.tenantId, creditNote.currency, baseCurrency, refundDate
+            );
+            if (rateError) throw new Error(rateError);
+
+            // Paying out more base currency than the receivable carried is a loss
+            const fx = exchangeRateService.calculateRealizedFx(amount, creditNote.exchangeRate, refundRate, baseCurrency);
+            const gainLoss = -fx.gainLoss;
+            const invoiceNumber = invoice.invoice_number;
+            const foreignAmount = creditNote.currency !== baseCurrency ? ` (${formatCurrency(amount, creditNote.currency)})` : '';
+
+            const lines = [
+                {
+                    accountId: arAccount.id,
+                    debitAmount: fx.carryingAmount,
+                    creditAmount: 0,
+                    description: `AR refunded - ${creditNote.creditNoteNumber}`,
+                    entityType: 'invoice',
+                    entityId: creditNote.invoiceId,
+                },
+                {
+                    accountId: cashAccount.id,
+                    debitAmount: 0,
+                    creditAmount: fx.settledAmount,
+                    description: `Cash refunded - Invoice ${invoiceNumber}`,
+                    entityType: 'invoice',
+                    entityId: creditNote.invoiceId,
+                },
+            ];
+
+            if (gainLoss !== 0) {
+                const { account: fxAccount } = await chartOfAccountsService.getAccountByCode(gainLoss > 0 ? '7100' : '8100');
+                if (!fxAccount) {
+                    return { error: 'Realized FX Gain (7100) or Loss (8100) account not found in Chart of Accounts' };
+                }
+
+                lines.push({
+                    accountId: fxAccount.id,
+                    debitAmount: gainLoss < 0 ? -gainLoss : 0,
+                    creditAmount: gainLoss > 0 ? gainLoss : 0,
+                    description: `Realized FX ${gainLoss > 0 ? 'gain' : 'loss'} - ${creditNote.creditNoteNumber}`,
+                    entityType: 'invoice',
+                    entityId: creditNote.invoiceId,
+                });
+            }
+
+            const { entry, error } = await journalEntryService.createEntry({
+                entryDate: refundDate,
+                description: `Refund of ${creditNote.creditNoteNumber} for Invoice ${invoiceNumber}${foreignAmount}`,
+                reference: creditNote.creditNoteNumber,
+                sourceType: 'refund',
+                sourceId: refundId,
+                currency: creditNote.currency,
+                exchangeRate: refundRate,
+                lines,
+            });
+
+            if (error) {
+                console.error('Failed to create journal entry for refund:', error);
+                return { error };
+            }
+
+            if (entry) {
+                await journalEntryService.postEntry(entry.id);
+                await supabase.from('credit_note_refunds').update({ journal_entry_id: entry.id }).eq('id', refundId);
+            }
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error posting refund to GL:', err);
+            return { error: err.message };
+        }
+    },
+
+    /**
+     * Generate a PDF for a credit note, laid out like its invoice
+     */
+    generatePDF(creditNote: CreditNote, invoice: any, tenant: any, client: any) {
+        const doc = new jsPDF();
+        const primaryColor = '#14b8a6'; // Teal-500
+        const money = (amount: number) => formatCurrency(amount, creditNote.currency, { pdf: true });
+        const senderName = invoice.senderName || invoice.sender_name || tenant.name || 'Company Name';
+
+        // Header - Company Info
+        doc.setFillColor(248, 250, 252); // slate-50
+        doc.rect(0, 0, 210, 60, 'F');
+
+        doc.setFontSize(24);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(15, 23, 42); // slate-900
+        doc.text(senderName, 20, 30);
+
+        // Right side - Credit Note Label
+        doc.setFontSize(26);
+        doc.setTextColor(primaryColor);
+        doc.text('CREDIT NOTE', 120, 35);
+
+        // Credit Note Metadata
+        doc.setFontSize(10);
+        doc.setTextColor(71, 85, 105); // slate-600
+        doc.text('Credit Note:', 120, 45);
+        doc.setFont('helvetica', 'bold');
+        doc.text(creditNote.creditNoteNumber, 160, 45);
+
+        doc.setFont('helvetica', 'normal');
+        doc.text('Issue Date:', 120, 50);
+        doc.text(creditNote.issueDate, 160, 50);
+
+        doc.text('Invoice:', 120, 55);
+        doc.text(invoice.invoice_number || invoice.invoiceNumber, 160, 55);
+
+        // Billing Details
+        doc.setTextColor(15, 23, 42);
+        doc.setFontSize(12);
+        doc.setFont('helvetica', 'bold');
+        doc.text('CREDIT TO:', 20, 80);
+
+        if (client && client.name) {
+            doc.setFontSize(11);
+            doc.text(client.name, 20, 88);
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(71, 85, 105);
+            if (client.company) doc.text(client.company, 20, 93);
+            if (client.email) doc.text(client.email, 20, 98);
+        } else {
+            doc.setFontSize(11);
+            doc.setFont('helvetica', 'italic');
+            doc.setTextColor(148, 163, 184); // slate-400
+            doc.text('Individual Standalone Client', 20, 88);
+        }
+
+        if (creditNote.reason) {
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(15, 23, 42);
+            doc.text('REASON:', 120, 80);
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(71, 85, 105);
+            doc.text(doc.splitTextToSize(creditNote.reason, 70), 120, 88);
+        }
+
+        // Table Header
+        let y = 120;
+        doc.setFillColor(15, 23, 42);
+        doc.rect(20, y, 170, 10, 'F');
+
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'bold');
+        doc.setTextColor(255, 255, 255);
+        doc.text('DESCRIPTION', 25, y + 6.5);
+        doc.text('QTY', 120, y + 6.5);
+        doc.text('RATE', 160, y + 6.5, { align: 'right' });
+        doc.text('AMOUNT', 186, y + 6.5, { align: 'right' });
+
+        // Items
+        y += 18;
+        doc.setTextColor(15, 23, 42);
+        doc.setFont('helvetica', 'normal');
+
+        creditNote.lineItems.forEach(item => {
+            doc.text(item.description, 25, y);
+            doc.text(item.quantity.toString(), 120, y);
+            doc.text(money(item.rate), 160, y, { align: 'right' });
+            doc.text(money(item.amount), 186, y, { align: 'right' });
+            y += 10;
+
+            doc.setDrawColor(241, 245, 249); // slate-100
+            doc.line(20, y - 6, 190, y - 6);
+        });
+
+        // Totals
+        y += 10;
+        doc.text('Subtotal:', 140, y);
+        doc.text(money(creditNote.subtotal), 186, y, { align: 'right' });
+
+        if (creditNote.discountAmount > 0) {
+            y += 8;
+            doc.text('Discount:', 140, y);
+            doc.text(`-${money(creditNote.discountAmount)}`, 186, y, { align: 'right' });
+        }
+
+        y += 8;
+        doc.text(`Tax (${creditNote.taxRate}%):`, 140, y);
+        doc.text(money(creditNote.tax), 186, y, { align: 'right' });
+
+        y += 12;
+        doc.setFillColor(248, 250, 252);
+        doc.rect(105, y - 8, 85, 12, 'F');
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(14);
+        doc.setTextColor(primaryColor);
+        doc.text('CREDIT:', 110, y);
+        doc.text(money(creditNote.total), 186, y, { align: 'right' });
+
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        doc.setTextColor(15, 23, 42);
+        if (creditNote.amountApplied > 0) {
+            y += 10;
+            doc.text('Applied to invoice:', 130, y);
+            doc.text(money(creditNote.amountApplied), 186, y, { align: 'right' });
+        }
+        if (creditNote.amountRefunded > 0) {
+            y += 8;
+            doc.text('Refunded:', 130, y);
+            doc.text(money(creditNote.amountRefunded), 186, y, { align: 'right' });
+        }
+        if (creditNote.remainingCredit > 0) {
+            y += 8;
+            doc.setFont('helvetica', 'bold');
+            doc.text('Credit remaining:', 130, y);
+            doc.text(money(creditNote.remainingCredit), 186, y, { align: 'right' });
+        }
+
+        // Footer
+        const pageHeight = doc.internal.pageSize.height;
+        doc.setFontSize(8);
+        doc.setFont('helvetica', 'normal');
+        doc.setTextColor(148, 163, 184);
+        doc.text('This credit note was generated electronically by AlphaClone Finance Engine.', 105, pageHeight - 25, { align: 'center' });
+        doc.text(`© ${new Date().getFullYear()} ${tenant.name}. All Rights Reserved.`, 105, pageHeight - 20, { align: 'center' });
+
+        return doc;
+    },
+};
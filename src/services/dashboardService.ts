@@ -4,6 +4,7 @@ import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 export interface Notification {
     id: string;
     user_id: string;
+    tenant_id?: string;
     type: 'message' | 'project' | 'payment' | 'system' | 'alert';
     title: string;
     message?: string;
@@ -57,6 +57,7 @@ export interface DealProduct {
     discountPercent: number;
     taxPercent: number;
     total: number;
+    productId?: string;         // Catalog product the line was picked from
     metadata?: any;
     createdAt: string;
 }
@@ -121,6 +122,7 @@ export interface DealService {
             unitPrice: number;
             discountPercent?: number;
             taxPercent?: number;
+            productId?: string;
         }
     ): Promise<{ product: DealProduct | null; error: string | null }>;
     deleteDealProduct(productId: string): Promise<{ success: boolean; error: string | null }>;
@@ -545,6 +547,7 @@ export const dealService: DealService = {
                 discountPercent: p.discount_percent,
                 taxPercent: p.tax_percent,
                 total: p.total,
+                productId: p.product_id || undefined,
                 metadata: p.metadata || {},
                 createdAt: p.created_at,
             }));
@@ -567,6 +570,7 @@ export const dealService: DealService = {
             unitPrice: number;
             discountPercent?: number;
             taxPercent?: number;
+            productId?: string;
         }
     ): Promise<{ product: DealProduct | null; error: string | null }> {
         try {
@@ -580,6 +584,7 @@ export const dealService: DealService = {
                     unit_price: productData.unitPrice,
                     discount_percent: productData.discountPercent || 0,
                     tax_percent: productData.taxPercent || 0,
+                    product_id: productData.productId || null,
                 })
                 .select()
                 .single();
@@ -596,6 +601,7 @@ export const dealService: DealService = {
                 discountPercent: data.discount_percent,
                 taxPercent: data.tax_percent,
                 total: data.total,
+                productId: data.product_id || undefined,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
             };
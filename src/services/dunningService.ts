@@ -0,0 +1,251 @@
+import { supabase } from '../lib/supabase';
+import { InvoiceReminderTone } from './emailTemplates';
+import { roundMoney } from './accounting/currency';
+
+export type LateFeeType = 'none' | 'flat' | 'percentage' | 'interest';
+
+export interface DunningStep {
+    offsetDays: number;             // Days after the due date; negative before it
+    template: InvoiceReminderTone;
+}
+
+export interface DunningPolicy {
+    id?: string;
+    tenantId: string;
+    isEnabled: boolean;
+    steps: DunningStep[];
+    lateFeeType: LateFeeType;
+    lateFeeValue: number;           // Flat amount, % of the amount due, or annual interest %
+    lateFeeGraceDays: number;
+    maxLateFees: number;            // Fees are charged every 30 days up to this many times
+    minAmountDue: number;           // Smaller balances are not chased
+    pauseOnPartialPayment: boolean;
+}
+
+export interface InvoiceReminder {
+    id: string;
+    invoiceId: string;
+    stepIndex: number;
+    template: InvoiceReminderTone;
+    offsetDays: number;
+    recipient?: string;
+    amountDue?: number;
+    status: 'pending' | 'sent' | 'failed';
+    error?: string;
+    sentAt?: string;
+    createdAt: string;
+}
+
+export const DEFAULT_DUNNING_STEPS: DunningStep[] = [
+    { offsetDays: -3, template: 'friendly' },
+    { offsetDays: 1, template: 'overdue' },
+    { offsetDays: 7, template: 'firm' },
+    { offsetDays: 21, template: 'final' },
+];
+
+export const REMINDER_TONE_LABELS: Record<InvoiceReminderTone, string> = {
+    friendly: 'Friendly reminder',
+    overdue: 'Overdue notice',
+    firm: 'Firm reminder',
+    final: 'Final notice',
+};
+
+export const REMINDER_SUBJECTS: Record<InvoiceReminderTone, (invoiceNumber: string, businessName: string) => string> = {
+    friendly: (number, business) => `Reminder: Invoice ${number} from ${business} is due soon`,
+    overdue: (number, business) => `Invoice ${number} from ${business} is overdue`,
+    firm: (number, business) => `Payment required: Invoice ${number} from ${business}`,
+    final: (number, business) => `Final notice: Invoice ${number} from ${business}`,
+};
+
+const LATE_FEE_PERIOD_DAYS = 30;
+
+export const mapPolicy = (row: any): DunningPolicy => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    isEnabled: row.is_enabled,
+    steps: row.steps || [],
+    lateFeeType: row.late_fee_type || 'none',
+    lateFeeValue: parseFloat(row.late_fee_value || 0),
+    lateFeeGraceDays: row.late_fee_grace_days || 0,
+    maxLateFees: row.max_late_fees ?? 1,
+    minAmountDue: parseFloat(row.min_amount_due || 0),
+    pauseOnPartialPayment: row.pause_on_partial_payment || false,
+});
+
+const mapReminder = (row: any): InvoiceReminder => ({
+    id: row.id,
+    invoiceId: row.invoice_id,
+    stepIndex: row.step_index,
+    template: row.template,
+    offsetDays: row.offset_days,
+    recipient: row.recipient || undefined,
+    amountDue: row.amount_due != null ? parseFloat(row.amount_due) : undefined,
+    status: row.status,
+    error: row.error || undefined,
+    sentAt: row.sent_at || undefined,
+    createdAt: row.created_at,
+});
+
+export const daysBetween = (from: string, to: string): number =>
+    Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000);
+
+/**
+ * Index of the reminder step to send today, or null
+ * Only the latest step whose day has come is sent, so an invoice that joins
+ * the schedule late is not sent every earlier reminder at once; nothing
+ * follows a final notice
+ */
+export function getDueStep(steps: DunningStep[], daysOverdue: number, sentStepIndexes: number[]): number | null {
+    const lastSent = sentStepIndexes.length > 0 ? Math.max(...sentStepIndexes) : -1;
+    if (sentStepIndexes.some(index => steps[index]?.template === 'final')) return null;
+
+    let due: number | null = null;
+    steps.forEach((step, index) => {
+        if (index > lastSent && step.offsetDays <= daysOverdue) due = index;
+    });
+
+    return due;
+}
+
+/**
+ * Late fee owed today on an invoice, in its currency; 0 when none is due
+ * A fee is charged once the grace period is over and again every 30 days,
+ * up to the policy's maximum. Interest accrues daily at the annual rate
+ * since the due date or the last charge.
+ */
+export function calculateLateFee(
+    policy: DunningPolicy,
+    invoice: { dueDate: string; amountDue: number; currency: string; lateFeesApplied: number; lastLateFeeDate?: string },
+    today: string
+): number {
+    if (policy.lateFeeType === 'none' || policy.lateFeeValue <= 0) return 0;
+    if (invoice.lateFeesApplied >= policy.maxLateFees) return 0;
+    if (daysBetween(invoice.dueDate, today) <= policy.lateFeeGraceDays) return 0;
+    if (invoice.lastLateFeeDate && daysBetween(invoice.lastLateFeeDate, today) < LATE_FEE_PERIOD_DAYS) return 0;
+
+    switch (policy.lateFeeType) {
+        case 'flat':
+            return roundMoney(policy.lateFeeValue, invoice.currency);
+        case 'percentage':
+            return roundMoney(invoice.amountDue * policy.lateFeeValue / 100, invoice.currency);
+        case 'interest': {
+            const days = daysBetween(invoice.lastLateFeeDate || invoice.dueDate, today);
+            return roundMoney(invoice.amountDue * (policy.lateFeeValue / 100) * (days / 365), invoice.currency);
+        }
+        default:
+            return 0;
+    }
+}
+
+export const dunningService = {
+    /**
+     * Get a tenant's dunning policy; tenants without one get the default
+     * schedule, switched off
+     */
+    async getPolicy(tenantId: string): Promise<{ policy: DunningPolicy; error: string | null }> {
+        const fallback: DunningPolicy = {
+            tenantId,
+            isEnabled: false,
+            steps: DEFAULT_DUNNING_STEPS,
+            lateFeeType: 'none',
+            lateFeeValue: 0,
+            lateFeeGraceDays: 0,
+            maxLateFees: 1,
+            minAmountDue: 0,
+            pauseOnPartialPayment: false,
+        };
+
+        try {
+            const { data, error } = await supabase
+                .from('dunning_policies')
+                .select('*')
+                .eq('tenant_id', tenantId)
+                .maybeSingle();
+
+            if (error) throw error;
+
+            return { policy: data ? mapPolicy(data) : fallback, error: null };
+        } catch (err: any) {
+            console.error('Error fetching dunning policy:', err);
+            return { policy: fallback, error: err.message };
+        }
+    },
+
+    /**
+     * Create or update a tenant's dunning policy
+     */
+    async savePolicy(tenantId: string, policy: Partial<DunningPolicy>): Promise<{ policy: DunningPolicy | null; error: string | null }> {
+        try {
+            const steps = [...(policy.steps || DEFAULT_DUNNING_STEPS)].sort((a, b) => a.offsetDays - b.offsetDays);
+            const finalIndex = steps.findIndex(step => step.template === 'final');
+            if (finalIndex !== -1 && finalIndex !== steps.length - 1) {
+                return { policy: null, error: 'The final notice must be the last reminder' };
+            }
+            if (new Set(steps.map(step => step.offsetDays)).size !== steps.length) {
+                return { policy: null, error: 'Each reminder must be on a different day' };
+            }
+
+            const { data, error } = await supabase
+                .from('dunning_policies')
+                .upsert({
+                    tenant_id: tenantId,
+                    is_enabled: policy.isEnabled ?? true,
+                    steps,
+                    late_fee_type: policy.lateFeeType || 'none',
+                    late_fee_value: policy.lateFeeValue || 0,
+                    late_fee_grace_days: policy.lateFeeGraceDays || 0,
+                    max_late_fees: policy.maxLateFees ?? 1,
+                    min_amount_due: policy.minAmountDue || 0,
+                    pause_on_partial_payment: policy.pauseOnPartialPayment || false,
+                }, { onConflict: 'tenant_id' })
+                .select()
+                .single();
+
+            if (error) throw error;
+
+            return { policy: mapPolicy(data), error: null };
+        } catch (err: any) {
+            console.error('Error saving dunning policy:', err);
+            return { policy: null, error: err.message };
+        }
+    },
+
+    /**
+     * Get the reminders sent for an invoice, oldest first
+     */
+    async getInvoiceReminders(invoiceId: string): Promise<{ reminders: InvoiceReminder[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('invoice_reminders')
+                .select('*')
+                .eq('invoice_id', invoiceId)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+
+            return { reminders: (data || []).map(mapReminder), error: null };
+        } catch (err: any) {
+            console.error('Error fetching invoice reminders:', err);
+            return { reminders: [], error: err.message };
+        }
+    },
+
+    /**
+     * Pause or resume reminders and late fees for one invoice
+     */
+    async setInvoicePaused(invoiceId: string, paused: boolean): Promise<{ error: string | null }> {
+        try {
+            const { error } = await supabase
+                .from('business_invoices')
+                .update({ dunning_paused: paused })
+                .eq('id', invoiceId);
+
+            if (error) throw error;
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error pausing dunning:', err);
+            return { error: err.message };
+        }
+    },
+};
@@ -267,6 +267,19 @@ class EmailService {
                 `,
                 variables: ['email', 'reset_url'],
             },
+            [EMAIL_TEMPLATES.INVOICE_CREATED]: {
+                name: 'invoice_created',
+                subject: 'Invoice {{invoice_number}} from {{business_name}}',
+                html: `
+                    <h1>New Invoice</h1>
+                    <p>{{business_name}} has sent you invoice {{invoice_number}} for <strong>{{amount}}</strong>.</p>
+                    <p>Payment is due by {{due_date}}.</p>
+                    <a href="{{invoice_url}}" style="background: #14B8A6; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+                        View & Pay Invoice
+                    </a>
+                `,
+                variables: ['business_name', 'invoice_number', 'amount', 'due_date', 'invoice_url'],
+            },
             [EMAIL_TEMPLATES.INVOICE_PAID]: {
                 name: 'invoice_paid',
                 subject: 'Payment Received - Invoice {{invoice_number}}',
@@ -363,6 +376,26 @@ export const emailHelpers = {
         });
     },
 
+    /**
+     * Send a new invoice to the client
+     */
+    async sendInvoiceCreated(
+        email: string,
+        businessName: string,
+        invoiceNumber: string,
+        amount: string,
+        dueDate: string,
+        invoiceUrl: string
+    ) {
+        return emailService.sendTemplate(EMAIL_TEMPLATES.INVOICE_CREATED, email, {
+            business_name: businessName,
+            invoice_number: invoiceNumber,
+            amount,
+            due_date: dueDate,
+            invoice_url: invoiceUrl,
+        });
+    },
+
     /**
      * Send invoice paid notification
      */
@@ -1,5 +1,5 @@
 /**
- * Email Templates for Meeting Confirmations
+ * Email Templates for Meeting Confirmations and Payment Reminders
  */
 
 export interface MeetingConfirmationData {
@@ -15,6 +15,43 @@ export interface MeetingConfirmationData {
     description?: string;
 }
 
+export type InvoiceReminderTone = 'friendly' | 'overdue' | 'firm' | 'final';
+
+export interface InvoiceReminderData {
+    tone: InvoiceReminderTone;
+    clientName: string;
+    businessName: string;
+    invoiceNumber: string;
+    amountDue: string;
+    dueDate: string;
+    daysOverdue: number;            // Negative before the due date
+    invoiceUrl: string;
+    lateFee?: string;               // Fee added or to be added, already formatted
+}
+
+const REMINDER_COPY: Record<InvoiceReminderTone, { heading: string; color: string; body: (data: InvoiceReminderData) => string }> = {
+    friendly: {
+        heading: 'Payment Reminder',
+        color: '#14b8a6',
+        body: (data) => `This is a friendly reminder that invoice <strong style="color: white;">${data.invoiceNumber}</strong> is due on ${data.dueDate}.`
+    },
+    overdue: {
+        heading: 'Invoice Overdue',
+        color: '#f59e0b',
+        body: (data) => `Invoice <strong style="color: white;">${data.invoiceNumber}</strong> was due on ${data.dueDate} and is now ${data.daysOverdue} day${data.daysOverdue === 1 ? '' : 's'} overdue. If you have already paid, please disregard this message.`
+    },
+    firm: {
+        heading: 'Payment Required',
+        color: '#f97316',
+        body: (data) => `We have not yet received payment for invoice <strong style="color: white;">${data.invoiceNumber}</strong>, which is ${data.daysOverdue} days overdue. Please arrange payment as soon as possible.`
+    },
+    final: {
+        heading: 'Final Notice',
+        color: '#e11d48',
+        body: (data) => `Invoice <strong style="color: white;">${data.invoiceNumber}</strong> is ${data.daysOverdue} days overdue. This is our final reminder before the account is referred for further action.`
+    }
+};
+
 export const emailTemplates = {
     /**
      * Generate meeting confirmation email HTML
@@ -124,6 +161,106 @@ export const emailTemplates = {
     `;
     },
 
+    /**
+     * Generate payment reminder email HTML; the tone escalates with the
+     * dunning step
+     */
+    invoiceReminder(data: InvoiceReminderData): string {
+        const copy = REMINDER_COPY[data.tone] || REMINDER_COPY.friendly;
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${copy.heading}</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background-color: #0f172a;">
+  <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0f172a;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table width="600" cellpadding="0" cellspacing="0" style="background-color: #1e293b; border-radius: 16px; overflow: hidden;">
+
+          <!-- Header -->
+          <tr>
+            <td style="background-color: ${copy.color}; padding: 32px; text-align: center;">
+              <h1 style="margin: 0; color: white; font-size: 24px; font-weight: bold;">
+                ${copy.heading}
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 32px;">
+              <p style="margin: 0 0 24px 0; color: #cbd5e1; font-size: 16px;">
+                Hi ${data.clientName},
+              </p>
+
+              <p style="margin: 0 0 24px 0; color: #cbd5e1; font-size: 16px;">
+                ${copy.body(data)}
+              </p>
+
+              <!-- Balance Card -->
+              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0f172a; border-radius: 12px; margin-bottom: 24px;">
+                <tr>
+                  <td style="padding: 24px;">
+                    <table width="100%" cellpadding="0" cellspacing="0">
+                      <tr>
+                        <td style="padding: 8px 0; color: #94a3b8; font-size: 14px;">Invoice:</td>
+                        <td style="padding: 8px 0; color: white; font-size: 14px; text-align: right;">${data.invoiceNumber}</td>
+                      </tr>
+                      <tr>
+                        <td style="padding: 8px 0; color: #94a3b8; font-size: 14px;">Due Date:</td>
+                        <td style="padding: 8px 0; color: white; font-size: 14px; text-align: right;">${data.dueDate}</td>
+                      </tr>
+                      ${data.lateFee ? `
+                      <tr>
+                        <td style="padding: 8px 0; color: #94a3b8; font-size: 14px;">Late Fee:</td>
+                        <td style="padding: 8px 0; color: white; font-size: 14px; text-align: right;">${data.lateFee}</td>
+                      </tr>
+                      ` : ''}
+                      <tr>
+                        <td style="padding: 8px 0; color: #94a3b8; font-size: 14px;">Amount Due:</td>
+                        <td style="padding: 8px 0; color: white; font-size: 18px; font-weight: bold; text-align: right;">${data.amountDue}</td>
+                      </tr>
+                    </table>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Pay Button -->
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center" style="padding: 16px 0;">
+                    <a href="${data.invoiceUrl}" style="display: inline-block; padding: 16px 32px; background-color: ${copy.color}; color: white; text-decoration: none; border-radius: 8px; font-weight: bold; font-size: 16px;">
+                      View &amp; Pay Invoice
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 24px; background-color: #0f172a; text-align: center; border-top: 1px solid #334155;">
+              <p style="margin: 0; color: #64748b; font-size: 12px;">
+                ${data.businessName}
+              </p>
+            </td>
+          </tr>
+
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+    `;
+    },
+
     /**
      * Generate calendar invite (.ics file content)
      */
@@ -1,3 +1,4 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { jsPDF } from 'jspdf';
 
@@ -235,6 +236,61 @@ export const esignatureComplianceService = {
         }
     },
 
+    /**
+     * Record a client's signature accepting a quote
+     * Public acceptance has no signed-in user, so the server passes its
+     * admin client and the signer is identified by name and email
+     */
+    async recordQuoteSignature(
+        quoteId: string,
+        signerName: string,
+        signerEmail: string,
+        signatureData: string,
+        contentHash: string,
+        ipAddress: string,
+        userAgent: string,
+        client: SupabaseClient = supabase
+    ): Promise<{ success: boolean; eventId?: string; error?: string }> {
+        try {
+            const signedAt = new Date().toISOString();
+            const tamperSeal = await this.generateHash(
+                [quoteId, signerEmail, contentHash, signedAt].join('|')
+            );
+
+            const { data, error } = await client
+                .from('signature_events')
+                .insert({
+                    quote_id: quoteId,
+                    signer_role: 'client',
+                    signer_name: signerName,
+                    signer_email: signerEmail,
+                    signer_ip: ipAddress,
+                    event_type: 'signature_completed',
+                    signature_data: signatureData,
+                    authentication_method: 'email',
+                    intent_statement: this.INTENT_STATEMENT.replace('[NAME]', signerName),
+                    device_info: {
+                        user_agent: userAgent,
+                        timestamp: signedAt,
+                    },
+                    content_hash_at_signing: contentHash,
+                    tamper_seal: tamperSeal,
+                })
+                .select()
+                .single();
+
+            if (error) throw error;
+
+            return { success: true, eventId: data.id };
+        } catch (error) {
+            console.error('Failed to record quote signature:', error);
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to record quote signature',
+            };
+        }
+    },
+
     /**
      * Generate SHA-256 hash
      */
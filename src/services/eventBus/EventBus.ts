@@ -1,20 +1,43 @@
 /**
  * Event Bus - Core Service
  * Central nervous system for the Business OS
+ *
+ * Subscriptions stored in event_subscriptions are delivered server-side by
+ * the event consumer (see EventConsumer.ts). Handlers registered here with
+ * subscribe() are in-process listeners fed by Supabase Realtime: they only
+ * see events while this process is connected and do not affect event status.
+ *
+ * Both kinds of subscription take an event pattern (see matching.ts), and
+ * may be narrowed to one tenant and by payload filters such as
+ * `eventData.amount > 1000`.
  */
 
 import { supabase } from '../../lib/supabase';
+import { eventConsumer } from './EventConsumer';
+import { mapEvent, mapSubscription } from './mappers';
+import { matchesSubscription, normalizeFilters } from './matching';
 import type {
+    CreateSubscriptionInput,
     Event,
-    EventSubscription,
     EventHandlerFunction,
+    EventSubscription,
     PublishEventOptions,
+    SubscribeOptions,
+    SubscriptionFilter,
     EventStatus
 } from './types';
 import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
+// In-process subscription registered with subscribe()
+interface HandlerRegistration {
+    eventPattern: string;
+    filters: SubscriptionFilter[];
+    tenantId?: string;
+    handler: EventHandlerFunction;
+}
+
 class EventBusService {
-    private handlers: Map<string, EventHandlerFunction[]> = new Map();
+    private registrations: HandlerRegistration[] = [];
     private isListening: boolean = false;
 
     /**
@@ -26,7 +49,9 @@ class EventBusService {
                 p_event_type: options.eventType,
                 p_event_source: options.eventSource,
                 p_event_data: options.eventData,
-                p_metadata: options.metadata || {}
+                p_metadata: options.metadata || {},
+                p_idempotency_key: options.idempotencyKey || null,
+                p_tenant_id: options.tenantId || options.metadata?.tenantId || null
             });
 
             if (error) throw error;
@@ -44,13 +69,16 @@ class EventBusService {
     }
 
     /**
-     * Subscribe to events matching a pattern
+     * Subscribe in-process to events matching a pattern
+     * Filters may be objects or expressions, e.g. 'eventData.amount > 1000'
      */
-    subscribe(eventPattern: string, handler: EventHandlerFunction): void {
-        if (!this.handlers.has(eventPattern)) {
-            this.handlers.set(eventPattern, []);
-        }
-        this.handlers.get(eventPattern)!.push(handler);
+    subscribe(eventPattern: string, handler: EventHandlerFunction, options: SubscribeOptions = {}): void {
+        this.registrations.push({
+            eventPattern,
+            filters: normalizeFilters(options.filters),
+            tenantId: options.tenantId,
+            handler
+        });
 
         console.log(`[EventBus] Subscribed to pattern: ${eventPattern}`);
 
@@ -64,16 +92,9 @@ class EventBusService {
      * Unsubscribe from events
      */
     unsubscribe(eventPattern: string, handler: EventHandlerFunction): void {
-        const handlers = this.handlers.get(eventPattern);
-        if (handlers) {
-            const index = handlers.indexOf(handler);
-            if (index > -1) {
-                handlers.splice(index, 1);
-            }
-            if (handlers.length === 0) {
-                this.handlers.delete(eventPattern);
-            }
-        }
+        this.registrations = this.registrations.filter(registration =>
+            registration.eventPattern !== eventPattern || registration.handler !== handler
+        );
     }
 
     /**
@@ -89,9 +110,8 @@ class EventBusService {
                 event: 'INSERT',
                 schema: 'public',
                 table: 'events'
-            }, async (payload: RealtimePostgresChangesPayload<Event>) => {
-                const event = payload.new as Event;
-                await this.processEvent(event);
+            }, async (payload: RealtimePostgresChangesPayload<Record<string, any>>) => {
+                await this.notifyHandlers(mapEvent(payload.new));
             })
             .subscribe();
 
@@ -100,97 +120,111 @@ class EventBusService {
     }
 
     /**
-     * Process an event by executing matching handlers
+     * Run in-process handlers for an event
+     * Failures are logged only; reliable handling belongs in an event subscription
      */
-    private async processEvent(event: Event): Promise<void> {
-        const startTime = Date.now();
+    private async notifyHandlers(event: Event): Promise<void> {
+        const handlers = this.getMatchingHandlers(event);
+        if (handlers.length === 0) return;
 
-        try {
-            // Update event status to processing
-            await this.updateEventStatus(event.id, 'processing');
-
-            // Get matching handlers
-            const handlers = this.getMatchingHandlers(event.eventType);
+        const results = await Promise.allSettled(handlers.map(handler => handler(event)));
 
-            if (handlers.length === 0) {
-                console.log(`[EventBus] No handlers for event: ${event.eventType}`);
-                await this.updateEventStatus(event.id, 'completed');
-                return;
+        results.forEach(result => {
+            if (result.status === 'rejected') {
+                console.error(`[EventBus] Handler failed for ${event.eventType}:`, result.reason);
             }
+        });
+    }
 
-            // Execute all handlers
-            const results = await Promise.allSettled(
-                handlers.map((handler: any) => handler(event))
-            );
-
-            // Check for failures
-            const failures = results.filter(r => r.status === 'rejected');
-
-            if (failures.length > 0) {
-                const errors = failures.map((f: any) => f.reason?.message || 'Unknown error');
-                await this.updateEventStatus(
-                    event.id,
-                    'failed',
-                    errors.join('; ')
-                );
-            } else {
-                await this.updateEventStatus(event.id, 'completed');
-            }
+    /**
+     * Get handlers whose pattern, tenant and filters match the event
+     */
+    private getMatchingHandlers(event: Event): EventHandlerFunction[] {
+        return this.registrations
+            .filter(registration => matchesSubscription(event, registration))
+            .map(registration => registration.handler);
+    }
 
-            const executionTime = Date.now() - startTime;
-            console.log(`[EventBus] Processed event ${event.eventType} in ${executionTime}ms`);
+    /**
+     * Store a subscription delivered server-side by the event consumer
+     * The handler must be registered with eventConsumer.registerHandler()
+     */
+    async createSubscription(input: CreateSubscriptionInput): Promise<EventSubscription> {
+        const { data, error } = await supabase
+            .from('event_subscriptions')
+            .insert({
+                subscriber_name: input.subscriberName,
+                event_pattern: input.eventPattern,
+                handler_config: { ...input.handlerConfig, handler: input.handler },
+                filters: normalizeFilters(input.filters),
+                tenant_id: input.tenantId || null,
+                priority: input.priority ?? 10,
+                max_attempts: input.maxAttempts ?? 5,
+                retry_backoff_seconds: input.retryBackoffSeconds ?? 30
+            })
+            .select()
+            .single();
 
-        } catch (error: any) {
-            console.error('[EventBus] Error processing event:', error);
-            await this.updateEventStatus(event.id, 'failed', error.message);
-        }
+        if (error) throw error;
+        return mapSubscription(data);
     }
 
     /**
-     * Get handlers that match the event type
+     * List stored subscriptions
+     * With a tenant, that tenant's subscriptions and the global ones
      */
-    private getMatchingHandlers(eventType: string): EventHandlerFunction[] {
-        const matchingHandlers: EventHandlerFunction[] = [];
+    async listSubscriptions(tenantId?: string): Promise<EventSubscription[]> {
+        let query = supabase
+            .from('event_subscriptions')
+            .select('*')
+            .order('priority', { ascending: true });
 
-        for (const [pattern, handlers] of this.handlers.entries()) {
-            if (this.matchesPattern(eventType, pattern)) {
-                matchingHandlers.push(...handlers);
-            }
+        if (tenantId) {
+            query = query.or(`tenant_id.eq.${tenantId},tenant_id.is.null`);
         }
 
-        return matchingHandlers;
+        const { data, error } = await query;
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapSubscription(row));
     }
 
     /**
-     * Check if event type matches pattern
-     * Supports wildcards: user.* matches user.created, user.updated, etc.
+     * Change a stored subscription's pattern, filters or state
      */
-    private matchesPattern(eventType: string, pattern: string): boolean {
-        if (pattern === '*') return true;
-        if (pattern === eventType) return true;
-
-        // Convert pattern to regex
-        const regexPattern = pattern
-            .replace(/\./g, '\\.')
-            .replace(/\*/g, '.*');
-        const regex = new RegExp(`^${regexPattern}$`);
+    async updateSubscription(
+        id: string,
+        updates: Partial<Pick<CreateSubscriptionInput, 'eventPattern' | 'filters' | 'priority' | 'maxAttempts' | 'retryBackoffSeconds'>> & { isActive?: boolean }
+    ): Promise<EventSubscription> {
+        const { data, error } = await supabase
+            .from('event_subscriptions')
+            .update({
+                ...(updates.eventPattern !== undefined && { event_pattern: updates.eventPattern }),
+                ...(updates.filters !== undefined && { filters: normalizeFilters(updates.filters) }),
+                ...(updates.priority !== undefined && { priority: updates.priority }),
+                ...(updates.maxAttempts !== undefined && { max_attempts: updates.maxAttempts }),
+                ...(updates.retryBackoffSeconds !== undefined && { retry_backoff_seconds: updates.retryBackoffSeconds }),
+                ...(updates.isActive !== undefined && { is_active: updates.isActive }),
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', id)
+            .select()
+            .single();
 
-        return regex.test(eventType);
+        if (error) throw error;
+        return mapSubscription(data);
     }
 
     /**
-     * Update event status in database
+     * Delete a stored subscription along with its pending deliveries
      */
-    private async updateEventStatus(
-        eventId: string,
-        status: EventStatus,
-        errorMessage?: string
-    ): Promise<void> {
-        await supabase.rpc('mark_event_processed', {
-            p_event_id: eventId,
-            p_status: status,
-            p_error_message: errorMessage || null
-        });
+    async deleteSubscription(id: string): Promise<void> {
+        const { error } = await supabase
+            .from('event_subscriptions')
+            .delete()
+            .eq('id', id);
+
+        if (error) throw error;
     }
 
     /**
@@ -225,29 +259,33 @@ class EventBusService {
         const { data, error } = await query;
 
         if (error) throw error;
-        return data || [];
+        return (data || []).map((row: any) => mapEvent(row));
     }
 
     /**
      * Replay failed events
+     * Their dead deliveries are queued again for the event consumer
      */
-    async replayFailedEvents(): Promise<void> {
+    async replayFailedEvents(): Promise<number> {
         const { data: failedEvents } = await supabase
             .from('events')
-            .select('*')
+            .select('id')
             .eq('status', 'failed')
             .order('created_at', { ascending: true });
 
         if (!failedEvents || failedEvents.length === 0) {
             console.log('[EventBus] No failed events to replay');
-            return;
+            return 0;
         }
 
         console.log(`[EventBus] Replaying ${failedEvents.length} failed events`);
 
+        let queued = 0;
         for (const event of failedEvents) {
-            await this.processEvent(event as Event);
+            queued += await eventConsumer.replayEvent(event.id);
         }
+
+        return queued;
     }
 
     /**
@@ -0,0 +1,281 @@
+/**
+ * Event Consumer - Server-side Delivery
+ * Runs subscription handlers for event deliveries claimed from the database
+ *
+ * Delivery is at-least-once: a handler may run again after a crash or a
+ * failed attempt, so handlers use the delivery's idempotency key to avoid
+ * repeating side effects.
+ */
+
+import { supabase } from '../../lib/supabase';
+import { notificationService } from '../dashboardService';
+import { mapDelivery, mapEvent, mapSubscription } from './mappers';
+import type {
+    DeliveryHandlerFunction,
+    DeliveryStatus,
+    Event,
+    EventDelivery,
+    EventSubscription
+} from './types';
+
+class EventConsumer {
+    private handlers: Map<string, DeliveryHandlerFunction> = new Map();
+
+    constructor() {
+        this.registerDefaultHandlers();
+    }
+
+    /**
+     * Register the handler for subscriptions whose handler_config.handler is `name`
+     */
+    registerHandler(name: string, handler: DeliveryHandlerFunction): void {
+        this.handlers.set(name, handler);
+    }
+
+    /**
+     * Claim due deliveries and run their handlers, highest priority first
+     * Called by /api/cron/events and the local workflow worker
+     */
+    async processDeliveries(limit: number = 50): Promise<{
+        processed: number;
+        results: Array<{ deliveryId: string; eventType: string; subscriber: string; status: DeliveryStatus }>;
+    }> {
+        const { data, error } = await supabase.rpc('claim_event_deliveries', {
+            p_limit: limit
+        });
+
+        if (error) throw error;
+
+        const deliveries: EventDelivery[] = (data || []).map((row: any) => mapDelivery(row));
+        if (deliveries.length === 0) {
+            return { processed: 0, results: [] };
+        }
+
+        const [events, subscriptions] = await Promise.all([
+            this.loadEvents(deliveries.map(delivery => delivery.eventId)),
+            this.loadSubscriptions(deliveries.map(delivery => delivery.subscriptionId))
+        ]);
+
+        const results: Array<{ deliveryId: string; eventType: string; subscriber: string; status: DeliveryStatus }> = [];
+
+        const ordered = deliveries.sort((a, b) =>
+            (subscriptions.get(a.subscriptionId)?.priority ?? 10) - (subscriptions.get(b.subscriptionId)?.priority ?? 10)
+        );
+
+        for (const delivery of ordered) {
+            const event = events.get(delivery.eventId);
+            const subscription = subscriptions.get(delivery.subscriptionId);
+
+            const status = event && subscription
+                ? await this.deliver(delivery, event, subscription)
+                : await this.fail(delivery.id, 'Event or subscription no longer exists');
+
+            results.push({
+                deliveryId: delivery.id,
+                eventType: event?.eventType || 'unknown',
+                subscriber: subscription?.subscriberName || 'unknown',
+                status
+            });
+        }
+
+        return { processed: results.length, results };
+    }
+
+    /**
+     * Run one delivery's handler and record the outcome
+     */
+    private async deliver(
+        delivery: EventDelivery,
+        event: Event,
+        subscription: EventSubscription
+    ): Promise<DeliveryStatus> {
+        const startTime = Date.now();
+        const handlerName = subscription.handlerConfig.handler;
+
+        try {
+            const handler = this.handlers.get(handlerName);
+            if (!handler) {
+                throw new Error(`No handler registered for '${handlerName}'`);
+            }
+
+            await handler(event, {
+                deliveryId: delivery.id,
+                idempotencyKey: `${event.id}:${subscription.id}`,
+                attempt: delivery.attempts,
+                subscription
+            });
+
+            const { error } = await supabase.rpc('complete_event_delivery', {
+                p_delivery_id: delivery.id
+            });
+            if (error) throw error;
+
+            await this.logDelivery(delivery, subscription, 'completed', Date.now() - startTime);
+            return 'completed';
+        } catch (error: any) {
+            console.error(`[EventConsumer] ${subscription.subscriberName} failed for ${event.eventType} (attempt ${delivery.attempts}):`, error);
+
+            await this.logDelivery(delivery, subscription, 'failed', Date.now() - startTime, error.message);
+            return this.fail(delivery.id, error.message);
+        }
+    }
+
+    /**
+     * Record a failed attempt; returns 'pending' if a retry was scheduled or 'dead'
+     */
+    private async fail(deliveryId: string, errorMessage: string): Promise<DeliveryStatus> {
+        const { data, error } = await supabase.rpc('fail_event_delivery', {
+            p_delivery_id: deliveryId,
+            p_error: errorMessage
+        });
+
+        if (error) {
+            // The delivery stays 'processing' and is claimed again once stale
+            console.error(`[EventConsumer] Could not record failure of delivery ${deliveryId}:`, error);
+            return 'processing';
+        }
+
+        return data as DeliveryStatus;
+    }
+
+    /**
+     * List deliveries that exhausted their retries, newest first
+     */
+    async listDeadLetters(limit: number = 100): Promise<EventDelivery[]> {
+        const { data, error } = await supabase
+            .from('event_deliveries')
+            .select('*, events(*), event_subscriptions(*)')
+            .eq('status', 'dead')
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapDelivery(row));
+    }
+
+    /**
+     * List the deliveries of an event
+     */
+    async listDeliveries(eventId: string): Promise<EventDelivery[]> {
+        const { data, error } = await supabase
+            .from('event_deliveries')
+            .select('*, event_subscriptions(*)')
+            .eq('event_id', eventId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapDelivery(row));
+    }
+
+    /**
+     * Queue a dead delivery for another round of attempts
+     */
+    async replayDelivery(deliveryId: string): Promise<void> {
+        const { error } = await supabase.rpc('replay_event_deliveries', {
+            p_delivery_id: deliveryId
+        });
+
+        if (error) throw error;
+    }
+
+    /**
+     * Queue every dead delivery of an event for another round of attempts
+     * Returns the number of deliveries queued
+     */
+    async replayEvent(eventId: string): Promise<number> {
+        const { data, error } = await supabase.rpc('replay_event_deliveries', {
+            p_event_id: eventId
+        });
+
+        if (error) throw error;
+        return data || 0;
+    }
+
+    private async loadEvents(ids: string[]): Promise<Map<string, Event>> {
+        const { data, error } = await supabase
+            .from('events')
+            .select('*')
+            .in('id', Array.from(new Set(ids)));
+
+        if (error) throw error;
+        return new Map((data || []).map((row: any) => [row.id, mapEvent(row)]));
+    }
+
+    private async loadSubscriptions(ids: string[]): Promise<Map<string, EventSubscription>> {
+        const { data, error } = await supabase
+            .from('event_subscriptions')
+            .select('*')
+            .in('id', Array.from(new Set(ids)));
+
+        if (error) throw error;
+        return new Map((data || []).map((row: any) => [row.id, mapSubscription(row)]));
+    }
+
+    /**
+     * Write an event_logs row for a delivery attempt
+     */
+    private async logDelivery(
+        delivery: EventDelivery,
+        subscription: EventSubscription,
+        status: 'completed' | 'failed',
+        executionTimeMs: number,
+        errorMessage?: string
+    ): Promise<void> {
+        const { error } = await supabase.from('event_logs').insert({
+            event_id: delivery.eventId,
+            subscription_id: subscription.id,
+            handler_name: subscription.handlerConfig.handler,
+            status,
+            execution_time_ms: executionTimeMs,
+            error_message: errorMessage || null
+        });
+
+        if (error) {
+            console.warn('[EventConsumer] Failed to write event log:', error.message);
+        }
+    }
+
+    /**
+     * Handlers for the subscriptions seeded with the event bus
+     * 'workflow_trigger' is registered by the workflow engine
+     */
+    private registerDefaultHandlers(): void {
+        this.registerHandler('log_handler', async (event) => {
+            console.log(`[EventConsumer] ${event.eventType} from ${event.eventSource}`, {
+                eventId: event.id
+            });
+        });
+
+        // Notify the user an event is about, once per delivery
+        this.registerHandler('notification_handler', async (event, delivery) => {
+            const userId = event.eventData?.userId || event.eventData?.ownerId;
+            if (!userId) return;
+
+            const { data: existing } = await supabase
+                .from('notifications')
+                .select('id')
+                .contains('metadata', { eventDeliveryKey: delivery.idempotencyKey })
+                .limit(1);
+
+            if (existing && existing.length > 0) return;
+
+            const { error } = await notificationService.createNotification({
+                user_id: userId,
+                type: event.eventType.startsWith('project.') ? 'project' : 'system',
+                title: event.eventData?.title || event.eventType.replace(/[._]/g, ' '),
+                message: event.eventData?.message,
+                read: false,
+                metadata: {
+                    eventId: event.id,
+                    eventType: event.eventType,
+                    eventDeliveryKey: delivery.idempotencyKey
+                }
+            });
+
+            if (error) throw error;
+        });
+    }
+}
+
+// Export singleton instance
+export const eventConsumer = new EventConsumer();
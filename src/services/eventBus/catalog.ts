@@ -0,0 +1,179 @@
+/**
+ * Event Bus - Event Catalog
+ * Every standard event type with its description and payload schema per version
+ *
+ * Payload schemas describe eventData. They are loose: publishers may add
+ * fields, but the listed ones must be present with the listed types. A new
+ * version is added when a field is removed or changes type; webhook
+ * consumers receive the version number with every payload.
+ */
+
+import { z } from 'zod';
+import { EventTypes } from './types';
+
+export interface EventCatalogEntry {
+    type: string;
+    category: string;
+    description: string;
+    webhook: boolean;               // Tenants can subscribe webhook endpoints to it
+    currentVersion: number;
+    versions: Record<number, z.ZodType>;
+}
+
+const money = {
+    amount: z.number().optional(),
+    currency: z.string().optional()
+};
+
+function entry(
+    type: string,
+    description: string,
+    schema: z.ZodType,
+    options: { webhook?: boolean } = {}
+): EventCatalogEntry {
+    return {
+        type,
+        category: type.split('.')[0],
+        description,
+        webhook: options.webhook ?? true,
+        currentVersion: 1,
+        versions: { 1: schema }
+    };
+}
+
+const tenantPayload = z.looseObject({ tenantId: z.string() });
+const userPayload = z.looseObject({ userId: z.string() });
+const projectPayload = z.looseObject({ projectId: z.string() });
+const messagePayload = z.looseObject({ messageId: z.string() });
+const meetingPayload = z.looseObject({ meetingId: z.string() });
+const contractPayload = z.looseObject({ contractId: z.string() });
+const invoicePayload = z.looseObject({ invoiceId: z.string(), ...money });
+const taskPayload = z.looseObject({ taskId: z.string() });
+const workflowPayload = z.looseObject({ workflowId: z.string() });
+const clientPayload = z.looseObject({ clientId: z.string() });
+const subscriptionPayload = z.looseObject({ subscriptionId: z.string().optional(), plan: z.string().optional() });
+const paymentPayload = z.looseObject({ paymentId: z.string().optional(), invoiceId: z.string().optional(), ...money });
+const systemPayload = z.looseObject({ message: z.string() });
+
+export const EVENT_CATALOG: Record<string, EventCatalogEntry> = Object.fromEntries([
+    entry(EventTypes.TENANT_CREATED, 'A tenant was created', tenantPayload),
+    entry(EventTypes.TENANT_UPDATED, 'Tenant details or plan changed', tenantPayload),
+    entry(EventTypes.TENANT_DELETED, 'A tenant was deleted', tenantPayload),
+
+    entry(EventTypes.USER_CREATED, 'A user account was created', userPayload),
+    entry(EventTypes.USER_UPDATED, 'A user profile changed', userPayload),
+    entry(EventTypes.USER_DELETED, 'A user account was deleted', userPayload),
+    entry(EventTypes.USER_LOGIN, 'A user signed in', userPayload, { webhook: false }),
+    entry(EventTypes.USER_LOGOUT, 'A user signed out', userPayload, { webhook: false }),
+    entry(EventTypes.USER_INVITED, 'Someone was invited to the tenant', z.looseObject({ email: z.string(), role: z.string().optional() })),
+    entry(EventTypes.USER_JOINED, 'An invited user joined the tenant', userPayload),
+    entry(EventTypes.USER_REMOVED, 'A user was removed from the tenant', userPayload),
+
+    entry(EventTypes.PROJECT_CREATED, 'A project was created', projectPayload),
+    entry(EventTypes.PROJECT_UPDATED, 'A project changed', projectPayload),
+    entry(EventTypes.PROJECT_DELETED, 'A project was deleted', projectPayload),
+    entry(EventTypes.PROJECT_COMPLETED, 'A project was completed', projectPayload),
+    entry(EventTypes.PROJECT_ARCHIVED, 'A project was archived', projectPayload),
+
+    entry(EventTypes.MESSAGE_SENT, 'A message was sent', messagePayload, { webhook: false }),
+    entry(EventTypes.MESSAGE_READ, 'A message was read', messagePayload, { webhook: false }),
+    entry(EventTypes.MESSAGE_DELETED, 'A message was deleted', messagePayload, { webhook: false }),
+
+    entry(EventTypes.MEETING_SCHEDULED, 'A meeting was scheduled', meetingPayload),
+    entry(EventTypes.MEETING_STARTED, 'A meeting started', meetingPayload),
+    entry(EventTypes.MEETING_ENDED, 'A meeting ended', meetingPayload),
+    entry(EventTypes.MEETING_CANCELLED, 'A meeting was cancelled', meetingPayload),
+
+    entry(EventTypes.CONTRACT_CREATED, 'A contract was created', contractPayload),
+    entry(EventTypes.CONTRACT_SENT, 'A contract was sent for signature', contractPayload),
+    entry(EventTypes.CONTRACT_SIGNED, 'A contract was signed', contractPayload),
+    entry(EventTypes.CONTRACT_EXPIRED, 'A contract expired', contractPayload),
+
+    entry(EventTypes.INVOICE_CREATED, 'An invoice was created', invoicePayload),
+    entry(EventTypes.INVOICE_SENT, 'An invoice was sent to the client', invoicePayload),
+    entry(EventTypes.INVOICE_PAID, 'An invoice was paid in full', invoicePayload),
+    entry(EventTypes.INVOICE_OVERDUE, 'An invoice passed its due date unpaid', invoicePayload),
+
+    entry(EventTypes.TASK_CREATED, 'A task was created', taskPayload),
+    entry(EventTypes.TASK_UPDATED, 'A task changed', taskPayload),
+    entry(EventTypes.TASK_COMPLETED, 'A task was completed', taskPayload),
+    entry(EventTypes.TASK_ASSIGNED, 'A task was assigned', taskPayload),
+
+    entry(EventTypes.WORKFLOW_STARTED, 'A workflow run started', workflowPayload, { webhook: false }),
+    entry(EventTypes.WORKFLOW_STEP_COMPLETED, 'A workflow step finished', workflowPayload, { webhook: false }),
+    entry(EventTypes.WORKFLOW_COMPLETED, 'A workflow run completed', workflowPayload),
+    entry(EventTypes.WORKFLOW_FAILED, 'A workflow run failed', workflowPayload),
+
+    entry(EventTypes.CLIENT_CREATED, 'A client was added', clientPayload),
+    entry(EventTypes.CLIENT_UPDATED, 'A client changed', clientPayload),
+    entry(EventTypes.CLIENT_ONBOARDED, 'A client finished onboarding', clientPayload),
+
+    entry(EventTypes.SUBSCRIPTION_CREATED, 'A subscription started', subscriptionPayload),
+    entry(EventTypes.SUBSCRIPTION_UPDATED, 'A subscription changed plan or quantity', subscriptionPayload),
+    entry(EventTypes.SUBSCRIPTION_CANCELED, 'A subscription was canceled', subscriptionPayload),
+    entry(EventTypes.SUBSCRIPTION_RENEWED, 'A subscription renewed', subscriptionPayload),
+
+    entry(EventTypes.PAYMENT_SUCCEEDED, 'A payment succeeded', paymentPayload),
+    entry(EventTypes.PAYMENT_FAILED, 'A payment failed', paymentPayload),
+
+    entry(EventTypes.SYSTEM_ERROR, 'A system error was reported', systemPayload, { webhook: false }),
+    entry(EventTypes.SYSTEM_WARNING, 'A system warning was reported', systemPayload, { webhook: false }),
+    entry(EventTypes.SYSTEM_INFO, 'A system notice was reported', systemPayload, { webhook: false })
+].map(catalogEntry => [catalogEntry.type, catalogEntry]));
+
+/**
+ * Get the catalog entry of an event type
+ */
+export function getCatalogEntry(eventType: string): EventCatalogEntry | undefined {
+    return EVENT_CATALOG[eventType];
+}
+
+/**
+ * Event types tenants can send to webhook endpoints, grouped by category
+ */
+export function getWebhookEventGroups(): Array<{ category: string; events: EventCatalogEntry[] }> {
+    const groups = new Map<string, EventCatalogEntry[]>();
+
+    for (const catalogEntry of Object.values(EVENT_CATALOG)) {
+        if (!catalogEntry.webhook) continue;
+        if (!groups.has(catalogEntry.category)) groups.set(catalogEntry.category, []);
+        groups.get(catalogEntry.category)!.push(catalogEntry);
+    }
+
+    return Array.from(groups, ([category, events]) => ({ category, events }));
+}
+
+/**
+ * Check an event's data against its payload schema
+ * Defaults to the current version; unknown event types fail
+ */
+export function validateEventPayload(
+    eventType: string,
+    data: unknown,
+    version?: number
+): { success: boolean; version: number; error?: string } {
+    const catalogEntry = getCatalogEntry(eventType);
+    if (!catalogEntry) {
+        return { success: false, version: version ?? 0, error: `Unknown event type '${eventType}'` };
+    }
+
+    const schemaVersion = version ?? catalogEntry.currentVersion;
+    const schema = catalogEntry.versions[schemaVersion];
+    if (!schema) {
+        return { success: false, version: schemaVersion, error: `${eventType} has no payload version ${schemaVersion}` };
+    }
+
+    const result = schema.safeParse(data);
+    return result.success
+        ? { success: true, version: schemaVersion }
+        : { success: false, version: schemaVersion, error: z.prettifyError(result.error) };
+}
+
+/**
+ * JSON Schema of a payload version, for published docs
+ */
+export function getPayloadJsonSchema(eventType: string, version?: number): Record<string, unknown> | undefined {
+    const catalogEntry = getCatalogEntry(eventType);
+    const schema = catalogEntry?.versions[version ?? catalogEntry.currentVersion];
+    return schema ? z.toJSONSchema(schema, { target: 'openapi-3.0' }) as Record<string, unknown> : undefined;
+}
@@ -3,5 +3,24 @@
  */
 
 export { eventBus } from './EventBus';
+export { eventConsumer } from './EventConsumer';
+export { mapEvent, mapSubscription, mapDelivery } from './mappers';
+export {
+    matchesPattern,
+    matchesFilters,
+    matchesSubscription,
+    getEventTenantId,
+    parseSubscriptionFilter,
+    formatSubscriptionFilter,
+    normalizeFilters
+} from './matching';
+export {
+    EVENT_CATALOG,
+    getCatalogEntry,
+    getWebhookEventGroups,
+    validateEventPayload,
+    getPayloadJsonSchema
+} from './catalog';
+export type { EventCatalogEntry } from './catalog';
 export * from './types';
 export { eventBusHelpers } from './helpers';
@@ -0,0 +1,66 @@
+/**
+ * Event Bus Row Mappers
+ * Convert snake_case database rows into event bus types
+ */
+
+import type { Event, EventDelivery, EventSubscription } from './types';
+
+/**
+ * Map an events row to an Event
+ */
+export function mapEvent(row: any): Event {
+    return {
+        id: row.id,
+        eventType: row.event_type,
+        eventSource: row.event_source,
+        eventData: row.event_data || {},
+        metadata: row.metadata || {},
+        createdAt: new Date(row.created_at),
+        processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+        status: row.status,
+        retryCount: row.retry_count || 0,
+        errorMessage: row.error_message || undefined,
+        idempotencyKey: row.idempotency_key || undefined,
+        tenantId: row.tenant_id || undefined
+    };
+}
+
+/**
+ * Map an event_subscriptions row to an EventSubscription
+ */
+export function mapSubscription(row: any): EventSubscription {
+    return {
+        id: row.id,
+        subscriberName: row.subscriber_name,
+        eventPattern: row.event_pattern,
+        handlerConfig: row.handler_config || {},
+        filters: row.filters || [],
+        tenantId: row.tenant_id || undefined,
+        isActive: row.is_active,
+        priority: row.priority ?? 10,
+        maxAttempts: row.max_attempts ?? 5,
+        retryBackoffSeconds: row.retry_backoff_seconds ?? 30,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+    };
+}
+
+/**
+ * Map an event_deliveries row to an EventDelivery
+ * Rows selected with their event and subscription embedded keep them
+ */
+export function mapDelivery(row: any): EventDelivery {
+    return {
+        id: row.id,
+        eventId: row.event_id,
+        subscriptionId: row.subscription_id,
+        status: row.status,
+        attempts: row.attempts || 0,
+        nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+        lastError: row.last_error || undefined,
+        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+        createdAt: new Date(row.created_at),
+        event: row.events ? mapEvent(row.events) : undefined,
+        subscription: row.event_subscriptions ? mapSubscription(row.event_subscriptions) : undefined
+    };
+}
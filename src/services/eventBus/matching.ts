@@ -0,0 +1,213 @@
+/**
+ * Event Bus - Subscription Matching
+ * Event type patterns, payload filters and tenant scoping
+ *
+ * Kept in step with event_pattern_matches() and event_filters_match() in
+ * the database, which apply the same rules when fanning events out to
+ * stored subscriptions.
+ */
+
+import type { Event, FilterOperator, SubscriptionFilter } from './types';
+
+const FILTER_ROOTS = ['eventType', 'eventSource', 'eventData', 'metadata', 'tenantId'];
+
+const FILTER_OPERATORS: Record<string, FilterOperator> = {
+    '=': 'eq',
+    '==': 'eq',
+    '!=': 'neq',
+    '>': 'gt',
+    '>=': 'gte',
+    '<': 'lt',
+    '<=': 'lte',
+    'in': 'in',
+    'contains': 'contains'
+};
+
+/**
+ * Check if an event type matches a subscription pattern
+ * Patterns are dot-separated segments: * matches one segment and ** one or
+ * more. A trailing * matches everything below it, so invoice.* matches
+ * invoice.paid and invoice.payment.failed, while *.created matches
+ * invoice.created but not invoice.line.created (use **.created for that)
+ */
+export function matchesPattern(eventType: string, pattern: string): boolean {
+    if (pattern === '*' || pattern === '**') return true;
+    if (pattern === eventType) return true;
+
+    const segments = pattern.split('.');
+    const regexPattern = segments
+        .map((segment, index) => {
+            if (segment === '**' || (segment === '*' && index === segments.length - 1)) {
+                return '[^.]+(?:\\.[^.]+)*';
+            }
+            if (segment === '*') return '[^.]+';
+            return segment
+                .split('*')
+                .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+                .join('[^.]*');
+        })
+        .join('\\.');
+
+    return new RegExp(`^${regexPattern}$`).test(eventType);
+}
+
+/**
+ * Tenant an event belongs to
+ */
+export function getEventTenantId(event: Event): string | undefined {
+    return event.tenantId ?? event.metadata?.tenantId;
+}
+
+/**
+ * Check if an event passes every filter
+ */
+export function matchesFilters(event: Event, filters: SubscriptionFilter[] = []): boolean {
+    return filters.every(filter => matchesFilter(event, filter));
+}
+
+/**
+ * Check if an event matches a subscription's pattern, tenant and filters
+ * A subscription without a tenant receives every tenant's events
+ */
+export function matchesSubscription(
+    event: Event,
+    subscription: { eventPattern: string; filters?: SubscriptionFilter[]; tenantId?: string }
+): boolean {
+    if (!matchesPattern(event.eventType, subscription.eventPattern)) return false;
+    if (subscription.tenantId && subscription.tenantId !== getEventTenantId(event)) return false;
+    return matchesFilters(event, subscription.filters);
+}
+
+/**
+ * Parse a filter expression such as `eventData.amount > 1000`,
+ * `metadata.source = "stripe"`, `eventData.status in ["sent", "overdue"]`
+ * or `eventData.projectId exists` (`exists false` for a missing value)
+ * Values are read as JSON where possible, otherwise as plain text
+ */
+export function parseSubscriptionFilter(expression: string): SubscriptionFilter {
+    const existsMatch = expression.match(/^\s*([A-Za-z_][\w.]*)\s+exists(?:\s+(true|false))?\s*$/);
+    if (existsMatch) {
+        return {
+            path: validatePath(existsMatch[1], expression),
+            operator: 'exists',
+            ...(existsMatch[2] === 'false' && { value: false })
+        };
+    }
+
+    const match = expression.match(/^\s*([A-Za-z_][\w.]*)\s*(==|!=|>=|<=|=|>|<|\s+in\s+|\s+contains\s+)\s*(.+?)\s*$/);
+    if (!match) {
+        throw new Error(`Invalid subscription filter: ${expression}`);
+    }
+
+    return {
+        path: validatePath(match[1], expression),
+        operator: FILTER_OPERATORS[match[2].trim()],
+        value: parseFilterValue(match[3])
+    };
+}
+
+/**
+ * Write a filter back out as an expression parseSubscriptionFilter() accepts
+ */
+export function formatSubscriptionFilter(filter: SubscriptionFilter): string {
+    if (filter.operator === 'exists') {
+        return filter.value === false ? `${filter.path} exists false` : `${filter.path} exists`;
+    }
+
+    const symbol = Object.keys(FILTER_OPERATORS).find(key => FILTER_OPERATORS[key] === filter.operator);
+    return `${filter.path} ${symbol} ${JSON.stringify(filter.value)}`;
+}
+
+/**
+ * Turn filters given as objects or expressions into filter objects
+ * Blank expressions are ignored
+ */
+export function normalizeFilters(filters: Array<SubscriptionFilter | string> = []): SubscriptionFilter[] {
+    return filters.filter(filter => typeof filter !== 'string' || filter.trim()).map(filter => {
+        if (typeof filter === 'string') return parseSubscriptionFilter(filter);
+
+        validatePath(filter.path, filter.path);
+        if (!Object.values(FILTER_OPERATORS).includes(filter.operator) && filter.operator !== 'exists') {
+            throw new Error(`Invalid subscription filter operator: ${filter.operator}`);
+        }
+        return filter;
+    });
+}
+
+function matchesFilter(event: Event, filter: SubscriptionFilter): boolean {
+    const actual = resolvePath(event, filter.path);
+    const expected = filter.value;
+
+    switch (filter.operator) {
+        case 'exists':
+            return (actual !== undefined && actual !== null) === (expected !== false);
+        case 'eq':
+            return isEqual(actual, expected);
+        case 'neq':
+            return !isEqual(actual, expected);
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte':
+            return compare(actual, expected, filter.operator);
+        case 'in':
+            return Array.isArray(expected) && expected.some(value => isEqual(actual, value));
+        case 'contains':
+            if (typeof actual === 'string' && typeof expected === 'string') {
+                return actual.includes(expected);
+            }
+            return Array.isArray(actual) && actual.some(value => isEqual(value, expected));
+        default:
+            return false;
+    }
+}
+
+function resolvePath(event: Event, path: string): any {
+    const root: Record<string, any> = {
+        eventType: event.eventType,
+        eventSource: event.eventSource,
+        eventData: event.eventData,
+        metadata: event.metadata,
+        tenantId: getEventTenantId(event)
+    };
+
+    return path.split('.').reduce<any>(
+        (value, key) => (value !== null && typeof value === 'object' ? value[key] : undefined),
+        root
+    );
+}
+
+// Numbers compare numerically and strings (e.g. ISO dates) by code point
+function compare(actual: any, expected: any, operator: 'gt' | 'gte' | 'lt' | 'lte'): boolean {
+    const comparable = (typeof actual === 'number' && typeof expected === 'number')
+        || (typeof actual === 'string' && typeof expected === 'string');
+    if (!comparable) return false;
+
+    switch (operator) {
+        case 'gt': return actual > expected;
+        case 'gte': return actual >= expected;
+        case 'lt': return actual < expected;
+        case 'lte': return actual <= expected;
+    }
+}
+
+function isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validatePath(path: string, expression: string): string {
+    if (!FILTER_ROOTS.includes(path.split('.')[0])) {
+        throw new Error(`Invalid subscription filter: ${expression} (paths start with ${FILTER_ROOTS.join(', ')})`);
+    }
+    return path;
+}
+
+function parseFilterValue(raw: string): any {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw.replace(/^'(.*)'$/, '$1');
+    }
+}
@@ -21,6 +21,20 @@ export interface Event {
     status: EventStatus;
     retryCount?: number;
     errorMessage?: string;
+    idempotencyKey?: string;
+    tenantId?: string;
+}
+
+// Operators available to subscription filters
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'contains' | 'exists';
+
+// Subscription Filter
+// path is dotted and rooted at eventType, eventSource, eventData, metadata or tenantId,
+// e.g. { path: 'eventData.amount', operator: 'gt', value: 1000 }
+export interface SubscriptionFilter {
+    path: string;
+    operator: FilterOperator;
+    value?: any;
 }
 
 // Event Subscription
@@ -29,12 +43,43 @@ export interface EventSubscription {
     subscriberName: string;
     eventPattern: string;
     handlerConfig: Record<string, any>;
+    filters: SubscriptionFilter[];  // All must match for the event to be delivered
+    tenantId?: string;              // Only that tenant's events; unset receives every tenant's
     isActive: boolean;
-    priority: number;
+    priority: number;               // Lower runs first
+    maxAttempts: number;            // Delivery attempts before dead-lettering
+    retryBackoffSeconds: number;    // Delay before the first retry; doubles per attempt
     createdAt: Date;
     updatedAt: Date;
 }
 
+// Delivery status of an event to one subscription
+export type DeliveryStatus = 'pending' | 'processing' | 'completed' | 'dead';
+
+// Event Delivery
+// One per event and matching subscription, processed by the server-side consumer
+export interface EventDelivery {
+    id: string;
+    eventId: string;
+    subscriptionId: string;
+    status: DeliveryStatus;
+    attempts: number;
+    nextAttemptAt?: Date;
+    lastError?: string;
+    completedAt?: Date;
+    createdAt: Date;
+    event?: Event;
+    subscription?: EventSubscription;
+}
+
+// Passed to delivery handlers alongside the event
+export interface DeliveryContext {
+    deliveryId: string;
+    idempotencyKey: string;         // Stable across retries of the same delivery
+    attempt: number;
+    subscription: EventSubscription;
+}
+
 // Event Handler
 export interface EventHandler {
     id: string;
@@ -62,22 +107,55 @@ export interface EventLog {
 // Event Handler Function signature
 export type EventHandlerFunction = (event: Event) => Promise<void>;
 
+// Server-side handler for deliveries; throwing schedules a retry
+export type DeliveryHandlerFunction = (event: Event, delivery: DeliveryContext) => Promise<void>;
+
 // Event Publisher options
 export interface PublishEventOptions {
     eventType: string;
     eventSource: string;
     eventData: any;
     metadata?: Record<string, any>;
+    idempotencyKey?: string;        // Publishing the same key again returns the original event
+    tenantId?: string;              // Defaults to metadata.tenantId
+}
+
+// In-process subscription options
+export interface SubscribeOptions {
+    filters?: Array<SubscriptionFilter | string>;
+    tenantId?: string;
+}
+
+// Input for a stored (server-side) subscription
+export interface CreateSubscriptionInput {
+    subscriberName: string;
+    eventPattern: string;
+    handler: string;
+    handlerConfig?: Record<string, any>;
+    filters?: Array<SubscriptionFilter | string>;
+    tenantId?: string;
+    priority?: number;
+    maxAttempts?: number;
+    retryBackoffSeconds?: number;
 }
 
 // Standard Event Types (extensible)
+// Each has an entry with its payload schema in catalog.ts
 export const EventTypes = {
+    // Tenant events
+    TENANT_CREATED: 'tenant.created',
+    TENANT_UPDATED: 'tenant.updated',
+    TENANT_DELETED: 'tenant.deleted',
+
     // User events
     USER_CREATED: 'user.created',
     USER_UPDATED: 'user.updated',
     USER_DELETED: 'user.deleted',
     USER_LOGIN: 'user.login',
     USER_LOGOUT: 'user.logout',
+    USER_INVITED: 'user.invited',
+    USER_JOINED: 'user.joined',
+    USER_REMOVED: 'user.removed',
 
     // Project events
     PROJECT_CREATED: 'project.created',
@@ -126,6 +204,16 @@ export const EventTypes = {
     CLIENT_UPDATED: 'client.updated',
     CLIENT_ONBOARDED: 'client.onboarded',
 
+    // Subscription events
+    SUBSCRIPTION_CREATED: 'subscription.created',
+    SUBSCRIPTION_UPDATED: 'subscription.updated',
+    SUBSCRIPTION_CANCELED: 'subscription.canceled',
+    SUBSCRIPTION_RENEWED: 'subscription.renewed',
+
+    // Payment events
+    PAYMENT_SUCCEEDED: 'payment.succeeded',
+    PAYMENT_FAILED: 'payment.failed',
+
     // System events
     SYSTEM_ERROR: 'system.error',
     SYSTEM_WARNING: 'system.warning',
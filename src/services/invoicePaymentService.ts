@@ -0,0 +1,528 @@
+import { supabase } from '../lib/supabase';
+import { businessInvoiceService } from './businessInvoiceService';
+import { chartOfAccountsService } from './accounting/chartOfAccountsService';
+import { exchangeRateService } from './accounting/exchangeRateService';
+import { journalEntryService } from './accounting/journalEntryService';
+import { formatCurrency, roundMoney } from './accounting/currency';
+
+export type PaymentMethod = 'stripe' | 'bank_transfer' | 'mobile_money' | 'cash' | 'cheque' | 'other';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    stripe: 'Card (Stripe)',
+    bank_transfer: 'Bank Transfer',
+    mobile_money: 'Mobile Money',
+    cash: 'Cash',
+    cheque: 'Cheque',
+    other: 'Other'
+};
+
+export interface PaymentAllocation {
+    invoiceId: string;
+    amount: number;                 // In the payment (and invoice) currency
+}
+
+export interface InvoicePayment {
+    id: string;
+    tenantId: string;
+    clientId?: string;
+    amount: number;
+    currency: string;
+    paymentDate: string;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+    exchangeRate?: number;          // To the base currency on the payment date
+    allocations: PaymentAllocation[];
+    unallocatedAmount: number;      // Received but not yet applied to an invoice; held in Customer Deposits (2300)
+    createdAt: string;
+}
+
+export interface RecordPaymentInput {
+    clientId?: string;
+    amount: number;
+    currency: string;
+    paymentDate?: string;
+    method: PaymentMethod;
+    reference?: string;
+    notes?: string;
+    allocations?: PaymentAllocation[];  // Oldest open invoices first when not given
+}
+
+const mapPayment = (row: any): InvoicePayment => {
+    const allocations: PaymentAllocation[] = (row.invoice_payment_allocations || []).map((a: any) => ({
+        invoiceId: a.invoice_id,
+        amount: parseFloat(a.amount),
+    }));
+    const amount = parseFloat(row.amount);
+
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        clientId: row.client_id || undefined,
+        amount,
+        currency: row.currency,
+        paymentDate: row.payment_date,
+        method: row.method,
+        reference: row.reference || undefined,
+        notes: row.notes || undefined,
+        exchangeRate: row.exchange_rate != null ? parseFloat(row.exchange_rate) : undefined,
+        allocations,
+        unallocatedAmount: roundMoney(amount - allocations.reduce((sum, a) => sum + a.amount, 0), row.currency),
+        createdAt: row.created_at,
+    };
+};
+
+/**
+ * Spread an amount over invoices in order, settling each before the next
+ */
+export function allocateOldestFirst(
+    amount: number,
+    invoices: { id: string; amountDue: number }[],
+    currency: string = 'USD'
+): PaymentAllocation[] {
+    const allocations: PaymentAllocation[] = [];
+    let remaining = amount;
+
+    for (const invoice of invoices) {
+        if (remaining <= 0) break;
+        const applied = roundMoney(Math.min(remaining, invoice.amountDue), currency);
+        if (applied <= 0) continue;
+
+        allocations.push({ invoiceId: invoice.id, amount: applied });
+        remaining = roundMoney(remaining - applied, currency);
+    }
+
+    return allocations;
+}
+
+export const invoicePaymentService = {
+    /**
+     * Get payments received by a tenant, newest first
+     */
+    async getPayments(tenantId: string): Promise<{ payments: InvoicePayment[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('invoice_payments')
+                .select('*, invoice_payment_allocations(invoice_id, amount)')
+                .eq('tenant_id', tenantId)
+                .order('payment_date', { ascending: false });
+
+            if (error) throw error;
+
+            return { payments: (data || []).map(mapPayment), error: null };
+        } catch (err: any) {
+            console.error('Error fetching payments:', err);
+            return { payments: [], error: err.message };
+        }
+    },
+
+    /**
+     * Get the payments applied to an invoice, with the amount applied to it
+     */
+    async getInvoicePayments(invoiceId: string): Promise<{ payments: (InvoicePayment & { appliedAmount: number })[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('invoice_payment_allocations')
+                .select('amount, invoice_payments(*, invoice_payment_allocations(invoice_id, amount))')
+                .eq('invoice_id', invoiceId)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+
+            const payments = (data || []).map((row: any) => ({
+                ...mapPayment(row.invoice_payments),
+                appliedAmount: parseFloat(row.amount),
+            }));
+
+            return { payments, error: null };
+        } catch (err: any) {
+            console.error('Error fetching invoice payments:', err);
+            return { payments: [], error: err.message };
+        }
+    },
+
+    /**
+     * Open invoices of a client in a currency, oldest due first
+     */
+    async getOpenInvoices(tenantId: string, clientId: string, currency: string): Promise<{ invoices: any[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('business_invoices')
+                .select('id, invoice_number, due_date, total, amount_due, currency, status')
+                .eq('tenant_id', tenantId)
+                .eq('client_id', clientId)
+                .eq('currency', currency)
+                .in('status', ['sent', 'overdue', 'partially_paid'])
+                .gt('amount_due', 0)
+                .order('due_date', { ascending: true });
+
+            if (error) throw error;
+
+            return { invoices: data || [], error: null };
+        } catch (err: any) {
+            console.error('Error fetching open invoices:', err);
+            return { invoices: [], error: err.message };
+        }
+    },
+
+    /**
+     * Check that every invoice is open, in the payment currency and owes at
+     * least its share; returns the problem, or null
+     */
+    async checkAllocations(allocations: PaymentAllocation[], currency: string): Promise<string | null> {
+        if (allocations.length === 0) return null;
+
+        const { data: invoices, error } = await supabase
+            .from('business_invoices')
+            .select('id, invoice_number, currency, status, amount_due')
+            .in('id', allocations.map(a => a.invoiceId));
+
+        if (error) throw error;
+
+        for (const allocation of allocations) {
+            const invoice = (invoices || []).find((inv: any) => inv.id === allocation.invoiceId);
+            if (!invoice) {
+                return 'Invoice not found';
+            }
+            if ((invoice.currency || 'USD') !== currency) {
+                return `Invoice ${invoice.invoice_number} is in ${invoice.currency}, not ${currency}`;
+            }
+            if (invoice.status === 'draft') {
+                return `Invoice ${invoice.invoice_number} has not been sent`;
+            }
+            if (allocation.amount > parseFloat(invoice.amount_due)) {
+                return `Invoice ${invoice.invoice_number} only has ${invoice.amount_due} due`;
+            }
+        }
+
+        return null;
+    },
+
+    /**
+     * Record a payment and apply it to invoices
+     * The payment and its allocations are written in one transaction
+     * (record_invoice_payment). Each allocation reduces the invoice's amount
+     * due and is posted to the GL as its own receipt; anything not allocated
+     * stays on the payment as unapplied credit, posted to Customer Deposits
+     * until it is applied. A payment that was recorded but not fully posted
+     * comes back with glError set.
+     */
+    async recordPayment(tenantId: string, input: RecordPaymentInput): Promise<{ payment: InvoicePayment | null; error: string | null; glError: string | null }> {
+        try {
+            const currency = input.currency.toUpperCase();
+            const amount = roundMoney(input.amount, currency);
+            const paymentDate = input.paymentDate || new Date().toISOString().split('T')[0];
+
+            if (!(amount > 0)) {
+                return { payment: null, error: 'Payment amount must be greater than zero', glError: null };
+            }
+
+            let allocations = input.allocations?.filter(a => a.amount > 0);
+            if (!allocations) {
+                if (!input.clientId) {
+                    return { payment: null, error: 'Choose the invoices to apply the payment to', glError: null };
+                }
+
+                const { invoices, error } = await this.getOpenInvoices(tenantId, input.clientId, currency);
+                if (error) throw new Error(error);
+
+                allocations = allocateOldestFirst(
+                    amount,
+                    invoices.map(inv => ({ id: inv.id, amountDue: parseFloat(inv.amount_due) })),
+                    currency
+                );
+            }
+
+            const allocated = roundMoney(allocations.reduce((sum, a) => sum + a.amount, 0), currency);
+            if (allocated > amount) {
+                return { payment: null, error: 'Allocations exceed the payment amount', glError: null };
+            }
+
+            const invalid = await this.checkAllocations(allocations, currency);
+            if (invalid) return { payment: null, error: invalid, glError: null };
+
+            // The rate it was received at, for its customer deposit and any
+            // credit applied from it later
+            const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId);
+            const { rate, error: rateError } = await exchangeRateService.getRate(tenantId, currency, baseCurrency, paymentDate);
+            if (rateError) return { payment: null, error: rateError, glError: null };
+
+            const { data: userData } = await supabase.auth.getUser();
+
+            const { data: payment, error: paymentError } = await supabase.rpc('record_invoice_payment', {
+                p_payment: {
+                    tenant_id: tenantId,
+                    client_id: input.clientId || null,
+                    amount,
+                    currency,
+                    payment_date: paymentDate,
+                    method: input.method,
+                    reference: input.reference || null,
+                    notes: input.notes || null,
+                    exchange_rate: rate,
+                    created_by: userData.user?.id,
+                },
+                p_allocations: allocations.map(a => ({ invoice_id: a.invoiceId, amount: a.amount })),
+            });
+
+            if (paymentError) throw paymentError;
+
+            const glErrors: string[] = [];
+
+            if (allocations.length > 0) {
+                // The payment is recorded from here on, so failures are GL errors
+                const { data: invoices } = await supabase
+                    .from('business_invoices')
+                    .select('*')
+                    .in('id', allocations.map(a => a.invoiceId));
+
+                for (const allocation of allocations) {
+                    const invoice = (invoices || []).find((inv: any) => inv.id === allocation.invoiceId);
+                    if (!invoice) {
+                        glErrors.push(`Invoice ${allocation.invoiceId} could not be loaded to post the payment`);
+                        continue;
+                    }
+
+                    const { error: glError } = await businessInvoiceService.postPaymentToGL(allocation.invoiceId, invoice, {
+                        amount: allocation.amount,
+                        paymentDate,
+                        paymentId: payment.id,
+                    });
+                    if (glError) {
+                        console.error(`Failed to post payment ${payment.id} for invoice ${allocation.invoiceId} to GL:`, glError);
+                        glErrors.push(glError);
+                    }
+                }
+            }
+
+            const unallocated = roundMoney(amount - allocated, currency);
+            if (unallocated > 0) {
+                const { error: glError } = await this.postDepositToGL(payment, unallocated);
+                if (glError) {
+                    console.error(`Failed to post unapplied payment ${payment.id} to GL:`, glError);
+                    glErrors.push(glError);
+                }
+            }
+
+            return {
+                payment: mapPayment({
+                    ...payment,
+                    invoice_payment_allocations: allocations.map(a => ({ invoice_id: a.invoiceId, amount: a.amount })),
+                }),
+                error: null,
+                glError: glErrors.length > 0 ? glErrors.join('; ') : null,
+            };
+        } catch (err: any) {
+            console.error('Error recording payment:', err);
+            return { payment: null, error: err.message, glError: null };
+        }
+    },
+
+    /**
+     * Post the unapplied part of a payment to the payment's tenant ledger
+     * DR Cash (1000)
+     *   CR Customer Deposits (2300)
+     */
+    async postDepositToGL(payment: any, amount: number): Promise<{ error: string | null }> {
+        try {
+            const tenantId: string = payment.tenant_id;
+            const { account: cashAccount } = await chartOfAccountsService.getAccountByCode('1000', tenantId);
+            const { account: depositAccount } = await chartOfAccountsService.getAccountByCode('2300', tenantId);
+
+            if (!cashAccount || !depositAccount) {
+                return { error: 'Cash (1000) or Customer Deposits (2300) not found in Chart of Accounts' };
+            }
+
+            const currency = payment.currency;
+            const rate = parseFloat(payment.exchange_rate);
+            if (!(rate > 0)) {
+                return { error: 'The payment has no recorded exchange rate' };
+            }
+
+            const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId);
+
+            const baseAmount = roundMoney(amount * rate, baseCurrency);
+            const foreignAmount = currency !== baseCurrency ? ` (${formatCurrency(amount, currency)})` : '';
+            const entity = payment.client_id
+                ? { entityType: 'customer', entityId: payment.client_id }
+                : {};
+
+            const { entry, error } = await journalEntryService.createEntry({
+                entryDate: payment.payment_date,
+                description: `Unapplied payment received${foreignAmount}`,
+                reference: payment.reference || undefined,
+                sourceType: 'customer_deposit',
+                sourceId: payment.id,
+                currency,
+                exchangeRate: rate,
+                tenantId,
+                lines: [
+                    {
+                        accountId: cashAccount.id,
+                        debitAmount: baseAmount,
+                        creditAmount: 0,
+                        description: 'Cash received - unapplied',
+                        ...entity,
+                    },
+                    {
+                        accountId: depositAccount.id,
+                        debitAmount: 0,
+                        creditAmount: baseAmount,
+                        description: 'Customer deposit',
+                        ...entity,
+                    },
+                ],
+            });
+
+            if (error) return { error };
+            if (entry) await journalEntryService.postEntry(entry.id);
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error posting customer deposit to GL:', err);
+            return { error: err.message };
+        }
+    },
+
+    /**
+     * Payments from a client in a currency that still have credit to apply,
+     * oldest first
+     */
+    async getUnappliedPayments(
+        tenantId: string,
+        clientId: string,
+        currency: string
+    ): Promise<{ payments: InvoicePayment[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('invoice_payments')
+                .select('*, invoice_payment_allocations(invoice_id, amount)')
+                .eq('tenant_id', tenantId)
+                .eq('client_id', clientId)
+                .eq('currency', currency)
+                .order('payment_date', { ascending: true });
+
+            if (error) throw error;
+
+            const payments = (data || []).map(mapPayment).filter((payment: InvoicePayment) => payment.unallocatedAmount > 0);
+
+            return { payments, error: null };
+        } catch (err: any) {
+            console.error('Error fetching unapplied payments:', err);
+            return { payments: [], error: err.message };
+        }
+    },
+
+    /**
+     * Apply a payment's unapplied credit to invoices
+     * Each allocation moves the credit out of Customer Deposits at the rate
+     * it was received at and onto the invoice's receivable, with any
+     * realized FX difference
+     */
+    async applyUnappliedCredit(
+        paymentId: string,
+        allocations: PaymentAllocation[],
+        applyDate: string = new Date().toISOString().split('T')[0]
+    ): Promise<{ payment: InvoicePayment | null; error: string | null; glError: string | null }> {
+        try {
+            const { data: row, error: fetchError } = await supabase
+                .from('invoice_payments')
+                .select('*, invoice_payment_allocations(invoice_id, amount)')
+                .eq('id', paymentId)
+                .single();
+
+            if (fetchError || !row) throw fetchError || new Error('Payment not found');
+
+            const payment = mapPayment(row);
+            const toApply = allocations.filter(a => a.amount > 0);
+            const total = roundMoney(toApply.reduce((sum, a) => sum + a.amount, 0), payment.currency);
+
+            if (toApply.length === 0) {
+                return { payment: null, error: 'Choose the invoices to apply the credit to', glError: null };
+            }
+            if (total > payment.unallocatedAmount) {
+                return { payment: null, error: `Only ${formatCurrency(payment.unallocatedAmount, payment.currency)} of the payment is unapplied`, glError: null };
+            }
+
+            const invalid = await this.checkAllocations(toApply, payment.currency);
+            if (invalid) return { payment: null, error: invalid, glError: null };
+
+            // The credit leaves Customer Deposits at the rate it was received at
+            const depositRate = payment.exchangeRate;
+            if (depositRate === undefined) {
+                return { payment: null, error: 'The payment has no recorded exchange rate', glError: null };
+            }
+
+            const glErrors: string[] = [];
+
+            for (const allocation of toApply) {
+                const { data: invoice, error: applyError } = await supabase.rpc('apply_invoice_payment', {
+                    p_payment_id: paymentId,
+                    p_invoice_id: allocation.invoiceId,
+                    p_amount: allocation.amount,
+                });
+
+                if (applyError) throw applyError;
+
+                const { error: glError } = await businessInvoiceService.postPaymentToGL(allocation.invoiceId, invoice, {
+                    amount: allocation.amount,
+                    paymentDate: applyDate,
+                    paymentId,
+                    depositRate,
+                });
+                if (glError) {
+                    console.error(`Failed to post credit from payment ${paymentId} to invoice ${allocation.invoiceId} to GL:`, glError);
+                    glErrors.push(glError);
+                }
+            }
+
+            const applied = new Map(payment.allocations.map(a => [a.invoiceId, a.amount]));
+            toApply.forEach(a => applied.set(a.invoiceId, roundMoney((applied.get(a.invoiceId) || 0) + a.amount, payment.currency)));
+
+            return {
+                payment: mapPayment({
+                    ...row,
+                    invoice_payment_allocations: [...applied].map(([invoiceId, amount]) => ({ invoice_id: invoiceId, amount })),
+                }),
+                error: null,
+                glError: glErrors.length > 0 ? glErrors.join('; ') : null,
+            };
+        } catch (err: any) {
+            console.error('Error applying unapplied credit:', err);
+            return { payment: null, error: err.message, glError: null };
+        }
+    },
+
+    /**
+     * Record a payment for the whole balance of one invoice
+     */
+    async markAsPaid(
+        invoiceId: string,
+        method: PaymentMethod = 'other',
+        reference?: string
+    ): Promise<{ payment: InvoicePayment | null; error: string | null; glError: string | null }> {
+        const { data: invoice, error } = await supabase
+            .from('business_invoices')
+            .select('tenant_id, client_id, currency, amount_due')
+            .eq('id', invoiceId)
+            .single();
+
+        if (error || !invoice) {
+            return { payment: null, error: error?.message || 'Invoice not found', glError: null };
+        }
+
+        const amountDue = parseFloat(invoice.amount_due);
+        if (!(amountDue > 0)) {
+            return { payment: null, error: 'Invoice has no balance due', glError: null };
+        }
+
+        return this.recordPayment(invoice.tenant_id, {
+            clientId: invoice.client_id || undefined,
+            amount: amountDue,
+            currency: invoice.currency || 'USD',
+            method,
+            reference,
+            allocations: [{ invoiceId, amount: amountDue }],
+        });
+    },
+};
@@ -54,6 +54,15 @@ export interface MeetingStatus {
     endedAt?: string;
 }
 
+/**
+ * Resolve an API path; server-side callers (e.g. workflows) need an absolute URL
+ */
+function apiUrl(path: string): string {
+    if (typeof window !== 'undefined') return path;
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+    return `${baseUrl}${path}`;
+}
+
 class MeetingAdapterService {
     /**
      * Create a new meeting with single-use link
@@ -66,9 +75,10 @@ class MeetingAdapterService {
         durationMinutes?: number;
         calendarEventId?: string;
         participants?: string[];
+        tenantId?: string;
     }): Promise<{ meeting: AlphaCloneMeeting | null; error: string | null }> {
         try {
-            const response = await fetch('/api/meetings/create', {
+            const response = await fetch(apiUrl('/api/meetings/create'), {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -107,7 +117,7 @@ class MeetingAdapterService {
      */
     async validateMeetingLink(token: string): Promise<{ validation: MeetingValidation | null; error: string | null }> {
         try {
-            const response = await fetch(`/api/meetings/by-token/${token}/validate`);
+            const response = await fetch(apiUrl(`/api/meetings/by-token/${token}/validate`));
 
             if (!response.ok) {
                 const errorData = await response.json();
@@ -142,7 +152,7 @@ class MeetingAdapterService {
         userName: string
     ): Promise<{ result: MeetingJoinResult | null; error: string | null }> {
         try {
-            const response = await fetch(`/api/meetings/by-token/${token}/join`, {
+            const response = await fetch(apiUrl(`/api/meetings/by-token/${token}/join`), {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -194,7 +204,7 @@ class MeetingAdapterService {
         durationSeconds?: number
     ): Promise<{ success: boolean; error: string | null }> {
         try {
-            const response = await fetch(`/api/meetings/by-id/${meetingId}/end`, {
+            const response = await fetch(apiUrl(`/api/meetings/by-id/${meetingId}/end`), {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -223,7 +233,7 @@ class MeetingAdapterService {
      */
     async getMeetingStatus(meetingId: string): Promise<{ status: MeetingStatus | null; error: string | null }> {
         try {
-            const response = await fetch(`/api/meetings/by-id/${meetingId}/status`);
+            const response = await fetch(apiUrl(`/api/meetings/by-id/${meetingId}/status`));
 
             if (!response.ok) {
                 const errorData = await response.json();
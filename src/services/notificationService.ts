@@ -12,6 +12,32 @@ export interface Notification {
 }
 
 export const notificationService = {
+    async createNotification(notification: {
+        userId: string;
+        type: Notification['type'];
+        title: string;
+        message?: string;
+        link?: string;
+        tenantId?: string;
+        metadata?: Record<string, any>;
+    }) {
+        const { data, error } = await supabase
+            .from('notifications')
+            .insert({
+                user_id: notification.userId,
+                type: notification.type,
+                title: notification.title,
+                message: notification.message || '',
+                link: notification.link,
+                tenant_id: notification.tenantId,
+                metadata: notification.metadata || {}
+            })
+            .select()
+            .single();
+
+        return { notification: data as Notification | null, error: error?.message };
+    },
+
     async getNotifications(userId: string) {
         const { data, error } = await supabase
             .from('notifications')
@@ -1,21 +1,157 @@
 /**
  * Plugin Manager - Core Service
  * Manages plugin lifecycle and execution
+ *
+ * Hooks run the plugin's own code in the sandbox (see sandbox.ts). Plugins
+ * without code can still be served by handlers registered in-process.
+ *
+ * Tenants run the release they installed (plugin_versions). Installing
+ * resolves the release's dependencies first; upgrading runs its migrations
+ * and onConfigUpdate handler and puts the previous release back if they fail.
  */
 
+import { z } from 'zod';
 import { supabase } from '../../lib/supabase';
-import { eventBus } from '../eventBus';
+import { eventConsumer } from '../eventBus/EventConsumer';
+import { getEventTenantId } from '../eventBus/matching';
+import { mapPlugin, mapPluginVersion, mapTenantPlugin } from './mappers';
+import { pluginSandbox } from './sandbox';
+import type { SandboxResult } from './sandbox';
+import { buildPluginConfig, decryptConfigSecrets, encryptConfigSecrets, redactConfigSecrets } from './secrets';
+import { compareVersions, isValidVersion, maxSatisfying, parseDependency, satisfies } from './semver';
+import type { PluginDependency } from './semver';
+import { getDeclaredComponents, getPluginUI, pluginViewSchema } from './ui';
+import type { PluginView } from './ui';
 import type {
     Plugin,
+    PluginVersion,
+    PluginManifest,
     TenantPlugin,
     PluginContext,
-    PluginHandler
+    PluginHandler,
+    PluginSetting
 } from './types';
 
+export interface HookExecutionResult {
+    tenantPluginId: string;
+    pluginSlug: string;
+    handler: string;
+    success: boolean;
+    result?: any;
+    error?: string;
+    durationMs: number;
+}
+
+/**
+ * Thrown when plugin dependencies cannot be met, or when a change would
+ * break a plugin that depends on another
+ */
+export class PluginDependencyError extends Error {
+    constructor(message: string, public readonly plugins: string[] = []) {
+        super(message);
+        this.name = 'PluginDependencyError';
+    }
+}
+
+/**
+ * Thrown when an upgrade fails to activate; the previous release and config
+ * have been restored
+ */
+export class PluginUpgradeError extends Error {
+    constructor(message: string, public readonly fromVersion: string, public readonly toVersion: string) {
+        super(message);
+        this.name = 'PluginUpgradeError';
+    }
+}
+
+export interface PluginUpgradeResult {
+    tenantPluginId: string;
+    fromVersion: string;
+    toVersion: string;
+    installedDependencies: string[];
+}
+
+// An installed plugin at the release the tenant runs, shaped like a
+// get_tenant_plugin_hooks row so it can be run in the sandbox
+interface InstalledPlugin {
+    tenant_plugin_id: string;
+    tenant_id: string;
+    plugin_id: string;
+    plugin_name: string;
+    plugin_slug: string;
+    plugin_version: string;
+    latest_version: string;
+    manifest: PluginManifest;
+    code?: string;
+    config: Record<string, any>;
+    is_enabled: boolean;
+    is_active: boolean;
+}
+
+// A release to install so that a plugin's dependencies are met
+interface DependencyInstall {
+    pluginId: string;
+    slug: string;
+    version: string;
+    requiredBy: string;
+}
+
+/**
+ * Dependencies a manifest declares; invalid entries are rejected by
+ * validateManifest
+ */
+function getDependencies(manifest: PluginManifest): PluginDependency[] {
+    return (manifest?.dependencies || [])
+        .map(dependency => parseDependency(dependency))
+        .filter((dependency): dependency is PluginDependency => !!dependency);
+}
+
+/**
+ * Migrations of a release that apply when upgrading between two versions,
+ * oldest first
+ */
+function getPendingMigrations(manifest: PluginManifest, fromVersion: string, toVersion: string) {
+    return (manifest.migrations || [])
+        .filter(migration => compareVersions(migration.version, fromVersion) > 0 && compareVersions(migration.version, toVersion) <= 0)
+        .sort((a, b) => compareVersions(a.version, b.version));
+}
+
+function toInstalledPlugin(row: any, release: { manifest: PluginManifest; code?: string }): InstalledPlugin {
+    const plugin = row.plugins;
+    return {
+        tenant_plugin_id: row.id,
+        tenant_id: row.tenant_id,
+        plugin_id: row.plugin_id,
+        plugin_name: plugin.name,
+        plugin_slug: plugin.slug,
+        plugin_version: row.version || plugin.version,
+        latest_version: plugin.version,
+        manifest: release.manifest,
+        code: release.code,
+        config: row.config || {},
+        is_enabled: row.is_enabled,
+        is_active: plugin.is_active
+    };
+}
+
 class PluginManager {
     private loadedPlugins: Map<string, any> = new Map();
     private handlers: Map<string, PluginHandler[]> = new Map();
 
+    constructor() {
+        // Server-side delivery for the plugin_hooks subscription: tenant
+        // events run the hooks of that tenant's enabled plugins
+        eventConsumer.registerHandler('plugin_hooks', async (event, delivery) => {
+            const tenantId = getEventTenantId(event);
+            if (!tenantId) return;
+
+            await this.executeHook(event.eventType, tenantId, event.eventData, {
+                userId: event.eventData?.userId,
+                event: { id: event.id, type: event.eventType, idempotencyKey: delivery.idempotencyKey }
+            });
+        });
+    }
+
     /**
      * Get all available plugins
      */
@@ -27,7 +163,7 @@ class PluginManager {
             .order('downloads', { ascending: false });
 
         if (error) throw error;
-        return (data || []) as Plugin[];
+        return (data || []).map((row: any) => mapPlugin(row));
     }
 
     /**
@@ -41,42 +177,214 @@ class PluginManager {
             .single();
 
         if (error) return null;
-        return data as Plugin;
+        return mapPlugin(data);
+    }
+
+    /**
+     * Get plugin by id
+     */
+    private async getPluginById(pluginId: string): Promise<Plugin | null> {
+        const { data, error } = await supabase
+            .from('plugins')
+            .select('*')
+            .eq('id', pluginId)
+            .maybeSingle();
+
+        if (error || !data) return null;
+        return mapPlugin(data);
     }
 
     /**
      * Install plugin for tenant
+     * Installs the given release (the latest by default). Missing dependencies
+     * are installed first, each at the highest release its range allows.
      */
     async installPlugin(
         tenantId: string,
         pluginId: string,
-        config: Record<string, any> = {}
+        config: Record<string, any> = {},
+        options: { version?: string } = {}
     ): Promise<TenantPlugin> {
+        const plugin = await this.getPluginById(pluginId);
+        if (!plugin || !plugin.isActive) {
+            throw new Error('Plugin not found');
+        }
+
+        const installed = await this.getInstalledPlugins(tenantId);
+        const current = installed.find(p => p.plugin_id === pluginId);
+        const version = options.version || current?.plugin_version || plugin.version;
+
+        if (current && current.plugin_version !== version) {
+            throw new Error(`${plugin.name} ${current.plugin_version} is already installed; upgrade it instead`);
+        }
+
+        const release = await this.getRelease(pluginId, version);
+        if (!this.validateManifest(release.manifest)) {
+            throw new Error(`${plugin.name} ${version} has an invalid manifest`);
+        }
+
+        const dependencies = await this.resolveDependencies(installed, plugin.slug, release.manifest);
+        await this.installDependencies(tenantId, dependencies);
+
         const { data: tenantPluginId, error } = await supabase.rpc('install_plugin', {
             p_tenant_id: tenantId,
             p_plugin_id: pluginId,
-            p_config: config
+            p_config: config,
+            p_version: version
         });
 
         if (error) throw error;
 
-        const { data: tenantPlugin } = await supabase
+        const { data: tenantPlugin, error: fetchError } = await supabase
             .from('tenant_plugins')
             .select('*')
             .eq('id', tenantPluginId)
             .single();
 
-        return tenantPlugin as TenantPlugin;
+        if (fetchError) throw fetchError;
+        return mapTenantPlugin(tenantPlugin);
     }
 
     /**
      * Uninstall plugin
+     * Refused while other installed plugins depend on it
      */
     async uninstallPlugin(tenantId: string, pluginId: string): Promise<void> {
-        await supabase.rpc('uninstall_plugin', {
+        const installed = await this.getInstalledPlugins(tenantId);
+        const target = installed.find(p => p.plugin_id === pluginId);
+
+        if (target) {
+            const dependents = this.findDependents(installed, target.plugin_slug);
+            if (dependents.length > 0) {
+                throw new PluginDependencyError(
+                    `${target.plugin_name} is required by ${dependents.map(({ plugin }) => plugin.plugin_name).join(', ')}; uninstall those first`,
+                    dependents.map(({ plugin }) => plugin.plugin_slug)
+                );
+            }
+        }
+
+        const { error } = await supabase.rpc('uninstall_plugin', {
             p_tenant_id: tenantId,
             p_plugin_id: pluginId
         });
+
+        if (error) throw error;
+    }
+
+    /**
+     * Upgrade an installed plugin to a newer release (the latest by default)
+     * Plugins that depend on it must accept the new version, and missing
+     * dependencies of the new release are installed first. The release's
+     * migrations between the two versions then run in order, followed by its
+     * onConfigUpdate handler; if any of them fails the previous release and
+     * config are restored and a PluginUpgradeError is thrown.
+     */
+    async upgradePlugin(
+        tenantId: string,
+        pluginId: string,
+        targetVersion?: string
+    ): Promise<PluginUpgradeResult> {
+        const installed = await this.getInstalledPlugins(tenantId);
+        const current = installed.find(p => p.plugin_id === pluginId);
+        if (!current) {
+            throw new Error('Plugin is not installed');
+        }
+
+        const fromVersion = current.plugin_version;
+        const toVersion = targetVersion || current.latest_version;
+        if (!isValidVersion(fromVersion) || !isValidVersion(toVersion)) {
+            throw new Error(`Cannot upgrade ${current.plugin_name} from ${fromVersion} to ${toVersion}`);
+        }
+        if (compareVersions(toVersion, fromVersion) <= 0) {
+            throw new Error(`${current.plugin_name} ${fromVersion} is not older than ${toVersion}`);
+        }
+
+        const release = await this.getRelease(pluginId, toVersion);
+        if (!this.validateManifest(release.manifest)) {
+            throw new Error(`${current.plugin_name} ${toVersion} has an invalid manifest`);
+        }
+
+        const broken = this.findDependents(installed, current.plugin_slug)
+            .filter(({ range }) => !satisfies(toVersion, range));
+        if (broken.length > 0) {
+            throw new PluginDependencyError(
+                broken.map(({ plugin, range }) => `${plugin.plugin_name} requires ${current.plugin_slug}@${range}`).join('; '),
+                broken.map(({ plugin }) => plugin.plugin_slug)
+            );
+        }
+
+        const dependencies = await this.resolveDependencies(installed, current.plugin_slug, release.manifest);
+        await this.installDependencies(tenantId, dependencies);
+
+        const upgraded: InstalledPlugin = {
+            ...current,
+            plugin_version: toVersion,
+            manifest: release.manifest,
+            code: release.code
+        };
+
+        await this.setInstalledRelease(current.tenant_plugin_id, toVersion, current.config);
+
+        try {
+            let config = current.config;
+
+            for (const migration of getPendingMigrations(release.manifest, fromVersion, toVersion)) {
+                const run = await this.runInSandbox(
+                    { ...upgraded, config },
+                    tenantId,
+                    migration.handler,
+                    { fromVersion, toVersion, migrationVersion: migration.version },
+                    {}
+                );
+                if (!run.success) {
+                    throw new Error(`Migration ${migration.version} failed: ${run.error}`);
+                }
+                if (run.result && typeof run.result === 'object' && !Array.isArray(run.result)) {
+                    config = encryptConfigSecrets(release.manifest.settings, run.result);
+                }
+            }
+
+            if (config !== current.config) {
+                await this.setInstalledRelease(current.tenant_plugin_id, toVersion, config);
+            }
+
+            const activation = await this.runConfigUpdate({ ...upgraded, config }, { reason: 'upgrade', fromVersion, toVersion });
+            if (activation && !activation.success) {
+                throw new Error(`${release.manifest.onConfigUpdate} failed: ${activation.error}`);
+            }
+        } catch (error: any) {
+            await this.setInstalledRelease(current.tenant_plugin_id, fromVersion, current.config);
+
+            const message = `Upgrade of ${current.plugin_name} to ${toVersion} failed and was rolled back: ${error.message}`;
+            await this.logPluginActivity(current.tenant_plugin_id, 'error', message, { fromVersion, toVersion });
+            throw new PluginUpgradeError(message, fromVersion, toVersion);
+        }
+
+        const installedDependencies = dependencies.map(dependency => `${dependency.slug}@${dependency.version}`);
+        await this.logPluginActivity(current.tenant_plugin_id, 'info', `Upgraded from ${fromVersion} to ${toVersion}`, {
+            fromVersion,
+            toVersion,
+            installedDependencies
+        });
+
+        return { tenantPluginId: current.tenant_plugin_id, fromVersion, toVersion, installedDependencies };
+    }
+
+    /**
+     * Get published releases of a plugin, newest first
+     */
+    async getPluginVersions(pluginId: string): Promise<PluginVersion[]> {
+        const { data, error } = await supabase
+            .from('plugin_versions')
+            .select('*')
+            .eq('plugin_id', pluginId);
+
+        if (error) throw error;
+
+        const releases: PluginVersion[] = (data || []).map((row: any) => mapPluginVersion(row));
+        return releases
+            .filter(release => isValidVersion(release.version))
+            .sort((a, b) => compareVersions(b.version, a.version));
     }
 
     /**
@@ -108,6 +416,8 @@ class PluginManager {
 
     /**
      * Update plugin configuration
+     * Stores config as given; form input goes through saveSettings so
+     * secret settings are encrypted
      */
     async updatePluginConfig(
         tenantId: string,
@@ -133,37 +443,399 @@ class PluginManager {
 
     /**
      * Execute plugin hooks
+     * Runs the hook's handler of each of the tenant's enabled plugins in
+     * priority order. A failing plugin is logged and does not stop the others.
      */
     async executeHook(
         hookName: string,
-        context: PluginContext,
-        data: any
-    ): Promise<void> {
-        // Get handlers from database
-        const { data: hooks } = await supabase.rpc('get_plugin_hooks', {
+        tenantId: string,
+        data: any,
+        options: { userId?: string; event?: PluginContext['event'] } = {}
+    ): Promise<HookExecutionResult[]> {
+        const { data: hooks, error } = await supabase.rpc('get_tenant_plugin_hooks', {
+            p_tenant_id: tenantId,
             p_hook_name: hookName
         });
 
-        if (!hooks || hooks.length === 0) return;
+        if (error) throw error;
+        if (!hooks || hooks.length === 0) return [];
+
+        const results: HookExecutionResult[] = [];
 
         // Execute handlers in priority order
         for (const hook of hooks) {
-            try {
-                const handler = this.handlers.get(hook.handler_function);
-                if (handler) {
-                    await Promise.all(handler.map(h => h(context, data)));
-                }
-            } catch (error: any) {
-                console.error(`[PluginManager] Hook execution failed:`, error);
+            const run: SandboxResult = hook.code
+                ? await this.runInSandbox(hook, tenantId, hook.handler_function, data, options)
+                : await this.runRegisteredHandlers(hookName, hook, tenantId, data, options);
+
+            if (!run.success) {
+                console.error(`[PluginManager] Hook ${hookName} failed for ${hook.plugin_slug}:`, run.error);
                 await this.logPluginActivity(
-                    context.plugin.id,
+                    hook.tenant_plugin_id,
                     'error',
-                    `Hook ${hookName} failed: ${error.message}`
+                    `Hook ${hookName} failed: ${run.error}`,
+                    { handler: hook.handler_function, durationMs: run.durationMs, eventId: options.event?.id }
                 );
             }
+
+            results.push({
+                tenantPluginId: hook.tenant_plugin_id,
+                pluginSlug: hook.plugin_slug,
+                handler: hook.handler_function,
+                success: run.success,
+                result: run.result,
+                error: run.error,
+                durationMs: run.durationMs
+            });
+        }
+
+        return results;
+    }
+
+    /**
+     * Render a UI component the plugin declares (widget, settings page or
+     * menu route) by running its handler in the sandbox
+     * The handler receives { component, route, params } and returns a PluginView
+     */
+    async renderComponent(
+        tenantPluginId: string,
+        component: string,
+        options: { userId?: string; route?: string; params?: Record<string, any> } = {}
+    ): Promise<PluginView> {
+        const plugin = await this.getInstalledPlugin(tenantPluginId);
+
+        if (!plugin.is_enabled || !plugin.is_active) {
+            throw new Error('Plugin is not enabled');
+        }
+        if (!getDeclaredComponents(getPluginUI(plugin.manifest)).includes(component)) {
+            throw new Error(`Plugin does not declare a UI component named ${component}`);
+        }
+
+        const run = await this.runInSandbox(
+            plugin,
+            plugin.tenant_id,
+            component,
+            { component, route: options.route, params: options.params || {} },
+            { userId: options.userId }
+        );
+
+        if (!run.success) {
+            await this.logPluginActivity(tenantPluginId, 'error', `Component ${component} failed: ${run.error}`, { durationMs: run.durationMs });
+            throw new Error(run.error);
+        }
+
+        const view = pluginViewSchema.safeParse(run.result);
+        if (!view.success) {
+            const message = `Component ${component} returned an invalid view: ${z.prettifyError(view.error)}`;
+            await this.logPluginActivity(tenantPluginId, 'error', message);
+            throw new Error(message);
+        }
+
+        return view.data;
+    }
+
+    /**
+     * Save settings submitted from the generated settings form
+     * Secret settings are encrypted; returns the config as the browser may see it.
+     * The plugin's onConfigUpdate handler runs after the settings are saved.
+     */
+    async saveSettings(
+        tenantPluginId: string,
+        submitted: Record<string, any>
+    ): Promise<{ config?: Record<string, any>; errors?: Record<string, string> }> {
+        const plugin = await this.getInstalledPlugin(tenantPluginId);
+
+        const settings: PluginSetting[] = plugin.manifest.settings || [];
+        const { config, errors } = buildPluginConfig(settings, submitted, plugin.config);
+        if (errors) return { errors };
+
+        const { error: updateError } = await supabase
+            .from('tenant_plugins')
+            .update({ config, updated_at: new Date().toISOString() })
+            .eq('id', tenantPluginId);
+
+        if (updateError) throw updateError;
+
+        await this.logPluginActivity(tenantPluginId, 'info', 'Settings updated', { keys: Object.keys(config!) });
+
+        // The settings are saved either way; a failing handler is only logged
+        const update = await this.runConfigUpdate({ ...plugin, config: config! }, { reason: 'settings' });
+        if (update && !update.success) {
+            await this.logPluginActivity(tenantPluginId, 'error', `${plugin.manifest.onConfigUpdate} failed: ${update.error}`);
+        }
+
+        return { config: redactConfigSecrets(settings, config) };
+    }
+
+    /**
+     * Run one handler of a plugin in the sandbox and write its logs
+     * Secret settings are decrypted only here
+     */
+    private async runInSandbox(
+        hook: any,
+        tenantId: string,
+        handlerName: string,
+        data: any,
+        options: { userId?: string; event?: PluginContext['event'] }
+    ): Promise<SandboxResult> {
+        let config: Record<string, any>;
+        try {
+            config = decryptConfigSecrets(hook.config || {});
+        } catch (error: any) {
+            return { success: false, error: `Could not read secret settings: ${error.message}`, durationMs: 0, logs: [] };
+        }
+
+        const run = await pluginSandbox.run({
+            plugin: {
+                id: hook.plugin_id,
+                name: hook.plugin_name,
+                slug: hook.plugin_slug,
+                version: hook.plugin_version,
+                manifest: hook.manifest,
+                code: hook.code
+            },
+            tenantPluginId: hook.tenant_plugin_id,
+            tenantId,
+            userId: options.userId,
+            config,
+            event: options.event,
+            handlerName,
+            data
+        });
+
+        for (const log of run.logs) {
+            await this.logPluginActivity(hook.tenant_plugin_id, log.logLevel, log.message, log.metadata);
+        }
+
+        return run;
+    }
+
+    /**
+     * Run handlers registered in-process for a hook of a plugin without code
+     * These are trusted application code, so they get a full context
+     */
+    private async runRegisteredHandlers(
+        hookName: string,
+        hook: any,
+        tenantId: string,
+        data: any,
+        options: { userId?: string; event?: PluginContext['event'] }
+    ): Promise<SandboxResult> {
+        const startTime = Date.now();
+        const handlers = this.handlers.get(hookName) || [];
+        const logs: SandboxResult['logs'] = [];
+
+        const log = (logLevel: 'debug' | 'info' | 'warn' | 'error') =>
+            (message: string, metadata?: Record<string, any>) => { logs.push({ logLevel, message, metadata }); };
+
+        const context: PluginContext = {
+            tenantId,
+            userId: options.userId,
+            plugin: { id: hook.plugin_id, name: hook.plugin_name, slug: hook.plugin_slug, version: hook.plugin_version },
+            tenantPluginId: hook.tenant_plugin_id,
+            config: hook.config || {},
+            event: options.event,
+            eventBus: {},
+            services: {},
+            log: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') }
+        };
+
+        let run: SandboxResult;
+        try {
+            const results = await Promise.all(handlers.map(h => h(context, data)));
+            run = { success: true, result: results, durationMs: Date.now() - startTime, logs };
+        } catch (error: any) {
+            run = { success: false, error: error.message, durationMs: Date.now() - startTime, logs };
+        }
+
+        for (const entry of logs) {
+            await this.logPluginActivity(hook.tenant_plugin_id, entry.logLevel, entry.message, entry.metadata);
+        }
+
+        return run;
+    }
+
+    /**
+     * Release of a plugin
+     */
+    private async getRelease(pluginId: string, version: string): Promise<PluginVersion> {
+        const { data, error } = await supabase
+            .from('plugin_versions')
+            .select('*')
+            .eq('plugin_id', pluginId)
+            .eq('version', version)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+            throw new Error(`Release ${version} of the plugin was not found`);
+        }
+        return mapPluginVersion(data);
+    }
+
+    /**
+     * An installed plugin with the manifest and code of its release
+     */
+    private async getInstalledPlugin(tenantPluginId: string): Promise<InstalledPlugin> {
+        const { data: row, error } = await supabase
+            .from('tenant_plugins')
+            .select('id, tenant_id, plugin_id, version, config, is_enabled, plugins(id, name, slug, version, manifest, code, is_active)')
+            .eq('id', tenantPluginId)
+            .single();
+
+        if (error) throw error;
+
+        const plugin: any = row.plugins;
+        if (!plugin) {
+            throw new Error('Plugin not found');
+        }
+
+        const release = row.version && row.version !== plugin.version
+            ? await this.getRelease(plugin.id, row.version)
+            : { manifest: plugin.manifest, code: plugin.code || undefined };
+
+        return toInstalledPlugin(row, release);
+    }
+
+    /**
+     * A tenant's installed plugins with the manifests of their releases
+     */
+    private async getInstalledPlugins(tenantId: string): Promise<InstalledPlugin[]> {
+        const { data, error } = await supabase
+            .from('tenant_plugins')
+            .select('id, tenant_id, plugin_id, version, config, is_enabled, plugins(id, name, slug, version, manifest, is_active, plugin_versions(version, manifest))')
+            .eq('tenant_id', tenantId);
+
+        if (error) throw error;
+
+        return (data || [])
+            .filter((row: any) => row.plugins)
+            .map((row: any) => {
+                const release = (row.plugins.plugin_versions || []).find((r: any) => r.version === row.version);
+                return toInstalledPlugin(row, { manifest: release?.manifest || row.plugins.manifest });
+            });
+    }
+
+    /**
+     * Installed plugins whose releases depend on the given plugin, with the
+     * range each accepts
+     */
+    private findDependents(
+        installed: InstalledPlugin[],
+        slug: string
+    ): Array<{ plugin: InstalledPlugin; range: string }> {
+        return installed.flatMap(plugin => getDependencies(plugin.manifest)
+            .filter(dependency => dependency.slug === slug && plugin.plugin_slug !== slug)
+            .map(dependency => ({ plugin, range: dependency.range })));
+    }
+
+    /**
+     * Releases to install, dependencies first, so that a manifest's
+     * dependencies are met. Installed plugins must already be in range and
+     * enabled; they are never upgraded implicitly.
+     */
+    private async resolveDependencies(
+        installed: InstalledPlugin[],
+        slug: string,
+        manifest: PluginManifest
+    ): Promise<DependencyInstall[]> {
+        const plan: DependencyInstall[] = [];
+
+        const visit = async (dependentSlug: string, dependentManifest: PluginManifest, path: string[]) => {
+            for (const dependency of getDependencies(dependentManifest)) {
+                if (path.includes(dependency.slug)) {
+                    const cycle = [...path, dependency.slug];
+                    throw new PluginDependencyError(`Circular plugin dependency: ${cycle.join(' -> ')}`, cycle);
+                }
+
+                const present = installed.find(p => p.plugin_slug === dependency.slug);
+                const presentVersion = present?.plugin_version ?? plan.find(p => p.slug === dependency.slug)?.version;
+
+                if (presentVersion) {
+                    if (!satisfies(presentVersion, dependency.range)) {
+                        throw new PluginDependencyError(
+                            `${dependentSlug} requires ${dependency.slug}@${dependency.range}, but ${presentVersion} is installed`,
+                            [dependency.slug]
+                        );
+                    }
+                    if (present && !present.is_enabled) {
+                        throw new PluginDependencyError(`${dependentSlug} requires ${dependency.slug}, which is disabled`, [dependency.slug]);
+                    }
+                    continue;
+                }
+
+                const plugin = await this.getPlugin(dependency.slug);
+                if (!plugin || !plugin.isActive) {
+                    throw new PluginDependencyError(`${dependentSlug} requires ${dependency.slug}, which is not available`, [dependency.slug]);
+                }
+
+                const releases = await this.getPluginVersions(plugin.id);
+                const version = maxSatisfying(releases.map(release => release.version), dependency.range);
+                const release = releases.find(r => r.version === version);
+                if (!version || !release) {
+                    throw new PluginDependencyError(
+                        `${dependentSlug} requires ${dependency.slug}@${dependency.range}, which no release matches`,
+                        [dependency.slug]
+                    );
+                }
+                if (!this.validateManifest(release.manifest)) {
+                    throw new PluginDependencyError(`${dependency.slug} ${version} has an invalid manifest`, [dependency.slug]);
+                }
+
+                await visit(dependency.slug, release.manifest, [...path, dependency.slug]);
+                plan.push({ pluginId: plugin.id, slug: plugin.slug, version, requiredBy: dependentSlug });
+            }
+        };
+
+        await visit(slug, manifest, [slug]);
+        return plan;
+    }
+
+    /**
+     * Install releases resolved by resolveDependencies, in order
+     */
+    private async installDependencies(tenantId: string, dependencies: DependencyInstall[]): Promise<void> {
+        for (const dependency of dependencies) {
+            const { data: tenantPluginId, error } = await supabase.rpc('install_plugin', {
+                p_tenant_id: tenantId,
+                p_plugin_id: dependency.pluginId,
+                p_config: {},
+                p_version: dependency.version
+            });
+
+            if (error) throw error;
+            await this.logPluginActivity(tenantPluginId, 'info', `Installed as a dependency of ${dependency.requiredBy}`, {
+                version: dependency.version
+            });
         }
     }
 
+    private async setInstalledRelease(
+        tenantPluginId: string,
+        version: string,
+        config: Record<string, any>
+    ): Promise<void> {
+        const { error } = await supabase
+            .from('tenant_plugins')
+            .update({ version, config, updated_at: new Date().toISOString() })
+            .eq('id', tenantPluginId);
+
+        if (error) throw error;
+    }
+
+    /**
+     * Run the manifest's onConfigUpdate handler, if it declares one
+     */
+    private async runConfigUpdate(
+        plugin: InstalledPlugin,
+        data: { reason: 'settings' | 'upgrade'; fromVersion?: string; toVersion?: string }
+    ): Promise<SandboxResult | null> {
+        const handler = plugin.manifest.onConfigUpdate;
+        if (!handler) return null;
+
+        return this.runInSandbox(plugin, plugin.tenant_id, handler, data, {});
+    }
+
     /**
      * Log plugin activity
      */
@@ -222,21 +894,7 @@ class PluginManager {
             const plugin = await this.getPlugin(tenantPlugin.plugin_slug);
             if (!plugin) return;
 
-            // Register hooks from manifest
-            if (plugin.manifest.hooks) {
-                for (const hook of plugin.manifest.hooks) {
-                    // Store hook in database
-                    await supabase
-                        .from('plugin_hooks')
-                        .upsert({
-                            plugin_id: plugin.id,
-                            hook_name: hook.name,
-                            handler_function: hook.handler,
-                            priority: hook.priority || 10
-                        });
-                }
-            }
-
+            // Hooks are synced from the manifest by the plugins_sync_hooks trigger
             this.loadedPlugins.set(plugin.slug, plugin);
             console.log(`[PluginManager] Loaded plugin: ${plugin.name}`);
 
@@ -263,6 +921,39 @@ class PluginManager {
             }
         }
 
+        // Dependencies are "slug" or "slug@<semver range>"
+        if (manifest.dependencies) {
+            if (!Array.isArray(manifest.dependencies)) return false;
+            for (const dependency of manifest.dependencies) {
+                if (typeof dependency !== 'string' || !parseDependency(dependency)) {
+                    return false;
+                }
+            }
+        }
+
+        if (manifest.migrations) {
+            if (!Array.isArray(manifest.migrations)) return false;
+            for (const migration of manifest.migrations) {
+                if (!migration?.handler || typeof migration.version !== 'string' || !isValidVersion(migration.version)) {
+                    return false;
+                }
+            }
+        }
+
+        if (manifest.onConfigUpdate !== undefined && typeof manifest.onConfigUpdate !== 'string') {
+            return false;
+        }
+
+        // Sandbox limits must be positive numbers; they are capped at run time
+        if (manifest.limits) {
+            for (const key of ['timeoutMs', 'memoryMb']) {
+                const value = manifest.limits[key];
+                if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+                    return false;
+                }
+            }
+        }
+
         return true;
     }
 }
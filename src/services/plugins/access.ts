@@ -0,0 +1,50 @@
+/**
+ * Plugin Architecture - API Access Checks
+ * Whether a signed-in user may use or configure an installed plugin
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Tenant roles that can change plugin settings
+const PLUGIN_ADMIN_ROLES = ['owner', 'admin', 'tenant_admin', 'super_admin'];
+
+export interface TenantPluginAccess {
+    tenantPluginId: string;
+    tenantId: string;
+    pluginId: string;
+    canConfigure: boolean;
+}
+
+/**
+ * The user's access to an installed plugin, or null when they are not a
+ * member of the tenant it is installed for
+ */
+export async function getTenantPluginAccess(
+    supabase: SupabaseClient,
+    userId: string,
+    tenantPluginId: string
+): Promise<TenantPluginAccess | null> {
+    const { data: tenantPlugin } = await supabase
+        .from('tenant_plugins')
+        .select('id, tenant_id, plugin_id')
+        .eq('id', tenantPluginId)
+        .maybeSingle();
+
+    if (!tenantPlugin) return null;
+
+    const { data: membership } = await supabase
+        .from('tenant_users')
+        .select('role')
+        .eq('tenant_id', tenantPlugin.tenant_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!membership) return null;
+
+    return {
+        tenantPluginId: tenantPlugin.id,
+        tenantId: tenantPlugin.tenant_id,
+        pluginId: tenantPlugin.plugin_id,
+        canConfigure: PLUGIN_ADMIN_ROLES.includes(membership.role)
+    };
+}
@@ -0,0 +1,423 @@
+/**
+ * Plugin Architecture - Host Capabilities
+ * Implementations of the PluginContext services, checked against the manifest
+ *
+ * Sandboxed handlers never touch these directly: they post a call to the
+ * host, which checks the plugin's permissions and runs it here with the
+ * tenant and installed plugin fixed by the host, not by the plugin.
+ */
+
+import { lookup as dnsLookup } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import type { LookupFunction } from 'net';
+import { supabase } from '../../lib/supabase';
+import { emailProviderService } from '../EmailProviderService';
+import { notificationService } from '../dashboardService';
+import { eventBus } from '../eventBus';
+import type { PluginHttpRequest, PluginHttpResponse } from './types';
+
+// Responses larger than this are truncated before they reach the plugin
+const MAX_HTTP_RESPONSE_LENGTH = 1024 * 1024;
+
+const HTTP_TIMEOUT_MS = 10000;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// Host names plugins can never call, whatever their permissions
+const BLOCKED_HOST_PATTERNS = [
+    /^localhost$/,
+    /\.localhost$/,
+    /\.local$/,
+    /\.internal$/
+];
+
+// Addresses plugins can never reach: private, loopback, link-local, shared
+// and reserved ranges. IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are
+// checked against the IPv4 ranges.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 96], // Unspecified, loopback and IPv4-compatible
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class PluginPermissionError extends Error {
+    constructor(public readonly permission: string) {
+        super(`Plugin lacks the '${permission}' permission`);
+        this.name = 'PluginPermissionError';
+    }
+}
+
+// Who a capability call runs for; set by the host
+export interface CapabilityScope {
+    tenantId: string;
+    tenantPluginId: string;
+    pluginSlug: string;
+    permissions: string[];
+}
+
+type CapabilityMethod = (scope: CapabilityScope, ...args: any[]) => Promise<any>;
+
+interface Capability {
+    // Whether the manifest grants the service at all (it is left out of the context otherwise)
+    granted: (permissions: string[]) => boolean;
+    methods: Record<string, { permission: string; run: CapabilityMethod }>;
+}
+
+function requirePermission(scope: CapabilityScope, permission: string): void {
+    if (!scope.permissions.includes(permission)) {
+        throw new PluginPermissionError(permission);
+    }
+}
+
+/**
+ * Whether http.request or a matching http.request:<host> permission allows a host
+ */
+export function httpHostAllowed(permissions: string[], host: string): boolean {
+    return permissions.some(permission => {
+        if (permission === 'http.request') return true;
+        if (!permission.startsWith('http.request:')) return false;
+
+        const allowed = permission.slice('http.request:'.length).toLowerCase();
+        return allowed.startsWith('*.')
+            ? host.endsWith(allowed.slice(1))
+            : host === allowed;
+    });
+}
+
+/**
+ * Whether plugins are barred from an IP address
+ */
+export function isBlockedAddress(address: string): boolean {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a host to the address a plugin request connects to
+ * Every address the name resolves to must be public, so a record that
+ * points at an internal address cannot be reached by retrying
+ */
+async function resolvePublicAddress(host: string): Promise<{ address: string; family: number }> {
+    let addresses: Array<{ address: string; family: number }>;
+    try {
+        addresses = await dnsLookup(host, { all: true, verbatim: true });
+    } catch {
+        throw new Error(`Could not resolve ${host}`);
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+        throw new Error(`Requests to ${host} are not allowed`);
+    }
+
+    return addresses[0];
+}
+
+/**
+ * Send a request to the address that was checked rather than resolving the
+ * host again, so the name cannot be rebound to an internal address between
+ * the check and the connection. TLS is still verified against the host name.
+ */
+function sendPinnedRequest(
+    url: URL,
+    pinned: { address: string; family: number },
+    options: { method: string; headers: Record<string, string>; body?: string }
+): Promise<PluginHttpResponse> {
+    const lookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+        if (lookupOptions.all) {
+            callback(null, [pinned]);
+        } else {
+            callback(null, pinned.address, pinned.family);
+        }
+    };
+
+    return new Promise((resolve, reject) => {
+        const request = (url.protocol === 'https:' ? https : http).request(url, {
+            method: options.method,
+            headers: options.headers,
+            lookup,
+            signal: AbortSignal.timeout(HTTP_TIMEOUT_MS)
+        }, response => {
+            const chunks: Buffer[] = [];
+            let length = 0;
+
+            response.on('data', (chunk: Buffer) => {
+                if (length >= MAX_HTTP_RESPONSE_LENGTH) return;
+                chunks.push(chunk);
+                length += chunk.length;
+            });
+            response.on('error', reject);
+            response.on('end', () => {
+                const status = response.statusCode || 0;
+                resolve({
+                    status,
+                    ok: status >= 200 && status < 300,
+                    headers: Object.fromEntries(
+                        Object.entries(response.headers)
+                            .filter(([, value]) => value !== undefined)
+                            .map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)])
+                    ),
+                    body: Buffer.concat(chunks).toString('utf8').slice(0, MAX_HTTP_RESPONSE_LENGTH)
+                });
+            });
+        });
+
+        request.on('error', reject);
+        request.end(options.body);
+    });
+}
+
+async function httpRequest(scope: CapabilityScope, request: PluginHttpRequest): Promise<PluginHttpResponse> {
+    let url: URL;
+    try {
+        url = new URL(request?.url);
+    } catch {
+        throw new Error(`Invalid URL: ${request?.url}`);
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new Error(`Unsupported protocol ${url.protocol}`);
+    }
+
+    const host = url.hostname.toLowerCase();
+    if (BLOCKED_HOST_PATTERNS.some(pattern => pattern.test(host))) {
+        throw new Error(`Requests to ${host} are not allowed`);
+    }
+    if (!httpHostAllowed(scope.permissions, host)) {
+        throw new PluginPermissionError(`http.request:${host}`);
+    }
+
+    const method = (request.method || 'GET').toUpperCase();
+    if (!HTTP_METHODS.includes(method)) {
+        throw new Error(`Unsupported method ${method}`);
+    }
+
+    const headers: Record<string, string> = { ...(request.headers || {}) };
+    let body: string | undefined;
+    if (request.body !== undefined && request.body !== null) {
+        if (typeof request.body === 'string') {
+            body = request.body;
+        } else {
+            body = JSON.stringify(request.body);
+            headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+        }
+        headers['Content-Length'] = String(Buffer.byteLength(body));
+    }
+
+    // IPv6 literals keep their brackets in the URL's hostname
+    const pinned = await resolvePublicAddress(host.replace(/^\[|\]$/g, ''));
+
+    return sendPinnedRequest(url, pinned, { method, headers, body });
+}
+
+const CAPABILITIES: Record<string, Capability> = {
+    http: {
+        granted: permissions => permissions.some(permission =>
+            permission === 'http.request' || permission.startsWith('http.request:')
+        ),
+        methods: {
+            // Host permissions are checked per request
+            request: { permission: '', run: httpRequest }
+        }
+    },
+
+    email: {
+        granted: permissions => permissions.includes('email.send'),
+        methods: {
+            send: {
+                permission: 'email.send',
+                run: async (scope, message) => {
+                    if (!message?.to || !message?.subject) {
+                        throw new Error('email.send needs to and subject');
+                    }
+
+                    const { success, error } = await emailProviderService.sendEmail({
+                        to: String(message.to),
+                        subject: String(message.subject),
+                        html: message.html || message.text || '',
+                        text: message.text,
+                        replyTo: message.replyTo
+                    });
+
+                    if (!success) throw new Error(`Email failed: ${error}`);
+                }
+            }
+        }
+    },
+
+    notification: {
+        granted: permissions => permissions.includes('notifications.send'),
+        methods: {
+            send: {
+                permission: 'notifications.send',
+                run: async (scope, notification) => {
+                    if (!notification?.userId || !notification?.title) {
+                        throw new Error('notification.send needs userId and title');
+                    }
+
+                    const { data: member } = await supabase
+                        .from('tenant_users')
+                        .select('user_id')
+                        .eq('tenant_id', scope.tenantId)
+                        .eq('user_id', notification.userId)
+                        .maybeSingle();
+
+                    if (!member) throw new Error('User is not a member of this tenant');
+
+                    const { error } = await notificationService.createNotification({
+                        user_id: notification.userId,
+                        type: 'system',
+                        title: String(notification.title),
+                        message: notification.message,
+                        read: false,
+                        metadata: { pluginSlug: scope.pluginSlug }
+                    });
+
+                    if (error) throw error;
+                }
+            }
+        }
+    },
+
+    storage: {
+        granted: permissions => permissions.includes('storage.read') || permissions.includes('storage.write'),
+        methods: {
+            get: {
+                permission: 'storage.read',
+                run: async (scope, key) => {
+                    const { data, error } = await supabase
+                        .from('plugin_storage')
+                        .select('value')
+                        .eq('tenant_plugin_id', scope.tenantPluginId)
+                        .eq('key', String(key))
+                        .maybeSingle();
+
+                    if (error) throw error;
+                    return data ? data.value : null;
+                }
+            },
+            list: {
+                permission: 'storage.read',
+                run: async (scope, prefix = '') => {
+                    const { data, error } = await supabase
+                        .from('plugin_storage')
+                        .select('key')
+                        .eq('tenant_plugin_id', scope.tenantPluginId)
+                        .like('key', `${String(prefix).replace(/[\\%_]/g, '\\$&')}%`)
+                        .order('key');
+
+                    if (error) throw error;
+                    return (data || []).map((row: any) => row.key);
+                }
+            },
+            set: {
+                permission: 'storage.write',
+                run: async (scope, key, value) => {
+                    const { error } = await supabase
+                        .from('plugin_storage')
+                        .upsert({
+                            tenant_plugin_id: scope.tenantPluginId,
+                            key: String(key),
+                            value: value ?? null,
+                            updated_at: new Date().toISOString()
+                        }, { onConflict: 'tenant_plugin_id,key' });
+
+                    if (error) throw error;
+                }
+            },
+            delete: {
+                permission: 'storage.write',
+                run: async (scope, key) => {
+                    const { error } = await supabase
+                        .from('plugin_storage')
+                        .delete()
+                        .eq('tenant_plugin_id', scope.tenantPluginId)
+                        .eq('key', String(key));
+
+                    if (error) throw error;
+                }
+            }
+        }
+    },
+
+    eventBus: {
+        granted: permissions => permissions.includes('events.publish'),
+        methods: {
+            publish: {
+                permission: 'events.publish',
+                run: async (scope, eventType, data) => {
+                    if (typeof eventType !== 'string' || !eventType) {
+                        throw new Error('eventBus.publish needs an event type');
+                    }
+
+                    return eventBus.publish({
+                        eventType,
+                        eventSource: `plugin:${scope.pluginSlug}`,
+                        eventData: data ?? {},
+                        tenantId: scope.tenantId,
+                        metadata: { tenantPluginId: scope.tenantPluginId }
+                    });
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Services and methods the manifest grants, e.g. { http: ['request'] }
+ * Used to build the context inside the sandbox
+ */
+export function getGrantedCapabilities(permissions: string[]): Record<string, string[]> {
+    const granted: Record<string, string[]> = {};
+
+    for (const [service, capability] of Object.entries(CAPABILITIES)) {
+        if (!capability.granted(permissions)) continue;
+        granted[service] = Object.entries(capability.methods)
+            .filter(([, method]) => !method.permission || permissions.includes(method.permission))
+            .map(([name]) => name);
+    }
+
+    return granted;
+}
+
+/**
+ * Run a capability call from a sandboxed handler
+ */
+export async function invokeCapability(
+    scope: CapabilityScope,
+    service: string,
+    method: string,
+    args: any[]
+): Promise<any> {
+    const capability = CAPABILITIES[service];
+    const capabilityMethod = capability?.methods[method];
+    if (!capabilityMethod) {
+        throw new Error(`Unknown plugin service ${service}.${method}`);
+    }
+
+    if (capabilityMethod.permission) {
+        requirePermission(scope, capabilityMethod.permission);
+    }
+
+    return capabilityMethod.run(scope, ...args);
+}
@@ -3,4 +3,28 @@
  */
 
 export { pluginManager } from './PluginManager';
+export { PluginDependencyError, PluginUpgradeError } from './PluginManager';
+export type { HookExecutionResult, PluginUpgradeResult } from './PluginManager';
+export { pluginSandbox, resolveLimits } from './sandbox';
+export type { SandboxRunOptions, SandboxResult } from './sandbox';
+export { PluginPermissionError, getGrantedCapabilities, httpHostAllowed } from './capabilities';
+export { mapPlugin, mapPluginVersion, mapTenantPlugin } from './mappers';
+export {
+    parseVersion,
+    isValidVersion,
+    compareVersions,
+    isValidRange,
+    satisfies,
+    maxSatisfying,
+    parseDependency
+} from './semver';
+export type { SemVer, PluginDependency } from './semver';
+export {
+    pluginViewSchema,
+    getPluginUI,
+    getPluginRoutePath,
+    parsePluginRoutePath,
+    getDeclaredComponents
+} from './ui';
+export type { PluginView, PluginViewBlock, PluginExtension } from './ui';
 export * from './types';
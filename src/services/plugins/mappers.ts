@@ -0,0 +1,60 @@
+/**
+ * Plugin Architecture - Row Mappers
+ * Convert snake_case database rows into plugin types
+ */
+
+import type { Plugin, PluginVersion, TenantPlugin } from './types';
+
+/**
+ * Map a plugins row to a Plugin
+ */
+export function mapPlugin(row: any): Plugin {
+    return {
+        id: row.id,
+        name: row.name,
+        slug: row.slug,
+        description: row.description || undefined,
+        version: row.version,
+        author: row.author || undefined,
+        authorUrl: row.author_url || undefined,
+        iconUrl: row.icon_url || undefined,
+        manifest: row.manifest || { permissions: [] },
+        code: row.code || undefined,
+        isOfficial: row.is_official,
+        isActive: row.is_active,
+        downloads: row.downloads || 0,
+        rating: row.rating ?? undefined,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+    };
+}
+
+/**
+ * Map a plugin_versions row to a PluginVersion
+ */
+export function mapPluginVersion(row: any): PluginVersion {
+    return {
+        id: row.id,
+        pluginId: row.plugin_id,
+        version: row.version,
+        manifest: row.manifest || { permissions: [] },
+        code: row.code || undefined,
+        createdAt: new Date(row.created_at)
+    };
+}
+
+/**
+ * Map a tenant_plugins row to a TenantPlugin
+ */
+export function mapTenantPlugin(row: any): TenantPlugin {
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        pluginId: row.plugin_id,
+        version: row.version,
+        config: row.config || {},
+        isEnabled: row.is_enabled,
+        installedAt: new Date(row.installed_at),
+        updatedAt: new Date(row.updated_at)
+    };
+}
@@ -0,0 +1,190 @@
+/**
+ * Plugin Architecture - Sandbox Runtime
+ * Runs plugin handler code in an isolated worker with time and memory limits
+ *
+ * Every handler call gets a new worker thread with an empty environment and
+ * capped heap, running the plugin module in a VM context (see
+ * sandboxWorker.ts). The worker is terminated when the handler settles or
+ * the time limit passes. Service calls come back to this thread as messages
+ * and are checked against the manifest's permissions before they run.
+ */
+
+import { Worker } from 'worker_threads';
+import { getGrantedCapabilities, invokeCapability } from './capabilities';
+import type { CapabilityScope } from './capabilities';
+import { SANDBOX_WORKER_SOURCE } from './sandboxWorker';
+import type { Plugin, PluginLimits, PluginLog } from './types';
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_TIMEOUT_MS = 30000;
+const DEFAULT_MEMORY_MB = 64;
+const MAX_MEMORY_MB = 256;
+
+// Caps on what one handler call may do
+const MAX_SERVICE_CALLS = 50;
+const MAX_LOG_ENTRIES = 100;
+const MAX_LOG_MESSAGE_LENGTH = 2000;
+
+export interface SandboxRunOptions {
+    plugin: Pick<Plugin, 'id' | 'name' | 'slug' | 'version' | 'manifest' | 'code'>;
+    tenantPluginId: string;
+    tenantId: string;
+    userId?: string;
+    config: Record<string, any>;
+    event?: { id: string; type: string; idempotencyKey?: string };
+    handlerName: string;
+    data: any;
+}
+
+export interface SandboxResult {
+    success: boolean;
+    result?: any;
+    error?: string;
+    durationMs: number;
+    logs: Array<Pick<PluginLog, 'logLevel' | 'message' | 'metadata'>>;
+}
+
+/**
+ * Time and memory limits for a plugin, within the runtime's caps
+ */
+export function resolveLimits(limits: PluginLimits = {}): Required<PluginLimits> {
+    return {
+        timeoutMs: Math.min(Math.max(limits.timeoutMs || DEFAULT_TIMEOUT_MS, 100), MAX_TIMEOUT_MS),
+        memoryMb: Math.min(Math.max(limits.memoryMb || DEFAULT_MEMORY_MB, 16), MAX_MEMORY_MB)
+    };
+}
+
+class PluginSandbox {
+    /**
+     * Run one exported handler of a plugin's code
+     * Never throws for plugin failures; they are returned with the logs
+     */
+    async run(options: SandboxRunOptions): Promise<SandboxResult> {
+        const startTime = Date.now();
+        const logs: SandboxResult['logs'] = [];
+        const permissions = options.plugin.manifest?.permissions || [];
+        const limits = resolveLimits(options.plugin.manifest?.limits);
+
+        if (!options.plugin.code) {
+            return { success: false, error: 'Plugin has no handler code', durationMs: 0, logs };
+        }
+
+        const scope: CapabilityScope = {
+            tenantId: options.tenantId,
+            tenantPluginId: options.tenantPluginId,
+            pluginSlug: options.plugin.slug,
+            permissions
+        };
+
+        let contextJson: string;
+        let dataJson: string;
+        try {
+            contextJson = JSON.stringify({
+                tenantId: options.tenantId,
+                userId: options.userId,
+                plugin: {
+                    id: options.plugin.id,
+                    name: options.plugin.name,
+                    slug: options.plugin.slug,
+                    version: options.plugin.version
+                },
+                tenantPluginId: options.tenantPluginId,
+                config: options.config || {},
+                event: options.event,
+                capabilities: getGrantedCapabilities(permissions)
+            });
+            dataJson = JSON.stringify(options.data ?? null);
+        } catch (error: any) {
+            return { success: false, error: `Handler input is not JSON: ${error.message}`, durationMs: 0, logs };
+        }
+
+        const worker = new Worker(SANDBOX_WORKER_SOURCE, {
+            eval: true,
+            env: {},
+            workerData: {
+                code: options.plugin.code,
+                pluginSlug: options.plugin.slug,
+                handlerName: options.handlerName,
+                contextJson,
+                dataJson
+            },
+            resourceLimits: {
+                maxOldGenerationSizeMb: limits.memoryMb,
+                maxYoungGenerationSizeMb: Math.max(Math.floor(limits.memoryMb / 8), 4),
+                stackSizeMb: 4
+            },
+            stdout: true,
+            stderr: true
+        });
+
+        let serviceCalls = 0;
+
+        const outcome = await new Promise<{ success: boolean; result?: any; error?: string }>(resolve => {
+            let settled = false;
+            const finish = (value: { success: boolean; result?: any; error?: string }) => {
+                if (settled) return;
+                settled = true;
+                clearTimeout(timer);
+                resolve(value);
+            };
+
+            const timer = setTimeout(() => {
+                finish({ success: false, error: `Handler exceeded its ${limits.timeoutMs}ms time limit` });
+            }, limits.timeoutMs);
+
+            worker.on('message', async (raw: string) => {
+                let message: any;
+                try {
+                    message = JSON.parse(raw);
+                } catch {
+                    return;
+                }
+
+                if (message.type === 'log') {
+                    if (logs.length < MAX_LOG_ENTRIES) {
+                        logs.push({
+                            logLevel: ['debug', 'info', 'warn', 'error'].includes(message.level) ? message.level : 'info',
+                            message: String(message.message).slice(0, MAX_LOG_MESSAGE_LENGTH),
+                            metadata: message.metadata ?? undefined
+                        });
+                    }
+                } else if (message.type === 'call') {
+                    let reply: { id: number; value?: any; error?: string };
+                    try {
+                        if (++serviceCalls > MAX_SERVICE_CALLS) {
+                            throw new Error(`More than ${MAX_SERVICE_CALLS} service calls in one run`);
+                        }
+                        const value = await invokeCapability(scope, message.service, message.method, message.args || []);
+                        reply = { id: message.id, value: value ?? null };
+                    } catch (error: any) {
+                        reply = { id: message.id, error: error.message || String(error) };
+                    }
+                    if (!settled) worker.postMessage(JSON.stringify(reply));
+                } else if (message.type === 'result') {
+                    finish({ success: true, result: JSON.parse(message.value) });
+                } else if (message.type === 'error') {
+                    finish({ success: false, error: message.message });
+                }
+            });
+
+            worker.on('error', (error: any) => {
+                finish({
+                    success: false,
+                    error: error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+                        ? `Handler exceeded its ${limits.memoryMb}MB memory limit`
+                        : error.message
+                });
+            });
+
+            worker.on('exit', (code) => {
+                finish({ success: false, error: `Sandbox exited with code ${code}` });
+            });
+        });
+
+        await worker.terminate();
+
+        return { ...outcome, durationMs: Date.now() - startTime, logs };
+    }
+}
+
+export const pluginSandbox = new PluginSandbox();
@@ -0,0 +1,117 @@
+/**
+ * Plugin Architecture - Sandbox Worker Source
+ * Plain JavaScript evaluated as a worker thread by sandbox.ts
+ *
+ * The worker compiles the plugin module inside a fresh VM context with no
+ * Node globals and no string code generation, then runs one handler. Only
+ * strings cross between the context and the worker: the context gets JSON
+ * in, and service calls and logs go out as JSON messages to the host.
+ *
+ * Plugin modules are CommonJS-style:
+ *
+ *     module.exports = {
+ *         async onProjectCreated(context, data) { ... }
+ *     };
+ */
+
+export const SANDBOX_WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+// Runs inside the context; receives the worker's send function and keeps it private
+const BOOTSTRAP = String.raw${'`'}
+(function (send) {
+    'use strict';
+    const pending = new Map();
+    let nextId = 0;
+
+    const call = (service, method, args) => new Promise((resolve, reject) => {
+        const id = ++nextId;
+        pending.set(id, { resolve, reject });
+        send(JSON.stringify({ type: 'call', id, service, method, args }));
+    });
+
+    const log = (level) => (message, metadata) => {
+        send(JSON.stringify({ type: 'log', level, message: String(message), metadata: metadata === undefined ? null : metadata }));
+    };
+
+    const settle = (json) => {
+        const reply = JSON.parse(json);
+        const entry = pending.get(reply.id);
+        if (!entry) return;
+        pending.delete(reply.id);
+        if (reply.error) entry.reject(new Error(reply.error));
+        else entry.resolve(reply.value);
+    };
+
+    const run = async (factory, handlerName, contextJson, dataJson) => {
+        const module = { exports: {} };
+        factory(module, module.exports);
+
+        const handler = module.exports[handlerName];
+        if (typeof handler !== 'function') {
+            throw new Error('Plugin does not export a handler named ' + handlerName);
+        }
+
+        const base = JSON.parse(contextJson);
+        const services = {};
+        for (const [service, methods] of Object.entries(base.capabilities)) {
+            const target = service === 'eventBus' ? {} : (services[service] = {});
+            for (const method of methods) {
+                target[method] = (...args) => call(service, method, args);
+            }
+            if (service === 'eventBus') base.eventBus = target;
+        }
+
+        const logger = { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') };
+        const context = Object.freeze({
+            tenantId: base.tenantId,
+            userId: base.userId,
+            plugin: Object.freeze(base.plugin),
+            tenantPluginId: base.tenantPluginId,
+            config: base.config,
+            event: base.event,
+            eventBus: Object.freeze(base.eventBus || {}),
+            services: Object.freeze(services),
+            log: Object.freeze(logger)
+        });
+
+        globalThis.console = {
+            log: logger.info, info: logger.info, debug: logger.debug, warn: logger.warn, error: logger.error
+        };
+
+        const result = await handler(context, JSON.parse(dataJson));
+        return result === undefined ? 'null' : JSON.stringify(result);
+    };
+
+    return { run, settle };
+})
+${'`'};
+
+const context = vm.createContext(Object.create(null), {
+    name: 'plugin:' + workerData.pluginSlug,
+    codeGeneration: { strings: false, wasm: false }
+});
+
+const sandbox = new vm.Script(BOOTSTRAP).runInContext(context)((message) => {
+    parentPort.postMessage(String(message));
+});
+
+parentPort.on('message', (message) => {
+    sandbox.settle(String(message));
+});
+
+(async () => {
+    try {
+        const factory = vm.compileFunction(workerData.code, ['module', 'exports'], {
+            parsingContext: context,
+            filename: 'plugin:' + workerData.pluginSlug
+        });
+        const result = await sandbox.run(factory, workerData.handlerName, workerData.contextJson, workerData.dataJson);
+        parentPort.postMessage(JSON.stringify({ type: 'result', value: String(result) }));
+    } catch (error) {
+        const message = error && error.message ? String(error.message) : String(error);
+        parentPort.postMessage(JSON.stringify({ type: 'error', message }));
+    }
+})();
+`;
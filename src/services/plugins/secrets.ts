@@ -0,0 +1,155 @@
+/**
+ * Plugin Architecture - Secret Settings
+ * Encrypts settings marked `secret` before they are stored in tenant_plugins.config
+ *
+ * Secrets are AES-256-GCM encrypted with PLUGIN_SECRETS_KEY (32 bytes, hex or
+ * base64) and stored as { "$encrypted": "v1:<iv>:<tag>:<ciphertext>" }. They
+ * are decrypted only for the sandbox and never sent back to the browser.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import type { PluginSetting } from './types';
+
+const ALGORITHM = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+export interface EncryptedValue {
+    $encrypted: string;
+}
+
+// What the browser sees in place of a secret
+export interface RedactedSecret {
+    $secret: true;
+    isSet: boolean;
+}
+
+function getKey(): Buffer {
+    const raw = process.env.PLUGIN_SECRETS_KEY;
+    if (!raw) {
+        throw new Error('PLUGIN_SECRETS_KEY is not configured');
+    }
+
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+    if (key.length !== 32) {
+        throw new Error('PLUGIN_SECRETS_KEY must be 32 bytes (hex or base64)');
+    }
+    return key;
+}
+
+export function isEncryptedValue(value: any): value is EncryptedValue {
+    return !!value && typeof value === 'object' && typeof value.$encrypted === 'string';
+}
+
+export function encryptSecret(value: any): EncryptedValue {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+    return {
+        $encrypted: [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':')
+    };
+}
+
+export function decryptSecret(value: EncryptedValue): any {
+    const [version, iv, tag, ciphertext] = value.$encrypted.split(':');
+    if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) {
+        throw new Error('Unrecognised encrypted setting');
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+}
+
+/**
+ * Config with secret settings decrypted, for handlers
+ */
+export function decryptConfigSecrets(config: Record<string, any> = {}): Record<string, any> {
+    return Object.fromEntries(Object.entries(config).map(([key, value]) =>
+        [key, isEncryptedValue(value) ? decryptSecret(value) : value]
+    ));
+}
+
+/**
+ * Encrypt plaintext secret settings, e.g. in a config returned by a migration
+ */
+export function encryptConfigSecrets(
+    settings: PluginSetting[] = [],
+    config: Record<string, any> = {}
+): Record<string, any> {
+    const secretKeys = new Set(settings.filter(setting => setting.secret).map(setting => setting.key));
+
+    return Object.fromEntries(Object.entries(config).map(([key, value]) =>
+        [key, secretKeys.has(key) && value !== undefined && value !== null && !isEncryptedValue(value) ? encryptSecret(value) : value]
+    ));
+}
+
+/**
+ * Config with secrets replaced by whether they are set, for the browser
+ */
+export function redactConfigSecrets(
+    settings: PluginSetting[] = [],
+    config: Record<string, any> = {}
+): Record<string, any> {
+    const secretKeys = new Set(settings.filter(setting => setting.secret).map(setting => setting.key));
+
+    return Object.fromEntries(Object.entries(config).map(([key, value]) => {
+        if (!secretKeys.has(key) && !isEncryptedValue(value)) return [key, value];
+        const redacted: RedactedSecret = { $secret: true, isSet: value !== undefined && value !== null && value !== '' };
+        return [key, redacted];
+    }));
+}
+
+/**
+ * Validate submitted settings against the manifest and build the config to store
+ * Secret settings left blank keep their stored value; others are encrypted
+ */
+export function buildPluginConfig(
+    settings: PluginSetting[] = [],
+    submitted: Record<string, any>,
+    stored: Record<string, any> = {}
+): { config?: Record<string, any>; errors?: Record<string, string> } {
+    const config: Record<string, any> = {};
+    const errors: Record<string, string> = {};
+
+    for (const setting of settings) {
+        let value = submitted[setting.key];
+
+        if (setting.secret && (value === undefined || value === '' || value?.$secret)) {
+            if (stored[setting.key] !== undefined) {
+                config[setting.key] = stored[setting.key];
+            } else if (setting.required) {
+                errors[setting.key] = `${setting.label} is required`;
+            }
+            continue;
+        }
+
+        if (value === undefined || value === '' || value === null) {
+            if (setting.required) errors[setting.key] = `${setting.label} is required`;
+            else if (setting.default !== undefined) config[setting.key] = setting.default;
+            continue;
+        }
+
+        if (setting.type === 'number') {
+            value = Number(value);
+            if (!Number.isFinite(value)) {
+                errors[setting.key] = `${setting.label} must be a number`;
+                continue;
+            }
+        } else if (setting.type === 'boolean') {
+            value = value === true || value === 'true';
+        } else if (setting.type === 'select') {
+            if (!(setting.options || []).some(option => option.value === value)) {
+                errors[setting.key] = `${setting.label} must be one of the listed options`;
+                continue;
+            }
+        } else {
+            value = String(value);
+        }
+
+        config[setting.key] = setting.secret ? encryptSecret(value) : value;
+    }
+
+    return Object.keys(errors).length > 0 ? { errors } : { config };
+}
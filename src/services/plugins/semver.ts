@@ -0,0 +1,218 @@
+/**
+ * Plugin Architecture - Versions
+ * Semantic version parsing and range matching for plugin dependencies
+ *
+ * Supports the range forms manifests use: exact versions, comparators
+ * (>, >=, <, <=, =), caret (^1.2.0), tilde (~1.2.0), x-ranges (1.x, 1.2.*, *),
+ * hyphen ranges (1.0.0 - 2.0.0), space-separated AND and || alternatives.
+ */
+
+export interface SemVer {
+    major: number;
+    minor: number;
+    patch: number;
+    prerelease: string[];
+}
+
+export interface PluginDependency {
+    slug: string;
+    range: string;
+}
+
+type Comparator = { operator: '<' | '<=' | '>' | '>=' | '='; version: SemVer };
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+export function parseVersion(version: string): SemVer | null {
+    const match = VERSION_PATTERN.exec(String(version).trim());
+    if (!match) return null;
+
+    return {
+        major: Number(match[1]),
+        minor: Number(match[2]),
+        patch: Number(match[3]),
+        prerelease: match[4] ? match[4].split('.') : []
+    };
+}
+
+export function isValidVersion(version: string): boolean {
+    return parseVersion(version) !== null;
+}
+
+function comparePrerelease(a: string[], b: string[]): number {
+    // A release sorts after its prereleases
+    if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        if (a[i] === undefined) return -1;
+        if (b[i] === undefined) return 1;
+        if (a[i] === b[i]) continue;
+
+        const aNumeric = /^\d+$/.test(a[i]);
+        const bNumeric = /^\d+$/.test(b[i]);
+        if (aNumeric && bNumeric) return Number(a[i]) - Number(b[i]);
+        if (aNumeric) return -1;
+        if (bNumeric) return 1;
+        return a[i] < b[i] ? -1 : 1;
+    }
+    return 0;
+}
+
+function compare(a: SemVer, b: SemVer): number {
+    return (a.major - b.major) || (a.minor - b.minor) || (a.patch - b.patch) || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Negative, zero or positive as a sorts before, with or after b
+ * Throws for versions that do not parse
+ */
+export function compareVersions(a: string, b: string): number {
+    const left = parseVersion(a);
+    const right = parseVersion(b);
+    if (!left || !right) {
+        throw new Error(`Invalid version: ${left ? b : a}`);
+    }
+    return Math.sign(compare(left, right));
+}
+
+const version = (major: number, minor: number, patch: number, prerelease: string[] = []): SemVer =>
+    ({ major, minor, patch, prerelease });
+
+const isWildcard = (part: string | undefined) => part === undefined || /^[xX*]$/.test(part);
+
+/**
+ * Expand one range token (e.g. ^1.2.0, >=1.0, 1.x) into comparators
+ */
+function parseComparator(token: string): Comparator[] | null {
+    const match = /^(\^|~|>=|<=|>|<|=)?\s*(.+)$/.exec(token);
+    if (!match) return null;
+
+    const prefix = match[1] || '';
+    const partial = PARTIAL_PATTERN.exec(match[2]);
+    if (!partial) return null;
+
+    const [, majorPart, minorPart, patchPart, pre] = partial;
+    if (isWildcard(majorPart)) {
+        return prefix === '<' || prefix === '>' ? [{ operator: '<', version: version(0, 0, 0) }] : [];
+    }
+
+    const major = Number(majorPart);
+    const minor = isWildcard(minorPart) ? 0 : Number(minorPart);
+    const patch = isWildcard(patchPart) ? 0 : Number(patchPart);
+    const prerelease = pre ? pre.split('.') : [];
+    const base = version(major, minor, patch, prerelease);
+
+    // The first version past what the token allows, for partial versions
+    const nextAfterPartial = isWildcard(minorPart)
+        ? version(major + 1, 0, 0)
+        : isWildcard(patchPart) ? version(major, minor + 1, 0) : null;
+
+    switch (prefix) {
+        case '^': {
+            const upper = major > 0 || isWildcard(minorPart) ? version(major + 1, 0, 0)
+                : minor > 0 || isWildcard(patchPart) ? version(0, minor + 1, 0)
+                    : version(0, 0, patch + 1);
+            return [{ operator: '>=', version: base }, { operator: '<', version: upper }];
+        }
+        case '~': {
+            const upper = isWildcard(minorPart) ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+            return [{ operator: '>=', version: base }, { operator: '<', version: upper }];
+        }
+        case '>':
+            return [nextAfterPartial ? { operator: '>=', version: nextAfterPartial } : { operator: '>', version: base }];
+        case '<=':
+            return [nextAfterPartial ? { operator: '<', version: nextAfterPartial } : { operator: '<=', version: base }];
+        case '>=':
+        case '<':
+            return [{ operator: prefix, version: base }];
+        default:
+            return nextAfterPartial
+                ? [{ operator: '>=', version: base }, { operator: '<', version: nextAfterPartial }]
+                : [{ operator: '=', version: base }];
+    }
+}
+
+/**
+ * Parse a range into alternatives, each a set of comparators that must all hold
+ */
+function parseRange(range: string): Comparator[][] | null {
+    const alternatives: Comparator[][] = [];
+
+    for (const alternative of String(range).split('||')) {
+        const trimmed = alternative.trim();
+        const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+        const tokens = hyphen
+            ? [`>=${hyphen[1]}`, `<=${hyphen[2]}`]
+            : trimmed.replace(/(\^|~|>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+
+        const comparators: Comparator[] = [];
+        for (const token of tokens.length > 0 ? tokens : ['*']) {
+            const parsed = parseComparator(token);
+            if (!parsed) return null;
+            comparators.push(...parsed);
+        }
+        alternatives.push(comparators);
+    }
+
+    return alternatives;
+}
+
+export function isValidRange(range: string): boolean {
+    return parseRange(range) !== null;
+}
+
+function test(comparator: Comparator, candidate: SemVer): boolean {
+    const result = compare(candidate, comparator.version);
+    switch (comparator.operator) {
+        case '<': return result < 0;
+        case '<=': return result <= 0;
+        case '>': return result > 0;
+        case '>=': return result >= 0;
+        default: return result === 0;
+    }
+}
+
+/**
+ * Whether a version falls within a range
+ * Prereleases only match ranges that name a prerelease of the same version
+ */
+export function satisfies(candidateVersion: string, range: string): boolean {
+    const candidate = parseVersion(candidateVersion);
+    const alternatives = parseRange(range);
+    if (!candidate || !alternatives) return false;
+
+    return alternatives.some(comparators => {
+        if (!comparators.every(comparator => test(comparator, candidate))) return false;
+        if (candidate.prerelease.length === 0) return true;
+
+        return comparators.some(({ version: bound }) =>
+            bound.prerelease.length > 0
+            && bound.major === candidate.major
+            && bound.minor === candidate.minor
+            && bound.patch === candidate.patch
+        );
+    });
+}
+
+/**
+ * The highest of the given versions within a range
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+    return versions
+        .filter(candidate => satisfies(candidate, range))
+        .sort(compareVersions)
+        .pop() ?? null;
+}
+
+/**
+ * Parse a manifest dependency: "slug", "slug@^1.2.0" or "slug@>=1.0 <2.0"
+ * A bare slug accepts any version
+ */
+export function parseDependency(dependency: string): PluginDependency | null {
+    const match = /^([a-z0-9][a-z0-9_-]*)(?:@(.+))?$/i.exec(String(dependency).trim());
+    if (!match) return null;
+
+    const range = match[2]?.trim() || '*';
+    return isValidRange(range) ? { slug: match[1], range } : null;
+}
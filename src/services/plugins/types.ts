@@ -14,6 +14,7 @@ export interface Plugin {
     authorUrl?: string;
     iconUrl?: string;
     manifest: PluginManifest;
+    code?: string;                  // Handler module run in the sandbox (see sandbox.ts)
     isOfficial: boolean;
     isActive: boolean;
     downloads: number;
@@ -28,7 +29,33 @@ export interface PluginManifest {
     hooks?: PluginHookConfig[];
     settings?: PluginSetting[];
     ui?: PluginUI;
-    dependencies?: string[];
+    dependencies?: string[];        // "slug" or "slug@<semver range>" (see semver.ts)
+    limits?: PluginLimits;
+    migrations?: PluginMigration[];
+    onConfigUpdate?: string;        // Handler run after settings change, upgrade or rollback
+}
+
+// Handler run when a tenant upgrades across `version`; it receives
+// { fromVersion, toVersion } and may return the config to store
+export interface PluginMigration {
+    version: string;
+    handler: string;
+}
+
+// Published release of a plugin; tenants stay on theirs until they upgrade
+export interface PluginVersion {
+    id: string;
+    pluginId: string;
+    version: string;
+    manifest: PluginManifest;
+    code?: string;
+    createdAt: Date;
+}
+
+// Sandbox limits a plugin asks for; capped by the runtime (see sandbox.ts)
+export interface PluginLimits {
+    timeoutMs?: number;
+    memoryMb?: number;
 }
 
 // Plugin Hook Configuration
@@ -51,18 +78,23 @@ export interface PluginSetting {
 }
 
 // Plugin UI Configuration
+// Each component names a handler exported by the plugin's code. The handler
+// runs in the sandbox and returns a PluginView (see ui.ts), which the
+// dashboard renders; plugin code never runs in the browser.
 export interface PluginUI {
     dashboardWidget?: {
         component: string;
         size: 'small' | 'medium' | 'large';
+        title?: string;
     };
     settingsPage?: {
         component: string;
     };
     menuItems?: Array<{
         label: string;
-        icon?: string;
-        route: string;
+        icon?: string;              // chart, calendar, document, mail, message, settings or zap
+        route: string;              // Served at /dashboard/plugins/<slug>/<route>
+        component?: string;         // Defaults to the settings page component
     }>;
 }
 
@@ -71,6 +103,7 @@ export interface TenantPlugin {
     id: string;
     tenantId: string;
     pluginId: string;
+    version: string;
     config: Record<string, any>;
     isEnabled: boolean;
     installedAt: Date;
@@ -99,18 +132,71 @@ export interface PluginLog {
 }
 
 // Plugin Context (runtime)
+// What a handler receives inside the sandbox. Services are only present when
+// the manifest grants their permission, and every call is checked again by
+// the host before it runs.
 export interface PluginContext {
     tenantId: string;
-    userId: string;
-    plugin: Plugin;
+    userId?: string;
+    plugin: Pick<Plugin, 'id' | 'name' | 'slug' | 'version'>;
+    tenantPluginId: string;
     config: Record<string, any>;
-    eventBus: any;
+    event?: { id: string; type: string; idempotencyKey?: string };
+    eventBus: {
+        publish?: (eventType: string, data: any) => Promise<string>;    // events.publish
+    };
     services: {
-        email?: any;
-        notification?: any;
-        storage?: any;
-        http?: any;
+        email?: PluginEmailService;
+        notification?: PluginNotificationService;
+        storage?: PluginStorageService;
+        http?: PluginHttpService;
     };
+    log: PluginLogger;
+}
+
+// email.send
+export interface PluginEmailService {
+    send(message: { to: string; subject: string; html?: string; text?: string; replyTo?: string }): Promise<void>;
+}
+
+// notifications.send; only users of the plugin's tenant can be notified
+export interface PluginNotificationService {
+    send(notification: { userId: string; title: string; message?: string }): Promise<void>;
+}
+
+// storage.read / storage.write; keys are private to the installed plugin
+export interface PluginStorageService {
+    get(key: string): Promise<any>;
+    set(key: string, value: any): Promise<void>;
+    delete(key: string): Promise<void>;
+    list(prefix?: string): Promise<string[]>;
+}
+
+// http.request, or http.request:<host> to allow only that host ("*.example.com" for subdomains)
+export interface PluginHttpService {
+    request(request: PluginHttpRequest): Promise<PluginHttpResponse>;
+}
+
+export interface PluginHttpRequest {
+    url: string;
+    method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+    headers?: Record<string, string>;
+    body?: string | Record<string, any>;
+}
+
+export interface PluginHttpResponse {
+    status: number;
+    ok: boolean;
+    headers: Record<string, string>;
+    body: string;
+}
+
+// Writes to plugin_logs
+export interface PluginLogger {
+    debug(message: string, metadata?: Record<string, any>): void;
+    info(message: string, metadata?: Record<string, any>): void;
+    warn(message: string, metadata?: Record<string, any>): void;
+    error(message: string, metadata?: Record<string, any>): void;
 }
 
 // Plugin Handler Function
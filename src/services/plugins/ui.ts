@@ -0,0 +1,94 @@
+/**
+ * Plugin Architecture - UI Extension Points
+ * Declarative views plugins render into the dashboard shell
+ *
+ * Shared by the render API route (server) and the dashboard components, so
+ * it must stay free of server-only imports.
+ */
+
+import { z } from 'zod';
+import type { PluginManifest, PluginUI } from './types';
+
+// Links may leave the app over http(s) or stay within the dashboard
+const hrefSchema = z.string().max(2000).refine(
+    href => /^https?:\/\//.test(href) || href.startsWith('/dashboard'),
+    'Links must be http(s) URLs or /dashboard paths'
+);
+
+const text = z.string().max(2000);
+
+export const pluginViewBlockSchema = z.discriminatedUnion('type', [
+    z.object({ type: z.literal('text'), text, tone: z.enum(['default', 'muted', 'success', 'warning', 'error']).optional() }),
+    z.object({ type: z.literal('heading'), text: text.max(200) }),
+    z.object({
+        type: z.literal('metrics'),
+        items: z.array(z.object({ label: text.max(100), value: z.union([z.string().max(100), z.number()]), hint: text.max(200).optional() })).max(12)
+    }),
+    z.object({
+        type: z.literal('list'),
+        items: z.array(z.object({ title: text.max(200), subtitle: text.max(500).optional(), href: hrefSchema.optional() })).max(50)
+    }),
+    z.object({
+        type: z.literal('table'),
+        columns: z.array(text.max(100)).max(10),
+        rows: z.array(z.array(z.union([z.string().max(500), z.number(), z.null()])).max(10)).max(100)
+    }),
+    z.object({ type: z.literal('link'), label: text.max(100), href: hrefSchema })
+]);
+
+export const pluginViewSchema = z.object({
+    title: text.max(200).optional(),
+    blocks: z.array(pluginViewBlockSchema).max(30)
+});
+
+export type PluginViewBlock = z.infer<typeof pluginViewBlockSchema>;
+export type PluginView = z.infer<typeof pluginViewSchema>;
+
+// Installed, enabled plugin with what it contributes to the shell
+export interface PluginExtension {
+    tenantPluginId: string;
+    pluginId: string;
+    slug: string;
+    name: string;
+    version: string;
+    latestVersion: string;
+    ui: PluginUI;
+}
+
+/**
+ * The manifest's UI section; older manifests use snake_case keys
+ */
+export function getPluginUI(manifest: PluginManifest | any): PluginUI {
+    const ui = manifest?.ui || {};
+    return {
+        dashboardWidget: ui.dashboardWidget || ui.dashboard_widget,
+        settingsPage: ui.settingsPage || ui.settings_page,
+        menuItems: ui.menuItems || ui.menu_items
+    };
+}
+
+/**
+ * Dashboard path of a plugin menu route
+ */
+export function getPluginRoutePath(slug: string, route: string): string {
+    return `/dashboard/plugins/${slug}/${route.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Split a /dashboard/plugins/<slug>/<route> path
+ */
+export function parsePluginRoutePath(path: string): { slug: string; route: string } | null {
+    const match = /^\/dashboard\/plugins\/([^/]+)\/?(.*)$/.exec(path);
+    return match ? { slug: match[1], route: match[2] } : null;
+}
+
+/**
+ * UI components a plugin declares; only these may be rendered
+ */
+export function getDeclaredComponents(ui: PluginUI): string[] {
+    return Array.from(new Set([
+        ui.dashboardWidget?.component,
+        ui.settingsPage?.component,
+        ...(ui.menuItems || []).map(item => item.component || ui.settingsPage?.component)
+    ].filter((component): component is string => !!component)));
+}
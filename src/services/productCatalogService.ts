@@ -0,0 +1,242 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import type { InvoiceLineItem } from './businessInvoiceService';
+import { roundMoney } from './accounting/currency';
+
+export type ProductType = 'product' | 'service';
+export type TaxCategory = 'standard' | 'reduced' | 'zero' | 'exempt';
+
+export interface CatalogProduct {
+    id: string;
+    tenantId: string;
+    sku: string;
+    name: string;
+    description?: string;
+    type: ProductType;
+    unit: string;                       // e.g. each, hour, day, month
+    prices: Record<string, number>;     // Default unit price per currency code
+    taxCategory: TaxCategory;
+    revenueAccountId?: string;          // Service Revenue (4100) when not set
+    isActive: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type CatalogProductInput = Omit<CatalogProduct, 'id' | 'tenantId' | 'createdAt' | 'updatedAt'>;
+
+export const PRODUCT_UNITS = ['each', 'hour', 'day', 'week', 'month', 'year', 'project'];
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+    standard: 'Standard rate',
+    reduced: 'Reduced rate',
+    zero: 'Zero rated',
+    exempt: 'Exempt',
+};
+
+const mapProduct = (row: any): CatalogProduct => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    sku: row.sku,
+    name: row.name,
+    description: row.description || undefined,
+    type: row.item_type,
+    unit: row.unit,
+    prices: Object.fromEntries(Object.entries(row.prices || {}).map(([code, price]) => [code, parseFloat(price as string)])),
+    taxCategory: row.tax_category,
+    revenueAccountId: row.revenue_account_id || undefined,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+const toRow = (input: Partial<CatalogProductInput>): Record<string, any> => {
+    const row: Record<string, any> = {};
+    if (input.sku !== undefined) row.sku = input.sku.trim();
+    if (input.name !== undefined) row.name = input.name.trim();
+    if (input.description !== undefined) row.description = input.description || null;
+    if (input.type !== undefined) row.item_type = input.type;
+    if (input.unit !== undefined) row.unit = input.unit;
+    if (input.prices !== undefined) {
+        row.prices = Object.fromEntries(Object.entries(input.prices).map(([code, price]) => [code.toUpperCase(), price]));
+    }
+    if (input.taxCategory !== undefined) row.tax_category = input.taxCategory;
+    if (input.revenueAccountId !== undefined) row.revenue_account_id = input.revenueAccountId || null;
+    if (input.isActive !== undefined) row.is_active = input.isActive;
+    return row;
+};
+
+const validateProduct = (input: Partial<CatalogProductInput>): string | null => {
+    if (input.sku !== undefined && !input.sku.trim()) return 'SKU is required';
+    if (input.name !== undefined && !input.name.trim()) return 'Name is required';
+    if (input.prices && Object.values(input.prices).some(price => !(price >= 0))) {
+        return 'Prices must be zero or more';
+    }
+    return null;
+};
+
+/**
+ * The product's default unit price in a currency, if it has one
+ */
+export function getProductPrice(product: CatalogProduct, currency: string): number | undefined {
+    return product.prices[currency.toUpperCase()];
+}
+
+/**
+ * An invoice line for a catalog product at its price in the currency;
+ * the rate is left at 0 for a currency the product has no price in
+ */
+export function toLineItem(product: CatalogProduct, currency: string, quantity: number = 1): InvoiceLineItem {
+    const rate = getProductPrice(product, currency) ?? 0;
+    return {
+        description: product.name,
+        quantity,
+        rate,
+        amount: roundMoney(quantity * rate, currency),
+        productId: product.id,
+        unit: product.unit,
+    };
+}
+
+/**
+ * Split an amount across revenue accounts in proportion to the lines it
+ * was billed on. Lines without a mapped product fall to the default
+ * account (null). The default bucket, or else the last one, absorbs
+ * rounding so the parts add up to the amount exactly.
+ */
+export function allocateRevenue(
+    lineItems: Pick<InvoiceLineItem, 'amount' | 'productId'>[],
+    revenueAccounts: Map<string, string>,
+    amount: number,
+    currency: string
+): { accountId: string | null; amount: number }[] {
+    const byAccount = new Map<string | null, number>();
+    for (const line of lineItems) {
+        const accountId = (line.productId && revenueAccounts.get(line.productId)) || null;
+        byAccount.set(accountId, (byAccount.get(accountId) || 0) + (Number(line.amount) || 0));
+    }
+
+    const lineTotal = Array.from(byAccount.values()).reduce((sum, value) => sum + value, 0);
+    if (byAccount.size <= 1 || lineTotal === 0) {
+        return [{ accountId: byAccount.size === 1 ? Array.from(byAccount.keys())[0] : null, amount }];
+    }
+
+    const parts = Array.from(byAccount.entries()).map(([accountId, value]) => ({
+        accountId,
+        amount: roundMoney(amount * value / lineTotal, currency),
+    }));
+    const remainder = roundMoney(amount - parts.reduce((sum, part) => sum + part.amount, 0), currency);
+    const absorber = parts.find(part => part.accountId === null) || parts[parts.length - 1];
+    absorber.amount = roundMoney(absorber.amount + remainder, currency);
+
+    return parts.filter(part => part.amount !== 0);
+}
+
+export const productCatalogService = {
+    /**
+     * Get the tenant's catalog
+     */
+    async getProducts(
+        tenantId: string,
+        options?: { activeOnly?: boolean }
+    ): Promise<{ products: CatalogProduct[]; error: string | null }> {
+        try {
+            let query = supabase
+                .from('catalog_products')
+                .select('*')
+                .eq('tenant_id', tenantId);
+
+            if (options?.activeOnly) query = query.eq('is_active', true);
+
+            const { data, error } = await query.order('name', { ascending: true });
+
+            if (error) throw error;
+
+            return { products: (data || []).map(mapProduct), error: null };
+        } catch (err: any) {
+            console.error('Error fetching catalog products:', err);
+            return { products: [], error: err.message };
+        }
+    },
+
+    /**
+     * Add a product or service to the catalog
+     */
+    async createProduct(
+        tenantId: string,
+        input: CatalogProductInput
+    ): Promise<{ product: CatalogProduct | null; error: string | null }> {
+        const validationError = validateProduct(input);
+        if (validationError) return { product: null, error: validationError };
+
+        try {
+            const { data, error } = await supabase
+                .from('catalog_products')
+                .insert({ tenant_id: tenantId, ...toRow(input) })
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') return { product: null, error: `SKU ${input.sku} is already in the catalog` };
+                throw error;
+            }
+
+            return { product: mapProduct(data), error: null };
+        } catch (err: any) {
+            console.error('Error creating catalog product:', err);
+            return { product: null, error: err.message };
+        }
+    },
+
+    /**
+     * Update a catalog product
+     * Products already on quotes or invoices are deactivated rather than
+     * deleted, so their lines keep their revenue account
+     */
+    async updateProduct(
+        productId: string,
+        updates: Partial<CatalogProductInput>
+    ): Promise<{ product: CatalogProduct | null; error: string | null }> {
+        const validationError = validateProduct(updates);
+        if (validationError) return { product: null, error: validationError };
+
+        try {
+            const { data, error } = await supabase
+                .from('catalog_products')
+                .update(toRow(updates))
+                .eq('id', productId)
+                .select()
+                .single();
+
+            if (error) {
+                if (error.code === '23505') return { product: null, error: `SKU ${updates.sku} is already in the catalog` };
+                throw error;
+            }
+
+            return { product: mapProduct(data), error: null };
+        } catch (err: any) {
+            console.error('Error updating catalog product:', err);
+            return { product: null, error: err.message };
+        }
+    },
+
+    /**
+     * Revenue account of each product that has one mapped
+     */
+    async getRevenueAccounts(productIds: string[], client: SupabaseClient = supabase): Promise<Map<string, string>> {
+        const ids = [...new Set(productIds.filter(Boolean))];
+        if (ids.length === 0) return new Map();
+
+        const { data, error } = await client
+            .from('catalog_products')
+            .select('id, revenue_account_id')
+            .in('id', ids)
+            .not('revenue_account_id', 'is', null);
+
+        if (error) {
+            console.error('Error fetching product revenue accounts:', error);
+            return new Map();
+        }
+
+        return new Map((data || []).map((row: any) => [row.id, row.revenue_account_id]));
+    },
+};
@@ -173,10 +173,14 @@ export const projectService = {
 
     /**
      * Create a new project (with tenant assignment)
+     * Assigned to the current tenant unless one is given
      */
-    async createProject(project: Omit<Project, 'id'>): Promise<{ project: Project | null; error: string | null }> {
+    async createProject(
+        project: Omit<Project, 'id'>,
+        forTenantId?: string
+    ): Promise<{ project: Project | null; error: string | null }> {
         try {
-            const tenantId = this.getTenantId();
+            const tenantId = forTenantId ?? this.getTenantId();
 
             const { data, error } = await supabase
                 .from('projects')
@@ -237,7 +241,7 @@ export const projectService = {
                     projectName: newProject.name,
                     category: newProject.category,
                     status: newProject.status
-                }).catch(err => console.error('Failed to log activity:', err));
+                }, tenantId).catch(err => console.error('Failed to log activity:', err));
             }
 
             return { project: newProject, error: null };
@@ -248,10 +252,15 @@ export const projectService = {
 
     /**
      * Update a project (with tenant verification)
+     * Verified against the current tenant unless one is given
      */
-    async updateProject(projectId: string, updates: Partial<Project>): Promise<{ error: string | null }> {
+    async updateProject(
+        projectId: string,
+        updates: Partial<Project>,
+        forTenantId?: string
+    ): Promise<{ error: string | null }> {
         try {
-            const tenantId = this.getTenantId();
+            const tenantId = forTenantId ?? this.getTenantId();
 
             const updateData: Record<string, unknown> = {};
 
@@ -301,7 +310,7 @@ export const projectService = {
                     projectId: projectId,
                     projectName: data.name,
                     updatedFields: changedFields
-                }).catch(err => console.error('Failed to log activity:', err));
+                }, tenantId).catch(err => console.error('Failed to log activity:', err));
             }
 
             return { error: null };
@@ -338,7 +347,10 @@ export const projectService = {
     /**
      * Recalculate project progress based on completed tasks
      */
-    async recalculateProjectProgress(projectId: string): Promise<{ progress: number; error: string | null }> {
+    async recalculateProjectProgress(
+        projectId: string,
+        forTenantId?: string
+    ): Promise<{ progress: number; error: string | null }> {
         try {
             const { data: tasks, error } = await supabase
                 .from('tasks')
@@ -355,7 +367,7 @@ export const projectService = {
             const progress = Math.round((completedTasks / tasks.length) * 100);
 
             // Update the project with the new progress
-            await this.updateProject(projectId, { progress });
+            await this.updateProject(projectId, { progress }, forTenantId);
 
             return { progress, error: null };
         } catch (err) {
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
 import { tenantService } from './tenancy/TenantService';
+import { roundMoney } from './accounting/currency';
 
 export type QuoteStatus = 'draft' | 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired' | 'converted';
 
@@ -45,6 +46,11 @@ export interface Quote {
     termsAndConditions?: string;
     signatureUrl?: string;
     pdfUrl?: string;
+    publicToken: string;        // Secret for the public /quote/[token] page
+    depositPercent?: number;    // Invoice this share of the total on acceptance
+    clientId?: string;          // Business client invoiced on acceptance
+    invoiceId?: string;         // Set once the accepted quote is converted
+    projectId?: string;
     createdBy?: string;
     metadata?: any;
     createdAt: string;
@@ -62,6 +68,9 @@ export interface QuoteItem {
     discountPercent: number;
     taxPercent: number;
     lineTotal: number;
+    isOptional: boolean;        // Client may leave the item out when accepting
+    isSelected: boolean;        // Counted in the quote totals
+    productId?: string;         // Catalog product the line was picked from
     metadata?: any;
     createdAt: string;
 }
@@ -76,6 +85,30 @@ export interface QuoteView {
     viewedAt: string;
 }
 
+/**
+ * Totals of a quote over its selected items, as the quote totals trigger
+ * computes them: line discounts before tax, the quote discount off the end
+ */
+export function calculateQuoteTotals(
+    items: Pick<QuoteItem, 'quantity' | 'unitPrice' | 'discountPercent' | 'taxPercent' | 'isSelected'>[],
+    discountAmount: number,
+    currency: string
+): { subtotal: number; tax: number; total: number } {
+    let subtotal = 0;
+    let tax = 0;
+    for (const item of items.filter(i => i.isSelected)) {
+        const net = item.quantity * item.unitPrice * (1 - (item.discountPercent || 0) / 100);
+        subtotal += net;
+        tax += net * ((item.taxPercent || 0) / 100);
+    }
+
+    return {
+        subtotal: roundMoney(subtotal, currency),
+        tax: roundMoney(tax, currency),
+        total: roundMoney(subtotal + tax - (discountAmount || 0), currency)
+    };
+}
+
 export const quoteService = {
     /**
      * Get tenant ID (required for all operations)
@@ -236,6 +269,11 @@ export const quoteService = {
                 termsAndConditions: q.terms_and_conditions,
                 signatureUrl: q.signature_url,
                 pdfUrl: q.pdf_url,
+                publicToken: q.public_token,
+                depositPercent: q.deposit_percent != null ? parseFloat(q.deposit_percent) : undefined,
+                clientId: q.client_id || undefined,
+                invoiceId: q.invoice_id || undefined,
+                projectId: q.project_id || undefined,
                 createdBy: q.created_by,
                 metadata: q.metadata || {},
                 createdAt: q.created_at,
@@ -291,6 +329,11 @@ export const quoteService = {
                 termsAndConditions: data.terms_and_conditions,
                 signatureUrl: data.signature_url,
                 pdfUrl: data.pdf_url,
+                publicToken: data.public_token,
+                depositPercent: data.deposit_percent != null ? parseFloat(data.deposit_percent) : undefined,
+                clientId: data.client_id || undefined,
+                invoiceId: data.invoice_id || undefined,
+                projectId: data.project_id || undefined,
                 createdBy: data.created_by,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
@@ -317,6 +360,8 @@ export const quoteService = {
             validForDays?: number;
             notes?: string;
             termsAndConditions?: string;
+            clientId?: string;
+            depositPercent?: number;
         }
     ): Promise<{ quote: Quote | null; error: string | null }> {
         try {
@@ -336,6 +381,8 @@ export const quoteService = {
                     valid_until: validUntil.toISOString().split('T')[0],
                     notes: quoteData.notes,
                     terms_and_conditions: quoteData.termsAndConditions,
+                    client_id: quoteData.clientId || null,
+                    deposit_percent: quoteData.depositPercent || null,
                     created_by: userId,
                 })
                 .select()
@@ -370,6 +417,11 @@ export const quoteService = {
                 termsAndConditions: data.terms_and_conditions,
                 signatureUrl: data.signature_url,
                 pdfUrl: data.pdf_url,
+                publicToken: data.public_token,
+                depositPercent: data.deposit_percent != null ? parseFloat(data.deposit_percent) : undefined,
+                clientId: data.client_id || undefined,
+                invoiceId: data.invoice_id || undefined,
+                projectId: data.project_id || undefined,
                 createdBy: data.created_by,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
@@ -396,6 +448,8 @@ export const quoteService = {
             if (updates.notes !== undefined) updateData.notes = updates.notes;
             if (updates.rejectionReason !== undefined) updateData.rejection_reason = updates.rejectionReason;
             if (updates.acceptedBy !== undefined) updateData.accepted_by = updates.acceptedBy;
+            if (updates.clientId !== undefined) updateData.client_id = updates.clientId || null;
+            if (updates.depositPercent !== undefined) updateData.deposit_percent = updates.depositPercent || null;
 
             // Auto-set timestamps based on status changes
             if (updates.status === 'sent' && !updates.sentAt) {
@@ -439,6 +493,11 @@ export const quoteService = {
                 termsAndConditions: data.terms_and_conditions,
                 signatureUrl: data.signature_url,
                 pdfUrl: data.pdf_url,
+                publicToken: data.public_token,
+                depositPercent: data.deposit_percent != null ? parseFloat(data.deposit_percent) : undefined,
+                clientId: data.client_id || undefined,
+                invoiceId: data.invoice_id || undefined,
+                projectId: data.project_id || undefined,
                 createdBy: data.created_by,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
@@ -490,6 +549,9 @@ export const quoteService = {
                 discountPercent: i.discount_percent,
                 taxPercent: i.tax_percent,
                 lineTotal: i.line_total,
+                isOptional: i.is_optional || false,
+                isSelected: i.is_selected ?? true,
+                productId: i.product_id || undefined,
                 metadata: i.metadata || {},
                 createdAt: i.created_at,
             }));
@@ -513,6 +575,8 @@ export const quoteService = {
             discountPercent?: number;
             taxPercent?: number;
             itemOrder?: number;
+            isOptional?: boolean;
+            productId?: string;
         }
     ): Promise<{ item: QuoteItem | null; error: string | null }> {
         try {
@@ -529,6 +593,8 @@ export const quoteService = {
                     unit_price: itemData.unitPrice,
                     discount_percent: itemData.discountPercent || 0,
                     tax_percent: itemData.taxPercent || 0,
+                    is_optional: itemData.isOptional || false,
+                    product_id: itemData.productId || null,
                     item_order: itemData.itemOrder || (existingItems?.length || 0) + 1,
                 })
                 .select()
@@ -547,6 +613,9 @@ export const quoteService = {
                 discountPercent: data.discount_percent,
                 taxPercent: data.tax_percent,
                 lineTotal: data.line_total,
+                isOptional: data.is_optional || false,
+                isSelected: data.is_selected ?? true,
+                productId: data.product_id || undefined,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
             };
@@ -573,6 +642,9 @@ export const quoteService = {
             if (updates.unitPrice !== undefined) updateData.unit_price = updates.unitPrice;
             if (updates.discountPercent !== undefined) updateData.discount_percent = updates.discountPercent;
             if (updates.taxPercent !== undefined) updateData.tax_percent = updates.taxPercent;
+            if (updates.isOptional !== undefined) updateData.is_optional = updates.isOptional;
+            if (updates.isSelected !== undefined) updateData.is_selected = updates.isSelected;
+            if (updates.productId !== undefined) updateData.product_id = updates.productId || null;
 
             const { data, error } = await supabase.from('quote_items').update(updateData).eq('id', itemId).select().single();
 
@@ -589,6 +661,9 @@ export const quoteService = {
                 discountPercent: data.discount_percent,
                 taxPercent: data.tax_percent,
                 lineTotal: data.line_total,
+                isOptional: data.is_optional || false,
+                isSelected: data.is_selected ?? true,
+                productId: data.product_id || undefined,
                 metadata: data.metadata || {},
                 createdAt: data.created_at,
             };
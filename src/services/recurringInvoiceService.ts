@@ -0,0 +1,288 @@
+import { supabase } from '../lib/supabase';
+import { businessInvoiceService, InvoiceLineItem } from './businessInvoiceService';
+import { calculateTax, TaxCalculation, TaxRate } from './accounting/taxService';
+
+export type RecurringFrequency = 'weekly' | 'monthly' | 'annual';
+
+export interface RecurringInvoiceSchedule {
+    id: string;
+    tenantId: string;
+    clientId: string;
+    projectId?: string;
+    name: string;
+    frequency: RecurringFrequency;
+    intervalCount: number;          // e.g. 3 with 'monthly' bills quarterly
+    startDate: string;
+    endDate?: string;
+    nextRunDate: string;            // Issue date of the next invoice
+    lastRunDate?: string;
+    lineItems: InvoiceLineItem[];   // Each with its tax code
+    taxRate: number;                // Flat percent, used while the tenant has no tax codes
+    discountAmount: number;
+    currency?: string;              // Tenant base currency when not set
+    paymentTermsDays: number;
+    notes?: string;
+    autoSend: boolean;              // Send (and post to the GL) as soon as generated
+    isActive: boolean;
+    invoicesGenerated: number;
+    lastError?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const mapSchedule = (row: any): RecurringInvoiceSchedule => ({
+    id: row.id,
+    tenantId: row.tenant_id,
+    clientId: row.client_id,
+    projectId: row.project_id || undefined,
+    name: row.name,
+    frequency: row.frequency,
+    intervalCount: row.interval_count || 1,
+    startDate: row.start_date,
+    endDate: row.end_date || undefined,
+    nextRunDate: row.next_run_date,
+    lastRunDate: row.last_run_date || undefined,
+    lineItems: row.line_items || [],
+    taxRate: parseFloat(row.tax_rate || 0),
+    discountAmount: parseFloat(row.discount_amount || 0),
+    currency: row.currency || undefined,
+    paymentTermsDays: row.payment_terms_days ?? 14,
+    notes: row.notes || undefined,
+    autoSend: row.auto_send || false,
+    isActive: row.is_active,
+    invoicesGenerated: row.invoices_generated || 0,
+    lastError: row.last_error || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+});
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return toDateString(d);
+};
+
+/**
+ * Issue date of the period after `date`
+ * Months and years keep the start date's day where the month has it, so a
+ * schedule starting Jan 31 runs Feb 28 and then Mar 31
+ */
+export function getNextRunDate(
+    date: string,
+    frequency: RecurringFrequency,
+    intervalCount: number,
+    anchorDate: string
+): string {
+    if (frequency === 'weekly') return addDays(date, 7 * intervalCount);
+
+    const d = new Date(`${date}T00:00:00Z`);
+    const months = frequency === 'annual' ? 12 * intervalCount : intervalCount;
+    const target = d.getUTCFullYear() * 12 + d.getUTCMonth() + months;
+    const year = Math.floor(target / 12);
+    const month = target % 12;
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = Math.min(new Date(`${anchorDate}T00:00:00Z`).getUTCDate(), daysInMonth);
+
+    return toDateString(new Date(Date.UTC(year, month, day)));
+}
+
+/**
+ * Amounts of the invoice a schedule generates
+ * Lines are taxed with their tax codes, and not at all for an exempt client;
+ * a tenant without tax codes is still charged the schedule's flat rate
+ */
+export function calculateScheduleTotals(
+    schedule: Pick<RecurringInvoiceSchedule, 'lineItems' | 'taxRate' | 'discountAmount'>,
+    rates: TaxRate[],
+    options: { exempt?: boolean; currency: string }
+): TaxCalculation {
+    if (rates.length > 0) {
+        return calculateTax(schedule.lineItems, rates, {
+            discountAmount: schedule.discountAmount,
+            exempt: options.exempt,
+            currency: options.currency,
+        });
+    }
+
+    const taxRate = options.exempt ? 0 : schedule.taxRate;
+    const totals = businessInvoiceService.calculateTotals(schedule.lineItems, taxRate, schedule.discountAmount);
+
+    return {
+        ...totals,
+        lineItems: schedule.lineItems,
+        discountAmount: schedule.discountAmount,
+        taxRate,
+        taxLines: [],
+        exemptAmount: 0,
+    };
+}
+
+export const recurringInvoiceService = {
+    /**
+     * Get all recurring schedules for a tenant
+     */
+    async getSchedules(tenantId: string): Promise<{ schedules: RecurringInvoiceSchedule[]; error: string | null }> {
+        try {
+            const { data, error } = await supabase
+                .from('recurring_invoice_schedules')
+                .select('*')
+                .eq('tenant_id', tenantId)
+                .order('next_run_date', { ascending: true });
+
+            if (error) throw error;
+
+            return { schedules: (data || []).map(mapSchedule), error: null };
+        } catch (err: any) {
+            console.error('Error fetching recurring schedules:', err);
+            return { schedules: [], error: err.message };
+        }
+    },
+
+    /**
+     * Create a recurring schedule; the first invoice is issued on the start date
+     */
+    async createSchedule(
+        tenantId: string,
+        schedule: Partial<RecurringInvoiceSchedule>
+    ): Promise<{ schedule: RecurringInvoiceSchedule | null; error: string | null }> {
+        try {
+            if (!schedule.clientId) {
+                return { schedule: null, error: 'A client is required' };
+            }
+            if (!schedule.lineItems || schedule.lineItems.length === 0) {
+                return { schedule: null, error: 'At least one line item is required' };
+            }
+
+            const startDate = schedule.startDate || toDateString(new Date());
+            if (schedule.endDate && schedule.endDate < startDate) {
+                return { schedule: null, error: 'End date must be on or after the start date' };
+            }
+
+            const { data: userData } = await supabase.auth.getUser();
+
+            const { data, error } = await supabase
+                .from('recurring_invoice_schedules')
+                .insert({
+                    tenant_id: tenantId,
+                    client_id: schedule.clientId,
+                    project_id: schedule.projectId || null,
+                    name: schedule.name || 'Recurring invoice',
+                    frequency: schedule.frequency || 'monthly',
+                    interval_count: schedule.intervalCount || 1,
+                    start_date: startDate,
+                    end_date: schedule.endDate || null,
+                    next_run_date: startDate,
+                    line_items: schedule.lineItems,
+                    tax_rate: schedule.taxRate || 0,
+                    discount_amount: schedule.discountAmount || 0,
+                    currency: schedule.currency || null,
+                    payment_terms_days: schedule.paymentTermsDays ?? 14,
+                    notes: schedule.notes,
+                    auto_send: schedule.autoSend || false,
+                    created_by: userData.user?.id,
+                })
+                .select()
+                .single();
+
+            if (error) throw error;
+
+            return { schedule: mapSchedule(data), error: null };
+        } catch (err: any) {
+            console.error('Error creating recurring schedule:', err);
+            return { schedule: null, error: err.message };
+        }
+    },
+
+    /**
+     * Update a recurring schedule
+     * Resuming a paused schedule skips the periods it was paused for
+     */
+    async updateSchedule(scheduleId: string, updates: Partial<RecurringInvoiceSchedule>): Promise<{ error: string | null }> {
+        try {
+            const { data: current, error: fetchError } = await supabase
+                .from('recurring_invoice_schedules')
+                .select('*')
+                .eq('id', scheduleId)
+                .single();
+
+            if (fetchError) throw fetchError;
+            const schedule = mapSchedule(current);
+
+            const updateData: any = {};
+            if (updates.name !== undefined) updateData.name = updates.name;
+            if (updates.clientId !== undefined) updateData.client_id = updates.clientId;
+            if (updates.projectId !== undefined) updateData.project_id = updates.projectId || null;
+            if (updates.frequency !== undefined) updateData.frequency = updates.frequency;
+            if (updates.intervalCount !== undefined) updateData.interval_count = updates.intervalCount;
+            if (updates.endDate !== undefined) updateData.end_date = updates.endDate || null;
+            if (updates.lineItems !== undefined) updateData.line_items = updates.lineItems;
+            if (updates.taxRate !== undefined) updateData.tax_rate = updates.taxRate;
+            if (updates.discountAmount !== undefined) updateData.discount_amount = updates.discountAmount;
+            if (updates.currency !== undefined) updateData.currency = updates.currency || null;
+            if (updates.paymentTermsDays !== undefined) updateData.payment_terms_days = updates.paymentTermsDays;
+            if (updates.notes !== undefined) updateData.notes = updates.notes;
+            if (updates.autoSend !== undefined) updateData.auto_send = updates.autoSend;
+            if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+
+            // The start date only moves the schedule before it has billed
+            if (updates.startDate !== undefined && schedule.invoicesGenerated === 0) {
+                updateData.start_date = updates.startDate;
+                updateData.next_run_date = updates.startDate;
+            }
+
+            if (updates.isActive === true && !schedule.isActive) {
+                const today = toDateString(new Date());
+                let nextRunDate = updateData.next_run_date || schedule.nextRunDate;
+                while (nextRunDate < today) {
+                    nextRunDate = getNextRunDate(
+                        nextRunDate,
+                        updateData.frequency || schedule.frequency,
+                        updateData.interval_count || schedule.intervalCount,
+                        updateData.start_date || schedule.startDate
+                    );
+                }
+
+                const endDate = updates.endDate !== undefined ? updates.endDate : schedule.endDate;
+                if (endDate && nextRunDate > endDate) {
+                    return { error: 'The schedule has ended; extend the end date to resume it' };
+                }
+
+                updateData.next_run_date = nextRunDate;
+                updateData.last_error = null;
+            }
+
+            const { error } = await supabase
+                .from('recurring_invoice_schedules')
+                .update(updateData)
+                .eq('id', scheduleId);
+
+            if (error) throw error;
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error updating recurring schedule:', err);
+            return { error: err.message };
+        }
+    },
+
+    /**
+     * Delete a recurring schedule; invoices already generated are kept
+     */
+    async deleteSchedule(scheduleId: string): Promise<{ error: string | null }> {
+        try {
+            const { error } = await supabase
+                .from('recurring_invoice_schedules')
+                .delete()
+                .eq('id', scheduleId);
+
+            if (error) throw error;
+
+            return { error: null };
+        } catch (err: any) {
+            console.error('Error deleting recurring schedule:', err);
+            return { error: err.message };
+        }
+    },
+};
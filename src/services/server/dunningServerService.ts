@@ -0,0 +1,278 @@
+import { createAdminClient } from '@/lib/supabaseServer';
+import { formatCurrency, roundMoney } from '@/services/accounting/currency';
+import {
+    DunningStep,
+    REMINDER_SUBJECTS,
+    calculateLateFee,
+    daysBetween,
+    getDueStep,
+    mapPolicy
+} from '@/services/dunningService';
+import { emailProviderService } from '@/services/EmailProviderService';
+import { emailTemplates } from '@/services/emailTemplates';
+import { eventBus, EventTypes } from '@/services/eventBus';
+import { invoiceServerService } from './invoiceServerService';
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+/**
+ * Dunning for the daily cron
+ * Runs with the service role: the cron has no user session, so the tenant
+ * policies on invoices and dunning policies would hide every row, and late
+ * fees are posted to each invoice's tenant ledger by tenant ID
+ */
+export const dunningServerService = {
+    /**
+     * Mark unpaid invoices past their due date overdue and publish
+     * INVOICE_OVERDUE once for each
+     */
+    async markOverdueInvoices(today: string): Promise<number> {
+        const supabaseAdmin = createAdminClient();
+
+        const { data, error } = await supabaseAdmin
+            .from('business_invoices')
+            .update({ status: 'overdue' })
+            .in('status', ['sent', 'partially_paid'])
+            .lt('due_date', today)
+            .select('id, tenant_id, invoice_number, client_id, due_date, amount_due, currency');
+
+        if (error) {
+            console.error('Error marking invoices overdue:', error);
+            return 0;
+        }
+
+        for (const invoice of data || []) {
+            try {
+                await eventBus.publish({
+                    eventType: EventTypes.INVOICE_OVERDUE,
+                    eventSource: 'dunning_service',
+                    eventData: {
+                        invoiceId: invoice.id,
+                        invoiceNumber: invoice.invoice_number,
+                        clientId: invoice.client_id,
+                        dueDate: invoice.due_date,
+                        amount: parseFloat(invoice.amount_due),
+                        currency: invoice.currency,
+                    },
+                    tenantId: invoice.tenant_id,
+                    idempotencyKey: `invoice-overdue-${invoice.id}`,
+                });
+            } catch (err) {
+                console.error(`Failed to publish overdue event for invoice ${invoice.id}:`, err);
+            }
+        }
+
+        return (data || []).length;
+    },
+
+    /**
+     * Add a late fee line to an invoice and post it to the GL
+     * DR Accounts Receivable (1100)
+     *   CR Interest Income (7000)
+     */
+    async applyLateFee(invoice: any, amount: number, description: string, today: string): Promise<{ applied: boolean; error: string | null }> {
+        const supabaseAdmin = createAdminClient();
+
+        try {
+            const { data: updated, error } = await supabaseAdmin.rpc('apply_invoice_late_fee', {
+                p_invoice_id: invoice.id,
+                p_amount: amount,
+                p_description: description,
+                p_fee_date: today,
+                p_expected_count: invoice.late_fees_applied || 0,
+            });
+
+            if (error) throw error;
+            if (!updated?.id) return { applied: false, error: null }; // Charged by another run
+
+            const currency = invoice.currency || 'USD';
+            const exchangeRate = invoice.exchange_rate != null ? parseFloat(invoice.exchange_rate) : 1;
+            const baseAmount = roundMoney(amount * exchangeRate, invoice.base_currency || currency);
+
+            const entryId = await invoiceServerService.postEntryToGL(invoice.tenant_id, {
+                entryDate: today,
+                description: `${description} - Invoice ${invoice.invoice_number}`,
+                reference: invoice.invoice_number,
+                sourceType: 'late_fee',
+                sourceId: invoice.id,
+                currency,
+                exchangeRate,
+                entityId: invoice.id,
+                lines: [
+                    { accountCode: '1100', debit: baseAmount, credit: 0, description: `AR late fee - Invoice ${invoice.invoice_number}` },
+                    { accountCode: '7000', debit: 0, credit: baseAmount, description: `${description} - Invoice ${invoice.invoice_number}` },
+                ],
+            });
+
+            if (!entryId) {
+                console.error(`Failed to post late fee for invoice ${invoice.id} to GL`);
+            }
+
+            return { applied: true, error: null };
+        } catch (err: any) {
+            console.error('Error applying late fee:', err);
+            return { applied: false, error: err.message };
+        }
+    },
+
+    /**
+     * Send the reminder for one step, claiming it first so it goes out once
+     */
+    async sendReminder(
+        invoice: any,
+        stepIndex: number,
+        step: DunningStep,
+        context: { clientName: string; clientEmail: string; businessName: string; daysOverdue: number; lateFee?: string }
+    ): Promise<{ sent: boolean; error: string | null }> {
+        const supabaseAdmin = createAdminClient();
+        const currency = invoice.currency || 'USD';
+        const amountDue = parseFloat(invoice.amount_due);
+
+        let { data: claimed, error: claimError } = await supabaseAdmin
+            .from('invoice_reminders')
+            .insert({
+                tenant_id: invoice.tenant_id,
+                invoice_id: invoice.id,
+                step_index: stepIndex,
+                template: step.template,
+                offset_days: step.offsetDays,
+                recipient: context.clientEmail,
+                amount_due: amountDue,
+            })
+            .select()
+            .single();
+
+        // A step that failed to send is retried; one sent or being sent is not
+        if (claimError?.code === '23505') {
+            ({ data: claimed, error: claimError } = await supabaseAdmin
+                .from('invoice_reminders')
+                .update({ status: 'pending', recipient: context.clientEmail, amount_due: amountDue, error: null })
+                .eq('invoice_id', invoice.id)
+                .eq('step_index', stepIndex)
+                .eq('status', 'failed')
+                .select()
+                .maybeSingle());
+        }
+        if (claimError) return { sent: false, error: claimError.message };
+        if (!claimed) return { sent: false, error: null };
+
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://alphaclone.tech';
+        const { success, error } = await emailProviderService.sendEmail({
+            to: context.clientEmail,
+            subject: REMINDER_SUBJECTS[step.template](invoice.invoice_number, context.businessName),
+            html: emailTemplates.invoiceReminder({
+                tone: step.template,
+                clientName: context.clientName,
+                businessName: context.businessName,
+                invoiceNumber: invoice.invoice_number,
+                amountDue: formatCurrency(amountDue, currency),
+                dueDate: invoice.due_date,
+                daysOverdue: context.daysOverdue,
+                invoiceUrl: `${baseUrl}/invoice/${invoice.id}`,
+                lateFee: context.lateFee,
+            }),
+            fromName: context.businessName,
+        });
+
+        await supabaseAdmin
+            .from('invoice_reminders')
+            .update({
+                status: success ? 'sent' : 'failed',
+                error: error,
+                sent_at: success ? new Date().toISOString() : null,
+            })
+            .eq('id', claimed.id);
+
+        return { sent: success, error };
+    },
+
+    /**
+     * Run dunning for every tenant with a policy switched on
+     * Called by the daily cron job: marks invoices overdue, charges late fees
+     * and sends the reminder whose day has come
+     */
+    async processDunning(today: string = toDateString(new Date())): Promise<{ markedOverdue: number; reminders: number; lateFees: number; errors: number }> {
+        const supabaseAdmin = createAdminClient();
+        const result = { markedOverdue: 0, reminders: 0, lateFees: 0, errors: 0 };
+
+        try {
+            result.markedOverdue = await this.markOverdueInvoices(today);
+
+            const { data: policies, error } = await supabaseAdmin
+                .from('dunning_policies')
+                .select('*')
+                .eq('is_enabled', true);
+
+            if (error) {
+                console.error('Error fetching dunning policies:', error);
+                return { ...result, errors: result.errors + 1 };
+            }
+
+            for (const policy of (policies || []).map(mapPolicy)) {
+                const { data: invoices, error: invoicesError } = await supabaseAdmin
+                    .from('business_invoices')
+                    .select('*, client:client_id (name, email), tenant:tenant_id (name), invoice_reminders(step_index, status)')
+                    .eq('tenant_id', policy.tenantId)
+                    .in('status', ['sent', 'overdue', 'partially_paid'])
+                    .eq('dunning_paused', false)
+                    .gt('amount_due', policy.minAmountDue);
+
+                if (invoicesError) {
+                    console.error(`Error fetching invoices to chase for tenant ${policy.tenantId}:`, invoicesError);
+                    result.errors++;
+                    continue;
+                }
+
+                for (const invoice of invoices || []) {
+                    if (policy.pauseOnPartialPayment && parseFloat(invoice.amount_paid || 0) > 0) continue;
+
+                    const currency = invoice.currency || 'USD';
+                    const daysOverdue = daysBetween(invoice.due_date, today);
+                    let lateFee: string | undefined;
+
+                    const fee = calculateLateFee(policy, {
+                        dueDate: invoice.due_date,
+                        amountDue: parseFloat(invoice.amount_due),
+                        currency,
+                        lateFeesApplied: invoice.late_fees_applied || 0,
+                        lastLateFeeDate: invoice.last_late_fee_date || undefined,
+                    }, today);
+
+                    if (fee > 0) {
+                        const description = policy.lateFeeType === 'interest'
+                            ? `Interest at ${policy.lateFeeValue}% p.a. to ${today}`
+                            : `Late fee (${policy.lateFeeType === 'percentage' ? `${policy.lateFeeValue}%` : 'flat'})`;
+                        const { applied, error: feeError } = await this.applyLateFee(invoice, fee, description, today);
+                        if (feeError) result.errors++;
+                        if (applied) {
+                            result.lateFees++;
+                            lateFee = formatCurrency(fee, currency);
+                            invoice.amount_due = roundMoney(parseFloat(invoice.amount_due) + fee, currency);
+                        }
+                    }
+
+                    const sentSteps = (invoice.invoice_reminders || [])
+                        .filter((r: any) => r.status !== 'failed')
+                        .map((r: any) => r.step_index);
+                    const stepIndex = getDueStep(policy.steps, daysOverdue, sentSteps);
+                    if (stepIndex === null || !invoice.client?.email) continue;
+
+                    const { sent, error: sendError } = await this.sendReminder(invoice, stepIndex, policy.steps[stepIndex], {
+                        clientName: invoice.client.name || 'there',
+                        clientEmail: invoice.client.email,
+                        businessName: invoice.sender_name || invoice.tenant?.name || 'AlphaClone Business',
+                        daysOverdue,
+                        lateFee,
+                    });
+                    if (sent) result.reminders++;
+                    if (sendError) result.errors++;
+                }
+            }
+
+            return result;
+        } catch (err) {
+            console.error('Critical error in dunning:', err);
+            return { ...result, errors: result.errors + 1 };
+        }
+    },
+};
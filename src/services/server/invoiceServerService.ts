@@ -1,14 +1,23 @@
 import { createAdminClient } from '@/lib/supabaseServer';
+import { exchangeRateService } from '@/services/accounting/exchangeRateService';
+import { formatCurrency, getCurrencyDecimals, roundMoney } from '@/services/accounting/currency';
+import { allocateRevenue, productCatalogService } from '@/services/productCatalogService';
+import { getTaxLines, prorateTaxLines, taxPostings } from '@/services/accounting/taxService';
 
 export const invoiceServerService = {
     /**
-     * Mark invoice as paid securely from server
+     * Record a Stripe payment against an invoice securely from server
+     * `amount` is in the currency's smallest unit, as Stripe reports it; the
+     * payment intent makes redelivered webhooks a no-op
      */
-    async markAsPaid(invoiceId: string): Promise<{ success: boolean; error: string | null }> {
+    async recordStripePayment(
+        invoiceId: string,
+        payment: { amount: number; currency: string; paymentIntentId: string }
+    ): Promise<{ success: boolean; error: string | null }> {
         const supabaseAdmin = createAdminClient();
 
         try {
-            // 1. Get invoice details including total and tenant
+            // 1. Get invoice details including balance and tenant
             const { data: invoice, error: fetchError } = await supabaseAdmin
                 .from('business_invoices')
                 .select('*')
@@ -17,40 +26,493 @@ export const invoiceServerService = {
 
             if (fetchError || !invoice) throw new Error('Invoice not found');
 
-            if (invoice.status === 'paid') return { success: true, error: null };
+            const { data: existing } = await supabaseAdmin
+                .from('invoice_payments')
+                .select('id')
+                .eq('tenant_id', invoice.tenant_id)
+                .eq('method', 'stripe')
+                .eq('reference', payment.paymentIntentId)
+                .maybeSingle();
 
-            // 2. Update status
-            const { error: updateError } = await supabaseAdmin
-                .from('business_invoices')
-                .update({
-                    status: 'paid',
-                    updated_at: new Date().toISOString()
+            if (existing) return { success: true, error: null };
+
+            const currency = payment.currency.toUpperCase();
+            if (currency !== (invoice.currency || 'USD')) {
+                throw new Error(`Payment in ${currency} does not match invoice currency ${invoice.currency}`);
+            }
+
+            const amount = roundMoney(payment.amount / Math.pow(10, getCurrencyDecimals(currency)), currency);
+            const applied = Math.min(amount, parseFloat(invoice.amount_due ?? invoice.total));
+            const paymentDate = new Date().toISOString().split('T')[0];
+
+            // The rate it was received at, for any customer deposit it leaves;
+            // a missing rate still records the payment, and its GL post fails
+            const baseCurrency = invoice.base_currency
+                || await exchangeRateService.getBaseCurrency(invoice.tenant_id, supabaseAdmin);
+            const { rate, error: rateError } = await exchangeRateService.getRate(
+                invoice.tenant_id, currency, baseCurrency, paymentDate, supabaseAdmin
+            );
+            if (rateError) console.error(`No exchange rate for Stripe payment ${payment.paymentIntentId}:`, rateError);
+
+            // 2. Record the payment and apply it to the invoice
+            const { data: recorded, error: paymentError } = await supabaseAdmin
+                .from('invoice_payments')
+                .insert({
+                    tenant_id: invoice.tenant_id,
+                    client_id: invoice.client_id,
+                    amount,
+                    currency,
+                    payment_date: paymentDate,
+                    method: 'stripe',
+                    reference: payment.paymentIntentId,
+                    exchange_rate: rateError ? null : rate,
                 })
-                .eq('id', invoiceId);
+                .select()
+                .single();
+
+            if (paymentError) throw paymentError;
+
+            if (applied > 0) {
+                const { data: updated, error: applyError } = await supabaseAdmin.rpc('apply_invoice_payment', {
+                    p_payment_id: recorded.id,
+                    p_invoice_id: invoiceId,
+                    p_amount: applied,
+                });
+
+                if (applyError) throw applyError;
+
+                // 3. Post to General Ledger (DR Cash, CR AR, FX gain/loss)
+                await this.postPaymentToGL(invoiceId, updated || invoice, applied, paymentDate, recorded.id);
+            }
+
+            // 4. Anything paid beyond the balance is held as a customer deposit
+            const unapplied = roundMoney(amount - Math.max(applied, 0), currency);
+            if (unapplied > 0) {
+                await this.postDepositToGL(invoice, recorded, unapplied);
+            }
+
+            return { success: true, error: null };
+        } catch (err: any) {
+            console.error('Server recordStripePayment error:', err);
+            return { success: false, error: err.message };
+        }
+    },
+
+    /**
+     * Record a Stripe refund of an invoice payment as a refunded credit note
+     * `amountRefunded` is the charge's cumulative refunded amount in the
+     * currency's smallest unit; only the part not yet recorded is credited,
+     * so redelivered and partial-refund webhooks are safe
+     */
+    async recordStripeRefund(
+        refund: { paymentIntentId: string; amountRefunded: number; currency: string }
+    ): Promise<{ success: boolean; error: string | null }> {
+        const supabaseAdmin = createAdminClient();
+
+        try {
+            // 1. Find the invoice the payment was applied to
+            const { data: payment } = await supabaseAdmin
+                .from('invoice_payments')
+                .select('id, tenant_id, invoice_payment_allocations(invoice_id)')
+                .eq('method', 'stripe')
+                .eq('reference', refund.paymentIntentId)
+                .maybeSingle();
+
+            // Not an invoice payment (e.g. a platform subscription)
+            const invoiceId = payment?.invoice_payment_allocations?.[0]?.invoice_id;
+            if (!payment || !invoiceId) return { success: true, error: null };
+
+            const { data: invoice, error: fetchError } = await supabaseAdmin
+                .from('business_invoices')
+                .select('*')
+                .eq('id', invoiceId)
+                .single();
+
+            if (fetchError || !invoice) throw new Error('Invoice not found');
+
+            const currency = refund.currency.toUpperCase();
+            const totalRefunded = roundMoney(refund.amountRefunded / Math.pow(10, getCurrencyDecimals(currency)), currency);
+
+            const { data: recorded } = await supabaseAdmin
+                .from('credit_note_refunds')
+                .select('amount')
+                .eq('tenant_id', payment.tenant_id)
+                .eq('method', 'stripe')
+                .like('reference', `${refund.paymentIntentId}:%`);
 
-            if (updateError) throw updateError;
+            const alreadyRefunded = (recorded || []).reduce((sum: number, r: any) => sum + parseFloat(r.amount), 0);
+            const amount = roundMoney(totalRefunded - alreadyRefunded, currency);
+            if (!(amount > 0)) return { success: true, error: null };
+
+            const refundDate = new Date().toISOString().split('T')[0];
+            const baseCurrency = invoice.base_currency
+                || await exchangeRateService.getBaseCurrency(invoice.tenant_id, supabaseAdmin);
+            const { rate: refundRate, error: rateError } = await exchangeRateService.getRate(
+                invoice.tenant_id, currency, baseCurrency, refundDate, supabaseAdmin
+            );
+            if (rateError) throw new Error(rateError);
+            const issueRate = invoice.exchange_rate != null ? parseFloat(invoice.exchange_rate) : refundRate;
+
+            // The refund reverses the invoice's tax in proportion
+            const invoiceTotal = parseFloat(invoice.total || 0);
+            const taxLines = invoiceTotal > 0 ? prorateTaxLines(getTaxLines(invoice), Math.min(amount / invoiceTotal, 1), currency) : [];
+            const tax = roundMoney(taxLines.reduce((sum, line) => sum + line.taxAmount, 0), currency);
+
+            // 2. Issue a credit note for the refunded amount and refund it, in one
+            // transaction so a failed refund leaves no credit note behind
+            const creditNoteNumber = await this.generateCreditNoteNumber(invoice.tenant_id);
+            const { data: creditNoteRefund, error: refundError } = await supabaseAdmin.rpc('record_stripe_refund', {
+                p_credit_note: {
+                    tenant_id: invoice.tenant_id,
+                    invoice_id: invoiceId,
+                    client_id: invoice.client_id,
+                    credit_note_number: creditNoteNumber,
+                    issue_date: refundDate,
+                    reason: 'Refunded through Stripe',
+                    line_items: [],
+                    subtotal: roundMoney(amount - tax, currency),
+                    tax,
+                    tax_lines: taxLines,
+                    total: amount,
+                    currency,
+                    exchange_rate: issueRate,
+                    base_total: roundMoney(amount * issueRate, baseCurrency),
+                },
+                p_amount: amount,
+                p_refund_date: refundDate,
+                p_reference: `${refund.paymentIntentId}:${refund.amountRefunded}`,
+            });
 
-            // 3. Post to General Ledger (DR Cash, CR AR)
-            await this.postPaymentToGL(invoiceId, invoice);
+            if (refundError) throw refundError;
+            if (!creditNoteRefund?.id) return { success: true, error: null }; // Recorded by another delivery
+
+            const creditNote = { id: creditNoteRefund.credit_note_id, credit_note_number: creditNoteNumber };
+
+            // 3. Post to General Ledger: reverse the revenue and tax (DR Revenue, DR Tax, CR AR),
+            // then pay the client back (DR AR, CR Cash, FX gain/loss)
+            const invoiceNumber = invoice.invoice_number;
+            const fx = exchangeRateService.calculateRealizedFx(amount, issueRate, refundRate, baseCurrency);
+            const gainLoss = -fx.gainLoss;
+
+            // Reversed across the revenue and tax accounts the invoice was booked to
+            const taxes = taxPostings(taxLines, issueRate, baseCurrency);
+            const baseTax = roundMoney(taxes.reduce((sum, posting) => sum + posting.amount, 0), baseCurrency);
+            const invoiceLines = invoice.line_items || [];
+            const revenueAccounts = await productCatalogService.getRevenueAccounts(
+                invoiceLines.map((line: any) => line.productId || ''), supabaseAdmin
+            );
+            const revenue = allocateRevenue(invoiceLines, revenueAccounts, roundMoney(fx.carryingAmount - baseTax, baseCurrency), baseCurrency);
+
+            const creditEntryId = await this.postEntryToGL(invoice.tenant_id, {
+                entryDate: refundDate,
+                description: `Credit note ${creditNote.credit_note_number} for Invoice ${invoiceNumber}`,
+                reference: creditNote.credit_note_number,
+                sourceType: 'credit_note',
+                sourceId: creditNote.id,
+                currency,
+                exchangeRate: issueRate,
+                entityId: invoiceId,
+                lines: [
+                    ...revenue.map(part => ({
+                        ...(part.accountId ? { accountId: part.accountId } : { accountCode: '4100' }),
+                        debit: part.amount,
+                        credit: 0,
+                        description: `Revenue reversed - ${creditNote.credit_note_number}`,
+                    })),
+                    ...taxes.map(posting => ({
+                        ...(posting.accountId ? { accountId: posting.accountId } : { accountCode: '2200' }),
+                        debit: posting.amount,
+                        credit: 0,
+                        description: `${posting.label} reversed - ${creditNote.credit_note_number}`,
+                    })),
+                    { accountCode: '1100', debit: 0, credit: fx.carryingAmount, description: `AR credited - Invoice ${invoiceNumber}` },
+                ],
+            });
+
+            const refundLines = [
+                { accountCode: '1100', debit: fx.carryingAmount, credit: 0, description: `AR refunded - ${creditNote.credit_note_number}` },
+                { accountCode: '1000', debit: 0, credit: fx.settledAmount, description: `Cash refunded - Invoice ${invoiceNumber}` },
+            ];
+            if (gainLoss !== 0) {
+                refundLines.push({
+                    accountCode: gainLoss > 0 ? '7100' : '8100',
+                    debit: gainLoss < 0 ? -gainLoss : 0,
+                    credit: gainLoss > 0 ? gainLoss : 0,
+                    description: `Realized FX ${gainLoss > 0 ? 'gain' : 'loss'} - ${creditNote.credit_note_number}`,
+                });
+            }
+
+            const refundEntryId = await this.postEntryToGL(invoice.tenant_id, {
+                entryDate: refundDate,
+                description: `Stripe refund for Invoice ${invoiceNumber}`,
+                reference: creditNote.credit_note_number,
+                sourceType: 'refund',
+                sourceId: creditNoteRefund.id,
+                currency,
+                exchangeRate: refundRate,
+                entityId: invoiceId,
+                lines: refundLines,
+            });
+
+            if (creditEntryId) {
+                await supabaseAdmin.from('credit_notes').update({ journal_entry_id: creditEntryId }).eq('id', creditNote.id);
+            }
+            if (refundEntryId) {
+                await supabaseAdmin.from('credit_note_refunds').update({ journal_entry_id: refundEntryId }).eq('id', creditNoteRefund.id);
+            }
 
             return { success: true, error: null };
         } catch (err: any) {
-            console.error('Server markAsPaid error:', err);
+            console.error('Server recordStripeRefund error:', err);
             return { success: false, error: err.message };
         }
     },
 
+    /**
+     * Generate next invoice number
+     */
+    async generateInvoiceNumber(tenantId: string): Promise<string> {
+        const supabaseAdmin = createAdminClient();
+
+        const { data } = await supabaseAdmin
+            .from('business_invoices')
+            .select('invoice_number')
+            .eq('tenant_id', tenantId)
+            .order('created_at', { ascending: false })
+            .limit(1);
+
+        const match = data?.[0]?.invoice_number.match(/\d+$/);
+        return match ? `INV-${(parseInt(match[0]) + 1).toString().padStart(4, '0')}` : 'INV-0001';
+    },
+
+    /**
+     * Generate next credit note number
+     */
+    async generateCreditNoteNumber(tenantId: string): Promise<string> {
+        const supabaseAdmin = createAdminClient();
+
+        const { data } = await supabaseAdmin
+            .from('credit_notes')
+            .select('credit_note_number')
+            .eq('tenant_id', tenantId)
+            .order('created_at', { ascending: false })
+            .limit(1);
+
+        const match = data?.[0]?.credit_note_number.match(/\d+$/);
+        return match ? `CN-${(parseInt(match[0]) + 1).toString().padStart(4, '0')}` : 'CN-0001';
+    },
+
+    /**
+     * Insert a posted journal entry whose lines name their accounts by code
+     * (or by id, for accounts mapped on catalog products). Returns the entry id, or null when an account is missing or the
+     * insert fails, so the webhook still succeeds and the entry can be
+     * reconciled by hand
+     */
+    async postEntryToGL(
+        tenantId: string,
+        entry: {
+            entryDate: string;
+            description: string;
+            reference: string;
+            sourceType: string;
+            sourceId: string;
+            currency: string;
+            exchangeRate: number;
+            entityId: string;
+            lines: { accountCode?: string; accountId?: string; debit: number; credit: number; description: string }[];
+        }
+    ): Promise<string | null> {
+        const supabaseAdmin = createAdminClient();
+
+        try {
+            const codes = [...new Set(entry.lines.flatMap(line => line.accountId ? [] : [line.accountCode as string]))];
+            const { data: accounts } = await supabaseAdmin
+                .from('chart_of_accounts')
+                .select('id, account_code')
+                .eq('tenant_id', tenantId)
+                .in('account_code', codes);
+
+            const accountIds = new Map((accounts || []).map((a: any) => [a.account_code, a.id]));
+            const missing = codes.filter(code => !accountIds.has(code));
+            if (missing.length > 0) {
+                console.warn(`Accounts ${missing.join(', ')} not found for tenant ${tenantId}. Skipping GL post.`);
+                return null;
+            }
+
+            const total = entry.lines.reduce((sum, line) => sum + line.debit, 0);
+
+            const { data: entryNumber } = await supabaseAdmin.rpc('generate_entry_number', {
+                p_tenant_id: tenantId,
+            });
+
+            const { data: created, error: entryError } = await supabaseAdmin
+                .from('journal_entries')
+                .insert({
+                    tenant_id: tenantId,
+                    entry_number: entryNumber || `JE-${Date.now()}`,
+                    entry_date: entry.entryDate,
+                    description: entry.description,
+                    reference: entry.reference,
+                    source_type: entry.sourceType,
+                    source_id: entry.sourceId,
+                    status: 'posted', // Auto-post from webhook
+                    total_debits: total,
+                    total_credits: total,
+                    currency: entry.currency,
+                    exchange_rate: entry.exchangeRate,
+                    posted_at: new Date().toISOString()
+                })
+                .select()
+                .single();
+
+            if (entryError) throw entryError;
+
+            await supabaseAdmin.from('journal_entry_lines').insert(entry.lines.map((line, index) => ({
+                tenant_id: tenantId,
+                entry_id: created.id,
+                line_number: index + 1,
+                account_id: line.accountId || accountIds.get(line.accountCode),
+                debit_amount: line.debit,
+                credit_amount: line.credit,
+                description: line.description,
+                entity_type: 'invoice',
+                entity_id: entry.entityId,
+                exchange_rate: entry.exchangeRate
+            })));
+
+            await supabaseAdmin.rpc('update_account_balances', {
+                p_entry_id: created.id
+            });
+
+            return created.id;
+        } catch (err) {
+            console.error('Failed to post entry to GL:', err);
+            return null;
+        }
+    },
+
+    /**
+     * Post an issued invoice to the General Ledger, as businessInvoiceService
+     * does for invoices sent from the dashboard
+     * DR Accounts Receivable (1100)
+     *   CR Revenue                 per product revenue account, else 4100
+     *   CR Tax liability           per tax component account, else 2200
+     */
+    async postInvoiceToGL(invoice: any): Promise<string | null> {
+        const supabaseAdmin = createAdminClient();
+        const tenantId = invoice.tenant_id;
+        const currency = (invoice.currency || 'USD').toUpperCase();
+        const baseCurrency = invoice.base_currency
+            || await exchangeRateService.getBaseCurrency(tenantId, supabaseAdmin);
+        const exchangeRate = invoice.exchange_rate != null ? parseFloat(invoice.exchange_rate) : 1;
+        const total = parseFloat(invoice.total || 0);
+        const baseTotal = invoice.base_total != null
+            ? parseFloat(invoice.base_total)
+            : roundMoney(total * exchangeRate, baseCurrency);
+        const invoiceNumber = invoice.invoice_number;
+
+        const taxes = taxPostings(getTaxLines(invoice), exchangeRate, baseCurrency);
+        const baseTax = roundMoney(taxes.reduce((sum, posting) => sum + posting.amount, 0), baseCurrency);
+        const lineItems = invoice.line_items || [];
+        const revenueAccounts = await productCatalogService.getRevenueAccounts(
+            lineItems.map((line: any) => line.productId || ''), supabaseAdmin
+        );
+        const revenue = allocateRevenue(lineItems, revenueAccounts, roundMoney(baseTotal - baseTax, baseCurrency), baseCurrency);
+        const foreignAmount = currency !== baseCurrency ? ` (${formatCurrency(total, currency)})` : '';
+
+        return this.postEntryToGL(tenantId, {
+            entryDate: invoice.issue_date,
+            description: `Invoice ${invoiceNumber} - Service Revenue${foreignAmount}`,
+            reference: invoiceNumber,
+            sourceType: 'invoice',
+            sourceId: invoice.id,
+            currency,
+            exchangeRate,
+            entityId: invoice.id,
+            lines: [
+                { accountCode: '1100', debit: baseTotal, credit: 0, description: `AR - Invoice ${invoiceNumber}` },
+                ...revenue.map(part => ({
+                    ...(part.accountId ? { accountId: part.accountId } : { accountCode: '4100' }),
+                    debit: 0,
+                    credit: part.amount,
+                    description: `Revenue - Invoice ${invoiceNumber}`
+                })),
+                ...taxes.map(posting => ({
+                    ...(posting.accountId ? { accountId: posting.accountId } : { accountCode: '2200' }),
+                    debit: 0,
+                    credit: posting.amount,
+                    description: `${posting.label} - Invoice ${invoiceNumber}`
+                }))
+            ]
+        });
+    },
+
+    /**
+     * Post the part of a payment the invoice did not need to the GL, as
+     * invoicePaymentService does for payments recorded in the dashboard
+     * DR Cash (1000)
+     *   CR Customer Deposits (2300)
+     */
+    async postDepositToGL(invoice: any, payment: any, amount: number): Promise<string | null> {
+        const supabaseAdmin = createAdminClient();
+        const tenantId = invoice.tenant_id;
+        const currency = payment.currency;
+        const baseCurrency = invoice.base_currency
+            || await exchangeRateService.getBaseCurrency(tenantId, supabaseAdmin);
+        const rate = parseFloat(payment.exchange_rate);
+        if (!(rate > 0)) {
+            console.error(`Failed to post customer deposit to GL: payment ${payment.id} has no recorded exchange rate`);
+            return null;
+        }
+
+        const baseAmount = roundMoney(amount * rate, baseCurrency);
+        const foreignAmount = currency !== baseCurrency ? ` (${formatCurrency(amount, currency)})` : '';
+
+        return this.postEntryToGL(tenantId, {
+            entryDate: payment.payment_date,
+            description: `Overpayment of Invoice ${invoice.invoice_number}${foreignAmount}`,
+            reference: payment.reference,
+            sourceType: 'customer_deposit',
+            sourceId: payment.id,
+            currency,
+            exchangeRate: rate,
+            entityId: invoice.id,
+            lines: [
+                { accountCode: '1000', debit: baseAmount, credit: 0, description: `Cash received - Invoice ${invoice.invoice_number}` },
+                { accountCode: '2300', debit: 0, credit: baseAmount, description: `Customer deposit - Invoice ${invoice.invoice_number}` },
+            ],
+        });
+    },
+
     /**
      * Post payment to General Ledger
      * Uses RPC if available, or direct inserts
      */
-    async postPaymentToGL(invoiceId: string, invoice: any): Promise<void> {
+    async postPaymentToGL(
+        invoiceId: string,
+        invoice: any,
+        amount: number,
+        paymentDate: string,
+        paymentId: string
+    ): Promise<void> {
         const supabaseAdmin = createAdminClient();
 
         try {
             const tenantId = invoice.tenant_id;
-            const total = parseFloat(invoice.total || 0);
             const invoiceNumber = invoice.invoice_number;
+            const currency = (invoice.currency || 'USD').toUpperCase();
+
+            // Ledger amounts are in base currency: AR was booked at the issue
+            // rate, cash is worth the amount paid at today's rate
+            const baseCurrency = invoice.base_currency
+                || await exchangeRateService.getBaseCurrency(tenantId, supabaseAdmin);
+            const { rate: paymentRate, error: rateError } = await exchangeRateService.getRate(
+                tenantId, currency, baseCurrency, paymentDate, supabaseAdmin
+            );
+            if (rateError) throw new Error(rateError);
+
+            const issueRate = invoice.exchange_rate != null ? parseFloat(invoice.exchange_rate) : paymentRate;
+            const fx = exchangeRateService.calculateRealizedFx(amount, issueRate, paymentRate, baseCurrency);
 
             // 1. Get accounts (Cash 1000, AR 1100)
             const { data: cashAccount } = await supabaseAdmin
@@ -72,6 +534,24 @@ export const invoiceServerService = {
                 return;
             }
 
+            // Realized FX gain (7100) or loss (8100)
+            let fxAccount: { id: string } | null = null;
+            if (fx.gainLoss !== 0) {
+                const { data } = await supabaseAdmin
+                    .from('chart_of_accounts')
+                    .select('id')
+                    .eq('tenant_id', tenantId)
+                    .eq('account_code', fx.gainLoss > 0 ? '7100' : '8100')
+                    .single();
+
+                if (!data) {
+                    console.warn(`Realized FX account not found for tenant ${tenantId}. Skipping GL post.`);
+                    return;
+                }
+                fxAccount = data;
+            }
+            const totalDebits = roundMoney(fx.settledAmount + (fx.gainLoss < 0 ? -fx.gainLoss : 0), baseCurrency);
+
             // 2. Generate entry number via RPC
             const { data: entryNumber } = await supabaseAdmin.rpc('generate_entry_number', {
                 p_tenant_id: tenantId,
@@ -83,15 +563,16 @@ export const invoiceServerService = {
                 .insert({
                     tenant_id: tenantId,
                     entry_number: entryNumber || `JE-${Date.now()}`,
-                    entry_date: new Date().toISOString().split('T')[0],
+                    entry_date: paymentDate,
                     description: `Payment received for Invoice ${invoiceNumber}`,
                     reference: invoiceNumber,
                     source_type: 'payment',
-                    source_id: invoiceId,
+                    source_id: paymentId,
                     status: 'posted', // Auto-post from webhook
-                    total_debits: total,
-                    total_credits: total,
-                    currency: 'USD',
+                    total_debits: totalDebits,
+                    total_credits: totalDebits,
+                    currency,
+                    exchange_rate: paymentRate,
                     posted_at: new Date().toISOString()
                 })
                 .select()
@@ -100,17 +581,18 @@ export const invoiceServerService = {
             if (entryError) throw entryError;
 
             // 4. Create lines
-            await supabaseAdmin.from('journal_entry_lines').insert([
+            const lines = [
                 {
                     tenant_id: tenantId,
                     entry_id: entry.id,
                     line_number: 1,
                     account_id: cashAccount.id,
-                    debit_amount: total,
+                    debit_amount: fx.settledAmount,
                     credit_amount: 0,
                     description: `Cash received - Invoice ${invoiceNumber}`,
                     entity_type: 'invoice',
-                    entity_id: invoiceId
+                    entity_id: invoiceId,
+                    exchange_rate: paymentRate
                 },
                 {
                     tenant_id: tenantId,
@@ -118,12 +600,43 @@ export const invoiceServerService = {
                     line_number: 2,
                     account_id: arAccount.id,
                     debit_amount: 0,
-                    credit_amount: total,
+                    credit_amount: fx.carryingAmount,
                     description: `AR collected - Invoice ${invoiceNumber}`,
                     entity_type: 'invoice',
-                    entity_id: invoiceId
+                    entity_id: invoiceId,
+                    exchange_rate: paymentRate
                 }
-            ]);
+            ];
+
+            if (fxAccount) {
+                lines.push({
+                    tenant_id: tenantId,
+                    entry_id: entry.id,
+                    line_number: 3,
+                    account_id: fxAccount.id,
+                    debit_amount: fx.gainLoss < 0 ? -fx.gainLoss : 0,
+                    credit_amount: fx.gainLoss > 0 ? fx.gainLoss : 0,
+                    description: `Realized FX ${fx.gainLoss > 0 ? 'gain' : 'loss'} - Invoice ${invoiceNumber}`,
+                    entity_type: 'invoice',
+                    entity_id: invoiceId,
+                    exchange_rate: paymentRate
+                });
+            }
+
+            await supabaseAdmin.from('journal_entry_lines').insert(lines);
+
+            const total = parseFloat(invoice.total || 0);
+            const priorGainLoss = parseFloat(invoice.realized_fx_gain_loss || 0);
+            await supabaseAdmin
+                .from('business_invoices')
+                .update({
+                    base_currency: baseCurrency,
+                    exchange_rate: issueRate,
+                    base_total: roundMoney(total * issueRate, baseCurrency),
+                    payment_exchange_rate: paymentRate,
+                    realized_fx_gain_loss: roundMoney(priorGainLoss + fx.gainLoss, baseCurrency)
+                })
+                .eq('id', invoiceId);
 
             // 5. Update account balances via RPC if exists
             await supabaseAdmin.rpc('update_account_balances', {
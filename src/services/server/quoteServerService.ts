@@ -0,0 +1,531 @@
+import { createAdminClient } from '@/lib/supabaseServer';
+import crypto from 'crypto';
+import { esignatureComplianceService } from '@/services/esignatureComplianceService';
+import { exchangeRateService } from '@/services/accounting/exchangeRateService';
+import { formatCurrency, roundMoney } from '@/services/accounting/currency';
+import { calculateQuoteTotals, QuoteStatus } from '@/services/quoteService';
+import { allocateRevenue, productCatalogService } from '@/services/productCatalogService';
+import { invoiceServerService } from './invoiceServerService';
+
+export interface PublicQuoteItem {
+    id: string;
+    productName: string;
+    description?: string;
+    quantity: number;
+    unitPrice: number;
+    discountPercent: number;
+    taxPercent: number;
+    isOptional: boolean;
+    isSelected: boolean;
+    productId?: string;
+}
+
+/**
+ * What the public quote page may see; internal notes, view stats and
+ * the deal stay private
+ */
+export interface PublicQuote {
+    quoteNumber: string;
+    name: string;
+    status: QuoteStatus;
+    currency: string;
+    validUntil?: string;
+    subtotal: number;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+    depositPercent?: number;
+    termsAndConditions?: string;
+    acceptedAt?: string;
+    acceptedBy?: string;
+    invoiceId?: string;
+    tenantName?: string;
+    items: PublicQuoteItem[];
+}
+
+export interface QuoteAcceptanceRequest {
+    token: string;
+    selectedItemIds: string[];     // Optional items the client chose
+    signerName: string;
+    signerEmail: string;
+    signatureDataUrl: string;
+    ipAddress: string;
+    userAgent: string;
+}
+
+const mapItem = (row: any): PublicQuoteItem => ({
+    id: row.id,
+    productName: row.product_name,
+    description: row.description || undefined,
+    quantity: parseFloat(row.quantity || 0),
+    unitPrice: parseFloat(row.unit_price || 0),
+    discountPercent: parseFloat(row.discount_percent || 0),
+    taxPercent: parseFloat(row.tax_percent || 0),
+    isOptional: row.is_optional || false,
+    isSelected: row.is_selected ?? true,
+    productId: row.product_id || undefined
+});
+
+const mapPublicQuote = (row: any, items: PublicQuoteItem[]): PublicQuote => ({
+    quoteNumber: row.quote_number,
+    name: row.name,
+    status: row.status,
+    currency: row.currency || 'USD',
+    validUntil: row.valid_until || undefined,
+    subtotal: parseFloat(row.subtotal || 0),
+    discountAmount: parseFloat(row.discount_amount || 0),
+    taxAmount: parseFloat(row.tax_amount || 0),
+    totalAmount: parseFloat(row.total_amount || 0),
+    depositPercent: row.deposit_percent != null ? parseFloat(row.deposit_percent) : undefined,
+    termsAndConditions: row.terms_and_conditions || undefined,
+    acceptedAt: row.accepted_at || undefined,
+    acceptedBy: row.accepted_by || undefined,
+    invoiceId: row.invoice_id || undefined,
+    tenantName: row.tenant?.name,
+    items
+});
+
+const ACCEPTABLE_STATUSES: QuoteStatus[] = ['sent', 'viewed'];
+
+// A drawn signature is a few KB to a few tens of KB as a PNG data URL
+export const MAX_SIGNATURE_DATA_URL_LENGTH = 200 * 1024;
+
+/**
+ * The signature is stored on the quote and in the signature audit trail,
+ * so only a base64 PNG or JPEG image of a sensible size is accepted
+ */
+export function isValidSignatureDataUrl(value: unknown): value is string {
+    return typeof value === 'string'
+        && value.length <= MAX_SIGNATURE_DATA_URL_LENGTH
+        && /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/.test(value);
+}
+
+export const quoteServerService = {
+    /**
+     * Load a quote for its public page and record the view
+     * Drafts are never public
+     */
+    async getPublicQuote(
+        token: string,
+        viewer: { ipAddress: string; userAgent: string }
+    ): Promise<PublicQuote | null> {
+        const supabaseAdmin = createAdminClient();
+
+        const { data: quote } = await supabaseAdmin
+            .from('quotes')
+            .select('*, tenant:tenants(name)')
+            .eq('public_token', token)
+            .maybeSingle();
+
+        if (!quote || quote.status === 'draft') return null;
+
+        const { data: items } = await supabaseAdmin
+            .from('quote_items')
+            .select('*')
+            .eq('quote_id', quote.id)
+            .order('item_order', { ascending: true });
+
+        if (ACCEPTABLE_STATUSES.includes(quote.status)) {
+            await supabaseAdmin.from('quote_views').insert({
+                tenant_id: quote.tenant_id,
+                quote_id: quote.id,
+                ip_address: viewer.ipAddress.split(',')[0].trim(),
+                user_agent: viewer.userAgent
+            });
+            await supabaseAdmin.rpc('increment_quote_view_count', { quote_id: quote.id });
+        }
+
+        return mapPublicQuote(quote, (items || []).map(mapItem));
+    },
+
+    /**
+     * Accept a quote with the client's signature, then convert it
+     * The status change is claimed on the quote row, so a quote is signed
+     * and converted once however often the form is submitted. A failed
+     * conversion leaves the quote accepted for the team to convert by hand.
+     */
+    async acceptQuote(req: QuoteAcceptanceRequest): Promise<{ quote: PublicQuote; conversionError: string | null }> {
+        if (!isValidSignatureDataUrl(req.signatureDataUrl)) {
+            throw new Error('The signature must be a PNG or JPEG image of at most 200 KB');
+        }
+
+        const supabaseAdmin = createAdminClient();
+
+        const { data: quote } = await supabaseAdmin
+            .from('quotes')
+            .select('*')
+            .eq('public_token', req.token)
+            .maybeSingle();
+
+        if (!quote || quote.status === 'draft') throw new Error('Quote not found');
+        if (!ACCEPTABLE_STATUSES.includes(quote.status)) {
+            throw new Error(`This quote has already been ${quote.status}`);
+        }
+
+        const today = new Date().toISOString().split('T')[0];
+        if (quote.valid_until && quote.valid_until < today) {
+            await supabaseAdmin.from('quotes').update({ status: 'expired' }).eq('id', quote.id).in('status', ACCEPTABLE_STATUSES);
+            throw new Error('This quote has expired');
+        }
+
+        const { data: itemRows } = await supabaseAdmin
+            .from('quote_items')
+            .select('*')
+            .eq('quote_id', quote.id)
+            .order('item_order', { ascending: true });
+
+        const items = (itemRows || []).map(mapItem).map(item => ({
+            ...item,
+            isSelected: !item.isOptional || req.selectedItemIds.includes(item.id)
+        }));
+        if (!items.some(item => item.isSelected)) throw new Error('Select at least one item to accept');
+
+        const currency = quote.currency || 'USD';
+        const totals = calculateQuoteTotals(items, parseFloat(quote.discount_amount || 0), currency);
+
+        // Hash of exactly what the client agreed to
+        const contentHash = crypto.createHash('sha256').update(JSON.stringify({
+            quoteNumber: quote.quote_number,
+            items: items.filter(item => item.isSelected).map(item => [
+                item.id, item.productName, item.quantity, item.unitPrice, item.discountPercent, item.taxPercent
+            ]),
+            totals,
+            currency,
+            depositPercent: quote.deposit_percent,
+            terms: quote.terms_and_conditions || ''
+        })).digest('hex');
+
+        const { data: claimed } = await supabaseAdmin
+            .from('quotes')
+            .update({
+                status: 'accepted',
+                accepted_at: new Date().toISOString(),
+                accepted_by: req.signerName,
+                signature_url: req.signatureDataUrl
+            })
+            .eq('id', quote.id)
+            .in('status', ACCEPTABLE_STATUSES)
+            .select()
+            .maybeSingle();
+
+        if (!claimed) throw new Error('This quote has already been accepted');
+
+        const signature = await esignatureComplianceService.recordQuoteSignature(
+            quote.id,
+            req.signerName,
+            req.signerEmail,
+            req.signatureDataUrl,
+            contentHash,
+            req.ipAddress,
+            req.userAgent,
+            supabaseAdmin
+        );
+
+        if (!signature.success) {
+            await supabaseAdmin
+                .from('quotes')
+                .update({ status: quote.status, accepted_at: null, accepted_by: null, signature_url: null })
+                .eq('id', quote.id);
+            throw new Error(signature.error || 'Failed to record signature');
+        }
+
+        // The totals trigger recomputes the quote from the chosen items
+        const optional = items.filter(item => item.isOptional);
+        const chosen = optional.filter(item => item.isSelected).map(item => item.id);
+        const declined = optional.filter(item => !item.isSelected).map(item => item.id);
+        if (chosen.length > 0) await supabaseAdmin.from('quote_items').update({ is_selected: true }).in('id', chosen);
+        if (declined.length > 0) await supabaseAdmin.from('quote_items').update({ is_selected: false }).in('id', declined);
+
+        await supabaseAdmin
+            .from('quotes')
+            .update({ signature_event_id: signature.eventId })
+            .eq('id', quote.id);
+
+        let conversionError: string | null = null;
+        try {
+            await this.convertQuote(quote.id, { name: req.signerName, email: req.signerEmail });
+        } catch (err: any) {
+            console.error('Failed to convert accepted quote:', err);
+            conversionError = err.message;
+        }
+
+        const { data: updated } = await supabaseAdmin
+            .from('quotes')
+            .select('*, tenant:tenants(name)')
+            .eq('id', quote.id)
+            .single();
+
+        return { quote: mapPublicQuote(updated, items), conversionError };
+    },
+
+    /**
+     * Convert an accepted quote into an issued invoice and a project
+     * With a deposit percentage the invoice bills only the deposit. The
+     * linked deal is moved to closed_won. Claimed on the quote status, so
+     * a converted quote is returned as is.
+     */
+    async convertQuote(
+        quoteId: string,
+        signer?: { name: string; email: string }
+    ): Promise<{ invoiceId: string | null; projectId: string | null }> {
+        const supabaseAdmin = createAdminClient();
+
+        const { data: quote } = await supabaseAdmin
+            .from('quotes')
+            .update({ status: 'converted' })
+            .eq('id', quoteId)
+            .eq('status', 'accepted')
+            .select()
+            .maybeSingle();
+
+        if (!quote) {
+            const { data: existing } = await supabaseAdmin
+                .from('quotes')
+                .select('status, invoice_id, project_id')
+                .eq('id', quoteId)
+                .maybeSingle();
+
+            if (existing?.status !== 'converted') throw new Error('Only accepted quotes can be converted');
+            return { invoiceId: existing.invoice_id, projectId: existing.project_id };
+        }
+
+        // Removed again if the conversion fails, so a retry doesn't duplicate them
+        let projectId: string | null = null;
+        let invoiceId: string | null = null;
+
+        try {
+            const tenantId = quote.tenant_id;
+            const currency = (quote.currency || 'USD').toUpperCase();
+            const today = new Date().toISOString().split('T')[0];
+
+            const { data: itemRows } = await supabaseAdmin
+                .from('quote_items')
+                .select('*')
+                .eq('quote_id', quote.id)
+                .eq('is_selected', true)
+                .order('item_order', { ascending: true });
+
+            const items = (itemRows || []).map(mapItem);
+            const totals = calculateQuoteTotals(items, parseFloat(quote.discount_amount || 0), currency);
+
+            // 1. Client: the one on the quote, or the signer's, created if new
+            const clientId = quote.client_id || await this.findOrCreateClient(tenantId, quote, signer);
+
+            // 2. Project
+            const { data: project, error: projectError } = await supabaseAdmin
+                .from('projects')
+                .insert({
+                    tenant_id: tenantId,
+                    owner_id: quote.contact_id,
+                    name: quote.name,
+                    category: 'Client Project',
+                    status: 'Active',
+                    current_stage: 'Discovery',
+                    progress: 0,
+                    start_date: today,
+                    team: [],
+                    description: `Started from accepted quote ${quote.quote_number}`,
+                    contract_status: 'None'
+                })
+                .select('id')
+                .single();
+
+            if (projectError) throw projectError;
+            projectId = project.id;
+
+            // 3. Invoice, issued and posted like any sent invoice
+            const quoteLines = items.map(item => {
+                const net = item.unitPrice * (1 - item.discountPercent / 100);
+                return {
+                    description: item.productName + (item.description ? ` - ${item.description}` : ''),
+                    quantity: item.quantity,
+                    rate: roundMoney(net, currency),
+                    amount: roundMoney(item.quantity * net, currency),
+                    productId: item.productId
+                };
+            });
+            const depositPercent = quote.deposit_percent != null ? parseFloat(quote.deposit_percent) : null;
+            const invoiceAmounts = depositPercent
+                ? (() => {
+                    const deposit = roundMoney(totals.total * depositPercent / 100, currency);
+                    return {
+                        subtotal: deposit,
+                        taxRate: 0,
+                        tax: 0,
+                        discountAmount: 0,
+                        total: deposit,
+                        lineItems: [{
+                            description: `Deposit (${depositPercent}%) for ${quote.name} - quote ${quote.quote_number} (${formatCurrency(totals.total, currency)})`,
+                            quantity: 1,
+                            rate: deposit,
+                            amount: deposit
+                        }]
+                    };
+                })()
+                : {
+                    subtotal: totals.subtotal,
+                    taxRate: totals.subtotal > 0 ? Math.round((totals.tax / totals.subtotal) * 10000) / 100 : 0,
+                    tax: totals.tax,
+                    discountAmount: parseFloat(quote.discount_amount || 0),
+                    total: totals.total,
+                    lineItems: quoteLines
+                };
+
+            const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId, supabaseAdmin);
+            const { rate, error: rateError } = await exchangeRateService.getRate(
+                tenantId, currency, baseCurrency, today, supabaseAdmin
+            );
+            if (rateError) throw new Error(rateError);
+
+            const invoiceNumber = await invoiceServerService.generateInvoiceNumber(tenantId);
+            const baseTotal = roundMoney(invoiceAmounts.total * rate, baseCurrency);
+
+            const { data: invoice, error: invoiceError } = await supabaseAdmin
+                .from('business_invoices')
+                .insert({
+                    tenant_id: tenantId,
+                    client_id: clientId,
+                    project_id: project.id,
+                    invoice_number: invoiceNumber,
+                    issue_date: today,
+                    due_date: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+                    status: 'sent',
+                    subtotal: invoiceAmounts.subtotal,
+                    tax_rate: invoiceAmounts.taxRate,
+                    tax: invoiceAmounts.tax,
+                    discount_amount: invoiceAmounts.discountAmount,
+                    total: invoiceAmounts.total,
+                    currency,
+                    base_currency: baseCurrency,
+                    exchange_rate: rate,
+                    base_total: baseTotal,
+                    line_items: invoiceAmounts.lineItems,
+                    notes: `Accepted quote ${quote.quote_number}`,
+                    is_public: true
+                })
+                .select('id')
+                .single();
+
+            if (invoiceError) throw invoiceError;
+            invoiceId = invoice.id;
+
+            // Linked before posting: nothing after the GL entry may fail
+            const { error: linkError } = await supabaseAdmin
+                .from('quotes')
+                .update({ client_id: clientId, invoice_id: invoice.id, project_id: project.id })
+                .eq('id', quote.id);
+
+            if (linkError) throw linkError;
+
+            // A deposit is split across the quoted products' revenue accounts too;
+            // quoted tax goes to Sales Tax Payable
+            const baseTax = roundMoney(invoiceAmounts.tax * rate, baseCurrency);
+            const revenueAccounts = await productCatalogService.getRevenueAccounts(
+                items.map(item => item.productId || ''), supabaseAdmin
+            );
+            const revenue = allocateRevenue(quoteLines, revenueAccounts, roundMoney(baseTotal - baseTax, baseCurrency), baseCurrency);
+
+            const foreignAmount = currency !== baseCurrency ? ` (${formatCurrency(invoiceAmounts.total, currency)})` : '';
+            await invoiceServerService.postEntryToGL(tenantId, {
+                entryDate: today,
+                description: `Invoice ${invoiceNumber} - Service Revenue${foreignAmount}`,
+                reference: invoiceNumber,
+                sourceType: 'invoice',
+                sourceId: invoice.id,
+                currency,
+                exchangeRate: rate,
+                entityId: invoice.id,
+                lines: [
+                    { accountCode: '1100', debit: baseTotal, credit: 0, description: `AR - Invoice ${invoiceNumber}` },
+                    ...revenue.map(part => ({
+                        ...(part.accountId ? { accountId: part.accountId } : { accountCode: '4100' }),
+                        debit: 0,
+                        credit: part.amount,
+                        description: `Revenue - Invoice ${invoiceNumber}`
+                    })),
+                    ...(baseTax !== 0
+                        ? [{ accountCode: '2200', debit: 0, credit: baseTax, description: `Sales tax - Invoice ${invoiceNumber}` }]
+                        : [])
+                ]
+            });
+
+            // 4. The deal is won
+            if (quote.deal_id) {
+                await supabaseAdmin
+                    .from('deals')
+                    .update({
+                        stage: 'closed_won',
+                        probability: 100,
+                        actual_close_date: today,
+                        won_details: `Quote ${quote.quote_number} accepted`,
+                        project_id: project.id
+                    })
+                    .eq('id', quote.deal_id)
+                    .neq('stage', 'closed_won');
+            }
+
+            return { invoiceId: invoice.id, projectId: project.id };
+        } catch (err) {
+            if (invoiceId) await supabaseAdmin.from('business_invoices').delete().eq('id', invoiceId);
+            if (projectId) await supabaseAdmin.from('projects').delete().eq('id', projectId);
+            await supabaseAdmin
+                .from('quotes')
+                .update({ status: 'accepted', invoice_id: null, project_id: null })
+                .eq('id', quote.id);
+            throw err;
+        }
+    },
+
+    /**
+     * Business client to invoice for a quote that names none
+     * Matched on email within the tenant; a match becomes a customer
+     */
+    async findOrCreateClient(
+        tenantId: string,
+        quote: any,
+        signer?: { name: string; email: string }
+    ): Promise<string | null> {
+        const supabaseAdmin = createAdminClient();
+
+        let contact = signer;
+        if (!contact && quote.signature_event_id) {
+            const { data: event } = await supabaseAdmin
+                .from('signature_events')
+                .select('signer_name, signer_email')
+                .eq('id', quote.signature_event_id)
+                .maybeSingle();
+            if (event) contact = { name: event.signer_name, email: event.signer_email };
+        }
+        const email = contact?.email?.trim().toLowerCase();
+        if (!contact || !email) return null;
+
+        // The email comes from the public accept page: escape it so it is
+        // matched literally, case-insensitively, and never as a pattern
+        const { data: existing } = await supabaseAdmin
+            .from('business_clients')
+            .select('id')
+            .eq('tenant_id', tenantId)
+            .ilike('email', email.replace(/[\\%_]/g, char => `\\${char}`))
+            .limit(1);
+
+        if (existing && existing.length > 0) {
+            await supabaseAdmin.from('business_clients').update({ stage: 'customer' }).eq('id', existing[0].id);
+            return existing[0].id;
+        }
+
+        const { data: created, error } = await supabaseAdmin
+            .from('business_clients')
+            .insert({
+                tenant_id: tenantId,
+                name: contact.name,
+                email,
+                stage: 'customer',
+                value: 0
+            })
+            .select('id')
+            .single();
+
+        if (error) throw error;
+        return created.id;
+    }
+};
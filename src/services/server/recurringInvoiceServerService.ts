@@ -0,0 +1,229 @@
+import { createAdminClient } from '@/lib/supabaseServer';
+import { exchangeRateService } from '@/services/accounting/exchangeRateService';
+import { formatCurrency, roundMoney } from '@/services/accounting/currency';
+import { taxService } from '@/services/accounting/taxService';
+import { emailHelpers } from '@/services/email/emailService';
+import {
+    RecurringInvoiceSchedule,
+    calculateScheduleTotals,
+    getNextRunDate,
+    mapSchedule
+} from '@/services/recurringInvoiceService';
+import { invoiceServerService } from './invoiceServerService';
+
+const toDateString = (date: Date): string => date.toISOString().split('T')[0];
+
+const addDays = (date: string, days: number): string => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return toDateString(d);
+};
+
+/**
+ * Recurring invoice generation for the daily cron
+ * Runs with the service role: the cron has no user session, so the
+ * tenant policies on schedules and invoices would hide every row, and
+ * each tenant's ledger is posted to by tenant ID rather than the
+ * browser's current tenant
+ */
+export const recurringInvoiceServerService = {
+    /**
+     * Generate the invoice for a schedule's next period
+     * The period is claimed by advancing next_run_date first, so overlapping
+     * cron runs cannot bill it twice; a failure hands it back for the next run
+     */
+    async generateInvoice(schedule: RecurringInvoiceSchedule): Promise<{ invoiceId: string | null; error: string | null }> {
+        const supabaseAdmin = createAdminClient();
+        const runDate = schedule.nextRunDate;
+        const nextRunDate = getNextRunDate(runDate, schedule.frequency, schedule.intervalCount, schedule.startDate);
+        const finished = !!schedule.endDate && nextRunDate > schedule.endDate;
+
+        try {
+            const { data: claimed, error: claimError } = await supabaseAdmin
+                .from('recurring_invoice_schedules')
+                .update({
+                    next_run_date: nextRunDate,
+                    last_run_date: runDate,
+                    is_active: !finished,
+                })
+                .eq('id', schedule.id)
+                .eq('next_run_date', runDate)
+                .eq('is_active', true)
+                .select('id');
+
+            if (claimError) throw claimError;
+            if (!claimed || claimed.length === 0) {
+                return { invoiceId: null, error: null };
+            }
+
+            const tenantId = schedule.tenantId;
+            const baseCurrency = await exchangeRateService.getBaseCurrency(tenantId, supabaseAdmin);
+            const currency = (schedule.currency || baseCurrency).toUpperCase();
+            const { rate, error: rateError } = await exchangeRateService.getRate(
+                tenantId, currency, baseCurrency, runDate, supabaseAdmin
+            );
+            if (rateError) throw new Error(rateError);
+
+            const [{ rates, error: ratesError }, { data: client }] = await Promise.all([
+                taxService.getTaxRates(tenantId, undefined, supabaseAdmin),
+                supabaseAdmin.from('business_clients').select('tax_exempt').eq('id', schedule.clientId).maybeSingle(),
+            ]);
+            if (ratesError) throw new Error(ratesError);
+
+            const totals = calculateScheduleTotals(schedule, rates, {
+                exempt: client?.tax_exempt || false,
+                currency,
+            });
+
+            const { data: invoice, error: invoiceError } = await supabaseAdmin
+                .from('business_invoices')
+                .insert({
+                    tenant_id: tenantId,
+                    client_id: schedule.clientId,
+                    project_id: schedule.projectId || null,
+                    invoice_number: await invoiceServerService.generateInvoiceNumber(tenantId),
+                    issue_date: runDate,
+                    due_date: addDays(runDate, schedule.paymentTermsDays),
+                    status: schedule.autoSend ? 'sent' : 'draft',
+                    subtotal: totals.subtotal,
+                    tax_rate: totals.taxRate,
+                    tax: totals.tax,
+                    tax_lines: totals.taxLines,
+                    exempt_amount: totals.exemptAmount,
+                    discount_amount: totals.discountAmount,
+                    total: totals.total,
+                    currency,
+                    base_currency: baseCurrency,
+                    exchange_rate: rate,
+                    base_total: roundMoney(totals.total * rate, baseCurrency),
+                    line_items: totals.lineItems,
+                    notes: schedule.notes,
+                    is_public: true,
+                    recurring_schedule_id: schedule.id,
+                })
+                .select()
+                .single();
+
+            if (invoiceError) throw invoiceError;
+
+            await supabaseAdmin
+                .from('recurring_invoice_schedules')
+                .update({
+                    invoices_generated: schedule.invoicesGenerated + 1,
+                    last_error: null,
+                })
+                .eq('id', schedule.id);
+
+            if (schedule.autoSend) {
+                await invoiceServerService.postInvoiceToGL(invoice);
+                await this.emailInvoice(invoice);
+            }
+
+            return { invoiceId: invoice.id, error: null };
+        } catch (err: any) {
+            console.error(`Error generating invoice for recurring schedule ${schedule.id}:`, err);
+
+            await supabaseAdmin
+                .from('recurring_invoice_schedules')
+                .update({
+                    next_run_date: runDate,
+                    last_run_date: schedule.lastRunDate || null,
+                    is_active: true,
+                    last_error: err.message,
+                })
+                .eq('id', schedule.id)
+                .eq('next_run_date', nextRunDate);
+
+            return { invoiceId: null, error: err.message };
+        }
+    },
+
+    /**
+     * Email a generated invoice to the client
+     */
+    async emailInvoice(invoice: any): Promise<void> {
+        const supabaseAdmin = createAdminClient();
+
+        try {
+            const [{ data: client }, { data: tenant }] = await Promise.all([
+                supabaseAdmin.from('business_clients').select('email').eq('id', invoice.client_id).maybeSingle(),
+                supabaseAdmin.from('tenants').select('name').eq('id', invoice.tenant_id).maybeSingle(),
+            ]);
+
+            if (client?.email) {
+                const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://alphaclone.tech';
+                await emailHelpers.sendInvoiceCreated(
+                    client.email,
+                    tenant?.name || 'AlphaClone Business',
+                    invoice.invoice_number,
+                    formatCurrency(parseFloat(invoice.total || 0), invoice.currency),
+                    invoice.due_date,
+                    `${baseUrl}/invoice/${invoice.id}`
+                );
+            }
+        } catch (err) {
+            console.error('Error emailing recurring invoice:', err);
+        }
+    },
+
+    /**
+     * Generate invoices for every schedule that is due
+     * Called by the daily cron job; a schedule that missed runs catches up
+     * one invoice per missed period
+     */
+    async processDueSchedules(today: string = toDateString(new Date())): Promise<{ generated: number; errors: number }> {
+        const supabaseAdmin = createAdminClient();
+
+        try {
+            const { data, error } = await supabaseAdmin
+                .from('recurring_invoice_schedules')
+                .select('*')
+                .eq('is_active', true)
+                .lte('next_run_date', today);
+
+            if (error) {
+                console.error('Error fetching due recurring schedules:', error);
+                return { generated: 0, errors: 1 };
+            }
+
+            let generated = 0;
+            let errors = 0;
+
+            for (const row of data || []) {
+                let schedule = mapSchedule(row);
+
+                while (schedule.isActive && schedule.nextRunDate <= today) {
+                    if (schedule.endDate && schedule.nextRunDate > schedule.endDate) {
+                        await supabaseAdmin
+                            .from('recurring_invoice_schedules')
+                            .update({ is_active: false })
+                            .eq('id', schedule.id);
+                        break;
+                    }
+
+                    const { invoiceId, error: generateError } = await this.generateInvoice(schedule);
+                    if (generateError) {
+                        errors++;
+                        break;
+                    }
+                    if (!invoiceId) break; // Claimed by another run
+
+                    generated++;
+                    const nextRunDate = getNextRunDate(schedule.nextRunDate, schedule.frequency, schedule.intervalCount, schedule.startDate);
+                    schedule = {
+                        ...schedule,
+                        lastRunDate: schedule.nextRunDate,
+                        nextRunDate,
+                        isActive: !schedule.endDate || nextRunDate <= schedule.endDate,
+                        invoicesGenerated: schedule.invoicesGenerated + 1,
+                    };
+                }
+            }
+
+            return { generated, errors };
+        } catch (err) {
+            console.error('Critical error in recurring invoicing:', err);
+            return { generated: 0, errors: 1 };
+        }
+    },
+};
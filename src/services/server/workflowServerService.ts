@@ -0,0 +1,79 @@
+import { workflowEngine } from '@/services/workflow/WorkflowEngine';
+import { workflowApprovalService } from '@/services/workflow/ApprovalService';
+import { validateDefinition, formatValidationIssues } from '@/services/workflow/definition';
+import type {
+    DryRunOptions,
+    DryRunResult,
+    WorkflowApproval,
+    WorkflowDefinition,
+    WorkflowInstance,
+    WorkflowStatus
+} from '@/services/workflow/types';
+
+/**
+ * Workflow runs for API routes
+ * The engine executes steps that send email, call plugins and post to the
+ * ledger, so it only runs on the server; dashboard components go through
+ * workflowService, which calls the routes that use this
+ */
+export const workflowServerService = {
+    /**
+     * Run a definition against sample input with side-effecting steps stubbed
+     */
+    async dryRun(
+        tenantId: string,
+        definition: WorkflowDefinition,
+        inputData: Record<string, any> = {},
+        options: DryRunOptions = {}
+    ): Promise<DryRunResult> {
+        const issues = validateDefinition(definition);
+        if (issues.length > 0) {
+            throw new Error(`Invalid workflow definition: ${formatValidationIssues(issues)}`);
+        }
+
+        return workflowEngine.dryRun(definition, inputData, { ...options, tenantId });
+    },
+
+    /**
+     * Execute workflow
+     */
+    async executeWorkflow(
+        workflowId: string,
+        inputData?: Record<string, any>
+    ): Promise<WorkflowInstance> {
+        return workflowEngine.executeWorkflow(workflowId, inputData);
+    },
+
+    /**
+     * Retry a failed instance from the step that failed
+     */
+    async retryInstance(instanceId: string): Promise<WorkflowStatus> {
+        return workflowEngine.retryInstance(instanceId);
+    },
+
+    /**
+     * Approve or reject a pending approval request and resume its instance
+     */
+    async decideApproval(
+        approvalId: string,
+        userId: string,
+        decision: 'approved' | 'rejected',
+        comment?: string
+    ): Promise<{ approval: WorkflowApproval; instanceStatus: WorkflowStatus | null }> {
+        const approval = await workflowApprovalService.decide(approvalId, userId, decision, comment);
+
+        try {
+            const instanceStatus = await workflowEngine.resumeInstance(approval.instanceId, {
+                approvalId: approval.id,
+                decision: approval.status
+            });
+            return { approval, instanceStatus };
+        } catch (error: any) {
+            // The decision is recorded either way: the workflow cron may have claimed
+            // the instance first (it reads the decision when re-entering the step),
+            // or a later step failed and the instance is marked failed
+            console.warn(`[workflowServerService] Could not resume instance ${approval.instanceId}:`, error.message);
+            return { approval, instanceStatus: null };
+        }
+    },
+};
@@ -212,10 +212,15 @@ export const taskService = {
 
     /**
      * Create a new task
+     * Created under the current tenant unless one is given
      */
-    async createTask(userId: string, taskData: CreateTaskInput): Promise<{ task: Task | null; error: string | null }> {
+    async createTask(
+        userId: string,
+        taskData: CreateTaskInput,
+        forTenantId?: string
+    ): Promise<{ task: Task | null; error: string | null }> {
         try {
-            const tenantId = this.getTenantId();
+            const tenantId = forTenantId ?? this.getTenantId();
 
             const { data, error } = await supabase
                 .from('tasks')
@@ -247,11 +252,11 @@ export const taskService = {
             await activityService.logActivity(userId, 'Task Created', {
                 taskId: data.id,
                 taskTitle: taskData.title,
-            });
+            }, tenantId);
 
             // Trigger project progress recalculation if linked to a project
             if (data.related_to_project) {
-                projectService.recalculateProjectProgress(data.related_to_project).catch(err => console.error('Failed to update project progress:', err));
+                projectService.recalculateProjectProgress(data.related_to_project, tenantId).catch(err => console.error('Failed to update project progress:', err));
             }
 
             const task: Task = {
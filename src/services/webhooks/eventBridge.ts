@@ -0,0 +1,13 @@
+/**
+ * Outbound Webhooks - Event Bus Bridge
+ * Server-side delivery handler for the webhook_bridge subscription
+ *
+ * Import for its side effect wherever event deliveries are processed.
+ */
+
+import { eventConsumer } from '../eventBus/EventConsumer';
+import { webhookService } from './webhookService';
+
+eventConsumer.registerHandler('webhook_bridge', async (event) => {
+    await webhookService.forwardEvent(event);
+});
@@ -0,0 +1,50 @@
+/**
+ * Outbound Webhooks - Row Mappers
+ * Convert snake_case database rows into webhook types
+ */
+
+import type { WebhookDelivery, WebhookEndpoint } from './types';
+
+/**
+ * Map a notification_webhooks row to a WebhookEndpoint
+ */
+export function mapEndpoint(row: any): WebhookEndpoint {
+    return {
+        id: row.id,
+        tenantId: row.tenant_id,
+        name: row.name,
+        url: row.url,
+        eventTypes: row.event_types || [],
+        enabled: row.enabled,
+        failureCount: row.failure_count || 0,
+        disableAfterFailures: row.disable_after_failures ?? 10,
+        disabledAt: row.disabled_at || undefined,
+        disabledReason: row.disabled_reason || undefined,
+        previousSecretExpiresAt: row.previous_secret_expires_at || undefined,
+        lastTriggeredAt: row.last_triggered_at || undefined,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Map a webhook_deliveries row to a WebhookDelivery
+ */
+export function mapWebhookDelivery(row: any): WebhookDelivery {
+    return {
+        id: row.id,
+        webhookId: row.webhook_id,
+        eventType: row.event_type,
+        payload: row.payload,
+        status: row.status,
+        attempts: row.attempts || 0,
+        maxAttempts: row.max_attempts ?? 5,
+        lastAttemptAt: row.last_attempt_at || undefined,
+        nextRetryAt: row.next_retry_at || undefined,
+        responseStatus: row.response_status ?? undefined,
+        responseBody: row.response_body || undefined,
+        errorMessage: row.error_message || undefined,
+        durationMs: row.duration_ms ?? undefined,
+        resentFrom: row.resent_from || undefined,
+        createdAt: row.created_at
+    };
+}
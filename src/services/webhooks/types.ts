@@ -0,0 +1,51 @@
+/**
+ * Outbound Webhooks - Types
+ * Shared by the delivery service (server) and the webhook settings UI
+ */
+
+// Body of an outbound webhook request
+export interface WebhookEvent {
+    id?: string;                    // Event bus event id, when forwarded from the bus
+    type: string;
+    version?: number;               // Payload schema version (see eventBus/catalog.ts)
+    data: any;
+    tenantId: string;
+    timestamp: string;
+}
+
+// Registered endpoint (notification_webhooks)
+export interface WebhookEndpoint {
+    id: string;
+    tenantId: string;
+    name: string;
+    url: string;
+    eventTypes: string[];
+    enabled: boolean;
+    failureCount: number;           // Consecutive failed attempts
+    disableAfterFailures: number;
+    disabledAt?: string;
+    disabledReason?: string;
+    previousSecretExpiresAt?: string;   // Old secret still signed with until then
+    lastTriggeredAt?: string;
+    createdAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    eventType: string;
+    payload: any;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    maxAttempts: number;
+    lastAttemptAt?: string;
+    nextRetryAt?: string;
+    responseStatus?: number;
+    responseBody?: string;
+    errorMessage?: string;
+    durationMs?: number;
+    resentFrom?: string;
+    createdAt: string;
+}
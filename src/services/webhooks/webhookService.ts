@@ -1,70 +1,46 @@
-import { createHmac } from 'crypto';
-import { supabase } from '../../lib/supabase';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { createAdminClient } from '../../lib/supabaseServer';
+import { getCatalogEntry, validateEventPayload } from '../eventBus/catalog';
+import { getEventTenantId, matchesPattern } from '../eventBus/matching';
+import type { Event } from '../eventBus/types';
+import { mapWebhookDelivery } from './mappers';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent } from './types';
+
+export type { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEvent } from './types';
 
 /**
  * Webhook Delivery Service
  * Sends webhooks to external systems with retry logic
+ *
+ * Every attempt is recorded in webhook_deliveries. Failed deliveries are
+ * retried with backoff by /api/cron/webhooks, and endpoints that keep
+ * failing are disabled (see record_webhook_attempt).
+ *
+ * Requests carry X-AlphaClone-Signature: t=<unix seconds>,v1=<hex>, where
+ * v1 is the HMAC-SHA256 of "<t>.<raw body>" with the endpoint's secret.
+ * While a secret is being rotated there is one v1 per active secret.
+ *
+ * Tenant events on the event bus reach endpoints through forwardEvent (the
+ * webhook_bridge subscription). Endpoints subscribe to event types from the
+ * catalog in eventBus/catalog.ts, or to patterns such as "invoice.*".
+ *
+ * Deliveries are recorded with the service role: the crons have no user
+ * session, and claim_webhook_retries / record_webhook_attempt are only
+ * granted to service_role. API routes check the caller can see the
+ * endpoint or delivery before calling in.
  */
 
-export interface WebhookEvent {
-    type: string;
-    data: any;
-    tenantId: string;
-    timestamp: string;
-}
-
-export interface WebhookDelivery {
-    id: string;
-    webhookId: string;
-    eventType: string;
-    payload: any;
-    status: 'pending' | 'delivered' | 'failed';
-    attempts: number;
-    maxAttempts: number;
-    lastAttemptAt?: string;
-    nextRetryAt?: string;
-    responseStatus?: number;
-    responseBody?: string;
-    errorMessage?: string;
-}
-
-export const WEBHOOK_EVENTS = {
-    // Tenant events
-    TENANT_CREATED: 'tenant.created',
-    TENANT_UPDATED: 'tenant.updated',
-    TENANT_DELETED: 'tenant.deleted',
-
-    // User events
-    USER_INVITED: 'user.invited',
-    USER_JOINED: 'user.joined',
-    USER_REMOVED: 'user.removed',
-
-    // Project events
-    PROJECT_CREATED: 'project.created',
-    PROJECT_UPDATED: 'project.updated',
-    PROJECT_COMPLETED: 'project.completed',
-    PROJECT_DELETED: 'project.deleted',
-
-    // Contract events
-    CONTRACT_CREATED: 'contract.created',
-    CONTRACT_SIGNED: 'contract.signed',
-    CONTRACT_EXPIRED: 'contract.expired',
-
-    // Invoice events
-    INVOICE_CREATED: 'invoice.created',
-    INVOICE_PAID: 'invoice.paid',
-    INVOICE_OVERDUE: 'invoice.overdue',
-
-    // Subscription events
-    SUBSCRIPTION_CREATED: 'subscription.created',
-    SUBSCRIPTION_UPDATED: 'subscription.updated',
-    SUBSCRIPTION_CANCELED: 'subscription.canceled',
-    SUBSCRIPTION_RENEWED: 'subscription.renewed',
-
-    // Payment events
-    PAYMENT_SUCCEEDED: 'payment.succeeded',
-    PAYMENT_FAILED: 'payment.failed',
-};
+// Response bodies are kept for debugging, truncated to this many characters
+const MAX_RESPONSE_BODY_LENGTH = 4000;
+
+// Endpoints that take longer than this count as failed
+const DELIVERY_TIMEOUT_MS = 10000;
+
+// Default age (either way) a signature timestamp may have when verified
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// How long the previous secret keeps being signed with after a rotation
+const DEFAULT_ROTATION_OVERLAP_HOURS = 24;
 
 export const webhookService = {
     /**
@@ -76,16 +52,8 @@ export const webhookService = {
         data: any
     ): Promise<void> {
         try {
-            // Get all webhooks for this tenant that listen to this event
-            const { data: webhooks, error } = await supabase
-                .from('notification_webhooks')
-                .select('*')
-                .eq('tenant_id', tenantId)
-                .eq('enabled', true)
-                .contains('event_types', [eventType]);
-
-            if (error) throw error;
-            if (!webhooks || webhooks.length === 0) {
+            const webhooks = await this.getSubscribedEndpoints(tenantId, eventType);
+            if (webhooks.length === 0) {
                 console.log(`No webhooks registered for ${eventType}`);
                 return;
             }
@@ -93,6 +61,7 @@ export const webhookService = {
             // Create webhook event payload
             const event: WebhookEvent = {
                 type: eventType,
+                version: getCatalogEntry(eventType)?.currentVersion,
                 data,
                 tenantId,
                 timestamp: new Date().toISOString(),
@@ -100,25 +69,150 @@ export const webhookService = {
 
             // Send to all registered webhooks
             for (const webhook of webhooks) {
-                await this.deliverWebhook(webhook.id, webhook.url, webhook.secret, event);
+                await this.deliverWebhook(webhook.id, webhook.url, this.getSigningSecrets(webhook), event);
             }
         } catch (error) {
             console.error('Error sending webhook:', error);
         }
     },
 
+    /**
+     * Forward a bus event to the tenant's subscribed endpoints
+     * Runs as the webhook_bridge delivery handler in /api/cron/events, with
+     * the service role; only endpoints of the event's tenant are read. A bus
+     * delivery that runs again does not resend: each event is recorded once per endpoint,
+     * and failed first attempts are left to the webhook retry cron.
+     */
+    async forwardEvent(busEvent: Event): Promise<number> {
+        const tenantId = getEventTenantId(busEvent);
+        const catalogEntry = getCatalogEntry(busEvent.eventType);
+        if (!tenantId || !catalogEntry?.webhook) return 0;
+
+        // An invalid payload fails the bus delivery, so it ends up dead-lettered
+        const validation = validateEventPayload(busEvent.eventType, busEvent.eventData);
+        if (!validation.success) {
+            throw new Error(`Invalid ${busEvent.eventType} payload: ${validation.error}`);
+        }
+
+        const webhooks = await this.getSubscribedEndpoints(tenantId, busEvent.eventType);
+        const event: WebhookEvent = {
+            id: busEvent.id,
+            type: busEvent.eventType,
+            version: validation.version,
+            data: busEvent.eventData,
+            tenantId,
+            timestamp: new Date(busEvent.createdAt).toISOString(),
+        };
+
+        let forwarded = 0;
+        for (const webhook of webhooks) {
+            const delivery = await this.createDelivery(webhook.id, event, { eventId: busEvent.id });
+            if (!delivery) continue;
+
+            forwarded++;
+            try {
+                await this.attemptDelivery(delivery, webhook.url, this.getSigningSecrets(webhook));
+            } catch (error) {
+                // Still pending; the webhook cron picks it up again
+                console.error(`Error forwarding ${busEvent.eventType} to webhook ${webhook.id}:`, error);
+            }
+        }
+
+        return forwarded;
+    },
+
+    /**
+     * A tenant's enabled endpoints that listen to an event type
+     * event_types may hold exact types or patterns such as "invoice.*"
+     * Read with the service role, so the tenant filter is what scopes it
+     */
+    async getSubscribedEndpoints(tenantId: string, eventType: string): Promise<any[]> {
+        const supabaseAdmin = createAdminClient();
+        const { data: webhooks, error } = await supabaseAdmin
+            .from('notification_webhooks')
+            .select('*')
+            .eq('tenant_id', tenantId)
+            .eq('enabled', true);
+
+        if (error) throw error;
+
+        return (webhooks || []).filter((webhook: any) =>
+            (webhook.event_types || []).some((pattern: string) => matchesPattern(eventType, pattern))
+        );
+    },
+
     /**
      * Deliver webhook to specific endpoint
+     * Records the delivery; a failed first attempt is retried by the cron
      */
     async deliverWebhook(
         webhookId: string,
         url: string,
-        secret: string,
+        secrets: string | string[],
         event: WebhookEvent
     ): Promise<boolean> {
         try {
-            // Generate signature
-            const signature = this.generateSignature(JSON.stringify(event), secret);
+            const delivery = await this.createDelivery(webhookId, event);
+            if (!delivery) return false;
+            const status = await this.attemptDelivery(delivery, url, secrets);
+            return status === 'delivered';
+        } catch (error) {
+            console.error('Error delivering webhook:', error);
+            return false;
+        }
+    },
+
+    /**
+     * Record a delivery before its first attempt
+     * With an eventId, returns null when that event was already recorded
+     * for the endpoint
+     */
+    async createDelivery(
+        webhookId: string,
+        event: WebhookEvent,
+        options: { resentFrom?: string; eventId?: string } = {}
+    ): Promise<WebhookDelivery | null> {
+        const supabaseAdmin = createAdminClient();
+        const { data, error } = await supabaseAdmin
+            .from('webhook_deliveries')
+            .insert({
+                webhook_id: webhookId,
+                event_type: event.type,
+                payload: event,
+                status: 'pending',
+                resent_from: options.resentFrom || null,
+                event_id: options.eventId || null,
+            })
+            .select()
+            .single();
+
+        if (error?.code === '23505' && options.eventId) return null;
+        if (error) throw error;
+        return mapWebhookDelivery(data);
+    },
+
+    /**
+     * POST a recorded delivery to its endpoint and record the outcome
+     * Returns the delivery's new status
+     */
+    async attemptDelivery(
+        delivery: WebhookDelivery,
+        url: string,
+        secrets: string | string[]
+    ): Promise<WebhookDeliveryStatus> {
+        const event: WebhookEvent = delivery.payload;
+        const body = JSON.stringify(event);
+        const startTime = Date.now();
+
+        let success = false;
+        let responseStatus: number | null = null;
+        let responseBody: string | null = null;
+        let errorMessage: string | null = null;
+
+        try {
+            // Sign the timestamp and body; the timestamp is fresh on every attempt
+            const timestamp = Math.floor(Date.now() / 1000);
+            const signature = this.buildSignatureHeader(body, secrets, timestamp);
 
             // Send HTTP POST request
             const response = await fetch(url, {
@@ -127,100 +221,246 @@ export const webhookService = {
                     'Content-Type': 'application/json',
                     'X-AlphaClone-Signature': signature,
                     'X-AlphaClone-Event': event.type,
-                    'X-AlphaClone-Timestamp': event.timestamp,
+                    'X-AlphaClone-Timestamp': String(timestamp),
+                    'X-AlphaClone-Delivery': delivery.id,
                 },
-                body: JSON.stringify(event),
+                body,
+                signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
             });
 
-            const success = response.ok;
-
-            // Update webhook last triggered
-            if (success) {
-                await supabase
-                    .from('notification_webhooks')
-                    .update({
-                        last_triggered_at: new Date().toISOString(),
-                        failure_count: 0,
-                    })
-                    .eq('id', webhookId);
-            } else {
-                await supabase
-                    .from('notification_webhooks')
-                    .update({
-                        failure_count: supabase.sql`failure_count + 1`,
-                    })
-                    .eq('id', webhookId);
+            success = response.ok;
+            responseStatus = response.status;
+            responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+            if (!success) {
+                errorMessage = `Endpoint responded with HTTP ${response.status}`;
             }
+        } catch (error: any) {
+            errorMessage = error.name === 'TimeoutError'
+                ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+                : error.message || 'Request failed';
+        }
 
-            // Log delivery (optional - could be stored in webhook_deliveries table)
-            console.log(`Webhook ${webhookId} delivery:`, {
-                success,
-                status: response.status,
-                event: event.type,
-            });
+        const supabaseAdmin = createAdminClient();
+        const { data: status, error } = await supabaseAdmin.rpc('record_webhook_attempt', {
+            p_delivery_id: delivery.id,
+            p_success: success,
+            p_response_status: responseStatus,
+            p_response_body: responseBody,
+            p_error: errorMessage,
+            p_duration_ms: Date.now() - startTime,
+        });
+
+        if (error) throw error;
+
+        console.log(`Webhook ${delivery.webhookId} delivery:`, {
+            deliveryId: delivery.id,
+            status,
+            responseStatus,
+            event: event.type,
+        });
+
+        return status as WebhookDeliveryStatus;
+    },
 
-            return success;
-        } catch (error) {
-            console.error('Error delivering webhook:', error);
+    /**
+     * Generate HMAC signature of a timestamp and payload
+     */
+    generateSignature(payload: string, secret: string, timestamp: number): string {
+        return createHmac('sha256', secret)
+            .update(`${timestamp}.${payload}`)
+            .digest('hex');
+    },
 
-            // Increment failure count
-            await supabase
-                .from('notification_webhooks')
-                .update({
-                    failure_count: supabase.sql`failure_count + 1`,
-                })
-                .eq('id', webhookId);
+    /**
+     * Build the X-AlphaClone-Signature header, with one v1 per secret
+     */
+    buildSignatureHeader(
+        payload: string,
+        secrets: string | string[],
+        timestamp: number = Math.floor(Date.now() / 1000)
+    ): string {
+        const signatures = (Array.isArray(secrets) ? secrets : [secrets])
+            .map(secret => `v1=${this.generateSignature(payload, secret, timestamp)}`);
+
+        return [`t=${timestamp}`, ...signatures].join(',');
+    },
 
-            return false;
+    /**
+     * Split a signature header into its timestamp and v1 signatures
+     */
+    parseSignatureHeader(header: string): { timestamp: number | null; signatures: string[] } {
+        let timestamp: number | null = null;
+        const signatures: string[] = [];
+
+        for (const part of header.split(',')) {
+            const [key, value] = part.trim().split('=', 2);
+            if (key === 't' && /^\d+$/.test(value || '')) timestamp = parseInt(value, 10);
+            if (key === 'v1' && value) signatures.push(value);
         }
+
+        return { timestamp, signatures };
     },
 
     /**
-     * Generate HMAC signature for webhook verification
+     * Verify a signature header against the raw body
+     * Any of the given secrets may match (useful while rotating), and the
+     * timestamp must be within toleranceSeconds of now to stop replays
      */
-    generateSignature(payload: string, secret: string): string {
-        return createHmac('sha256', secret)
-            .update(payload)
-            .digest('hex');
+    verifySignature(
+        payload: string,
+        header: string,
+        secrets: string | string[],
+        toleranceSeconds: number = SIGNATURE_TOLERANCE_SECONDS,
+        now: number = Date.now()
+    ): boolean {
+        const { timestamp, signatures } = this.parseSignatureHeader(header);
+        if (timestamp === null || signatures.length === 0) return false;
+        if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+        return (Array.isArray(secrets) ? secrets : [secrets]).some(secret => {
+            const expected = Buffer.from(this.generateSignature(payload, secret, timestamp));
+            return signatures.some(signature => {
+                const candidate = Buffer.from(signature);
+                return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+            });
+        });
     },
 
     /**
-     * Verify webhook signature (for receiving webhooks from external services)
+     * Generate a new endpoint signing secret
      */
-    verifySignature(payload: string, signature: string, secret: string): boolean {
-        const expectedSignature = this.generateSignature(payload, secret);
-        return signature === expectedSignature;
+    generateSecret(): string {
+        return `whsec_${randomBytes(32).toString('hex')}`;
+    },
+
+    /**
+     * Secrets to sign an endpoint's deliveries with: its current secret, plus
+     * the previous one until the rotation overlap ends
+     */
+    getSigningSecrets(webhook: {
+        secret: string;
+        previous_secret?: string | null;
+        previous_secret_expires_at?: string | null;
+    }): string[] {
+        const secrets = [webhook.secret];
+        if (
+            webhook.previous_secret
+            && webhook.previous_secret_expires_at
+            && new Date(webhook.previous_secret_expires_at) > new Date()
+        ) {
+            secrets.push(webhook.previous_secret);
+        }
+        return secrets;
+    },
+
+    /**
+     * Replace an endpoint's secret, signing with the old one as well until
+     * the overlap ends so the receiver can switch over without dropping events
+     */
+    async rotateSecret(
+        webhookId: string,
+        overlapHours: number = DEFAULT_ROTATION_OVERLAP_HOURS
+    ): Promise<{ secret: string; previousSecretExpiresAt: string }> {
+        const supabaseAdmin = createAdminClient();
+        const { data: webhook, error } = await supabaseAdmin
+            .from('notification_webhooks')
+            .select('id, secret')
+            .eq('id', webhookId)
+            .single();
+
+        if (error) throw error;
+
+        const secret = this.generateSecret();
+        const previousSecretExpiresAt = new Date(Date.now() + overlapHours * 60 * 60 * 1000).toISOString();
+
+        const { error: updateError } = await supabaseAdmin
+            .from('notification_webhooks')
+            .update({
+                secret,
+                previous_secret: webhook.secret,
+                previous_secret_expires_at: previousSecretExpiresAt,
+            })
+            .eq('id', webhookId);
+
+        if (updateError) throw updateError;
+        return { secret, previousSecretExpiresAt };
     },
 
     /**
      * Retry failed webhook deliveries with exponential backoff
+     * Called by /api/cron/webhooks
      */
-    async retryFailedWebhooks(): Promise<void> {
-        // This would be called by a cron job
-        // Get webhooks with failures
-        const { data: webhooks } = await supabase
+    async retryFailedWebhooks(limit: number = 50): Promise<{
+        processed: number;
+        results: Array<{ deliveryId: string; webhookId: string; status: WebhookDeliveryStatus }>;
+    }> {
+        const supabaseAdmin = createAdminClient();
+        const { data, error } = await supabaseAdmin.rpc('claim_webhook_retries', {
+            p_limit: limit,
+        });
+
+        if (error) throw error;
+
+        const deliveries: WebhookDelivery[] = (data || []).map((row: any) => mapWebhookDelivery(row));
+        if (deliveries.length === 0) {
+            return { processed: 0, results: [] };
+        }
+
+        const { data: webhooks, error: webhooksError } = await supabaseAdmin
             .from('notification_webhooks')
-            .select('*')
-            .gt('failure_count', 0)
-            .lt('failure_count', 5) // Max 5 retries
-            .eq('enabled', true);
+            .select('id, url, secret, previous_secret, previous_secret_expires_at')
+            .in('id', Array.from(new Set(deliveries.map(delivery => delivery.webhookId))));
 
-        if (!webhooks) return;
+        if (webhooksError) throw webhooksError;
 
-        for (const webhook of webhooks) {
-            // Exponential backoff: 1min, 5min, 15min, 1hr, 6hr
-            const backoffMinutes = [1, 5, 15, 60, 360][webhook.failure_count - 1] || 360;
-            const lastTriggered = new Date(webhook.last_triggered_at || 0);
-            const now = new Date();
-            const minutesSinceLastAttempt =
-                (now.getTime() - lastTriggered.getTime()) / 1000 / 60;
-
-            if (minutesSinceLastAttempt >= backoffMinutes) {
-                // Retry webhook
-                console.log(`Retrying webhook ${webhook.id}`);
-                // Would need to get the last failed event and retry it
+        const webhooksById = new Map<string, any>((webhooks || []).map((webhook: any) => [webhook.id, webhook]));
+        const results: Array<{ deliveryId: string; webhookId: string; status: WebhookDeliveryStatus }> = [];
+
+        for (const delivery of deliveries) {
+            const webhook = webhooksById.get(delivery.webhookId);
+            if (!webhook) continue;
+
+            try {
+                const status = await this.attemptDelivery(delivery, webhook.url, this.getSigningSecrets(webhook));
+                results.push({ deliveryId: delivery.id, webhookId: delivery.webhookId, status });
+            } catch (error) {
+                // The claim expires and the delivery is picked up again
+                console.error(`Error retrying webhook delivery ${delivery.id}:`, error);
             }
         }
+
+        return { processed: results.length, results };
+    },
+
+    /**
+     * Send a recorded delivery's payload again as a new delivery
+     * Works for disabled endpoints too, so integrators can check a fix
+     */
+    async resendDelivery(deliveryId: string): Promise<WebhookDelivery> {
+        const supabaseAdmin = createAdminClient();
+        const { data: original, error } = await supabaseAdmin
+            .from('webhook_deliveries')
+            .select('*, notification_webhooks(id, url, secret, previous_secret, previous_secret_expires_at)')
+            .eq('id', deliveryId)
+            .single();
+
+        if (error) throw error;
+
+        const webhook = original.notification_webhooks;
+        if (!webhook) throw new Error('Webhook not found');
+
+        const delivery = await this.createDelivery(webhook.id, original.payload, { resentFrom: original.id });
+        if (!delivery) throw new Error('Failed to record delivery');
+        await this.attemptDelivery(delivery, webhook.url, this.getSigningSecrets(webhook));
+
+        const { data: updated, error: reloadError } = await supabaseAdmin
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('id', delivery.id)
+            .single();
+
+        if (reloadError) throw reloadError;
+        return mapWebhookDelivery(updated);
     },
 
     /**
@@ -235,10 +475,10 @@ export const webhookService = {
     ): Promise<{ success: boolean; webhookId?: string; error?: string }> {
         try {
             // Generate secret if not provided
-            const webhookSecret =
-                secret || this.generateSignature(url + Date.now(), 'webhook-secret');
+            const webhookSecret = secret || this.generateSecret();
 
-            const { data, error } = await supabase
+            const supabaseAdmin = createAdminClient();
+            const { data, error } = await supabaseAdmin
                 .from('notification_webhooks')
                 .insert({
                     tenant_id: tenantId,
@@ -270,7 +510,8 @@ export const webhookService = {
      */
     async testWebhook(webhookId: string): Promise<boolean> {
         try {
-            const { data: webhook } = await supabase
+            const supabaseAdmin = createAdminClient();
+            const { data: webhook } = await supabaseAdmin
                 .from('notification_webhooks')
                 .select('*')
                 .eq('id', webhookId)
@@ -288,7 +529,7 @@ export const webhookService = {
             return await this.deliverWebhook(
                 webhook.id,
                 webhook.url,
-                webhook.secret,
+                this.getSigningSecrets(webhook),
                 testEvent
             );
         } catch (error) {
@@ -298,12 +539,19 @@ export const webhookService = {
     },
 
     /**
-     * Get webhook delivery logs
+     * Get webhook delivery logs, newest first
      */
-    async getWebhookLogs(webhookId: string, limit: number = 100): Promise<any[]> {
-        // Would query webhook_deliveries table if we had one
-        // For now, return empty array
-        return [];
+    async getWebhookLogs(webhookId: string, limit: number = 100): Promise<WebhookDelivery[]> {
+        const supabaseAdmin = createAdminClient();
+        const { data, error } = await supabaseAdmin
+            .from('webhook_deliveries')
+            .select('*')
+            .eq('webhook_id', webhookId)
+            .order('created_at', { ascending: false })
+            .limit(limit);
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapWebhookDelivery(row));
     },
 };
 
@@ -0,0 +1,240 @@
+/**
+ * Workflow Approval Service
+ * Persists approval requests raised by approval steps and records decisions
+ */
+
+import { supabase } from '../../lib/supabase';
+import { notificationService } from '../notificationService';
+import type { WorkflowApproval, ApprovalDecision } from './types';
+
+class WorkflowApprovalService {
+    /**
+     * Create an approval request and notify its approvers
+     */
+    async requestApproval(request: {
+        instanceId: string;
+        stepId: string;
+        tenantId?: string;
+        approvers: string[];
+        title: string;
+        message?: string;
+        deadline?: Date;
+        escalateAt?: Date;
+        escalationApprovers?: string[];
+    }): Promise<WorkflowApproval> {
+        const { data, error } = await supabase
+            .from('workflow_approvals')
+            .insert({
+                instance_id: request.instanceId,
+                step_id: request.stepId,
+                tenant_id: request.tenantId,
+                approvers: request.approvers,
+                title: request.title,
+                message: request.message,
+                deadline: request.deadline?.toISOString(),
+                escalate_at: request.escalateAt?.toISOString(),
+                escalation_approvers: request.escalationApprovers || []
+            })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        const approval = this.mapApproval(data);
+        await this.notifyApprovers(approval, approval.approvers);
+
+        return approval;
+    }
+
+    /**
+     * Get the most recent approval request raised by a step of an instance
+     */
+    async getLatestForStep(instanceId: string, stepId: string): Promise<WorkflowApproval | null> {
+        const { data, error } = await supabase
+            .from('workflow_approvals')
+            .select('*')
+            .eq('instance_id', instanceId)
+            .eq('step_id', stepId)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (error) throw error;
+        return data ? this.mapApproval(data) : null;
+    }
+
+    /**
+     * Get an approval request by id
+     */
+    async getApproval(approvalId: string): Promise<WorkflowApproval | null> {
+        const { data } = await supabase
+            .from('workflow_approvals')
+            .select('*')
+            .eq('id', approvalId)
+            .maybeSingle();
+
+        return data ? this.mapApproval(data) : null;
+    }
+
+    /**
+     * List pending approval requests assigned to a user
+     */
+    async listPendingForUser(userId: string): Promise<WorkflowApproval[]> {
+        const { data, error } = await supabase
+            .from('workflow_approvals')
+            .select('*')
+            .eq('status', 'pending')
+            .contains('approvers', [userId])
+            .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map((row: any) => this.mapApproval(row));
+    }
+
+    /**
+     * Record an approver's decision
+     * Only pending requests can be decided, and only by one of their approvers
+     */
+    async decide(
+        approvalId: string,
+        userId: string,
+        decision: Extract<ApprovalDecision, 'approved' | 'rejected'>,
+        comment?: string
+    ): Promise<WorkflowApproval> {
+        const approval = await this.getApproval(approvalId);
+
+        if (!approval) {
+            throw new Error('Approval request not found');
+        }
+        if (!approval.approvers.includes(userId)) {
+            throw new Error('You are not an approver for this request');
+        }
+        if (approval.status !== 'pending') {
+            throw new Error(`Approval request has already been ${approval.status.replace('_', ' ')}`);
+        }
+
+        return this.resolve(approvalId, decision, userId, comment);
+    }
+
+    /**
+     * Mark a pending request as timed out
+     */
+    async expire(approvalId: string): Promise<WorkflowApproval> {
+        return this.resolve(approvalId, 'timed_out');
+    }
+
+    /**
+     * Add the escalation approvers to a pending request and notify them
+     */
+    async escalate(approval: WorkflowApproval): Promise<WorkflowApproval> {
+        const added = approval.escalationApprovers.filter(id => !approval.approvers.includes(id));
+
+        const { data, error } = await supabase
+            .from('workflow_approvals')
+            .update({
+                approvers: [...approval.approvers, ...added],
+                escalated_at: new Date().toISOString()
+            })
+            .eq('id', approval.id)
+            .eq('status', 'pending')
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        const escalated = this.mapApproval(data);
+        await this.notifyApprovers(escalated, added, true);
+
+        return escalated;
+    }
+
+    /**
+     * Move a pending request to its final status
+     * The status guard makes concurrent decisions/timeouts resolve only once
+     */
+    private async resolve(
+        approvalId: string,
+        status: ApprovalDecision,
+        decidedBy?: string,
+        comment?: string
+    ): Promise<WorkflowApproval> {
+        const { data, error } = await supabase
+            .from('workflow_approvals')
+            .update({
+                status,
+                decided_by: decidedBy || null,
+                decided_at: new Date().toISOString(),
+                comment: comment || null
+            })
+            .eq('id', approvalId)
+            .eq('status', 'pending')
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+
+        if (!data) {
+            // Someone else resolved it first; return the winning decision
+            const current = await this.getApproval(approvalId);
+            if (!current) throw new Error('Approval request not found');
+            return current;
+        }
+
+        return this.mapApproval(data);
+    }
+
+    /**
+     * Notify approvers that a request is waiting for them
+     */
+    private async notifyApprovers(
+        approval: WorkflowApproval,
+        userIds: string[],
+        escalated: boolean = false
+    ): Promise<void> {
+        for (const userId of userIds) {
+            const { error } = await notificationService.createNotification({
+                userId,
+                tenantId: approval.tenantId,
+                type: 'alert',
+                title: escalated ? `Escalated: ${approval.title}` : approval.title,
+                message: approval.message || 'A workflow is waiting for your approval.',
+                link: `/dashboard/workflows?approval=${approval.id}`,
+                metadata: {
+                    approvalId: approval.id,
+                    instanceId: approval.instanceId,
+                    deadline: approval.deadline?.toISOString()
+                }
+            });
+
+            if (error) {
+                console.error(`[ApprovalService] Failed to notify approver ${userId}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Map a workflow_approvals row to a WorkflowApproval
+     */
+    private mapApproval(row: any): WorkflowApproval {
+        return {
+            id: row.id,
+            instanceId: row.instance_id,
+            stepId: row.step_id,
+            tenantId: row.tenant_id,
+            approvers: row.approvers || [],
+            title: row.title,
+            message: row.message,
+            status: row.status,
+            deadline: row.deadline ? new Date(row.deadline) : undefined,
+            escalateAt: row.escalate_at ? new Date(row.escalate_at) : undefined,
+            escalationApprovers: row.escalation_approvers || [],
+            escalatedAt: row.escalated_at ? new Date(row.escalated_at) : undefined,
+            decidedBy: row.decided_by,
+            decidedAt: row.decided_at ? new Date(row.decided_at) : undefined,
+            comment: row.comment,
+            createdAt: new Date(row.created_at)
+        };
+    }
+}
+
+export const workflowApprovalService = new WorkflowApprovalService();
@@ -4,16 +4,35 @@
  */
 
 import { supabase } from '../../lib/supabase';
-import { eventBus } from '../eventBus';
+import { eventBus, eventConsumer, mapEvent, matchesSubscription, normalizeFilters, getEventTenantId } from '../eventBus';
+import type { Event } from '../eventBus';
 import type {
     Workflow,
     WorkflowInstance,
     WorkflowStep,
     WorkflowContext,
     StepExecutor,
-    WorkflowStatus
+    StepSuspension,
+    WorkflowStatus,
+    WorkflowExecutionState,
+    WorkflowCursorFrame,
+    WorkflowDefinition,
+    LoopStepConfig,
+    DryRunOptions,
+    DryRunResult,
+    DryRunStepTrace
 } from './types';
-import { stepExecutors } from './executors';
+import { stepExecutors, dryRunExecutors } from './executors';
+import { isSuspension } from './suspension';
+import { getChildSequences } from './definition';
+import { evaluate, buildExpressionScope } from './expressions';
+import { mapWorkflow, mapInstance, mapWorkflowVersion } from './mappers';
+
+// Step that parked the instance, with the suspension it returned
+interface SuspendedStep {
+    step: WorkflowStep;
+    suspension: StepSuspension;
+}
 
 class WorkflowEngine {
     private executors: Map<string, StepExecutor> = new Map();
@@ -22,8 +41,8 @@ class WorkflowEngine {
         // Register default step executors
         this.registerExecutors();
 
-        // Listen for workflow trigger events
-        this.setupEventListeners();
+        // Receive events delivered by the event consumer
+        this.registerEventHandler();
     }
 
     /**
@@ -44,8 +63,8 @@ class WorkflowEngine {
             // Create workflow instance
             const instance = await this.createInstance(workflow, inputData);
 
-            // Execute workflow steps
-            await this.executeSteps(instance, workflow);
+            // Execute workflow steps until completion or suspension
+            instance.status = await this.runInstance(instance, workflow);
 
             return instance;
         } catch (error: any) {
@@ -55,45 +74,254 @@ class WorkflowEngine {
     }
 
     /**
-     * Execute workflow steps sequentially
+     * Resume a waiting or paused instance
+     * The payload is handed to the step that suspended the instance
+     */
+    async resumeInstance(
+        instanceId: string,
+        payload?: Record<string, any>
+    ): Promise<WorkflowStatus> {
+        // Claim the instance so a concurrent cron run cannot resume it twice
+        const { data, error } = await supabase
+            .from('workflow_instances')
+            .update({
+                status: 'running',
+                locked_at: new Date().toISOString(),
+                resume_at: null,
+                waiting_event: null,
+                correlation_key: null,
+                correlation_value: null
+            })
+            .eq('id', instanceId)
+            .in('status', ['waiting', 'paused'])
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) throw new Error('Workflow instance is not waiting to be resumed');
+
+        return this.continueInstance(mapInstance(data), payload);
+    }
+
+    /**
+     * Retry a failed instance from the step that failed
+     * Variables and step results from the failed run are kept; the failed step
+     * runs again from scratch, even if it had suspended before failing
+     */
+    async retryInstance(instanceId: string): Promise<WorkflowStatus> {
+        const { data: failed, error: loadError } = await supabase
+            .from('workflow_instances')
+            .select('*')
+            .eq('id', instanceId)
+            .single();
+
+        if (loadError) throw loadError;
+        if (failed.status !== 'failed') throw new Error('Only failed workflow instances can be retried');
+
+        // Claim the instance so a double click cannot retry it twice
+        const { data, error } = await supabase
+            .from('workflow_instances')
+            .update({
+                status: 'running',
+                locked_at: new Date().toISOString(),
+                completed_at: null,
+                error_message: null,
+                retry_count: (failed.retry_count || 0) + 1
+            })
+            .eq('id', instanceId)
+            .eq('status', 'failed')
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) throw new Error('Workflow instance is already being retried');
+
+        const instance = mapInstance(data);
+        if (instance.context.suspendedStepId) {
+            instance.context = { ...instance.context, suspendedStepId: undefined };
+        }
+
+        return this.continueInstance(instance);
+    }
+
+    /**
+     * Resume every instance whose wake-up time has passed
+     * Called by /api/cron/workflows and the local workflow worker
+     */
+    async processDueInstances(limit: number = 10): Promise<{
+        processed: number;
+        results: Array<{ instanceId: string; status: WorkflowStatus; error?: string }>;
+    }> {
+        const { data: instanceIds, error } = await supabase.rpc('claim_due_workflow_instances', {
+            p_limit: limit
+        });
+
+        if (error) throw error;
+
+        const results: Array<{ instanceId: string; status: WorkflowStatus; error?: string }> = [];
+
+        for (const instanceId of (instanceIds || []) as string[]) {
+            try {
+                const { data, error: loadError } = await supabase
+                    .from('workflow_instances')
+                    .select('*')
+                    .eq('id', instanceId)
+                    .single();
+
+                if (loadError) throw loadError;
+
+                const status = await this.continueInstance(mapInstance(data));
+                results.push({ instanceId, status });
+            } catch (err: any) {
+                console.error(`[WorkflowEngine] Failed to resume instance ${instanceId}:`, err);
+                results.push({ instanceId, status: 'failed', error: err.message });
+            }
+        }
+
+        return { processed: results.length, results };
+    }
+
+    /**
+     * Run a definition against sample input without persisting anything
+     * Side-effecting steps are replaced by stubs that validate their config and
+     * return placeholder results; approvals and event waits resolve per options
+     */
+    async dryRun(
+        definition: WorkflowDefinition,
+        inputData: Record<string, any> = {},
+        options: DryRunOptions = {}
+    ): Promise<DryRunResult> {
+        const context: WorkflowContext = {
+            instanceId: 'dry-run',
+            workflowId: 'dry-run',
+            tenantId: options.tenantId,
+            variables: { ...inputData },
+            stepResults: {},
+            dryRun: { options, trace: [] }
+        };
+
+        try {
+            const suspended = await this.runSequence(definition.steps, 0, [], context);
+            if (suspended) {
+                throw new Error(`Step ${suspended.step.id} suspended the workflow (${suspended.suspension.reason})`);
+            }
+
+            return {
+                status: 'completed',
+                steps: context.dryRun!.trace,
+                variables: context.variables,
+                stepResults: context.stepResults
+            };
+        } catch (error: any) {
+            return {
+                status: 'failed',
+                steps: context.dryRun!.trace,
+                variables: context.variables,
+                stepResults: context.stepResults,
+                error: error.message
+            };
+        }
+    }
+
+    /**
+     * Claim a single published event and hand it to workflows
+     * The claim makes sure each event is dispatched once, even when its delivery is retried
      */
-    private async executeSteps(
+    async dispatchEvent(eventId: string): Promise<void> {
+        const { data, error } = await supabase
+            .from('events')
+            .update({ workflow_dispatched_at: new Date().toISOString() })
+            .eq('id', eventId)
+            .is('workflow_dispatched_at', null)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) return;
+
+        await this.handleEvent(mapEvent(data));
+    }
+
+    /**
+     * Start workflows triggered by an event and resume instances waiting for it
+     */
+    private async handleEvent(event: Event): Promise<void> {
+        const workflows = await this.getWorkflowsByTrigger(event);
+
+        for (const workflow of workflows) {
+            try {
+                await this.executeWorkflow(workflow.id, event.eventData);
+            } catch (error) {
+                console.error(`[WorkflowEngine] Workflow ${workflow.id} failed for event ${event.id}:`, error);
+            }
+        }
+
+        for (const instance of await this.getInstancesWaitingFor(event)) {
+            try {
+                await this.resumeInstance(instance.id, {
+                    event: { id: event.id, eventType: event.eventType, eventData: event.eventData }
+                });
+            } catch (error) {
+                // Another process resumed it first, or the timeout already fired
+                console.warn(`[WorkflowEngine] Could not resume instance ${instance.id} for event ${event.id}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Continue a claimed instance from its persisted cursor
+     */
+    private async continueInstance(
         instance: WorkflowInstance,
-        workflow: Workflow
-    ): Promise<void> {
-        const steps = workflow.definition.steps;
+        payload?: Record<string, any>
+    ): Promise<WorkflowStatus> {
+        const workflow = await this.loadWorkflow(instance.workflowId, instance.workflowVersion);
+        return this.runInstance(instance, workflow, payload);
+    }
+
+    /**
+     * Execute workflow steps sequentially from the persisted cursor
+     * Returns the status the instance was left in
+     */
+    private async runInstance(
+        instance: WorkflowInstance,
+        workflow: Workflow,
+        resumePayload?: Record<string, any>
+    ): Promise<WorkflowStatus> {
+        const state = this.restoreState(instance);
         const context: WorkflowContext = {
             instanceId: instance.id,
             workflowId: workflow.id,
-            variables: { ...instance.inputData },
-            stepResults: {}
+            tenantId: workflow.tenantId,
+            variables: state.variables,
+            stepResults: state.stepResults,
+            resume: state.suspendedStepId
+                ? { stepId: state.suspendedStepId, resumedAt: new Date(), payload: resumePayload }
+                : undefined
         };
 
         try {
             // Update status to running
             await this.updateInstanceStatus(instance.id, 'running');
 
-            for (const step of steps) {
-                // Check if step should be executed (condition)
-                if (step.condition && !this.evaluateCondition(step.condition, context)) {
-                    await this.logStep(instance.id, step, 'skipped');
-                    continue;
-                }
-
-                // Execute step
-                const result = await this.executeStep(step, context);
-
-                // Store result in context
-                context.stepResults[step.id] = result;
-
-                // Update current step
-                await this.updateInstanceStatus(instance.id, 'running', step.id);
+            const suspended = await this.runSequence(workflow.definition.steps, 0, state.cursor, context);
+
+            // Park the instance; the cursor stays on the suspended step until it resumes
+            if (suspended) {
+                await this.suspendInstance(
+                    instance.id,
+                    suspended.step,
+                    { ...this.snapshot(context), cursor: state.cursor, suspendedStepId: suspended.step.id },
+                    suspended.suspension
+                );
+                return suspended.suspension.status || 'waiting';
             }
 
             // Mark as completed
             await this.updateInstanceStatus(instance.id, 'completed');
             await this.updateInstanceOutput(instance.id, context.stepResults);
 
+            return 'completed';
         } catch (error: any) {
             console.error('[WorkflowEngine] Step execution failed:', error);
             await this.updateInstanceStatus(instance.id, 'failed', undefined, error.message);
@@ -101,6 +329,192 @@ class WorkflowEngine {
         }
     }
 
+    /**
+     * Execute a sequence of steps from the cursor position at the given depth
+     * Returns the step that suspended the instance, if any
+     */
+    private async runSequence(
+        steps: WorkflowStep[],
+        depth: number,
+        cursor: WorkflowCursorFrame[],
+        context: WorkflowContext
+    ): Promise<SuspendedStep | null> {
+        if (!cursor[depth]) {
+            cursor[depth] = { index: 0 };
+        }
+
+        while (cursor[depth].index < steps.length) {
+            const step = steps[cursor[depth].index];
+
+            const suspended = await this.runStep(step, depth, cursor, context);
+            if (suspended) return suspended;
+
+            // Step finished: drop nested positions and move to the next sibling
+            cursor.length = depth + 1;
+            cursor[depth] = { index: cursor[depth].index + 1 };
+            await this.saveState(context, { ...this.snapshot(context), cursor });
+        }
+
+        return null;
+    }
+
+    /**
+     * Execute one step of a sequence, descending into condition and loop children
+     */
+    private async runStep(
+        step: WorkflowStep,
+        depth: number,
+        cursor: WorkflowCursorFrame[],
+        context: WorkflowContext
+    ): Promise<SuspendedStep | null> {
+        const frame = cursor[depth];
+        const inProgress = frame.branch !== undefined
+            || frame.iteration !== undefined
+            || context.resume?.stepId === step.id;
+
+        // Check if step should be executed (condition)
+        // A step that is already in progress passed its condition before
+        if (!inProgress && step.condition && !this.evaluateCondition(step.condition, context)) {
+            await this.logStep(context, step, 'skipped');
+            return null;
+        }
+
+        if (step.type === 'condition' || step.type === 'approval') {
+            return this.runBranching(step, depth, cursor, context);
+        }
+
+        if (step.type === 'loop') {
+            return this.runLoop(step, depth, cursor, context);
+        }
+
+        // Execute step
+        const result = await this.executeStep(step, context);
+
+        if (isSuspension(result)) {
+            return { step, suspension: result };
+        }
+
+        // Store result in context
+        context.stepResults[step.id] = result;
+        context.resume = undefined;
+
+        if (!context.dryRun) {
+            await this.updateInstanceStatus(context.instanceId, 'running', step.id);
+        }
+        return null;
+    }
+
+    /**
+     * Execute a branching step (condition, approval) once, then run the
+     * child sequence named by the branch in its result
+     */
+    private async runBranching(
+        step: WorkflowStep,
+        depth: number,
+        cursor: WorkflowCursorFrame[],
+        context: WorkflowContext
+    ): Promise<SuspendedStep | null> {
+        const frame = cursor[depth];
+
+        if (frame.branch === undefined) {
+            const result = await this.executeStep(step, context);
+
+            // Approvals park the instance until a decision arrives
+            if (isSuspension(result)) {
+                return { step, suspension: result };
+            }
+
+            context.stepResults[step.id] = result;
+            context.resume = undefined;
+            frame.branch = typeof result?.branch === 'string' ? result.branch : '';
+            await this.saveState(context, { ...this.snapshot(context), cursor });
+        }
+
+        const branch = frame.branch ?? '';
+        const branchSteps = getChildSequences(step)[branch] || [];
+
+        return this.runChildren(branchSteps, depth, cursor, context, {
+            stepId: step.id,
+            branch
+        });
+    }
+
+    /**
+     * Resolve a loop step's items once, then run its body per item
+     * The current item and index are bound in context.variables
+     */
+    private async runLoop(
+        step: WorkflowStep,
+        depth: number,
+        cursor: WorkflowCursorFrame[],
+        context: WorkflowContext
+    ): Promise<SuspendedStep | null> {
+        const frame = cursor[depth];
+        const config = step.config as LoopStepConfig;
+        const itemVariable = config.itemVariable || 'item';
+        const indexVariable = config.indexVariable || 'index';
+        const body = getChildSequences(step).body;
+
+        if (frame.iteration === undefined) {
+            const result = await this.executeStep(step, context);
+            const resolvedItems: any[] = Array.isArray(result?.items) ? result.items : [];
+            frame.items = resolvedItems;
+            frame.iteration = 0;
+            context.stepResults[step.id] = { iterations: resolvedItems.length, results: [] };
+            await this.saveState(context, { ...this.snapshot(context), cursor });
+        }
+
+        const items = frame.items || [];
+
+        while ((frame.iteration ?? 0) < items.length) {
+            const index: number = frame.iteration ?? 0;
+            context.variables[itemVariable] = items[index];
+            context.variables[indexVariable] = index;
+
+            const suspended = await this.runChildren(body, depth, cursor, context, {
+                stepId: step.id,
+                iteration: index
+            });
+            if (suspended) return suspended;
+
+            // Record this iteration's body results
+            context.stepResults[step.id].results.push({
+                index,
+                item: items[index],
+                results: Object.fromEntries(body.map(child => [child.id, context.stepResults[child.id]]))
+            });
+
+            cursor.length = depth + 1;
+            frame.iteration = index + 1;
+            await this.saveState(context, { ...this.snapshot(context), cursor });
+        }
+
+        delete context.variables[itemVariable];
+        delete context.variables[indexVariable];
+
+        return null;
+    }
+
+    /**
+     * Run a child sequence one level deeper, tagging step logs with their parent
+     */
+    private async runChildren(
+        steps: WorkflowStep[],
+        depth: number,
+        cursor: WorkflowCursorFrame[],
+        context: WorkflowContext,
+        parent: NonNullable<WorkflowContext['parent']>
+    ): Promise<SuspendedStep | null> {
+        const previousParent = context.parent;
+        context.parent = parent;
+
+        try {
+            return await this.runSequence(steps, depth + 1, cursor, context);
+        } finally {
+            context.parent = previousParent;
+        }
+    }
+
     /**
      * Execute a single workflow step
      */
@@ -112,10 +526,10 @@ class WorkflowEngine {
 
         try {
             // Log step start
-            await this.logStep(context.instanceId, step, 'running');
+            await this.logStep(context, step, 'running');
 
-            // Get executor for step type
-            const executor = this.executors.get(step.type);
+            // Get executor for step type; dry runs stub side-effecting steps
+            const executor = (context.dryRun && dryRunExecutors[step.type]) || this.executors.get(step.type);
             if (!executor) {
                 throw new Error(`No executor found for step type: ${step.type}`);
             }
@@ -123,10 +537,15 @@ class WorkflowEngine {
             // Execute step
             const result = await executor(step, context);
 
+            // Suspended steps are logged as completed when they resume
+            if (isSuspension(result)) {
+                return result;
+            }
+
             // Log step completion
             const executionTime = Date.now() - startTime;
             await this.logStep(
-                context.instanceId,
+                context,
                 step,
                 'completed',
                 step.config,
@@ -135,7 +554,7 @@ class WorkflowEngine {
             );
 
             // Publish step completed event
-            await eventBus.publish({
+            if (!context.dryRun) await eventBus.publish({
                 eventType: 'workflow.step.completed',
                 eventSource: 'workflow_engine',
                 eventData: {
@@ -153,7 +572,7 @@ class WorkflowEngine {
 
             // Log step failure
             await this.logStep(
-                context.instanceId,
+                context,
                 step,
                 'failed',
                 step.config,
@@ -209,10 +628,7 @@ class WorkflowEngine {
         context: WorkflowContext
     ): boolean {
         try {
-            // Simple condition evaluation
-            // In production, use a safe expression evaluator
-            const func = new Function('context', `return ${condition}`);
-            return func(context);
+            return !!evaluate(condition, buildExpressionScope(context));
         } catch (error) {
             console.error('[WorkflowEngine] Condition evaluation failed:', error);
             return false;
@@ -236,23 +652,22 @@ class WorkflowEngine {
     }
 
     /**
-     * Setup event listeners for workflow triggers
+     * Dispatch events to workflows from the workflow_automation subscription
+     * The event consumer delivers them server-side from /api/cron/events;
+     * it is the only path, so nothing runs workflows in the browser
      */
-    private setupEventListeners(): void {
-        // Listen for events that trigger workflows
-        eventBus.subscribe('*', async (event) => {
-            const workflows = await this.getWorkflowsByTrigger(event.eventType);
-
-            for (const workflow of workflows) {
-                await this.executeWorkflow(workflow.id, event.eventData);
-            }
+    private registerEventHandler(): void {
+        eventConsumer.registerHandler('workflow_trigger', async (event) => {
+            await this.dispatchEvent(event.id);
         });
     }
 
     /**
      * Load workflow from database
+     * With a version, the definition is that published version's, so running
+     * instances keep executing the version they started on
      */
-    private async loadWorkflow(workflowId: string): Promise<Workflow> {
+    private async loadWorkflow(workflowId: string, version?: number): Promise<Workflow> {
         const { data, error } = await supabase
             .from('workflows')
             .select('*')
@@ -262,7 +677,27 @@ class WorkflowEngine {
         if (error) throw error;
         if (!data) throw new Error('Workflow not found');
 
-        return data as Workflow;
+        const workflow = mapWorkflow(data);
+        if (version === undefined || version === workflow.version) {
+            return workflow;
+        }
+
+        const { data: versionRow, error: versionError } = await supabase
+            .from('workflow_versions')
+            .select('*')
+            .eq('workflow_id', workflowId)
+            .eq('version', version)
+            .single();
+
+        if (versionError) throw versionError;
+
+        const published = mapWorkflowVersion(versionRow);
+        return {
+            ...workflow,
+            definition: published.definition,
+            triggerConfig: published.triggerConfig,
+            version: published.version
+        };
     }
 
     /**
@@ -281,11 +716,12 @@ class WorkflowEngine {
 
         const { data: instance } = await supabase
             .from('workflow_instances')
-            .select('*')
+            .update({ locked_at: new Date().toISOString(), workflow_version: workflow.version })
             .eq('id', data)
+            .select()
             .single();
 
-        return instance as WorkflowInstance;
+        return mapInstance(instance);
     }
 
     /**
@@ -305,6 +741,92 @@ class WorkflowEngine {
         });
     }
 
+    /**
+     * Persist the execution state so the instance can be resumed
+     * Also refreshes the lock so the cron does not treat it as stale
+     */
+    private async saveState(
+        context: WorkflowContext,
+        state: WorkflowExecutionState
+    ): Promise<void> {
+        if (context.dryRun) return;
+
+        await supabase
+            .from('workflow_instances')
+            .update({ context: state, locked_at: new Date().toISOString() })
+            .eq('id', context.instanceId);
+    }
+
+    /**
+     * Park an instance until it is resumed
+     */
+    private async suspendInstance(
+        instanceId: string,
+        step: WorkflowStep,
+        state: WorkflowExecutionState,
+        suspension: StepSuspension
+    ): Promise<void> {
+        const { error } = await supabase
+            .from('workflow_instances')
+            .update({
+                status: suspension.status || 'waiting',
+                current_step: step.id,
+                context: state,
+                resume_at: suspension.resumeAt?.toISOString() || null,
+                waiting_event: suspension.event?.eventType || null,
+                correlation_key: suspension.event?.correlationKey || null,
+                correlation_value: suspension.event?.correlationValue ?? null,
+                locked_at: null
+            })
+            .eq('id', instanceId);
+
+        if (error) throw error;
+
+        console.log(`[WorkflowEngine] Instance ${instanceId} suspended at ${step.id} (${suspension.reason})`, {
+            resumeAt: suspension.resumeAt
+        });
+    }
+
+    /**
+     * Restore execution state from a persisted instance
+     * Fresh instances only carry their input data in the context column
+     */
+    private restoreState(instance: WorkflowInstance): WorkflowExecutionState {
+        const saved = instance.context as
+            | (Partial<Omit<WorkflowExecutionState, 'cursor'>> & { cursor?: WorkflowCursorFrame[] | number })
+            | undefined;
+
+        if (saved && saved.cursor !== undefined) {
+            // Instances persisted before nested steps stored a flat step index
+            const cursor = typeof saved.cursor === 'number'
+                ? [{ index: saved.cursor }]
+                : saved.cursor;
+
+            return {
+                variables: saved.variables || {},
+                stepResults: saved.stepResults || {},
+                cursor,
+                suspendedStepId: saved.suspendedStepId
+            };
+        }
+
+        return {
+            variables: { ...instance.inputData },
+            stepResults: {},
+            cursor: []
+        };
+    }
+
+    /**
+     * Capture the serializable parts of the execution context
+     */
+    private snapshot(context: WorkflowContext): Omit<WorkflowExecutionState, 'cursor'> {
+        return {
+            variables: context.variables,
+            stepResults: context.stepResults
+        };
+    }
+
     /**
      * Update workflow instance output
      */
@@ -322,7 +844,7 @@ class WorkflowEngine {
      * Log workflow step execution
      */
     private async logStep(
-        instanceId: string,
+        context: WorkflowContext,
         step: WorkflowStep,
         status: string,
         inputData?: any,
@@ -330,8 +852,27 @@ class WorkflowEngine {
         executionTimeMs?: number,
         errorMessage?: string
     ): Promise<void> {
+        if (context.dryRun) {
+            // Dry runs record finished steps in their trace instead
+            if (status !== 'running') {
+                context.dryRun.trace.push({
+                    stepId: step.id,
+                    stepName: step.name || step.id,
+                    stepType: step.type,
+                    status: status as DryRunStepTrace['status'],
+                    parentStepId: context.parent?.stepId,
+                    iteration: context.parent?.iteration,
+                    input: inputData,
+                    output: outputData,
+                    error: errorMessage,
+                    executionTimeMs
+                });
+            }
+            return;
+        }
+
         await supabase.rpc('log_workflow_step', {
-            p_instance_id: instanceId,
+            p_instance_id: context.instanceId,
             p_step_id: step.id,
             p_step_name: step.name || step.id,
             p_step_type: step.type,
@@ -339,21 +880,78 @@ class WorkflowEngine {
             p_input_data: inputData,
             p_output_data: outputData,
             p_error_message: errorMessage,
-            p_execution_time_ms: executionTimeMs
+            p_execution_time_ms: executionTimeMs,
+            p_parent_step_id: context.parent?.stepId,
+            p_iteration: context.parent?.iteration
         });
     }
 
     /**
-     * Get workflows by trigger event
+     * Get workflows whose event trigger (pattern and filters) matches an event
+     * Tenant events only start that tenant's workflows (and global ones);
+     * events without a tenant start nothing
      */
-    private async getWorkflowsByTrigger(eventType: string): Promise<Workflow[]> {
-        const { data } = await supabase
+    private async getWorkflowsByTrigger(event: Event): Promise<Workflow[]> {
+        const tenantId = getEventTenantId(event) ?? event.eventData?.tenantId;
+        if (!tenantId) return [];
+
+        const eventWorkflows = () => supabase
             .from('workflows')
             .select('*')
             .eq('is_active', true)
-            .contains('trigger_config', { type: 'event', event: eventType });
+            .contains('trigger_config', { type: 'event' });
+
+        const [{ data: tenantWorkflows }, { data: globalWorkflows }] = await Promise.all([
+            eventWorkflows().eq('tenant_id', tenantId),
+            eventWorkflows().is('tenant_id', null)
+        ]);
+        const data = [...(tenantWorkflows || []), ...(globalWorkflows || [])];
+
+        return (data || [])
+            .map((row: any) => mapWorkflow(row))
+            .filter((workflow: Workflow) => {
+                const trigger = workflow.triggerConfig;
+                if (!trigger?.event) return false;
+
+                try {
+                    return matchesSubscription(event, {
+                        eventPattern: trigger.event,
+                        filters: normalizeFilters(trigger.filters)
+                    });
+                } catch (error) {
+                    console.error(`[WorkflowEngine] Invalid trigger filter on workflow ${workflow.id}:`, error);
+                    return false;
+                }
+            });
+    }
 
-        return (data || []) as Workflow[];
+    /**
+     * Get waiting instances whose wait step matches an event
+     * Only instances of the event tenant's own workflows are resumed; a global
+     * workflow's instance carries no tenant, so no tenant's event can resume it
+     */
+    private async getInstancesWaitingFor(event: Event): Promise<WorkflowInstance[]> {
+        const tenantId = getEventTenantId(event) ?? event.eventData?.tenantId;
+        if (!tenantId) return [];
+
+        const { data, error } = await supabase
+            .from('workflow_instances')
+            .select('*, workflow:workflow_id!inner (tenant_id)')
+            .eq('status', 'waiting')
+            .eq('waiting_event', event.eventType)
+            .eq('workflow.tenant_id', tenantId);
+
+        if (error) throw error;
+
+        return (data || [])
+            .map((row: any) => mapInstance(row))
+            .filter((instance: WorkflowInstance) => {
+                const key = instance.waitingFor?.correlationKey;
+                if (!key) return true;
+
+                const value = key.split('.').reduce((current: any, part) => current?.[part], event.eventData);
+                return value !== undefined && value !== null && String(value) === instance.waitingFor?.correlationValue;
+            });
     }
 
     /**
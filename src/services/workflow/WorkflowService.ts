@@ -4,25 +4,56 @@
  */
 
 import { supabase } from '../../lib/supabase';
-import { workflowEngine } from './WorkflowEngine';
+import { validateDefinition, formatValidationIssues } from './definition';
+import { workflowApprovalService } from './ApprovalService';
+import { mapWorkflow, mapInstance, mapWorkflowVersion, mapStepLog } from './mappers';
+import { tenantService } from '../tenancy/TenantService';
 import type {
     Workflow,
     WorkflowDefinition,
     WorkflowInstance,
+    WorkflowStepLog,
     WorkflowTemplate,
-    WorkflowStats
+    WorkflowStats,
+    WorkflowValidationIssue,
+    WorkflowApproval,
+    WorkflowStatus,
+    WorkflowVersion,
+    DryRunOptions,
+    DryRunResult
 } from './types';
 
+/**
+ * Call a workflow API route; failures throw with the route's error message
+ */
+async function postWorkflowApi<T>(path: string, body: Record<string, any> = {}): Promise<T> {
+    const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    return data as T;
+}
+
 class WorkflowService {
     /**
      * Create a new workflow
+     * Its definition is published as version 1
      */
     async createWorkflow(data: {
         name: string;
         description?: string;
         definition: WorkflowDefinition;
         isActive?: boolean;
+        createdBy?: string;
     }): Promise<Workflow> {
+        this.assertValidDefinition(data.definition);
+
         const { data: workflow, error } = await supabase
             .from('workflows')
             .insert({
@@ -30,31 +61,191 @@ class WorkflowService {
                 description: data.description,
                 definition: data.definition,
                 trigger_config: data.definition.trigger,
-                is_active: data.isActive ?? true
+                is_active: data.isActive ?? true,
+                tenant_id: tenantService.getCurrentTenantId(),
+                created_by: data.createdBy
             })
             .select()
             .single();
 
         if (error) throw error;
-        return workflow as Workflow;
+
+        await this.publishDefinition(workflow.id, data.definition, {
+            publishedBy: data.createdBy,
+            changeNote: 'Initial version'
+        });
+
+        return this.requireWorkflow(workflow.id);
     }
 
     /**
      * Update workflow
+     * A new definition is published as a new version; running instances stay on theirs
      */
     async updateWorkflow(
         workflowId: string,
-        updates: Partial<Workflow>
+        updates: Partial<Pick<Workflow, 'name' | 'description' | 'isActive' | 'definition'>>
     ): Promise<Workflow> {
-        const { data, error } = await supabase
+        const updateData: Record<string, any> = {};
+        if (updates.name !== undefined) updateData.name = updates.name;
+        if (updates.description !== undefined) updateData.description = updates.description;
+        if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+
+        if (Object.keys(updateData).length > 0) {
+            const { error } = await supabase
+                .from('workflows')
+                .update({ ...updateData, updated_at: new Date().toISOString() })
+                .eq('id', workflowId);
+
+            if (error) throw error;
+        }
+
+        if (updates.definition) {
+            this.assertValidDefinition(updates.definition);
+            await this.publishDefinition(workflowId, updates.definition);
+        }
+
+        return this.requireWorkflow(workflowId);
+    }
+
+    /**
+     * Save builder changes as the workflow's draft
+     * Drafts may be incomplete; the returned issues are shown in the builder
+     */
+    async saveDraft(workflowId: string, definition: WorkflowDefinition): Promise<WorkflowValidationIssue[]> {
+        const { error } = await supabase
             .from('workflows')
-            .update(updates)
-            .eq('id', workflowId)
-            .select()
-            .single();
+            .update({ draft_definition: definition, updated_at: new Date().toISOString() })
+            .eq('id', workflowId);
+
+        if (error) throw error;
+        return validateDefinition(definition);
+    }
+
+    /**
+     * Throw away the workflow's unpublished draft
+     */
+    async discardDraft(workflowId: string): Promise<void> {
+        const { error } = await supabase
+            .from('workflows')
+            .update({ draft_definition: null })
+            .eq('id', workflowId);
 
         if (error) throw error;
-        return data as Workflow;
+    }
+
+    /**
+     * Publish the workflow's draft as a new immutable version
+     */
+    async publishDraft(
+        workflowId: string,
+        options: { publishedBy?: string; changeNote?: string } = {}
+    ): Promise<WorkflowVersion> {
+        const workflow = await this.requireWorkflow(workflowId);
+        if (!workflow.draftDefinition) {
+            throw new Error('There are no unpublished changes');
+        }
+
+        this.assertValidDefinition(workflow.draftDefinition);
+        return this.publishDefinition(workflowId, workflow.draftDefinition, options);
+    }
+
+    /**
+     * List the published versions of a workflow, newest first
+     */
+    async listVersions(workflowId: string): Promise<WorkflowVersion[]> {
+        const { data, error } = await supabase
+            .from('workflow_versions')
+            .select('*')
+            .eq('workflow_id', workflowId)
+            .order('version', { ascending: false });
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapWorkflowVersion(row));
+    }
+
+    /**
+     * Get a published version of a workflow
+     */
+    async getVersion(workflowId: string, version: number): Promise<WorkflowVersion | null> {
+        const { data } = await supabase
+            .from('workflow_versions')
+            .select('*')
+            .eq('workflow_id', workflowId)
+            .eq('version', version)
+            .maybeSingle();
+
+        return data ? mapWorkflowVersion(data) : null;
+    }
+
+    /**
+     * Run a definition against sample input with side-effecting steps stubbed
+     * The engine runs on the server, behind /api/workflows/dry-run
+     */
+    async dryRun(
+        definition: WorkflowDefinition,
+        inputData: Record<string, any> = {},
+        options: DryRunOptions = {}
+    ): Promise<DryRunResult> {
+        this.assertValidDefinition(definition);
+
+        const { result } = await postWorkflowApi<{ result: DryRunResult }>('/api/workflows/dry-run', {
+            tenantId: tenantService.getCurrentTenantId(),
+            definition,
+            inputData,
+            options
+        });
+        return result;
+    }
+
+    /**
+     * Publish a definition as the workflow's next version
+     */
+    private async publishDefinition(
+        workflowId: string,
+        definition: WorkflowDefinition,
+        options: { publishedBy?: string; changeNote?: string } = {}
+    ): Promise<WorkflowVersion> {
+        const { data: version, error } = await supabase.rpc('publish_workflow_version', {
+            p_workflow_id: workflowId,
+            p_definition: definition,
+            p_change_note: options.changeNote || null,
+            p_published_by: options.publishedBy || null
+        });
+
+        if (error) throw error;
+
+        const published = await this.getVersion(workflowId, version);
+        if (!published) throw new Error(`Published version ${version} not found`);
+
+        return published;
+    }
+
+    /**
+     * Load a workflow, throwing if it does not exist
+     */
+    private async requireWorkflow(workflowId: string): Promise<Workflow> {
+        const workflow = await this.getWorkflow(workflowId);
+        if (!workflow) throw new Error('Workflow not found');
+        return workflow;
+    }
+
+    /**
+     * Validate a workflow definition without saving it
+     * Used by the builder to show expression errors with their positions
+     */
+    validateDefinition(definition: WorkflowDefinition): WorkflowValidationIssue[] {
+        return validateDefinition(definition);
+    }
+
+    /**
+     * Throw if a definition has validation issues
+     */
+    private assertValidDefinition(definition: WorkflowDefinition): void {
+        const issues = validateDefinition(definition);
+        if (issues.length > 0) {
+            throw new Error(`Invalid workflow definition: ${formatValidationIssues(issues)}`);
+        }
     }
 
     /**
@@ -80,7 +271,7 @@ class WorkflowService {
             .single();
 
         if (error) return null;
-        return data as Workflow;
+        return mapWorkflow(data);
     }
 
     /**
@@ -100,17 +291,7 @@ class WorkflowService {
         }
 
         const { data } = await query.order('created_at', { ascending: false });
-        return (data || []) as Workflow[];
-    }
-
-    /**
-     * Execute workflow
-     */
-    async executeWorkflow(
-        workflowId: string,
-        inputData?: Record<string, any>
-    ): Promise<WorkflowInstance> {
-        return workflowEngine.executeWorkflow(workflowId, inputData);
+        return (data || []).map((row: any) => mapWorkflow(row));
     }
 
     /**
@@ -123,7 +304,7 @@ class WorkflowService {
             .eq('id', instanceId)
             .single();
 
-        return data as WorkflowInstance | null;
+        return data ? mapInstance(data) : null;
     }
 
     /**
@@ -140,7 +321,31 @@ class WorkflowService {
         }
 
         const { data } = await query;
-        return (data || []) as WorkflowInstance[];
+        return (data || []).map((row: any) => mapInstance(row));
+    }
+
+    /**
+     * List the step logs of an instance in the order they were written
+     */
+    async listStepLogs(instanceId: string): Promise<WorkflowStepLog[]> {
+        const { data, error } = await supabase
+            .from('workflow_steps')
+            .select('*')
+            .eq('instance_id', instanceId)
+            .order('created_at', { ascending: true });
+
+        if (error) throw error;
+        return (data || []).map((row: any) => mapStepLog(row));
+    }
+
+    /**
+     * Retry a failed instance from the step that failed
+     */
+    async retryInstance(instanceId: string): Promise<WorkflowStatus> {
+        const { status } = await postWorkflowApi<{ status: WorkflowStatus }>(
+            `/api/workflows/instances/${instanceId}/retry`
+        );
+        return status;
     }
 
     /**
@@ -153,6 +358,13 @@ class WorkflowService {
             .eq('id', instanceId);
     }
 
+    /**
+     * List approval requests waiting on a user
+     */
+    async listPendingApprovals(userId: string): Promise<WorkflowApproval[]> {
+        return workflowApprovalService.listPendingForUser(userId);
+    }
+
     /**
      * Get workflow templates
      */
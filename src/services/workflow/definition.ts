@@ -0,0 +1,160 @@
+/**
+ * Workflow Definition Helpers
+ * Navigation and validation of nested step trees (condition/approval branches, loop bodies)
+ */
+
+import type {
+    WorkflowStep,
+    WorkflowDefinition,
+    WorkflowValidationIssue,
+    ConditionStepConfig,
+    LoopStepConfig,
+    ApprovalStepConfig
+} from './types';
+import { validateExpression } from './expressions';
+import { validateStepConfig } from './schemas';
+
+/**
+ * Get the child step sequences of a step, keyed by branch name
+ */
+export function getChildSequences(step: WorkflowStep): Record<string, WorkflowStep[]> {
+    if (step.type === 'condition') {
+        const config = step.config as ConditionStepConfig;
+        return {
+            then: config.thenSteps || [],
+            else: config.elseSteps || []
+        };
+    }
+
+    if (step.type === 'loop') {
+        const config = step.config as LoopStepConfig;
+        return { body: config.steps || [] };
+    }
+
+    if (step.type === 'approval') {
+        const config = step.config as ApprovalStepConfig;
+        return {
+            approved: config.approvedSteps || [],
+            rejected: config.rejectedSteps || [],
+            timed_out: config.timedOutSteps || []
+        };
+    }
+
+    return {};
+}
+
+/**
+ * Return a copy of a step with one of its child sequences replaced
+ * Counterpart of getChildSequences, used by the builder to edit branches
+ */
+export function withChildSequence(step: WorkflowStep, branch: string, steps: WorkflowStep[]): WorkflowStep {
+    const keys: Partial<Record<WorkflowStep['type'], Record<string, string>>> = {
+        condition: { then: 'thenSteps', else: 'elseSteps' },
+        loop: { body: 'steps' },
+        approval: { approved: 'approvedSteps', rejected: 'rejectedSteps', timed_out: 'timedOutSteps' }
+    };
+
+    const key = keys[step.type]?.[branch];
+    if (!key) {
+        throw new Error(`A ${step.type} step has no '${branch}' branch`);
+    }
+
+    return { ...step, config: { ...step.config, [key]: steps } };
+}
+
+/**
+ * Visit every step in a definition tree, depth-first
+ */
+export function walkSteps(
+    steps: WorkflowStep[],
+    visit: (step: WorkflowStep, parents: WorkflowStep[]) => void,
+    parents: WorkflowStep[] = []
+): void {
+    for (const step of steps) {
+        visit(step, parents);
+
+        for (const children of Object.values(getChildSequences(step))) {
+            walkSteps(children, visit, [...parents, step]);
+        }
+    }
+}
+
+/**
+ * Find step ids used more than once anywhere in the tree
+ * Step results are keyed by id, so ids must be unique across branches
+ */
+export function findDuplicateStepIds(steps: WorkflowStep[]): string[] {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+
+    walkSteps(steps, (step) => {
+        if (seen.has(step.id)) duplicates.add(step.id);
+        seen.add(step.id);
+    });
+
+    return Array.from(duplicates);
+}
+
+/**
+ * Validate a definition before it is saved
+ * Checks step ids, parses every condition/transformation expression and
+ * checks the config of service-backed steps against their schemas
+ */
+export function validateDefinition(definition: WorkflowDefinition): WorkflowValidationIssue[] {
+    const issues: WorkflowValidationIssue[] = [];
+
+    if (!Array.isArray(definition?.steps)) {
+        return [{ field: 'steps', message: 'Workflow definition must contain a steps array' }];
+    }
+
+    for (const stepId of findDuplicateStepIds(definition.steps)) {
+        issues.push({ stepId, field: 'id', message: `Duplicate step id '${stepId}'` });
+    }
+
+    const checkExpression = (step: WorkflowStep, field: string, expression: unknown, required: boolean) => {
+        if (expression === undefined || expression === null || expression === '') {
+            if (required) issues.push({ stepId: step.id, field, message: `${field} is required` });
+            return;
+        }
+        if (typeof expression !== 'string') {
+            issues.push({ stepId: step.id, field, message: `${field} must be an expression string` });
+            return;
+        }
+
+        const error = validateExpression(expression);
+        if (error) {
+            issues.push({ stepId: step.id, field, message: error.message, position: error.position });
+        }
+    };
+
+    walkSteps(definition.steps, (step) => {
+        if (!step.id) {
+            issues.push({ field: 'id', message: `A ${step.type} step is missing its id` });
+        }
+
+        checkExpression(step, 'condition', step.condition, false);
+
+        if (step.type === 'condition') {
+            checkExpression(step, 'config.condition', step.config?.condition, true);
+        }
+        if (step.type === 'transform') {
+            checkExpression(step, 'config.transformation', step.config?.transformation, true);
+        }
+        if (step.type === 'approval' && !(step.config?.approvers?.length > 0)) {
+            issues.push({ stepId: step.id, field: 'config.approvers', message: 'At least one approver is required' });
+        }
+
+        issues.push(...validateStepConfig(step));
+    });
+
+    return issues;
+}
+
+/**
+ * Format validation issues into a single error message
+ */
+export function formatValidationIssues(issues: WorkflowValidationIssue[]): string {
+    return issues
+        .map(issue => issue.stepId ? `Step '${issue.stepId}' ${issue.field}: ${issue.message}` : `${issue.field}: ${issue.message}`)
+        .join('; ');
+}
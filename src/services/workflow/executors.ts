@@ -3,116 +3,235 @@
  * Implementations for each workflow step type
  */
 
-import type { WorkflowStep, WorkflowContext, StepExecutor } from './types';
+import type { WorkflowStep, WorkflowContext, StepExecutor, ApprovalStepConfig, WaitStepConfig } from './types';
 import { eventBusHelpers } from '../eventBus';
 import { generateText } from '../unifiedAIService';
+import { suspendStep, isResuming } from './suspension';
+import { evaluate, buildExpressionScope } from './expressions';
+import { workflowApprovalService } from './ApprovalService';
+import {
+    emailStepConfigSchema,
+    meetingStepConfigSchema,
+    notificationStepConfigSchema,
+    actionParamSchemas,
+    parseStepConfig,
+    type WorkflowActionName,
+    type ActionParams
+} from './schemas';
+import { emailProviderService } from '../EmailProviderService';
+import { emailTemplates } from '../emailTemplates';
+import { projectService } from '../projectService';
+import { taskService } from '../taskService';
+import { businessInvoiceService } from '../businessInvoiceService';
+import { meetingAdapterService } from '../meetingAdapterService';
+import { notificationService } from '../dashboardService';
 
 /**
  * Email Step Executor
- * Sends emails using configured templates
+ * Sends emails through the email provider, rendering a named template or the body
  */
 const emailExecutor: StepExecutor = async (step, context) => {
-    const { template, to, subject, body } = step.config;
+    const config = parseStepConfig(emailStepConfigSchema, resolveValue(step.config, context), 'email');
 
-    console.log(`[EmailExecutor] Sending email to ${to} using template ${template}`);
+    let html = config.body || '';
+    if (config.template) {
+        const render = (emailTemplates as Record<string, (data: any) => string>)[config.template];
+        if (!render) {
+            throw new Error(`Unknown email template: ${config.template}`);
+        }
+        html = render(config.data || {});
+    }
 
-    // TODO: Integrate with email service (Resend, SendGrid, etc.)
-    // For now, just log
-    const emailData = {
-        to: replaceVariables(to, context),
-        subject: replaceVariables(subject || 'Notification', context),
-        body: replaceVariables(body || '', context),
-        template
-    };
+    console.log(`[EmailExecutor] Sending email to ${config.to}`);
 
-    // Simulate email sending
-    await new Promise(resolve => setTimeout(resolve, 100));
+    const { success, error } = await emailProviderService.sendEmail({
+        to: config.to,
+        subject: config.subject,
+        html,
+        fromName: config.fromName,
+        replyTo: config.replyTo
+    });
 
-    return { sent: true, ...emailData };
+    if (!success) {
+        throw new Error(`Email failed: ${error}`);
+    }
+
+    return { sent: true, to: config.to, subject: config.subject, template: config.template };
 };
 
 /**
  * Action Step Executor
- * Executes custom actions
+ * Executes business actions against the instance tenant's data; the tenant is
+ * passed to each service rather than taken from the current session
  */
-const actionExecutor: StepExecutor = async (step, context) => {
-    const { action, params } = step.config;
+type ActionHandlers = {
+    [A in WorkflowActionName]: (params: ActionParams<A>, context: WorkflowContext) => Promise<Record<string, any>>;
+};
+
+const actions: ActionHandlers = {
+    createProject: async (params, context) => {
+        const { project, error } = await projectService.createProject({ ...params, progress: 0 }, requireTenant(context));
+        if (!project) throw new Error(error || 'Project was not created');
+
+        return { projectId: project.id, name: project.name };
+    },
+    createTask: async (params, context) => {
+        const { createdBy, ...taskData } = params;
+        const { task, error } = await taskService.createTask(createdBy, taskData, requireTenant(context));
+        if (!task) throw new Error(error || 'Task was not created');
+
+        return { taskId: task.id, title: task.title };
+    },
+    generateInvoice: async (params, context) => {
+        const lineItems = params.lineItems.map(item => ({
+            ...item,
+            amount: Math.round(item.quantity * item.rate * 100) / 100
+        }));
+        const totals = businessInvoiceService.calculateTotals(lineItems, params.taxRate, params.discountAmount);
+
+        const { invoice, error } = await businessInvoiceService.createInvoice(requireTenant(context), {
+            clientId: params.clientId,
+            projectId: params.projectId,
+            dueDate: params.dueDate,
+            notes: params.notes,
+            lineItems,
+            taxRate: params.taxRate,
+            discountAmount: params.discountAmount,
+            ...totals,
+            status: 'draft'
+        });
+        if (!invoice) throw new Error(error || 'Invoice was not created');
 
-    console.log(`[ActionExecutor] Executing action: ${action}`);
-
-    // Map of available actions
-    const actions: Record<string, Function> = {
-        createProject: async (params: any) => {
-            console.log('Creating project:', params);
-            return { projectId: 'proj_' + Date.now() };
-        },
-        createTask: async (params: any) => {
-            console.log('Creating task:', params);
-            return { taskId: 'task_' + Date.now() };
-        },
-        generateInvoice: async (params: any) => {
-            console.log('Generating invoice:', params);
-            return { invoiceId: 'inv_' + Date.now() };
-        },
-        archiveProject: async (params: any) => {
-            console.log('Archiving project:', params);
-            return { archived: true };
-        },
-        activateClientServices: async (params: any) => {
-            console.log('Activating client services:', params);
-            return { activated: true };
+        // Sending goes through updateInvoice so the invoice is posted to the GL
+        if (params.status === 'sent') {
+            const { error: sendError } = await businessInvoiceService.updateInvoice(invoice.id, { status: 'sent' });
+            if (sendError) throw new Error(`Invoice ${invoice.invoiceNumber} created but not sent: ${sendError}`);
         }
-    };
 
-    const actionFn = actions[action];
-    if (!actionFn) {
-        throw new Error(`Unknown action: ${action}`);
+        return {
+            invoiceId: invoice.id,
+            invoiceNumber: invoice.invoiceNumber,
+            total: invoice.total,
+            status: params.status
+        };
+    },
+    archiveProject: async (params, context) => {
+        const { error } = await projectService.updateProject(params.projectId, { status: 'Completed' }, requireTenant(context));
+        if (error) throw new Error(error);
+
+        return { projectId: params.projectId, archived: true };
     }
+};
+
+const actionExecutor: StepExecutor = async (step, context) => {
+    console.log(`[ActionExecutor] Executing action: ${step.config.action}`);
 
-    const processedParams = replaceVariables(params, context);
-    return await actionFn(processedParams);
+    return runAction(step, context, actions);
 };
 
+/**
+ * Validate an action step's params and run its handler
+ */
+async function runAction(step: WorkflowStep, context: WorkflowContext, handlers: ActionHandlers): Promise<Record<string, any>> {
+    const { action, params } = step.config;
+
+    const schema = actionParamSchemas[action as WorkflowActionName];
+    if (!schema) {
+        throw new Error(`Unknown action: ${action}`);
+    }
+
+    const parsed = parseStepConfig(schema, resolveValue(params || {}, context), `${action} action`);
+    const handler = handlers[action as WorkflowActionName] as (
+        params: unknown,
+        context: WorkflowContext
+    ) => Promise<Record<string, any>>;
+
+    return handler(parsed, context);
+}
+
 /**
  * Meeting Step Executor
- * Schedules meetings
+ * Creates a meeting room and returns its AlphaClone link
  */
 const meetingExecutor: StepExecutor = async (step, context) => {
-    const { duration, participants, title } = step.config;
+    const config = parseStepConfig(meetingStepConfigSchema, resolveValue(step.config, context), 'meeting');
 
-    console.log(`[MeetingExecutor] Scheduling meeting: ${title}`);
+    console.log(`[MeetingExecutor] Scheduling meeting: ${config.title}`);
 
-    // TODO: Integrate with Daily.co or calendar service
-    const meetingData = {
-        title: replaceVariables(title || 'Meeting', context),
-        duration: duration || 60,
-        participants: replaceVariables(participants, context),
-        scheduledFor: new Date(Date.now() + 24 * 60 * 60 * 1000) // Tomorrow
-    };
+    const { meeting, error } = await meetingAdapterService.createMeeting({ ...config, tenantId: context.tenantId });
+    if (!meeting) {
+        throw new Error(`Meeting creation failed: ${error}`);
+    }
 
-    return { meetingId: 'meet_' + Date.now(), ...meetingData };
+    return {
+        meetingId: meeting.meetingId,
+        meetingUrl: meeting.meetingUrl,
+        title: meeting.title,
+        durationMinutes: meeting.durationMinutes,
+        expiresAt: meeting.expiresAt
+    };
 };
 
 /**
  * Wait Step Executor
  * Waits for time or event
+ *
+ * Durations never block the process: the instance is parked with a wake-up
+ * time and resumed by /api/cron/workflows once it has elapsed. Event waits
+ * park the instance until a matching event is published; the timeout is the
+ * wake-up time, so a resume without an event payload means it timed out.
  */
 const waitExecutor: StepExecutor = async (step, context) => {
-    const { duration, event, timeout } = step.config;
+    const { duration, event, correlationKey, correlationValue, timeout, onTimeout } = step.config as WaitStepConfig;
 
     if (duration) {
-        // Wait for specific duration
+        if (isResuming(step, context)) {
+            return { waited: duration, resumedAt: context.resume!.resumedAt };
+        }
+
+        // Schedule a wake-up instead of sleeping
         const ms = parseDuration(duration);
-        console.log(`[WaitExecutor] Waiting for ${duration} (${ms}ms)`);
-        await new Promise(resolve => setTimeout(resolve, ms));
-        return { waited: duration };
+        const resumeAt = new Date(Date.now() + ms);
+        console.log(`[WaitExecutor] Waiting for ${duration} (until ${resumeAt.toISOString()})`);
+        return suspendStep('wait', { resumeAt, output: { waitingFor: duration } });
     }
 
     if (event) {
-        // Wait for specific event
-        console.log(`[WaitExecutor] Waiting for event: ${event}`);
-        // TODO: Implement event waiting with timeout
-        return { waitedForEvent: event };
+        if (isResuming(step, context)) {
+            const received = context.resume!.payload?.event;
+
+            if (!received) {
+                if (onTimeout === 'fail') {
+                    throw new Error(`Timed out after ${timeout} waiting for event ${event}`);
+                }
+                return { waitedForEvent: event, timedOut: true, resumedAt: context.resume!.resumedAt };
+            }
+
+            return {
+                waitedForEvent: event,
+                timedOut: false,
+                eventId: received.id,
+                eventData: received.eventData
+            };
+        }
+
+        let expected: string | undefined;
+        if (correlationKey) {
+            expected = resolveValue(correlationValue ?? `{{${correlationKey}}}`, context);
+            if (expected === undefined || expected === null || expected === '') {
+                throw new Error(`Correlation value for ${correlationKey} is empty`);
+            }
+            expected = String(expected);
+        }
+
+        const resumeAt = timeout ? new Date(Date.now() + parseDuration(timeout)) : undefined;
+        console.log(`[WaitExecutor] Waiting for event: ${event}`, { correlationKey, expected, resumeAt });
+
+        return suspendStep('event', {
+            resumeAt,
+            event: { eventType: event, correlationKey, correlationValue: expected },
+            output: { waitingFor: event, correlationKey, correlationValue: expected }
+        });
     }
 
     return { waited: 0 };
@@ -121,9 +240,12 @@ const waitExecutor: StepExecutor = async (step, context) => {
 /**
  * Condition Step Executor
  * Conditional branching
+ *
+ * Only evaluates the condition; the engine runs thenSteps/elseSteps
+ * for the branch returned here.
  */
 const conditionExecutor: StepExecutor = async (step, context) => {
-    const { condition, thenSteps, elseSteps } = step.config;
+    const { condition } = step.config;
 
     console.log(`[ConditionExecutor] Evaluating condition: ${condition}`);
 
@@ -131,7 +253,7 @@ const conditionExecutor: StepExecutor = async (step, context) => {
     const result = evaluateExpression(condition, context);
 
     return {
-        conditionMet: result,
+        conditionMet: !!result,
         branch: result ? 'then' : 'else'
     };
 };
@@ -139,20 +261,21 @@ const conditionExecutor: StepExecutor = async (step, context) => {
 /**
  * Loop Step Executor
  * Iterate over data
+ *
+ * Resolves the items to iterate; the engine runs the loop body once per
+ * item with the item bound in context.variables.
  */
 const loopExecutor: StepExecutor = async (step, context) => {
-    const { items, steps } = step.config;
+    const { items } = step.config;
 
-    const itemsArray = replaceVariables(items, context);
-    console.log(`[LoopExecutor] Looping over ${itemsArray.length} items`);
-
-    const results = [];
-    for (const item of itemsArray) {
-        // Execute steps for each item
-        results.push({ item, processed: true });
+    const itemsArray = resolveValue(items, context);
+    if (!Array.isArray(itemsArray)) {
+        throw new Error(`Loop items must resolve to an array: ${JSON.stringify(items)}`);
     }
 
-    return { iterations: results.length, results };
+    console.log(`[LoopExecutor] Looping over ${itemsArray.length} items`);
+
+    return { items: itemsArray, iterations: itemsArray.length };
 };
 
 /**
@@ -259,40 +382,123 @@ const webhookExecutor: StepExecutor = async (step, context) => {
 
 /**
  * Notification Step Executor
- * Send notifications
+ * Send in-app notifications
  */
 const notificationExecutor: StepExecutor = async (step, context) => {
-    const { title, message, userId, type } = step.config;
-
-    console.log(`[NotificationExecutor] Sending notification: ${title}`);
+    const config = parseStepConfig(notificationStepConfigSchema, resolveValue(step.config, context), 'notification');
+
+    console.log(`[NotificationExecutor] Sending notification: ${config.title}`);
+
+    const { notification, error } = await notificationService.createNotification({
+        user_id: config.userId,
+        tenant_id: context.tenantId,
+        type: config.type,
+        title: config.title,
+        message: config.message,
+        link: config.link,
+        read: false,
+        metadata: {
+            workflowId: context.workflowId,
+            instanceId: context.instanceId,
+            tenantId: context.tenantId
+        }
+    });
 
-    // TODO: Integrate with notification service
-    const notificationData = {
-        title: replaceVariables(title, context),
-        message: replaceVariables(message, context),
-        userId: replaceVariables(userId, context),
-        type: type || 'info'
-    };
+    if (error || !notification) {
+        throw new Error(`Notification failed: ${error?.message || 'not created'}`);
+    }
 
-    return { sent: true, ...notificationData };
+    return { sent: true, notificationId: notification.id, userId: config.userId };
 };
 
 /**
  * Approval Step Executor
  * Wait for manual approval
+ *
+ * Raises an approval request and parks the instance in 'paused' until an
+ * approver decides. The instance is also woken at the escalation time and
+ * the deadline so escalation and timeouts run from the workflow cron.
  */
 const approvalExecutor: StepExecutor = async (step, context) => {
-    const { approvers, message } = step.config;
+    const config = step.config as ApprovalStepConfig;
+
+    if (isResuming(step, context)) {
+        let approval = await workflowApprovalService.getLatestForStep(context.instanceId, step.id);
+        if (!approval) {
+            throw new Error(`Approval request for step ${step.id} not found`);
+        }
+
+        const now = new Date();
+
+        if (approval.status === 'pending' && approval.deadline && approval.deadline <= now) {
+            approval = await workflowApprovalService.expire(approval.id);
+        }
+
+        if (approval.status === 'pending') {
+            if (approval.escalateAt && approval.escalateAt <= now && !approval.escalatedAt) {
+                console.log(`[ApprovalExecutor] Escalating approval ${approval.id}`);
+                approval = await workflowApprovalService.escalate(approval);
+            }
+
+            // Still undecided: park again until the deadline (if any)
+            return suspendStep('approval', {
+                status: 'paused',
+                resumeAt: approval.deadline,
+                output: { approvalId: approval.id }
+            });
+        }
+
+        const branch = approval.status === 'timed_out'
+            ? config.onTimeout || 'timed_out'
+            : approval.status;
+
+        return {
+            approvalId: approval.id,
+            decision: approval.status,
+            approved: branch === 'approved',
+            branch,
+            decidedBy: approval.decidedBy,
+            decidedAt: approval.decidedAt,
+            comment: approval.comment
+        };
+    }
+
+    const approvers: string[] = replaceVariables(config.approvers || [], context);
+    if (approvers.length === 0) {
+        throw new Error('Approval step requires at least one approver');
+    }
 
     console.log(`[ApprovalExecutor] Requesting approval from: ${approvers}`);
 
-    // TODO: Implement approval workflow
-    // For now, auto-approve
-    return {
-        approved: true,
-        approvedBy: approvers[0],
-        approvedAt: new Date()
-    };
+    const now = Date.now();
+    const deadline = config.deadline ? new Date(now + parseDuration(config.deadline)) : undefined;
+    const escalateAt = config.escalation?.after
+        ? new Date(now + parseDuration(config.escalation.after))
+        : undefined;
+
+    const approval = await workflowApprovalService.requestApproval({
+        instanceId: context.instanceId,
+        stepId: step.id,
+        tenantId: context.tenantId,
+        approvers,
+        title: replaceVariables(config.title || `Approval required: ${step.name || step.id}`, context),
+        message: replaceVariables(config.message, context),
+        deadline,
+        escalateAt,
+        escalationApprovers: replaceVariables(config.escalation?.approvers || [], context)
+    });
+
+    // Wake up at whichever comes first: escalation or deadline
+    const wakeTimes = [escalateAt, deadline].filter((date): date is Date => !!date);
+    const resumeAt = wakeTimes.length
+        ? new Date(Math.min(...wakeTimes.map(date => date.getTime())))
+        : undefined;
+
+    return suspendStep('approval', {
+        status: 'paused',
+        resumeAt,
+        output: { approvalId: approval.id }
+    });
 };
 
 /**
@@ -310,6 +516,100 @@ const transformExecutor: StepExecutor = async (step, context) => {
     return { transformed: result };
 };
 
+// ============================================
+// Dry-Run Stubs
+// ============================================
+
+const dryRunActions: ActionHandlers = {
+    createProject: async (params) => ({ projectId: 'dry-run-project', name: params.name }),
+    createTask: async (params) => ({ taskId: 'dry-run-task', title: params.title }),
+    generateInvoice: async (params) => {
+        const lineItems = params.lineItems.map(item => ({
+            ...item,
+            amount: Math.round(item.quantity * item.rate * 100) / 100
+        }));
+        const { total } = businessInvoiceService.calculateTotals(lineItems, params.taxRate, params.discountAmount);
+        return { invoiceId: 'dry-run-invoice', invoiceNumber: 'DRY-RUN', total, status: params.status };
+    },
+    archiveProject: async (params) => ({ projectId: params.projectId, archived: true })
+};
+
+/**
+ * Stubs for steps with side effects, used by dry runs
+ * They resolve and validate config like the real executors but send,
+ * create and wait for nothing
+ */
+export const dryRunExecutors: Record<string, StepExecutor> = {
+    email: async (step, context) => {
+        const config = parseStepConfig(emailStepConfigSchema, resolveValue(step.config, context), 'email');
+        return { sent: true, dryRun: true, to: config.to, subject: config.subject, template: config.template };
+    },
+    action: async (step, context) => {
+        return { ...(await runAction(step, context, dryRunActions)), dryRun: true };
+    },
+    meeting: async (step, context) => {
+        const config = parseStepConfig(meetingStepConfigSchema, resolveValue(step.config, context), 'meeting');
+        return {
+            meetingId: 'dry-run-meeting',
+            meetingUrl: '/meet/dry-run',
+            title: config.title,
+            durationMinutes: config.durationMinutes ?? 40,
+            dryRun: true
+        };
+    },
+    notification: async (step, context) => {
+        const config = parseStepConfig(notificationStepConfigSchema, resolveValue(step.config, context), 'notification');
+        return { sent: true, dryRun: true, userId: config.userId, title: config.title };
+    },
+    webhook: async (step, context) => {
+        const { url, method } = step.config;
+        return { status: 200, data: null, url: replaceVariables(url, context), method: method || 'POST', dryRun: true };
+    },
+    approval: async (step, context) => {
+        const config = step.config as ApprovalStepConfig;
+        const decision = context.dryRun?.options.approvalDecision || 'approved';
+        const branch = decision === 'timed_out' ? config.onTimeout || 'timed_out' : decision;
+
+        return {
+            approvalId: 'dry-run-approval',
+            approvers: replaceVariables(config.approvers || [], context),
+            decision,
+            approved: branch === 'approved',
+            branch,
+            dryRun: true
+        };
+    },
+    wait: async (step, context) => {
+        const { duration, event, timeout, onTimeout } = step.config as WaitStepConfig;
+
+        if (duration) {
+            parseDuration(duration);
+            return { waited: duration, dryRun: true };
+        }
+
+        if (event) {
+            if (timeout) parseDuration(timeout);
+
+            if (context.dryRun?.options.eventOutcome === 'timed_out') {
+                if (onTimeout === 'fail') {
+                    throw new Error(`Timed out after ${timeout} waiting for event ${event}`);
+                }
+                return { waitedForEvent: event, timedOut: true, dryRun: true };
+            }
+
+            return {
+                waitedForEvent: event,
+                timedOut: false,
+                eventId: 'dry-run-event',
+                eventData: context.dryRun?.options.eventData || {},
+                dryRun: true
+            };
+        }
+
+        return { waited: 0 };
+    }
+};
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -339,6 +639,44 @@ function replaceVariables(value: any, context: WorkflowContext): any {
     return value;
 }
 
+/**
+ * Resolve a config value, keeping the raw value for a lone {{path}} reference
+ * (replaceVariables would stringify arrays and objects)
+ */
+function resolveValue(value: any, context: WorkflowContext): any {
+    if (typeof value === 'string') {
+        const reference = value.trim().match(/^\{\{([^}]+)\}\}$/);
+        if (reference) {
+            return getNestedValue(context.variables, reference[1].trim());
+        }
+        return replaceVariables(value, context);
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(item => resolveValue(item, context));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        const result: any = {};
+        for (const [key, val] of Object.entries(value)) {
+            result[key] = resolveValue(val, context);
+        }
+        return result;
+    }
+
+    return value;
+}
+
+/**
+ * Get the instance's tenant for a tenant-scoped service call
+ */
+function requireTenant(context: WorkflowContext): string {
+    if (!context.tenantId) {
+        throw new Error('Workflow has no tenant; tenant-scoped actions cannot run');
+    }
+    return context.tenantId;
+}
+
 /**
  * Get nested value from object
  */
@@ -368,13 +706,11 @@ function parseDuration(duration: string): number {
 }
 
 /**
- * Evaluate expression safely
+ * Evaluate expression with the sandboxed workflow expression language
  */
 function evaluateExpression(expression: string, context: WorkflowContext): any {
     try {
-        // Simple evaluation - in production, use a safe expression evaluator
-        const func = new Function('context', `return ${expression}`);
-        return func(context);
+        return evaluate(expression, buildExpressionScope(context));
     } catch (error) {
         console.error('[Executor] Expression evaluation failed:', error);
         return false;
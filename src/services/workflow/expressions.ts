@@ -0,0 +1,635 @@
+/**
+ * Workflow Expression Language
+ * Small sandboxed language for step conditions and transformations
+ *
+ * Supports literals, property paths (lead.email, items[0].amount),
+ * arithmetic, comparisons, boolean logic (&&, ||, !, and, or, not),
+ * the ternary operator, array/object literals and a whitelisted function
+ * library. Expressions are interpreted, never compiled to JavaScript, so
+ * tenant-authored strings cannot reach globals, prototypes or methods.
+ */
+
+import type { WorkflowContext } from './types';
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_CACHED_EXPRESSIONS = 500;
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+export type ExpressionNode =
+    | { type: 'literal'; value: any; position: number }
+    | { type: 'identifier'; name: string; position: number }
+    | { type: 'member'; object: ExpressionNode; property: ExpressionNode; position: number }
+    | { type: 'call'; callee: string; args: ExpressionNode[]; position: number }
+    | { type: 'unary'; operator: string; argument: ExpressionNode; position: number }
+    | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode; position: number }
+    | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+    | { type: 'array'; elements: ExpressionNode[]; position: number }
+    | { type: 'object'; properties: Array<{ key: string; value: ExpressionNode }>; position: number };
+
+export interface ExpressionValidationError {
+    message: string;
+    position: number;
+}
+
+/**
+ * Raised for syntax errors and invalid evaluation; position is a 0-based
+ * offset into the expression source
+ */
+export class ExpressionError extends Error {
+    position: number;
+
+    constructor(message: string, position: number) {
+        super(`${message} at position ${position}`);
+        this.name = 'ExpressionError';
+        this.position = position;
+    }
+}
+
+// ============================================
+// Function Library
+// ============================================
+
+interface ExpressionFunction {
+    minArgs: number;
+    maxArgs: number;
+    fn: (...args: any[]) => any;
+}
+
+function toDate(value: any): Date | null {
+    if (value === null || value === undefined || value === '') return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function toNumbers(args: any[]): number[] {
+    const values = args.length === 1 && Array.isArray(args[0]) ? args[0] : args;
+    return values.map(Number);
+}
+
+const FUNCTIONS: Record<string, ExpressionFunction> = {
+    len: {
+        minArgs: 1, maxArgs: 1, fn: (value) => {
+            if (typeof value === 'string' || Array.isArray(value)) return value.length;
+            if (value && typeof value === 'object') return Object.keys(value).length;
+            return 0;
+        }
+    },
+    lower: { minArgs: 1, maxArgs: 1, fn: (value) => String(value ?? '').toLowerCase() },
+    upper: { minArgs: 1, maxArgs: 1, fn: (value) => String(value ?? '').toUpperCase() },
+    trim: { minArgs: 1, maxArgs: 1, fn: (value) => String(value ?? '').trim() },
+    contains: {
+        minArgs: 2, maxArgs: 2, fn: (haystack, needle) => {
+            if (Array.isArray(haystack)) return haystack.includes(needle);
+            return String(haystack ?? '').includes(String(needle));
+        }
+    },
+    startsWith: { minArgs: 2, maxArgs: 2, fn: (value, prefix) => String(value ?? '').startsWith(String(prefix)) },
+    endsWith: { minArgs: 2, maxArgs: 2, fn: (value, suffix) => String(value ?? '').endsWith(String(suffix)) },
+    join: {
+        minArgs: 1, maxArgs: 2, fn: (values, separator = ', ') =>
+            Array.isArray(values) ? values.join(String(separator)) : String(values ?? '')
+    },
+    number: { minArgs: 1, maxArgs: 1, fn: (value) => Number(value) },
+    string: { minArgs: 1, maxArgs: 1, fn: (value) => String(value ?? '') },
+    round: {
+        minArgs: 1, maxArgs: 2, fn: (value, digits = 0) => {
+            const factor = Math.pow(10, Number(digits));
+            return Math.round(Number(value) * factor) / factor;
+        }
+    },
+    floor: { minArgs: 1, maxArgs: 1, fn: (value) => Math.floor(Number(value)) },
+    ceil: { minArgs: 1, maxArgs: 1, fn: (value) => Math.ceil(Number(value)) },
+    abs: { minArgs: 1, maxArgs: 1, fn: (value) => Math.abs(Number(value)) },
+    min: { minArgs: 1, maxArgs: Infinity, fn: (...args) => Math.min(...toNumbers(args)) },
+    max: { minArgs: 1, maxArgs: Infinity, fn: (...args) => Math.max(...toNumbers(args)) },
+    sum: { minArgs: 1, maxArgs: Infinity, fn: (...args) => toNumbers(args).reduce((total, n) => total + n, 0) },
+    avg: {
+        minArgs: 1, maxArgs: Infinity, fn: (...args) => {
+            const values = toNumbers(args);
+            return values.length ? values.reduce((total, n) => total + n, 0) / values.length : 0;
+        }
+    },
+    coalesce: { minArgs: 1, maxArgs: Infinity, fn: (...args) => args.find(arg => arg !== null && arg !== undefined) ?? null },
+    isEmpty: {
+        minArgs: 1, maxArgs: 1, fn: (value) => {
+            if (value === null || value === undefined || value === '') return true;
+            if (Array.isArray(value)) return value.length === 0;
+            if (typeof value === 'object') return Object.keys(value).length === 0;
+            return false;
+        }
+    },
+    now: { minArgs: 0, maxArgs: 0, fn: () => new Date().toISOString() },
+    daysSince: {
+        minArgs: 1, maxArgs: 1, fn: (value) => {
+            const date = toDate(value);
+            return date ? Math.floor((Date.now() - date.getTime()) / DAY_MS) : null;
+        }
+    },
+    daysUntil: {
+        minArgs: 1, maxArgs: 1, fn: (value) => {
+            const date = toDate(value);
+            return date ? Math.ceil((date.getTime() - Date.now()) / DAY_MS) : null;
+        }
+    }
+};
+
+/**
+ * Names of the functions available to expressions
+ */
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS);
+
+// ============================================
+// Tokenizer
+// ============================================
+
+interface Token {
+    type: 'number' | 'string' | 'identifier' | 'operator' | 'eof';
+    value: string;
+    position: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '.', ',', '(', ')', '[', ']', '{', '}'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+        const char = source[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        if (/[0-9]/.test(char)) {
+            const match = source.slice(i).match(/^\d+(\.\d+)?/)!;
+            tokens.push({ type: 'number', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (/[A-Za-z_$]/.test(char)) {
+            const match = source.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*/)!;
+            tokens.push({ type: 'identifier', value: match[0], position: i });
+            i += match[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === '\'') {
+            const start = i;
+            let value = '';
+            i++;
+            while (i < source.length && source[i] !== char) {
+                if (source[i] === '\\' && i + 1 < source.length) {
+                    const escaped = source[i + 1];
+                    value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+                    i += 2;
+                } else {
+                    value += source[i++];
+                }
+            }
+            if (i >= source.length) {
+                throw new ExpressionError('Unterminated string', start);
+            }
+            i++;
+            tokens.push({ type: 'string', value, position: start });
+            continue;
+        }
+
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (!operator) {
+            throw new ExpressionError(`Unexpected character '${char}'`, i);
+        }
+        tokens.push({ type: 'operator', value: operator, position: i });
+        i += operator.length;
+    }
+
+    tokens.push({ type: 'eof', value: '', position: source.length });
+    return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+class Parser {
+    private tokens: Token[];
+    private index = 0;
+
+    constructor(source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parse(): ExpressionNode {
+        const node = this.parseExpression();
+        const token = this.peek();
+        if (token.type !== 'eof') {
+            throw new ExpressionError(`Unexpected token '${token.value}'`, token.position);
+        }
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isOperator(...values: string[]): boolean {
+        const token = this.peek();
+        return token.type === 'operator' && values.includes(token.value);
+    }
+
+    private isKeyword(...values: string[]): boolean {
+        const token = this.peek();
+        return token.type === 'identifier' && values.includes(token.value);
+    }
+
+    private expect(value: string): Token {
+        const token = this.next();
+        if (token.type !== 'operator' || token.value !== value) {
+            const found = token.type === 'eof' ? 'end of expression' : `'${token.value}'`;
+            throw new ExpressionError(`Expected '${value}' but found ${found}`, token.position);
+        }
+        return token;
+    }
+
+    private parseExpression(): ExpressionNode {
+        const test = this.parseOr();
+
+        if (this.isOperator('?')) {
+            const { position } = this.next();
+            const consequent = this.parseExpression();
+            this.expect(':');
+            const alternate = this.parseExpression();
+            return { type: 'conditional', test, consequent, alternate, position };
+        }
+
+        return test;
+    }
+
+    private parseOr(): ExpressionNode {
+        let left = this.parseAnd();
+        while (this.isOperator('||') || this.isKeyword('or')) {
+            const { position } = this.next();
+            left = { type: 'binary', operator: '||', left, right: this.parseAnd(), position };
+        }
+        return left;
+    }
+
+    private parseAnd(): ExpressionNode {
+        let left = this.parseEquality();
+        while (this.isOperator('&&') || this.isKeyword('and')) {
+            const { position } = this.next();
+            left = { type: 'binary', operator: '&&', left, right: this.parseEquality(), position };
+        }
+        return left;
+    }
+
+    private parseEquality(): ExpressionNode {
+        let left = this.parseComparison();
+        while (this.isOperator('==', '!=', '===', '!==')) {
+            const { value, position } = this.next();
+            // == and === are both strict; the short forms are accepted for convenience
+            const operator = value.startsWith('!') ? '!=' : '==';
+            left = { type: 'binary', operator, left, right: this.parseComparison(), position };
+        }
+        return left;
+    }
+
+    private parseComparison(): ExpressionNode {
+        let left = this.parseAdditive();
+        while (this.isOperator('<', '<=', '>', '>=')) {
+            const { value, position } = this.next();
+            left = { type: 'binary', operator: value, left, right: this.parseAdditive(), position };
+        }
+        return left;
+    }
+
+    private parseAdditive(): ExpressionNode {
+        let left = this.parseMultiplicative();
+        while (this.isOperator('+', '-')) {
+            const { value, position } = this.next();
+            left = { type: 'binary', operator: value, left, right: this.parseMultiplicative(), position };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): ExpressionNode {
+        let left = this.parseUnary();
+        while (this.isOperator('*', '/', '%')) {
+            const { value, position } = this.next();
+            left = { type: 'binary', operator: value, left, right: this.parseUnary(), position };
+        }
+        return left;
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.isOperator('!', '-') || this.isKeyword('not')) {
+            const { value, position } = this.next();
+            const operator = value === 'not' ? '!' : value;
+            return { type: 'unary', operator, argument: this.parseUnary(), position };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): ExpressionNode {
+        let node = this.parsePrimary();
+
+        while (true) {
+            if (this.isOperator('.')) {
+                this.next();
+                const token = this.next();
+                if (token.type !== 'identifier') {
+                    throw new ExpressionError('Expected property name after \'.\'', token.position);
+                }
+                assertAllowedProperty(token.value, token.position);
+                node = {
+                    type: 'member',
+                    object: node,
+                    property: { type: 'literal', value: token.value, position: token.position },
+                    position: token.position
+                };
+            } else if (this.isOperator('[')) {
+                const { position } = this.next();
+                const property = this.parseExpression();
+                this.expect(']');
+                node = { type: 'member', object: node, property, position };
+            } else if (this.isOperator('(')) {
+                const { position } = this.peek();
+                if (node.type !== 'identifier') {
+                    throw new ExpressionError('Only library functions can be called', position);
+                }
+                this.next();
+                node = { type: 'call', callee: node.name, args: this.parseList(')'), position: node.position };
+                validateCall(node.callee, node.args.length, node.position);
+            } else {
+                return node;
+            }
+        }
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number':
+                return { type: 'literal', value: parseFloat(token.value), position: token.position };
+            case 'string':
+                return { type: 'literal', value: token.value, position: token.position };
+            case 'identifier':
+                if (token.value === 'true') return { type: 'literal', value: true, position: token.position };
+                if (token.value === 'false') return { type: 'literal', value: false, position: token.position };
+                if (token.value === 'null') return { type: 'literal', value: null, position: token.position };
+                if (['and', 'or', 'not'].includes(token.value)) {
+                    throw new ExpressionError(`Unexpected keyword '${token.value}'`, token.position);
+                }
+                assertAllowedProperty(token.value, token.position);
+                return { type: 'identifier', name: token.value, position: token.position };
+            case 'operator':
+                if (token.value === '(') {
+                    const node = this.parseExpression();
+                    this.expect(')');
+                    return node;
+                }
+                if (token.value === '[') {
+                    return { type: 'array', elements: this.parseList(']'), position: token.position };
+                }
+                if (token.value === '{') {
+                    return this.parseObject(token.position);
+                }
+                throw new ExpressionError(`Unexpected token '${token.value}'`, token.position);
+            default:
+                throw new ExpressionError('Unexpected end of expression', token.position);
+        }
+    }
+
+    private parseList(closing: string): ExpressionNode[] {
+        const items: ExpressionNode[] = [];
+        if (this.isOperator(closing)) {
+            this.next();
+            return items;
+        }
+
+        do {
+            items.push(this.parseExpression());
+        } while (this.isOperator(',') && this.next());
+
+        this.expect(closing);
+        return items;
+    }
+
+    private parseObject(position: number): ExpressionNode {
+        const properties: Array<{ key: string; value: ExpressionNode }> = [];
+
+        if (!this.isOperator('}')) {
+            do {
+                const token = this.next();
+                if (token.type !== 'identifier' && token.type !== 'string') {
+                    throw new ExpressionError('Expected property name', token.position);
+                }
+                assertAllowedProperty(token.value, token.position);
+                this.expect(':');
+                properties.push({ key: token.value, value: this.parseExpression() });
+            } while (this.isOperator(',') && this.next());
+        }
+
+        this.expect('}');
+        return { type: 'object', properties, position };
+    }
+}
+
+function assertAllowedProperty(name: string, position: number): void {
+    if (BLOCKED_PROPERTIES.has(name)) {
+        throw new ExpressionError(`Access to '${name}' is not allowed`, position);
+    }
+}
+
+function validateCall(name: string, argCount: number, position: number): void {
+    const fn = FUNCTIONS[name];
+    if (!fn) {
+        throw new ExpressionError(`Unknown function '${name}'`, position);
+    }
+    if (argCount < fn.minArgs || argCount > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs
+            ? `${fn.minArgs}`
+            : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs}-${fn.maxArgs}`;
+        throw new ExpressionError(`Function '${name}' expects ${expected} argument(s), got ${argCount}`, position);
+    }
+}
+
+// ============================================
+// Evaluator
+// ============================================
+
+function readProperty(target: any, key: any, position: number): any {
+    if (target === null || target === undefined) return undefined;
+
+    const name = String(key);
+    if (BLOCKED_PROPERTIES.has(name)) {
+        throw new ExpressionError(`Access to '${name}' is not allowed`, position);
+    }
+
+    if (typeof target === 'string' || Array.isArray(target)) {
+        if (name === 'length') return target.length;
+        return /^\d+$/.test(name) ? target[Number(name)] : undefined;
+    }
+
+    if (typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, name)) {
+        return target[name];
+    }
+
+    return undefined;
+}
+
+function evaluateNode(node: ExpressionNode, scope: Record<string, any>): any {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'identifier':
+            return readProperty(scope, node.name, node.position);
+        case 'member':
+            return readProperty(
+                evaluateNode(node.object, scope),
+                evaluateNode(node.property, scope),
+                node.position
+            );
+        case 'call':
+            return FUNCTIONS[node.callee].fn(...node.args.map(arg => evaluateNode(arg, scope)));
+        case 'unary': {
+            const value = evaluateNode(node.argument, scope);
+            return node.operator === '!' ? !value : -Number(value);
+        }
+        case 'conditional':
+            return evaluateNode(node.test, scope)
+                ? evaluateNode(node.consequent, scope)
+                : evaluateNode(node.alternate, scope);
+        case 'array':
+            return node.elements.map(element => evaluateNode(element, scope));
+        case 'object': {
+            const result: Record<string, any> = {};
+            for (const { key, value } of node.properties) {
+                result[key] = evaluateNode(value, scope);
+            }
+            return result;
+        }
+        case 'binary':
+            return evaluateBinary(node.operator, node.left, node.right, scope);
+    }
+}
+
+function evaluateBinary(
+    operator: string,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    scope: Record<string, any>
+): any {
+    // Short-circuit boolean logic
+    if (operator === '&&') {
+        const left = evaluateNode(leftNode, scope);
+        return left ? evaluateNode(rightNode, scope) : left;
+    }
+    if (operator === '||') {
+        const left = evaluateNode(leftNode, scope);
+        return left ? left : evaluateNode(rightNode, scope);
+    }
+
+    const left = evaluateNode(leftNode, scope);
+    const right = evaluateNode(rightNode, scope);
+
+    switch (operator) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '+':
+            return typeof left === 'string' || typeof right === 'string'
+                ? `${left ?? ''}${right ?? ''}`
+                : Number(left) + Number(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+        default: return undefined;
+    }
+}
+
+// ============================================
+// Public API
+// ============================================
+
+const parseCache = new Map<string, ExpressionNode>();
+
+/**
+ * Parse an expression, throwing ExpressionError on invalid syntax,
+ * unknown functions or wrong argument counts
+ */
+export function parseExpression(source: string): ExpressionNode {
+    const cached = parseCache.get(source);
+    if (cached) return cached;
+
+    if (typeof source !== 'string' || source.trim() === '') {
+        throw new ExpressionError('Expression is empty', 0);
+    }
+    if (source.length > MAX_EXPRESSION_LENGTH) {
+        throw new ExpressionError(`Expression exceeds ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+    }
+
+    const node = new Parser(source).parse();
+    if (parseCache.size >= MAX_CACHED_EXPRESSIONS) {
+        parseCache.clear();
+    }
+    parseCache.set(source, node);
+    return node;
+}
+
+/**
+ * Validate an expression without evaluating it
+ * Returns null when the expression is valid
+ */
+export function validateExpression(source: string): ExpressionValidationError | null {
+    try {
+        parseExpression(source);
+        return null;
+    } catch (error: any) {
+        if (error instanceof ExpressionError) {
+            return { message: error.message, position: error.position };
+        }
+        return { message: error.message || 'Invalid expression', position: 0 };
+    }
+}
+
+/**
+ * Evaluate an expression against a scope of variables
+ */
+export function evaluate(source: string, scope: Record<string, any>): any {
+    return evaluateNode(parseExpression(source), scope);
+}
+
+/**
+ * Build the scope workflow expressions run against
+ * Variables are available at the top level (lead.email) as well as under
+ * variables/stepResults/context for definitions written against the old
+ * evaluator (context.variables.lead.email)
+ */
+export function buildExpressionScope(context: WorkflowContext): Record<string, any> {
+    return {
+        ...context.variables,
+        variables: context.variables,
+        stepResults: context.stepResults,
+        context: {
+            variables: context.variables,
+            stepResults: context.stepResults
+        }
+    };
+}
@@ -2,7 +2,19 @@
  * Workflow - Main Export
  */
 
-export { workflowEngine } from './WorkflowEngine';
 export { workflowService } from './WorkflowService';
-export { stepExecutors } from './executors';
+export { workflowApprovalService } from './ApprovalService';
+export { suspendStep, isSuspension, isResuming } from './suspension';
+export { getChildSequences, withChildSequence, walkSteps, findDuplicateStepIds, validateDefinition } from './definition';
+export { parseExpression, validateExpression, evaluate, ExpressionError, EXPRESSION_FUNCTIONS } from './expressions';
+export {
+    emailStepConfigSchema,
+    meetingStepConfigSchema,
+    notificationStepConfigSchema,
+    waitStepConfigSchema,
+    actionParamSchemas,
+    stepConfigSchemas,
+    validateStepConfig
+} from './schemas';
+export type { WorkflowActionName, EmailStepConfig, MeetingStepConfig, NotificationStepConfig, ActionParams } from './schemas';
 export * from './types';
@@ -0,0 +1,95 @@
+/**
+ * Workflow Row Mappers
+ * Convert snake_case database rows into workflow types
+ */
+
+import type { Workflow, WorkflowInstance, WorkflowStepLog, WorkflowVersion } from './types';
+
+/**
+ * Map a workflows row to a Workflow
+ */
+export function mapWorkflow(row: any): Workflow {
+    return {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        definition: row.definition,
+        triggerConfig: row.trigger_config,
+        isActive: row.is_active,
+        isTemplate: row.is_template,
+        version: row.version,
+        draftDefinition: row.draft_definition || undefined,
+        tenantId: row.tenant_id,
+        createdBy: row.created_by,
+        createdAt: new Date(row.created_at),
+        updatedAt: new Date(row.updated_at)
+    };
+}
+
+/**
+ * Map a workflow_versions row to a WorkflowVersion
+ */
+export function mapWorkflowVersion(row: any): WorkflowVersion {
+    return {
+        id: row.id,
+        workflowId: row.workflow_id,
+        version: row.version,
+        definition: row.definition,
+        triggerConfig: row.trigger_config,
+        changeNote: row.change_note,
+        publishedBy: row.published_by,
+        publishedAt: new Date(row.published_at)
+    };
+}
+
+/**
+ * Map a workflow_instances row to a WorkflowInstance
+ */
+export function mapInstance(row: any): WorkflowInstance {
+    return {
+        id: row.id,
+        workflowId: row.workflow_id,
+        workflowVersion: row.workflow_version ?? undefined,
+        status: row.status,
+        currentStep: row.current_step,
+        context: row.context || {},
+        inputData: row.input_data || {},
+        outputData: row.output_data,
+        startedAt: new Date(row.started_at),
+        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+        errorMessage: row.error_message,
+        retryCount: row.retry_count || 0,
+        resumeAt: row.resume_at ? new Date(row.resume_at) : undefined,
+        waitingFor: row.waiting_event
+            ? {
+                eventType: row.waiting_event,
+                correlationKey: row.correlation_key || undefined,
+                correlationValue: row.correlation_value ?? undefined
+            }
+            : undefined
+    };
+}
+
+/**
+ * Map a workflow_steps row to a WorkflowStepLog
+ */
+export function mapStepLog(row: any): WorkflowStepLog {
+    return {
+        id: row.id,
+        instanceId: row.instance_id,
+        stepId: row.step_id,
+        stepName: row.step_name,
+        stepType: row.step_type,
+        inputData: row.input_data ?? undefined,
+        outputData: row.output_data ?? undefined,
+        status: row.status,
+        startedAt: row.started_at ? new Date(row.started_at) : undefined,
+        completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+        executionTimeMs: row.execution_time_ms ?? undefined,
+        errorMessage: row.error_message || undefined,
+        retryCount: row.retry_count || 0,
+        parentStepId: row.parent_step_id || undefined,
+        iteration: row.iteration ?? undefined,
+        createdAt: new Date(row.created_at)
+    };
+}
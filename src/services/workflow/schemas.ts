@@ -0,0 +1,194 @@
+/**
+ * Workflow Step Config Schemas
+ * Typed config for service-backed and wait steps, shared by the builder UI
+ * (save-time validation) and the executors (run-time parsing)
+ */
+
+import { z } from 'zod';
+import type { WorkflowStep, WorkflowValidationIssue } from './types';
+
+// ============================================
+// Step Configs
+// ============================================
+
+export const emailStepConfigSchema = z.object({
+    to: z.string().email('Invalid recipient email'),
+    subject: z.string().min(1, 'Subject is required'),
+    body: z.string().optional(),
+    template: z.string().optional(),
+    data: z.record(z.string(), z.any()).optional(),
+    fromName: z.string().optional(),
+    replyTo: z.string().email('Invalid reply-to email').optional()
+}).refine(config => !!config.body || !!config.template, {
+    message: 'Either body or template is required',
+    path: ['body']
+});
+
+export const meetingStepConfigSchema = z.object({
+    title: z.string().min(1, 'Title is required'),
+    hostId: z.string().min(1, 'Host is required'),
+    durationMinutes: z.coerce.number().int().positive().max(40, 'Meetings are limited to 40 minutes').optional(),
+    maxParticipants: z.coerce.number().int().positive().optional(),
+    participants: z.array(z.string()).optional()
+});
+
+export const notificationStepConfigSchema = z.object({
+    userId: z.string().min(1, 'Recipient is required'),
+    title: z.string().min(1, 'Title is required'),
+    message: z.string().optional(),
+    type: z.enum(['message', 'project', 'payment', 'system', 'alert']).default('system'),
+    link: z.string().optional()
+});
+
+const durationSchema = z.string().regex(/^\d+(ms|s|m|h|d)$/, 'Duration must look like 30s, 15m, 2h or 3d');
+
+export const waitStepConfigSchema = z.object({
+    duration: durationSchema.optional(),
+    event: z.string().min(1).optional(),
+    correlationKey: z.string().min(1).optional(),
+    correlationValue: z.string().optional(),
+    timeout: durationSchema.optional(),
+    onTimeout: z.enum(['continue', 'fail']).optional()
+}).refine(config => !!config.duration !== !!config.event, {
+    message: 'Wait for either a duration or an event',
+    path: ['duration']
+});
+
+// ============================================
+// Action Params
+// ============================================
+
+const createProjectParamsSchema = z.object({
+    name: z.string().min(1, 'Project name is required'),
+    ownerId: z.string().min(1, 'Owner is required'),
+    ownerName: z.string().optional(),
+    category: z.string().default('General'),
+    description: z.string().optional(),
+    clientId: z.string().optional(),
+    status: z.enum(['Active', 'Pending']).default('Pending'),
+    currentStage: z.enum(['Discovery', 'Design', 'Development', 'Testing', 'Deployment', 'Maintenance']).default('Discovery'),
+    startDate: z.string().optional(),
+    dueDate: z.string().optional(),
+    team: z.array(z.string()).default([])
+});
+
+const createTaskParamsSchema = z.object({
+    title: z.string().min(1, 'Task title is required'),
+    createdBy: z.string().min(1, 'Creator is required'),
+    description: z.string().optional(),
+    assignedTo: z.string().optional(),
+    relatedToContact: z.string().optional(),
+    relatedToProject: z.string().optional(),
+    relatedToDeal: z.string().optional(),
+    relatedToLead: z.string().optional(),
+    priority: z.enum(['low', 'medium', 'high', 'urgent']).optional(),
+    dueDate: z.string().optional()
+});
+
+const generateInvoiceParamsSchema = z.object({
+    clientId: z.string().optional(),
+    projectId: z.string().optional(),
+    lineItems: z.array(z.object({
+        description: z.string().min(1, 'Line item description is required'),
+        quantity: z.coerce.number().positive(),
+        rate: z.coerce.number().nonnegative()
+    })).min(1, 'At least one line item is required'),
+    taxRate: z.coerce.number().min(0).max(100).default(0),
+    discountAmount: z.coerce.number().nonnegative().default(0),
+    dueDate: z.string().optional(),
+    notes: z.string().optional(),
+    status: z.enum(['draft', 'sent']).default('draft')
+});
+
+const archiveProjectParamsSchema = z.object({
+    projectId: z.string().min(1, 'Project is required')
+});
+
+export const actionParamSchemas = {
+    createProject: createProjectParamsSchema,
+    createTask: createTaskParamsSchema,
+    generateInvoice: generateInvoiceParamsSchema,
+    archiveProject: archiveProjectParamsSchema
+};
+
+export type WorkflowActionName = keyof typeof actionParamSchemas;
+export type EmailStepConfig = z.infer<typeof emailStepConfigSchema>;
+export type MeetingStepConfig = z.infer<typeof meetingStepConfigSchema>;
+export type NotificationStepConfig = z.infer<typeof notificationStepConfigSchema>;
+export type ActionParams<A extends WorkflowActionName> = z.infer<typeof actionParamSchemas[A]>;
+
+export const stepConfigSchemas: Partial<Record<WorkflowStep['type'], z.ZodType>> = {
+    email: emailStepConfigSchema,
+    meeting: meetingStepConfigSchema,
+    wait: waitStepConfigSchema,
+    notification: notificationStepConfigSchema
+};
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check if a value is (or contains) a {{variable}} reference
+ * Such values are only known at run time, so save-time validation skips them
+ */
+function isTemplated(value: unknown): boolean {
+    return typeof value === 'string' && /\{\{[^}]+\}\}/.test(value);
+}
+
+function getAtPath(value: any, path: PropertyKey[]): unknown {
+    return path.reduce((current, key) => current?.[key as any], value);
+}
+
+/**
+ * Validate the config of a step against its schema before it is saved
+ */
+export function validateStepConfig(step: WorkflowStep): WorkflowValidationIssue[] {
+    if (step.type === 'action') {
+        const action = step.config?.action;
+        const schema = actionParamSchemas[action as WorkflowActionName];
+
+        if (!schema) {
+            return [{ stepId: step.id, field: 'config.action', message: `Unknown action '${action ?? ''}'` }];
+        }
+
+        return collectIssues(step, schema, step.config?.params || {}, 'config.params');
+    }
+
+    const schema = stepConfigSchemas[step.type];
+    return schema ? collectIssues(step, schema, step.config || {}, 'config') : [];
+}
+
+function collectIssues(
+    step: WorkflowStep,
+    schema: z.ZodType,
+    value: unknown,
+    prefix: string
+): WorkflowValidationIssue[] {
+    const result = schema.safeParse(value);
+    if (result.success) return [];
+
+    return result.error.issues
+        .filter(issue => !isTemplated(getAtPath(value, issue.path)))
+        .map(issue => ({
+            stepId: step.id,
+            field: [prefix, ...issue.path.map(String)].join('.'),
+            message: issue.message
+        }));
+}
+
+/**
+ * Parse a config once its variables have been resolved, throwing on invalid values
+ */
+export function parseStepConfig<T extends z.ZodType>(schema: T, value: unknown, label: string): z.infer<T> {
+    const result = schema.safeParse(value);
+
+    if (!result.success) {
+        const details = result.error.issues
+            .map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+            .join('; ');
+        throw new Error(`Invalid ${label} config: ${details}`);
+    }
+
+    return result.data;
+}
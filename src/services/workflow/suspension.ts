@@ -0,0 +1,37 @@
+/**
+ * Workflow Suspension Helpers
+ * Lets executors park an instance and be resumed later by the workflow cron
+ */
+
+import type { StepSuspension, WorkflowContext, WorkflowStep } from './types';
+
+/**
+ * Build a suspension result for an executor to return
+ */
+export function suspendStep(
+    reason: string,
+    options: Omit<StepSuspension, 'suspended' | 'reason'> = {}
+): StepSuspension {
+    return {
+        suspended: true,
+        reason,
+        status: options.status || 'waiting',
+        resumeAt: options.resumeAt,
+        output: options.output,
+        event: options.event
+    };
+}
+
+/**
+ * Check whether an executor result is a suspension
+ */
+export function isSuspension(result: any): result is StepSuspension {
+    return !!result && typeof result === 'object' && result.suspended === true;
+}
+
+/**
+ * Check whether the step is being re-entered after its suspension ended
+ */
+export function isResuming(step: WorkflowStep, context: WorkflowContext): boolean {
+    return context.resume?.stepId === step.id;
+}
@@ -3,8 +3,10 @@
  * Type definitions for the workflow automation system
  */
 
+import type { SubscriptionFilter } from '../eventBus/types';
+
 // Workflow status types
-export type WorkflowStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+export type WorkflowStatus = 'pending' | 'running' | 'waiting' | 'paused' | 'completed' | 'failed' | 'cancelled';
 export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
 
 // Step types
@@ -33,7 +35,8 @@ export interface WorkflowDefinition {
 // Workflow Trigger
 export interface WorkflowTrigger {
     type: 'event' | 'schedule' | 'manual' | 'webhook';
-    event?: string;
+    event?: string;                         // Event type or pattern, e.g. 'invoice.*'
+    filters?: Array<SubscriptionFilter | string>;   // e.g. 'eventData.amount > 1000'
     schedule?: string;
     config?: Record<string, any>;
 }
@@ -52,6 +55,70 @@ export interface WorkflowStep {
     };
 }
 
+// Condition step config: branches are nested step trees
+export interface ConditionStepConfig {
+    condition: string;
+    thenSteps?: WorkflowStep[];
+    elseSteps?: WorkflowStep[];
+}
+
+// Loop step config: the body runs once per item
+export interface LoopStepConfig {
+    items: string | any[];
+    steps: WorkflowStep[];
+    itemVariable?: string;      // Defaults to 'item'
+    indexVariable?: string;     // Defaults to 'index'
+}
+
+// Wait step config: waits for a duration, or for an event until the timeout
+export interface WaitStepConfig {
+    duration?: string;                  // e.g. '3d'
+    event?: string;                     // Event type to wait for, e.g. 'contract.signed'
+    correlationKey?: string;            // Event data path that must match, e.g. 'clientId'
+    correlationValue?: string;          // Value to match (default '{{<correlationKey>}}')
+    timeout?: string;                   // Duration after which to stop waiting, e.g. '7d'
+    onTimeout?: 'continue' | 'fail';    // Default 'continue' with timedOut in the step result
+}
+
+// Approval step config: the decision selects one of the nested branches
+export interface ApprovalStepConfig {
+    approvers: string[];                // User ids, may use {{variables}}
+    title?: string;
+    message?: string;
+    deadline?: string;                  // Duration until the request times out, e.g. '3d'
+    escalation?: {
+        after: string;                  // Duration after which to escalate, e.g. '1d'
+        approvers: string[];            // Users added to the request on escalation
+    };
+    onTimeout?: ApprovalDecision;       // Branch taken when the deadline passes (default 'timed_out')
+    approvedSteps?: WorkflowStep[];
+    rejectedSteps?: WorkflowStep[];
+    timedOutSteps?: WorkflowStep[];
+}
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'timed_out';
+export type ApprovalDecision = Exclude<ApprovalStatus, 'pending'>;
+
+// Approval request raised by an approval step
+export interface WorkflowApproval {
+    id: string;
+    instanceId: string;
+    stepId: string;
+    tenantId?: string;
+    approvers: string[];
+    title: string;
+    message?: string;
+    status: ApprovalStatus;
+    deadline?: Date;
+    escalateAt?: Date;
+    escalationApprovers: string[];
+    escalatedAt?: Date;
+    decidedBy?: string;
+    decidedAt?: Date;
+    comment?: string;
+    createdAt: Date;
+}
+
 // Workflow
 export interface Workflow {
     id: string;
@@ -61,16 +128,31 @@ export interface Workflow {
     triggerConfig?: WorkflowTrigger;
     isActive: boolean;
     isTemplate: boolean;
-    version: number;
+    version: number;                // Latest published version
+    draftDefinition?: WorkflowDefinition;   // Unpublished builder changes
+    tenantId?: string;
     createdBy?: string;
     createdAt: Date;
     updatedAt: Date;
 }
 
+// Published workflow version; immutable once created
+export interface WorkflowVersion {
+    id: string;
+    workflowId: string;
+    version: number;
+    definition: WorkflowDefinition;
+    triggerConfig?: WorkflowTrigger;
+    changeNote?: string;
+    publishedBy?: string;
+    publishedAt: Date;
+}
+
 // Workflow Instance
 export interface WorkflowInstance {
     id: string;
     workflowId: string;
+    workflowVersion?: number;       // Version the instance started on and keeps running
     status: WorkflowStatus;
     currentStep?: string;
     context: Record<string, any>;
@@ -80,6 +162,51 @@ export interface WorkflowInstance {
     completedAt?: Date;
     errorMessage?: string;
     retryCount: number;
+    resumeAt?: Date;
+    waitingFor?: EventWait;
+}
+
+// Position within one step sequence of the definition tree
+// cursor[0] points into definition.steps, cursor[n + 1] into the children
+// of the condition/loop step that cursor[n] points at
+export interface WorkflowCursorFrame {
+    index: number;                  // Index of the step in its sequence
+    branch?: string;                // Branch taken by a condition/approval step
+    iteration?: number;             // Current iteration of a loop step
+    items?: any[];                  // Items a loop step iterates over
+}
+
+// Persisted execution state (stored in workflow_instances.context)
+export interface WorkflowExecutionState {
+    variables: Record<string, any>;
+    stepResults: Record<string, any>;
+    cursor: WorkflowCursorFrame[];
+    suspendedStepId?: string;       // Step that suspended the instance, if any
+}
+
+// Step Suspension
+// Returned by an executor to park the instance instead of blocking
+export interface StepSuspension {
+    suspended: true;
+    reason: string;
+    resumeAt?: Date;
+    status?: Extract<WorkflowStatus, 'waiting' | 'paused'>;
+    output?: Record<string, any>;
+    event?: EventWait;              // Event that resumes the instance before resumeAt
+}
+
+// Event a suspended instance is waiting for
+export interface EventWait {
+    eventType: string;
+    correlationKey?: string;
+    correlationValue?: string;
+}
+
+// Resume information passed to the step that suspended the instance
+export interface WorkflowResume {
+    stepId: string;
+    resumedAt: Date;
+    payload?: Record<string, any>;
 }
 
 // Workflow Step Log
@@ -96,7 +223,10 @@ export interface WorkflowStepLog {
     completedAt?: Date;
     executionTimeMs?: number;
     errorMessage?: string;
-    retryCount: number;
+    retryCount: number;             // Instance retry the step ran in (0 for the first run)
+    parentStepId?: string;          // Condition/loop step this step ran under
+    iteration?: number;             // Loop iteration this step ran in
+    createdAt: Date;
 }
 
 // Workflow Template
@@ -128,15 +258,64 @@ export interface WorkflowSchedule {
 export interface WorkflowContext {
     instanceId: string;
     workflowId: string;
+    tenantId?: string;
+    variables: Record<string, any>;
+    stepResults: Record<string, any>;
+    resume?: WorkflowResume;
+    parent?: {                      // Innermost condition/loop being executed
+        stepId: string;
+        branch?: string;
+        iteration?: number;
+    };
+    dryRun?: {                      // Set when running a dry run: nothing is persisted
+        options: DryRunOptions;
+        trace: DryRunStepTrace[];
+    };
+}
+
+// Dry-run options: how stubbed approval and event waits resolve
+export interface DryRunOptions {
+    approvalDecision?: ApprovalDecision;    // Default 'approved'
+    eventOutcome?: 'received' | 'timed_out';    // Default 'received'
+    eventData?: Record<string, any>;        // Data of the event a wait step receives
+    tenantId?: string;
+}
+
+// Step executed during a dry run
+export interface DryRunStepTrace {
+    stepId: string;
+    stepName: string;
+    stepType: StepType;
+    status: 'completed' | 'failed' | 'skipped';
+    parentStepId?: string;
+    iteration?: number;
+    input?: any;
+    output?: any;
+    error?: string;
+    executionTimeMs?: number;
+}
+
+export interface DryRunResult {
+    status: 'completed' | 'failed';
+    steps: DryRunStepTrace[];
     variables: Record<string, any>;
     stepResults: Record<string, any>;
+    error?: string;
 }
 
 // Step Executor Function
 export type StepExecutor = (
     step: WorkflowStep,
     context: WorkflowContext
-) => Promise<any>;
+) => Promise<any | StepSuspension>;
+
+// Definition validation issue, reported at save time
+export interface WorkflowValidationIssue {
+    stepId?: string;
+    field: string;
+    message: string;
+    position?: number;              // Offset into the expression, for expression errors
+}
 
 // Workflow Statistics
 export interface WorkflowStats {
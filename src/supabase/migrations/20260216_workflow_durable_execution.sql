@@ -0,0 +1,57 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Durable execution: persisted cursor, wake-up times and cron claiming
+-- =====================================================
+-- Instances now persist { variables, stepResults, cursor } in context
+-- and are parked in 'waiting' until resume_at instead of sleeping in-process
+ALTER TABLE workflow_instances
+ADD COLUMN IF NOT EXISTS resume_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+ALTER TABLE workflow_instances DROP CONSTRAINT IF EXISTS workflow_instances_status_check;
+ALTER TABLE workflow_instances
+ADD CONSTRAINT workflow_instances_status_check CHECK (
+        status IN (
+            'pending',
+            'running',
+            'waiting',
+            'paused',
+            'completed',
+            'failed',
+            'cancelled'
+        )
+    );
+CREATE INDEX IF NOT EXISTS idx_instances_resume_at ON workflow_instances(resume_at)
+WHERE status = 'waiting';
+-- Function to claim instances that are due to run
+-- Picks waiting instances whose wake-up time has passed, pending instances,
+-- and running instances whose lock went stale (crashed invocation).
+-- SKIP LOCKED lets concurrent cron runs share the queue safely.
+CREATE OR REPLACE FUNCTION claim_due_workflow_instances(
+        p_limit INTEGER DEFAULT 10,
+        p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+    ) RETURNS SETOF UUID AS $$ BEGIN RETURN QUERY
+UPDATE workflow_instances wi
+SET status = 'running',
+    locked_at = NOW(),
+    resume_at = NULL
+WHERE wi.id IN (
+        SELECT candidate.id
+        FROM workflow_instances candidate
+        WHERE (
+                candidate.status = 'waiting'
+                AND candidate.resume_at <= NOW()
+            )
+            OR candidate.status = 'pending'
+            OR (
+                candidate.status = 'running'
+                AND candidate.locked_at < NOW() - p_stale_after
+            )
+        ORDER BY COALESCE(candidate.resume_at, candidate.started_at) ASC
+        LIMIT p_limit FOR
+        UPDATE SKIP LOCKED
+    )
+RETURNING wi.id;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN workflow_instances.resume_at IS 'When a waiting instance should be resumed by the workflow cron';
+COMMENT ON COLUMN workflow_instances.locked_at IS 'Heartbeat of the invocation currently running the instance';
@@ -0,0 +1,81 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Nested steps: condition branches and loop bodies
+-- =====================================================
+-- Step logs record the condition/loop step they ran under
+-- and the loop iteration, so each iteration has its own log rows
+ALTER TABLE workflow_steps
+ADD COLUMN IF NOT EXISTS parent_step_id VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS iteration INTEGER;
+CREATE INDEX IF NOT EXISTS idx_steps_parent ON workflow_steps(instance_id, parent_step_id)
+WHERE parent_step_id IS NOT NULL;
+-- Replace log_workflow_step with a version that accepts the parent/iteration
+-- (dropped first so PostgREST does not see two overloads)
+DROP FUNCTION IF EXISTS log_workflow_step(
+    UUID,
+    VARCHAR,
+    VARCHAR,
+    VARCHAR,
+    VARCHAR,
+    JSONB,
+    JSONB,
+    TEXT,
+    INTEGER
+);
+CREATE OR REPLACE FUNCTION log_workflow_step(
+        p_instance_id UUID,
+        p_step_id VARCHAR,
+        p_step_name VARCHAR,
+        p_step_type VARCHAR,
+        p_status VARCHAR,
+        p_input_data JSONB DEFAULT NULL,
+        p_output_data JSONB DEFAULT NULL,
+        p_error_message TEXT DEFAULT NULL,
+        p_execution_time_ms INTEGER DEFAULT NULL,
+        p_parent_step_id VARCHAR DEFAULT NULL,
+        p_iteration INTEGER DEFAULT NULL
+    ) RETURNS UUID AS $$
+DECLARE v_step_log_id UUID;
+BEGIN
+INSERT INTO workflow_steps (
+        instance_id,
+        step_id,
+        step_name,
+        step_type,
+        status,
+        input_data,
+        output_data,
+        error_message,
+        execution_time_ms,
+        parent_step_id,
+        iteration,
+        started_at,
+        completed_at
+    )
+VALUES (
+        p_instance_id,
+        p_step_id,
+        p_step_name,
+        p_step_type,
+        p_status,
+        p_input_data,
+        p_output_data,
+        p_error_message,
+        p_execution_time_ms,
+        p_parent_step_id,
+        p_iteration,
+        CASE
+            WHEN p_status = 'running' THEN NOW()
+            ELSE NULL
+        END,
+        CASE
+            WHEN p_status IN ('completed', 'failed', 'skipped') THEN NOW()
+            ELSE NULL
+        END
+    )
+RETURNING id INTO v_step_log_id;
+RETURN v_step_log_id;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN workflow_steps.parent_step_id IS 'Condition or loop step this step ran under';
+COMMENT ON COLUMN workflow_steps.iteration IS 'Loop iteration this step ran in';
@@ -0,0 +1,64 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Human approval steps
+-- =====================================================
+-- Approval requests raised by approval steps. The instance stays 'paused'
+-- until an approver decides or the deadline passes.
+CREATE TABLE IF NOT EXISTS workflow_approvals (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    instance_id UUID NOT NULL REFERENCES workflow_instances(id) ON DELETE CASCADE,
+    step_id VARCHAR(100) NOT NULL,
+    tenant_id UUID REFERENCES tenants(id) ON DELETE CASCADE,
+    approvers UUID [] NOT NULL DEFAULT ARRAY []::UUID [],
+    title VARCHAR(200) NOT NULL,
+    message TEXT,
+    status VARCHAR(20) DEFAULT 'pending' CHECK (
+        status IN ('pending', 'approved', 'rejected', 'timed_out')
+    ),
+    deadline TIMESTAMPTZ,
+    escalate_at TIMESTAMPTZ,
+    escalation_approvers UUID [] DEFAULT ARRAY []::UUID [],
+    escalated_at TIMESTAMPTZ,
+    decided_by UUID REFERENCES users(id),
+    decided_at TIMESTAMPTZ,
+    comment TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_approvals_instance_step ON workflow_approvals(instance_id, step_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_approvals_pending_approvers ON workflow_approvals USING GIN (approvers)
+WHERE status = 'pending';
+-- Only one open request per step of an instance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_one_pending ON workflow_approvals(instance_id, step_id)
+WHERE status = 'pending';
+-- Paused instances with a wake-up time (approval escalation/deadline)
+-- are claimed by the workflow cron as well
+CREATE OR REPLACE FUNCTION claim_due_workflow_instances(
+        p_limit INTEGER DEFAULT 10,
+        p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+    ) RETURNS SETOF UUID AS $$ BEGIN RETURN QUERY
+UPDATE workflow_instances wi
+SET status = 'running',
+    locked_at = NOW(),
+    resume_at = NULL
+WHERE wi.id IN (
+        SELECT candidate.id
+        FROM workflow_instances candidate
+        WHERE (
+                candidate.status IN ('waiting', 'paused')
+                AND candidate.resume_at <= NOW()
+            )
+            OR candidate.status = 'pending'
+            OR (
+                candidate.status = 'running'
+                AND candidate.locked_at < NOW() - p_stale_after
+            )
+        ORDER BY COALESCE(candidate.resume_at, candidate.started_at) ASC
+        LIMIT p_limit FOR
+        UPDATE SKIP LOCKED
+    )
+RETURNING wi.id;
+END;
+$$ LANGUAGE plpgsql;
+CREATE INDEX IF NOT EXISTS idx_instances_paused_resume_at ON workflow_instances(resume_at)
+WHERE status = 'paused';
+COMMENT ON TABLE workflow_approvals IS 'Approval requests raised by workflow approval steps';
@@ -0,0 +1,81 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Official templates: configs for service-backed steps
+-- =====================================================
+-- Email, meeting, notification and action steps now call the real
+-- services and their configs are validated on save. The official
+-- templates referenced actions and email templates that never existed,
+-- so replace their definitions with configs that pass validation.
+-- Event payload fields are available as top-level {{variables}}.
+UPDATE workflow_templates
+SET definition = '{
+        "trigger": {"type": "event", "event": "client.created"},
+        "steps": [
+            {"id": "welcome_email", "type": "email", "config": {
+                "to": "{{email}}",
+                "subject": "Welcome aboard, {{name}}",
+                "body": "<p>Hi {{name}},</p><p>Thanks for choosing us. Your project is being set up and we will be in touch shortly to schedule a kickoff.</p>"
+            }},
+            {"id": "create_project", "type": "action", "config": {
+                "action": "createProject",
+                "params": {"name": "{{name}} Onboarding", "ownerId": "{{userId}}", "clientId": "{{clientId}}", "category": "Onboarding"}
+            }},
+            {"id": "schedule_meeting", "type": "meeting", "config": {
+                "title": "Kickoff with {{name}}",
+                "hostId": "{{accountManagerId}}",
+                "durationMinutes": 40
+            }}
+        ]
+    }'::jsonb
+WHERE name = 'Client Onboarding'
+    AND is_official = true;
+UPDATE workflow_templates
+SET definition = '{
+        "trigger": {"type": "event", "event": "invoice.overdue"},
+        "steps": [
+            {"id": "send_reminder", "type": "email", "config": {
+                "to": "{{clientEmail}}",
+                "subject": "Payment reminder: invoice {{invoiceNumber}}",
+                "body": "<p>Invoice {{invoiceNumber}} is now overdue. Please arrange payment at your earliest convenience.</p>"
+            }},
+            {"id": "wait_3_days", "type": "wait", "config": {"duration": "3d"}},
+            {"id": "send_final_notice", "type": "email", "config": {
+                "to": "{{clientEmail}}",
+                "subject": "Final notice: invoice {{invoiceNumber}}",
+                "body": "<p>This is a final notice that invoice {{invoiceNumber}} remains unpaid.</p>"
+            }},
+            {"id": "create_task", "type": "action", "config": {
+                "action": "createTask",
+                "params": {"title": "Follow up on overdue invoice {{invoiceNumber}}", "createdBy": "{{ownerId}}", "assignedTo": "{{ownerId}}", "priority": "high"}
+            }}
+        ]
+    }'::jsonb
+WHERE name = 'Invoice Follow-up'
+    AND is_official = true;
+UPDATE workflow_templates
+SET definition = '{
+        "trigger": {"type": "event", "event": "project.completed"},
+        "steps": [
+            {"id": "generate_invoice", "type": "action", "config": {
+                "action": "generateInvoice",
+                "params": {"projectId": "{{projectId}}", "clientId": "{{clientId}}", "lineItems": "{{lineItems}}", "status": "sent"}
+            }},
+            {"id": "send_completion_email", "type": "email", "config": {
+                "to": "{{clientEmail}}",
+                "subject": "{{name}} is complete",
+                "body": "<p>Your project {{name}} has been completed. Your final invoice will follow separately.</p>"
+            }},
+            {"id": "notify_owner", "type": "notification", "config": {
+                "userId": "{{ownerId}}",
+                "type": "project",
+                "title": "{{name}} completed",
+                "message": "Final invoice generated and client notified."
+            }},
+            {"id": "archive_project", "type": "action", "config": {
+                "action": "archiveProject",
+                "params": {"projectId": "{{projectId}}"}
+            }}
+        ]
+    }'::jsonb
+WHERE name = 'Project Completion'
+    AND is_official = true;
@@ -0,0 +1,72 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Event triggers and wait-for-event correlation
+-- =====================================================
+-- Events are handed to workflows once: the process that publishes an
+-- event dispatches it straight away and /api/cron/workflows sweeps up
+-- anything that was not dispatched in-process
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS workflow_dispatched_at TIMESTAMPTZ;
+-- Events published before this migration have already had their chance
+UPDATE events
+SET workflow_dispatched_at = COALESCE(processed_at, created_at)
+WHERE workflow_dispatched_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_events_workflow_pending ON events(created_at)
+WHERE workflow_dispatched_at IS NULL;
+-- Wait steps record the event (and correlation value) they are waiting for
+ALTER TABLE workflow_instances
+ADD COLUMN IF NOT EXISTS waiting_event VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS correlation_key VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS correlation_value TEXT;
+CREATE INDEX IF NOT EXISTS idx_instances_waiting_event ON workflow_instances(waiting_event, correlation_value)
+WHERE status = 'waiting';
+-- Function to claim events not yet dispatched to workflows
+CREATE OR REPLACE FUNCTION claim_workflow_events(p_limit INTEGER DEFAULT 50) RETURNS SETOF events AS $$ BEGIN RETURN QUERY
+UPDATE events e
+SET workflow_dispatched_at = NOW()
+WHERE e.id IN (
+        SELECT candidate.id
+        FROM events candidate
+        WHERE candidate.workflow_dispatched_at IS NULL
+        ORDER BY candidate.created_at ASC
+        LIMIT p_limit FOR
+        UPDATE SKIP LOCKED
+    )
+RETURNING e.*;
+END;
+$$ LANGUAGE plpgsql;
+-- Claiming an instance for its timeout ends any event wait
+CREATE OR REPLACE FUNCTION claim_due_workflow_instances(
+        p_limit INTEGER DEFAULT 10,
+        p_stale_after INTERVAL DEFAULT INTERVAL '15 minutes'
+    ) RETURNS SETOF UUID AS $$ BEGIN RETURN QUERY
+UPDATE workflow_instances wi
+SET status = 'running',
+    locked_at = NOW(),
+    resume_at = NULL,
+    waiting_event = NULL,
+    correlation_key = NULL,
+    correlation_value = NULL
+WHERE wi.id IN (
+        SELECT candidate.id
+        FROM workflow_instances candidate
+        WHERE (
+                candidate.status IN ('waiting', 'paused')
+                AND candidate.resume_at <= NOW()
+            )
+            OR candidate.status = 'pending'
+            OR (
+                candidate.status = 'running'
+                AND candidate.locked_at < NOW() - p_stale_after
+            )
+        ORDER BY COALESCE(candidate.resume_at, candidate.started_at) ASC
+        LIMIT p_limit FOR
+        UPDATE SKIP LOCKED
+    )
+RETURNING wi.id;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN events.workflow_dispatched_at IS 'When the event was handed to workflow triggers and event waits';
+COMMENT ON COLUMN workflow_instances.waiting_event IS 'Event type a wait step is waiting for';
+COMMENT ON COLUMN workflow_instances.correlation_key IS 'Event data path that must match correlation_value';
+COMMENT ON COLUMN workflow_instances.correlation_value IS 'Value the waiting instance is correlated on, e.g. a client id';
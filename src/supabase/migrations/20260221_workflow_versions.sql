@@ -0,0 +1,108 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Versioned definitions: immutable published versions and builder drafts
+-- =====================================================
+-- The builder edits draft_definition; publishing copies the draft into a
+-- new workflow_versions row and makes it the workflow's current version.
+-- Instances record the version they started on and keep running it.
+CREATE TABLE IF NOT EXISTS workflow_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workflow_id UUID NOT NULL REFERENCES workflows(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    definition JSONB NOT NULL,
+    trigger_config JSONB,
+    change_note TEXT,
+    published_by UUID REFERENCES users(id),
+    published_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (workflow_id, version)
+);
+CREATE INDEX IF NOT EXISTS idx_workflow_versions_workflow ON workflow_versions(workflow_id, version DESC);
+ALTER TABLE workflows
+ADD COLUMN IF NOT EXISTS draft_definition JSONB;
+ALTER TABLE workflow_instances
+ADD COLUMN IF NOT EXISTS workflow_version INTEGER;
+-- Existing definitions become the first published version
+INSERT INTO workflow_versions (
+        workflow_id,
+        version,
+        definition,
+        trigger_config,
+        published_by,
+        published_at
+    )
+SELECT w.id,
+    COALESCE(w.version, 1),
+    w.definition,
+    w.trigger_config,
+    w.created_by,
+    COALESCE(w.updated_at, w.created_at, NOW())
+FROM workflows w ON CONFLICT (workflow_id, version) DO NOTHING;
+UPDATE workflow_instances wi
+SET workflow_version = COALESCE(w.version, 1)
+FROM workflows w
+WHERE wi.workflow_id = w.id
+    AND wi.workflow_version IS NULL;
+-- Published versions are immutable
+CREATE OR REPLACE FUNCTION prevent_workflow_version_update() RETURNS TRIGGER AS $$ BEGIN RAISE EXCEPTION 'Published workflow versions cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS trigger_workflow_versions_immutable ON workflow_versions;
+CREATE TRIGGER trigger_workflow_versions_immutable BEFORE
+UPDATE ON workflow_versions FOR EACH ROW EXECUTE FUNCTION prevent_workflow_version_update();
+-- Function to publish a definition as the workflow's next version
+-- Locks the workflow row so concurrent publishes get distinct version numbers
+CREATE OR REPLACE FUNCTION publish_workflow_version(
+        p_workflow_id UUID,
+        p_definition JSONB,
+        p_change_note TEXT DEFAULT NULL,
+        p_published_by UUID DEFAULT NULL
+    ) RETURNS INTEGER AS $$
+DECLARE v_version INTEGER;
+BEGIN
+PERFORM 1
+FROM workflows
+WHERE id = p_workflow_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Workflow % not found', p_workflow_id;
+END IF;
+SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+FROM workflow_versions
+WHERE workflow_id = p_workflow_id;
+INSERT INTO workflow_versions (
+        workflow_id,
+        version,
+        definition,
+        trigger_config,
+        change_note,
+        published_by
+    )
+VALUES (
+        p_workflow_id,
+        v_version,
+        p_definition,
+        p_definition->'trigger',
+        p_change_note,
+        p_published_by
+    );
+UPDATE workflows
+SET definition = p_definition,
+    trigger_config = p_definition->'trigger',
+    version = v_version,
+    draft_definition = NULL,
+    updated_at = NOW()
+WHERE id = p_workflow_id;
+RETURN v_version;
+END;
+$$ LANGUAGE plpgsql;
+-- Versions follow their workflow's tenant isolation
+ALTER TABLE workflow_versions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_isolation_policy ON workflow_versions;
+CREATE POLICY tenant_isolation_policy ON workflow_versions FOR ALL USING (
+    workflow_id IN (
+        SELECT id
+        FROM workflows
+    )
+);
+COMMENT ON TABLE workflow_versions IS 'Immutable published versions of workflow definitions';
+COMMENT ON COLUMN workflows.draft_definition IS 'Unpublished changes made in the workflow builder';
+COMMENT ON COLUMN workflow_instances.workflow_version IS 'Workflow version the instance started on';
@@ -0,0 +1,80 @@
+-- =====================================================
+-- BUSINESS OS - WORKFLOW ORCHESTRATOR
+-- Run history: ordered step logs and retries from the failed step
+-- =====================================================
+-- Step logs are read back as a timeline, so give them a write time
+-- and record which retry of the instance each one belongs to
+ALTER TABLE workflow_steps
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ DEFAULT NOW();
+UPDATE workflow_steps
+SET created_at = COALESCE(started_at, completed_at, created_at)
+WHERE started_at IS NOT NULL
+    OR completed_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_steps_instance_created ON workflow_steps(instance_id, created_at);
+-- Same signature as before; retry_count now comes from the instance
+CREATE OR REPLACE FUNCTION log_workflow_step(
+        p_instance_id UUID,
+        p_step_id VARCHAR,
+        p_step_name VARCHAR,
+        p_step_type VARCHAR,
+        p_status VARCHAR,
+        p_input_data JSONB DEFAULT NULL,
+        p_output_data JSONB DEFAULT NULL,
+        p_error_message TEXT DEFAULT NULL,
+        p_execution_time_ms INTEGER DEFAULT NULL,
+        p_parent_step_id VARCHAR DEFAULT NULL,
+        p_iteration INTEGER DEFAULT NULL
+    ) RETURNS UUID AS $$
+DECLARE v_step_log_id UUID;
+BEGIN
+INSERT INTO workflow_steps (
+        instance_id,
+        step_id,
+        step_name,
+        step_type,
+        status,
+        input_data,
+        output_data,
+        error_message,
+        execution_time_ms,
+        parent_step_id,
+        iteration,
+        retry_count,
+        started_at,
+        completed_at
+    )
+VALUES (
+        p_instance_id,
+        p_step_id,
+        p_step_name,
+        p_step_type,
+        p_status,
+        p_input_data,
+        p_output_data,
+        p_error_message,
+        p_execution_time_ms,
+        p_parent_step_id,
+        p_iteration,
+        COALESCE(
+            (
+                SELECT retry_count
+                FROM workflow_instances
+                WHERE id = p_instance_id
+            ),
+            0
+        ),
+        CASE
+            WHEN p_status = 'running' THEN NOW()
+            ELSE NULL
+        END,
+        CASE
+            WHEN p_status IN ('completed', 'failed', 'skipped') THEN NOW()
+            ELSE NULL
+        END
+    )
+RETURNING id INTO v_step_log_id;
+RETURN v_step_log_id;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN workflow_steps.created_at IS 'When the log row was written, for ordering the run timeline';
+COMMENT ON COLUMN workflow_steps.retry_count IS 'Retry of the instance the step ran in (0 for the first run)';
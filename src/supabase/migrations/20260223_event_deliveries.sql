@@ -0,0 +1,265 @@
+-- =====================================================
+-- BUSINESS OS - EVENT BUS SYSTEM
+-- Reliable delivery: per-subscription deliveries, retries and dead letters
+-- =====================================================
+-- Every event gets one delivery row per matching subscription when it is
+-- inserted. /api/cron/events claims due deliveries (highest priority
+-- first) and runs their handlers server-side. Failed deliveries are
+-- retried with exponential backoff until the subscription's max_attempts,
+-- then parked as 'dead' until replayed.
+-- Publishers may pass an idempotency key; publishing the same key twice
+-- returns the original event instead of creating a duplicate
+ALTER TABLE events
+ADD COLUMN IF NOT EXISTS idempotency_key VARCHAR(200);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_idempotency_key ON events(idempotency_key)
+WHERE idempotency_key IS NOT NULL;
+-- Retry policy per subscription; priority (lower first) orders deliveries
+ALTER TABLE event_subscriptions
+ADD COLUMN IF NOT EXISTS max_attempts INTEGER DEFAULT 5,
+    ADD COLUMN IF NOT EXISTS retry_backoff_seconds INTEGER DEFAULT 30;
+CREATE TABLE IF NOT EXISTS event_deliveries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES event_subscriptions(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (
+        status IN ('pending', 'processing', 'completed', 'dead')
+    ),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (event_id, subscription_id)
+);
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_due ON event_deliveries(next_attempt_at)
+WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_dead ON event_deliveries(created_at DESC)
+WHERE status = 'dead';
+CREATE INDEX IF NOT EXISTS idx_event_deliveries_event ON event_deliveries(event_id);
+-- Subscription patterns use * as a wildcard, e.g. 'user.*'
+CREATE OR REPLACE FUNCTION event_pattern_matches(p_pattern VARCHAR, p_event_type VARCHAR) RETURNS BOOLEAN AS $$ BEGIN RETURN p_pattern = '*'
+    OR p_pattern = p_event_type
+    OR p_event_type LIKE replace(replace(p_pattern, '_', '\_'), '*', '%');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- Replace publish_event with a version that accepts an idempotency key
+-- (dropped first so PostgREST does not see two overloads)
+DROP FUNCTION IF EXISTS publish_event(VARCHAR, VARCHAR, JSONB, JSONB);
+CREATE OR REPLACE FUNCTION publish_event(
+        p_event_type VARCHAR,
+        p_event_source VARCHAR,
+        p_event_data JSONB,
+        p_metadata JSONB DEFAULT '{}',
+        p_idempotency_key VARCHAR DEFAULT NULL
+    ) RETURNS UUID AS $$
+DECLARE v_event_id UUID;
+BEGIN IF p_idempotency_key IS NOT NULL THEN
+SELECT id INTO v_event_id
+FROM events
+WHERE idempotency_key = p_idempotency_key;
+IF FOUND THEN RETURN v_event_id;
+END IF;
+END IF;
+INSERT INTO events (
+        event_type,
+        event_source,
+        event_data,
+        metadata,
+        idempotency_key
+    )
+VALUES (
+        p_event_type,
+        p_event_source,
+        p_event_data,
+        p_metadata,
+        p_idempotency_key
+    ) ON CONFLICT (idempotency_key)
+WHERE idempotency_key IS NOT NULL DO NOTHING
+RETURNING id INTO v_event_id;
+-- A concurrent publish with the same key won the insert
+IF v_event_id IS NULL THEN
+SELECT id INTO v_event_id
+FROM events
+WHERE idempotency_key = p_idempotency_key;
+END IF;
+RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Fan a new event out to its subscriptions
+CREATE OR REPLACE FUNCTION create_event_deliveries() RETURNS TRIGGER AS $$ BEGIN
+INSERT INTO event_deliveries (event_id, subscription_id)
+SELECT NEW.id,
+    s.id
+FROM event_subscriptions s
+WHERE s.is_active = true
+    AND event_pattern_matches(s.event_pattern, NEW.event_type) ON CONFLICT (event_id, subscription_id) DO NOTHING;
+IF NOT FOUND THEN
+UPDATE events
+SET status = 'completed',
+    processed_at = NOW()
+WHERE id = NEW.id;
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS trigger_create_event_deliveries ON events;
+CREATE TRIGGER trigger_create_event_deliveries
+AFTER
+INSERT ON events FOR EACH ROW EXECUTE FUNCTION create_event_deliveries();
+-- Roll delivery outcomes up into the event's status
+CREATE OR REPLACE FUNCTION refresh_event_status(p_event_id UUID) RETURNS VOID AS $$
+DECLARE v_dead INTEGER;
+v_open INTEGER;
+v_error TEXT;
+BEGIN
+SELECT COUNT(*) FILTER (
+        WHERE status = 'dead'
+    ),
+    COUNT(*) FILTER (
+        WHERE status IN ('pending', 'processing')
+    ),
+    string_agg(last_error, '; ') FILTER (
+        WHERE status = 'dead'
+    ) INTO v_dead,
+    v_open,
+    v_error
+FROM event_deliveries
+WHERE event_id = p_event_id;
+UPDATE events
+SET status = CASE
+        WHEN v_dead > 0 THEN 'failed'
+        WHEN v_open > 0 THEN 'processing'
+        ELSE 'completed'
+    END,
+    error_message = v_error,
+    processed_at = CASE
+        WHEN v_open = 0 THEN NOW()
+        ELSE processed_at
+    END,
+    retry_count = (
+        SELECT GREATEST(COALESCE(MAX(attempts), 0) - 1, 0)
+        FROM event_deliveries
+        WHERE event_id = p_event_id
+    )
+WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Function to claim deliveries that are due, highest priority first
+-- Deliveries stuck in 'processing' (crashed consumer) are claimed again
+CREATE OR REPLACE FUNCTION claim_event_deliveries(
+        p_limit INTEGER DEFAULT 50,
+        p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+    ) RETURNS SETOF event_deliveries AS $$ BEGIN RETURN QUERY
+UPDATE event_deliveries d
+SET status = 'processing',
+    locked_at = NOW(),
+    attempts = d.attempts + 1
+WHERE d.id IN (
+        SELECT candidate.id
+        FROM event_deliveries candidate
+            JOIN event_subscriptions s ON s.id = candidate.subscription_id
+        WHERE (
+                candidate.status = 'pending'
+                AND candidate.next_attempt_at <= NOW()
+            )
+            OR (
+                candidate.status = 'processing'
+                AND candidate.locked_at < NOW() - p_stale_after
+            )
+        ORDER BY s.priority ASC,
+            candidate.next_attempt_at ASC
+        LIMIT p_limit FOR
+        UPDATE OF candidate SKIP LOCKED
+    )
+RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql;
+-- Function to record a successful delivery
+CREATE OR REPLACE FUNCTION complete_event_delivery(p_delivery_id UUID) RETURNS VOID AS $$
+DECLARE v_event_id UUID;
+BEGIN
+UPDATE event_deliveries
+SET status = 'completed',
+    completed_at = NOW(),
+    locked_at = NULL,
+    last_error = NULL
+WHERE id = p_delivery_id
+RETURNING event_id INTO v_event_id;
+IF v_event_id IS NOT NULL THEN PERFORM refresh_event_status(v_event_id);
+END IF;
+END;
+$$ LANGUAGE plpgsql;
+-- Function to record a failed delivery attempt
+-- Schedules a retry after backoff * 2^(attempts - 1) (capped at 6 hours),
+-- or dead-letters the delivery once the subscription's max_attempts is reached
+CREATE OR REPLACE FUNCTION fail_event_delivery(p_delivery_id UUID, p_error TEXT) RETURNS VARCHAR AS $$
+DECLARE v_delivery event_deliveries %ROWTYPE;
+v_max_attempts INTEGER;
+v_backoff INTEGER;
+v_status VARCHAR;
+BEGIN
+SELECT * INTO v_delivery
+FROM event_deliveries
+WHERE id = p_delivery_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Event delivery % not found', p_delivery_id;
+END IF;
+SELECT COALESCE(max_attempts, 5),
+    COALESCE(retry_backoff_seconds, 30) INTO v_max_attempts,
+    v_backoff
+FROM event_subscriptions
+WHERE id = v_delivery.subscription_id;
+v_status := CASE
+    WHEN v_delivery.attempts >= v_max_attempts THEN 'dead'
+    ELSE 'pending'
+END;
+UPDATE event_deliveries
+SET status = v_status,
+    last_error = p_error,
+    locked_at = NULL,
+    next_attempt_at = CASE
+        WHEN v_status = 'pending' THEN NOW() + LEAST(
+            v_backoff * power(2, GREATEST(v_delivery.attempts - 1, 0)),
+            21600
+        ) * INTERVAL '1 second'
+        ELSE next_attempt_at
+    END
+WHERE id = p_delivery_id;
+PERFORM refresh_event_status(v_delivery.event_id);
+RETURN v_status;
+END;
+$$ LANGUAGE plpgsql;
+-- Function to replay dead deliveries, one delivery or all of an event's
+CREATE OR REPLACE FUNCTION replay_event_deliveries(
+        p_delivery_id UUID DEFAULT NULL,
+        p_event_id UUID DEFAULT NULL
+    ) RETURNS INTEGER AS $$
+DECLARE v_count INTEGER;
+v_event_id UUID;
+BEGIN
+UPDATE event_deliveries
+SET status = 'pending',
+    attempts = 0,
+    next_attempt_at = NOW(),
+    locked_at = NULL
+WHERE status = 'dead'
+    AND (
+        id = p_delivery_id
+        OR event_id = p_event_id
+    );
+GET DIAGNOSTICS v_count = ROW_COUNT;
+FOR v_event_id IN
+SELECT DISTINCT event_id
+FROM event_deliveries
+WHERE id = p_delivery_id
+    OR event_id = p_event_id LOOP PERFORM refresh_event_status(v_event_id);
+END LOOP;
+RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE event_deliveries IS 'Delivery of each event to each matching subscription, with retry state';
+COMMENT ON COLUMN event_deliveries.status IS 'pending (due at next_attempt_at), processing, completed, or dead (retries exhausted)';
+COMMENT ON COLUMN events.idempotency_key IS 'Publisher-supplied key; publishing the same key again returns the original event';
+COMMENT ON COLUMN event_subscriptions.max_attempts IS 'Delivery attempts before the delivery is dead-lettered';
+COMMENT ON COLUMN event_subscriptions.retry_backoff_seconds IS 'Delay before the first retry; doubles on each further attempt';
@@ -0,0 +1,199 @@
+-- =====================================================
+-- BUSINESS OS - EVENT BUS SYSTEM
+-- Hierarchical patterns, payload filters and tenant-scoped subscriptions
+-- =====================================================
+-- A subscription now receives an event only when its pattern matches the
+-- event type, its tenant (if set) is the event's tenant, and every filter
+-- in its filters list matches. Filters are objects of the form
+-- {"path": "eventData.amount", "operator": "gt", "value": 1000}; paths are
+-- rooted at eventType, eventSource, eventData, metadata or tenantId.
+-- The same rules are implemented in src/services/eventBus/matching.ts for
+-- in-process subscriptions.
+ALTER TABLE event_subscriptions
+ADD COLUMN IF NOT EXISTS filters JSONB NOT NULL DEFAULT '[]';
+CREATE INDEX IF NOT EXISTS idx_event_subscriptions_tenant ON event_subscriptions(tenant_id);
+-- Subscriptions can be deleted once they have logged deliveries
+ALTER TABLE event_logs DROP CONSTRAINT IF EXISTS event_logs_subscription_id_fkey;
+ALTER TABLE event_logs
+ADD CONSTRAINT event_logs_subscription_id_fkey FOREIGN KEY (subscription_id) REFERENCES event_subscriptions(id) ON DELETE
+SET NULL;
+-- Patterns are dot-separated segments: * matches one segment, ** one or
+-- more, and a trailing * everything below it ('invoice.*', '*.created')
+CREATE OR REPLACE FUNCTION event_pattern_matches(p_pattern VARCHAR, p_event_type VARCHAR) RETURNS BOOLEAN AS $$
+DECLARE v_segments TEXT [];
+v_regex TEXT := '';
+i INTEGER;
+BEGIN IF p_pattern IN ('*', '**')
+OR p_pattern = p_event_type THEN RETURN true;
+END IF;
+v_segments := string_to_array(p_pattern, '.');
+FOR i IN 1..array_length(v_segments, 1) LOOP IF i > 1 THEN v_regex := v_regex || '\.';
+END IF;
+v_regex := v_regex || CASE
+    WHEN v_segments [i] = '**'
+    OR (
+        v_segments [i] = '*'
+        AND i = array_length(v_segments, 1)
+    ) THEN '[^.]+(?:\.[^.]+)*'
+    WHEN v_segments [i] = '*' THEN '[^.]+'
+    ELSE replace(
+        regexp_replace(v_segments [i], '([][.+?^$(){}|\\])', '\\\1', 'g'),
+        '*',
+        '[^.]*'
+    )
+END;
+END LOOP;
+RETURN p_event_type ~ ('^' || v_regex || '$');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- Check an event against a subscription's filters (all must match)
+-- Numbers compare numerically and strings by code point
+CREATE OR REPLACE FUNCTION event_filters_match(p_filters JSONB, p_event events) RETURNS BOOLEAN AS $$
+DECLARE v_document JSONB;
+v_filter JSONB;
+v_actual JSONB;
+v_expected JSONB;
+v_operator TEXT;
+v_match BOOLEAN;
+BEGIN IF p_filters IS NULL
+OR jsonb_array_length(p_filters) = 0 THEN RETURN true;
+END IF;
+v_document := jsonb_build_object(
+    'eventType',
+    p_event.event_type,
+    'eventSource',
+    p_event.event_source,
+    'eventData',
+    p_event.event_data,
+    'metadata',
+    p_event.metadata,
+    'tenantId',
+    COALESCE(
+        p_event.tenant_id::TEXT,
+        p_event.metadata->>'tenantId'
+    )
+);
+FOR v_filter IN
+SELECT *
+FROM jsonb_array_elements(p_filters) LOOP v_actual := v_document #> string_to_array(v_filter->>'path', '.');
+IF v_actual = 'null'::jsonb THEN v_actual := NULL;
+END IF;
+v_expected := v_filter->'value';
+v_operator := v_filter->>'operator';
+IF v_operator = 'exists' THEN v_match := (v_actual IS NOT NULL) = (
+    v_expected IS NULL
+    OR v_expected <> 'false'::jsonb
+);
+ELSIF v_operator = 'eq' THEN v_match := v_actual IS NOT DISTINCT FROM v_expected;
+ELSIF v_operator = 'neq' THEN v_match := v_actual IS DISTINCT FROM v_expected;
+ELSIF v_operator IN ('gt', 'gte', 'lt', 'lte') THEN IF v_actual IS NULL
+OR v_expected IS NULL
+OR jsonb_typeof(v_actual) <> jsonb_typeof(v_expected) THEN v_match := false;
+ELSIF jsonb_typeof(v_actual) = 'number' THEN v_match := CASE
+    v_operator
+    WHEN 'gt' THEN (v_actual#>>'{}')::NUMERIC > (v_expected#>>'{}')::NUMERIC
+    WHEN 'gte' THEN (v_actual#>>'{}')::NUMERIC >= (v_expected#>>'{}')::NUMERIC
+    WHEN 'lt' THEN (v_actual#>>'{}')::NUMERIC < (v_expected#>>'{}')::NUMERIC
+    ELSE (v_actual#>>'{}')::NUMERIC <= (v_expected#>>'{}')::NUMERIC
+END;
+ELSIF jsonb_typeof(v_actual) = 'string' THEN v_match := CASE
+    v_operator
+    WHEN 'gt' THEN (v_actual#>>'{}') COLLATE "C" > (v_expected#>>'{}')
+    WHEN 'gte' THEN (v_actual#>>'{}') COLLATE "C" >= (v_expected#>>'{}')
+    WHEN 'lt' THEN (v_actual#>>'{}') COLLATE "C" < (v_expected#>>'{}')
+    ELSE (v_actual#>>'{}') COLLATE "C" <= (v_expected#>>'{}')
+END;
+ELSE v_match := false;
+END IF;
+ELSIF v_operator = 'in' THEN v_match := v_actual IS NOT NULL
+AND jsonb_typeof(v_expected) = 'array'
+AND EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_expected) candidate
+    WHERE candidate = v_actual
+);
+ELSIF v_operator = 'contains' THEN IF jsonb_typeof(v_actual) = 'string'
+AND jsonb_typeof(v_expected) = 'string' THEN v_match := position(
+    (v_expected#>>'{}') IN (v_actual#>>'{}')
+) > 0;
+ELSE v_match := jsonb_typeof(v_actual) = 'array'
+AND v_actual @> jsonb_build_array(v_expected);
+END IF;
+ELSE v_match := false;
+END IF;
+IF NOT COALESCE(v_match, false) THEN RETURN false;
+END IF;
+END LOOP;
+RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+-- Replace publish_event with a version that records the event's tenant
+-- (dropped first so PostgREST does not see two overloads)
+DROP FUNCTION IF EXISTS publish_event(VARCHAR, VARCHAR, JSONB, JSONB, VARCHAR);
+CREATE OR REPLACE FUNCTION publish_event(
+        p_event_type VARCHAR,
+        p_event_source VARCHAR,
+        p_event_data JSONB,
+        p_metadata JSONB DEFAULT '{}',
+        p_idempotency_key VARCHAR DEFAULT NULL,
+        p_tenant_id UUID DEFAULT NULL
+    ) RETURNS UUID AS $$
+DECLARE v_event_id UUID;
+BEGIN IF p_idempotency_key IS NOT NULL THEN
+SELECT id INTO v_event_id
+FROM events
+WHERE idempotency_key = p_idempotency_key;
+IF FOUND THEN RETURN v_event_id;
+END IF;
+END IF;
+INSERT INTO events (
+        event_type,
+        event_source,
+        event_data,
+        metadata,
+        idempotency_key,
+        tenant_id
+    )
+VALUES (
+        p_event_type,
+        p_event_source,
+        p_event_data,
+        p_metadata,
+        p_idempotency_key,
+        p_tenant_id
+    ) ON CONFLICT (idempotency_key)
+WHERE idempotency_key IS NOT NULL DO NOTHING
+RETURNING id INTO v_event_id;
+-- A concurrent publish with the same key won the insert
+IF v_event_id IS NULL THEN
+SELECT id INTO v_event_id
+FROM events
+WHERE idempotency_key = p_idempotency_key;
+END IF;
+RETURN v_event_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Fan a new event out to the subscriptions it matches
+CREATE OR REPLACE FUNCTION create_event_deliveries() RETURNS TRIGGER AS $$ BEGIN
+INSERT INTO event_deliveries (event_id, subscription_id)
+SELECT NEW.id,
+    s.id
+FROM event_subscriptions s
+WHERE s.is_active = true
+    AND event_pattern_matches(s.event_pattern, NEW.event_type)
+    AND (
+        s.tenant_id IS NULL
+        OR s.tenant_id::TEXT = COALESCE(NEW.tenant_id::TEXT, NEW.metadata->>'tenantId')
+    )
+    AND event_filters_match(s.filters, NEW) ON CONFLICT (event_id, subscription_id) DO NOTHING;
+IF NOT FOUND THEN
+UPDATE events
+SET status = 'completed',
+    processed_at = NOW()
+WHERE id = NEW.id;
+END IF;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN event_subscriptions.filters IS 'Payload filters, e.g. [{"path": "eventData.amount", "operator": "gt", "value": 1000}]; all must match';
+COMMENT ON COLUMN event_subscriptions.tenant_id IS 'Only deliver this tenant''s events; NULL receives events from every tenant';
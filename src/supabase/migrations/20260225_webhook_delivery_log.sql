@@ -0,0 +1,146 @@
+-- =====================================================
+-- BUSINESS OS - OUTBOUND WEBHOOKS
+-- Delivery log, retries with backoff and endpoint auto-disable
+-- =====================================================
+-- Every delivery to a notification_webhooks endpoint is recorded in
+-- webhook_deliveries. Failed deliveries are retried by /api/cron/webhooks
+-- with exponential backoff until max_attempts. failure_count on the
+-- endpoint counts consecutive failed attempts; once it reaches the
+-- endpoint's disable_after_failures the endpoint is disabled until a
+-- tenant admin re-enables it.
+ALTER TABLE notification_webhooks
+ADD COLUMN IF NOT EXISTS disable_after_failures INTEGER DEFAULT 10,
+    ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+ALTER TABLE webhook_deliveries
+ALTER COLUMN max_attempts
+SET DEFAULT 5;
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS duration_ms INTEGER,
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS resent_from UUID REFERENCES webhook_deliveries(id) ON DELETE
+SET NULL;
+-- Tenant admins resend deliveries from the delivery log
+DROP POLICY IF EXISTS "Tenant admins can create webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Tenant admins can create webhook deliveries" ON webhook_deliveries FOR
+INSERT TO authenticated WITH CHECK (
+        webhook_id IN (
+            SELECT id
+            FROM notification_webhooks
+            WHERE tenant_id IN (
+                    SELECT tenant_id
+                    FROM tenant_users
+                    WHERE user_id = auth.uid()
+                        AND role IN ('admin', 'tenant_admin')
+                )
+        )
+    );
+-- Function to claim failed deliveries whose retry is due, and first
+-- attempts that never recorded an outcome (crashed sender)
+-- Deliveries to disabled endpoints wait until the endpoint is re-enabled
+CREATE OR REPLACE FUNCTION claim_webhook_retries(
+        p_limit INTEGER DEFAULT 50,
+        p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+    ) RETURNS SETOF webhook_deliveries AS $$ BEGIN RETURN QUERY
+UPDATE webhook_deliveries d
+SET locked_at = NOW()
+WHERE d.id IN (
+        SELECT candidate.id
+        FROM webhook_deliveries candidate
+            JOIN notification_webhooks w ON w.id = candidate.webhook_id
+        WHERE (
+                (
+                    candidate.status = 'retrying'
+                    AND candidate.next_retry_at <= NOW()
+                )
+                OR (
+                    candidate.status = 'pending'
+                    AND candidate.created_at < NOW() - p_stale_after
+                )
+            )
+            AND (
+                candidate.locked_at IS NULL
+                OR candidate.locked_at < NOW() - p_stale_after
+            )
+            AND w.enabled = true
+        ORDER BY candidate.next_retry_at ASC
+        LIMIT p_limit FOR
+        UPDATE OF candidate SKIP LOCKED
+    )
+RETURNING d.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+-- Function to record the outcome of a delivery attempt
+-- Schedules the next retry after 1, 4, 16, 64... minutes (capped at 6 hours)
+-- or fails the delivery at max_attempts; disables the endpoint once its
+-- consecutive failures reach disable_after_failures
+CREATE OR REPLACE FUNCTION record_webhook_attempt(
+        p_delivery_id UUID,
+        p_success BOOLEAN,
+        p_response_status INTEGER DEFAULT NULL,
+        p_response_body TEXT DEFAULT NULL,
+        p_error TEXT DEFAULT NULL,
+        p_duration_ms INTEGER DEFAULT NULL
+    ) RETURNS VARCHAR AS $$
+DECLARE v_delivery webhook_deliveries %ROWTYPE;
+v_status VARCHAR;
+v_failures INTEGER;
+v_disable_after INTEGER;
+BEGIN
+SELECT * INTO v_delivery
+FROM webhook_deliveries
+WHERE id = p_delivery_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Webhook delivery % not found', p_delivery_id;
+END IF;
+v_status := CASE
+    WHEN p_success THEN 'delivered'
+    WHEN v_delivery.attempts + 1 >= COALESCE(v_delivery.max_attempts, 5) THEN 'failed'
+    ELSE 'retrying'
+END;
+UPDATE webhook_deliveries
+SET status = v_status,
+    attempts = attempts + 1,
+    last_attempt_at = NOW(),
+    locked_at = NULL,
+    next_retry_at = CASE
+        WHEN v_status = 'retrying' THEN NOW() + LEAST(60 * power(4, v_delivery.attempts), 21600) * INTERVAL '1 second'
+        ELSE NULL
+    END,
+    response_status = p_response_status,
+    response_body = p_response_body,
+    error_message = p_error,
+    duration_ms = p_duration_ms
+WHERE id = p_delivery_id;
+IF p_success THEN
+UPDATE notification_webhooks
+SET failure_count = 0,
+    last_triggered_at = NOW()
+WHERE id = v_delivery.webhook_id;
+ELSE
+UPDATE notification_webhooks
+SET failure_count = COALESCE(failure_count, 0) + 1,
+    last_triggered_at = NOW()
+WHERE id = v_delivery.webhook_id
+RETURNING failure_count,
+    COALESCE(disable_after_failures, 10) INTO v_failures,
+    v_disable_after;
+IF v_failures >= v_disable_after THEN
+UPDATE notification_webhooks
+SET enabled = false,
+    disabled_at = NOW(),
+    disabled_reason = format(
+        'Disabled after %s consecutive failed deliveries',
+        v_failures
+    )
+WHERE id = v_delivery.webhook_id
+    AND enabled = true;
+END IF;
+END IF;
+RETURN v_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+COMMENT ON COLUMN notification_webhooks.failure_count IS 'Consecutive failed delivery attempts; reset by a successful delivery';
+COMMENT ON COLUMN notification_webhooks.disable_after_failures IS 'Consecutive failures after which the endpoint is disabled';
+COMMENT ON COLUMN webhook_deliveries.status IS 'pending (first attempt in flight), retrying (next_retry_at set), delivered, or failed (attempts exhausted)';
+COMMENT ON COLUMN webhook_deliveries.resent_from IS 'Delivery this one was manually resent from';
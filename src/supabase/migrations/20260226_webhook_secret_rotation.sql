@@ -0,0 +1,12 @@
+-- =====================================================
+-- BUSINESS OS - OUTBOUND WEBHOOKS
+-- Signing secret rotation
+-- =====================================================
+-- Rotating an endpoint's secret keeps the old one as previous_secret until
+-- previous_secret_expires_at. Until then deliveries carry a signature for
+-- each secret, so the receiver can switch secrets without rejecting events.
+ALTER TABLE notification_webhooks
+ADD COLUMN IF NOT EXISTS previous_secret VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS previous_secret_expires_at TIMESTAMPTZ;
+COMMENT ON COLUMN notification_webhooks.secret IS 'Current signing secret; signatures are HMAC-SHA256 of "<timestamp>.<body>"';
+COMMENT ON COLUMN notification_webhooks.previous_secret IS 'Secret replaced by the last rotation, still signed with until previous_secret_expires_at';
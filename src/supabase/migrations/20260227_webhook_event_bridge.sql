@@ -0,0 +1,31 @@
+-- =====================================================
+-- BUSINESS OS - OUTBOUND WEBHOOKS
+-- Event bus bridge
+-- =====================================================
+-- Tenant events published on the bus are forwarded to the tenant's webhook
+-- endpoints by the webhook_bridge subscription. Each forwarded event is
+-- recorded once per endpoint, so a retried bus delivery does not send it twice.
+ALTER TABLE webhook_deliveries
+ADD COLUMN IF NOT EXISTS event_id UUID REFERENCES events(id) ON DELETE
+SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_deliveries_event ON webhook_deliveries(webhook_id, event_id)
+WHERE event_id IS NOT NULL;
+-- Only events that belong to a tenant can be forwarded
+INSERT INTO event_subscriptions (
+        subscriber_name,
+        event_pattern,
+        handler_config,
+        filters,
+        priority
+    )
+SELECT 'webhook_bridge',
+    '*',
+    '{"handler": "webhook_bridge"}',
+    '[{"path": "tenantId", "operator": "exists"}]',
+    40
+WHERE NOT EXISTS (
+        SELECT 1
+        FROM event_subscriptions
+        WHERE subscriber_name = 'webhook_bridge'
+    );
+COMMENT ON COLUMN webhook_deliveries.event_id IS 'Bus event the delivery was forwarded from; resends leave it empty';
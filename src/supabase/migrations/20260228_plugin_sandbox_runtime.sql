@@ -0,0 +1,143 @@
+-- =====================================================
+-- BUSINESS OS - PLUGIN ARCHITECTURE
+-- Sandboxed plugin runtime
+-- =====================================================
+-- Plugins ship handler code that runs in a sandbox (see
+-- services/plugins/sandbox.ts). Hooks are synced from the manifest, and tenant
+-- events reach the hooks of the tenant's enabled plugins through the
+-- plugin_hooks event subscription.
+ALTER TABLE plugins
+ADD COLUMN IF NOT EXISTS code TEXT;
+-- Key/value storage private to each installed plugin (services.storage)
+CREATE TABLE IF NOT EXISTS plugin_storage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_plugin_id UUID NOT NULL REFERENCES tenant_plugins(id) ON DELETE CASCADE,
+    key VARCHAR(255) NOT NULL,
+    value JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_plugin_id, key)
+);
+-- One row per manifest hook; the manager used to insert a copy on every load
+DELETE FROM plugin_hooks a USING plugin_hooks b
+WHERE a.plugin_id = b.plugin_id
+    AND a.hook_name = b.hook_name
+    AND a.handler_function = b.handler_function
+    AND a.created_at > b.created_at;
+DELETE FROM plugin_hooks a USING plugin_hooks b
+WHERE a.plugin_id = b.plugin_id
+    AND a.hook_name = b.hook_name
+    AND a.handler_function = b.handler_function
+    AND a.created_at = b.created_at
+    AND a.id > b.id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plugin_hooks_unique ON plugin_hooks(plugin_id, hook_name, handler_function);
+-- Keep plugin_hooks in step with the manifest
+CREATE OR REPLACE FUNCTION sync_plugin_hooks() RETURNS TRIGGER AS $$ BEGIN
+DELETE FROM plugin_hooks ph
+WHERE ph.plugin_id = NEW.id
+    AND NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(COALESCE(NEW.manifest->'hooks', '[]'::jsonb)) hook
+        WHERE hook->>'name' = ph.hook_name
+            AND hook->>'handler' = ph.handler_function
+    );
+INSERT INTO plugin_hooks (plugin_id, hook_name, handler_function, priority)
+SELECT NEW.id,
+    hook->>'name',
+    hook->>'handler',
+    COALESCE((hook->>'priority')::INTEGER, 10)
+FROM jsonb_array_elements(COALESCE(NEW.manifest->'hooks', '[]'::jsonb)) hook
+WHERE hook->>'name' IS NOT NULL
+    AND hook->>'handler' IS NOT NULL ON CONFLICT (plugin_id, hook_name, handler_function) DO
+UPDATE
+SET priority = EXCLUDED.priority;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS plugins_sync_hooks ON plugins;
+CREATE TRIGGER plugins_sync_hooks
+AFTER
+INSERT
+    OR
+UPDATE OF manifest ON plugins FOR EACH ROW EXECUTE FUNCTION sync_plugin_hooks();
+-- Backfill hooks of existing plugins
+UPDATE plugins
+SET manifest = manifest;
+-- Hooks to run for a tenant: those of its enabled plugins, in priority order
+CREATE OR REPLACE FUNCTION get_tenant_plugin_hooks(p_tenant_id UUID, p_hook_name VARCHAR) RETURNS TABLE (
+        tenant_plugin_id UUID,
+        plugin_id UUID,
+        plugin_name VARCHAR,
+        plugin_slug VARCHAR,
+        plugin_version VARCHAR,
+        manifest JSONB,
+        code TEXT,
+        config JSONB,
+        handler_function TEXT,
+        priority INTEGER
+    ) AS $$ BEGIN RETURN QUERY
+SELECT tp.id,
+    p.id,
+    p.name,
+    p.slug,
+    p.version,
+    p.manifest,
+    p.code,
+    tp.config,
+    ph.handler_function,
+    ph.priority
+FROM plugin_hooks ph
+    INNER JOIN plugins p ON p.id = ph.plugin_id
+    INNER JOIN tenant_plugins tp ON tp.plugin_id = p.id
+WHERE ph.hook_name = p_hook_name
+    AND ph.is_active = true
+    AND p.is_active = true
+    AND tp.tenant_id = p_tenant_id
+    AND tp.is_enabled = true
+ORDER BY ph.priority ASC;
+END;
+$$ LANGUAGE plpgsql;
+-- Logs carry the tenant so they can be listed per tenant
+CREATE OR REPLACE FUNCTION log_plugin_activity(
+        p_tenant_plugin_id UUID,
+        p_log_level VARCHAR,
+        p_message TEXT,
+        p_metadata JSONB DEFAULT NULL
+    ) RETURNS VOID AS $$ BEGIN
+INSERT INTO plugin_logs (
+        tenant_plugin_id,
+        tenant_id,
+        log_level,
+        message,
+        metadata
+    )
+SELECT tp.id,
+    tp.tenant_id,
+    p_log_level,
+    p_message,
+    p_metadata
+FROM tenant_plugins tp
+WHERE tp.id = p_tenant_plugin_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Run plugin hooks for tenant events
+INSERT INTO event_subscriptions (
+        subscriber_name,
+        event_pattern,
+        handler_config,
+        filters,
+        priority
+    )
+SELECT 'plugin_hooks',
+    '*',
+    '{"handler": "plugin_hooks"}',
+    '[{"path": "tenantId", "operator": "exists"}]',
+    30
+WHERE NOT EXISTS (
+        SELECT 1
+        FROM event_subscriptions
+        WHERE subscriber_name = 'plugin_hooks'
+    );
+CREATE INDEX IF NOT EXISTS idx_plugin_storage_tenant_plugin ON plugin_storage(tenant_plugin_id);
+COMMENT ON COLUMN plugins.code IS 'Handler module (module.exports = { handlerName(context, data) {} }) run in the plugin sandbox';
+COMMENT ON TABLE plugin_storage IS 'Key/value storage private to each installed plugin';
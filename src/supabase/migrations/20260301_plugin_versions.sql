@@ -0,0 +1,173 @@
+-- =====================================================
+-- BUSINESS OS - PLUGIN ARCHITECTURE
+-- Plugin versions and upgrades
+-- =====================================================
+-- Every manifest and code a plugin publishes is kept as a release. Tenants
+-- run the release they installed until they upgrade (see
+-- PluginManager.upgradePlugin), so publishing a new version no longer
+-- changes installed plugins underneath them.
+CREATE TABLE IF NOT EXISTS plugin_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plugin_id UUID NOT NULL REFERENCES plugins(id) ON DELETE CASCADE,
+    version VARCHAR(20) NOT NULL,
+    manifest JSONB NOT NULL,
+    code TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(plugin_id, version)
+);
+ALTER TABLE tenant_plugins
+ADD COLUMN IF NOT EXISTS version VARCHAR(20);
+-- Record a release whenever a plugin is published or republished
+CREATE OR REPLACE FUNCTION record_plugin_version() RETURNS TRIGGER AS $$ BEGIN
+INSERT INTO plugin_versions (plugin_id, version, manifest, code)
+VALUES (NEW.id, NEW.version, NEW.manifest, NEW.code) ON CONFLICT (plugin_id, version) DO
+UPDATE
+SET manifest = EXCLUDED.manifest,
+    code = EXCLUDED.code;
+RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+DROP TRIGGER IF EXISTS plugins_record_version ON plugins;
+CREATE TRIGGER plugins_record_version
+AFTER
+INSERT
+    OR
+UPDATE OF version,
+    manifest,
+    code ON plugins FOR EACH ROW EXECUTE FUNCTION record_plugin_version();
+-- Backfill current releases and the versions tenants are on
+INSERT INTO plugin_versions (plugin_id, version, manifest, code)
+SELECT id,
+    version,
+    manifest,
+    code
+FROM plugins ON CONFLICT (plugin_id, version) DO NOTHING;
+UPDATE tenant_plugins tp
+SET version = p.version
+FROM plugins p
+WHERE p.id = tp.plugin_id
+    AND tp.version IS NULL;
+-- Install at a given release (the latest by default); reinstalling keeps
+-- the installed version
+DROP FUNCTION IF EXISTS install_plugin(UUID, UUID, JSONB);
+CREATE OR REPLACE FUNCTION install_plugin(
+        p_tenant_id UUID,
+        p_plugin_id UUID,
+        p_config JSONB DEFAULT '{}',
+        p_version VARCHAR DEFAULT NULL
+    ) RETURNS UUID AS $$
+DECLARE v_tenant_plugin_id UUID;
+BEGIN -- Install plugin
+INSERT INTO tenant_plugins (tenant_id, plugin_id, config, version)
+VALUES (
+        p_tenant_id,
+        p_plugin_id,
+        p_config,
+        COALESCE(
+            p_version,
+            (
+                SELECT version
+                FROM plugins
+                WHERE id = p_plugin_id
+            )
+        )
+    ) ON CONFLICT (tenant_id, plugin_id) DO
+UPDATE
+SET config = EXCLUDED.config,
+    updated_at = NOW()
+RETURNING id INTO v_tenant_plugin_id;
+-- Increment download count
+UPDATE plugins
+SET downloads = downloads + 1
+WHERE id = p_plugin_id;
+-- Publish plugin installed event
+PERFORM publish_event(
+    'plugin.installed',
+    'plugin_manager',
+    jsonb_build_object(
+        'tenantId',
+        p_tenant_id,
+        'pluginId',
+        p_plugin_id,
+        'tenantPluginId',
+        v_tenant_plugin_id
+    )
+);
+RETURN v_tenant_plugin_id;
+END;
+$$ LANGUAGE plpgsql;
+-- Installed plugins report the version the tenant runs and the latest one
+DROP FUNCTION IF EXISTS get_tenant_plugins(UUID);
+CREATE OR REPLACE FUNCTION get_tenant_plugins(p_tenant_id UUID) RETURNS TABLE (
+        plugin_id UUID,
+        plugin_name VARCHAR,
+        plugin_slug VARCHAR,
+        plugin_version VARCHAR,
+        latest_version VARCHAR,
+        is_enabled BOOLEAN,
+        config JSONB,
+        installed_at TIMESTAMPTZ
+    ) AS $$ BEGIN RETURN QUERY
+SELECT p.id,
+    p.name,
+    p.slug,
+    COALESCE(tp.version, p.version),
+    p.version,
+    tp.is_enabled,
+    tp.config,
+    tp.installed_at
+FROM plugins p
+    INNER JOIN tenant_plugins tp ON p.id = tp.plugin_id
+WHERE tp.tenant_id = p_tenant_id
+ORDER BY tp.installed_at DESC;
+END;
+$$ LANGUAGE plpgsql;
+-- Hooks come from the manifest of the release the tenant runs; plugin_hooks
+-- can still switch a hook off
+CREATE OR REPLACE FUNCTION get_tenant_plugin_hooks(p_tenant_id UUID, p_hook_name VARCHAR) RETURNS TABLE (
+        tenant_plugin_id UUID,
+        plugin_id UUID,
+        plugin_name VARCHAR,
+        plugin_slug VARCHAR,
+        plugin_version VARCHAR,
+        manifest JSONB,
+        code TEXT,
+        config JSONB,
+        handler_function TEXT,
+        priority INTEGER
+    ) AS $$ BEGIN RETURN QUERY
+SELECT tp.id,
+    p.id,
+    p.name,
+    p.slug,
+    COALESCE(tp.version, p.version),
+    COALESCE(pv.manifest, p.manifest),
+    CASE
+        WHEN pv.id IS NULL THEN p.code
+        ELSE pv.code
+    END,
+    tp.config,
+    hook->>'handler',
+    COALESCE((hook->>'priority')::INTEGER, 10)
+FROM tenant_plugins tp
+    INNER JOIN plugins p ON p.id = tp.plugin_id
+    LEFT JOIN plugin_versions pv ON pv.plugin_id = p.id
+    AND pv.version = tp.version
+    CROSS JOIN LATERAL jsonb_array_elements(
+        COALESCE(COALESCE(pv.manifest, p.manifest)->'hooks', '[]'::jsonb)
+    ) hook
+    LEFT JOIN plugin_hooks ph ON ph.plugin_id = p.id
+    AND ph.hook_name = hook->>'name'
+    AND ph.handler_function = hook->>'handler'
+WHERE hook->>'name' = p_hook_name
+    AND hook->>'handler' IS NOT NULL
+    AND COALESCE(ph.is_active, true) = true
+    AND p.is_active = true
+    AND tp.tenant_id = p_tenant_id
+    AND tp.is_enabled = true
+ORDER BY 10 ASC;
+END;
+$$ LANGUAGE plpgsql;
+CREATE INDEX IF NOT EXISTS idx_plugin_versions_plugin ON plugin_versions(plugin_id);
+COMMENT ON TABLE plugin_versions IS 'Published releases of each plugin';
+COMMENT ON COLUMN tenant_plugins.version IS 'Release of the plugin the tenant runs';
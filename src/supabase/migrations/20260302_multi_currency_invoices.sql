@@ -0,0 +1,356 @@
+-- =====================================================
+-- BUSINESS OS - ACCOUNTING
+-- Multi-currency invoices
+-- =====================================================
+-- Invoices are issued in any currency. The rate to the tenant's base
+-- currency (business_settings.currency) is snapshotted at issue and again at
+-- payment; the ledger is kept in the base currency and the difference
+-- between the two is posted as a realized FX gain or loss.
+-- Exchange rates per tenant: entered manually or cached reference rates
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    base_currency TEXT NOT NULL,
+    quote_currency TEXT NOT NULL,
+    rate DECIMAL(18, 8) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ecb')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, base_currency, quote_currency, rate_date)
+);
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup ON exchange_rates(tenant_id, base_currency, quote_currency, rate_date DESC);
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_exchange_rates_policy ON exchange_rates;
+CREATE POLICY tenant_exchange_rates_policy ON exchange_rates FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON exchange_rates TO authenticated;
+-- Invoice currency and rate snapshots
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+    ADD COLUMN IF NOT EXISTS base_currency TEXT,
+    ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8),
+    ADD COLUMN IF NOT EXISTS base_total DECIMAL(15, 2),
+    ADD COLUMN IF NOT EXISTS payment_exchange_rate DECIMAL(18, 8),
+    ADD COLUMN IF NOT EXISTS realized_fx_gain_loss DECIMAL(15, 2);
+-- Existing invoices were issued in the tenant's base currency
+UPDATE business_invoices bi
+SET currency = bs.currency,
+    base_currency = bs.currency,
+    exchange_rate = 1,
+    base_total = bi.total
+FROM business_settings bs
+WHERE bs.tenant_id = bi.tenant_id
+    AND bs.currency IS NOT NULL
+    AND bi.exchange_rate IS NULL;
+UPDATE business_invoices
+SET base_currency = currency,
+    exchange_rate = 1,
+    base_total = total
+WHERE exchange_rate IS NULL;
+-- Rates such as JPY/USD need more precision than four places
+ALTER TABLE journal_entries
+ALTER COLUMN exchange_rate TYPE DECIMAL(18, 8);
+ALTER TABLE journal_entry_lines
+ALTER COLUMN exchange_rate TYPE DECIMAL(18, 8);
+-- Realized FX accounts for tenants that already have a chart of accounts
+INSERT INTO chart_of_accounts (
+        tenant_id,
+        account_code,
+        account_name,
+        account_type,
+        account_subtype,
+        normal_balance,
+        is_system_account
+    )
+SELECT t.tenant_id,
+    fx.account_code,
+    fx.account_name,
+    fx.account_type::account_type,
+    fx.account_subtype::account_subtype,
+    fx.normal_balance,
+    true
+FROM (
+        SELECT DISTINCT tenant_id
+        FROM chart_of_accounts
+    ) t
+    CROSS JOIN (
+        VALUES (
+                '7100',
+                'Realized Foreign Exchange Gain',
+                'other_income',
+                'non_operating_revenue',
+                'credit'
+            ),
+            (
+                '8100',
+                'Realized Foreign Exchange Loss',
+                'other_expense',
+                'non_operating_expense',
+                'debit'
+            )
+    ) AS fx(
+        account_code,
+        account_name,
+        account_type,
+        account_subtype,
+        normal_balance
+    )
+WHERE NOT EXISTS (
+        SELECT 1
+        FROM chart_of_accounts coa
+        WHERE coa.tenant_id = t.tenant_id
+            AND coa.account_code = fx.account_code
+    );
+-- New tenants get them with the default chart
+CREATE OR REPLACE FUNCTION create_default_chart_of_accounts(p_tenant_id UUID) RETURNS VOID AS $$ BEGIN -- ASSETS (1000-1999)
+INSERT INTO chart_of_accounts (
+        tenant_id,
+        account_code,
+        account_name,
+        account_type,
+        account_subtype,
+        normal_balance,
+        is_system_account
+    )
+VALUES (
+        p_tenant_id,
+        '1000',
+        'Cash',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1100',
+        'Accounts Receivable',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1200',
+        'Inventory',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1500',
+        'Equipment',
+        'asset',
+        'fixed_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1510',
+        'Accumulated Depreciation - Equipment',
+        'asset',
+        'fixed_asset',
+        'credit',
+        true
+    ),
+    -- LIABILITIES (2000-2999)
+    (
+        p_tenant_id,
+        '2000',
+        'Accounts Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2100',
+        'Credit Card Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2200',
+        'Sales Tax Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2500',
+        'Long-term Debt',
+        'liability',
+        'long_term_liability',
+        'credit',
+        true
+    ),
+    -- EQUITY (3000-3999)
+    (
+        p_tenant_id,
+        '3000',
+        'Owner''s Equity',
+        'equity',
+        'equity',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '3100',
+        'Retained Earnings',
+        'equity',
+        'retained_earnings',
+        'credit',
+        true
+    ),
+    -- REVENUE (4000-4999)
+    (
+        p_tenant_id,
+        '4000',
+        'Sales Revenue',
+        'revenue',
+        'operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '4100',
+        'Service Revenue',
+        'revenue',
+        'operating_revenue',
+        'credit',
+        true
+    ),
+    -- COST OF GOODS SOLD (5000-5999)
+    (
+        p_tenant_id,
+        '5000',
+        'Cost of Goods Sold',
+        'expense',
+        'cost_of_goods_sold',
+        'debit',
+        true
+    ),
+    -- OPERATING EXPENSES (6000-6999)
+    (
+        p_tenant_id,
+        '6000',
+        'Advertising Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6100',
+        'Office Supplies',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6200',
+        'Rent Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6300',
+        'Utilities Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6400',
+        'Insurance Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6500',
+        'Professional Fees',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6600',
+        'Salaries Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    -- OTHER INCOME/EXPENSE (7000-8999)
+    (
+        p_tenant_id,
+        '7000',
+        'Interest Income',
+        'other_income',
+        'non_operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '7100',
+        'Realized Foreign Exchange Gain',
+        'other_income',
+        'non_operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '8000',
+        'Interest Expense',
+        'other_expense',
+        'non_operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '8100',
+        'Realized Foreign Exchange Loss',
+        'other_expense',
+        'non_operating_expense',
+        'debit',
+        true
+    );
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE exchange_rates IS 'Exchange rates per tenant: units of quote_currency per unit of base_currency';
+COMMENT ON COLUMN business_invoices.exchange_rate IS 'Rate from the invoice currency to base_currency at issue';
+COMMENT ON COLUMN business_invoices.payment_exchange_rate IS 'Rate from the invoice currency to base_currency at payment';
+COMMENT ON COLUMN business_invoices.realized_fx_gain_loss IS 'Realized FX gain (positive) or loss (negative) in base currency';
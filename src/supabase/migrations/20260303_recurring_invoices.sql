@@ -0,0 +1,63 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Recurring invoice schedules
+-- =====================================================
+-- A schedule is an invoice template for one client that the daily cron
+-- (/api/cron/daily) turns into an invoice every period. next_run_date is the
+-- issue date of the next invoice; generated invoices point back at their
+-- schedule so a period is never billed twice.
+CREATE TABLE IF NOT EXISTS recurring_invoice_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES business_clients(id) ON DELETE CASCADE,
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly', 'annual')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    start_date DATE NOT NULL,
+    end_date DATE,
+    next_run_date DATE NOT NULL,
+    last_run_date DATE,
+    line_items JSONB NOT NULL DEFAULT '[]',
+    tax_rate NUMERIC DEFAULT 0,
+    discount_amount NUMERIC DEFAULT 0,
+    currency TEXT,
+    payment_terms_days INTEGER NOT NULL DEFAULT 14 CHECK (payment_terms_days >= 0),
+    notes TEXT,
+    auto_send BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    invoices_generated INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    CHECK (
+        end_date IS NULL
+        OR end_date >= start_date
+    )
+);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_schedules_tenant ON recurring_invoice_schedules(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoice_schedules_due ON recurring_invoice_schedules(next_run_date)
+WHERE is_active = true;
+DROP TRIGGER IF EXISTS update_recurring_invoice_schedules_updated_at ON recurring_invoice_schedules;
+CREATE TRIGGER update_recurring_invoice_schedules_updated_at BEFORE
+UPDATE ON recurring_invoice_schedules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+ALTER TABLE recurring_invoice_schedules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_recurring_invoice_schedules_policy ON recurring_invoice_schedules;
+CREATE POLICY tenant_recurring_invoice_schedules_policy ON recurring_invoice_schedules FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON recurring_invoice_schedules TO authenticated;
+-- Invoices generated from a schedule, one per period
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS recurring_schedule_id UUID REFERENCES recurring_invoice_schedules(id) ON DELETE SET NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_business_invoices_recurring_period ON business_invoices(recurring_schedule_id, issue_date)
+WHERE recurring_schedule_id IS NOT NULL;
+COMMENT ON TABLE recurring_invoice_schedules IS 'Invoice templates generated for a client every period by the daily cron';
+COMMENT ON COLUMN recurring_invoice_schedules.next_run_date IS 'Issue date of the next invoice to generate';
+COMMENT ON COLUMN recurring_invoice_schedules.currency IS 'Invoice currency; the tenant base currency when null';
+COMMENT ON COLUMN business_invoices.recurring_schedule_id IS 'Recurring schedule the invoice was generated from';
@@ -0,0 +1,122 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Invoice payments and allocations
+-- =====================================================
+-- A payment is money received from a client (Stripe, bank transfer, mobile
+-- money, ...). It is allocated across one or more of the client's invoices;
+-- each allocation reduces the invoice's amount due and is posted to the
+-- ledger on its own. Invoices with a balance left are 'partially_paid'.
+CREATE TABLE IF NOT EXISTS invoice_payments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES business_clients(id) ON DELETE SET NULL,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    currency TEXT NOT NULL,
+    payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    method TEXT NOT NULL CHECK (
+        method IN (
+            'stripe',
+            'bank_transfer',
+            'mobile_money',
+            'cash',
+            'cheque',
+            'other'
+        )
+    ),
+    reference TEXT,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_tenant ON invoice_payments(tenant_id, payment_date DESC);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_client ON invoice_payments(client_id);
+-- A Stripe payment is recorded once, however often its webhook is delivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_payments_stripe_reference ON invoice_payments(tenant_id, reference)
+WHERE method = 'stripe';
+CREATE TABLE IF NOT EXISTS invoice_payment_allocations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL REFERENCES invoice_payments(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES business_invoices(id) ON DELETE CASCADE,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(payment_id, invoice_id)
+);
+CREATE INDEX IF NOT EXISTS idx_invoice_payment_allocations_invoice ON invoice_payment_allocations(invoice_id);
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_payment_allocations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_invoice_payments_policy ON invoice_payments;
+CREATE POLICY tenant_invoice_payments_policy ON invoice_payments FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+DROP POLICY IF EXISTS tenant_invoice_payment_allocations_policy ON invoice_payment_allocations;
+CREATE POLICY tenant_invoice_payment_allocations_policy ON invoice_payment_allocations FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON invoice_payments TO authenticated;
+GRANT ALL ON invoice_payment_allocations TO authenticated;
+-- Invoice balances
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0;
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS amount_due DECIMAL(15, 2) GENERATED ALWAYS AS (total - amount_paid) STORED;
+-- Invoices already marked paid were paid in full
+UPDATE business_invoices
+SET amount_paid = total
+WHERE status = 'paid'
+    AND amount_paid = 0;
+-- Apply part of a payment to an invoice: records the allocation and moves
+-- the invoice to partially_paid or paid. The invoice row is locked so
+-- concurrent payments cannot overpay it.
+CREATE OR REPLACE FUNCTION apply_invoice_payment(
+        p_payment_id UUID,
+        p_invoice_id UUID,
+        p_amount DECIMAL
+    ) RETURNS business_invoices AS $$
+DECLARE v_invoice business_invoices;
+BEGIN
+SELECT * INTO v_invoice
+FROM business_invoices
+WHERE id = p_invoice_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Invoice % not found',
+p_invoice_id;
+END IF;
+IF v_invoice.status = 'draft' THEN RAISE EXCEPTION 'Invoice % has not been sent',
+v_invoice.invoice_number;
+END IF;
+IF p_amount > v_invoice.amount_due THEN RAISE EXCEPTION 'Payment of % exceeds the % due on invoice %',
+p_amount,
+v_invoice.amount_due,
+v_invoice.invoice_number;
+END IF;
+INSERT INTO invoice_payment_allocations (tenant_id, payment_id, invoice_id, amount)
+VALUES (
+        v_invoice.tenant_id,
+        p_payment_id,
+        p_invoice_id,
+        p_amount
+    );
+UPDATE business_invoices
+SET amount_paid = amount_paid + p_amount,
+    status = CASE
+        WHEN amount_paid + p_amount >= total THEN 'paid'
+        ELSE 'partially_paid'
+    END,
+    updated_at = NOW()
+WHERE id = p_invoice_id
+RETURNING * INTO v_invoice;
+RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE invoice_payments IS 'Payments received from clients, allocated across their invoices';
+COMMENT ON TABLE invoice_payment_allocations IS 'Part of a payment applied to one invoice';
+COMMENT ON COLUMN business_invoices.amount_due IS 'Balance still owed, in the invoice currency';
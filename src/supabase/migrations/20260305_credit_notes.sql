@@ -0,0 +1,239 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Credit notes and refunds
+-- =====================================================
+-- A credit note reverses all or part of an issued invoice (DR Revenue,
+-- CR Accounts Receivable). Its credit is applied to the invoice's open
+-- balance or refunded to the client (DR Accounts Receivable, CR Cash).
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES business_invoices(id) ON DELETE RESTRICT,
+    client_id UUID REFERENCES business_clients(id) ON DELETE SET NULL,
+    credit_note_number TEXT NOT NULL,
+    issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    reason TEXT,
+    line_items JSONB NOT NULL DEFAULT '[]',
+    subtotal DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    tax DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    total DECIMAL(15, 2) NOT NULL CHECK (total > 0),
+    currency TEXT NOT NULL,
+    exchange_rate DECIMAL(18, 8) NOT NULL DEFAULT 1,
+    base_total DECIMAL(15, 2),
+    amount_applied DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    amount_refunded DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    remaining_credit DECIMAL(15, 2) GENERATED ALWAYS AS (total - amount_applied - amount_refunded) STORED,
+    journal_entry_id UUID REFERENCES journal_entries(id),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, credit_note_number),
+    CHECK (amount_applied + amount_refunded <= total)
+);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON credit_notes(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_tenant ON credit_notes(tenant_id, issue_date DESC);
+DROP TRIGGER IF EXISTS update_credit_notes_updated_at ON credit_notes;
+CREATE TRIGGER update_credit_notes_updated_at BEFORE
+UPDATE ON credit_notes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TABLE IF NOT EXISTS credit_note_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    credit_note_id UUID NOT NULL REFERENCES credit_notes(id) ON DELETE CASCADE,
+    amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+    refund_date DATE NOT NULL DEFAULT CURRENT_DATE,
+    method TEXT NOT NULL CHECK (
+        method IN (
+            'stripe',
+            'bank_transfer',
+            'mobile_money',
+            'cash',
+            'cheque',
+            'other'
+        )
+    ),
+    reference TEXT,
+    journal_entry_id UUID REFERENCES journal_entries(id),
+    created_by UUID REFERENCES auth.users(id),
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_credit_note_refunds_credit_note ON credit_note_refunds(credit_note_id);
+-- A Stripe refund is recorded once, however often its webhook is delivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_note_refunds_stripe_reference ON credit_note_refunds(tenant_id, reference)
+WHERE method = 'stripe';
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_note_refunds ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_credit_notes_policy ON credit_notes;
+CREATE POLICY tenant_credit_notes_policy ON credit_notes FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+DROP POLICY IF EXISTS tenant_credit_note_refunds_policy ON credit_note_refunds;
+CREATE POLICY tenant_credit_note_refunds_policy ON credit_note_refunds FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON credit_notes TO authenticated;
+GRANT ALL ON credit_note_refunds TO authenticated;
+-- Credit applied to an invoice reduces its balance like a payment
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(15, 2) NOT NULL DEFAULT 0;
+ALTER TABLE business_invoices DROP COLUMN IF EXISTS amount_due;
+ALTER TABLE business_invoices
+ADD COLUMN amount_due DECIMAL(15, 2) GENERATED ALWAYS AS (total - amount_paid - amount_credited) STORED;
+-- Payments settle what credit notes have not
+CREATE OR REPLACE FUNCTION apply_invoice_payment(
+        p_payment_id UUID,
+        p_invoice_id UUID,
+        p_amount DECIMAL
+    ) RETURNS business_invoices AS $$
+DECLARE v_invoice business_invoices;
+BEGIN
+SELECT * INTO v_invoice
+FROM business_invoices
+WHERE id = p_invoice_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Invoice % not found',
+p_invoice_id;
+END IF;
+IF v_invoice.status = 'draft' THEN RAISE EXCEPTION 'Invoice % has not been sent',
+v_invoice.invoice_number;
+END IF;
+IF p_amount > v_invoice.amount_due THEN RAISE EXCEPTION 'Payment of % exceeds the % due on invoice %',
+p_amount,
+v_invoice.amount_due,
+v_invoice.invoice_number;
+END IF;
+INSERT INTO invoice_payment_allocations (tenant_id, payment_id, invoice_id, amount)
+VALUES (
+        v_invoice.tenant_id,
+        p_payment_id,
+        p_invoice_id,
+        p_amount
+    );
+UPDATE business_invoices
+SET amount_paid = amount_paid + p_amount,
+    status = CASE
+        WHEN amount_paid + p_amount + amount_credited >= total THEN 'paid'
+        ELSE 'partially_paid'
+    END,
+    updated_at = NOW()
+WHERE id = p_invoice_id
+RETURNING * INTO v_invoice;
+RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+-- Apply credit to the invoice's open balance. An invoice fully settled by
+-- credit alone is void; one that was also paid is paid.
+CREATE OR REPLACE FUNCTION apply_credit_note(p_credit_note_id UUID, p_amount DECIMAL) RETURNS business_invoices AS $$
+DECLARE v_credit_note credit_notes;
+v_invoice business_invoices;
+BEGIN
+SELECT * INTO v_credit_note
+FROM credit_notes
+WHERE id = p_credit_note_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Credit note % not found',
+p_credit_note_id;
+END IF;
+SELECT * INTO v_invoice
+FROM business_invoices
+WHERE id = v_credit_note.invoice_id FOR
+UPDATE;
+IF p_amount > v_credit_note.remaining_credit THEN RAISE EXCEPTION 'Only % credit remains on %',
+v_credit_note.remaining_credit,
+v_credit_note.credit_note_number;
+END IF;
+IF p_amount > v_invoice.amount_due THEN RAISE EXCEPTION 'Credit of % exceeds the % due on invoice %',
+p_amount,
+v_invoice.amount_due,
+v_invoice.invoice_number;
+END IF;
+UPDATE credit_notes
+SET amount_applied = amount_applied + p_amount
+WHERE id = p_credit_note_id;
+UPDATE business_invoices
+SET amount_credited = amount_credited + p_amount,
+    status = CASE
+        WHEN amount_paid + amount_credited + p_amount < total THEN status
+        WHEN amount_paid > 0 THEN 'paid'
+        ELSE 'void'
+    END,
+    updated_at = NOW()
+WHERE id = v_invoice.id
+RETURNING * INTO v_invoice;
+RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+-- Refund credit to the client; refunds on an invoice cannot exceed what
+-- was paid on it
+CREATE OR REPLACE FUNCTION refund_credit_note(
+        p_credit_note_id UUID,
+        p_amount DECIMAL,
+        p_refund_date DATE,
+        p_method TEXT,
+        p_reference TEXT DEFAULT NULL,
+        p_created_by UUID DEFAULT NULL
+    ) RETURNS credit_note_refunds AS $$
+DECLARE v_credit_note credit_notes;
+v_amount_paid DECIMAL;
+v_refunded DECIMAL;
+v_refund credit_note_refunds;
+BEGIN
+SELECT * INTO v_credit_note
+FROM credit_notes
+WHERE id = p_credit_note_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Credit note % not found',
+p_credit_note_id;
+END IF;
+IF p_amount > v_credit_note.remaining_credit THEN RAISE EXCEPTION 'Only % credit remains on %',
+v_credit_note.remaining_credit,
+v_credit_note.credit_note_number;
+END IF;
+SELECT amount_paid INTO v_amount_paid
+FROM business_invoices
+WHERE id = v_credit_note.invoice_id FOR
+UPDATE;
+SELECT COALESCE(SUM(amount_refunded), 0) INTO v_refunded
+FROM credit_notes
+WHERE invoice_id = v_credit_note.invoice_id;
+IF v_refunded + p_amount > v_amount_paid THEN RAISE EXCEPTION 'Refunds of % would exceed the % paid on the invoice',
+v_refunded + p_amount,
+v_amount_paid;
+END IF;
+UPDATE credit_notes
+SET amount_refunded = amount_refunded + p_amount
+WHERE id = p_credit_note_id;
+INSERT INTO credit_note_refunds (
+        tenant_id,
+        credit_note_id,
+        amount,
+        refund_date,
+        method,
+        reference,
+        created_by
+    )
+VALUES (
+        v_credit_note.tenant_id,
+        p_credit_note_id,
+        p_amount,
+        p_refund_date,
+        p_method,
+        p_reference,
+        p_created_by
+    )
+RETURNING * INTO v_refund;
+RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE credit_notes IS 'Credit issued against an invoice, applied to its balance or refunded';
+COMMENT ON TABLE credit_note_refunds IS 'Credit paid back to the client';
+COMMENT ON COLUMN business_invoices.amount_credited IS 'Credit note amounts applied to the invoice balance';
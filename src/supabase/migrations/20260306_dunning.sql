@@ -0,0 +1,116 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Dunning policies, reminder history and late fees
+-- =====================================================
+-- Each tenant has one dunning policy. The daily cron marks unpaid invoices
+-- overdue, emails the reminder for every policy step whose day has come
+-- (days relative to the due date, negative before it) and adds a late fee
+-- or interest line once the grace period is over.
+CREATE TABLE IF NOT EXISTS dunning_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL UNIQUE REFERENCES tenants(id) ON DELETE CASCADE,
+    is_enabled BOOLEAN NOT NULL DEFAULT true,
+    -- [{ "offsetDays": -3, "template": "friendly" }, { "offsetDays": 30, "template": "final" }]
+    steps JSONB NOT NULL DEFAULT '[{"offsetDays":-3,"template":"friendly"},{"offsetDays":1,"template":"overdue"},{"offsetDays":7,"template":"firm"},{"offsetDays":21,"template":"final"}]',
+    late_fee_type TEXT NOT NULL DEFAULT 'none' CHECK (
+        late_fee_type IN ('none', 'flat', 'percentage', 'interest')
+    ),
+    -- Flat amount in the invoice currency, a percentage of the amount due, or
+    -- annual interest on it. Any type is charged again every 30 days, up to
+    -- max_late_fees times.
+    late_fee_value DECIMAL(15, 4) NOT NULL DEFAULT 0 CHECK (late_fee_value >= 0),
+    late_fee_grace_days INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_grace_days >= 0),
+    max_late_fees INTEGER NOT NULL DEFAULT 1 CHECK (max_late_fees >= 0),
+    min_amount_due DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    pause_on_partial_payment BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+DROP TRIGGER IF EXISTS update_dunning_policies_updated_at ON dunning_policies;
+CREATE TRIGGER update_dunning_policies_updated_at BEFORE
+UPDATE ON dunning_policies FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TABLE IF NOT EXISTS invoice_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES business_invoices(id) ON DELETE CASCADE,
+    step_index INTEGER NOT NULL,
+    template TEXT NOT NULL,
+    offset_days INTEGER NOT NULL,
+    recipient TEXT,
+    amount_due DECIMAL(15, 2),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    error TEXT,
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Each step is claimed once per invoice, so overlapping runs never double-send
+    UNIQUE(invoice_id, step_index)
+);
+CREATE INDEX IF NOT EXISTS idx_invoice_reminders_tenant ON invoice_reminders(tenant_id, created_at DESC);
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS dunning_paused BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS late_fees_applied INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS last_late_fee_date DATE;
+ALTER TABLE dunning_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_reminders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_dunning_policies_policy ON dunning_policies;
+CREATE POLICY tenant_dunning_policies_policy ON dunning_policies FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+DROP POLICY IF EXISTS tenant_invoice_reminders_policy ON invoice_reminders;
+CREATE POLICY tenant_invoice_reminders_policy ON invoice_reminders FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON dunning_policies TO authenticated;
+GRANT ALL ON invoice_reminders TO authenticated;
+-- Add a late fee line to an open invoice. Claimed on the invoice row with
+-- the fee count and date, so a fee is charged once per period.
+CREATE OR REPLACE FUNCTION apply_invoice_late_fee(
+        p_invoice_id UUID,
+        p_amount DECIMAL,
+        p_description TEXT,
+        p_fee_date DATE,
+        p_expected_count INTEGER
+    ) RETURNS business_invoices AS $$
+DECLARE v_invoice business_invoices;
+BEGIN
+UPDATE business_invoices
+SET line_items = COALESCE(line_items, '[]'::jsonb) || jsonb_build_array(
+        jsonb_build_object(
+            'description',
+            p_description,
+            'quantity',
+            1,
+            'rate',
+            p_amount,
+            'amount',
+            p_amount,
+            'isLateFee',
+            true
+        )
+    ),
+    subtotal = subtotal + p_amount,
+    total = total + p_amount,
+    base_total = base_total + ROUND(p_amount * COALESCE(exchange_rate, 1), 2),
+    late_fees_applied = late_fees_applied + 1,
+    last_late_fee_date = p_fee_date,
+    updated_at = NOW()
+WHERE id = p_invoice_id
+    AND late_fees_applied = p_expected_count
+    AND status IN ('sent', 'overdue', 'partially_paid')
+RETURNING * INTO v_invoice;
+RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON TABLE dunning_policies IS 'Per-tenant reminder schedule and late fee rules for unpaid invoices';
+COMMENT ON TABLE invoice_reminders IS 'Payment reminders sent for an invoice, one per dunning step';
+COMMENT ON COLUMN business_invoices.dunning_paused IS 'Stops reminders and late fees for this invoice';
@@ -0,0 +1,96 @@
+-- =====================================================
+-- BUSINESS OS - SALES
+-- Public quote acceptance and conversion
+-- =====================================================
+-- Clients open a sent quote at /quote/[token], choose which optional items
+-- they want and sign to accept. Acceptance converts the quote into an
+-- issued invoice (or a deposit invoice) and a project, and moves the
+-- linked deal to closed_won.
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS public_token TEXT UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex');
+UPDATE quotes
+SET public_token = encode(gen_random_bytes(24), 'hex')
+WHERE public_token IS NULL;
+ALTER TABLE quotes
+ALTER COLUMN public_token SET NOT NULL;
+-- When set, acceptance bills this share of the total up front instead of the whole quote
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS deposit_percent DECIMAL(5, 2) CHECK (
+        deposit_percent > 0
+        AND deposit_percent <= 100
+    );
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS client_id UUID REFERENCES business_clients(id) ON DELETE SET NULL;
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS invoice_id UUID REFERENCES business_invoices(id) ON DELETE SET NULL;
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS project_id UUID REFERENCES projects(id) ON DELETE SET NULL;
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS signature_event_id UUID;
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS is_optional BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS is_selected BOOLEAN NOT NULL DEFAULT true;
+CREATE INDEX IF NOT EXISTS idx_quotes_public_token ON quotes(public_token);
+-- Quote signatures are recorded alongside contract signatures
+ALTER TABLE signature_events
+ALTER COLUMN contract_id DROP NOT NULL;
+ALTER TABLE signature_events
+ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES quotes(id) ON DELETE CASCADE;
+ALTER TABLE signature_events DROP CONSTRAINT IF EXISTS signature_events_document_check;
+ALTER TABLE signature_events
+ADD CONSTRAINT signature_events_document_check CHECK (
+        contract_id IS NOT NULL
+        OR quote_id IS NOT NULL
+    );
+CREATE INDEX IF NOT EXISTS idx_signature_events_quote ON signature_events(quote_id);
+-- Totals only count the items the client has selected
+CREATE OR REPLACE FUNCTION update_quote_totals() RETURNS TRIGGER AS $$ BEGIN
+UPDATE public.quotes
+SET subtotal = (
+        SELECT COALESCE(
+                SUM(quantity * unit_price * (1 - discount_percent / 100)),
+                0
+            )
+        FROM public.quote_items
+        WHERE quote_id = COALESCE(NEW.quote_id, OLD.quote_id)
+            AND is_selected
+    ),
+    tax_amount = (
+        SELECT COALESCE(
+                SUM(
+                    quantity * unit_price * (1 - discount_percent / 100) * (tax_percent / 100)
+                ),
+                0
+            )
+        FROM public.quote_items
+        WHERE quote_id = COALESCE(NEW.quote_id, OLD.quote_id)
+            AND is_selected
+    ),
+    total_amount = (
+        SELECT COALESCE(SUM(line_total), 0)
+        FROM public.quote_items
+        WHERE quote_id = COALESCE(NEW.quote_id, OLD.quote_id)
+            AND is_selected
+    ) - discount_amount
+WHERE id = COALESCE(NEW.quote_id, OLD.quote_id);
+RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+-- Called for every view of the public page; the first view moves a sent quote to viewed
+CREATE OR REPLACE FUNCTION increment_quote_view_count(quote_id UUID) RETURNS VOID AS $$ BEGIN
+UPDATE public.quotes q
+SET view_count = COALESCE(q.view_count, 0) + 1,
+    viewed_at = COALESCE(q.viewed_at, NOW()),
+    status = CASE
+        WHEN q.status = 'sent' THEN 'viewed'::quote_status
+        ELSE q.status
+    END
+WHERE q.id = increment_quote_view_count.quote_id;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON COLUMN quotes.public_token IS 'Secret for the public /quote/[token] acceptance page';
+COMMENT ON COLUMN quotes.deposit_percent IS 'Percentage of the accepted total invoiced as a deposit; the whole quote when null';
+COMMENT ON COLUMN quotes.invoice_id IS 'Invoice (or deposit invoice) the accepted quote was converted into';
+COMMENT ON COLUMN quote_items.is_optional IS 'Client may leave this item out when accepting';
+COMMENT ON COLUMN quote_items.is_selected IS 'Counted in the quote totals and invoiced on acceptance';
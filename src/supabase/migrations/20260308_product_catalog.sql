@@ -0,0 +1,47 @@
+-- =====================================================
+-- BUSINESS OS - SALES
+-- Product and service catalog
+-- =====================================================
+-- Quotes, deals and invoices pick their lines from the tenant's catalog
+-- instead of typing names and prices. Invoice revenue is posted to the
+-- product's revenue account (Service Revenue 4100 when none is set).
+CREATE TABLE IF NOT EXISTS catalog_products (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    sku TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    item_type TEXT NOT NULL DEFAULT 'service' CHECK (item_type IN ('product', 'service')),
+    unit TEXT NOT NULL DEFAULT 'each',
+    -- Default unit price per currency: { "USD": 150, "EUR": 140 }
+    prices JSONB NOT NULL DEFAULT '{}',
+    tax_category TEXT NOT NULL DEFAULT 'standard' CHECK (
+        tax_category IN ('standard', 'reduced', 'zero', 'exempt')
+    ),
+    revenue_account_id UUID REFERENCES chart_of_accounts(id) ON DELETE SET NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, sku)
+);
+CREATE INDEX IF NOT EXISTS idx_catalog_products_tenant ON catalog_products(tenant_id, is_active);
+DROP TRIGGER IF EXISTS update_catalog_products_updated_at ON catalog_products;
+CREATE TRIGGER update_catalog_products_updated_at BEFORE
+UPDATE ON catalog_products FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- Invoice lines reference products by "productId" inside line_items
+ALTER TABLE quote_items
+ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES catalog_products(id) ON DELETE SET NULL;
+ALTER TABLE deal_products
+ADD COLUMN IF NOT EXISTS product_id UUID REFERENCES catalog_products(id) ON DELETE SET NULL;
+ALTER TABLE catalog_products ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_catalog_products_policy ON catalog_products;
+CREATE POLICY tenant_catalog_products_policy ON catalog_products FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON catalog_products TO authenticated;
+COMMENT ON TABLE catalog_products IS 'Tenant catalog of products and services sold on quotes, deals and invoices';
+COMMENT ON COLUMN catalog_products.revenue_account_id IS 'Revenue account credited when the product is invoiced; Service Revenue (4100) when null';
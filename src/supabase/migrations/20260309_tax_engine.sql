@@ -0,0 +1,62 @@
+-- =====================================================
+-- BUSINESS OS - ACCOUNTING
+-- Tax rates, per-line tax codes and client exemptions
+-- =====================================================
+-- A tax rate is a named code made of one or more components (VAT 20%,
+-- or CA State 6% + LA County 2.5%). A compound component is charged on
+-- the line plus the components before it. Each component posts to its own
+-- liability account (Sales Tax Payable 2200 when none is set). Invoices
+-- keep the tax they charged per component, so credit notes and the tax
+-- summary report never need today's rates.
+CREATE TABLE IF NOT EXISTS tax_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    name TEXT NOT NULL,
+    -- [{ "name": "State", "rate": 6, "isCompound": false, "accountId": null }]
+    components JSONB NOT NULL DEFAULT '[]',
+    -- Catalog products of this tax category are given this code
+    tax_category TEXT NOT NULL DEFAULT 'standard' CHECK (
+        tax_category IN ('standard', 'reduced', 'zero', 'exempt')
+    ),
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, code)
+);
+CREATE INDEX IF NOT EXISTS idx_tax_rates_tenant ON tax_rates(tenant_id, is_active);
+DROP TRIGGER IF EXISTS update_tax_rates_updated_at ON tax_rates;
+CREATE TRIGGER update_tax_rates_updated_at BEFORE
+UPDATE ON tax_rates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+-- Invoice lines carry "taxRateId" and "taxAmount" inside line_items
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS prices_include_tax BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE business_invoices
+ADD COLUMN IF NOT EXISTS exempt_amount DECIMAL(15, 2) NOT NULL DEFAULT 0;
+ALTER TABLE credit_notes
+ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE credit_notes
+ADD COLUMN IF NOT EXISTS exempt_amount DECIMAL(15, 2) NOT NULL DEFAULT 0;
+ALTER TABLE business_clients
+ADD COLUMN IF NOT EXISTS tax_id TEXT;
+ALTER TABLE business_clients
+ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE business_clients
+ADD COLUMN IF NOT EXISTS tax_exemption_reason TEXT;
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_tax_rates_policy ON tax_rates;
+CREATE POLICY tenant_tax_rates_policy ON tax_rates FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON tax_rates TO authenticated;
+COMMENT ON TABLE tax_rates IS 'Named tax codes made of simple or compound components, each posting to a liability account';
+COMMENT ON COLUMN business_invoices.tax_lines IS 'Tax charged per rate component: taxable amount, tax and the account it posts to';
+COMMENT ON COLUMN business_invoices.exempt_amount IS 'Net sales on the invoice that carried no tax (no code, or an exempt client)';
+COMMENT ON COLUMN business_clients.tax_exempt IS 'No tax is charged on invoices to the client';
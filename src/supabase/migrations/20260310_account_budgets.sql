@@ -0,0 +1,34 @@
+-- =====================================================
+-- BUSINESS OS - ACCOUNTING
+-- Monthly account budgets for budget vs actual reporting
+-- =====================================================
+-- One amount per account per calendar month. A report period is compared
+-- against the budgets of every month it touches, so budgets line up with
+-- month, quarter and year reports. Amounts use the account's normal
+-- balance, like the balances on the P&L.
+CREATE TABLE IF NOT EXISTS account_budgets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES chart_of_accounts(id) ON DELETE CASCADE,
+    period_start DATE NOT NULL CHECK (EXTRACT(DAY FROM period_start) = 1),
+    amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(tenant_id, account_id, period_start)
+);
+CREATE INDEX IF NOT EXISTS idx_account_budgets_period ON account_budgets(tenant_id, period_start);
+DROP TRIGGER IF EXISTS update_account_budgets_updated_at ON account_budgets;
+CREATE TRIGGER update_account_budgets_updated_at BEFORE
+UPDATE ON account_budgets FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+ALTER TABLE account_budgets ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS tenant_account_budgets_policy ON account_budgets;
+CREATE POLICY tenant_account_budgets_policy ON account_budgets FOR ALL USING (
+    tenant_id IN (
+        SELECT tenant_id
+        FROM tenant_users
+        WHERE user_id = auth.uid()
+    )
+);
+GRANT ALL ON account_budgets TO authenticated;
+COMMENT ON TABLE account_budgets IS 'Budgeted amount per account per calendar month, compared against actuals on the P&L';
+COMMENT ON COLUMN account_budgets.period_start IS 'First day of the budgeted month';
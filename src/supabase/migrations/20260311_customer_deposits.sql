@@ -0,0 +1,349 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Customer deposits for unapplied payments
+-- =====================================================
+-- The part of a payment not applied to an invoice is money owed back to
+-- the client until it is: it is posted DR Cash, CR Customer Deposits
+-- (2300). Applying it to an invoice later moves it onto the receivable
+-- (DR Customer Deposits, CR Accounts Receivable).
+INSERT INTO chart_of_accounts (
+        tenant_id,
+        account_code,
+        account_name,
+        account_type,
+        account_subtype,
+        normal_balance,
+        is_system_account
+    )
+SELECT t.tenant_id,
+    '2300',
+    'Customer Deposits',
+    'liability',
+    'current_liability',
+    'credit',
+    true
+FROM (
+        SELECT DISTINCT tenant_id
+        FROM chart_of_accounts
+    ) t
+WHERE NOT EXISTS (
+        SELECT 1
+        FROM chart_of_accounts coa
+        WHERE coa.tenant_id = t.tenant_id
+            AND coa.account_code = '2300'
+    );
+-- New tenants get it with the default chart
+CREATE OR REPLACE FUNCTION create_default_chart_of_accounts(p_tenant_id UUID) RETURNS VOID AS $$ BEGIN -- ASSETS (1000-1999)
+INSERT INTO chart_of_accounts (
+        tenant_id,
+        account_code,
+        account_name,
+        account_type,
+        account_subtype,
+        normal_balance,
+        is_system_account
+    )
+VALUES (
+        p_tenant_id,
+        '1000',
+        'Cash',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1100',
+        'Accounts Receivable',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1200',
+        'Inventory',
+        'asset',
+        'current_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1500',
+        'Equipment',
+        'asset',
+        'fixed_asset',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '1510',
+        'Accumulated Depreciation - Equipment',
+        'asset',
+        'fixed_asset',
+        'credit',
+        true
+    ),
+    -- LIABILITIES (2000-2999)
+    (
+        p_tenant_id,
+        '2000',
+        'Accounts Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2100',
+        'Credit Card Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2200',
+        'Sales Tax Payable',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2300',
+        'Customer Deposits',
+        'liability',
+        'current_liability',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '2500',
+        'Long-term Debt',
+        'liability',
+        'long_term_liability',
+        'credit',
+        true
+    ),
+    -- EQUITY (3000-3999)
+    (
+        p_tenant_id,
+        '3000',
+        'Owner''s Equity',
+        'equity',
+        'equity',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '3100',
+        'Retained Earnings',
+        'equity',
+        'retained_earnings',
+        'credit',
+        true
+    ),
+    -- REVENUE (4000-4999)
+    (
+        p_tenant_id,
+        '4000',
+        'Sales Revenue',
+        'revenue',
+        'operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '4100',
+        'Service Revenue',
+        'revenue',
+        'operating_revenue',
+        'credit',
+        true
+    ),
+    -- COST OF GOODS SOLD (5000-5999)
+    (
+        p_tenant_id,
+        '5000',
+        'Cost of Goods Sold',
+        'expense',
+        'cost_of_goods_sold',
+        'debit',
+        true
+    ),
+    -- OPERATING EXPENSES (6000-6999)
+    (
+        p_tenant_id,
+        '6000',
+        'Advertising Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6100',
+        'Office Supplies',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6200',
+        'Rent Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6300',
+        'Utilities Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6400',
+        'Insurance Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6500',
+        'Professional Fees',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '6600',
+        'Salaries Expense',
+        'expense',
+        'operating_expense',
+        'debit',
+        true
+    ),
+    -- OTHER INCOME/EXPENSE (7000-8999)
+    (
+        p_tenant_id,
+        '7000',
+        'Interest Income',
+        'other_income',
+        'non_operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '7100',
+        'Realized Foreign Exchange Gain',
+        'other_income',
+        'non_operating_revenue',
+        'credit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '8000',
+        'Interest Expense',
+        'other_expense',
+        'non_operating_expense',
+        'debit',
+        true
+    ),
+    (
+        p_tenant_id,
+        '8100',
+        'Realized Foreign Exchange Loss',
+        'other_expense',
+        'non_operating_expense',
+        'debit',
+        true
+    );
+END;
+$$ LANGUAGE plpgsql;
+-- A payment's credit can be applied over several calls, so its allocation
+-- to an invoice grows rather than being inserted twice. The payment row is
+-- locked so concurrent calls cannot apply more than was received.
+CREATE OR REPLACE FUNCTION apply_invoice_payment(
+        p_payment_id UUID,
+        p_invoice_id UUID,
+        p_amount DECIMAL
+    ) RETURNS business_invoices AS $$
+DECLARE v_invoice business_invoices;
+v_payment_amount DECIMAL;
+v_allocated DECIMAL;
+BEGIN
+SELECT amount INTO v_payment_amount
+FROM invoice_payments
+WHERE id = p_payment_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Payment % not found',
+p_payment_id;
+END IF;
+SELECT COALESCE(SUM(amount), 0) INTO v_allocated
+FROM invoice_payment_allocations
+WHERE payment_id = p_payment_id;
+IF v_allocated + p_amount > v_payment_amount THEN RAISE EXCEPTION 'Only % of the payment is left to apply',
+v_payment_amount - v_allocated;
+END IF;
+SELECT * INTO v_invoice
+FROM business_invoices
+WHERE id = p_invoice_id FOR
+UPDATE;
+IF NOT FOUND THEN RAISE EXCEPTION 'Invoice % not found',
+p_invoice_id;
+END IF;
+IF v_invoice.status = 'draft' THEN RAISE EXCEPTION 'Invoice % has not been sent',
+v_invoice.invoice_number;
+END IF;
+IF p_amount > v_invoice.amount_due THEN RAISE EXCEPTION 'Payment of % exceeds the % due on invoice %',
+p_amount,
+v_invoice.amount_due,
+v_invoice.invoice_number;
+END IF;
+INSERT INTO invoice_payment_allocations (tenant_id, payment_id, invoice_id, amount)
+VALUES (
+        v_invoice.tenant_id,
+        p_payment_id,
+        p_invoice_id,
+        p_amount
+    ) ON CONFLICT (payment_id, invoice_id) DO
+UPDATE
+SET amount = invoice_payment_allocations.amount + EXCLUDED.amount;
+UPDATE business_invoices
+SET amount_paid = amount_paid + p_amount,
+    status = CASE
+        WHEN amount_paid + p_amount + amount_credited >= total THEN 'paid'
+        ELSE 'partially_paid'
+    END,
+    updated_at = NOW()
+WHERE id = p_invoice_id
+RETURNING * INTO v_invoice;
+RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON FUNCTION apply_invoice_payment IS 'Apply part of a payment, or of its unapplied credit, to an invoice';
@@ -0,0 +1,68 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Atomic Stripe refunds
+-- =====================================================
+-- A Stripe refund is recorded as a credit note refunded in full. The note
+-- and its refund are written in one transaction, keyed on the refund's
+-- Stripe reference, so a failed refund never leaves an orphaned credit
+-- note behind and a redelivered webhook records nothing.
+CREATE OR REPLACE FUNCTION record_stripe_refund(
+        p_credit_note JSONB,
+        p_amount DECIMAL,
+        p_refund_date DATE,
+        p_reference TEXT
+    ) RETURNS credit_note_refunds AS $$
+DECLARE v_credit_note_id UUID;
+v_refund credit_note_refunds;
+BEGIN
+IF EXISTS (
+    SELECT 1
+    FROM credit_note_refunds
+    WHERE tenant_id = (p_credit_note->>'tenant_id')::UUID
+        AND method = 'stripe'
+        AND reference = p_reference
+) THEN RETURN NULL;
+END IF;
+INSERT INTO credit_notes (
+        tenant_id,
+        invoice_id,
+        client_id,
+        credit_note_number,
+        issue_date,
+        reason,
+        line_items,
+        subtotal,
+        tax,
+        tax_lines,
+        total,
+        currency,
+        exchange_rate,
+        base_total
+    )
+SELECT tenant_id,
+    invoice_id,
+    client_id,
+    credit_note_number,
+    issue_date,
+    reason,
+    COALESCE(line_items, '[]'),
+    subtotal,
+    tax,
+    COALESCE(tax_lines, '[]'),
+    total,
+    currency,
+    exchange_rate,
+    base_total
+FROM jsonb_populate_record(NULL::credit_notes, p_credit_note)
+RETURNING id INTO v_credit_note_id;
+v_refund := refund_credit_note(
+    v_credit_note_id,
+    p_amount,
+    p_refund_date,
+    'stripe',
+    p_reference
+);
+RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON FUNCTION record_stripe_refund IS 'Issue and refund a credit note for a Stripe refund in one transaction';
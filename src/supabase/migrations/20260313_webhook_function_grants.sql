@@ -0,0 +1,15 @@
+-- =====================================================
+-- BUSINESS OS - OUTBOUND WEBHOOKS
+-- Restrict the delivery functions to the service role
+-- =====================================================
+-- claim_webhook_retries and record_webhook_attempt run as SECURITY DEFINER
+-- and bypass the tenant policies on webhook_deliveries. Only the webhook
+-- cron and the delivery paths, which use the service role, may call them;
+-- otherwise any signed-in user could claim other tenants' deliveries or
+-- disable their endpoints by recording failed attempts.
+REVOKE EXECUTE ON FUNCTION claim_webhook_retries(INTEGER, INTERVAL)
+FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_webhook_attempt(UUID, BOOLEAN, INTEGER, TEXT, TEXT, INTEGER)
+FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_retries(INTEGER, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION record_webhook_attempt(UUID, BOOLEAN, INTEGER, TEXT, TEXT, INTEGER) TO service_role;
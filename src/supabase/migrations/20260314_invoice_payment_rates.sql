@@ -0,0 +1,25 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Exchange rate snapshot on payments
+-- =====================================================
+-- The rate from the payment currency to the tenant's base currency on the
+-- payment date is stored when the payment is recorded. Credit applied from
+-- the payment later leaves Customer Deposits (2300) at this rate, the one
+-- it was received at, whatever the rate table says by then.
+ALTER TABLE invoice_payments
+ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(18, 8) CHECK (exchange_rate > 0);
+-- Existing payments: the rate their receipt was posted at
+UPDATE invoice_payments p
+SET exchange_rate = je.exchange_rate
+FROM journal_entries je
+WHERE je.source_id = p.id
+    AND je.source_type IN ('customer_deposit', 'payment')
+    AND je.exchange_rate IS NOT NULL
+    AND p.exchange_rate IS NULL;
+UPDATE invoice_payments p
+SET exchange_rate = 1
+FROM business_settings bs
+WHERE bs.tenant_id = p.tenant_id
+    AND bs.currency = p.currency
+    AND p.exchange_rate IS NULL;
+COMMENT ON COLUMN invoice_payments.exchange_rate IS 'Rate from the payment currency to the base currency on the payment date';
@@ -0,0 +1,50 @@
+-- =====================================================
+-- BUSINESS OS - INVOICING
+-- Atomic payment recording
+-- =====================================================
+-- A payment and its allocations are written in one transaction, so an
+-- allocation that fails (an invoice paid meanwhile, or no longer due)
+-- never leaves the payment recorded with only some of its allocations.
+CREATE OR REPLACE FUNCTION record_invoice_payment(
+        p_payment JSONB,
+        p_allocations JSONB
+    ) RETURNS invoice_payments AS $$
+DECLARE v_payment invoice_payments;
+v_allocation JSONB;
+BEGIN
+INSERT INTO invoice_payments (
+        tenant_id,
+        client_id,
+        amount,
+        currency,
+        payment_date,
+        method,
+        reference,
+        notes,
+        exchange_rate,
+        created_by
+    )
+SELECT tenant_id,
+    client_id,
+    amount,
+    currency,
+    COALESCE(payment_date, CURRENT_DATE),
+    method,
+    reference,
+    notes,
+    exchange_rate,
+    created_by
+FROM jsonb_populate_record(NULL::invoice_payments, p_payment)
+RETURNING * INTO v_payment;
+FOR v_allocation IN
+SELECT *
+FROM jsonb_array_elements(COALESCE(p_allocations, '[]')) LOOP PERFORM apply_invoice_payment(
+        v_payment.id,
+        (v_allocation->>'invoice_id')::UUID,
+        (v_allocation->>'amount')::DECIMAL
+    );
+END LOOP;
+RETURN v_payment;
+END;
+$$ LANGUAGE plpgsql;
+COMMENT ON FUNCTION record_invoice_payment IS 'Record a payment and apply it to invoices in one transaction';
@@ -0,0 +1,102 @@
+const { test, expect } = require('@playwright/test');
+const { buildCashFlowStatement } = require('../src/services/accounting/generalLedgerService');
+
+const account = (accountCode, accountType, normalBalance, balance, accountSubtype) => ({
+    accountId: `acc-${accountCode}`,
+    accountCode,
+    accountName: accountCode,
+    accountType,
+    accountSubtype,
+    normalBalance,
+    debitTotal: 0,
+    creditTotal: 0,
+    balance
+});
+
+// A period of: sales 1,000 on credit, 600 collected, 300 of expenses paid,
+// equipment bought for 500, 50 of depreciation, 200 of expenses on account,
+// a 1,000 loan drawn and 100 taken out by the owner
+const movements = [
+    account('1000', 'asset', 'debit', 700),
+    account('1100', 'asset', 'debit', 400, 'current_asset'),
+    account('1500', 'asset', 'debit', 500, 'fixed_asset'),
+    account('1510', 'asset', 'credit', 50, 'fixed_asset'),
+    account('2000', 'liability', 'credit', 200, 'current_liability'),
+    account('2500', 'liability', 'credit', 1000, 'long_term_liability'),
+    account('3000', 'equity', 'credit', -100),
+    account('4000', 'revenue', 'credit', 1000),
+    account('5000', 'expense', 'debit', 550)
+];
+const closing = [account('1000', 'asset', 'debit', 1200)];
+
+const amountOf = (items, code) => items.find(item => item.accountCode === code)?.amount;
+
+test.describe('Cash flow statement', () => {
+    const statement = buildCashFlowStatement(movements, closing);
+
+    test('Starts from net income', () => {
+        expect(statement.netIncome).toBe(450);
+    });
+
+    test('Adds back depreciation as a non-cash item', () => {
+        expect(amountOf(statement.nonCashAdjustments, '1510')).toBe(50);
+    });
+
+    test('Growing receivables use cash; growing payables bring it in', () => {
+        expect(amountOf(statement.workingCapitalChanges, '1100')).toBe(-400);
+        expect(amountOf(statement.workingCapitalChanges, '2000')).toBe(200);
+        expect(statement.netOperating).toBe(300);
+    });
+
+    test('Buying fixed assets is an investing outflow', () => {
+        expect(amountOf(statement.investing, '1500')).toBe(-500);
+        expect(statement.netInvesting).toBe(-500);
+    });
+
+    test('Borrowing is a financing inflow and drawings an outflow', () => {
+        expect(amountOf(statement.financing, '2500')).toBe(1000);
+        expect(amountOf(statement.financing, '3000')).toBe(-100);
+        expect(statement.netFinancing).toBe(900);
+    });
+
+    test('Net change in cash matches the movement on the cash accounts', () => {
+        expect(statement.netChangeInCash).toBe(700);
+        expect(statement.closingCash).toBe(1200);
+        expect(statement.openingCash).toBe(500);
+        expect(statement.openingCash + statement.netChangeInCash).toBe(statement.closingCash);
+    });
+
+    test('Leaves cash and unmoved accounts out of the sections', () => {
+        const sections = [
+            ...statement.nonCashAdjustments,
+            ...statement.workingCapitalChanges,
+            ...statement.investing,
+            ...statement.financing
+        ];
+        const quiet = buildCashFlowStatement([...movements, account('1200', 'asset', 'debit', 0.001, 'current_asset')], closing);
+
+        expect(sections.map(item => item.accountCode)).not.toContain('1000');
+        expect(amountOf(quiet.workingCapitalChanges, '1200')).toBeUndefined();
+    });
+
+    test('A period with no postings reports zeros, not NaN', () => {
+        const empty = buildCashFlowStatement([], []);
+
+        expect(empty.netIncome).toBe(0);
+        expect(empty.netOperating).toBe(0);
+        expect(empty.netChangeInCash).toBe(0);
+        expect(empty.openingCash).toBe(0);
+        expect(empty.closingCash).toBe(0);
+    });
+
+    test('A loss paid in cash is an operating outflow', () => {
+        const loss = buildCashFlowStatement([
+            account('1000', 'asset', 'debit', -300),
+            account('5000', 'expense', 'debit', 300)
+        ], [account('1000', 'asset', 'debit', 200)]);
+
+        expect(loss.netIncome).toBe(-300);
+        expect(loss.netOperating).toBe(-300);
+        expect(loss.openingCash).toBe(500);
+    });
+});
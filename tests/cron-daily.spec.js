@@ -0,0 +1,36 @@
+const { test, expect } = require('@playwright/test');
+
+// The daily cron bills recurring invoices and charges late fees for every
+// tenant with the service role; only Vercel Cron, holding CRON_SECRET, may run it
+test.describe('Daily cron authorization', () => {
+    test('Rejects a request without the cron secret', async ({ request }) => {
+        const response = await request.get('/api/cron/daily');
+
+        expect(response.status()).toBe(401);
+        expect(await response.json()).toEqual({ success: false, error: 'Unauthorized' });
+    });
+
+    test('Rejects a request with the wrong cron secret', async ({ request }) => {
+        const response = await request.get('/api/cron/daily', {
+            headers: { Authorization: 'Bearer not-the-cron-secret' }
+        });
+
+        expect(response.status()).toBe(401);
+    });
+
+    test('Rejects the secret sent any other way than as a bearer token', async ({ request }) => {
+        test.skip(!process.env.CRON_SECRET, 'CRON_SECRET is not set');
+
+        const response = await request.get(`/api/cron/daily?secret=${encodeURIComponent(process.env.CRON_SECRET)}`, {
+            headers: { Authorization: process.env.CRON_SECRET }
+        });
+
+        expect(response.status()).toBe(401);
+    });
+
+    test('Rejects an empty bearer token', async ({ request }) => {
+        const response = await request.get('/api/cron/daily', { headers: { Authorization: 'Bearer ' } });
+
+        expect(response.status()).toBe(401);
+    });
+});
@@ -0,0 +1,63 @@
+const { test, expect } = require('@playwright/test');
+const { exchangeRateService } = require('../src/services/accounting/exchangeRateService');
+const { roundMoney } = require('../src/services/accounting/currency');
+
+test.describe('Realized FX on foreign-currency receipts', () => {
+    test('Receipt at a higher rate than issue is a gain', () => {
+        // EUR 1,000 invoiced at 1.10 and paid at 1.15
+        const fx = exchangeRateService.calculateRealizedFx(1000, 1.10, 1.15, 'USD');
+
+        expect(fx.carryingAmount).toBe(1100);
+        expect(fx.settledAmount).toBe(1150);
+        expect(fx.gainLoss).toBe(50);
+    });
+
+    test('Receipt at a lower rate than issue is a loss', () => {
+        const fx = exchangeRateService.calculateRealizedFx(1000, 1.10, 1.05, 'USD');
+
+        expect(fx.gainLoss).toBe(-50);
+        expect(fx.settledAmount - fx.carryingAmount).toBeCloseTo(fx.gainLoss, 10);
+    });
+
+    test('Same rate at issue and receipt has no gain or loss', () => {
+        const fx = exchangeRateService.calculateRealizedFx(333.33, 1.2345, 1.2345, 'USD');
+
+        expect(fx.gainLoss).toBe(0);
+    });
+
+    test('Amounts round to the base currency decimals', () => {
+        // USD 123.45 in a JPY ledger: whole yen
+        const fx = exchangeRateService.calculateRealizedFx(123.45, 149.876, 151.234, 'JPY');
+
+        expect(fx.carryingAmount).toBe(18502);
+        expect(fx.settledAmount).toBe(18670);
+        expect(fx.gainLoss).toBe(168);
+    });
+
+    test('A partial receipt carries its share of the receivable', () => {
+        const full = exchangeRateService.calculateRealizedFx(1000, 1.10, 1.15, 'USD');
+        const first = exchangeRateService.calculateRealizedFx(400, 1.10, 1.15, 'USD');
+        const second = exchangeRateService.calculateRealizedFx(600, 1.10, 1.15, 'USD');
+
+        expect(roundMoney(first.gainLoss + second.gainLoss, 'USD')).toBe(full.gainLoss);
+        expect(roundMoney(first.carryingAmount + second.carryingAmount, 'USD')).toBe(full.carryingAmount);
+    });
+
+    test('Reports a missing rate instead of converting at zero', async () => {
+        // No stored rate and no reference rate for the pair
+        const query = new Proxy({}, {
+            get: (_, key) => key === 'maybeSingle' ? async () => ({ data: null, error: null }) : () => query
+        });
+        const fetch = globalThis.fetch;
+        globalThis.fetch = async () => ({ ok: false });
+
+        try {
+            const { rate, error } = await exchangeRateService.getRate('tenant-1', 'usd', 'xyz', '2026-01-31', { from: () => query });
+
+            expect(rate).toBe(0);
+            expect(error).toBe('No exchange rate for USD/XYZ on 2026-01-31. Add one in accounting settings.');
+        } finally {
+            globalThis.fetch = fetch;
+        }
+    });
+});
@@ -0,0 +1,57 @@
+const { test, expect } = require('@playwright/test');
+const { allocateOldestFirst } = require('../src/services/invoicePaymentService');
+
+const invoices = [
+    { id: 'inv-1', amountDue: 100 },
+    { id: 'inv-2', amountDue: 250.5 },
+    { id: 'inv-3', amountDue: 75 }
+];
+
+test.describe('Payment allocation', () => {
+    test('Settles each invoice before the next', () => {
+        expect(allocateOldestFirst(300, invoices)).toEqual([
+            { invoiceId: 'inv-1', amount: 100 },
+            { invoiceId: 'inv-2', amount: 200 }
+        ]);
+    });
+
+    test('Leaves the excess of an overpayment unallocated', () => {
+        const allocations = allocateOldestFirst(500, invoices);
+        const allocated = allocations.reduce((sum, a) => sum + a.amount, 0);
+
+        expect(allocations).toHaveLength(3);
+        expect(allocated).toBe(425.5);
+        expect(Math.round((500 - allocated) * 100) / 100).toBe(74.5);
+    });
+
+    test('Skips invoices with nothing due', () => {
+        const allocations = allocateOldestFirst(50, [{ id: 'paid', amountDue: 0 }, ...invoices]);
+
+        expect(allocations).toEqual([{ invoiceId: 'inv-1', amount: 50 }]);
+    });
+
+    test('Allocates nothing from a zero payment', () => {
+        expect(allocateOldestFirst(0, invoices)).toEqual([]);
+    });
+
+    test('Never allocates fractions of a minor unit', () => {
+        const allocations = allocateOldestFirst(0.3, [
+            { id: 'a', amountDue: 0.1 },
+            { id: 'b', amountDue: 0.1 },
+            { id: 'c', amountDue: 0.1 }
+        ]);
+
+        expect(allocations.map(a => a.amount)).toEqual([0.1, 0.1, 0.1]);
+    });
+
+    test('Rounds to the payment currency', () => {
+        const allocations = allocateOldestFirst(1000, [{ id: 'jpy', amountDue: 1500 }], 'JPY');
+
+        expect(allocations).toEqual([{ invoiceId: 'jpy', amount: 1000 }]);
+    });
+
+    test('Allocates nothing from a negative payment or to no invoices', () => {
+        expect(allocateOldestFirst(-100, invoices)).toEqual([]);
+        expect(allocateOldestFirst(100, [])).toEqual([]);
+    });
+});
@@ -0,0 +1,65 @@
+const { test, expect } = require('@playwright/test');
+const { invokeCapability, isBlockedAddress } = require('../src/services/plugins/capabilities');
+
+const scope = {
+    tenantId: 'tenant-1',
+    tenantPluginId: 'tenant-plugin-1',
+    pluginSlug: 'probe',
+    permissions: ['http.request']
+};
+
+const request = (url) => invokeCapability(scope, 'http', 'request', [{ url }]);
+
+test.describe('Plugin HTTP requests', () => {
+    test('Blocks private, loopback, link-local and reserved addresses', () => {
+        for (const address of [
+            '127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254',
+            '100.64.0.1', '0.0.0.0', '224.0.0.1', '255.255.255.255',
+            '::', '::1', 'fe80::1', 'fd00::1', 'ff02::1'
+        ]) {
+            expect(isBlockedAddress(address), address).toBe(true);
+        }
+    });
+
+    test('Blocks IPv4-mapped IPv6 forms of internal addresses', () => {
+        expect(isBlockedAddress('::ffff:127.0.0.1')).toBe(true);
+        expect(isBlockedAddress('::ffff:7f00:1')).toBe(true);
+        expect(isBlockedAddress('::ffff:a9fe:a9fe')).toBe(true);
+    });
+
+    test('Allows public addresses', () => {
+        for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+            expect(isBlockedAddress(address), address).toBe(false);
+        }
+    });
+
+    test('Treats anything that is not an IP address as blocked', () => {
+        expect(isBlockedAddress('example.com')).toBe(true);
+        expect(isBlockedAddress('')).toBe(true);
+    });
+
+    test('Refuses internal hosts however the URL spells them', async () => {
+        for (const url of [
+            'http://localhost:3000/',
+            'http://metadata.google.internal/',
+            'http://[::]/',
+            'http://[::1]/',
+            'http://[::ffff:7f00:1]/',
+            'http://[::ffff:169.254.169.254]/',
+            'http://2130706433/',
+            'http://0x7f.1/',
+            'http://0.0.0.0/'
+        ]) {
+            await expect(request(url), url).rejects.toThrow(/not allowed/);
+        }
+    });
+
+    test('Refuses protocols other than HTTP and HTTPS', async () => {
+        await expect(request('file:///etc/passwd')).rejects.toThrow('Unsupported protocol file:');
+    });
+
+    test('Refuses requests from a plugin without the http.request permission', async () => {
+        await expect(invokeCapability({ ...scope, permissions: [] }, 'http', 'request', [{ url: 'https://example.com/' }]))
+            .rejects.toThrow("Plugin lacks the 'http.request:example.com' permission");
+    });
+});
@@ -0,0 +1,72 @@
+const { test, expect } = require('@playwright/test');
+const { compareVersions, maxSatisfying, parseDependency, satisfies } = require('../src/services/plugins/semver');
+
+const cases = [
+    ['^1.2.3', ['1.2.3', '1.9.0'], ['1.2.2', '2.0.0']],
+    ['^0.2.3', ['0.2.3', '0.2.9'], ['0.3.0']],
+    ['^0.0.3', ['0.0.3'], ['0.0.4']],
+    ['~1.2.3', ['1.2.3', '1.2.9'], ['1.3.0']],
+    ['~1', ['1.0.0', '1.9.9'], ['2.0.0']],
+    ['1.x', ['1.0.0', '1.99.0'], ['0.9.9', '2.0.0']],
+    ['1.2.*', ['1.2.0', '1.2.5'], ['1.3.0']],
+    ['*', ['0.0.1', '5.0.0'], []],
+    ['>=1.0 <2.0', ['1.0.0', '1.5.0'], ['0.9.9', '2.0.0']],
+    ['>1.2', ['1.3.0'], ['1.2.0', '1.2.9']],
+    ['<=1.2', ['1.2.9'], ['1.3.0']],
+    ['1.0.0 - 2.0.0', ['1.0.0', '2.0.0'], ['0.9.9', '2.0.1']],
+    ['1.0.0 - 2.0', ['2.0.9'], ['2.1.0']],
+    ['^1.0.0 || ^3.0.0', ['1.4.0', '3.1.0'], ['2.0.0']],
+    ['=1.2.3', ['1.2.3'], ['1.2.4']]
+];
+
+test.describe('Plugin version ranges', () => {
+    for (const [range, inside, outside] of cases) {
+        test(`${range} matches the versions it allows`, () => {
+            for (const version of inside) {
+                expect(satisfies(version, range), `${version} in ${range}`).toBe(true);
+            }
+            for (const version of outside) {
+                expect(satisfies(version, range), `${version} in ${range}`).toBe(false);
+            }
+        });
+    }
+
+    test('Prereleases only match ranges that name a prerelease of the same version', () => {
+        expect(satisfies('1.3.0-beta.1', '^1.2.0')).toBe(false);
+        expect(satisfies('1.3.0-beta.1', '>=1.3.0-beta.0')).toBe(true);
+        expect(satisfies('1.4.0-beta.1', '>=1.3.0-beta.0')).toBe(false);
+    });
+
+    test('Sorts prereleases before their release, numerically', () => {
+        const versions = ['1.0.0', '1.0.0-beta.10', '1.0.0-alpha', '1.0.0-beta.2', '1.0.0-alpha.1', '0.9.0'];
+
+        expect([...versions].sort(compareVersions)).toEqual([
+            '0.9.0', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta.2', '1.0.0-beta.10', '1.0.0'
+        ]);
+    });
+
+    test('Picks the highest version within a range', () => {
+        expect(maxSatisfying(['1.0.0', '1.10.0', '1.9.0', '2.0.0'], '^1.0.0')).toBe('1.10.0');
+        expect(maxSatisfying(['1.0.0', '2.0.0'], '^3.0.0')).toBeNull();
+    });
+
+    test('Rejects versions and ranges that do not parse', () => {
+        expect(satisfies('1.2', '^1.0.0')).toBe(false);
+        expect(satisfies('1.2.0', 'latest')).toBe(false);
+        expect(() => compareVersions('1.0.0', 'next')).toThrow('Invalid version: next');
+    });
+
+    test('Parses manifest dependencies', () => {
+        expect(parseDependency('crm-sync@^1.2.0')).toEqual({ slug: 'crm-sync', range: '^1.2.0' });
+        expect(parseDependency('crm-sync@>=1.0 <2.0')).toEqual({ slug: 'crm-sync', range: '>=1.0 <2.0' });
+        expect(parseDependency('crm-sync')).toEqual({ slug: 'crm-sync', range: '*' });
+        expect(parseDependency('crm-sync@latest')).toBeNull();
+    });
+
+    test('Rejects dependencies that do not parse', () => {
+        expect(parseDependency('')).toBeNull();
+        expect(parseDependency('crm sync@^1.0.0')).toBeNull();
+        expect(parseDependency('crm-sync@^x.y')).toBeNull();
+        expect(maxSatisfying(['1.0.0', '2.0.0'], 'latest')).toBeNull();
+    });
+});
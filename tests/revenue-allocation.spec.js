@@ -0,0 +1,43 @@
+const { test, expect } = require('@playwright/test');
+const { allocateRevenue } = require('../src/services/productCatalogService');
+
+test.describe('Revenue allocation', () => {
+    const accounts = new Map([['consulting', 'acc-4200'], ['hosting', 'acc-4300']]);
+
+    test('Splits revenue by product account in proportion to the lines', () => {
+        const parts = allocateRevenue([
+            { amount: 600, productId: 'consulting' },
+            { amount: 400, productId: 'hosting' }
+        ], accounts, 900, 'USD');
+
+        expect(parts).toEqual([
+            { accountId: 'acc-4200', amount: 540 },
+            { accountId: 'acc-4300', amount: 360 }
+        ]);
+    });
+
+    test('The default account absorbs rounding so the parts add up', () => {
+        const parts = allocateRevenue([
+            { amount: 1, productId: 'consulting' },
+            { amount: 1, productId: 'hosting' },
+            { amount: 1 }
+        ], accounts, 100, 'USD');
+        const total = parts.reduce((sum, part) => sum + part.amount, 0);
+
+        expect(Math.round(total * 100) / 100).toBe(100);
+        expect(parts.find(part => part.accountId === null).amount).toBe(33.34);
+    });
+
+    test('Lines without a mapped product go to the default account', () => {
+        expect(allocateRevenue([{ amount: 50 }, { amount: 25, productId: 'unmapped' }], accounts, 75, 'USD'))
+            .toEqual([{ accountId: null, amount: 75 }]);
+    });
+
+    test('Lines that add up to nothing leave the whole amount on the default account', () => {
+        expect(allocateRevenue([
+            { amount: 0, productId: 'consulting' },
+            { amount: 0, productId: 'hosting' }
+        ], accounts, 100, 'USD')).toEqual([{ accountId: null, amount: 100 }]);
+        expect(allocateRevenue([], accounts, 100, 'USD')).toEqual([{ accountId: null, amount: 100 }]);
+    });
+});
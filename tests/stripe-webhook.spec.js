@@ -0,0 +1,80 @@
+const { test, expect } = require('@playwright/test');
+const crypto = require('crypto');
+
+// Forged deliveries of the events that move money on tenant invoices
+const payment = {
+    id: 'evt_forged_payment',
+    type: 'checkout.session.completed',
+    created: Math.floor(Date.now() / 1000),
+    data: {
+        object: {
+            id: 'cs_forged',
+            amount_total: 100000,
+            currency: 'usd',
+            payment_intent: 'pi_forged',
+            metadata: { type: 'business_invoice', invoiceId: '00000000-0000-0000-0000-000000000000' }
+        }
+    }
+};
+
+const refund = {
+    id: 'evt_forged_refund',
+    type: 'charge.refunded',
+    created: Math.floor(Date.now() / 1000),
+    data: {
+        object: {
+            id: 'ch_forged',
+            amount_refunded: 100000,
+            currency: 'usd',
+            payment_intent: 'pi_forged',
+            metadata: { type: 'business_invoice', invoiceId: '00000000-0000-0000-0000-000000000000' }
+        }
+    }
+};
+
+const sign = (body, secret, timestamp = Math.floor(Date.now() / 1000)) => {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+};
+
+const post = (request, event, signature) => request.post('/api/stripe/webhook', {
+    headers: {
+        'Content-Type': 'application/json',
+        ...(signature && { 'Stripe-Signature': signature })
+    },
+    data: JSON.stringify(event)
+});
+
+test.describe('Stripe webhook signature', () => {
+    for (const event of [payment, refund]) {
+        test(`Rejects an unsigned ${event.type}`, async ({ request }) => {
+            const response = await post(request, event);
+
+            expect(response.status()).toBe(400);
+            expect((await response.json()).error).toMatch(/^Webhook Error/);
+        });
+
+        test(`Rejects a ${event.type} signed with another secret`, async ({ request }) => {
+            const response = await post(request, event, sign(JSON.stringify(event), 'whsec_not_the_endpoint_secret'));
+
+            expect(response.status()).toBe(400);
+        });
+    }
+
+    test('Rejects a correctly signed event replayed after the tolerance window', async ({ request }) => {
+        test.skip(!process.env.STRIPE_WEBHOOK_SECRET, 'STRIPE_WEBHOOK_SECRET is not set');
+
+        const body = JSON.stringify(payment);
+        const anHourAgo = Math.floor(Date.now() / 1000) - 3600;
+        const response = await post(request, payment, sign(body, process.env.STRIPE_WEBHOOK_SECRET, anHourAgo));
+
+        expect(response.status()).toBe(400);
+    });
+
+    test('Rejects a malformed signature header', async ({ request }) => {
+        const response = await post(request, payment, 'not-a-stripe-signature');
+
+        expect(response.status()).toBe(400);
+        expect((await response.json()).error).toMatch(/^Webhook Error/);
+    });
+});
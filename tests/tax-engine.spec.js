@@ -0,0 +1,94 @@
+const { test, expect } = require('@playwright/test');
+const { calculateTax } = require('../src/services/accounting/taxService');
+
+const rates = [
+    { id: 'gst', code: 'GST', components: [{ name: 'GST', rate: 10, isCompound: false }] },
+    { id: 'vat', code: 'VAT', components: [{ name: 'VAT', rate: 20, isCompound: false }] },
+    {
+        id: 'state', code: 'ST', components: [
+            { name: 'State', rate: 5, isCompound: false },
+            { name: 'County', rate: 2, isCompound: true }
+        ]
+    }
+];
+
+const line = (amount, taxRateId) => ({ description: 'Work', quantity: 1, rate: amount, amount, taxRateId });
+
+test.describe('Tax engine', () => {
+    test('Adds exclusive tax on top of the line', () => {
+        const result = calculateTax([line(100, 'gst')], rates, { currency: 'USD' });
+
+        expect(result.tax).toBe(10);
+        expect(result.total).toBe(110);
+        expect(result.taxRate).toBe(10);
+        expect(result.lineItems[0].taxAmount).toBe(10);
+    });
+
+    test('Charges a compound component on the line plus the components before it', () => {
+        const result = calculateTax([line(100, 'state')], rates, { currency: 'USD' });
+
+        expect(result.taxLines).toEqual([
+            expect.objectContaining({ component: 'State', taxableAmount: 100, taxAmount: 5 }),
+            expect.objectContaining({ component: 'County', taxableAmount: 105, taxAmount: 2.1 })
+        ]);
+        expect(result.tax).toBe(7.1);
+        expect(result.total).toBe(107.1);
+    });
+
+    test('Backs inclusive tax out of the line amount', () => {
+        const result = calculateTax([line(120, 'vat')], rates, { currency: 'USD', pricesIncludeTax: true });
+
+        expect(result.tax).toBe(20);
+        expect(result.total).toBe(120);
+        expect(result.taxLines[0].taxableAmount).toBe(100);
+    });
+
+    test('Backs compound inclusive tax out to the same base', () => {
+        const result = calculateTax([line(107.1, 'state')], rates, { currency: 'USD', pricesIncludeTax: true });
+
+        expect(result.taxLines.map(t => t.taxAmount)).toEqual([5, 2.1]);
+        expect(result.tax).toBe(7.1);
+        expect(result.total).toBe(107.1);
+    });
+
+    test('Spreads the discount over the lines before tax', () => {
+        const result = calculateTax([line(100, 'gst'), line(100)], rates, { currency: 'USD', discountAmount: 20 });
+
+        expect(result.taxLines[0].taxableAmount).toBe(90);
+        expect(result.tax).toBe(9);
+        expect(result.exemptAmount).toBe(90);
+        expect(result.total).toBe(189);
+    });
+
+    test('Charges an exempt client no tax', () => {
+        const result = calculateTax([line(100, 'gst'), line(50, 'state')], rates, { currency: 'USD', exempt: true });
+
+        expect(result.tax).toBe(0);
+        expect(result.taxLines).toEqual([]);
+        expect(result.exemptAmount).toBe(150);
+        expect(result.total).toBe(150);
+    });
+
+    test('Rounds tax per line and totals it per component', () => {
+        const result = calculateTax([line(33.33, 'gst'), line(33.33, 'gst'), line(33.34, 'gst')], rates, { currency: 'USD' });
+
+        expect(result.lineItems.map(l => l.taxAmount)).toEqual([3.33, 3.33, 3.33]);
+        expect(result.taxLines).toHaveLength(1);
+        expect(result.taxLines[0].taxableAmount).toBe(100);
+        expect(result.tax).toBe(9.99);
+        expect(result.total).toBe(109.99);
+    });
+
+    test('Leaves lines with an unknown or empty rate untaxed', () => {
+        const result = calculateTax(
+            [line(100, 'deleted-rate'), line(50, 'empty')],
+            [...rates, { id: 'empty', code: 'NONE', components: [] }],
+            { currency: 'USD' }
+        );
+
+        expect(result.tax).toBe(0);
+        expect(result.taxLines).toEqual([]);
+        expect(result.exemptAmount).toBe(150);
+        expect(result.total).toBe(150);
+    });
+});